@@ -4,18 +4,13 @@ import { WebSocketAuth } from './components/auth/websocket-auth';
 import { BusinessPage } from './components/business/business-page';
 import { Workspace } from './pages/workspace';
 import { NotFound } from './pages/not-found';
+import { SharedPage } from './pages/shared-page';
+import { ResetPasswordPage } from './pages/reset-password';
+import { VerifyEmailPage } from './pages/verify-email';
 import { useWebSocketAPI } from './hooks/useWebSocketAPI';
+import type { RealtimeUser } from '@shared/realtime';
 
-interface User {
-  id: string;
-  email: string;
-  username: string;
-  firstName: string;
-  lastName: string;
-  theme: string;
-  timezone: string;
-  language: string;
-}
+type User = RealtimeUser;
 
 interface AuthState {
   user: User | null;
@@ -30,7 +25,7 @@ function App() {
     isAuthenticated: false
   });
   const [isLoading, setIsLoading] = useState(true);
-  const { send, isConnected } = useWebSocketAPI();
+  const { request, isConnected } = useWebSocketAPI();
 
   // Check for existing authentication on app load
   useEffect(() => {
@@ -38,22 +33,15 @@ function App() {
       if (!isConnected) return;
       
       try {
-        const response = await send({
-          type: 'get_user'
-        });
+        const user = await request('get_user', {});
+        // User is authenticated, get their workspaces
+        const workspaces = await request('get_workspaces', {});
 
-        if (response.data && !response.error) {
-          // User is authenticated, get their workspaces
-          const workspacesResponse = await send({
-            type: 'get_workspaces'
-          });
-
-          setAuthState({
-            user: response.data,
-            workspaces: workspacesResponse.data || [],
-            isAuthenticated: true
-          });
-        }
+        setAuthState({
+          user,
+          workspaces,
+          isAuthenticated: true
+        });
       } catch (error) {
         console.log('No existing authentication found');
       } finally {
@@ -62,7 +50,7 @@ function App() {
     };
 
     checkAuth();
-  }, [isConnected, send]);
+  }, [isConnected, request]);
 
   // Handle subdomain routing for business pages
   const getSubdomain = () => {
@@ -79,6 +67,21 @@ function App() {
 
   const subdomain = getSubdomain();
 
+  // Share links open without signing in
+  const sharedToken = /^\/shared\/([^/]+)\/?$/.exec(window.location.pathname)?.[1];
+  if (sharedToken) {
+    return <SharedPage token={decodeURIComponent(sharedToken)} />;
+  }
+
+  // Links from account emails also work signed out
+  const emailToken = new URLSearchParams(window.location.search).get('token');
+  if (emailToken && window.location.pathname === '/reset-password') {
+    return <ResetPasswordPage token={emailToken} />;
+  }
+  if (emailToken && window.location.pathname === '/verify-email') {
+    return <VerifyEmailPage token={emailToken} />;
+  }
+
   // Show business page for subdomain routing
   if (subdomain) {
     return <BusinessPage subdomain={subdomain} />;
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck, ShieldAlert, ScrollText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AuditLogPage, AuditVerification, AuditSettings, CommentAuthor } from "@shared/schema";
+
+interface AuditLogProps {
+  workspaceId: number;
+}
+
+const ACTION_FAMILIES = [
+  { value: "all", label: "All actions" },
+  { value: "workspace.*", label: "Workspace" },
+  { value: "member.*", label: "Members" },
+  { value: "group.*", label: "Groups" },
+  { value: "page.*", label: "Pages" },
+  { value: "comment.*", label: "Comments" },
+  { value: "database.*", label: "Databases" },
+  { value: "calendar_event.*,calendar.*", label: "Calendar" },
+  { value: "analytics.*", label: "Analytics" },
+  { value: "audit.*", label: "Audit settings" },
+];
+
+const RETENTION_OPTIONS = [7, 30, 90, 180, 365];
+
+// "page.permissions_changed" reads as "Page permissions changed"
+const describeAction = (action: string) => {
+  const text = action.replace(/[._]/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const describeMetadata = (metadata: Record<string, unknown>) => {
+  const title = metadata.title ?? metadata.name ?? metadata.filename;
+  return typeof title === "string" ? title : "";
+};
+
+export default function AuditLog({ workspaceId }: AuditLogProps) {
+  const [actor, setActor] = useState("all");
+  const [action, setAction] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const params = new URLSearchParams();
+  if (actor !== "all") params.set("actor", actor);
+  if (action !== "all") params.set("action", action);
+  // Date inputs are local days; the range covers the whole of the last day
+  if (from) params.set("from", String(new Date(`${from}T00:00:00`).getTime()));
+  if (to) params.set("to", String(new Date(`${to}T23:59:59.999`).getTime()));
+  const filterQuery = params.toString();
+
+  const { data: members } = useQuery<{ userId: string; user: CommentAuthor }[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/members`],
+    enabled: !!workspaceId,
+  });
+
+  const { data: settings } = useQuery<AuditSettings>({
+    queryKey: [`/api/workspaces/${workspaceId}/audit/settings`],
+    enabled: !!workspaceId,
+  });
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [`/api/workspaces/${workspaceId}/audit`, filterQuery],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(filterQuery);
+      if (pageParam !== null) pageParams.set("before", String(pageParam));
+      const response = await apiRequest("GET", `/api/workspaces/${workspaceId}/audit?${pageParams}`);
+      return (await response.json()) as AuditLogPage;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!workspaceId,
+  });
+
+  const entries = data?.pages.flatMap(page => page.entries) ?? [];
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `/api/workspaces/${workspaceId}/audit/verify`);
+      return (await response.json()) as AuditVerification;
+    },
+    onSuccess: (result) => setVerification(result),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to verify the audit log",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async (retentionDays: number | null) => {
+      const response = await apiRequest("PUT", `/api/workspaces/${workspaceId}/audit/settings`, { retentionDays });
+      return (await response.json()) as AuditSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/audit/settings`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/audit`] });
+      setVerification(null);
+      toast({
+        title: "Retention updated",
+        description: "Older audit entries are removed on the new schedule",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retentionChoices = RETENTION_OPTIONS.filter(days =>
+    settings?.maxRetentionDays == null || days <= settings.maxRetentionDays
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Audit log</h2>
+          <p className="text-muted-foreground">
+            A tamper-evident record of changes made in this workspace
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => verifyMutation.mutate()}
+          disabled={verifyMutation.isPending}
+        >
+          {verifyMutation.isPending
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <ShieldCheck className="h-4 w-4 mr-2" />}
+          Verify integrity
+        </Button>
+      </div>
+
+      {verification && (
+        <Alert variant={verification.valid ? "default" : "destructive"}>
+          {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+          <AlertDescription>
+            {verification.valid
+              ? `All ${verification.checked} entries are intact${verification.anchor ? `, continuing from entry #${verification.anchor.seq} kept after retention` : ""}.`
+              : `Entry #${verification.failure?.seq}: ${verification.failure?.reason}. ${verification.checked} entries before it are intact.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention</CardTitle>
+          <CardDescription>
+            {settings?.maxRetentionDays == null
+              ? `Your ${settings?.plan ?? ""} plan can keep audit entries indefinitely`
+              : `Your ${settings.plan} plan keeps audit entries for up to ${settings.maxRetentionDays} days`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={settings?.retentionDays == null ? "forever" : String(settings.retentionDays)}
+            onValueChange={(value) => retentionMutation.mutate(value === "forever" ? null : parseInt(value))}
+            disabled={!settings || retentionMutation.isPending}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {retentionChoices.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+              {settings?.maxRetentionDays != null && !RETENTION_OPTIONS.includes(settings.maxRetentionDays) && (
+                <SelectItem value={String(settings.maxRetentionDays)}>{settings.maxRetentionDays} days</SelectItem>
+              )}
+              {settings?.maxRetentionDays == null && <SelectItem value="forever">Keep forever</SelectItem>}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label>Actor</Label>
+          <Select value={actor} onValueChange={setActor}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              {members?.map(member => (
+                <SelectItem key={member.userId} value={member.userId}>{member.user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Action</Label>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACTION_FAMILIES.map(family => (
+                <SelectItem key={family.value} value={family.value}>{family.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-14 bg-muted animate-pulse rounded"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ScrollText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No audit entries match these filters</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{describeAction(entry.action)}</span>
+                  <Badge variant="secondary">{entry.resourceType} {entry.resourceId}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {entry.actor.name}
+                  {describeMetadata(entry.metadata) && ` · ${describeMetadata(entry.metadata)}`}
+                  {entry.ipAddress && ` · ${entry.ipAddress}`}
+                </p>
+              </div>
+              <div className="text-right text-sm text-muted-foreground shrink-0 ml-4">
+                <p>{new Date(entry.createdAt).toLocaleString()}</p>
+                <p className="font-mono text-xs" title={entry.hash ?? undefined}>#{entry.seq}</p>
+              </div>
+            </div>
+          ))}
+          {hasNextPage && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -9,10 +10,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import { Eye, EyeOff, Mail, Lock, User, Shield } from "lucide-react";
+import { Eye, EyeOff, Mail, Lock, User, Shield, KeyRound, Fingerprint } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import MFASetup from "@/components/auth/mfa-setup";
+import PasskeyList from "@/components/auth/passkey-list";
+import { passkeysSupported } from "@/lib/webauthn";
+import type { MFAChallenge } from "@shared/schema";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -33,11 +39,35 @@ type LoginForm = z.infer<typeof loginSchema>;
 type RegisterForm = z.infer<typeof registerSchema>;
 
 export default function CredentialAuth() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, mfaLoginMutation, passkeyLoginMutation, registerMutation } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  // Set once the password was accepted and the account asks for a second factor
+  const [mfaPending, setMfaPending] = useState<MFAChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  // The forgot-password form replaces the sign-in form while open
+  const [forgotPassword, setForgotPassword] = useState(false);
+  const [resetEmail, setResetEmail] = useState("");
+
+  const resetRequestMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", "/api/password/forgot", { email });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: "Check your email", description: message });
+      setForgotPassword(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send the reset email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const loginForm = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -57,6 +87,24 @@ export default function CredentialAuth() {
     },
   });
 
+  // A workspace requires MFA: enroll before going any further
+  if (user?.mfaEnrollmentRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-12 px-4">
+        <Alert className="max-w-2xl mx-auto mb-6">
+          <Shield className="h-4 w-4" />
+          <AlertDescription>
+            One of your workspaces requires multi-factor authentication. Set it up to continue.
+          </AlertDescription>
+        </Alert>
+        <MFASetup onComplete={() => setLocation("/")} />
+        <div className="max-w-2xl mx-auto mt-6">
+          <PasskeyList onAdded={() => setLocation("/")} />
+        </div>
+      </div>
+    );
+  }
+
   // Redirect if already logged in
   if (user) {
     setLocation("/");
@@ -65,10 +113,15 @@ export default function CredentialAuth() {
 
   const onLogin = async (data: LoginForm) => {
     try {
-      await loginMutation.mutateAsync({
+      const result = await loginMutation.mutateAsync({
         username: data.email,
         password: data.password,
       });
+      if ("mfaRequired" in result) {
+        setMfaCode("");
+        setMfaPending(result);
+        return;
+      }
       toast({
         title: "Welcome back!",
         description: "You have successfully logged in.",
@@ -79,6 +132,28 @@ export default function CredentialAuth() {
     }
   };
 
+  const onVerifyMfa = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await mfaLoginMutation.mutateAsync(mfaCode.trim());
+      setLocation("/");
+    } catch (error) {
+      // Too many attempts or an expired challenge means starting over with the password
+      if (error instanceof Error && /^(401|429): .*Sign in again/.test(error.message)) {
+        setMfaPending(null);
+      }
+    }
+  };
+
+  const onPasskeyLogin = async () => {
+    try {
+      await passkeyLoginMutation.mutateAsync();
+      setLocation("/");
+    } catch (error) {
+      console.error("Passkey login error:", error);
+    }
+  };
+
   const onRegister = async (data: RegisterForm) => {
     try {
       await registerMutation.mutateAsync({
@@ -125,64 +200,185 @@ export default function CredentialAuth() {
                       </TabsList>
                       
                       <TabsContent value="login" className="space-y-4">
-                        <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="login-email">Email</Label>
-                            <div className="relative">
-                              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                              <Input
-                                id="login-email"
-                                type="email"
-                                placeholder="Enter your email"
-                                className="pl-10"
-                                {...loginForm.register("email")}
-                              />
-                            </div>
-                            {loginForm.formState.errors.email && (
-                              <p className="text-sm text-red-600">
-                                {loginForm.formState.errors.email.message}
-                              </p>
+                        {mfaPending ? (
+                          <form onSubmit={onVerifyMfa} className="space-y-4">
+                            {mfaPending.methods.includes("totp") && (
+                              <>
+                                <div className="space-y-2">
+                                  <Label htmlFor="login-mfa-code">Verification code</Label>
+                                  <div className="relative">
+                                    <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                    <Input
+                                      id="login-mfa-code"
+                                      placeholder="123456"
+                                      autoComplete="one-time-code"
+                                      autoFocus
+                                      className="pl-10"
+                                      value={mfaCode}
+                                      onChange={(e) => setMfaCode(e.target.value)}
+                                    />
+                                  </div>
+                                  <p className="text-sm text-muted-foreground">
+                                    Enter the code from your authenticator app, or one of your backup codes.
+                                  </p>
+                                </div>
+
+                                <Button
+                                  type="submit"
+                                  className="w-full"
+                                  disabled={mfaLoginMutation.isPending || mfaCode.trim().length < 6}
+                                >
+                                  {mfaLoginMutation.isPending ? "Verifying..." : "Verify"}
+                                </Button>
+                              </>
                             )}
-                          </div>
-                          
-                          <div className="space-y-2">
-                            <Label htmlFor="login-password">Password</Label>
-                            <div className="relative">
-                              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                              <Input
-                                id="login-password"
-                                type={showPassword ? "text" : "password"}
-                                placeholder="Enter your password"
-                                className="pl-10 pr-10"
-                                {...loginForm.register("password")}
-                              />
-                              <button
+                            {mfaPending.methods.includes("passkey") && (
+                              <Button
                                 type="button"
-                                onClick={() => setShowPassword(!showPassword)}
-                                className="absolute right-3 top-1/2 transform -translate-y-1/2"
+                                variant={mfaPending.methods.includes("totp") ? "outline" : "default"}
+                                className="w-full"
+                                disabled={passkeyLoginMutation.isPending}
+                                onClick={onPasskeyLogin}
                               >
-                                {showPassword ? (
-                                  <EyeOff className="h-4 w-4 text-muted-foreground" />
+                                <Fingerprint className="h-4 w-4 mr-2" />
+                                {passkeyLoginMutation.isPending ? "Waiting for passkey..." : "Use a passkey"}
+                              </Button>
+                            )}
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              className="w-full"
+                              onClick={() => setMfaPending(null)}
+                            >
+                              Use a different account
+                            </Button>
+                          </form>
+                        ) : forgotPassword ? (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              resetRequestMutation.mutate(resetEmail.trim());
+                            }}
+                            className="space-y-4"
+                          >
+                            <div className="space-y-2">
+                              <Label htmlFor="reset-email">Email</Label>
+                              <div className="relative">
+                                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                  id="reset-email"
+                                  type="email"
+                                  placeholder="Enter your email"
+                                  autoFocus
+                                  className="pl-10"
+                                  value={resetEmail}
+                                  onChange={(e) => setResetEmail(e.target.value)}
+                                />
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                We will email you a link to choose a new password.
+                              </p>
+                            </div>
+                            <Button
+                              type="submit"
+                              className="w-full"
+                              disabled={resetRequestMutation.isPending || !resetEmail.trim()}
+                            >
+                              {resetRequestMutation.isPending ? "Sending..." : "Send reset link"}
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              className="w-full"
+                              onClick={() => setForgotPassword(false)}
+                            >
+                              Back to sign in
+                            </Button>
+                          </form>
+                        ) : (
+                          <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="login-email">Email</Label>
+                              <div className="relative">
+                                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                  id="login-email"
+                                  type="email"
+                                  placeholder="Enter your email"
+                                  className="pl-10"
+                                  {...loginForm.register("email")}
+                                />
+                              </div>
+                              {loginForm.formState.errors.email && (
+                                <p className="text-sm text-red-600">
+                                  {loginForm.formState.errors.email.message}
+                                </p>
+                              )}
+                            </div>
+                          
+                            <div className="space-y-2">
+                              <div className="flex items-center justify-between">
+                                <Label htmlFor="login-password">Password</Label>
+                                <button
+                                  type="button"
+                                  className="text-sm text-muted-foreground hover:underline"
+                                  onClick={() => {
+                                    setResetEmail(loginForm.getValues("email"));
+                                    setForgotPassword(true);
+                                  }}
+                                >
+                                  Forgot password?
+                                </button>
+                              </div>
+                              <div className="relative">
+                                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                  id="login-password"
+                                  type={showPassword ? "text" : "password"}
+                                  placeholder="Enter your password"
+                                  className="pl-10 pr-10"
+                                  {...loginForm.register("password")}
+                                />
+                                <button
+                                  type="button"
+                                  onClick={() => setShowPassword(!showPassword)}
+                                  className="absolute right-3 top-1/2 transform -translate-y-1/2"
+                                >
+                                  {showPassword ? (
+                                    <EyeOff className="h-4 w-4 text-muted-foreground" />
                                 ) : (
-                                  <Eye className="h-4 w-4 text-muted-foreground" />
-                                )}
-                              </button>
+                                    <Eye className="h-4 w-4 text-muted-foreground" />
+                                  )}
+                                </button>
+                              </div>
+                              {loginForm.formState.errors.password && (
+                                <p className="text-sm text-red-600">
+                                  {loginForm.formState.errors.password.message}
+                                </p>
+                              )}
                             </div>
-                            {loginForm.formState.errors.password && (
-                              <p className="text-sm text-red-600">
-                                {loginForm.formState.errors.password.message}
-                              </p>
-                            )}
-                          </div>
                           
-                          <Button
-                            type="submit"
-                            className="w-full"
-                            disabled={loginMutation.isPending}
-                          >
-                            {loginMutation.isPending ? "Signing in..." : "Sign In"}
-                          </Button>
-                        </form>
+                            <Button
+                              type="submit"
+                              className="w-full"
+                              disabled={loginMutation.isPending}
+                            >
+                              {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                            </Button>
+                            {passkeysSupported() && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                className="w-full"
+                                disabled={passkeyLoginMutation.isPending}
+                                onClick={onPasskeyLogin}
+                              >
+                                <Fingerprint className="h-4 w-4 mr-2" />
+                                {passkeyLoginMutation.isPending ? "Waiting for passkey..." : "Sign in with a passkey"}
+                              </Button>
+                            )}
+                          </form>
+                        )}
                       </TabsContent>
                       
                       <TabsContent value="register" className="space-y-4">
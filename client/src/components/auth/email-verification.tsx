@@ -0,0 +1,57 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+
+// Reminds people who have not opened their verification link yet; renders nothing once
+// the address is confirmed
+export default function EmailVerification() {
+  const { toast } = useToast();
+
+  const { data: user } = useQuery<User>({
+    queryKey: ['/api/auth/user'],
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/verify-email/resend');
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Open the link we sent to ${user?.email} to confirm it.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send the email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.email || user.emailVerifiedAt) return null;
+
+  return (
+    <Alert>
+      <Mail className="h-4 w-4" />
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <span>
+          {user.email} is not confirmed yet. Open the link in the email we sent you.
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend email"}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -6,118 +6,108 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Shield, Key, Download, AlertTriangle, CheckCircle, RefreshCw, Copy } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Shield, Download, AlertTriangle, CheckCircle, RefreshCw, Copy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import QRCode from "qrcode";
+import type { MFAEnrollment, MFAStatus } from "@shared/schema";
 
-interface MFASetup {
-  isEnabled: boolean;
-  secret?: string;
-  qrCode?: string;
-  backupCodes?: string[];
-  lastUsed?: string;
+interface MFASetupProps {
+  onComplete?: (backupCodes: string[]) => void;
 }
 
-export default function MFASetup() {
+type MFAStatusWithCodes = MFAStatus & { backupCodes: string[] };
+
+// Actions that need a current code before they go through
+type CodeAction = "disable" | "backup-codes";
+
+export default function MFASetup({ onComplete }: MFASetupProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [verificationCode, setVerificationCode] = useState("");
-  const [showBackupCodes, setShowBackupCodes] = useState(false);
-  const [showSetupDialog, setShowSetupDialog] = useState(false);
+  const [enrollment, setEnrollment] = useState<(MFAEnrollment & { qrCode: string | null }) | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  // onComplete fires once the codes from a fresh enrollment have been put away
+  const [justEnrolled, setJustEnrolled] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [confirmCode, setConfirmCode] = useState("");
 
-  const { data: mfaStatus, isLoading } = useQuery<MFASetup>({
+  const { data: mfaStatus, isLoading } = useQuery<MFAStatus>({
     queryKey: ['/api/auth/mfa/status'],
   });
 
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const setupMFAMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', '/api/auth/mfa/setup');
-      return await response.json();
+      return (await response.json()) as MFAEnrollment;
     },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['/api/auth/mfa/status'], data);
-      setShowSetupDialog(true);
-    },
-    onError: () => {
-      toast({
-        title: "Setup failed",
-        description: "Failed to setup MFA. Please try again.",
-        variant: "destructive",
-      });
+    onSuccess: async (data) => {
+      // The QR code is drawn here so the key never goes to a third-party service
+      const qrCode = await QRCode.toDataURL(data.otpauthUri, { width: 200, margin: 1 }).catch(() => null);
+      setVerificationCode("");
+      setEnrollment({ ...data, qrCode });
     },
+    onError: showError("Setup failed"),
   });
 
   const enableMFAMutation = useMutation({
     mutationFn: async (code: string) => {
       const response = await apiRequest('POST', '/api/auth/mfa/enable', { code });
-      return await response.json();
+      return (await response.json()) as MFAStatusWithCodes;
     },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['/api/auth/mfa/status'], data);
-      setShowSetupDialog(false);
-      setShowBackupCodes(true);
+    onSuccess: ({ backupCodes: codes, ...status }) => {
+      queryClient.setQueryData(['/api/auth/mfa/status'], status);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      setEnrollment(null);
+      setBackupCodes(codes);
+      setJustEnrolled(true);
       toast({
         title: "MFA enabled",
         description: "Multi-factor authentication has been enabled successfully.",
       });
     },
-    onError: () => {
-      toast({
-        title: "Verification failed",
-        description: "Invalid verification code. Please try again.",
-        variant: "destructive",
-      });
-    },
+    onError: showError("Verification failed"),
   });
 
-  const disableMFAMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/auth/mfa/disable');
-      return await response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/status'] });
-      toast({
-        title: "MFA disabled",
-        description: "Multi-factor authentication has been disabled.",
-      });
+  const confirmedActionMutation = useMutation({
+    mutationFn: async ({ action, code }: { action: CodeAction; code: string }) => {
+      const response = await apiRequest('POST', `/api/auth/mfa/${action}`, { code });
+      return (await response.json()) as MFAStatus | MFAStatusWithCodes;
     },
-    onError: () => {
-      toast({
-        title: "Disable failed",
-        description: "Failed to disable MFA. Please try again.",
-        variant: "destructive",
-      });
+    onSuccess: (data, { action }) => {
+      setCodeAction(null);
+      if ("backupCodes" in data) {
+        const { backupCodes: codes, ...status } = data;
+        queryClient.setQueryData(['/api/auth/mfa/status'], status);
+        setBackupCodes(codes);
+      } else {
+        queryClient.setQueryData(['/api/auth/mfa/status'], data);
+      }
+      toast(action === "disable"
+        ? { title: "MFA disabled", description: "Multi-factor authentication has been disabled." }
+        : { title: "Backup codes generated", description: "Your old backup codes no longer work." });
     },
+    onError: showError("Verification failed"),
   });
 
-  const generateBackupCodesMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/auth/mfa/backup-codes');
-      return await response.json();
-    },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['/api/auth/mfa/status'], data);
-      setShowBackupCodes(true);
-      toast({
-        title: "Backup codes generated",
-        description: "New backup codes have been generated.",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Generation failed",
-        description: "Failed to generate backup codes. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
+  const closeBackupCodes = () => {
+    if (backupCodes && justEnrolled) onComplete?.(backupCodes);
+    setBackupCodes(null);
+    setJustEnrolled(false);
+  };
 
   const copyBackupCodes = () => {
-    if (mfaStatus?.backupCodes) {
-      navigator.clipboard.writeText(mfaStatus.backupCodes.join('\n'));
+    if (backupCodes) {
+      navigator.clipboard.writeText(backupCodes.join('\n'));
       toast({
         title: "Copied",
         description: "Backup codes copied to clipboard.",
@@ -126,8 +116,8 @@ export default function MFASetup() {
   };
 
   const downloadBackupCodes = () => {
-    if (mfaStatus?.backupCodes) {
-      const blob = new Blob([mfaStatus.backupCodes.join('\n')], { type: 'text/plain' });
+    if (backupCodes) {
+      const blob = new Blob([backupCodes.join('\n')], { type: 'text/plain' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -141,6 +131,10 @@ export default function MFASetup() {
     return <div className="p-8">Loading MFA settings...</div>;
   }
 
+  const requiredBy = mfaStatus?.requiredBy ?? [];
+  // A workspace policy is still met by a passkey, so the app may only go if one is registered
+  const canDisable = requiredBy.length === 0 || (mfaStatus?.passkeyCount ?? 0) > 0;
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       <Card>
@@ -166,10 +160,15 @@ export default function MFASetup() {
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription>
                   MFA is currently disabled. Enable it to secure your account with an additional verification step.
+                  {requiredBy.length > 0 && (
+                    <span className="block mt-1 text-sm">
+                      Required by {requiredBy.map(workspace => workspace.name).join(", ")}.
+                    </span>
+                  )}
                 </AlertDescription>
               </Alert>
-              
-              <Button 
+
+              <Button
                 onClick={() => setupMFAMutation.mutate()}
                 disabled={setupMFAMutation.isPending}
               >
@@ -183,36 +182,27 @@ export default function MFASetup() {
                 <CheckCircle className="h-4 w-4" />
                 <AlertDescription>
                   MFA is enabled. Your account is protected with two-factor authentication.
-                  {mfaStatus.lastUsed && (
-                    <span className="block mt-1 text-sm">
-                      Last used: {new Date(mfaStatus.lastUsed).toLocaleString()}
-                    </span>
-                  )}
+                  <span className="block mt-1 text-sm">
+                    {mfaStatus.backupCodesRemaining} unused backup code{mfaStatus.backupCodesRemaining !== 1 ? 's' : ''} left.
+                    {mfaStatus.lastUsed && <> Last used: {new Date(mfaStatus.lastUsed).toLocaleString()}</>}
+                  </span>
                 </AlertDescription>
               </Alert>
-              
+
               <div className="flex space-x-4">
-                <Button 
+                <Button
                   variant="outline"
-                  onClick={() => generateBackupCodesMutation.mutate()}
-                  disabled={generateBackupCodesMutation.isPending}
+                  onClick={() => { setConfirmCode(""); setCodeAction("backup-codes"); }}
                 >
                   <RefreshCw className="h-4 w-4 mr-2" />
                   Generate New Backup Codes
                 </Button>
-                
-                <Button 
-                  variant="outline"
-                  onClick={() => setShowBackupCodes(true)}
-                >
-                  <Key className="h-4 w-4 mr-2" />
-                  View Backup Codes
-                </Button>
-                
-                <Button 
+
+                <Button
                   variant="destructive"
-                  onClick={() => disableMFAMutation.mutate()}
-                  disabled={disableMFAMutation.isPending}
+                  onClick={() => { setConfirmCode(""); setCodeAction("disable"); }}
+                  disabled={!canDisable}
+                  title={canDisable ? undefined : `Required by ${requiredBy[0].name}`}
                 >
                   Disable MFA
                 </Button>
@@ -223,7 +213,7 @@ export default function MFASetup() {
       </Card>
 
       {/* Setup Dialog */}
-      <Dialog open={showSetupDialog} onOpenChange={setShowSetupDialog}>
+      <Dialog open={!!enrollment} onOpenChange={(open) => !open && setEnrollment(null)}>
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>Setup Multi-Factor Authentication</DialogTitle>
@@ -233,17 +223,19 @@ export default function MFASetup() {
               <p className="text-sm text-muted-foreground mb-4">
                 Scan this QR code with your authenticator app
               </p>
-              {mfaStatus?.qrCode && (
-                <img 
-                  src={mfaStatus.qrCode} 
-                  alt="QR Code" 
+              {enrollment?.qrCode && (
+                <img
+                  src={enrollment.qrCode}
+                  alt="QR Code"
                   className="mx-auto border rounded-lg"
                   width={200}
                   height={200}
                 />
               )}
+              <p className="text-xs text-muted-foreground mt-4">Or enter this key by hand</p>
+              <code className="block mt-1 font-mono text-sm break-all">{enrollment?.secret}</code>
             </div>
-            
+
             <div>
               <Label htmlFor="verification-code">Enter verification code</Label>
               <Input
@@ -251,13 +243,14 @@ export default function MFASetup() {
                 value={verificationCode}
                 onChange={(e) => setVerificationCode(e.target.value)}
                 placeholder="123456"
+                autoComplete="one-time-code"
                 maxLength={6}
               />
             </div>
-            
-            <Button 
+
+            <Button
               onClick={() => enableMFAMutation.mutate(verificationCode)}
-              disabled={enableMFAMutation.isPending || !verificationCode}
+              disabled={enableMFAMutation.isPending || verificationCode.length !== 6}
               className="w-full"
             >
               {enableMFAMutation.isPending ? 'Verifying...' : 'Enable MFA'}
@@ -266,8 +259,37 @@ export default function MFASetup() {
         </DialogContent>
       </Dialog>
 
+      {/* Confirm-with-code Dialog */}
+      <Dialog open={!!codeAction} onOpenChange={(open) => !open && setCodeAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{codeAction === "disable" ? "Disable MFA" : "Generate New Backup Codes"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="confirm-code">Authenticator or backup code</Label>
+              <Input
+                id="confirm-code"
+                value={confirmCode}
+                onChange={(e) => setConfirmCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+              />
+            </div>
+            <Button
+              variant={codeAction === "disable" ? "destructive" : "default"}
+              onClick={() => codeAction && confirmedActionMutation.mutate({ action: codeAction, code: confirmCode.trim() })}
+              disabled={confirmedActionMutation.isPending || confirmCode.trim().length < 6}
+              className="w-full"
+            >
+              {confirmedActionMutation.isPending ? 'Verifying...' : 'Confirm'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Backup Codes Dialog */}
-      <Dialog open={showBackupCodes} onOpenChange={setShowBackupCodes}>
+      <Dialog open={!!backupCodes} onOpenChange={(open) => !open && closeBackupCodes()}>
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>Backup Codes</DialogTitle>
@@ -276,31 +298,31 @@ export default function MFASetup() {
             <Alert>
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
-                Save these backup codes in a safe place. You can use them to access your account if you lose your authenticator device.
+                Save these backup codes in a safe place. Each one works once, and they will not be shown again.
               </AlertDescription>
             </Alert>
-            
+
             <div className="bg-muted p-4 rounded-lg">
               <div className="grid grid-cols-2 gap-2 font-mono text-sm">
-                {mfaStatus?.backupCodes?.map((code, index) => (
-                  <div key={index} className="p-2 bg-background rounded border">
+                {backupCodes?.map((code) => (
+                  <div key={code} className="p-2 bg-background rounded border">
                     {code}
                   </div>
                 ))}
               </div>
             </div>
-            
+
             <div className="flex space-x-2">
-              <Button 
-                variant="outline" 
+              <Button
+                variant="outline"
                 onClick={copyBackupCodes}
                 className="flex-1"
               >
                 <Copy className="h-4 w-4 mr-2" />
                 Copy
               </Button>
-              <Button 
-                variant="outline" 
+              <Button
+                variant="outline"
                 onClick={downloadBackupCodes}
                 className="flex-1"
               >
@@ -308,9 +330,12 @@ export default function MFASetup() {
                 Download
               </Button>
             </div>
+            <Button onClick={closeBackupCodes} className="w-full">
+              I have saved these codes
+            </Button>
           </div>
         </DialogContent>
       </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Fingerprint, Pencil, Trash2, Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { createPasskey, passkeysSupported } from "@/lib/webauthn";
+import type { PasskeyView } from "@shared/schema";
+
+interface PasskeyListProps {
+  onAdded?: (passkey: PasskeyView) => void;
+}
+
+export default function PasskeyList({ onAdded }: PasskeyListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null);
+
+  const { data: passkeys, isLoading } = useQuery<PasskeyView[]>({
+    queryKey: ['/api/auth/passkeys'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/passkeys'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/status'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const options = await (await apiRequest('POST', '/api/auth/passkeys/options')).json();
+      const credential = await createPasskey(options);
+      const response = await apiRequest('POST', '/api/auth/passkeys', { name: name.trim() || undefined, credential });
+      return (await response.json()) as PasskeyView;
+    },
+    onSuccess: (passkey) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      setNewName("");
+      toast({
+        title: "Passkey added",
+        description: `You can now sign in with "${passkey.name}".`,
+      });
+      onAdded?.(passkey);
+    },
+    onError: showError("Could not add passkey"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const response = await apiRequest('PATCH', `/api/auth/passkeys/${id}`, { name });
+      return (await response.json()) as PasskeyView;
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+    },
+    onError: showError("Could not rename passkey"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/auth/passkeys/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: showError("Could not remove passkey"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Fingerprint className="h-5 w-5" />
+          <CardTitle>Passkeys</CardTitle>
+        </div>
+        <CardDescription>
+          Sign in with your fingerprint, face, screen lock or a security key instead of a password,
+          or use one as your second step after it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading passkeys...</p>
+        ) : !passkeys?.length ? (
+          <p className="text-sm text-muted-foreground">No passkeys yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {passkeys.map(passkey => (
+              <div key={passkey.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="min-w-0 flex-1">
+                  {editing?.id === passkey.id ? (
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        value={editing.name}
+                        onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                        maxLength={100}
+                        autoFocus
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={!editing.name.trim() || renameMutation.isPending}
+                        onClick={() => renameMutation.mutate(editing)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium truncate">{passkey.name}</span>
+                      {passkey.backedUp && <Badge variant="secondary">Synced</Badge>}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {passkey.createdAt && <>Added {new Date(passkey.createdAt).toLocaleDateString()}</>}
+                    {passkey.lastUsedAt
+                      ? <> · Last used {new Date(passkey.lastUsedAt).toLocaleString()}</>
+                      : <> · Never used</>}
+                  </p>
+                </div>
+                {editing?.id !== passkey.id && (
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Rename"
+                      onClick={() => setEditing({ id: passkey.id, name: passkey.name })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Remove"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(passkey.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {passkeysSupported() ? (
+          <div className="flex space-x-2">
+            <Input
+              placeholder="Name, e.g. Work laptop"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={100}
+            />
+            <Button onClick={() => addMutation.mutate(newName)} disabled={addMutation.isPending}>
+              <Fingerprint className="h-4 w-4 mr-2" />
+              {addMutation.isPending ? "Waiting..." : "Add passkey"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Laptop, LogOut, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { SessionView } from "@shared/schema";
+
+// Enough of the user agent to tell sessions apart, e.g. "Firefox on Windows"
+function describeDevice(userAgent: string | null): { label: string; mobile: boolean } {
+  if (!userAgent) return { label: "Unknown device", mobile: false };
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return { label: os ? `${browser} on ${os}` : browser, mobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+}
+
+export default function SessionList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions, isLoading } = useQuery<SessionView[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/auth/sessions/${encodeURIComponent(id)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: showError("Could not sign out the session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/auth/sessions');
+      return (await response.json()) as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: "Signed out other sessions",
+        description: `${revoked} session${revoked === 1 ? '' : 's'} signed out.`,
+      });
+    },
+    onError: showError("Could not sign out other sessions"),
+  });
+
+  const others = sessions?.filter(session => !session.current) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active sessions</CardTitle>
+        <CardDescription>
+          Browsers signed in to your account. Sign out any you do not recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : !sessions?.length ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <div className="space-y-2">
+            {sessions.map(session => {
+              const device = describeDevice(session.userAgent);
+              const Icon = device.mobile ? Smartphone : Laptop;
+              return (
+                <div key={session.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="flex min-w-0 flex-1 items-center space-x-3">
+                    <Icon className="h-5 w-5 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium truncate">{device.label}</span>
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress ?? "Unknown address"}
+                        {session.createdAt && <> · Signed in {new Date(session.createdAt).toLocaleString()}</>}
+                        {session.lastSeenAt && <> · Last active {new Date(session.lastSeenAt).toLocaleString()}</>}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Sign out"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(session.id)}
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {others.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+          >
+            Sign out all other sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
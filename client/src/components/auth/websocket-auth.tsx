@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { useWebSocketAPI } from '../../hooks/useWebSocketAPI';
+import { RealtimeRequestError, useWebSocketAPI } from '../../hooks/useWebSocketAPI';
+import type { RealtimeUser } from '@shared/realtime';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
@@ -8,16 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Loader2, Wifi, WifiOff } from 'lucide-react';
 
-interface User {
-  id: string;
-  email: string;
-  username: string;
-  firstName: string;
-  lastName: string;
-  theme: string;
-  timezone: string;
-  language: string;
-}
+type User = RealtimeUser;
 
 interface AuthState {
   user: User | null;
@@ -30,7 +22,7 @@ interface WebSocketAuthProps {
 }
 
 export function WebSocketAuth({ onAuth }: WebSocketAuthProps) {
-  const { send, isConnected, isReconnecting } = useWebSocketAPI();
+  const { request, isConnected, isReconnecting } = useWebSocketAPI();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loginData, setLoginData] = useState({
@@ -56,23 +48,20 @@ export function WebSocketAuth({ onAuth }: WebSocketAuthProps) {
     setError(null);
 
     try {
-      const response = await send({
-        type: 'auth_login',
-        data: loginData
+      const { user, workspaces } = await request('auth_login', loginData);
+      onAuth({
+        user,
+        workspaces,
+        isAuthenticated: true
       });
-
-      if (response.error) {
-        setError(response.error);
+    } catch (err) {
+      // Codes other than these mean the server or the connection failed, not the form
+      if (err instanceof RealtimeRequestError && err.code !== 'internal' && err.code !== 'unavailable') {
+        setError(err.message);
       } else {
-        onAuth({
-          user: response.data.user,
-          workspaces: response.data.workspaces,
-          isAuthenticated: true
-        });
+        setError('Login failed. Please try again.');
+        console.error('Login error:', err);
       }
-    } catch (err) {
-      setError('Login failed. Please try again.');
-      console.error('Login error:', err);
     } finally {
       setLoading(false);
     }
@@ -89,23 +78,20 @@ export function WebSocketAuth({ onAuth }: WebSocketAuthProps) {
     setError(null);
 
     try {
-      const response = await send({
-        type: 'auth_register',
-        data: registerData
+      const { user, workspaces } = await request('auth_register', registerData);
+      onAuth({
+        user,
+        workspaces,
+        isAuthenticated: true
       });
-
-      if (response.error) {
-        setError(response.error);
+    } catch (err) {
+      // Codes other than these mean the server or the connection failed, not the form
+      if (err instanceof RealtimeRequestError && err.code !== 'internal' && err.code !== 'unavailable') {
+        setError(err.message);
       } else {
-        onAuth({
-          user: response.data.user,
-          workspaces: response.data.workspaces,
-          isAuthenticated: true
-        });
+        setError('Registration failed. Please try again.');
+        console.error('Registration error:', err);
       }
-    } catch (err) {
-      setError('Registration failed. Please try again.');
-      console.error('Registration error:', err);
     } finally {
       setLoading(false);
     }
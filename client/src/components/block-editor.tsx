@@ -1,5 +1,5 @@
-import { useState, useRef, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { 
   Type, 
@@ -9,12 +9,24 @@ import {
   List, 
   CheckSquare, 
   Code,
+  Quote,
+  Minus,
+  Database as DatabaseIcon,
   Plus,
-  GripVertical
+  GripVertical,
+  MessageSquare,
+  Paperclip
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertBlockSchema, updateBlockSchema, type Block, type BlockContent } from "@shared/schema";
+import { useBlockSync } from "@/hooks/useBlockSync";
+import { useWebSocketAPI } from "@/hooks/useWebSocketAPI";
+import DatabaseView from "@/components/database/database-view";
+import CommentSidebar, { commentsQueryKey } from "@/components/comments/comment-sidebar";
+import ReminderPopover, { remindersQueryKey } from "@/components/reminders/reminder-popover";
+import { MentionMenu, MentionText, useMentionSuggestions, type MentionOption } from "@/components/mentions/mention-menu";
+import { formatMention, parseMentions } from "@shared/mentions";
+import { insertBlockSchema, updateBlockSchema, type Block, type BlockContent, type CommentThread, type Page, type ReminderView } from "@shared/schema";
 
 interface BlockEditorProps {
   pageId: number;
@@ -23,9 +35,14 @@ interface BlockEditorProps {
 
 interface BlockComponentProps {
   block: Block;
+  workspaceId: number | undefined;
+  sync: ReturnType<typeof useBlockSync>;
   onUpdate: (content: BlockContent) => void;
   onDelete: () => void;
   onCreateBelow: (type: string) => void;
+  commentCount: number;
+  onOpenComments: () => void;
+  reminders: ReminderView[];
 }
 
 const blockTypes = [
@@ -36,25 +53,112 @@ const blockTypes = [
   { type: "bullet-list", label: "Bullet List", icon: List },
   { type: "todo", label: "Todo", icon: CheckSquare },
   { type: "code", label: "Code", icon: Code },
+  { type: "quote", label: "Quote", icon: Quote },
+  { type: "divider", label: "Divider", icon: Minus },
+  { type: "database", label: "Database", icon: DatabaseIcon },
 ];
 
-function BlockComponent({ block, onUpdate, onDelete, onCreateBelow }: BlockComponentProps) {
+function databaseIdOf(block: Block): number | undefined {
+  const content: any = typeof block.content === "string" ? JSON.parse(block.content || "{}") : block.content;
+  return content?.databaseId;
+}
+
+function fileContentOf(block: Block): BlockContent {
+  const content: any = typeof block.content === "string" ? JSON.parse(block.content || "{}") : block.content;
+  return content ?? {};
+}
+
+function BlockComponent({ block, workspaceId, sync, onUpdate, onDelete, onCreateBelow, commentCount, onOpenComments, reminders }: BlockComponentProps) {
   const [content, setContent] = useState(block.content?.text || "");
   const [isChecked, setIsChecked] = useState(block.content?.checked || false);
+  const [isFocused, setIsFocused] = useState(false);
+  // Text typed after an @, and where that @ sits; null while the menu is closed
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeMention, setActiveMention] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const mentionOptions = useMentionSuggestions(workspaceId, mention?.query ?? null);
+  const hasMentions = block.type !== "code" && parseMentions(content).length > 0;
+
+  // Merge remote edits into this block while the collaboration socket is up
+  useEffect(() => {
+    if (!sync.isConnected) return;
+    return sync.subscribe(block.id, content, setContent);
+  }, [sync.isConnected, sync.subscribe, block.id]);
+
+  // Follow ticks made elsewhere, e.g. from the task inbox
+  const savedChecked = fileContentOf(block).checked ?? false;
+  useEffect(() => {
+    setIsChecked(savedChecked);
+  }, [savedChecked]);
 
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
       textareaRef.current.style.height = textareaRef.current.scrollHeight + 'px';
     }
-  }, [content]);
+  }, [content, isFocused]);
+
+  // Clicking rendered mentions swaps in the textarea; give it the focus
+  useEffect(() => {
+    if (isFocused && hasMentions && document.activeElement !== textareaRef.current) {
+      textareaRef.current?.focus();
+    }
+  }, [isFocused]);
 
   const handleContentChange = (newContent: BlockContent) => {
     onUpdate(newContent);
   };
 
+  const handleTextChange = (text: string) => {
+    setContent(text);
+    if (sync.isConnected) {
+      sync.editText(block.id, text);
+    } else {
+      handleContentChange(block.type === "todo" ? { text, checked: isChecked } : { text });
+    }
+  };
+
+  const handleInput = (text: string, caret: number) => {
+    handleTextChange(text);
+    if (block.type === "code") return;
+
+    const typed = /(?:^|\s)@([^\s@\[\]()]{0,40})$/.exec(text.slice(0, caret));
+    setMention(typed ? { query: typed[1], start: caret - typed[1].length - 1 } : null);
+    setActiveMention(0);
+  };
+
+  const insertMention = (option: MentionOption) => {
+    if (!mention || !textareaRef.current) return;
+    const caret = textareaRef.current.selectionStart;
+    const token = `${formatMention(option)} `;
+    const text = content.slice(0, mention.start) + token + content.slice(caret);
+    handleTextChange(text);
+    setMention(null);
+
+    const position = mention.start + token.length;
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(position, position));
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mention && mentionOptions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveMention((activeMention + step + mentionOptions.length) % mentionOptions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(mentionOptions[Math.min(activeMention, mentionOptions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       onCreateBelow('text');
@@ -64,72 +168,64 @@ function BlockComponent({ block, onUpdate, onDelete, onCreateBelow }: BlockCompo
     }
   };
 
+  // Shared by every text-like block. Out of focus, text with mentions is shown with
+  // the mentions rendered; clicking it goes back to editing the raw text.
+  const renderTextInput = (className: string, placeholder: string, rows = 1) => {
+    if (!isFocused && hasMentions) {
+      return (
+        <div
+          className={`${className} cursor-text whitespace-pre-wrap break-words`}
+          onClick={() => setIsFocused(true)}
+        >
+          <MentionText text={content} />
+        </div>
+      );
+    }
+
+    return (
+      <div className="relative flex-1">
+        <textarea
+          ref={textareaRef}
+          className={`w-full ${className}`}
+          placeholder={placeholder}
+          value={content}
+          onChange={(e) => handleInput(e.target.value, e.target.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            setMention(null);
+          }}
+          rows={rows}
+        />
+        {mention && (
+          <MentionMenu options={mentionOptions} activeIndex={activeMention} onSelect={insertMention} />
+        )}
+      </div>
+    );
+  };
+
   const renderBlock = () => {
     switch (block.type) {
+      case "database": {
+        const databaseId = databaseIdOf(block);
+        return databaseId ? <DatabaseView databaseId={databaseId} /> : null;
+      }
+        
       case "heading1":
-        return (
-          <textarea
-            ref={textareaRef}
-            className="w-full bg-transparent border-none outline-none resize-none text-3xl font-bold placeholder-muted-foreground"
-            placeholder="Heading 1"
-            value={content}
-            onChange={(e) => {
-              setContent(e.target.value);
-              handleContentChange({ text: e.target.value });
-            }}
-            onKeyDown={handleKeyDown}
-            rows={1}
-          />
-        );
+        return renderTextInput("bg-transparent border-none outline-none resize-none text-3xl font-bold placeholder-muted-foreground", "Heading 1");
         
       case "heading2":
-        return (
-          <textarea
-            ref={textareaRef}
-            className="w-full bg-transparent border-none outline-none resize-none text-2xl font-semibold placeholder-muted-foreground"
-            placeholder="Heading 2"
-            value={content}
-            onChange={(e) => {
-              setContent(e.target.value);
-              handleContentChange({ text: e.target.value });
-            }}
-            onKeyDown={handleKeyDown}
-            rows={1}
-          />
-        );
+        return renderTextInput("bg-transparent border-none outline-none resize-none text-2xl font-semibold placeholder-muted-foreground", "Heading 2");
         
       case "heading3":
-        return (
-          <textarea
-            ref={textareaRef}
-            className="w-full bg-transparent border-none outline-none resize-none text-xl font-medium placeholder-muted-foreground"
-            placeholder="Heading 3"
-            value={content}
-            onChange={(e) => {
-              setContent(e.target.value);
-              handleContentChange({ text: e.target.value });
-            }}
-            onKeyDown={handleKeyDown}
-            rows={1}
-          />
-        );
+        return renderTextInput("bg-transparent border-none outline-none resize-none text-xl font-medium placeholder-muted-foreground", "Heading 3");
         
       case "bullet-list":
         return (
           <div className="flex items-start space-x-2">
             <span className="mt-2 w-1 h-1 bg-foreground rounded-full flex-shrink-0"></span>
-            <textarea
-              ref={textareaRef}
-              className="flex-1 bg-transparent border-none outline-none resize-none placeholder-muted-foreground"
-              placeholder="List item"
-              value={content}
-              onChange={(e) => {
-                setContent(e.target.value);
-                handleContentChange({ text: e.target.value });
-              }}
-              onKeyDown={handleKeyDown}
-              rows={1}
-            />
+            {renderTextInput("flex-1 bg-transparent border-none outline-none resize-none placeholder-muted-foreground", "List item")}
           </div>
         );
         
@@ -145,56 +241,58 @@ function BlockComponent({ block, onUpdate, onDelete, onCreateBelow }: BlockCompo
               }}
               className="mt-1 rounded border-gray-300"
             />
-            <textarea
-              ref={textareaRef}
-              className={`flex-1 bg-transparent border-none outline-none resize-none placeholder-muted-foreground ${
-                isChecked ? 'line-through text-muted-foreground' : ''
-              }`}
-              placeholder="Todo item"
-              value={content}
-              onChange={(e) => {
-                setContent(e.target.value);
-                handleContentChange({ text: e.target.value, checked: isChecked });
-              }}
-              onKeyDown={handleKeyDown}
-              rows={1}
-            />
+            {renderTextInput(`flex-1 bg-transparent border-none outline-none resize-none placeholder-muted-foreground ${
+              isChecked ? 'line-through text-muted-foreground' : ''
+            }`, "Todo item")}
           </div>
         );
         
       case "code":
         return (
           <div className="bg-muted rounded-md p-3">
-            <textarea
-              ref={textareaRef}
-              className="w-full bg-transparent border-none outline-none resize-none font-mono text-sm placeholder-muted-foreground"
-              placeholder="Enter code..."
-              value={content}
-              onChange={(e) => {
-                setContent(e.target.value);
-                handleContentChange({ text: e.target.value });
-              }}
-              onKeyDown={handleKeyDown}
-              rows={3}
-            />
+            {renderTextInput("bg-transparent border-none outline-none resize-none font-mono text-sm placeholder-muted-foreground", "Enter code...", 3)}
           </div>
         );
         
-      default:
+      case "quote":
         return (
-          <textarea
-            ref={textareaRef}
-            className="w-full bg-transparent border-none outline-none resize-none placeholder-muted-foreground"
-            placeholder="Type something..."
-            value={content}
-            onChange={(e) => {
-              setContent(e.target.value);
-              handleContentChange({ text: e.target.value });
+          <div className="border-l-4 border-foreground/30 pl-3">
+            {renderTextInput("bg-transparent border-none outline-none resize-none italic placeholder-muted-foreground", "Quote")}
+          </div>
+        );
+        
+      case "file": {
+        const file = fileContentOf(block);
+        return (
+          <a
+            href={file.url}
+            className="flex items-center space-x-2 rounded-md border px-3 py-2 text-sm hover:bg-muted/50"
+          >
+            <Paperclip className="h-4 w-4 text-muted-foreground" />
+            <span className="truncate">{file.title || "File"}</span>
+            {file.caption && <span className="text-xs text-muted-foreground">{file.caption}</span>}
+          </a>
+        );
+      }
+        
+      case "divider":
+        return (
+          <div
+            className="py-2 outline-none"
+            tabIndex={0}
+            onKeyDown={(e) => {
+              if (e.key === 'Backspace' || e.key === 'Delete') {
+                e.preventDefault();
+                onDelete();
+              }
             }}
-            onKeyDown={handleKeyDown}
-            rows={1}
-          />
+          >
+            <hr className="border-border" />
+          </div>
         );
+        
+      default:
+        return renderTextInput("bg-transparent border-none outline-none resize-none placeholder-muted-foreground", "Type something...");
     }
   };
 
@@ -206,15 +304,80 @@ function BlockComponent({ block, onUpdate, onDelete, onCreateBelow }: BlockCompo
       <div className="flex-1">
         {renderBlock()}
       </div>
+      {/* Open threads stay visible; otherwise the button only shows on hover */}
+      <button
+        type="button"
+        title="Comment"
+        onClick={onOpenComments}
+        className={`flex items-center text-xs text-muted-foreground hover:text-foreground mt-1 transition-opacity ${
+          commentCount > 0 ? "" : "opacity-0 group-hover:opacity-100"
+        }`}
+      >
+        <MessageSquare className="h-4 w-4" />
+        {commentCount > 0 && <span className="ml-1">{commentCount}</span>}
+      </button>
+      <ReminderPopover pageId={block.pageId} blockId={block.id} reminders={reminders} />
     </div>
   );
 }
 
 export default function BlockEditor({ pageId, blocks }: BlockEditorProps) {
   const [showBlockMenu, setShowBlockMenu] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [commentBlockId, setCommentBlockId] = useState<number | null>(null);
+  const sync = useBlockSync(pageId);
+  const { subscribe } = useWebSocketAPI();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: threads = [] } = useQuery<CommentThread[]>({
+    queryKey: commentsQueryKey(pageId),
+  });
+
+  const openThreadCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    threads.forEach(thread => {
+      if (thread.blockId !== null && !thread.isResolved) {
+        counts.set(thread.blockId, (counts.get(thread.blockId) ?? 0) + 1);
+      }
+    });
+    return counts;
+  }, [threads]);
+
+  const { data: reminders = [] } = useQuery<ReminderView[]>({
+    queryKey: remindersQueryKey(pageId),
+  });
+
+  const remindersByBlock = useMemo(() => {
+    const byBlock = new Map<number | null, ReminderView[]>();
+    reminders.forEach(reminder => {
+      byBlock.set(reminder.blockId, [...(byBlock.get(reminder.blockId) ?? []), reminder]);
+    });
+    return byBlock;
+  }, [reminders]);
+
+  // Comments from other people arrive through the page room
+  useEffect(() => {
+    const refresh = (event: { pageId: number }) => {
+      if (event.pageId === pageId) {
+        queryClient.invalidateQueries({ queryKey: commentsQueryKey(pageId) });
+      }
+    };
+    const unsubscribes = [
+      subscribe("comment_added", refresh),
+      subscribe("comment_updated", refresh),
+      subscribe("comment_resolved", refresh),
+      subscribe("comment_reopened", refresh),
+      subscribe("comment_deleted", refresh),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [subscribe, pageId]);
+
+  const openComments = (blockId: number | null) => {
+    setCommentBlockId(blockId);
+    setShowComments(true);
+  };
+
   const createBlockMutation = useMutation({
     mutationFn: async (blockData: { type: string; pageId: number; position: number }) => {
       const response = await apiRequest('POST', '/api/blocks', {
@@ -235,6 +398,34 @@ export default function BlockEditor({ pageId, blocks }: BlockEditorProps) {
     },
   });
 
+  const { data: page } = useQuery<Page>({
+    queryKey: ["/api/pages", pageId],
+  });
+
+  // Inline databases are created through the database API, which adds the block itself
+  const createDatabaseMutation = useMutation({
+    mutationFn: async (position: number) => {
+      const response = await apiRequest('POST', `/api/workspaces/${page!.workspaceId}/databases`, {
+        title: "Untitled database",
+        isInline: true,
+        pageId,
+        position
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${pageId}/blocks`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/blocks", pageId] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create database",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateBlockMutation = useMutation({
     mutationFn: async ({ id, content }: { id: number; content: BlockContent }) => {
       const response = await apiRequest('PATCH', `/api/blocks/${id}`, { content });
@@ -277,6 +468,11 @@ export default function BlockEditor({ pageId, blocks }: BlockEditorProps) {
     const afterIndex = afterBlockId ? blocks.findIndex(b => b.id === afterBlockId) : -1;
     const position = afterIndex >= 0 ? blocks[afterIndex].position + 1 : blocks.length;
     
+    if (type === "database") {
+      if (page) createDatabaseMutation.mutate(position);
+      return;
+    }
+    
     createBlockMutation.mutate({
       type,
       pageId,
@@ -292,13 +488,34 @@ export default function BlockEditor({ pageId, blocks }: BlockEditorProps) {
 
   return (
     <div className="space-y-2">
+      <div className="group flex items-center justify-end space-x-2">
+        <ReminderPopover pageId={pageId} blockId={null} reminders={remindersByBlock.get(null) ?? []} className="" />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground"
+          onClick={() => showComments ? setShowComments(false) : openComments(null)}
+        >
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Comments
+          {threads.some(thread => !thread.isResolved) && (
+            <span className="ml-1">({threads.filter(thread => !thread.isResolved).length})</span>
+          )}
+        </Button>
+      </div>
+
       {sortedBlocks.map((block) => (
         <BlockComponent
           key={block.id}
           block={block}
+          workspaceId={page?.workspaceId}
+          sync={sync}
           onUpdate={(content) => handleUpdateBlock(block.id, content)}
           onDelete={() => handleDeleteBlock(block.id)}
           onCreateBelow={(type) => handleCreateBlock(type, block.id)}
+          commentCount={openThreadCounts.get(block.id) ?? 0}
+          onOpenComments={() => openComments(block.id)}
+          reminders={remindersByBlock.get(block.id) ?? []}
         />
       ))}
 
@@ -352,6 +569,16 @@ export default function BlockEditor({ pageId, blocks }: BlockEditorProps) {
           </Button>
         </div>
       )}
+
+      {showComments && (
+        <CommentSidebar
+          pageId={pageId}
+          blocks={blocks}
+          focusBlockId={commentBlockId}
+          onFocusBlock={setCommentBlockId}
+          onClose={() => setShowComments(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
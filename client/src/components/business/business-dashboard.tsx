@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,68 +10,74 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { TrendingUp, Users, FileText, Activity, Target, Calendar, Mail, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type {
+  AnalyticsRange, AnalyticsExportFormat, AnalyticsExportRequest, BusinessMetrics, BusinessActivityPoint, WorkspaceSummary, WorkspaceAnalyticsReport,
+} from "@shared/schema";
 
-interface BusinessMetrics {
-  totalUsers: number;
-  totalPages: number;
-  totalWorkspaces: number;
-  activeCollaborators: number;
-  pageViews: number;
-  editsSinceLastWeek: number;
-  collaborationScore: number;
-  productivityIndex: number;
-}
+const rangeLabels: Record<AnalyticsRange, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  "365d": "Last 12 months",
+};
 
-interface ActivityData {
-  date: string;
-  pages: number;
-  collaborators: number;
-  edits: number;
+function formatTrend(change: number | null | undefined): string {
+  if (change === null || change === undefined) return "No earlier data to compare";
+  return `${change >= 0 ? "+" : ""}${change}% from previous period`;
 }
 
-interface WorkspaceAnalytics {
-  id: number;
-  name: string;
-  members: number;
-  pages: number;
-  activity: number;
-  lastActive: string;
-  plan: string;
+function formatLastActive(time: number | null): string {
+  return time ? new Date(time).toLocaleDateString() : "No activity";
 }
 
 export default function BusinessDashboard() {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
-  const [timeRange, setTimeRange] = useState<"7d" | "30d" | "90d">("30d");
+  const [timeRange, setTimeRange] = useState<AnalyticsRange>("30d");
   const [selectedWorkspace, setSelectedWorkspace] = useState<number | null>(null);
+  const [tab, setTab] = useState("analytics");
+  const [exportScope, setExportScope] = useState("all");
+
+  // Charts are bucketed by day, week or month in the viewer's own time zone
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const rangeQuery = `range=${timeRange}&timezone=${encodeURIComponent(timezone)}`;
 
   const { data: metrics, isLoading: metricsLoading } = useQuery<BusinessMetrics>({
-    queryKey: ['/api/business/metrics', timeRange],
+    queryKey: [`/api/business/metrics?${rangeQuery}`],
   });
 
-  const { data: activityData, isLoading: activityLoading } = useQuery<ActivityData[]>({
-    queryKey: ['/api/business/activity', timeRange],
+  const { data: activityData } = useQuery<BusinessActivityPoint[]>({
+    queryKey: [`/api/business/activity?${rangeQuery}`],
   });
 
-  const { data: workspaceAnalytics, isLoading: workspaceLoading } = useQuery<WorkspaceAnalytics[]>({
-    queryKey: ['/api/business/workspace-analytics'],
+  const { data: workspaceAnalytics } = useQuery<WorkspaceSummary[]>({
+    queryKey: [`/api/business/workspace-analytics?${rangeQuery}`],
   });
 
-  const { data: teamPerformance } = useQuery<any>({
-    queryKey: ['/api/business/team-performance', selectedWorkspace],
-    enabled: !!selectedWorkspace,
+  const teamWorkspaceId = selectedWorkspace ?? workspaceAnalytics?.[0]?.id ?? null;
+  const { data: teamPerformance } = useQuery<WorkspaceAnalyticsReport>({
+    queryKey: [`/api/business/team-performance?workspaceId=${teamWorkspaceId}&${rangeQuery}`],
+    enabled: !!teamWorkspaceId,
   });
 
   const exportDataMutation = useMutation({
-    mutationFn: async (format: 'csv' | 'pdf' | 'xlsx') => {
-      const response = await apiRequest('POST', '/api/business/export', { format, timeRange });
-      return await response.blob();
+    mutationFn: async (format: AnalyticsExportFormat) => {
+      const request: AnalyticsExportRequest = {
+        format,
+        timeRange,
+        timezone,
+        workspaceId: exportScope === "all" ? undefined : Number(exportScope),
+      };
+      const response = await apiRequest('POST', '/api/business/export', request);
+      // The server stamps the file name with the workspace and range
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `analytics-report.${format}`;
+      return { blob: await response.blob(), filename };
     },
-    onSuccess: (blob, format) => {
+    onSuccess: ({ blob, filename }, format) => {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `business-report-${new Date().toISOString().split('T')[0]}.${format}`;
+      a.download = filename;
       a.click();
       URL.revokeObjectURL(url);
       toast({
@@ -79,6 +85,13 @@ export default function BusinessDashboard() {
         description: `Business report exported as ${format.toUpperCase()}`,
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
@@ -102,14 +115,14 @@ export default function BusinessDashboard() {
         </div>
         
         <div className="flex items-center space-x-2">
-          <Select value={timeRange} onValueChange={(value: any) => setTimeRange(value)}>
-            <SelectTrigger className="w-[120px]">
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as AnalyticsRange)}>
+            <SelectTrigger className="w-[140px]">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="7d">Last 7 days</SelectItem>
-              <SelectItem value="30d">Last 30 days</SelectItem>
-              <SelectItem value="90d">Last 90 days</SelectItem>
+              {(Object.keys(rangeLabels) as AnalyticsRange[]).map((range) => (
+                <SelectItem key={range} value={range}>{rangeLabels[range]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
           
@@ -133,7 +146,7 @@ export default function BusinessDashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{metrics?.totalUsers}</div>
             <p className="text-xs text-muted-foreground">
-              +12% from last month
+              {formatTrend(metrics?.trends.users)}
             </p>
           </CardContent>
         </Card>
@@ -146,7 +159,7 @@ export default function BusinessDashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{metrics?.activeCollaborators}</div>
             <p className="text-xs text-muted-foreground">
-              +5% from last week
+              {formatTrend(metrics?.trends.activeCollaborators)}
             </p>
           </CardContent>
         </Card>
@@ -159,7 +172,7 @@ export default function BusinessDashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{metrics?.totalPages}</div>
             <p className="text-xs text-muted-foreground">
-              +18% from last month
+              {formatTrend(metrics?.trends.pages)}
             </p>
           </CardContent>
         </Card>
@@ -176,7 +189,7 @@ export default function BusinessDashboard() {
         </Card>
       </div>
 
-      <Tabs defaultValue="analytics" className="space-y-4">
+      <Tabs value={tab} onValueChange={setTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="workspaces">Workspaces</TabsTrigger>
@@ -197,9 +210,10 @@ export default function BusinessDashboard() {
                     <XAxis dataKey="date" />
                     <YAxis />
                     <Tooltip />
-                    <Line type="monotone" dataKey="pages" stroke="#8884d8" name="Pages" />
-                    <Line type="monotone" dataKey="collaborators" stroke="#82ca9d" name="Collaborators" />
+                    <Line type="monotone" dataKey="pages" stroke="#8884d8" name="Pages created" />
+                    <Line type="monotone" dataKey="collaborators" stroke="#82ca9d" name="Active collaborators" />
                     <Line type="monotone" dataKey="edits" stroke="#ffc658" name="Edits" />
+                    <Line type="monotone" dataKey="views" stroke="#ff8042" name="Page views" />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -237,10 +251,17 @@ export default function BusinessDashboard() {
         <TabsContent value="workspaces" className="space-y-4">
           <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
             {workspaceAnalytics?.map((workspace) => (
-              <Card key={workspace.id} className="cursor-pointer hover:shadow-md transition-shadow">
+              <Card
+                key={workspace.id}
+                className="cursor-pointer hover:shadow-md transition-shadow"
+                onClick={() => {
+                  setSelectedWorkspace(workspace.id);
+                  setTab("team");
+                }}
+              >
                 <CardHeader>
                   <div className="flex items-center justify-between">
-                    <CardTitle className="text-base">{workspace.name}</CardTitle>
+                    <CardTitle className="text-base">{workspace.icon} {workspace.name}</CardTitle>
                     <Badge variant={workspace.plan === 'enterprise' ? 'default' : 'secondary'}>
                       {workspace.plan}
                     </Badge>
@@ -257,12 +278,12 @@ export default function BusinessDashboard() {
                       <span className="font-medium">{workspace.pages}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-sm text-muted-foreground">Activity Score</span>
+                      <span className="text-sm text-muted-foreground">Active Members</span>
                       <span className="font-medium">{workspace.activity}%</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-sm text-muted-foreground">Last Active</span>
-                      <span className="font-medium">{workspace.lastActive}</span>
+                      <span className="font-medium">{formatLastActive(workspace.lastActive)}</span>
                     </div>
                   </div>
                 </CardContent>
@@ -272,64 +293,145 @@ export default function BusinessDashboard() {
         </TabsContent>
 
         <TabsContent value="team" className="space-y-4">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Team Collaboration</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <span>Real-time Collaboration</span>
-                    <Badge variant="default">Active</Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span>Cursor Tracking</span>
-                    <Badge variant="default">Enabled</Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span>Live Comments</span>
-                    <Badge variant="default">Enabled</Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span>Version Control</span>
-                    <Badge variant="default">Active</Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+          <div className="flex items-center justify-between">
+            <Select
+              value={teamWorkspaceId ? String(teamWorkspaceId) : undefined}
+              onValueChange={(value) => setSelectedWorkspace(Number(value))}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Choose a workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaceAnalytics?.map((workspace) => (
+                  <SelectItem key={workspace.id} value={String(workspace.id)}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Productivity Metrics</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <div className="flex justify-between mb-2">
-                      <span className="text-sm">Team Efficiency</span>
-                      <span className="text-sm font-medium">92%</span>
-                    </div>
-                    <Progress value={92} />
-                  </div>
-                  <div>
-                    <div className="flex justify-between mb-2">
-                      <span className="text-sm">Collaboration Quality</span>
-                      <span className="text-sm font-medium">88%</span>
+          {!teamPerformance ? (
+            <p className="text-sm text-muted-foreground">
+              {teamWorkspaceId ? "Loading team performance..." : "You don't manage any workspaces yet."}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Pages Over Time</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={260}>
+                      <BarChart data={teamPerformance.series}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" />
+                        <YAxis allowDecimals={false} />
+                        <Tooltip />
+                        <Bar dataKey="pagesCreated" fill="#8884d8" name="Created" />
+                        <Bar dataKey="pagesEdited" fill="#82ca9d" name="Edited" />
+                        <Bar dataKey="activeMembers" fill="#ffc658" name="Active members" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Productivity Metrics</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div>
+                        <div className="flex justify-between mb-2">
+                          <span className="text-sm">Active Members</span>
+                          <span className="text-sm font-medium">
+                            {teamPerformance.totals.activeMembers} of {teamPerformance.totals.members}
+                          </span>
+                        </div>
+                        <Progress
+                          value={teamPerformance.totals.members
+                            ? (teamPerformance.totals.activeMembers / teamPerformance.totals.members) * 100
+                            : 0}
+                        />
+                      </div>
+                      <div>
+                        <div className="flex justify-between mb-2">
+                          <span className="text-sm">Pages Edited Together</span>
+                          <span className="text-sm font-medium">
+                            {teamPerformance.collaborationScore === null ? "No edits" : `${teamPerformance.collaborationScore}%`}
+                          </span>
+                        </div>
+                        <Progress value={teamPerformance.collaborationScore ?? 0} />
+                      </div>
+                      <div className="grid grid-cols-3 gap-4 pt-2 text-center">
+                        <div>
+                          <div className="text-xl font-bold">{teamPerformance.totals.edits}</div>
+                          <div className="text-xs text-muted-foreground">Edits</div>
+                        </div>
+                        <div>
+                          <div className="text-xl font-bold">{teamPerformance.totals.views}</div>
+                          <div className="text-xs text-muted-foreground">Page views</div>
+                        </div>
+                        <div>
+                          <div className="text-xl font-bold">{teamPerformance.totals.comments}</div>
+                          <div className="text-xs text-muted-foreground">Comments</div>
+                        </div>
+                      </div>
                     </div>
-                    <Progress value={88} />
-                  </div>
-                  <div>
-                    <div className="flex justify-between mb-2">
-                      <span className="text-sm">Response Time</span>
-                      <span className="text-sm font-medium">95%</span>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Member Contributions</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {teamPerformance.members.map((member) => (
+                        <div key={member.userId} className="flex items-center justify-between">
+                          <div>
+                            <div className="text-sm font-medium">{member.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {member.role} · {formatLastActive(member.lastActive)}
+                            </div>
+                          </div>
+                          <div className="text-xs text-muted-foreground text-right">
+                            {member.edits} edits on {member.pagesEdited} pages
+                            <br />
+                            {member.pagesCreated} created · {member.comments} comments
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                    <Progress value={95} />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Top Pages</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {teamPerformance.topPages.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No page was viewed or edited in this period.</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {teamPerformance.topPages.map((page) => (
+                          <div key={page.pageId} className="flex items-center justify-between">
+                            <span className="text-sm truncate">{page.icon} {page.title || "Untitled"}</span>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+                              {page.views} views · {page.edits} edits · {page.editors} editors
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
         </TabsContent>
 
         <TabsContent value="reports" className="space-y-4">
@@ -338,6 +440,17 @@ export default function BusinessDashboard() {
               <CardTitle>Export Options</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <Select value={exportScope} onValueChange={setExportScope}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All workspaces</SelectItem>
+                  {workspaceAnalytics?.map((workspace) => (
+                    <SelectItem key={workspace.id} value={String(workspace.id)}>{workspace.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <Button
                   variant="outline"
@@ -348,10 +461,10 @@ export default function BusinessDashboard() {
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={() => exportDataMutation.mutate('xlsx')}
+                  onClick={() => exportDataMutation.mutate('json')}
                   disabled={exportDataMutation.isPending}
                 >
-                  Export as Excel
+                  Export as JSON
                 </Button>
                 <Button
                   variant="outline"
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useWebSocketAPI } from '../../hooks/useWebSocketAPI';
+import { RealtimeRequestError, useWebSocketAPI } from '../../hooks/useWebSocketAPI';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
@@ -21,7 +21,7 @@ interface BusinessPageProps {
 }
 
 export function BusinessPage({ subdomain }: BusinessPageProps) {
-  const { send, isConnected, subscribe } = useWebSocketAPI();
+  const { request, isConnected } = useWebSocketAPI();
   const [businessData, setBusinessData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -32,19 +32,14 @@ export function BusinessPage({ subdomain }: BusinessPageProps) {
         setLoading(true);
         
         // Get business workspace data by subdomain
-        const response = await send({
-          type: 'get_business_workspace',
-          data: { subdomain }
-        });
-
-        if (response.error) {
-          setError(response.error);
+        setBusinessData(await request('get_business_workspace', { subdomain }));
+      } catch (err) {
+        if (err instanceof RealtimeRequestError && err.code === 'not_found') {
+          setError(err.message);
         } else {
-          setBusinessData(response.data);
+          setError('Failed to load business data');
+          console.error('Error loading business data:', err);
         }
-      } catch (err) {
-        setError('Failed to load business data');
-        console.error('Error loading business data:', err);
       } finally {
         setLoading(false);
       }
@@ -53,18 +48,7 @@ export function BusinessPage({ subdomain }: BusinessPageProps) {
     if (isConnected) {
       loadBusinessData();
     }
-  }, [isConnected, subdomain, send]);
-
-  // Subscribe to real-time updates
-  useEffect(() => {
-    const unsubscribe = subscribe('business_update', (data) => {
-      if (data.subdomain === subdomain) {
-        setBusinessData(data.businessData);
-      }
-    });
-
-    return unsubscribe;
-  }, [subscribe, subdomain]);
+  }, [isConnected, subdomain, request]);
 
   if (loading) {
     return (
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,50 +6,54 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Calendar, Clock, Plus, Edit, Trash2, Users, Video, MapPin } from "lucide-react";
+import { Calendar, CalendarX, Clock, Plus, Edit, Trash2, Users, Repeat, Rss, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday, isSameDay, startOfWeek, endOfWeek } from "date-fns";
-
-interface CalendarEvent {
-  id: number;
-  title: string;
-  description: string;
-  startDate: string;
-  endDate: string;
-  location?: string;
-  type: "meeting" | "task" | "reminder" | "deadline";
-  attendees: string[];
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday, isSameDay, startOfWeek, endOfWeek, addDays, startOfDay, endOfDay } from "date-fns";
+import { parseRecurrence, formatRecurrence, type RecurrenceRule, type WeekdayCode } from "@shared/recurrence";
+import type { CalendarEventInput, CalendarEventView, CalendarImportResult, CalendarOccurrence } from "@shared/schema";
+
+type CalendarEvent = CalendarOccurrence;
+
+interface CalendarPageProps {
   workspaceId: number;
-  pageId?: number;
-  createdBy: string;
-  isAllDay: boolean;
-  recurrence?: "none" | "daily" | "weekly" | "monthly";
-  status: "confirmed" | "tentative" | "cancelled";
 }
 
-export default function CalendarPage() {
+export default function CalendarPage({ workspaceId }: CalendarPageProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [viewMode, setViewMode] = useState<"month" | "week" | "day">("month");
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [showEventDialog, setShowEventDialog] = useState(false);
-  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
+  const [editingEvent, setEditingEvent] = useState<CalendarEventView | null>(null);
+
+  const monthStart = startOfMonth(currentDate);
+  const monthEnd = endOfMonth(currentDate);
+  const calendarStart = startOfWeek(monthStart);
+  const calendarEnd = endOfWeek(monthEnd);
+  const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
+  // Recurring events come back expanded into one entry per occurrence in the range
   const { data: events, isLoading } = useQuery<CalendarEvent[]>({
-    queryKey: ['/api/calendar/events', format(currentDate, 'yyyy-MM')],
+    queryKey: [`/api/calendar/events?workspaceId=${workspaceId}&from=${calendarStart.getTime()}&to=${addDays(calendarEnd, 1).getTime()}`],
+  });
+
+  const invalidateEvents = () => queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/calendar/events'),
   });
 
   const createEventMutation = useMutation({
-    mutationFn: async (eventData: Omit<CalendarEvent, 'id' | 'createdBy'>) => {
+    mutationFn: async (eventData: CalendarEventInput) => {
       const response = await apiRequest('POST', '/api/calendar/events', eventData);
       return await response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
+      invalidateEvents();
       setShowEventDialog(false);
       setEditingEvent(null);
       toast({
@@ -57,22 +61,23 @@ export default function CalendarPage() {
         description: "Calendar event has been created successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create calendar event.",
+        description: error.message || "Failed to create calendar event.",
         variant: "destructive",
       });
     },
   });
 
   const updateEventMutation = useMutation({
-    mutationFn: async ({ id, ...eventData }: Partial<CalendarEvent> & { id: number }) => {
-      const response = await apiRequest('PATCH', `/api/calendar/events/${id}`, eventData);
+    mutationFn: async ({ id, ...eventData }: Partial<CalendarEventInput> & { id: number }) => {
+      const { workspaceId: _workspaceId, ...updates } = eventData;
+      const response = await apiRequest('PATCH', `/api/calendar/events/${id}`, updates);
       return await response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
+      invalidateEvents();
       setShowEventDialog(false);
       setEditingEvent(null);
       toast({
@@ -80,22 +85,24 @@ export default function CalendarPage() {
         description: "Calendar event has been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update calendar event.",
+        description: error.message || "Failed to update calendar event.",
         variant: "destructive",
       });
     },
   });
 
+  // Pass an occurrence start to remove only that occurrence of a recurring event
   const deleteEventMutation = useMutation({
-    mutationFn: async (eventId: number) => {
-      const response = await apiRequest('DELETE', `/api/calendar/events/${eventId}`);
+    mutationFn: async ({ id, occurrence }: { id: number; occurrence?: number }) => {
+      const query = occurrence !== undefined ? `?occurrence=${occurrence}` : '';
+      const response = await apiRequest('DELETE', `/api/calendar/events/${id}${query}`);
       return await response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
+      invalidateEvents();
       toast({
         title: "Event deleted",
         description: "Calendar event has been deleted successfully.",
@@ -110,16 +117,84 @@ export default function CalendarPage() {
     },
   });
 
-  const monthStart = startOfMonth(currentDate);
-  const monthEnd = endOfMonth(currentDate);
-  const calendarStart = startOfWeek(monthStart);
-  const calendarEnd = endOfWeek(monthEnd);
-  const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
+  // Occurrences carry their own dates, so recurring events are edited from the series
+  const openEditor = async (event: CalendarEvent) => {
+    if (!event.recurring) {
+      setEditingEvent(event);
+    } else {
+      const response = await apiRequest('GET', `/api/calendar/events/${event.id}`);
+      setEditingEvent(await response.json());
+    }
+    setShowEventDialog(true);
+  };
+
+  const copyFeedUrl = async () => {
+    try {
+      const response = await apiRequest('GET', `/api/workspaces/${workspaceId}/calendar/feed`);
+      const { url } = await response.json();
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Calendar feed copied",
+        description: "Add this URL as a subscription in your calendar app.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to get the calendar feed URL.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+      const response = await fetch(`/api/workspaces/${workspaceId}/import/ics?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "text/calendar" },
+        body: file,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || response.statusText);
+      }
+      return await response.json() as CalendarImportResult;
+    },
+    onSuccess: (result) => {
+      invalidateEvents();
+      const counts = [
+        `${result.created.length} added`,
+        `${result.updated.length} updated`,
+        `${result.skipped.length} skipped`,
+      ];
+      const problems = result.skipped.filter(item => item.reason !== "Unchanged");
+      toast({
+        title: "Calendar imported",
+        description: counts.join(", ") + (problems[0] ? `. ${problems[0].title ?? problems[0].uid}: ${problems[0].reason}` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      importMutation.mutate(file);
+    }
+  };
 
   const getEventsForDay = (date: Date) => {
-    return events?.filter(event => 
-      isSameDay(new Date(event.startDate), date) ||
-      (new Date(event.startDate) <= date && new Date(event.endDate) >= date)
+    return events?.filter(event =>
+      event.startDate < endOfDay(date).getTime() &&
+      (event.endDate > startOfDay(date).getTime() || isSameDay(new Date(event.startDate), date))
     ) || [];
   };
 
@@ -152,7 +227,9 @@ export default function CalendarPage() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-4">
           <h1 className="text-2xl font-bold">Calendar</h1>
-          <Badge variant="secondary">{events?.length || 0} events this month</Badge>
+          <Badge variant="secondary">
+            {events?.filter(event => isSameDay(startOfMonth(new Date(event.startDate)), monthStart)).length || 0} events this month
+          </Badge>
         </div>
         
         <div className="flex items-center space-x-2">
@@ -174,6 +251,26 @@ export default function CalendarPage() {
             Today
           </Button>
           
+          <Button variant="outline" onClick={copyFeedUrl} title="Copy the .ics feed URL">
+            <Rss className="h-4 w-4" />
+          </Button>
+          
+          <Button
+            variant="outline"
+            onClick={() => importInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            title="Import an .ics file"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          
           <div className="flex items-center space-x-1">
             <Button
               variant="outline"
@@ -209,6 +306,7 @@ export default function CalendarPage() {
               </DialogHeader>
               <EventForm
                 event={editingEvent}
+                workspaceId={workspaceId}
                 onSubmit={(data) => {
                   if (editingEvent) {
                     updateEventMutation.mutate({ ...data, id: editingEvent.id });
@@ -263,12 +361,11 @@ export default function CalendarPage() {
                   <div className="space-y-1">
                     {dayEvents.slice(0, 3).map((event) => (
                       <div
-                        key={event.id}
+                        key={`${event.id}:${event.occurrenceStart}`}
                         className={`text-xs p-1 rounded text-white truncate flex items-center space-x-1 ${getEventTypeColor(event.type)}`}
                         onClick={(e) => {
                           e.stopPropagation();
-                          setEditingEvent(event);
-                          setShowEventDialog(true);
+                          openEditor(event);
                         }}
                       >
                         {getEventTypeIcon(event.type)}
@@ -306,13 +403,16 @@ export default function CalendarPage() {
               <div className="space-y-3">
                 {getEventsForDay(selectedDate).map((event) => (
                   <div
-                    key={event.id}
+                    key={`${event.id}:${event.occurrenceStart}`}
                     className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
                   >
                     <div className="flex items-center space-x-3">
                       <div className={`w-3 h-3 rounded-full ${getEventTypeColor(event.type)}`} />
                       <div>
-                        <h4 className="font-medium">{event.title}</h4>
+                        <h4 className="font-medium flex items-center space-x-1">
+                          <span>{event.title}</span>
+                          {event.recurring && <Repeat className="h-3 w-3 text-muted-foreground" />}
+                        </h4>
                         <p className="text-sm text-muted-foreground">
                           {event.isAllDay ? 'All day' : format(new Date(event.startDate), 'h:mm a')}
                           {event.location && ` • ${event.location}`}
@@ -324,17 +424,25 @@ export default function CalendarPage() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => {
-                          setEditingEvent(event);
-                          setShowEventDialog(true);
-                        }}
+                        onClick={() => openEditor(event)}
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
+                      {event.recurring && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Delete this occurrence"
+                          onClick={() => deleteEventMutation.mutate({ id: event.id, occurrence: event.occurrenceStart })}
+                        >
+                          <CalendarX className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => deleteEventMutation.mutate(event.id)}
+                        title={event.recurring ? "Delete the whole series" : "Delete event"}
+                        onClick={() => deleteEventMutation.mutate({ id: event.id })}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -351,33 +459,84 @@ export default function CalendarPage() {
 }
 
 // Event Form Component
+type RepeatPreset = "none" | "daily" | "weekdays" | "weekly" | "monthly" | "yearly" | "custom";
+
+const WEEKDAYS: WeekdayCode[] = ["MO", "TU", "WE", "TH", "FR"];
+
+function readRule(recurrence: string | null | undefined): RecurrenceRule | null {
+  try {
+    return parseRecurrence(recurrence);
+  } catch {
+    return null;
+  }
+}
+
+// The simple choices the form offers; anything richer (e.g. imported RRULEs) is "custom"
+function presetOf(rule: RecurrenceRule | null, recurrence: string | null | undefined): RepeatPreset {
+  if (!rule) return recurrence && recurrence !== "none" ? "custom" : "none";
+  if (rule.interval !== 1 || rule.count !== null || rule.byMonthDay.length > 0 || rule.byDay.some(day => day.ordinal)) {
+    return "custom";
+  }
+  if (rule.byDay.length === 0) return rule.freq;
+  const days = rule.byDay.map(day => day.weekday).sort();
+  return rule.freq === "weekly" && days.join() === [...WEEKDAYS].sort().join() ? "weekdays" : "custom";
+}
+
+const toInputValue = (time: number | undefined) => format(time ? new Date(time) : new Date(), "yyyy-MM-dd'T'HH:mm");
+
 function EventForm({ 
   event, 
+  workspaceId,
   onSubmit, 
   onCancel 
 }: { 
-  event?: CalendarEvent | null;
-  onSubmit: (data: Omit<CalendarEvent, 'id' | 'createdBy'>) => void;
+  event?: CalendarEventView | null;
+  workspaceId: number;
+  onSubmit: (data: CalendarEventInput) => void;
   onCancel: () => void;
 }) {
+  const existingRule = readRule(event?.recurrence);
+  const [repeat, setRepeat] = useState<RepeatPreset>(presetOf(existingRule, event?.recurrence));
+  const [repeatUntil, setRepeatUntil] = useState(existingRule?.until ? format(new Date(existingRule.until), "yyyy-MM-dd") : "");
   const [formData, setFormData] = useState({
     title: event?.title || '',
     description: event?.description || '',
-    startDate: event?.startDate || format(new Date(), "yyyy-MM-dd'T'HH:mm"),
-    endDate: event?.endDate || format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    startDate: toInputValue(event?.startDate),
+    endDate: toInputValue(event?.endDate),
     location: event?.location || '',
-    type: event?.type || 'meeting' as const,
+    type: (event?.type || 'meeting') as CalendarEventInput['type'],
     attendees: event?.attendees || [],
-    workspaceId: event?.workspaceId || 1,
     pageId: event?.pageId,
     isAllDay: event?.isAllDay || false,
-    recurrence: event?.recurrence || 'none' as const,
-    status: event?.status || 'confirmed' as const,
+    status: (event?.status || 'confirmed') as CalendarEventInput['status'],
   });
 
+  const buildRecurrence = (): string => {
+    if (repeat === "custom") return event?.recurrence ?? "none";
+    if (repeat === "none") return "none";
+    return formatRecurrence({
+      freq: repeat === "weekdays" ? "weekly" : repeat,
+      interval: 1,
+      byDay: repeat === "weekdays" ? WEEKDAYS.map(weekday => ({ weekday })) : [],
+      byMonthDay: [],
+      until: repeatUntil ? endOfDay(new Date(repeatUntil)).getTime() : null,
+      count: null,
+      // Occurrences deleted earlier stay deleted
+      exceptions: existingRule?.exceptions ?? [],
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    onSubmit({
+      ...formData,
+      workspaceId,
+      startDate: new Date(formData.startDate).getTime(),
+      endDate: new Date(formData.endDate).getTime(),
+      recurrence: buildRecurrence(),
+      // Repeats follow the wall clock where the event was created
+      timezone: event?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
   };
 
   return (
@@ -425,6 +584,47 @@ function EventForm({
         </div>
       </div>
 
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="repeat">Repeat</Label>
+          <Select value={repeat} onValueChange={(value) => setRepeat(value as RepeatPreset)}>
+            <SelectTrigger id="repeat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekdays">Every weekday</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="yearly">Yearly</SelectItem>
+              {presetOf(existingRule, event?.recurrence) === "custom" && (
+                <SelectItem value="custom">Custom (keep current rule)</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="repeatUntil">Repeat until</Label>
+          <Input
+            id="repeatUntil"
+            type="date"
+            value={repeatUntil}
+            disabled={repeat === "none" || repeat === "custom"}
+            onChange={(e) => setRepeatUntil(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="isAllDay"
+          checked={formData.isAllDay}
+          onCheckedChange={(checked) => setFormData({ ...formData, isAllDay: checked })}
+        />
+        <Label htmlFor="isAllDay">All day</Label>
+      </div>
+
       <div>
         <Label htmlFor="location">Location</Label>
         <Input
@@ -1,15 +1,8 @@
 import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { useWebSocketAPI } from "@/hooks/useWebSocketAPI";
 import { Badge } from "@/components/ui/badge";
-
-interface CursorPosition {
-  x: number;
-  y: number;
-  userId: string;
-  userName: string;
-  userColor: string;
-  timestamp: number;
-}
+import type { RealtimeCursor } from "@shared/realtime";
 
 interface CollaboratorCursor {
   userId: string;
@@ -21,122 +14,76 @@ interface CollaboratorCursor {
 
 export default function CursorTracker({ pageId }: { pageId: number }) {
   const { user } = useAuth();
+  const { isConnected, notify, subscribe, joinPage } = useWebSocketAPI();
   const [cursors, setCursors] = useState<Map<string, CollaboratorCursor>>(new Map());
-  const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
   const cursorTimeoutRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
 
   useEffect(() => {
     if (!user || !pageId) return;
 
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      // Join the page room for collaboration
-      ws.send(JSON.stringify({
-        type: 'join_page',
-        pageId,
-        userId: user.id,
-        userName: user.name || user.username,
-        userColor: getUserColor(user.id)
-      }));
+    const removeCursor = (userId: string) => {
+      setCursors(prev => {
+        const newCursors = new Map(prev);
+        newCursors.delete(userId);
+        return newCursors;
+      });
     };
 
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      
-      if (data.type === 'cursor_update' && data.userId !== user.id) {
-        setCursors(prev => {
-          const newCursors = new Map(prev);
-          newCursors.set(data.userId, {
-            userId: data.userId,
-            userName: data.userName,
-            userColor: data.userColor,
-            position: { x: data.x, y: data.y },
-            lastSeen: Date.now()
-          });
-          return newCursors;
+    const showCursor = (cursor: RealtimeCursor) => {
+      if (cursor.pageId !== pageId || cursor.userId === user.id) return;
+      setCursors(prev => {
+        const newCursors = new Map(prev);
+        newCursors.set(cursor.userId, {
+          userId: cursor.userId,
+          userName: cursor.userName,
+          userColor: cursor.color,
+          position: { x: cursor.x, y: cursor.y },
+          lastSeen: Date.now()
         });
+        return newCursors;
+      });
 
-        // Clear existing timeout for this user
-        const existingTimeout = cursorTimeoutRef.current.get(data.userId);
-        if (existingTimeout) {
-          clearTimeout(existingTimeout);
-        }
-
-        // Set new timeout to remove cursor after 3 seconds of inactivity
-        const timeout = setTimeout(() => {
-          setCursors(prev => {
-            const newCursors = new Map(prev);
-            newCursors.delete(data.userId);
-            return newCursors;
-          });
-          cursorTimeoutRef.current.delete(data.userId);
-        }, 3000);
-
-        cursorTimeoutRef.current.set(data.userId, timeout);
+      // Clear existing timeout for this user
+      const existingTimeout = cursorTimeoutRef.current.get(cursor.userId);
+      if (existingTimeout) {
+        clearTimeout(existingTimeout);
       }
 
-      if (data.type === 'user_joined' && data.userId !== user.id) {
-        console.log(`${data.userName} joined the page`);
-      }
+      // Set new timeout to remove cursor after 3 seconds of inactivity
+      const timeout = setTimeout(() => {
+        removeCursor(cursor.userId);
+        cursorTimeoutRef.current.delete(cursor.userId);
+      }, 3000);
 
-      if (data.type === 'user_left') {
-        setCursors(prev => {
-          const newCursors = new Map(prev);
-          newCursors.delete(data.userId);
-          return newCursors;
-        });
-      }
-    };
-
-    ws.onclose = () => {
-      setIsConnected(false);
+      cursorTimeoutRef.current.set(cursor.userId, timeout);
     };
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setIsConnected(false);
-    };
+    // Join the page room for collaboration; the reply carries the cursors already there
+    const release = joinPage(pageId, ({ cursors }) => cursors.forEach(showCursor));
+    const unsubscribeMoved = subscribe('cursor_moved', showCursor);
+    const unsubscribeHidden = subscribe('cursor_hidden', (data) => {
+      if (data.pageId === pageId) removeCursor(data.userId);
+    });
 
     return () => {
-      ws.close();
+      unsubscribeMoved();
+      unsubscribeHidden();
+      release();
       cursorTimeoutRef.current.forEach(timeout => clearTimeout(timeout));
       cursorTimeoutRef.current.clear();
+      setCursors(new Map());
     };
-  }, [pageId, user]);
+  }, [pageId, user, joinPage, subscribe]);
 
   useEffect(() => {
-    if (!isConnected || !wsRef.current) return;
+    if (!isConnected || !user) return;
 
     const handleMouseMove = (e: MouseEvent) => {
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({
-          type: 'cursor_update',
-          pageId,
-          userId: user?.id,
-          userName: user?.name || user?.username,
-          userColor: getUserColor(user?.id || ''),
-          x: e.clientX,
-          y: e.clientY,
-          timestamp: Date.now()
-        }));
-      }
+      notify('cursor_move', { pageId, x: e.clientX, y: e.clientY });
     };
 
     const handleMouseLeave = () => {
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({
-          type: 'cursor_hide',
-          pageId,
-          userId: user?.id
-        }));
-      }
+      notify('cursor_hide', { pageId });
     };
 
     document.addEventListener('mousemove', handleMouseMove);
@@ -146,16 +93,7 @@ export default function CursorTracker({ pageId }: { pageId: number }) {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseleave', handleMouseLeave);
     };
-  }, [isConnected, pageId, user]);
-
-  const getUserColor = (userId: string) => {
-    const colors = [
-      '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7',
-      '#DDA0DD', '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E9'
-    ];
-    const index = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % colors.length;
-    return colors[index];
-  };
+  }, [isConnected, pageId, user, notify]);
 
   return (
     <>
@@ -1,76 +1,34 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useWebSocketAPI } from "@/hooks/useWebSocketAPI";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Users, Circle } from "lucide-react";
-
-interface ActiveUser {
-  id: string;
-  name: string;
-  username: string;
-  avatar?: string;
-  status: 'active' | 'typing' | 'viewing';
-  lastSeen: number;
-  currentBlock?: number;
-}
+import type { PresenceUser } from "@shared/realtime";
 
 export default function LivePresence({ pageId }: { pageId: number }) {
   const { user } = useAuth();
-  const [activeUsers, setActiveUsers] = useState<ActiveUser[]>([]);
-  const [ws, setWs] = useState<WebSocket | null>(null);
+  const { subscribe, joinPage } = useWebSocketAPI();
+  const [activeUsers, setActiveUsers] = useState<PresenceUser[]>([]);
 
   useEffect(() => {
     if (!user || !pageId) return;
 
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const websocket = new WebSocket(wsUrl);
-
-    websocket.onopen = () => {
-      websocket.send(JSON.stringify({
-        type: 'join_presence',
-        pageId,
-        userId: user.id,
-        userName: user.name || user.username,
-        userAvatar: user.avatar
-      }));
+    const showUsers = (users: PresenceUser[]) => {
+      setActiveUsers(users.filter(u => u.userId !== user.id));
     };
-
-    websocket.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      
-      if (data.type === 'presence_update') {
-        setActiveUsers(data.users.filter((u: ActiveUser) => u.id !== user.id));
-      }
-      
-      if (data.type === 'user_typing') {
-        setActiveUsers(prev => 
-          prev.map(u => 
-            u.id === data.userId 
-              ? { ...u, status: 'typing', lastSeen: Date.now() }
-              : u
-          )
-        );
-      }
-      
-      if (data.type === 'user_stopped_typing') {
-        setActiveUsers(prev => 
-          prev.map(u => 
-            u.id === data.userId 
-              ? { ...u, status: 'active', lastSeen: Date.now() }
-              : u
-          )
-        );
-      }
-    };
-
-    setWs(websocket);
+    const release = joinPage(pageId, ({ users }) => showUsers(users));
+    const unsubscribe = subscribe('presence', (data) => {
+      if (data.pageId === pageId) showUsers(data.users);
+    });
 
     return () => {
-      websocket.close();
+      unsubscribe();
+      release();
+      setActiveUsers([]);
     };
-  }, [pageId, user]);
+  }, [pageId, user, joinPage, subscribe]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -107,12 +65,11 @@ export default function LivePresence({ pageId }: { pageId: number }) {
         
         <div className="space-y-2 max-h-40 overflow-y-auto">
           {activeUsers.map((activeUser) => (
-            <div key={activeUser.id} className="flex items-center space-x-3">
+            <div key={activeUser.userId} className="flex items-center space-x-3">
               <div className="relative">
                 <Avatar className="h-8 w-8">
-                  <AvatarImage src={activeUser.avatar} />
-                  <AvatarFallback>
-                    {activeUser.name?.charAt(0) || activeUser.username.charAt(0)}
+                  <AvatarFallback style={{ backgroundColor: activeUser.color, color: 'white' }}>
+                    {activeUser.name.charAt(0)}
                   </AvatarFallback>
                 </Avatar>
                 <Circle 
@@ -123,7 +80,7 @@ export default function LivePresence({ pageId }: { pageId: number }) {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between">
                   <p className="text-sm font-medium truncate">
-                    {activeUser.name || activeUser.username}
+                    {activeUser.name}
                   </p>
                   <Badge variant="outline" className="text-xs">
                     {getStatusText(activeUser.status)}
@@ -18,6 +18,7 @@ import {
   Command
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { SearchHighlight, SearchResponse } from "@shared/schema";
 
 interface CommandPaletteProps {
   isOpen: boolean;
@@ -30,10 +31,24 @@ interface SearchResult {
   title: string;
   type: 'page' | 'block' | 'command';
   content?: string;
-  lastModified?: string;
+  titleHighlights?: SearchHighlight[];
+  snippet?: SearchHighlight[] | null;
+  lastModified?: string | number | null;
   path?: string;
 }
 
+function Highlighted({ parts }: { parts: SearchHighlight[] }) {
+  return (
+    <>
+      {parts.map((part, index) => part.match ? (
+        <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </>
+  );
+}
+
 export default function CommandPalette({ isOpen, onClose, onPageSelect }: CommandPaletteProps) {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -45,9 +60,9 @@ export default function CommandPalette({ isOpen, onClose, onPageSelect }: Comman
   
   const workspaceId = workspaces?.[0]?.id;
 
-  const { data: searchResults, isLoading } = useQuery({
-    queryKey: [`/api/workspaces/${workspaceId}/search`, { q: query }],
-    enabled: !!workspaceId && query.length > 0,
+  const { data: searchResults, isLoading } = useQuery<SearchResponse>({
+    queryKey: [`/api/workspaces/${workspaceId}/search?q=${encodeURIComponent(query)}`],
+    enabled: !!workspaceId && query.trim().length > 0,
   });
 
   // Mock commands for demonstration
@@ -64,13 +79,14 @@ export default function CommandPalette({ isOpen, onClose, onPageSelect }: Comman
       cmd.title.toLowerCase().includes(query.toLowerCase()) ||
       cmd.content.toLowerCase().includes(query.toLowerCase())
     ) : []),
-    ...(searchResults || []).map((page: any) => ({
-      id: page.id,
-      title: page.title,
+    ...(searchResults?.results || []).map((result) => ({
+      id: result.pageId,
+      title: result.title,
       type: 'page' as const,
-      content: page.content?.slice(0, 100) + (page.content?.length > 100 ? '...' : ''),
-      lastModified: page.lastEditedAt,
-      path: page.parentTitle ? `${page.parentTitle} > ${page.title}` : page.title
+      titleHighlights: result.titleHighlights,
+      snippet: result.snippet,
+      lastModified: result.updatedAt,
+      path: result.parentTitle ? `${result.parentTitle} > ${result.title}` : result.title
     }))
   ];
 
@@ -232,7 +248,7 @@ export default function CommandPalette({ isOpen, onClose, onPageSelect }: Comman
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center space-x-2">
                         <span className="font-medium truncate">
-                          {result.title}
+                          {result.titleHighlights ? <Highlighted parts={result.titleHighlights} /> : result.title}
                         </span>
                         <Badge 
                           variant="secondary" 
@@ -241,7 +257,11 @@ export default function CommandPalette({ isOpen, onClose, onPageSelect }: Comman
                           {result.type}
                         </Badge>
                       </div>
-                      {result.content && (
+                      {result.snippet ? (
+                        <p className="text-sm text-muted-foreground mt-1 truncate">
+                          <Highlighted parts={result.snippet} />
+                        </p>
+                      ) : result.content && (
                         <p className="text-sm text-muted-foreground mt-1 truncate">
                           {result.content}
                         </p>
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Loader2, MessageSquare, Check, RotateCcw, Pencil, Trash2, X } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Block, CommentThread, CommentWithAuthor } from "@shared/schema";
+
+// Resolved threads are fetched too so the sidebar can switch tabs without a refetch
+export function commentsQueryKey(pageId: number) {
+  return [`/api/pages/${pageId}/comments?includeResolved=true`];
+}
+
+interface CommentSidebarProps {
+  pageId: number;
+  blocks: Block[];
+  focusBlockId: number | null;
+  onFocusBlock: (blockId: number | null) => void;
+  onClose: () => void;
+}
+
+function blockExcerpt(block?: Block): string {
+  if (!block) return "Deleted block";
+  const content: any = typeof block.content === "string" ? JSON.parse(block.content || "{}") : block.content;
+  const text = content?.text ?? "";
+  return text ? (text.length > 60 ? `${text.slice(0, 60)}…` : text) : block.type;
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).map(part => part[0]).join("").slice(0, 2).toUpperCase();
+}
+
+function CommentComposer({ placeholder, submitLabel, initialValue = "", isPending, onSubmit, onCancel }: {
+  placeholder: string;
+  submitLabel: string;
+  initialValue?: string;
+  isPending: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+}) {
+  const [value, setValue] = useState(initialValue);
+
+  const submit = () => {
+    if (!value.trim()) return;
+    onSubmit(value.trim());
+    setValue("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={value}
+        placeholder={placeholder}
+        className="min-h-[60px] text-sm"
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+      />
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={isPending || !value.trim()}>
+          {isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CommentItem({ comment, canEdit, canDelete, onEdit, onDelete }: {
+  comment: CommentWithAuthor;
+  canEdit: boolean;
+  canDelete: boolean;
+  onEdit: (content: string) => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <div className="group flex items-start space-x-2">
+      <Avatar className="h-6 w-6">
+        <AvatarImage src={comment.author.profileImageUrl ?? undefined} />
+        <AvatarFallback className="text-[10px]">{initials(comment.author.name)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between">
+          <div className="text-xs">
+            <span className="font-medium">{comment.author.name}</span>
+            <span className="text-muted-foreground ml-2">
+              {comment.createdAt ? new Date(comment.createdAt).toLocaleString() : ""}
+            </span>
+          </div>
+          <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+            {canEdit && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setIsEditing(true)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+            {canDelete && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDelete}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+        {isEditing ? (
+          <CommentComposer
+            placeholder="Edit comment"
+            submitLabel="Save"
+            initialValue={comment.content}
+            isPending={false}
+            onSubmit={(content) => {
+              onEdit(content);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function CommentSidebar({ pageId, blocks, focusBlockId, onFocusBlock, onClose }: CommentSidebarProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<"open" | "resolved">("open");
+
+  const { data: threads = [], isLoading } = useQuery<CommentThread[]>({
+    queryKey: commentsQueryKey(pageId),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: commentsQueryKey(pageId) });
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (input: { content: string; blockId?: number | null; parentId?: number }) => {
+      const response = await apiRequest("POST", `/api/pages/${pageId}/comments`, input);
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to add comment"),
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/comments/${id}`, { content });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update comment"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/comments/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to delete comment"),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolved }: { id: number; resolved: boolean }) => {
+      const response = await apiRequest("POST", `/api/comments/${id}/${resolved ? "resolve" : "reopen"}`);
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update thread"),
+  });
+
+  const visible = threads.filter(thread =>
+    (tab === "resolved") === !!thread.isResolved &&
+    (focusBlockId === null || thread.blockId === focusBlockId)
+  );
+  const openCount = threads.filter(thread => !thread.isResolved).length;
+  const resolvedCount = threads.length - openCount;
+
+  const renderComment = (comment: CommentWithAuthor) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      canEdit={comment.authorId === user?.id}
+      canDelete={comment.authorId === user?.id}
+      onEdit={(content) => editMutation.mutate({ id: comment.id, content })}
+      onDelete={() => deleteMutation.mutate(comment.id)}
+    />
+  );
+
+  return (
+    <aside className="fixed right-0 top-0 h-full w-80 bg-background border-l shadow-lg z-40 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="h-4 w-4" />
+          <h2 className="font-semibold">Comments</h2>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-2 px-4 pt-3">
+        <Button variant={tab === "open" ? "secondary" : "ghost"} size="sm" onClick={() => setTab("open")}>
+          Open <Badge variant="outline" className="ml-2">{openCount}</Badge>
+        </Button>
+        <Button variant={tab === "resolved" ? "secondary" : "ghost"} size="sm" onClick={() => setTab("resolved")}>
+          Resolved <Badge variant="outline" className="ml-2">{resolvedCount}</Badge>
+        </Button>
+      </div>
+
+      {focusBlockId !== null && (
+        <div className="mx-4 mt-3 flex items-center justify-between rounded bg-muted px-2 py-1 text-xs">
+          <span className="truncate">On “{blockExcerpt(blocks.find(block => block.id === focusBlockId))}”</span>
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onFocusBlock(null)}>
+            Show all
+          </Button>
+        </div>
+      )}
+
+      {tab === "open" && (
+        <div className="p-4 border-b">
+          <CommentComposer
+            placeholder={focusBlockId !== null ? "Comment on this block…" : "Comment on this page…"}
+            submitLabel="Comment"
+            isPending={addMutation.isPending}
+            onSubmit={(content) => addMutation.mutate({ content, blockId: focusBlockId })}
+          />
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {tab === "open" ? "No open comments" : "No resolved comments"}
+            </p>
+          ) : (
+            visible.map(thread => (
+              <div key={thread.id} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  {thread.blockId !== null ? (
+                    <button
+                      type="button"
+                      className="text-xs text-muted-foreground truncate hover:underline text-left"
+                      onClick={() => onFocusBlock(thread.blockId)}
+                    >
+                      {blockExcerpt(blocks.find(block => block.id === thread.blockId))}
+                    </button>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Page comment</span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: thread.id, resolved: !thread.isResolved })}
+                  >
+                    {thread.isResolved ? (
+                      <><RotateCcw className="h-3 w-3 mr-1" />Reopen</>
+                    ) : (
+                      <><Check className="h-3 w-3 mr-1" />Resolve</>
+                    )}
+                  </Button>
+                </div>
+
+                {renderComment(thread)}
+                {thread.replies.length > 0 && (
+                  <div className="pl-4 border-l space-y-3">
+                    {thread.replies.map(renderComment)}
+                  </div>
+                )}
+
+                {!thread.isResolved && (
+                  <CommentComposer
+                    placeholder="Reply…"
+                    submitLabel="Reply"
+                    isPending={addMutation.isPending}
+                    onSubmit={(content) => addMutation.mutate({ content, parentId: thread.id })}
+                  />
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
@@ -0,0 +1,719 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Loader2, Plus, Table2, Columns3, List, CalendarDays, LayoutGrid, ArrowUpDown, Filter, Trash2, X,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PropertyDisplay, PropertyEditor, OptionBadge } from "./property-value";
+import {
+  databasePropertyTypes,
+  databaseOperatorsByType,
+  type DatabaseWithViews,
+  type DatabaseViewConfig,
+  type DatabaseViewType,
+  type DatabaseProperty,
+  type DatabasePropertyType,
+  type DatabasePropertyValue,
+  type DatabaseDateValue,
+  type DatabaseFilter,
+  type DatabaseFilterCondition,
+  type DatabaseSort,
+  type DatabaseRow,
+  type UpdateDatabaseView,
+} from "@shared/schema";
+
+interface DatabaseViewProps {
+  databaseId: number;
+}
+
+interface QueryResult {
+  view: DatabaseViewConfig | null;
+  rows: DatabaseRow[];
+}
+
+// New properties and options are sent without ids; the server assigns them
+type PropertyInput = Omit<DatabaseProperty, "id" | "options"> & {
+  id?: string;
+  options?: { id?: string; name: string; color: string }[];
+};
+
+interface RowProps {
+  properties: DatabaseProperty[];
+  rows: DatabaseRow[];
+  view: DatabaseViewConfig;
+  onUpdateRow: (rowId: number, values: Record<string, DatabasePropertyValue>) => void;
+  onDeleteRow: (rowId: number) => void;
+}
+
+const viewIcons: Record<DatabaseViewType, typeof Table2> = {
+  table: Table2,
+  board: Columns3,
+  list: List,
+  calendar: CalendarDays,
+  gallery: LayoutGrid,
+};
+
+const propertyTypeLabels: Record<DatabasePropertyType, string> = {
+  title: "Title",
+  text: "Text",
+  number: "Number",
+  select: "Select",
+  multi_select: "Multi-select",
+  date: "Date",
+  person: "Person",
+  checkbox: "Checkbox",
+  url: "URL",
+  relation: "Relation",
+};
+
+function visibleProperties(properties: DatabaseProperty[], view: DatabaseViewConfig): DatabaseProperty[] {
+  if (!view.visibleProperties) return properties;
+  return view.visibleProperties
+    .map(propertyId => properties.find(property => property.id === propertyId))
+    .filter((property): property is DatabaseProperty => !!property);
+}
+
+function TableView({ properties, rows, view, onUpdateRow, onDeleteRow }: RowProps) {
+  const columns = visibleProperties(properties, view);
+
+  return (
+    <div className="overflow-x-auto border rounded-md">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            {columns.map(property => (
+              <th key={property.id} className="text-left font-medium px-2 py-1.5 min-w-32">
+                {property.name}
+              </th>
+            ))}
+            <th className="w-8" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.id} className="group border-b last:border-b-0">
+              {columns.map(property => (
+                <td key={property.id} className="px-2 py-0.5 align-middle">
+                  <PropertyEditor
+                    property={property}
+                    value={row.values[property.id]}
+                    onChange={(value) => onUpdateRow(row.id, { [property.id]: value })}
+                  />
+                </td>
+              ))}
+              <td className="px-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="opacity-0 group-hover:opacity-100 h-7 w-7 p-0"
+                  onClick={() => onDeleteRow(row.id)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RowCard({ row, properties, view }: { row: DatabaseRow; properties: DatabaseProperty[]; view: DatabaseViewConfig }) {
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-1">
+        <div className="font-medium text-sm">{row.icon} {row.title || "Untitled"}</div>
+        {visibleProperties(properties, view)
+          .filter(property => property.type !== "title" && property.id !== view.groupBy)
+          .map(property => (
+            <PropertyDisplay key={property.id} property={property} value={row.values[property.id]} />
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BoardView({ properties, rows, view, onUpdateRow }: RowProps) {
+  const groupProperty = properties.find(property => property.id === view.groupBy);
+  if (!groupProperty) {
+    return <p className="text-sm text-muted-foreground">Pick a property to group this board by.</p>;
+  }
+
+  let columns: { key: string; label: React.ReactNode; value: DatabasePropertyValue; rows: DatabaseRow[] }[];
+  if (groupProperty.type === "checkbox") {
+    columns = [true, false].map(checked => ({
+      key: String(checked),
+      label: checked ? "Checked" : "Unchecked",
+      value: checked,
+      rows: rows.filter(row => (row.values[groupProperty.id] === true) === checked),
+    }));
+  } else if (groupProperty.type === "person") {
+    const people = Array.from(new Set(rows.flatMap(row => (row.values[groupProperty.id] as string[] | null) ?? [])));
+    columns = [
+      { key: "none", label: `No ${groupProperty.name}`, value: null, rows: rows.filter(row => !(row.values[groupProperty.id] as string[] | null)?.length) },
+      ...people.map(person => ({
+        key: person,
+        label: person,
+        value: [person],
+        rows: rows.filter(row => ((row.values[groupProperty.id] as string[] | null) ?? []).includes(person)),
+      })),
+    ];
+  } else {
+    const inGroup = (row: DatabaseRow, optionId: string) => {
+      const value = row.values[groupProperty.id];
+      return Array.isArray(value) ? (value as string[]).includes(optionId) : value === optionId;
+    };
+    const isEmpty = (row: DatabaseRow) => {
+      const value = row.values[groupProperty.id];
+      return value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+    };
+    columns = [
+      { key: "none", label: `No ${groupProperty.name}`, value: null, rows: rows.filter(isEmpty) },
+      ...(groupProperty.options ?? []).map(option => ({
+        key: option.id,
+        label: <OptionBadge option={option} />,
+        value: groupProperty.type === "multi_select" ? [option.id] : option.id,
+        rows: rows.filter(row => inGroup(row, option.id)),
+      })),
+    ];
+  }
+
+  return (
+    <div className="flex space-x-3 overflow-x-auto pb-2">
+      {columns.map(column => (
+        <div
+          key={column.key}
+          className="w-64 flex-shrink-0 space-y-2"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            const rowId = parseInt(e.dataTransfer.getData("text/plain"));
+            if (rowId) onUpdateRow(rowId, { [groupProperty.id]: column.value });
+          }}
+        >
+          <div className="flex items-center justify-between text-sm text-muted-foreground px-1">
+            <span>{column.label}</span>
+            <span>{column.rows.length}</span>
+          </div>
+          {column.rows.map(row => (
+            <div key={row.id} draggable onDragStart={(e) => e.dataTransfer.setData("text/plain", String(row.id))}>
+              <RowCard row={row} properties={properties} view={view} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ListView({ properties, rows, view }: RowProps) {
+  const shown = visibleProperties(properties, view).filter(property => property.type !== "title");
+  return (
+    <div className="divide-y border rounded-md">
+      {rows.map(row => (
+        <div key={row.id} className="flex items-center justify-between px-3 py-2">
+          <span className="text-sm font-medium">{row.icon} {row.title || "Untitled"}</span>
+          <div className="flex items-center space-x-3">
+            {shown.map(property => (
+              <PropertyDisplay key={property.id} property={property} value={row.values[property.id]} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function GalleryView({ properties, rows, view }: RowProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+      {rows.map(row => (
+        <RowCard key={row.id} row={row} properties={properties} view={view} />
+      ))}
+    </div>
+  );
+}
+
+function CalendarView({ properties, rows, view }: RowProps) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const dateProperty = properties.find(property => property.id === view.dateProperty);
+  if (!dateProperty) {
+    return <p className="text-sm text-muted-foreground">Pick a date property for this calendar.</p>;
+  }
+
+  const firstDay = month.getDay();
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells = Array.from({ length: Math.ceil((firstDay + daysInMonth) / 7) * 7 }, (_, index) => {
+    const day = index - firstDay + 1;
+    return day >= 1 && day <= daysInMonth ? day : null;
+  });
+
+  const rowsOn = (day: number) => rows.filter(row => {
+    const value = row.values[dateProperty.id] as DatabaseDateValue | null;
+    if (!value) return false;
+    const start = new Date(value.start.length === 10 ? `${value.start}T00:00:00` : value.start);
+    return start.getFullYear() === month.getFullYear() && start.getMonth() === month.getMonth() && start.getDate() === day;
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{month.toLocaleDateString(undefined, { month: "long", year: "numeric" })}</span>
+        <div className="space-x-1">
+          <Button variant="outline" size="sm" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}>‹</Button>
+          <Button variant="outline" size="sm" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}>›</Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-7 border-l border-t text-xs">
+        {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map(day => (
+          <div key={day} className="border-r border-b px-1 py-0.5 text-muted-foreground">{day}</div>
+        ))}
+        {cells.map((day, index) => (
+          <div key={index} className="border-r border-b min-h-20 p-1 space-y-1">
+            {day && <div className="text-muted-foreground">{day}</div>}
+            {day && rowsOn(day).map(row => (
+              <div key={row.id} className="rounded bg-muted px-1 truncate">{row.title || "Untitled"}</div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SortControl({ properties, sorts, onChange }: {
+  properties: DatabaseProperty[];
+  sorts: DatabaseSort[];
+  onChange: (sorts: DatabaseSort[]) => void;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <ArrowUpDown className="h-4 w-4 mr-1" />
+          Sort{sorts.length > 0 ? ` (${sorts.length})` : ""}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-2">
+        {sorts.map((sort, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <select
+              className="flex-1 border rounded px-1 py-1 text-sm bg-background"
+              value={sort.propertyId}
+              onChange={(e) => onChange(sorts.map((s, i) => i === index ? { ...s, propertyId: e.target.value } : s))}
+            >
+              {properties.map(property => <option key={property.id} value={property.id}>{property.name}</option>)}
+            </select>
+            <select
+              className="border rounded px-1 py-1 text-sm bg-background"
+              value={sort.direction}
+              onChange={(e) => onChange(sorts.map((s, i) => i === index
+                ? { ...s, direction: e.target.value as DatabaseSort["direction"] }
+                : s))}
+            >
+              <option value="ascending">Ascending</option>
+              <option value="descending">Descending</option>
+            </select>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onChange(sorts.filter((_, i) => i !== index))}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...sorts, { propertyId: properties[0].id, direction: "ascending" }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add sort
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Edits a flat list of conditions joined with "and"; nested groups made through the API are left alone
+function FilterControl({ properties, filter, onChange }: {
+  properties: DatabaseProperty[];
+  filter: DatabaseFilter | null;
+  onChange: (filter: DatabaseFilter | null) => void;
+}) {
+  const conditions: DatabaseFilterCondition[] | null = !filter
+    ? []
+    : "propertyId" in filter
+      ? [filter]
+      : "and" in filter && filter.and.every(child => "propertyId" in child)
+        ? filter.and as DatabaseFilterCondition[]
+        : null;
+
+  const save = (next: DatabaseFilterCondition[]) => {
+    onChange(next.length === 0 ? null : next.length === 1 ? next[0] : { and: next });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Filter className="h-4 w-4 mr-1" />
+          Filter{filter ? " (on)" : ""}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-2">
+        {conditions === null ? (
+          <p className="text-sm text-muted-foreground">This view uses an advanced filter.</p>
+        ) : (
+          <>
+            {conditions.map((condition, index) => {
+              const property = properties.find(p => p.id === condition.propertyId) ?? properties[0];
+              const operators = databaseOperatorsByType[property.type];
+              const update = (changes: Partial<DatabaseFilterCondition>) =>
+                save(conditions.map((c, i) => i === index ? { ...c, ...changes } : c));
+              return (
+                <div key={index} className="flex items-center space-x-1">
+                  <select
+                    className="border rounded px-1 py-1 text-sm bg-background"
+                    value={condition.propertyId}
+                    onChange={(e) => {
+                      const next = properties.find(p => p.id === e.target.value)!;
+                      update({ propertyId: next.id, operator: databaseOperatorsByType[next.type][0], value: undefined });
+                    }}
+                  >
+                    {properties.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  <select
+                    className="border rounded px-1 py-1 text-sm bg-background"
+                    value={condition.operator}
+                    onChange={(e) => update({ operator: e.target.value as DatabaseFilterCondition["operator"] })}
+                  >
+                    {operators.map(operator => <option key={operator} value={operator}>{operator.replace(/_/g, " ")}</option>)}
+                  </select>
+                  {!condition.operator.startsWith("is_") && (
+                    property.type === "checkbox" ? (
+                      <select
+                        className="border rounded px-1 py-1 text-sm bg-background"
+                        value={String(condition.value ?? true)}
+                        onChange={(e) => update({ value: e.target.value === "true" })}
+                      >
+                        <option value="true">Checked</option>
+                        <option value="false">Unchecked</option>
+                      </select>
+                    ) : property.type === "select" || property.type === "multi_select" ? (
+                      <select
+                        className="border rounded px-1 py-1 text-sm bg-background"
+                        value={condition.value ?? ""}
+                        onChange={(e) => update({ value: e.target.value })}
+                      >
+                        <option value="" disabled>Option</option>
+                        {property.options?.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                      </select>
+                    ) : (
+                      <Input
+                        className="h-8 flex-1"
+                        type={property.type === "date" ? "date" : property.type === "number" ? "number" : "text"}
+                        defaultValue={condition.value ?? ""}
+                        onBlur={(e) => update({ value: property.type === "number" ? Number(e.target.value) : e.target.value })}
+                      />
+                    )
+                  )}
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => save(conditions.filter((_, i) => i !== index))}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => save([...conditions, {
+                propertyId: properties[0].id,
+                operator: databaseOperatorsByType[properties[0].type][0],
+                value: "",
+              }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add filter
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function DatabaseView({ databaseId }: DatabaseViewProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  const [newPropertyName, setNewPropertyName] = useState("");
+  const [newPropertyType, setNewPropertyType] = useState<DatabasePropertyType>("text");
+  const [newPropertyOptions, setNewPropertyOptions] = useState("");
+
+  const { data: database, isLoading } = useQuery<DatabaseWithViews>({
+    queryKey: ["/api/databases", databaseId],
+  });
+
+  useEffect(() => {
+    if (database && !database.views.some(view => view.id === activeViewId)) {
+      setActiveViewId(database.views[0]?.id ?? null);
+    }
+  }, [database, activeViewId]);
+
+  const view = useMemo(
+    () => database?.views.find(candidate => candidate.id === activeViewId),
+    [database, activeViewId]
+  );
+
+  const { data: result } = useQuery<QueryResult>({
+    queryKey: ["/api/databases", databaseId, "query", activeViewId],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/databases/${databaseId}/query`, { viewId: activeViewId });
+      return await response.json();
+    },
+    enabled: activeViewId !== null,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/databases", databaseId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, ""),
+      variant: "destructive",
+    });
+  };
+
+  const createRowMutation = useMutation({
+    mutationFn: async (values: Record<string, DatabasePropertyValue>) => {
+      const response = await apiRequest("POST", `/api/databases/${databaseId}/rows`, { values });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const updateRowMutation = useMutation({
+    mutationFn: async ({ rowId, values }: { rowId: number; values: Record<string, DatabasePropertyValue> }) => {
+      const response = await apiRequest("PATCH", `/api/databases/${databaseId}/rows/${rowId}`, { values });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteRowMutation = useMutation({
+    mutationFn: async (rowId: number) => {
+      const response = await apiRequest("DELETE", `/api/databases/${databaseId}/rows/${rowId}`);
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const updateSchemaMutation = useMutation({
+    mutationFn: async (properties: PropertyInput[]) => {
+      const response = await apiRequest("PATCH", `/api/databases/${databaseId}`, { properties });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setNewPropertyName("");
+      setNewPropertyOptions("");
+      refresh();
+    },
+    onError,
+  });
+
+  const createViewMutation = useMutation({
+    mutationFn: async (type: DatabaseViewType) => {
+      const name = type.charAt(0).toUpperCase() + type.slice(1);
+      const response = await apiRequest("POST", `/api/databases/${databaseId}/views`, { name, type });
+      return await response.json();
+    },
+    onSuccess: (created: DatabaseViewConfig) => {
+      setActiveViewId(created.id);
+      refresh();
+    },
+    onError,
+  });
+
+  const updateViewMutation = useMutation({
+    mutationFn: async (settings: UpdateDatabaseView) => {
+      const response = await apiRequest("PATCH", `/api/databases/${databaseId}/views/${activeViewId}`, settings);
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  if (isLoading || !database) {
+    return (
+      <div className="flex items-center justify-center h-24">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  const rows = result?.rows ?? [];
+  const rowProps: RowProps | null = view ? {
+    properties: database.properties,
+    rows,
+    view,
+    onUpdateRow: (rowId, values) => updateRowMutation.mutate({ rowId, values }),
+    onDeleteRow: (rowId) => deleteRowMutation.mutate(rowId),
+  } : null;
+
+  const addProperty = () => {
+    if (!newPropertyName.trim()) return;
+    updateSchemaMutation.mutate([
+      ...database.properties,
+      {
+        name: newPropertyName.trim(),
+        type: newPropertyType,
+        ...(newPropertyType === "select" || newPropertyType === "multi_select" ? {
+          options: newPropertyOptions
+            .split(",")
+            .map(name => name.trim())
+            .filter(Boolean)
+            .map(name => ({ name, color: "default" })),
+        } : {}),
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3 my-2">
+      <h3 className="text-lg font-semibold">{database.title}</h3>
+
+      <div className="flex items-center justify-between border-b pb-1">
+        <div className="flex items-center space-x-1">
+          {database.views.map(candidate => {
+            const Icon = viewIcons[candidate.type as DatabaseViewType] ?? Table2;
+            return (
+              <Button
+                key={candidate.id}
+                variant={candidate.id === activeViewId ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setActiveViewId(candidate.id)}
+              >
+                <Icon className="h-4 w-4 mr-1" />
+                {candidate.name}
+              </Button>
+            );
+          })}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {(Object.keys(viewIcons) as DatabaseViewType[]).map(type => {
+                const Icon = viewIcons[type];
+                return (
+                  <DropdownMenuItem key={type} onClick={() => createViewMutation.mutate(type)}>
+                    <Icon className="h-4 w-4 mr-2" />
+                    {type.charAt(0).toUpperCase() + type.slice(1)}
+                  </DropdownMenuItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {view && (
+          <div className="flex items-center space-x-1">
+            <FilterControl
+              properties={database.properties}
+              filter={view.filter}
+              onChange={(filter) => updateViewMutation.mutate({ filter })}
+            />
+            <SortControl
+              properties={database.properties}
+              sorts={view.sorts}
+              onChange={(sorts) => updateViewMutation.mutate({ sorts })}
+            />
+            {view.type === "board" && (
+              <select
+                className="border rounded px-1 py-1 text-sm bg-background"
+                value={view.groupBy ?? ""}
+                onChange={(e) => updateViewMutation.mutate({ groupBy: e.target.value || null })}
+              >
+                <option value="">Group by…</option>
+                {database.properties
+                  .filter(property => ["select", "multi_select", "person", "checkbox"].includes(property.type))
+                  .map(property => <option key={property.id} value={property.id}>{property.name}</option>)}
+              </select>
+            )}
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Property
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-2">
+                <Input
+                  placeholder="Property name"
+                  value={newPropertyName}
+                  onChange={(e) => setNewPropertyName(e.target.value)}
+                />
+                <select
+                  className="w-full border rounded px-2 py-1 text-sm bg-background"
+                  value={newPropertyType}
+                  onChange={(e) => setNewPropertyType(e.target.value as DatabasePropertyType)}
+                >
+                  {databasePropertyTypes
+                    .filter(type => type !== "title" && type !== "relation")
+                    .map(type => <option key={type} value={type}>{propertyTypeLabels[type]}</option>)}
+                </select>
+                {(newPropertyType === "select" || newPropertyType === "multi_select") && (
+                  <Input
+                    placeholder="Options, separated by commas"
+                    value={newPropertyOptions}
+                    onChange={(e) => setNewPropertyOptions(e.target.value)}
+                  />
+                )}
+                <Button size="sm" className="w-full" onClick={addProperty} disabled={updateSchemaMutation.isPending}>
+                  Add property
+                </Button>
+              </PopoverContent>
+            </Popover>
+          </div>
+        )}
+      </div>
+
+      {rowProps && view?.type === "board" && <BoardView {...rowProps} />}
+      {rowProps && view?.type === "list" && <ListView {...rowProps} />}
+      {rowProps && view?.type === "calendar" && <CalendarView {...rowProps} />}
+      {rowProps && view?.type === "gallery" && <GalleryView {...rowProps} />}
+      {rowProps && view?.type === "table" && <TableView {...rowProps} />}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground"
+        onClick={() => createRowMutation.mutate({ title: "" })}
+        disabled={createRowMutation.isPending}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        New
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import type {
+  DatabaseProperty,
+  DatabasePropertyValue,
+  DatabaseDateValue,
+  DatabaseSelectOption,
+} from "@shared/schema";
+
+const optionColors: Record<string, string> = {
+  default: "bg-muted text-foreground",
+  gray: "bg-gray-100 text-gray-800",
+  brown: "bg-amber-100 text-amber-900",
+  orange: "bg-orange-100 text-orange-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  green: "bg-green-100 text-green-800",
+  blue: "bg-blue-100 text-blue-800",
+  purple: "bg-purple-100 text-purple-800",
+  pink: "bg-pink-100 text-pink-800",
+  red: "bg-red-100 text-red-800",
+};
+
+export function OptionBadge({ option }: { option?: DatabaseSelectOption }) {
+  if (!option) return null;
+  return (
+    <Badge variant="outline" className={`border-none font-normal ${optionColors[option.color] ?? optionColors.default}`}>
+      {option.name}
+    </Badge>
+  );
+}
+
+export function formatDate(value: DatabaseDateValue): string {
+  const start = new Date(value.start).toLocaleDateString();
+  return value.end ? `${start} → ${new Date(value.end).toLocaleDateString()}` : start;
+}
+
+// Read-only rendering used by boards, lists, galleries and calendars
+export function PropertyDisplay({ property, value }: { property: DatabaseProperty; value: DatabasePropertyValue | undefined }) {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  switch (property.type) {
+    case "checkbox":
+      return <Checkbox checked={value === true} disabled />;
+    case "select":
+      return <OptionBadge option={property.options?.find(option => option.id === value)} />;
+    case "multi_select":
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(value as string[]).map(optionId => (
+            <OptionBadge key={optionId} option={property.options?.find(option => option.id === optionId)} />
+          ))}
+        </div>
+      );
+    case "date":
+      return <span className="text-sm">{formatDate(value as DatabaseDateValue)}</span>;
+    case "url":
+      return (
+        <a href={value as string} target="_blank" rel="noreferrer" className="text-sm underline text-muted-foreground">
+          {value as string}
+        </a>
+      );
+    case "person":
+    case "relation":
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(value as Array<string | number>).map(item => (
+            <Badge key={item} variant="secondary" className="font-normal">{item}</Badge>
+          ))}
+        </div>
+      );
+    default:
+      return <span className="text-sm">{String(value)}</span>;
+  }
+}
+
+interface PropertyEditorProps {
+  property: DatabaseProperty;
+  value: DatabasePropertyValue | undefined;
+  onChange: (value: DatabasePropertyValue) => void;
+}
+
+// Inline editor for a table cell. Text-like values are saved on blur.
+export function PropertyEditor({ property, value, onChange }: PropertyEditorProps) {
+  const [draft, setDraft] = useState(value ?? "");
+
+  useEffect(() => {
+    setDraft(value ?? "");
+  }, [value]);
+
+  const commit = (next: DatabasePropertyValue) => {
+    if (JSON.stringify(next) !== JSON.stringify(value ?? null)) {
+      onChange(next);
+    }
+  };
+
+  switch (property.type) {
+    case "checkbox":
+      return <Checkbox checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />;
+
+    case "select":
+      return (
+        <select
+          className="w-full bg-transparent text-sm outline-none"
+          value={(value as string) ?? ""}
+          onChange={(e) => onChange(e.target.value || null)}
+        >
+          <option value="">—</option>
+          {property.options?.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      );
+
+    case "multi_select": {
+      const selected = (value as string[] | null) ?? [];
+      return (
+        <div className="flex flex-wrap gap-1">
+          {property.options?.map(option => {
+            const isSelected = selected.includes(option.id);
+            return (
+              <button
+                key={option.id}
+                type="button"
+                className={isSelected ? "" : "opacity-40 hover:opacity-100"}
+                onClick={() => onChange(isSelected
+                  ? selected.filter(optionId => optionId !== option.id)
+                  : [...selected, option.id])}
+              >
+                <OptionBadge option={option} />
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case "date":
+      return (
+        <Input
+          type="date"
+          className="h-8 border-none shadow-none px-1"
+          value={value ? (value as DatabaseDateValue).start.slice(0, 10) : ""}
+          onChange={(e) => onChange(e.target.value ? { start: e.target.value } : null)}
+        />
+      );
+
+    case "person":
+    case "relation":
+      return <PropertyDisplay property={property} value={value} />;
+
+    default:
+      return (
+        <Input
+          type={property.type === "number" ? "number" : "text"}
+          className="h-8 border-none shadow-none px-1"
+          value={String(draft)}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => {
+            if (property.type === "number") {
+              commit(draft === "" ? null : Number(draft));
+            } else {
+              commit(draft === "" ? null : String(draft));
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              (e.target as HTMLInputElement).blur();
+            }
+          }}
+        />
+      );
+  }
+}
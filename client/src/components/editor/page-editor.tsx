@@ -1,20 +1,29 @@
 import { useState, useEffect } from "react";
-import { useParams } from "wouter";
+import { Link, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, Share, Users, Eye } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Loader2, Share, Users, Eye, History, Download, Link2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import CursorTracker from "@/components/collaboration/cursor-tracker";
 import LivePresence from "@/components/collaboration/live-presence";
 import SharePage from "@/components/sharing/share-page";
+import PagePermissions from "@/components/sharing/page-permissions";
+import PageHistory from "./page-history";
+import DatabaseView from "@/components/database/database-view";
 import BlockEditor from "./block-editor";
-import type { Page, Block } from "@shared/schema";
+import type { Page, Block, Database, PageBacklink } from "@shared/schema";
 
 export default function PageEditor() {
   const { id } = useParams<{ id: string }>();
@@ -24,6 +33,7 @@ export default function PageEditor() {
   const [isEditing, setIsEditing] = useState(false);
   const [title, setTitle] = useState("");
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const pageId = parseInt(id || "0");
 
   const { data: page, isLoading } = useQuery<Page>({
@@ -36,6 +46,18 @@ export default function PageEditor() {
     enabled: !!pageId,
   });
 
+  const { data: workspaceDatabases = [] } = useQuery<Database[]>({
+    queryKey: ["/api/workspaces", page?.workspaceId, "databases"],
+    enabled: !!page,
+  });
+  const { data: backlinks = [] } = useQuery<PageBacklink[]>({
+    queryKey: [`/api/pages/${pageId}/backlinks`],
+    enabled: !!pageId,
+  });
+
+  // Full-page databases own their page; the table replaces the page body
+  const pageDatabase = workspaceDatabases.find(database => !database.isInline && database.pageId === pageId);
+
   const updatePageMutation = useMutation({
     mutationFn: async (updates: Partial<Page>) => {
       const response = await apiRequest("PATCH", `/api/pages/${pageId}`, updates);
@@ -71,6 +93,31 @@ export default function PageEditor() {
     },
   });
 
+  const exportMutation = useMutation({
+    mutationFn: async (recursive: boolean) => {
+      const response = await apiRequest("GET", `/api/pages/${pageId}/export/markdown?recursive=${recursive}`);
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const encoded = /filename\*=UTF-8''([^;]+)/.exec(disposition);
+      const filename = encoded ? decodeURIComponent(encoded[1]) : `${page?.title || "Untitled"}.md`;
+      return { blob: await response.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast({
+        title: "Export failed",
+        description: "The page could not be exported. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   useEffect(() => {
     if (page) {
       setTitle(page.title);
@@ -142,6 +189,30 @@ export default function PageEditor() {
                   <Share className="h-4 w-4 mr-2" />
                   Share
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowHistory(true)}
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={exportMutation.isPending}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => exportMutation.mutate(false)}>
+                      Markdown (.md)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportMutation.mutate(true)}>
+                      Markdown with subpages (.zip)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   variant="destructive"
                   size="sm"
@@ -190,7 +261,11 @@ export default function PageEditor() {
           <Separator />
 
           {/* Block Editor */}
-          <BlockEditor pageId={pageId} blocks={blocks} />
+          {pageDatabase ? (
+            <DatabaseView databaseId={pageDatabase.id} />
+          ) : (
+            <BlockEditor pageId={pageId} blocks={blocks} />
+          )}
 
           {/* Page Statistics */}
           <div className="border-t pt-4">
@@ -212,6 +287,35 @@ export default function PageEditor() {
         </CardContent>
       </Card>
 
+      {/* Backlinks */}
+      {backlinks.length > 0 && (
+        <div className="max-w-4xl mx-auto mt-6 px-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-muted-foreground mb-3">
+            <Link2 className="h-4 w-4" />
+            <span>Linked from {backlinks.length} {backlinks.length === 1 ? "page" : "pages"}</span>
+          </div>
+          <div className="space-y-2">
+            {backlinks.map(backlink => (
+              <Link
+                key={backlink.pageId}
+                href={`/page/${backlink.pageId}`}
+                className="block rounded-lg border p-3 hover:bg-accent/50 transition-colors"
+              >
+                <div className="flex items-center space-x-2 font-medium">
+                  {backlink.icon && <span>{backlink.icon}</span>}
+                  <span>{backlink.title || "Untitled"}</span>
+                </div>
+                {backlink.references.filter(reference => reference.excerpt).map(reference => (
+                  <p key={`${reference.blockId}:${reference.kind}`} className="mt-1 text-sm text-muted-foreground truncate">
+                    {reference.excerpt}
+                  </p>
+                ))}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Share Dialog */}
       {showShareDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -226,10 +330,31 @@ export default function PageEditor() {
                 ×
               </Button>
             </div>
+            <PagePermissions pageId={pageId} workspaceId={page.workspaceId} />
+            <Separator className="my-6" />
             <SharePage pageId={pageId} pageTitle={page.title} />
           </div>
         </div>
       )}
+
+      {/* Page History */}
+      {showHistory && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-background rounded-lg p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Page History</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowHistory(false)}
+              >
+                ×
+              </Button>
+            </div>
+            <PageHistory pageId={pageId} onRestored={() => setShowHistory(false)} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
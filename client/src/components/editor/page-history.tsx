@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, History, RotateCcw, Plus, Minus, Pencil, MoveVertical } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PageRevision, RevisionDiff, BlockDiff, RevisionBlock } from "@shared/schema";
+
+type RevisionSummary = Omit<PageRevision, "blocks"> & { blockCount: number };
+
+interface PageHistoryProps {
+  pageId: number;
+  onRestored?: () => void;
+}
+
+function blockText(block?: RevisionBlock): string {
+  if (!block?.content) return "";
+  try {
+    const content = JSON.parse(block.content);
+    return content?.text ?? content?.title ?? "";
+  } catch {
+    return block.content;
+  }
+}
+
+const statusStyles: Record<BlockDiff["status"], string> = {
+  added: "border-l-green-500 bg-green-50",
+  removed: "border-l-red-500 bg-red-50 line-through text-muted-foreground",
+  changed: "border-l-amber-500 bg-amber-50",
+  moved: "border-l-blue-500 bg-blue-50",
+  unchanged: "border-l-transparent text-muted-foreground",
+};
+
+const statusIcons = {
+  added: Plus,
+  removed: Minus,
+  changed: Pencil,
+  moved: MoveVertical,
+  unchanged: null,
+};
+
+function BlockDiffRow({ entry }: { entry: BlockDiff }) {
+  const Icon = statusIcons[entry.status];
+  const before = blockText(entry.before);
+  const after = blockText(entry.after);
+
+  return (
+    <div className={`border-l-4 rounded-r px-3 py-2 text-sm ${statusStyles[entry.status]}`}>
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          {Icon && <Icon className="h-3 w-3" />}
+          <span>{entry.type}</span>
+        </div>
+        {entry.editedBy && (
+          <span className="text-xs text-muted-foreground">edited by {entry.editedBy}</span>
+        )}
+      </div>
+      {entry.status === "changed" && before !== after ? (
+        <div className="space-y-1">
+          <p className="line-through text-muted-foreground whitespace-pre-wrap">{before || "Empty"}</p>
+          <p className="whitespace-pre-wrap">{after || "Empty"}</p>
+        </div>
+      ) : (
+        <p className="whitespace-pre-wrap">{(entry.status === "removed" ? before : after) || "Empty"}</p>
+      )}
+    </div>
+  );
+}
+
+export default function PageHistory({ pageId, onRestored }: PageHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<RevisionSummary[]>({
+    queryKey: ["/api/pages", pageId, "revisions"],
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`/api/pages/${pageId}/revisions/${selectedId}/diff?against=current`],
+    enabled: selectedId !== null,
+    staleTime: 0,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `/api/pages/${pageId}/revisions/${revisionId}/restore`);
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/pages", pageId], data.page);
+      queryClient.invalidateQueries({ queryKey: ["/api/pages", pageId, "revisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/blocks", pageId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${pageId}/blocks`] });
+      setSelectedId(null);
+      toast({
+        title: "Version restored",
+        description: "The page has been restored to the selected version.",
+      });
+      onRestored?.();
+    },
+    onError: () => {
+      toast({
+        title: "Restore failed",
+        description: "Failed to restore this version. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-8 w-8 mx-auto mb-2" />
+        <p>No history yet. Versions are saved as the page is edited.</p>
+      </div>
+    );
+  }
+
+  const changedBlocks = diff?.blocks.filter(entry => entry.status !== "unchanged") ?? [];
+
+  return (
+    <div className="grid grid-cols-3 gap-4 min-h-[400px]">
+      <ScrollArea className="col-span-1 border-r pr-3 max-h-[70vh]">
+        <div className="space-y-1">
+          {revisions.map((revision) => (
+            <button
+              key={revision.id}
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left rounded p-2 text-sm hover:bg-muted ${
+                selectedId === revision.id ? "bg-muted" : ""
+              }`}
+            >
+              <div className="font-medium">
+                {new Date(revision.updatedAt ?? revision.createdAt ?? 0).toLocaleString()}
+              </div>
+              <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                <span>{revision.createdBy}</span>
+                {revision.reason === "restore" && <Badge variant="outline">Restore</Badge>}
+              </div>
+              <div className="text-xs text-muted-foreground">{revision.blockCount} blocks</div>
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="col-span-2 space-y-3">
+        {selectedId === null ? (
+          <p className="text-muted-foreground text-sm">Select a version to compare it with the current page.</p>
+        ) : isDiffLoading || !diff ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                {changedBlocks.length === 0 && !diff.title
+                  ? "Identical to the current page"
+                  : `${changedBlocks.length} block changes since this version`}
+              </div>
+              <Button
+                size="sm"
+                onClick={() => restoreMutation.mutate(selectedId)}
+                disabled={restoreMutation.isPending}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore this version
+              </Button>
+            </div>
+
+            {diff.title && (
+              <div className="border-l-4 border-l-amber-500 bg-amber-50 rounded-r px-3 py-2 text-sm">
+                <div className="text-xs text-muted-foreground mb-1">Title</div>
+                <p className="line-through text-muted-foreground">{diff.title.before}</p>
+                <p>{diff.title.after}</p>
+              </div>
+            )}
+
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-2">
+                {diff.blocks.map((entry) => (
+                  <BlockDiffRow key={`${entry.status}-${entry.blockId}`} entry={entry} />
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,89 +7,132 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Mail, Send, Inbox, Sent, Trash2, Search, Plus, Reply, Forward, Archive, Star, Paperclip } from "lucide-react";
+import { Mail, Send, Inbox, Trash2, Search, Plus, Reply, Forward, Archive, Star, Paperclip, RefreshCw, Server, LogOut, FileText } from "lucide-react";
+import { Link, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
+import type {
+  ConnectImapAccount, EmailAccountStatus, EmailMessageView, EmailThreadView, EmailToPage, EmailPageResult, PageWithChildren
+} from "@shared/schema";
 
-interface Email {
-  id: string;
-  messageId: string;
-  threadId: string;
-  subject: string;
-  body: string;
-  from: string;
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
-  date: string;
-  isRead: boolean;
-  isStarred: boolean;
-  labels: string[];
-  attachments: Array<{
-    filename: string;
-    size: number;
-    contentType: string;
-    attachmentId: string;
-  }>;
-  workspaceId: number;
-  relatedPageId?: number;
-}
+type Email = EmailMessageView;
+type EmailThread = EmailThreadView;
+type Folder = "inbox" | "sent" | "drafts" | "archive" | "trash" | "starred";
 
-interface EmailThread {
-  id: string;
-  subject: string;
-  participants: string[];
-  messageCount: number;
-  lastMessageDate: string;
-  isRead: boolean;
-  isStarred: boolean;
-  labels: string[];
-  messages: Email[];
+interface EmailPageProps {
+  workspaceId: number;
 }
 
-export default function EmailPage() {
+export default function EmailPage({ workspaceId }: EmailPageProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [selectedFolder, setSelectedFolder] = useState<"inbox" | "sent" | "drafts" | "trash" | "starred">("inbox");
+  const [selectedFolder, setSelectedFolder] = useState<Folder>("inbox");
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedThread, setSelectedThread] = useState<EmailThread | null>(null);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
   const [showComposeDialog, setShowComposeDialog] = useState(false);
+  const [showImapDialog, setShowImapDialog] = useState(false);
+  const [showPageDialog, setShowPageDialog] = useState(false);
+  const [, setLocation] = useLocation();
   const [replyingTo, setReplyingTo] = useState<Email | null>(null);
 
-  const { data: gmailConnected, isLoading: connectionLoading } = useQuery<boolean>({
-    queryKey: ['/api/email/connection-status'],
+  const { data: account, isLoading: connectionLoading } = useQuery<EmailAccountStatus>({
+    queryKey: ['/api/email/account'],
   });
+  const connected = !!account?.connected;
 
+  // Listing a folder also syncs it when the last sync is more than a couple of minutes old
   const { data: threads, isLoading: threadsLoading } = useQuery<EmailThread[]>({
-    queryKey: ['/api/email/threads', selectedFolder],
-    enabled: !!gmailConnected,
+    queryKey: [`/api/email/threads?folder=${selectedFolder}`],
+    enabled: connected,
   });
 
   const { data: folderCounts } = useQuery<Record<string, number>>({
     queryKey: ['/api/email/folder-counts'],
-    enabled: !!gmailConnected,
+    enabled: connected,
+  });
+
+  const selectedThread = threads?.find(thread => thread.id === selectedThreadId) ?? null;
+
+  const invalidateEmail = () => queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/email/'),
   });
 
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const connectGmailMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/email/connect-gmail');
-      return await response.json();
+      const response = await apiRequest('POST', '/api/email/connect-gmail', { workspaceId });
+      return await response.json() as { authUrl: string };
     },
     onSuccess: (data) => {
-      if (data.authUrl) {
-        window.open(data.authUrl, '_blank');
-      }
-      queryClient.invalidateQueries({ queryKey: ['/api/email/connection-status'] });
+      // Google sends the browser back to the app once access is granted
+      window.location.href = data.authUrl;
+    },
+    onError: showError("Connection failed"),
+  });
+
+  const connectImapMutation = useMutation({
+    mutationFn: async (settings: ConnectImapAccount) => {
+      const response = await apiRequest('POST', '/api/email/connect-imap', settings);
+      return await response.json() as EmailAccountStatus;
+    },
+    onSuccess: (status) => {
+      invalidateEmail();
+      setShowImapDialog(false);
+      toast({
+        title: "Mailbox connected",
+        description: `${status.address} is syncing. New mail will appear shortly.`,
+      });
+    },
+    onError: showError("Connection failed"),
+  });
+
+  const threadToPageMutation = useMutation({
+    mutationFn: async ({ threadId, target }: { threadId: string; target: EmailToPage }) => {
+      const response = await apiRequest('POST', `/api/email/threads/${threadId}/page`, target);
+      return await response.json() as EmailPageResult;
     },
-    onError: () => {
+    onSuccess: (result) => {
+      invalidateEmail();
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/pages`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${result.page.id}/blocks`] });
+      setShowPageDialog(false);
       toast({
-        title: "Connection failed",
-        description: "Failed to connect to Gmail. Please try again.",
-        variant: "destructive",
+        title: result.created ? "Page created" : "Added to page",
+        description: `"${result.page.title}" now follows this conversation; new replies will be added to it.`,
       });
+      setLocation(`/page/${result.page.id}`);
     },
+    onError: showError("Could not add to page"),
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/email/account');
+    },
+    onSuccess: () => {
+      setSelectedThreadId(null);
+      invalidateEmail();
+    },
+    onError: showError("Disconnect failed"),
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/email/sync');
+      return await response.json() as EmailAccountStatus;
+    },
+    onSuccess: invalidateEmail,
+    onError: showError("Sync failed"),
   });
 
   const sendEmailMutation = useMutation({
@@ -103,19 +146,28 @@ export default function EmailPage() {
       inReplyTo?: string;
       relatedPageId?: number;
     }) => {
+      const { attachments, ...message } = emailData;
       const formData = new FormData();
-      formData.append('emailData', JSON.stringify(emailData));
+      formData.append('emailData', JSON.stringify(message));
       
-      emailData.attachments?.forEach((file, index) => {
+      attachments?.forEach((file, index) => {
         formData.append(`attachment_${index}`, file);
       });
 
-      const response = await apiRequest('POST', '/api/email/send', formData);
-      return await response.json();
+      // Multipart, so apiRequest (JSON only) can't be used
+      const response = await fetch('/api/email/send', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || response.statusText);
+      }
+      return await response.json() as Email;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/email/threads'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/email/folder-counts'] });
+      invalidateEmail();
       setShowComposeDialog(false);
       setReplyingTo(null);
       toast({
@@ -123,24 +175,15 @@ export default function EmailPage() {
         description: "Your email has been sent successfully.",
       });
     },
-    onError: () => {
-      toast({
-        title: "Send failed",
-        description: "Failed to send email. Please try again.",
-        variant: "destructive",
-      });
-    },
+    onError: showError("Send failed"),
   });
 
   const markAsReadMutation = useMutation({
     mutationFn: async (threadId: string) => {
-      const response = await apiRequest('PATCH', `/api/email/threads/${threadId}/read`);
+      const response = await apiRequest('PATCH', `/api/email/threads/${threadId}/read`, { isRead: true });
       return await response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/email/threads'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/email/folder-counts'] });
-    },
+    onSuccess: invalidateEmail,
   });
 
   const starThreadMutation = useMutation({
@@ -148,33 +191,31 @@ export default function EmailPage() {
       const response = await apiRequest('PATCH', `/api/email/threads/${threadId}/star`, { isStarred });
       return await response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/email/threads'] });
-    },
+    onSuccess: invalidateEmail,
+    onError: showError("Update failed"),
   });
 
   const archiveThreadMutation = useMutation({
     mutationFn: async (threadId: string) => {
-      const response = await apiRequest('PATCH', `/api/email/threads/${threadId}/archive`);
-      return await response.json();
+      await apiRequest('PATCH', `/api/email/threads/${threadId}/archive`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/email/threads'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/email/folder-counts'] });
-      setSelectedThread(null);
+      invalidateEmail();
+      setSelectedThreadId(null);
     },
+    onError: showError("Archive failed"),
   });
 
   const deleteThreadMutation = useMutation({
     mutationFn: async (threadId: string) => {
       const response = await apiRequest('DELETE', `/api/email/threads/${threadId}`);
-      return await response.json();
+      return await response.json() as { deleted: boolean };
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/email/threads'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/email/folder-counts'] });
-      setSelectedThread(null);
+      invalidateEmail();
+      setSelectedThreadId(null);
     },
+    onError: showError("Delete failed"),
   });
 
   const filteredThreads = threads?.filter(thread =>
@@ -186,17 +227,17 @@ export default function EmailPage() {
     return <div className="p-8">Loading email connection...</div>;
   }
 
-  if (!gmailConnected) {
+  if (!connected) {
     return (
       <div className="max-w-2xl mx-auto p-6">
         <Card>
           <CardHeader className="text-center">
             <Mail className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-            <CardTitle>Connect Your Gmail Account</CardTitle>
+            <CardTitle>Connect Your Email Account</CardTitle>
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <p className="text-muted-foreground">
-              Connect your Gmail account to send and receive emails directly within your workspace.
+              Connect Gmail or any IMAP mailbox to send and receive emails directly within your workspace.
             </p>
             <Button
               onClick={() => connectGmailMutation.mutate()}
@@ -206,6 +247,25 @@ export default function EmailPage() {
               <Mail className="h-4 w-4 mr-2" />
               Connect Gmail Account
             </Button>
+            <Dialog open={showImapDialog} onOpenChange={setShowImapDialog}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="w-full">
+                  <Server className="h-4 w-4 mr-2" />
+                  Connect Other Mailbox (IMAP)
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-xl">
+                <DialogHeader>
+                  <DialogTitle>Connect IMAP Mailbox</DialogTitle>
+                </DialogHeader>
+                <ImapAccountForm
+                  workspaceId={workspaceId}
+                  onSubmit={(settings) => connectImapMutation.mutate(settings)}
+                  onCancel={() => setShowImapDialog(false)}
+                  isLoading={connectImapMutation.isPending}
+                />
+              </DialogContent>
+            </Dialog>
           </CardContent>
         </Card>
       </div>
@@ -218,8 +278,12 @@ export default function EmailPage() {
         <div className="flex items-center space-x-2">
           <h1 className="text-2xl font-bold">Email</h1>
           <Badge variant="secondary">
-            {folderCounts?.[selectedFolder] || 0} messages
+            {folderCounts?.[selectedFolder] || 0} conversations
           </Badge>
+          <span className="text-sm text-muted-foreground">
+            {account?.address}
+            {account?.lastError && ` · Last sync failed: ${account.lastError}`}
+          </span>
         </div>
         
         <div className="flex items-center space-x-2">
@@ -233,6 +297,28 @@ export default function EmailPage() {
             />
           </div>
           
+          <Button
+            variant="outline"
+            size="icon"
+            title="Check for new mail"
+            onClick={() => syncMutation.mutate()}
+            disabled={syncMutation.isPending}
+          >
+            <RefreshCw className={`h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Disconnect mailbox"
+            onClick={() => {
+              if (confirm(`Disconnect ${account?.address}? Cached mail will be removed from the workspace.`)) {
+                disconnectMutation.mutate();
+              }
+            }}
+          >
+            <LogOut className="h-4 w-4" />
+          </Button>
+          
           <Dialog open={showComposeDialog} onOpenChange={setShowComposeDialog}>
             <DialogTrigger asChild>
               <Button>
@@ -247,6 +333,7 @@ export default function EmailPage() {
                 </DialogTitle>
               </DialogHeader>
               <ComposeEmailForm
+                key={replyingTo?.id ?? 'new'}
                 replyingTo={replyingTo}
                 onSubmit={(data) => sendEmailMutation.mutate(data)}
                 onCancel={() => {
@@ -273,17 +360,21 @@ export default function EmailPage() {
                 { key: "sent", label: "Sent", icon: <Send className="h-4 w-4" /> },
                 { key: "starred", label: "Starred", icon: <Star className="h-4 w-4" /> },
                 { key: "drafts", label: "Drafts", icon: <Mail className="h-4 w-4" /> },
+                { key: "archive", label: "Archive", icon: <Archive className="h-4 w-4" /> },
                 { key: "trash", label: "Trash", icon: <Trash2 className="h-4 w-4" /> },
               ].map((folder) => (
                 <Button
                   key={folder.key}
                   variant={selectedFolder === folder.key ? "default" : "ghost"}
                   className="w-full justify-start"
-                  onClick={() => setSelectedFolder(folder.key as any)}
+                  onClick={() => {
+                    setSelectedFolder(folder.key as Folder);
+                    setSelectedThreadId(null);
+                  }}
                 >
                   {folder.icon}
                   <span className="ml-2">{folder.label}</span>
-                  {folderCounts?.[folder.key] && (
+                  {!!folderCounts?.[folder.key] && (
                     <Badge variant="secondary" className="ml-auto">
                       {folderCounts[folder.key]}
                     </Badge>
@@ -316,7 +407,7 @@ export default function EmailPage() {
                         selectedThread?.id === thread.id ? 'bg-muted' : ''
                       } ${!thread.isRead ? 'font-semibold' : ''}`}
                       onClick={() => {
-                        setSelectedThread(thread);
+                        setSelectedThreadId(thread.id);
                         if (!thread.isRead) {
                           markAsReadMutation.mutate(thread.id);
                         }
@@ -357,8 +448,34 @@ export default function EmailPage() {
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle className="truncate">{selectedThread.subject}</CardTitle>
+                  <div className="min-w-0">
+                    <CardTitle className="truncate">{selectedThread.subject}</CardTitle>
+                    {selectedThread.relatedPageId && (
+                      <Link href={`/page/${selectedThread.relatedPageId}`} className="text-xs text-muted-foreground hover:underline">
+                        Replies are added to a linked page
+                      </Link>
+                    )}
+                  </div>
                   <div className="flex items-center space-x-2">
+                    <Dialog open={showPageDialog} onOpenChange={setShowPageDialog}>
+                      <DialogTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Save to page">
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Save Conversation to Page</DialogTitle>
+                        </DialogHeader>
+                        <ThreadToPageForm
+                          workspaceId={workspaceId}
+                          defaultPageId={selectedThread.relatedPageId}
+                          onSubmit={(target) => threadToPageMutation.mutate({ threadId: selectedThread.id, target })}
+                          onCancel={() => setShowPageDialog(false)}
+                          isLoading={threadToPageMutation.isPending}
+                        />
+                      </DialogContent>
+                    </Dialog>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -403,17 +520,27 @@ export default function EmailPage() {
                       </div>
                       
                       {message.attachments.length > 0 && (
-                        <div className="mb-2">
-                          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                            <Paperclip className="h-3 w-3" />
-                            <span>{message.attachments.length} attachment(s)</span>
-                          </div>
+                        <div className="mb-2 flex flex-wrap gap-2">
+                          {message.attachments.map((attachment) => (
+                            <a
+                              key={attachment.attachmentId}
+                              href={`/api/email/messages/${message.id}/attachments/${encodeURIComponent(attachment.attachmentId)}`}
+                              className="flex items-center space-x-1 text-sm text-muted-foreground hover:underline"
+                            >
+                              <Paperclip className="h-3 w-3" />
+                              <span>{attachment.filename}</span>
+                            </a>
+                          ))}
                         </div>
                       )}
                       
-                      <div className="prose prose-sm max-w-none">
-                        <div dangerouslySetInnerHTML={{ __html: message.body }} />
-                      </div>
+                      {/* Mail HTML is untrusted: no scripts, no access to the app's origin */}
+                      <iframe
+                        title={message.subject}
+                        sandbox="allow-popups allow-popups-to-escape-sandbox"
+                        srcDoc={`<base target="_blank">${message.body}`}
+                        className="w-full min-h-[200px] border-0 bg-white"
+                      />
                       
                       <div className="flex items-center space-x-2 mt-4 pt-2 border-t">
                         <Button
@@ -477,8 +604,8 @@ function ComposeEmailForm({
 }) {
   const [formData, setFormData] = useState({
     to: replyingTo ? [replyingTo.from] : [],
-    cc: [],
-    bcc: [],
+    cc: [] as string[],
+    bcc: [] as string[],
     subject: replyingTo ? `Re: ${replyingTo.subject}` : '',
     body: '',
     attachments: [] as File[],
@@ -488,7 +615,7 @@ function ComposeEmailForm({
     e.preventDefault();
     onSubmit({
       ...formData,
-      inReplyTo: replyingTo?.messageId,
+      inReplyTo: replyingTo?.id,
     });
   };
 
@@ -504,7 +631,7 @@ function ComposeEmailForm({
         <Input
           id="to"
           value={formData.to.join(', ')}
-          onChange={(e) => setFormData({ ...formData, to: e.target.value.split(',').map(s => s.trim()) })}
+          onChange={(e) => setFormData({ ...formData, to: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })}
           placeholder="recipient@example.com"
           required
         />
@@ -594,4 +721,218 @@ function ComposeEmailForm({
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
+
+// IMAP/SMTP Account Form Component
+function ImapAccountForm({
+  workspaceId,
+  onSubmit,
+  onCancel,
+  isLoading,
+}: {
+  workspaceId: number;
+  onSubmit: (settings: ConnectImapAccount) => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}) {
+  const [settings, setSettings] = useState({
+    address: '',
+    displayName: '',
+    imapHost: '',
+    imapPort: 993,
+    imapSecure: true,
+    smtpHost: '',
+    smtpPort: 465,
+    smtpSecure: true,
+    username: '',
+    password: '',
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...settings,
+      workspaceId,
+      displayName: settings.displayName || null,
+      username: settings.username || settings.address,
+    });
+  };
+
+  // Ports 993/465 mean TLS from the start; anything else upgrades with STARTTLS
+  const setPort = (field: 'imapPort' | 'smtpPort', secureField: 'imapSecure' | 'smtpSecure', value: string) => {
+    const port = parseInt(value) || 0;
+    setSettings({ ...settings, [field]: port, [secureField]: port === 993 || port === 465 });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="imap-address">Email address</Label>
+          <Input
+            id="imap-address"
+            type="email"
+            value={settings.address}
+            onChange={(e) => setSettings({ ...settings, address: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="imap-name">Display name</Label>
+          <Input
+            id="imap-name"
+            value={settings.displayName}
+            onChange={(e) => setSettings({ ...settings, displayName: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <Label htmlFor="imap-host">IMAP server</Label>
+          <Input
+            id="imap-host"
+            value={settings.imapHost}
+            onChange={(e) => setSettings({ ...settings, imapHost: e.target.value })}
+            placeholder="imap.example.com"
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="imap-port">Port</Label>
+          <Input
+            id="imap-port"
+            type="number"
+            value={settings.imapPort}
+            onChange={(e) => setPort('imapPort', 'imapSecure', e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <Label htmlFor="smtp-host">SMTP server</Label>
+          <Input
+            id="smtp-host"
+            value={settings.smtpHost}
+            onChange={(e) => setSettings({ ...settings, smtpHost: e.target.value })}
+            placeholder="smtp.example.com"
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="smtp-port">Port</Label>
+          <Input
+            id="smtp-port"
+            type="number"
+            value={settings.smtpPort}
+            onChange={(e) => setPort('smtpPort', 'smtpSecure', e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="imap-username">Username</Label>
+          <Input
+            id="imap-username"
+            value={settings.username}
+            onChange={(e) => setSettings({ ...settings, username: e.target.value })}
+            placeholder={settings.address || "Usually your email address"}
+          />
+        </div>
+        <div>
+          <Label htmlFor="imap-password">Password</Label>
+          <Input
+            id="imap-password"
+            type="password"
+            value={settings.password}
+            onChange={(e) => setSettings({ ...settings, password: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Checking...' : 'Connect'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function flattenPages(pages: PageWithChildren[], depth = 0): Array<{ page: PageWithChildren; depth: number }> {
+  return pages.flatMap(page => [{ page, depth }, ...flattenPages(page.children ?? [], depth + 1)]);
+}
+
+// Thread To Page Form Component
+function ThreadToPageForm({
+  workspaceId,
+  defaultPageId,
+  onSubmit,
+  onCancel,
+  isLoading,
+}: {
+  workspaceId: number;
+  defaultPageId: number | null;
+  onSubmit: (target: EmailToPage) => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}) {
+  const [target, setTarget] = useState(defaultPageId ? String(defaultPageId) : "new");
+  const [asTask, setAsTask] = useState(false);
+
+  const { data: pages = [] } = useQuery<PageWithChildren[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/pages`],
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(target === "new" ? { parentId: null, asTask } : { pageId: parseInt(target), asTask });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label>Page</Label>
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="new">New page from this conversation</SelectItem>
+            {flattenPages(pages).map(({ page, depth }) => (
+              <SelectItem key={page.id} value={String(page.id)}>
+                <span style={{ paddingLeft: depth * 12 }}>{page.icon ? `${page.icon} ` : ""}{page.title}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox id="as-task" checked={asTask} onCheckedChange={(checked) => setAsTask(checked === true)} />
+        <Label htmlFor="as-task">Add a follow-up task</Label>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Messages are added as quotes and attachments as files. Replies that arrive later are added to the same page.
+      </p>
+
+      <div className="flex items-center justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,137 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AtSign, Calendar, FileText } from "lucide-react";
+import { splitMentions, type BlockMention } from "@shared/mentions";
+import type { MentionSuggestions } from "@shared/schema";
+
+export interface MentionOption extends BlockMention {
+  description?: string;
+  icon?: string | null;
+}
+
+function isoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function dateOption(date: Date, description?: string): MentionOption {
+  return {
+    type: "date",
+    id: isoDate(date),
+    label: date.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" }),
+    description,
+  };
+}
+
+// Relative dates by name, or an exact date typed as YYYY-MM-DD
+function dateOptions(query: string): MentionOption[] {
+  const needle = query.toLowerCase();
+  const today = new Date();
+  const offsets: Array<[string, number]> = [["today", 0], ["tomorrow", 1], ["yesterday", -1]];
+  const options = offsets
+    .filter(([name]) => name.startsWith(needle))
+    .map(([name, offset]) => {
+      const date = new Date(today);
+      date.setDate(today.getDate() + offset);
+      return dateOption(date, name[0].toUpperCase() + name.slice(1));
+    });
+
+  const exact = /^(\d{4})-(\d{2})-(\d{2})$/.exec(query);
+  if (exact) {
+    const date = new Date(Number(exact[1]), Number(exact[2]) - 1, Number(exact[3]));
+    if (!Number.isNaN(date.getTime())) {
+      options.unshift(dateOption(date));
+    }
+  }
+  return options;
+}
+
+// Options for the @ menu while the user types `@query`; null while the menu is closed
+export function useMentionSuggestions(workspaceId: number | undefined, query: string | null): MentionOption[] {
+  const { data } = useQuery<MentionSuggestions>({
+    queryKey: [`/api/workspaces/${workspaceId}/mentions/suggest?q=${encodeURIComponent(query ?? "")}`],
+    enabled: !!workspaceId && query !== null,
+    staleTime: 30_000,
+  });
+
+  if (query === null) return [];
+  return [
+    ...(data?.users ?? []).map(user => ({ type: "user" as const, id: user.id, label: user.name })),
+    ...(data?.pages ?? []).map(page => ({ type: "page" as const, id: String(page.id), label: page.title || "Untitled", icon: page.icon })),
+    ...dateOptions(query),
+  ];
+}
+
+const optionIcons = {
+  user: AtSign,
+  page: FileText,
+  date: Calendar,
+};
+
+interface MentionMenuProps {
+  options: MentionOption[];
+  activeIndex: number;
+  onSelect: (option: MentionOption) => void;
+}
+
+export function MentionMenu({ options, activeIndex, onSelect }: MentionMenuProps) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="absolute left-0 top-full mt-1 z-20 w-64 max-h-64 overflow-y-auto rounded-lg border bg-background p-1 shadow-lg">
+      {options.map((option, index) => {
+        const Icon = optionIcons[option.type];
+        return (
+          <button
+            key={`${option.type}:${option.id}`}
+            type="button"
+            className={`flex w-full items-center space-x-2 rounded px-2 py-1.5 text-left text-sm ${
+              index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+            }`}
+            // Keep focus in the block so the textarea does not blur and close the menu
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(option)}
+          >
+            {option.icon ? <span className="w-4 text-center">{option.icon}</span> : <Icon className="h-4 w-4 text-muted-foreground" />}
+            <span className="flex-1 truncate">{option.label}</span>
+            {option.description && <span className="text-xs text-muted-foreground">{option.description}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Block text with mention tokens rendered as chips
+export function MentionText({ text }: { text: string }) {
+  return (
+    <>
+      {splitMentions(text).map((part, index) => {
+        if (typeof part === "string") {
+          return <span key={index}>{part}</span>;
+        }
+        if (part.type === "page") {
+          return (
+            <Link
+              key={index}
+              href={`/page/${part.id}`}
+              className="rounded bg-muted px-1 underline decoration-muted-foreground/50 hover:bg-accent"
+              onClick={(e: React.MouseEvent) => e.stopPropagation()}
+            >
+              {part.label}
+            </Link>
+          );
+        }
+        return (
+          <span
+            key={index}
+            className={`rounded px-1 ${part.type === "user" ? "bg-blue-100 text-blue-800" : "bg-amber-100 text-amber-900"}`}
+          >
+            {part.type === "user" ? `@${part.label}` : part.label}
+          </span>
+        );
+      })}
+    </>
+  );
+}
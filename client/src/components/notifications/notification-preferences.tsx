@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { NotificationPreferences as Preferences, NotificationDigestMode } from "@shared/schema";
+
+const TYPE_SWITCHES: { key: keyof Preferences; label: string; description: string }[] = [
+  { key: "mentions", label: "Mentions", description: "Someone @mentions you on a page" },
+  { key: "comments", label: "Comments", description: "New comments on your pages and replies in your threads" },
+  { key: "invitations", label: "Invitations", description: "You are invited to a workspace" },
+  { key: "shares", label: "Shared pages", description: "A page is shared with you" },
+  { key: "reminders", label: "Reminders", description: "Reminders and due dates you set" },
+];
+
+export default function NotificationPreferences() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery<Preferences>({
+    queryKey: ['/api/notifications/preferences'],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Partial<Preferences>) => {
+      const response = await apiRequest('PUT', '/api/notifications/preferences', updates);
+      return (await response.json()) as Preferences;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], updated);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update notification preferences.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDesktop = async (enabled: boolean) => {
+    // Browser notifications need the user's permission first
+    if (enabled && "Notification" in window && Notification.permission === "default") {
+      await Notification.requestPermission();
+    }
+    updateMutation.mutate({ desktop: enabled });
+  };
+
+  const disabled = !preferences || updateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Settings</CardTitle>
+        <CardDescription>
+          Control how and when you receive notifications
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Email Notifications</Label>
+              <p className="text-sm text-muted-foreground">
+                Receive notifications by email
+              </p>
+            </div>
+            <Switch
+              checked={preferences?.email ?? false}
+              onCheckedChange={(email) => updateMutation.mutate({ email })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Email Digest</Label>
+              <p className="text-sm text-muted-foreground">
+                Collect emails into one message each morning or each Monday
+              </p>
+            </div>
+            <Select
+              value={preferences?.digest ?? "off"}
+              onValueChange={(digest: NotificationDigestMode) => updateMutation.mutate({ digest })}
+              disabled={disabled || !preferences?.email}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Send right away</SelectItem>
+                <SelectItem value="daily">Daily digest</SelectItem>
+                <SelectItem value="weekly">Weekly digest</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Browser Notifications</Label>
+              <p className="text-sm text-muted-foreground">
+                Show desktop notifications for real-time updates
+              </p>
+            </div>
+            <Switch
+              checked={preferences?.desktop ?? false}
+              onCheckedChange={setDesktop}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <p className="text-sm font-medium">Notify me about</p>
+          {TYPE_SWITCHES.map(({ key, label, description }) => (
+            <div key={key} className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>{label}</Label>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                checked={Boolean(preferences?.[key])}
+                onCheckedChange={(enabled) => updateMutation.mutate({ [key]: enabled })}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
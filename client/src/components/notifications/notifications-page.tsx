@@ -9,22 +9,23 @@ import { Bell, BellOff, Check, CheckCheck, Trash2, Filter, Search, Calendar, Mes
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
+import type { NotificationView } from "@shared/schema";
 
-interface Notification {
-  id: number;
-  type: "mention" | "comment" | "invitation" | "page_shared" | "deadline" | "meeting" | "task_assigned" | "page_updated";
-  title: string;
-  message: string;
-  isRead: boolean;
-  createdAt: string;
-  userId: string;
-  workspaceId: number;
-  relatedId?: number;
-  relatedType?: "page" | "comment" | "workspace" | "event";
-  actionUrl?: string;
-  priority: "low" | "medium" | "high";
-  metadata?: Record<string, any>;
-}
+type Priority = "low" | "medium" | "high";
+type Notification = NotificationView & { priority: Priority };
+
+const priorityOf = (type: NotificationView["type"]): Priority => {
+  switch (type) {
+    case "mention":
+    case "invitation":
+    case "reminder":
+      return "high";
+    case "comment":
+      return "medium";
+    default:
+      return "low";
+  }
+};
 
 export default function NotificationsPage() {
   const { toast } = useToast();
@@ -34,9 +35,10 @@ export default function NotificationsPage() {
   const [sortBy, setSortBy] = useState<"createdAt" | "priority">("createdAt");
   const [selectedNotifications, setSelectedNotifications] = useState<Set<number>>(new Set());
 
-  const { data: notifications, isLoading } = useQuery<Notification[]>({
+  const { data: notificationViews, isLoading } = useQuery<NotificationView[]>({
     queryKey: ['/api/notifications'],
   });
+  const notifications = notificationViews?.map(notification => ({ ...notification, priority: priorityOf(notification.type) }));
 
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationIds: number[]) => {
@@ -81,6 +83,29 @@ export default function NotificationsPage() {
     },
   });
 
+  const acceptInvitationMutation = useMutation({
+    mutationFn: async (notification: Notification) => {
+      const response = await apiRequest('POST', `/api/invitations/${notification.data.token}/accept`);
+      return await response.json();
+    },
+    onSuccess: (result: { success: boolean }, notification) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+      markAsReadMutation.mutate([notification.id]);
+      toast({
+        title: result.success ? "Invitation accepted" : "Invitation no longer valid",
+        description: result.success ? "The workspace is now in your workspace list." : "It may have been used or withdrawn.",
+        variant: result.success ? "default" : "destructive",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to accept the invitation.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteNotificationsMutation = useMutation({
     mutationFn: async (notificationIds: number[]) => {
       const response = await apiRequest('DELETE', '/api/notifications', { notificationIds });
@@ -120,7 +145,7 @@ export default function NotificationsPage() {
       const priorityOrder = { high: 3, medium: 2, low: 1 };
       return priorityOrder[b.priority] - priorityOrder[a.priority];
     }
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    return b.createdAt - a.createdAt;
   });
 
   const unreadCount = notifications?.filter(n => !n.isRead).length || 0;
@@ -131,10 +156,7 @@ export default function NotificationsPage() {
       case "comment": return <MessageSquare className="h-4 w-4" />;
       case "invitation": return <UserPlus className="h-4 w-4" />;
       case "page_shared": return <FileText className="h-4 w-4" />;
-      case "deadline": return <Calendar className="h-4 w-4" />;
-      case "meeting": return <Calendar className="h-4 w-4" />;
-      case "task_assigned": return <FileText className="h-4 w-4" />;
-      case "page_updated": return <FileText className="h-4 w-4" />;
+      case "reminder": return <Calendar className="h-4 w-4" />;
       default: return <Bell className="h-4 w-4" />;
     }
   };
@@ -154,9 +176,9 @@ export default function NotificationsPage() {
       markAsReadMutation.mutate([notification.id]);
     }
     
-    // Navigate to related content if actionUrl exists
-    if (notification.actionUrl) {
-      window.open(notification.actionUrl, '_self');
+    // Navigate to related content if the notification links somewhere
+    if (notification.url) {
+      window.open(notification.url, '_self');
     }
   };
 
@@ -337,13 +359,28 @@ export default function NotificationsPage() {
                           {notification.message}
                         </p>
                         
-                        {notification.actionUrl && (
+                        {notification.url && (
                           <div className="mt-2">
                             <Button variant="outline" size="sm">
                               View Details
                             </Button>
                           </div>
                         )}
+
+                        {notification.type === "invitation" && typeof notification.data.token === "string" && (
+                          <div className="mt-2">
+                            <Button
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                acceptInvitationMutation.mutate(notification);
+                              }}
+                              disabled={acceptInvitationMutation.isPending}
+                            >
+                              Accept invitation
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
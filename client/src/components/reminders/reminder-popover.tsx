@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, CalendarClock, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReminderInput, ReminderView } from "@shared/schema";
+
+export function remindersQueryKey(pageId: number) {
+  return [`/api/pages/${pageId}/reminders`];
+}
+
+interface ReminderPopoverProps {
+  pageId: number;
+  blockId: number | null;
+  // The page's reminders that belong to this block (or to the page when blockId is null)
+  reminders: ReminderView[];
+  className?: string;
+}
+
+function formatWhen(reminder: Pick<ReminderView, "date" | "time">): string {
+  const [year, month, day] = reminder.date.split("-").map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return reminder.time ? `${date}, ${reminder.time}` : date;
+}
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+export default function ReminderPopover({ pageId, blockId, reminders, className = "mt-1" }: ReminderPopoverProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const dueDate = reminders.find(reminder => reminder.kind === "due");
+  const ownReminders = reminders.filter(reminder => reminder.kind === "reminder" && reminder.mine);
+  const [due, setDue] = useState({ date: dueDate?.date ?? "", time: dueDate?.time ?? "" });
+  const [draft, setDraft] = useState({ date: today(), time: "09:00", note: "" });
+
+  // Reminders fire in the zone saved on the account, which may differ from this browser's
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const accountZone = user?.timezone || "UTC";
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: remindersQueryKey(pageId) });
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save reminder",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: ReminderInput) => {
+      const response = await apiRequest("POST", `/api/pages/${pageId}/reminders`, { ...input, blockId });
+      return (await response.json()) as ReminderView;
+    },
+    onSuccess: (reminder) => {
+      invalidate();
+      if (reminder.kind === "reminder") setDraft(previous => ({ ...previous, note: "" }));
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (reminderId: number) => {
+      await apiRequest("DELETE", `/api/reminders/${reminderId}`);
+    },
+    onSuccess: invalidate,
+    onError: showError,
+  });
+
+  const timeZoneMutation = useMutation({
+    mutationFn: async (timezone: string) => {
+      await apiRequest("PUT", "/api/auth/user/timezone", { timezone });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const isOverdue = dueDate && dueDate.remindAt < Date.now();
+  const hasAny = !!dueDate || ownReminders.length > 0;
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open) setDue({ date: dueDate?.date ?? "", time: dueDate?.time ?? "" });
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          title="Reminders and due date"
+          className={`flex items-center text-xs transition-opacity ${
+            isOverdue ? "text-red-600" : "text-muted-foreground hover:text-foreground"
+          } ${hasAny ? "" : "opacity-0 group-hover:opacity-100"} ${className}`}
+        >
+          {dueDate ? <CalendarClock className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+          {dueDate && <span className="ml-1 whitespace-nowrap">{formatWhen(dueDate)}</span>}
+          {!dueDate && ownReminders.length > 0 && <span className="ml-1">{ownReminders.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="space-y-2">
+          <Label className="flex items-center">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Due date
+          </Label>
+          <div className="flex space-x-2">
+            <Input
+              type="date"
+              value={due.date}
+              onChange={(e) => setDue({ ...due, date: e.target.value })}
+            />
+            <Input
+              type="time"
+              className="w-28"
+              value={due.time}
+              onChange={(e) => setDue({ ...due, time: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            {dueDate && (
+              <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(dueDate.id)}>
+                Clear
+              </Button>
+            )}
+            <Button
+              size="sm"
+              disabled={!due.date || createMutation.isPending}
+              onClick={() => createMutation.mutate({ kind: "due", date: due.date, time: due.time || null })}
+            >
+              Set due date
+            </Button>
+          </div>
+          {dueDate && (
+            <p className="text-xs text-muted-foreground">
+              Set by {dueDate.createdBy.name}{dueDate.mine ? "; you will be notified" : ""}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-3">
+          <Label className="flex items-center">
+            <Bell className="h-4 w-4 mr-2" />
+            Remind me
+          </Label>
+          {ownReminders.map(reminder => (
+            <div key={reminder.id} className="flex items-center justify-between text-sm">
+              <span className={reminder.status === "pending" ? "" : "text-muted-foreground line-through"}>
+                {formatWhen(reminder)}
+                {reminder.note && <span className="text-muted-foreground"> · {reminder.note}</span>}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(reminder.id)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex space-x-2">
+            <Input
+              type="date"
+              value={draft.date}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            />
+            <Input
+              type="time"
+              className="w-28"
+              value={draft.time}
+              onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+            />
+          </div>
+          <Input
+            placeholder="Note (optional)"
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              disabled={!draft.date || createMutation.isPending}
+              onClick={() => createMutation.mutate({
+                kind: "reminder",
+                date: draft.date,
+                time: draft.time || null,
+                note: draft.note.trim() || null,
+              })}
+            >
+              Add reminder
+            </Button>
+          </div>
+        </div>
+
+        <div className="border-t pt-3 text-xs text-muted-foreground">
+          Times are in {accountZone}; dates without a time fire at 09:00.
+          {browserZone && browserZone !== accountZone && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 ml-1 text-xs"
+              disabled={timeZoneMutation.isPending}
+              onClick={() => timeZoneMutation.mutate(browserZone)}
+            >
+              Use {browserZone}
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -24,7 +24,13 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import MFASetup from "@/components/auth/mfa-setup";
+import PasskeyList from "@/components/auth/passkey-list";
+import SessionList from "@/components/auth/session-list";
+import EmailVerification from "@/components/auth/email-verification";
 import TrashManager from "@/components/trash/trash-manager";
+import AuditLog from "@/components/audit/audit-log";
+import NotificationPreferences from "@/components/notifications/notification-preferences";
+import type { WorkspaceSecurityView } from "@shared/schema";
 
 interface WorkspaceSettingsProps {
   workspaceId: number;
@@ -36,8 +42,7 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
     name: "",
     description: "",
     isPublic: false,
-    allowGuestAccess: false,
-    requireTwoFactor: false
+    allowGuestAccess: false
   });
   const [showMFASetup, setShowMFASetup] = useState(false);
   
@@ -52,8 +57,7 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
         name: data.name || "",
         description: data.description || "",
         isPublic: data.isPublic || false,
-        allowGuestAccess: data.allowGuestAccess || false,
-        requireTwoFactor: data.requireTwoFactor || false
+        allowGuestAccess: data.allowGuestAccess || false
       });
     }
   });
@@ -68,6 +72,28 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
     enabled: !!workspaceId,
   });
 
+  const { data: security } = useQuery<WorkspaceSecurityView>({
+    queryKey: [`/api/workspaces/${workspaceId}/security`],
+    enabled: !!workspaceId,
+  });
+
+  const updateSecurityMutation = useMutation({
+    mutationFn: async (requireMfa: boolean) => {
+      const response = await apiRequest('PUT', `/api/workspaces/${workspaceId}/security`, { requireMfa });
+      return (await response.json()) as WorkspaceSecurityView;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([`/api/workspaces/${workspaceId}/security`], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update security settings",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateWorkspaceMutation = useMutation({
     mutationFn: async (updates: Partial<typeof workspaceData>) => {
       return await apiRequest(`/api/workspaces/${workspaceId}`, {
@@ -143,6 +169,7 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
 
   const handleMFAComplete = (backupCodes: string[]) => {
     setShowMFASetup(false);
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/security`] });
     toast({
       title: "Multi-factor authentication enabled",
       description: "Your account is now more secure",
@@ -175,12 +202,13 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
       )}
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="members">Members</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="trash">Trash</TabsTrigger>
+          <TabsTrigger value="audit">Audit log</TabsTrigger>
         </TabsList>
         
         <TabsContent value="general" className="space-y-4">
@@ -315,6 +343,8 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
         </TabsContent>
         
         <TabsContent value="security" className="space-y-4">
+          <EmailVerification />
+
           <Card>
             <CardHeader>
               <CardTitle>Security Settings</CardTitle>
@@ -327,14 +357,21 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
                 <div className="space-y-0.5">
                   <Label>Require Two-Factor Authentication</Label>
                   <p className="text-sm text-muted-foreground">
-                    All members must enable 2FA to access this workspace
+                    Members without 2FA are asked to set it up the next time they sign in
                   </p>
                 </div>
                 <Switch
-                  checked={workspaceData.requireTwoFactor}
-                  onCheckedChange={(checked) => setWorkspaceData(prev => ({ ...prev, requireTwoFactor: checked }))}
+                  checked={security?.requireMfa ?? false}
+                  onCheckedChange={(checked) => updateSecurityMutation.mutate(checked)}
+                  disabled={!security || updateSecurityMutation.isPending}
                 />
               </div>
+
+              {security && security.membersWithoutMfa.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Not using 2FA yet: {security.membersWithoutMfa.map(member => member.name).join(", ")}
+                </p>
+              )}
               
               <Button 
                 variant="outline" 
@@ -372,53 +409,23 @@ export default function WorkspaceSettings({ workspaceId }: WorkspaceSettingsProp
               )}
             </CardContent>
           </Card>
+
+          <PasskeyList />
+
+          <SessionList />
         </TabsContent>
         
         <TabsContent value="notifications" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Notification Settings</CardTitle>
-              <CardDescription>
-                Control how and when you receive notifications
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Email Notifications</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Receive updates about workspace activity via email
-                    </p>
-                  </div>
-                  <Switch defaultChecked />
-                </div>
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Browser Notifications</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Show desktop notifications for real-time updates
-                    </p>
-                  </div>
-                  <Switch defaultChecked />
-                </div>
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Weekly Summary</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Get a weekly digest of workspace activity
-                    </p>
-                  </div>
-                  <Switch />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <NotificationPreferences />
         </TabsContent>
         
         <TabsContent value="trash" className="space-y-4">
           <TrashManager workspaceId={workspaceId} />
         </TabsContent>
+
+        <TabsContent value="audit" className="space-y-4">
+          <AuditLog workspaceId={workspaceId} />
+        </TabsContent>
       </Tabs>
 
       {/* Danger Zone */}
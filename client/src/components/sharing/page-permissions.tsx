@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Lock, Users, User, Globe, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  PageAccessInfo, PageAccessLevel, PagePermissionEntry, WorkspaceGroupWithMembers, WorkspaceMemberWithUser,
+} from "@shared/schema";
+
+interface PagePermissionsProps {
+  pageId: number;
+  workspaceId: number;
+}
+
+const levelLabels: Record<PageAccessLevel, string> = {
+  full: "Full access",
+  edit: "Can edit",
+  comment: "Can comment",
+  view: "Can view",
+  none: "No access",
+};
+
+const levels = Object.keys(levelLabels) as PageAccessLevel[];
+
+export function permissionsQueryKey(pageId: number) {
+  return [`/api/pages/${pageId}/permissions`];
+}
+
+function LevelSelect({ value, disabled, onChange }: {
+  value: PageAccessLevel;
+  disabled?: boolean;
+  onChange: (level: PageAccessLevel) => void;
+}) {
+  return (
+    <Select value={value} disabled={disabled} onValueChange={(level) => onChange(level as PageAccessLevel)}>
+      <SelectTrigger className="w-36 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {levels.map(level => (
+          <SelectItem key={level} value={level}>{levelLabels[level]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function PagePermissions({ pageId, workspaceId }: PagePermissionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [principal, setPrincipal] = useState("");
+  const [newLevel, setNewLevel] = useState<PageAccessLevel>("view");
+
+  const { data: access, isLoading } = useQuery<PageAccessInfo>({
+    queryKey: permissionsQueryKey(pageId),
+  });
+
+  const { data: members = [] } = useQuery<WorkspaceMemberWithUser[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/members`],
+  });
+
+  const { data: groups = [] } = useQuery<WorkspaceGroupWithMembers[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/groups`],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (entries: PagePermissionEntry[]) => {
+      const response = await apiRequest("PUT", `/api/pages/${pageId}/permissions`, { entries });
+      return await response.json();
+    },
+    onSuccess: (data: PageAccessInfo) => {
+      queryClient.setQueryData(permissionsQueryKey(pageId), data);
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/pages`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update permissions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !access) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  const canManage = access.level === "full";
+  const memberName = (userId: string) => members.find(member => member.userId === userId)?.user.name ?? userId;
+  const groupName = (groupId: string) => groups.find(group => String(group.id) === groupId)?.name ?? "Deleted group";
+
+  const describe = (entry: PagePermissionEntry) => {
+    if (entry.principalType === "everyone") {
+      return { icon: Globe, label: "Everyone in the workspace" };
+    }
+    if (entry.principalType === "group") {
+      return { icon: Users, label: groupName(entry.principalId!) };
+    }
+    return { icon: User, label: memberName(entry.principalId!) };
+  };
+
+  const keyOf = (entry: PagePermissionEntry) => `${entry.principalType}:${entry.principalId ?? ""}`;
+  const taken = new Set(access.entries.map(keyOf));
+  const options = [
+    { value: "everyone:", label: "Everyone in the workspace" },
+    ...groups.map(group => ({ value: `group:${group.id}`, label: `${group.name} (group)` })),
+    ...members.map(member => ({ value: `user:${member.userId}`, label: member.user.name })),
+  ].filter(option => !taken.has(option.value));
+
+  const save = (entries: PagePermissionEntry[]) => saveMutation.mutate(entries);
+
+  const addEntry = () => {
+    if (!principal) return;
+    const separator = principal.indexOf(":");
+    const principalType = principal.slice(0, separator) as PagePermissionEntry["principalType"];
+    const principalId = principal.slice(separator + 1) || null;
+    save([...access.entries, { principalType, principalId, level: newLevel }]);
+    setPrincipal("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Lock className="h-4 w-4" />
+          <h3 className="font-medium">Page access</h3>
+        </div>
+        <Badge variant="outline">You: {levelLabels[access.level]}</Badge>
+      </div>
+
+      {access.entries.length === 0 && access.inherited.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No restrictions. Workspace members can edit this page.
+        </p>
+      )}
+
+      {access.entries.map((entry, index) => {
+        const { icon: Icon, label } = describe(entry);
+        return (
+          <div key={keyOf(entry)} className="flex items-center justify-between space-x-2">
+            <div className="flex items-center space-x-2 min-w-0">
+              <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="text-sm truncate">{label}</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <LevelSelect
+                value={entry.level}
+                disabled={!canManage || saveMutation.isPending}
+                onChange={(level) => save(access.entries.map((other, i) => i === index ? { ...other, level } : other))}
+              />
+              {canManage && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={saveMutation.isPending}
+                  onClick={() => save(access.entries.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {access.inherited.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Inherited</Label>
+          {access.inherited.map(entry => {
+            const { icon: Icon, label } = describe(entry);
+            return (
+              <div key={keyOf(entry)} className="flex items-center justify-between text-sm text-muted-foreground">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{label}</span>
+                  <span className="text-xs truncate">from {entry.pageTitle || "Untitled"}</span>
+                </div>
+                <span>{levelLabels[entry.level]}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage && options.length > 0 && (
+        <div className="flex items-center space-x-2 pt-2 border-t">
+          <Select value={principal} onValueChange={setPrincipal}>
+            <SelectTrigger className="flex-1 h-8">
+              <SelectValue placeholder="Add people, groups or everyone" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <LevelSelect value={newLevel} onChange={setNewLevel} />
+          <Button size="sm" onClick={addEntry} disabled={!principal || saveMutation.isPending}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
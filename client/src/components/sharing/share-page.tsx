@@ -8,90 +8,94 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Copy, Globe, Lock, Users, Eye, Edit, MessageCircle, Download, Calendar } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, Globe, Lock, Users, Eye, Edit, MessageCircle, Download, Calendar, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-
-interface ShareSettings {
-  id: number;
-  shareType: 'public' | 'private' | 'workspace';
-  permissions: 'view' | 'edit' | 'comment';
-  token: string;
-  password?: string;
-  expiresAt?: string;
-  allowDownload: boolean;
-  allowComments: boolean;
-  isActive: boolean;
-  viewCount: number;
-  lastAccessed?: string;
-}
+import type { CreatePageShare, PageShareSettings, ShareType, UpdatePageShare } from "@shared/schema";
 
 interface SharePageProps {
   pageId: number;
   pageTitle: string;
 }
 
+type SharePermission = CreatePageShare["permissions"];
+
+export function shareQueryKey(pageId: number) {
+  return [`/api/pages/${pageId}/share`];
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
 export default function SharePage({ pageId, pageTitle }: SharePageProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [shareType, setShareType] = useState<ShareType>("public");
+  const [permissions, setPermissions] = useState<SharePermission>("view");
+  const [expiry, setExpiry] = useState("30");
+  const [sharedWith, setSharedWith] = useState("");
+  const [allowDownload, setAllowDownload] = useState(false);
+  const [allowComments, setAllowComments] = useState(true);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [sharePassword, setSharePassword] = useState("");
-  const [expiryDays, setExpiryDays] = useState<number>(30);
+  // Set once the dialog is confirmed; the dialog doubles as "change password" on a live link
+  const [password, setPassword] = useState<string | null>(null);
 
-  const { data: shareSettings, isLoading } = useQuery<ShareSettings>({
-    queryKey: ['/api/pages/share', pageId],
+  const { data: shareSettings, isLoading } = useQuery<PageShareSettings | null>({
+    queryKey: shareQueryKey(pageId),
   });
 
   const createShareMutation = useMutation({
-    mutationFn: async (settings: {
-      shareType: string;
-      permissions: string;
-      password?: string;
-      expiryDays?: number;
-      allowDownload: boolean;
-      allowComments: boolean;
-    }) => {
+    mutationFn: async (settings: CreatePageShare) => {
       const response = await apiRequest('POST', `/api/pages/${pageId}/share`, settings);
       return await response.json();
     },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['/api/pages/share', pageId], data);
+    onSuccess: (data: PageShareSettings) => {
+      queryClient.setQueryData(shareQueryKey(pageId), data);
+      setPassword(null);
       toast({
         title: "Share link created",
         description: "Page sharing has been enabled successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Sharing failed",
-        description: "Failed to create share link. Please try again.",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
   const updateShareMutation = useMutation({
-    mutationFn: async (settings: Partial<ShareSettings>) => {
+    mutationFn: async (settings: UpdatePageShare) => {
       const response = await apiRequest('PATCH', `/api/pages/${pageId}/share`, settings);
       return await response.json();
     },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['/api/pages/share', pageId], data);
+    onSuccess: (data: PageShareSettings) => {
+      queryClient.setQueryData(shareQueryKey(pageId), data);
       toast({
         title: "Share settings updated",
         description: "Sharing preferences have been updated.",
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const revokeShareMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('DELETE', `/api/pages/${pageId}/share`);
-      return await response.json();
+      await apiRequest('DELETE', `/api/pages/${pageId}/share`);
     },
     onSuccess: () => {
-      queryClient.setQueryData(['/api/pages/share', pageId], null);
+      queryClient.setQueryData(shareQueryKey(pageId), null);
       toast({
         title: "Share link revoked",
         description: "The share link has been disabled.",
@@ -99,6 +103,30 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
     },
   });
 
+  const createShare = () => createShareMutation.mutate({
+    shareType,
+    permissions,
+    sharedWith: shareType === 'private' ? sharedWith.trim() : null,
+    password,
+    expiryDays: expiry === 'never' ? null : parseInt(expiry),
+    allowDownload,
+    allowComments,
+  });
+
+  const confirmPassword = () => {
+    if (sharePassword.length < 4) {
+      toast({ title: "Password too short", description: "Use at least 4 characters.", variant: "destructive" });
+      return;
+    }
+    if (shareSettings) {
+      updateShareMutation.mutate({ password: sharePassword });
+    } else {
+      setPassword(sharePassword);
+    }
+    setSharePassword("");
+    setShowPasswordDialog(false);
+  };
+
   const copyShareLink = () => {
     if (shareSettings?.token) {
       const shareUrl = `${window.location.origin}/shared/${shareSettings.token}`;
@@ -132,6 +160,8 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
     return <div className="p-6">Loading share settings...</div>;
   }
 
+  const expired = !!shareSettings?.expiresAt && shareSettings.expiresAt <= Date.now();
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       <Card>
@@ -141,158 +171,135 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
               <Globe className="h-5 w-5" />
               <span>Share "{pageTitle}"</span>
             </div>
-            {shareSettings?.isActive && (
-              <Badge variant="default">Active</Badge>
+            {shareSettings && (
+              expired ? <Badge variant="destructive">Expired</Badge>
+                : shareSettings.isActive ? <Badge variant="default">Active</Badge>
+                : <Badge variant="secondary">Paused</Badge>
             )}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
-          {!shareSettings?.isActive ? (
+          {!shareSettings ? (
             <div className="space-y-4">
               <p className="text-muted-foreground">
-                Share this page with others by creating a shareable link.
+                Share this page with others by creating a shareable link. Visitors get a read-only view of the page and its subpages.
               </p>
-              
-              <Tabs defaultValue="public" className="w-full">
+
+              <Tabs value={shareType} onValueChange={(value) => setShareType(value as ShareType)} className="w-full">
                 <TabsList className="grid w-full grid-cols-3">
                   <TabsTrigger value="public">Public</TabsTrigger>
                   <TabsTrigger value="workspace">Workspace</TabsTrigger>
                   <TabsTrigger value="private">Private</TabsTrigger>
                 </TabsList>
-                
-                <TabsContent value="public" className="space-y-4">
-                  <div className="space-y-4">
-                    <div className="flex items-center space-x-2">
-                      <Globe className="h-4 w-4" />
-                      <span className="font-medium">Public on the web</span>
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      Anyone with the link can access this page.
-                    </p>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <Label htmlFor="permissions">Permissions</Label>
-                        <Select defaultValue="view">
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="view">Can view</SelectItem>
-                            <SelectItem value="comment">Can comment</SelectItem>
-                            <SelectItem value="edit">Can edit</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      
-                      <div>
-                        <Label htmlFor="expiry">Expires in</Label>
-                        <Select defaultValue="30" onValueChange={(v) => setExpiryDays(parseInt(v))}>
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="7">7 days</SelectItem>
-                            <SelectItem value="30">30 days</SelectItem>
-                            <SelectItem value="90">90 days</SelectItem>
-                            <SelectItem value="365">1 year</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </div>
-                    
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-2">
-                          <Lock className="h-4 w-4" />
-                          <span className="text-sm">Password protection</span>
-                        </div>
-                        <Switch onCheckedChange={(checked) => setShowPasswordDialog(checked)} />
-                      </div>
-                      
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-2">
-                          <Download className="h-4 w-4" />
-                          <span className="text-sm">Allow download</span>
-                        </div>
-                        <Switch defaultChecked={false} />
-                      </div>
-                      
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-2">
-                          <MessageCircle className="h-4 w-4" />
-                          <span className="text-sm">Allow comments</span>
-                        </div>
-                        <Switch defaultChecked={true} />
-                      </div>
-                    </div>
-                    
-                    <Button 
-                      onClick={() => createShareMutation.mutate({
-                        shareType: 'public',
-                        permissions: 'view',
-                        expiryDays,
-                        allowDownload: false,
-                        allowComments: true
-                      })}
-                      disabled={createShareMutation.isPending}
-                      className="w-full"
-                    >
-                      {createShareMutation.isPending ? 'Creating...' : 'Create Public Link'}
-                    </Button>
+
+                <TabsContent value="public" className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Globe className="h-4 w-4" />
+                    <span className="font-medium">Public on the web</span>
                   </div>
+                  <p className="text-sm text-muted-foreground">
+                    Anyone with the link can access this page.
+                  </p>
                 </TabsContent>
-                
-                <TabsContent value="workspace" className="space-y-4">
-                  <div className="space-y-4">
-                    <div className="flex items-center space-x-2">
-                      <Users className="h-4 w-4" />
-                      <span className="font-medium">Workspace members only</span>
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      Only members of this workspace can access this page.
-                    </p>
-                    
-                    <Button 
-                      onClick={() => createShareMutation.mutate({
-                        shareType: 'workspace',
-                        permissions: 'view',
-                        allowDownload: true,
-                        allowComments: true
-                      })}
-                      disabled={createShareMutation.isPending}
-                      className="w-full"
-                    >
-                      {createShareMutation.isPending ? 'Creating...' : 'Share with Workspace'}
-                    </Button>
+
+                <TabsContent value="workspace" className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Users className="h-4 w-4" />
+                    <span className="font-medium">Workspace members only</span>
                   </div>
+                  <p className="text-sm text-muted-foreground">
+                    Only signed-in members of this workspace can access this page.
+                  </p>
                 </TabsContent>
-                
-                <TabsContent value="private" className="space-y-4">
-                  <div className="space-y-4">
-                    <div className="flex items-center space-x-2">
-                      <Lock className="h-4 w-4" />
-                      <span className="font-medium">Private link</span>
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      Only people you invite can access this page.
-                    </p>
-                    
-                    <Button 
-                      onClick={() => createShareMutation.mutate({
-                        shareType: 'private',
-                        permissions: 'view',
-                        allowDownload: false,
-                        allowComments: true
-                      })}
-                      disabled={createShareMutation.isPending}
-                      className="w-full"
-                    >
-                      {createShareMutation.isPending ? 'Creating...' : 'Create Private Link'}
-                    </Button>
+
+                <TabsContent value="private" className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Lock className="h-4 w-4" />
+                    <span className="font-medium">Private link</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Only the person you name can access this page, once signed in.
+                  </p>
+                  <div>
+                    <Label htmlFor="shared-with">Share with</Label>
+                    <Input
+                      id="shared-with"
+                      value={sharedWith}
+                      onChange={(e) => setSharedWith(e.target.value)}
+                      placeholder="Email or username"
+                    />
                   </div>
                 </TabsContent>
               </Tabs>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="permissions">Permissions</Label>
+                  <Select value={permissions} onValueChange={(value) => setPermissions(value as SharePermission)}>
+                    <SelectTrigger id="permissions">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="view">Can view</SelectItem>
+                      <SelectItem value="comment">Can comment</SelectItem>
+                      <SelectItem value="edit">Can edit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="expiry">Expires in</Label>
+                  <Select value={expiry} onValueChange={setExpiry}>
+                    <SelectTrigger id="expiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="7">7 days</SelectItem>
+                      <SelectItem value="30">30 days</SelectItem>
+                      <SelectItem value="90">90 days</SelectItem>
+                      <SelectItem value="365">1 year</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Lock className="h-4 w-4" />
+                    <span className="text-sm">Password protection</span>
+                  </div>
+                  <Switch
+                    checked={password !== null}
+                    onCheckedChange={(checked) => checked ? setShowPasswordDialog(true) : setPassword(null)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Download className="h-4 w-4" />
+                    <span className="text-sm">Allow download</span>
+                  </div>
+                  <Switch checked={allowDownload} onCheckedChange={setAllowDownload} />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <MessageCircle className="h-4 w-4" />
+                    <span className="text-sm">Allow comments</span>
+                  </div>
+                  <Switch checked={allowComments} onCheckedChange={setAllowComments} />
+                </div>
+              </div>
+
+              <Button
+                onClick={createShare}
+                disabled={createShareMutation.isPending || (shareType === 'private' && !sharedWith.trim())}
+                className="w-full"
+              >
+                {createShareMutation.isPending ? 'Creating...' : 'Create Link'}
+              </Button>
             </div>
           ) : (
             <div className="space-y-4">
@@ -308,13 +315,13 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
                         <>
                           <span>•</span>
                           <Calendar className="h-3 w-3" />
-                          <span>Expires {new Date(shareSettings.expiresAt).toLocaleDateString()}</span>
+                          <span>{expired ? 'Expired' : 'Expires'} {formatDate(shareSettings.expiresAt)}</span>
                         </>
                       )}
                     </div>
                   </div>
                 </div>
-                
+
                 <div className="flex items-center space-x-2">
                   <Button
                     variant="outline"
@@ -324,6 +331,15 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
                     <Copy className="h-4 w-4 mr-2" />
                     Copy Link
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateShareMutation.mutate({ rotateToken: true })}
+                    disabled={updateShareMutation.isPending}
+                    title="Replace the link; the old one stops working"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="destructive"
                     size="sm"
@@ -334,15 +350,57 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
                   </Button>
                 </div>
               </div>
-              
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Link enabled</span>
+                  <Switch
+                    checked={!!shareSettings.isActive}
+                    disabled={updateShareMutation.isPending}
+                    onCheckedChange={(checked) => updateShareMutation.mutate({ isActive: checked })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Lock className="h-4 w-4" />
+                    <span className="text-sm">Password protection</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {shareSettings.hasPassword && (
+                      <Button variant="ghost" size="sm" onClick={() => setShowPasswordDialog(true)}>
+                        Change
+                      </Button>
+                    )}
+                    <Switch
+                      checked={shareSettings.hasPassword}
+                      disabled={updateShareMutation.isPending}
+                      onCheckedChange={(checked) => checked ? setShowPasswordDialog(true) : updateShareMutation.mutate({ password: null })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Download className="h-4 w-4" />
+                    <span className="text-sm">Allow download</span>
+                  </div>
+                  <Switch
+                    checked={!!shareSettings.allowDownload}
+                    disabled={updateShareMutation.isPending}
+                    onCheckedChange={(checked) => updateShareMutation.mutate({ allowDownload: checked })}
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="text-center p-4 bg-muted rounded-lg">
-                  <div className="text-2xl font-bold">{shareSettings.viewCount}</div>
+                  <div className="text-2xl font-bold">{shareSettings.viewCount ?? 0}</div>
                   <div className="text-sm text-muted-foreground">Total Views</div>
                 </div>
                 <div className="text-center p-4 bg-muted rounded-lg">
                   <div className="text-2xl font-bold">
-                    {shareSettings.lastAccessed ? 'Recent' : 'Never'}
+                    {shareSettings.lastAccessed ? formatDate(shareSettings.lastAccessed) : 'Never'}
                   </div>
                   <div className="text-sm text-muted-foreground">Last Accessed</div>
                 </div>
@@ -366,6 +424,7 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
                 type="password"
                 value={sharePassword}
                 onChange={(e) => setSharePassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && confirmPassword()}
                 placeholder="Enter password"
               />
             </div>
@@ -373,7 +432,7 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
               <Button variant="outline" onClick={() => setShowPasswordDialog(false)}>
                 Cancel
               </Button>
-              <Button onClick={() => setShowPasswordDialog(false)}>
+              <Button onClick={confirmPassword}>
                 Set Password
               </Button>
             </div>
@@ -382,4 +441,4 @@ export default function SharePage({ pageId, pageTitle }: SharePageProps) {
       </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
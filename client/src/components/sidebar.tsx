@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { Button } from "@/components/ui/button";
@@ -16,7 +16,8 @@ import {
   Archive,
   Settings,
   Folder,
-  Home
+  Home,
+  Upload
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -41,6 +42,7 @@ export default function Sidebar({
   const [expandedPages, setExpandedPages] = useState<Set<number>>(new Set());
   const [newPageTitle, setNewPageTitle] = useState("");
   const [showNewPageInput, setShowNewPageInput] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -81,6 +83,53 @@ export default function Sidebar({
     });
   };
 
+  // The file goes up as the raw request body; the server detects zips by their header
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({ filename: file.name });
+      if (currentPageId) {
+        params.set("parentId", String(currentPageId));
+      }
+      const response = await fetch(`/api/workspaces/${workspaceId}/import/markdown?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || response.statusText);
+      }
+      return await response.json() as { pages: { id: number; title: string }[]; skipped: string[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/pages`] });
+      toast({
+        title: "Import complete",
+        description: `Imported ${result.pages.length} page${result.pages.length === 1 ? "" : "s"}` +
+          (result.skipped.length > 0 ? `, skipped ${result.skipped.length} other file${result.skipped.length === 1 ? "" : "s"}` : ""),
+      });
+      if (result.pages[0]) {
+        onPageSelect(result.pages[0].id);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file && workspaceId) {
+      importMutation.mutate(file);
+    }
+  };
+
   const toggleExpanded = (pageId: number) => {
     const newExpanded = new Set(expandedPages);
     if (newExpanded.has(pageId)) {
@@ -189,13 +238,31 @@ export default function Sidebar({
           <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
             Pages
           </h2>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowNewPageInput(true)}
-          >
-            <Plus className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Import Markdown or zip"
+              disabled={importMutation.isPending}
+              onClick={() => importInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowNewPageInput(true)}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".md,.markdown,.zip,text/markdown,application/zip"
+            className="hidden"
+            onChange={handleImportFile}
+          />
         </div>
         
         <Button
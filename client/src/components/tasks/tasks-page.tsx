@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, CheckSquare, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { apiRequest } from "@/lib/queryClient";
+import type { TaskDueFilter, TaskSort, TaskStatus, TaskView, UpdateTask, WorkspaceMemberWithUser } from "@shared/schema";
+
+interface TasksPageProps {
+  workspaceId: number;
+}
+
+const UNASSIGNED = "unassigned";
+
+function formatDue(due: NonNullable<TaskView["dueDate"]>): string {
+  const [year, month, day] = due.date.split("-").map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return due.time ? `${date}, ${due.time}` : date;
+}
+
+export default function TasksPage({ workspaceId }: TasksPageProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isConnected, toggleTask } = useWebSocket(workspaceId);
+  const [assignee, setAssignee] = useState("me");
+  const [status, setStatus] = useState<TaskStatus>("open");
+  const [due, setDue] = useState<TaskDueFilter>("any");
+  const [sort, setSort] = useState<TaskSort>("due");
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const params = new URLSearchParams({ assignee, status, due, sort });
+  if (searchQuery.trim()) params.set("q", searchQuery.trim());
+  const tasksQueryKey = [`/api/workspaces/${workspaceId}/tasks?${params}`];
+
+  const { data: tasks, isLoading } = useQuery<TaskView[]>({
+    queryKey: tasksQueryKey,
+  });
+
+  const { data: members } = useQuery<WorkspaceMemberWithUser[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/members`],
+  });
+
+  const invalidateTasks = () => queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith(`/api/workspaces/${workspaceId}/tasks`),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ blockId, updates }: { blockId: number; updates: UpdateTask }) => {
+      // Ticks go over the socket when it is up, so open editors see them straight away
+      if (updates.checked !== undefined && updates.assigneeId === undefined && isConnected) {
+        return await toggleTask(blockId, updates.checked);
+      }
+      const response = await apiRequest('PATCH', `/api/tasks/${blockId}`, updates);
+      return (await response.json()) as TaskView;
+    },
+    onMutate: ({ blockId, updates }) => {
+      if (updates.checked === undefined) return;
+      queryClient.setQueryData<TaskView[]>(tasksQueryKey, previous =>
+        previous?.map(task => task.blockId === blockId ? { ...task, checked: updates.checked! } : task)
+      );
+    },
+    onSuccess: (task) => {
+      invalidateTasks();
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${task.pageId}/blocks`] });
+    },
+    onError: (error: Error) => {
+      invalidateTasks();
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update task.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCount = tasks?.filter(task => !task.checked).length ?? 0;
+  const overdueCount = tasks?.filter(task => task.isOverdue).length ?? 0;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center space-x-2">
+        <h1 className="text-2xl font-bold">My tasks</h1>
+        <Badge variant="secondary">{openCount} open</Badge>
+        {overdueCount > 0 && <Badge variant="destructive">{overdueCount} overdue</Badge>}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search tasks..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <Select value={assignee} onValueChange={setAssignee}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="me">Mine</SelectItem>
+            <SelectItem value="anyone">Everyone</SelectItem>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={status} onValueChange={(value: TaskStatus) => setStatus(value)}>
+          <SelectTrigger className="w-[120px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="done">Done</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={due} onValueChange={(value: TaskDueFilter) => setDue(value)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Due" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any due date</SelectItem>
+            <SelectItem value="overdue">Overdue</SelectItem>
+            <SelectItem value="today">Due today</SelectItem>
+            <SelectItem value="week">Next 7 days</SelectItem>
+            <SelectItem value="scheduled">With a due date</SelectItem>
+            <SelectItem value="none">No due date</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={sort} onValueChange={(value: TaskSort) => setSort(value)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="due">Due date</SelectItem>
+            <SelectItem value="page">Page</SelectItem>
+            <SelectItem value="created">Created</SelectItem>
+            <SelectItem value="updated">Last edited</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="p-8">Loading tasks...</div>
+      ) : !tasks?.length ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <CheckSquare className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No tasks</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              {searchQuery || due !== "any" || status !== "open"
+                ? "No tasks match your search or filter criteria."
+                : "To-do items on your pages will show up here."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map(task => (
+            <Card key={task.blockId}>
+              <CardContent className="p-4">
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={task.checked}
+                    onChange={(e) => updateMutation.mutate({ blockId: task.blockId, updates: { checked: e.target.checked } })}
+                    className="mt-1 rounded border-gray-300"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={task.checked ? "line-through text-muted-foreground" : ""}>
+                      {task.text || "Untitled task"}
+                    </p>
+                    <div className="mt-1 flex items-center space-x-3 text-xs text-muted-foreground">
+                      <Link href={`/page/${task.pageId}`} className="hover:underline truncate">
+                        {task.pageIcon && <span className="mr-1">{task.pageIcon}</span>}
+                        {task.pageTitle || "Untitled"}
+                      </Link>
+                      {task.dueDate && (
+                        <span className={`flex items-center whitespace-nowrap ${task.isOverdue ? "text-red-600" : ""}`}>
+                          <CalendarClock className="h-3 w-3 mr-1" />
+                          {formatDue(task.dueDate)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <Select
+                    value={task.assignee?.id ?? UNASSIGNED}
+                    onValueChange={(value) => updateMutation.mutate({
+                      blockId: task.blockId,
+                      updates: { assigneeId: value === UNASSIGNED ? null : value },
+                    })}
+                  >
+                    <SelectTrigger className="w-[160px] h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {task.assignee && !members?.some(member => member.userId === task.assignee!.id) && (
+                        <SelectItem value={task.assignee.id}>{task.assignee.name}</SelectItem>
+                      )}
+                      {members?.map(member => (
+                        <SelectItem key={member.userId} value={member.userId}>{member.user.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
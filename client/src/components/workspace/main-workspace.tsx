@@ -17,6 +17,7 @@ import {
   Archive,
   Trash2
 } from 'lucide-react';
+import type { Page } from '@shared/schema';
 
 interface User {
   id: string;
@@ -35,14 +36,6 @@ interface Workspace {
   plan: string;
 }
 
-interface Page {
-  id: number;
-  title: string;
-  workspaceId: number;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface MainWorkspaceProps {
   user: User;
   workspaces: Workspace[];
@@ -50,7 +43,7 @@ interface MainWorkspaceProps {
 }
 
 export function MainWorkspace({ user, workspaces, onLogout }: MainWorkspaceProps) {
-  const { send, isConnected, subscribe } = useWebSocketAPI();
+  const { request, isConnected, subscribe, joinWorkspace } = useWebSocketAPI();
   const [selectedWorkspace, setSelectedWorkspace] = useState<Workspace | null>(null);
   const [pages, setPages] = useState<Page[]>([]);
   const [loading, setLoading] = useState(false);
@@ -71,44 +64,41 @@ export function MainWorkspace({ user, workspaces, onLogout }: MainWorkspaceProps
     }
   }, [selectedWorkspace, isConnected]);
 
-  // Subscribe to real-time updates
+  // Subscribe to real-time updates from the workspace room
   useEffect(() => {
-    const unsubscribePageCreated = subscribe('page_created', (page: Page) => {
-      if (selectedWorkspace && page.workspaceId === selectedWorkspace.id) {
+    if (!selectedWorkspace) return;
+    const leaveWorkspace = joinWorkspace(selectedWorkspace.id);
+
+    const unsubscribePageCreated = subscribe('page_created', ({ page }) => {
+      if (page.workspaceId === selectedWorkspace.id) {
         setPages(prev => [...prev, page]);
       }
     });
 
-    const unsubscribePageUpdated = subscribe('page_updated', (page: Page) => {
-      if (selectedWorkspace && page.workspaceId === selectedWorkspace.id) {
+    const unsubscribePageUpdated = subscribe('page_updated', ({ page }) => {
+      if (page.workspaceId === selectedWorkspace.id) {
         setPages(prev => prev.map(p => p.id === page.id ? page : p));
       }
     });
 
-    const unsubscribePageDeleted = subscribe('page_deleted', (data: { id: number }) => {
-      setPages(prev => prev.filter(p => p.id !== data.id));
+    const unsubscribePageDeleted = subscribe('page_deleted', ({ pageId }) => {
+      setPages(prev => prev.filter(p => p.id !== pageId));
     });
 
     return () => {
       unsubscribePageCreated();
       unsubscribePageUpdated();
       unsubscribePageDeleted();
+      leaveWorkspace();
     };
-  }, [subscribe, selectedWorkspace]);
+  }, [subscribe, joinWorkspace, selectedWorkspace]);
 
   const loadPages = async () => {
     if (!selectedWorkspace) return;
     
     setLoading(true);
     try {
-      const response = await send({
-        type: 'get_pages',
-        data: { workspaceId: selectedWorkspace.id }
-      });
-      
-      if (response.data) {
-        setPages(response.data);
-      }
+      setPages(await request('get_pages', { workspaceId: selectedWorkspace.id }));
     } catch (error) {
       console.error('Error loading pages:', error);
     } finally {
@@ -120,20 +110,14 @@ export function MainWorkspace({ user, workspaces, onLogout }: MainWorkspaceProps
     if (!selectedWorkspace || !newPageTitle.trim()) return;
 
     try {
-      const response = await send({
-        type: 'create_page',
-        data: {
-          title: newPageTitle,
-          workspaceId: selectedWorkspace.id,
-          content: '[]',
-          status: 'draft'
-        }
+      const page = await request('create_page', {
+        title: newPageTitle,
+        workspaceId: selectedWorkspace.id
       });
 
-      if (response.data) {
-        setNewPageTitle('');
-        // Page will be added via WebSocket subscription
-      }
+      setNewPageTitle('');
+      // Other people get the page through the workspace room
+      setPages(prev => [...prev, page]);
     } catch (error) {
       console.error('Error creating page:', error);
     }
@@ -141,7 +125,7 @@ export function MainWorkspace({ user, workspaces, onLogout }: MainWorkspaceProps
 
   const handleLogout = async () => {
     try {
-      await send({ type: 'auth_logout' });
+      await request('auth_logout', {});
       onLogout();
     } catch (error) {
       console.error('Error logging out:', error);
@@ -323,7 +307,7 @@ export function MainWorkspace({ user, workspaces, onLogout }: MainWorkspaceProps
                           <div className="flex-1">
                             <h3 className="font-medium text-gray-900">{page.title}</h3>
                             <p className="text-sm text-gray-500">
-                              Updated {new Date(page.updatedAt).toLocaleDateString()}
+                              Updated {new Date(page.updatedAt ?? Date.now()).toLocaleDateString()}
                             </p>
                           </div>
                           <Button variant="ghost" size="sm">
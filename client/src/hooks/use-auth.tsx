@@ -4,15 +4,21 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, User, InsertUser, type MFAChallenge } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { getPasskey } from "../lib/webauthn";
 import { useToast } from "@/hooks/use-toast";
 
+// Set while a workspace policy requires MFA and the account has not enrolled yet
+type SelectUser = User & { mfaEnrollmentRequired?: boolean };
+
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<SelectUser | MFAChallenge, Error, LoginData>;
+  mfaLoginMutation: UseMutationResult<SelectUser, Error, string>;
+  passkeyLoginMutation: UseMutationResult<SelectUser, Error, void>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
@@ -37,6 +43,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: SelectUser | MFAChallenge) => {
+      // Accounts with MFA are not signed in until the code is checked
+      if ("mfaRequired" in result) return;
+      queryClient.setQueryData(["/api/auth/user"], result);
+      toast({
+        title: "Login successful",
+        description: "Welcome back!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mfaLoginMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/mfa", { code });
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/auth/user"], user);
       toast({
@@ -46,7 +75,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // On its own, or as the second step after a password when one is pending
+  const passkeyLoginMutation = useMutation({
+    mutationFn: async () => {
+      const options = await (await apiRequest("POST", "/api/login/passkey/options")).json();
+      const assertion = await getPasskey(options);
+      const res = await apiRequest("POST", "/api/login/passkey", assertion);
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      queryClient.setQueryData(["/api/auth/user"], user);
+      toast({
+        title: "Login successful",
+        description: "Welcome back!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Passkey sign-in failed",
         description: error.message,
         variant: "destructive",
       });
@@ -101,6 +154,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        mfaLoginMutation,
+        passkeyLoginMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from './use-auth';
+import { useWebSocketAPI } from './useWebSocketAPI';
+import { apply, compose, diff, transform, type TextOperation } from '@shared/ot';
+import type { BlockSnapshotView } from '@shared/realtime';
+
+type TextListener = (text: string) => void;
+
+interface BlockSyncState {
+  text: string;
+  // null until the server sent us a snapshot to build on
+  revision: number | null;
+  // Sent but not yet acknowledged
+  inflight: TextOperation | null;
+  // Typed while waiting for the ack; sent once inflight is acknowledged
+  buffer: TextOperation | null;
+  // Edited while there was no revision to send against
+  unsynced: boolean;
+  listeners: Set<TextListener>;
+}
+
+export function useBlockSync(pageId: number) {
+  const { user } = useAuth();
+  const { isConnected, request, subscribe: subscribeEvent, joinPage } = useWebSocketAPI();
+  const blocksRef = useRef<Map<number, BlockSyncState>>(new Map());
+  // Blocks can only be synced once the page room is joined
+  const [isJoined, setIsJoined] = useState(false);
+  const joinedRef = useRef(false);
+
+  const notify = (state: BlockSyncState) => {
+    state.listeners.forEach(listener => listener(state.text));
+  };
+
+  const applySnapshot = (state: BlockSyncState, snapshot: BlockSnapshotView) => {
+    const hasLocalChanges = state.inflight !== null || state.buffer !== null || state.unsynced;
+    const pending = hasLocalChanges ? diff(snapshot.text, state.text) : [];
+
+    state.revision = snapshot.revision;
+    state.inflight = null;
+    state.buffer = null;
+    state.unsynced = false;
+
+    if (pending.length > 0) {
+      // Replay what we typed on top of the server's text
+      sendOperation(snapshot.blockId, state, pending);
+    } else if (state.text !== snapshot.text) {
+      state.text = snapshot.text;
+      notify(state);
+    }
+  };
+
+  const syncBlock = (blockId: number) => {
+    request('block_sync', { blockId }).then((snapshot) => {
+      const state = blocksRef.current.get(blockId);
+      if (state) applySnapshot(state, snapshot);
+    }, (error) => {
+      console.warn('Failed to sync block:', error);
+    });
+  };
+
+  const sendOperation = (blockId: number, state: BlockSyncState, operation: TextOperation) => {
+    state.inflight = operation;
+    request('block_edit', { blockId, revision: state.revision!, operation }).then((result) => {
+      if (!result.applied) {
+        // The edit could not be applied; rebase what we typed on the server's text
+        applySnapshot(state, result.snapshot);
+        return;
+      }
+      state.revision = result.revision;
+      state.inflight = null;
+      if (state.buffer) {
+        const buffered = state.buffer;
+        state.buffer = null;
+        sendOperation(blockId, state, buffered);
+      }
+    }, () => {
+      // Replayed against the snapshot we get once the connection is back
+    });
+  };
+
+  useEffect(() => {
+    if (!user || !pageId) return;
+
+    // Ask for a fresh snapshot of every block we are already editing on each (re)join
+    const release = joinPage(pageId, () => {
+      joinedRef.current = true;
+      setIsJoined(true);
+      blocksRef.current.forEach((_, blockId) => syncBlock(blockId));
+    });
+
+    const unsubscribe = subscribeEvent('block_edit', (message) => {
+      if (message.pageId !== pageId) return;
+      const state = blocksRef.current.get(message.blockId);
+      if (!state || state.revision === null) return;
+
+      let operation: TextOperation = message.operation;
+      if (state.inflight) {
+        const inflight = state.inflight;
+        state.inflight = transform(inflight, operation, 'left');
+        operation = transform(operation, inflight, 'right');
+      }
+      if (state.buffer) {
+        const buffer = state.buffer;
+        state.buffer = transform(buffer, operation, 'left');
+        operation = transform(operation, buffer, 'right');
+      }
+
+      state.text = apply(state.text, operation);
+      state.revision = message.revision;
+      notify(state);
+    });
+
+    return () => {
+      unsubscribe();
+      release();
+      joinedRef.current = false;
+      setIsJoined(false);
+    };
+  }, [pageId, user, joinPage, subscribeEvent]);
+
+  useEffect(() => {
+    if (isConnected) return;
+    joinedRef.current = false;
+    setIsJoined(false);
+    // Anything unacknowledged is replayed against the next snapshot
+    blocksRef.current.forEach(state => {
+      state.unsynced = state.unsynced || state.inflight !== null || state.buffer !== null;
+      state.inflight = null;
+      state.buffer = null;
+      state.revision = null;
+    });
+  }, [isConnected]);
+
+  const subscribe = useCallback((blockId: number, initialText: string, listener: TextListener) => {
+    let state = blocksRef.current.get(blockId);
+    if (!state) {
+      state = {
+        text: initialText,
+        revision: null,
+        inflight: null,
+        buffer: null,
+        unsynced: false,
+        listeners: new Set()
+      };
+      blocksRef.current.set(blockId, state);
+      if (joinedRef.current) syncBlock(blockId);
+    }
+    state.listeners.add(listener);
+
+    return () => {
+      const current = blocksRef.current.get(blockId);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0 && !current.inflight && !current.buffer && !current.unsynced) {
+        blocksRef.current.delete(blockId);
+      }
+    };
+  }, []);
+
+  const editText = useCallback((blockId: number, text: string) => {
+    const state = blocksRef.current.get(blockId);
+    if (!state) return;
+
+    const operation = diff(state.text, text);
+    if (operation.length === 0) return;
+    state.text = text;
+
+    if (state.revision === null) {
+      // Replayed as a diff once the snapshot arrives
+      state.unsynced = true;
+      return;
+    }
+
+    if (state.inflight) {
+      state.buffer = state.buffer ? compose(state.buffer, operation) : operation;
+      return;
+    }
+
+    sendOperation(blockId, state, operation);
+  }, []);
+
+  return {
+    isConnected: isConnected && isJoined,
+    subscribe,
+    editText
+  };
+}
@@ -1,422 +1,325 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './use-auth';
-
-interface WebSocketMessage {
-  type: string;
-  [key: string]: any;
-}
-
-interface CursorPosition {
-  userId: string;
-  userName: string;
-  pageId: number;
-  x: number;
-  y: number;
-  blockId?: number;
-  selection?: { start: number; end: number };
-}
+import { realtime, useWebSocketAPI } from './useWebSocketAPI';
+import type { Block, Page } from '@shared/schema';
+import type { RealtimeCursor } from '@shared/realtime';
 
 interface CollaborationState {
   connectedUsers: Map<string, { userId: string; userName: string }>;
-  cursors: Map<string, CursorPosition>;
+  // Cursors on pages this browser has open, by user
+  cursors: Map<string, RealtimeCursor>;
   typingUsers: Map<string, { blockId: number; userName: string }>;
-  pages: Map<number, any>;
-  blocks: Map<number, any[]>;
+  pages: Map<number, Page>;
+  blocks: Map<number, Block[]>;
   favorites: Set<number>;
   archived: Set<number>;
   trash: Set<number>;
 }
 
+const emptyState = (): CollaborationState => ({
+  connectedUsers: new Map(),
+  cursors: new Map(),
+  typingUsers: new Map(),
+  pages: new Map(),
+  blocks: new Map(),
+  favorites: new Set(),
+  archived: new Set(),
+  trash: new Set()
+});
+
+// Failed actions surface as the page not changing; the server logs why
+const reportFailure = (action: string) => (error: Error) => {
+  console.error(`Failed to ${action}:`, error);
+};
+
 export function useWebSocket(workspaceId?: number) {
   const { user } = useAuth();
-  const wsRef = useRef<WebSocket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [collaborationState, setCollaborationState] = useState<CollaborationState>({
-    connectedUsers: new Map(),
-    cursors: new Map(),
-    typingUsers: new Map(),
-    pages: new Map(),
-    blocks: new Map(),
-    favorites: new Set(),
-    archived: new Set(),
-    trash: new Set()
-  });
-
-  const sendMessage = (message: WebSocketMessage) => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message));
-    }
-  };
+  const queryClient = useQueryClient();
+  const { isConnected, request, notify, subscribe, joinWorkspace } = useWebSocketAPI();
+  const [collaborationState, setCollaborationState] = useState<CollaborationState>(emptyState);
+
+  useEffect(() => {
+    realtime.syncUser(user?.id ?? null);
+  }, [user?.id]);
+
+  // The session expired or was signed out elsewhere
+  useEffect(() => realtime.onSessionEnded(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+  }), [queryClient]);
+
+  useEffect(() => {
+    if (!isConnected) setCollaborationState(emptyState());
+  }, [isConnected]);
 
   useEffect(() => {
     if (!user || !workspaceId) return;
 
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      // Join workspace
-      ws.send(JSON.stringify({
-        type: 'join_workspace',
-        userId: user.id,
-        userName: user.displayName || user.email,
-        workspaceId
+    const release = joinWorkspace(workspaceId, ({ users }) => {
+      setCollaborationState(prev => ({
+        ...prev,
+        connectedUsers: new Map(users.map(({ userId, name }) => [userId, { userId, userName: name }]))
       }));
-    };
+    });
 
-    ws.onmessage = (event) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        
-        switch (message.type) {
-          case 'user_joined':
-            setCollaborationState(prev => ({
-              ...prev,
-              connectedUsers: new Map(prev.connectedUsers).set(message.userId, {
-                userId: message.userId,
-                userName: message.userName
-              })
-            }));
-            break;
-            
-          case 'user_left':
-            setCollaborationState(prev => {
-              const newUsers = new Map(prev.connectedUsers);
-              const newCursors = new Map(prev.cursors);
-              const newTyping = new Map(prev.typingUsers);
-              
-              newUsers.delete(message.userId);
-              newCursors.delete(message.userId);
-              newTyping.delete(message.userId);
-              
-              return {
-                ...prev,
-                connectedUsers: newUsers,
-                cursors: newCursors,
-                typingUsers: newTyping
-              };
-            });
-            break;
-            
-          case 'cursor_update':
-            setCollaborationState(prev => ({
-              ...prev,
-              cursors: new Map(prev.cursors).set(message.cursor.userId, message.cursor)
-            }));
-            break;
-            
-          case 'user_typing':
-            setCollaborationState(prev => {
-              const newTyping = new Map(prev.typingUsers);
-              if (message.isTyping) {
-                newTyping.set(message.userId, {
-                  blockId: message.blockId,
-                  userName: message.userName
-                });
-              } else {
-                newTyping.delete(message.userId);
-              }
-              return {
-                ...prev,
-                typingUsers: newTyping
-              };
-            });
-            break;
-
-          // Real-time CRUD updates
-          case 'page_created':
-            setCollaborationState(prev => ({
-              ...prev,
-              pages: new Map(prev.pages).set(message.page.id, message.page)
-            }));
-            break;
-
-          case 'page_updated':
-            setCollaborationState(prev => ({
-              ...prev,
-              pages: new Map(prev.pages).set(message.page.id, message.page)
-            }));
-            break;
-
-          case 'page_deleted':
-            setCollaborationState(prev => {
-              const newPages = new Map(prev.pages);
-              newPages.delete(message.pageId);
-              return {
-                ...prev,
-                pages: newPages
-              };
-            });
-            break;
-
-          case 'block_created':
-            setCollaborationState(prev => {
-              const newBlocks = new Map(prev.blocks);
-              const pageBlocks = newBlocks.get(message.block.pageId) || [];
-              newBlocks.set(message.block.pageId, [...pageBlocks, message.block]);
-              return {
-                ...prev,
-                blocks: newBlocks
-              };
-            });
-            break;
-
-          case 'block_updated':
-            setCollaborationState(prev => {
-              const newBlocks = new Map(prev.blocks);
-              const pageBlocks = newBlocks.get(message.block.pageId) || [];
-              const updatedBlocks = pageBlocks.map(block => 
-                block.id === message.block.id ? message.block : block
-              );
-              newBlocks.set(message.block.pageId, updatedBlocks);
-              return {
-                ...prev,
-                blocks: newBlocks
-              };
-            });
-            break;
-
-          case 'block_deleted':
-            setCollaborationState(prev => {
-              const newBlocks = new Map(prev.blocks);
-              Object.keys(newBlocks).forEach(pageId => {
-                const pageBlocks = newBlocks.get(parseInt(pageId)) || [];
-                newBlocks.set(parseInt(pageId), pageBlocks.filter(block => block.id !== message.blockId));
-              });
-              return {
-                ...prev,
-                blocks: newBlocks
-              };
-            });
-            break;
-
-          case 'blocks_reordered':
-            setCollaborationState(prev => {
-              const newBlocks = new Map(prev.blocks);
-              const pageBlocks = newBlocks.get(message.pageId) || [];
-              const reorderedBlocks = message.blockIds.map((id: number) => 
-                pageBlocks.find(block => block.id === id)
-              ).filter(Boolean);
-              newBlocks.set(message.pageId, reorderedBlocks);
-              return {
-                ...prev,
-                blocks: newBlocks
-              };
-            });
-            break;
-
-          case 'page_favorite_toggled':
-            setCollaborationState(prev => {
-              const newFavorites = new Set(prev.favorites);
-              if (newFavorites.has(message.pageId)) {
-                newFavorites.delete(message.pageId);
-              } else {
-                newFavorites.add(message.pageId);
-              }
-              return {
-                ...prev,
-                favorites: newFavorites
-              };
-            });
-            break;
-
-          case 'page_archived':
-            setCollaborationState(prev => ({
-              ...prev,
-              archived: new Set(prev.archived).add(message.pageId)
-            }));
-            break;
-
-          case 'page_restored':
-            setCollaborationState(prev => {
-              const newArchived = new Set(prev.archived);
-              const newTrash = new Set(prev.trash);
-              newArchived.delete(message.pageId);
-              newTrash.delete(message.pageId);
-              return {
-                ...prev,
-                archived: newArchived,
-                trash: newTrash
-              };
-            });
-            break;
-
-          case 'page_permanently_deleted':
-            setCollaborationState(prev => {
-              const newPages = new Map(prev.pages);
-              const newTrash = new Set(prev.trash);
-              const newArchived = new Set(prev.archived);
-              newPages.delete(message.pageId);
-              newTrash.delete(message.pageId);
-              newArchived.delete(message.pageId);
-              return {
-                ...prev,
-                pages: newPages,
-                trash: newTrash,
-                archived: newArchived
-              };
-            });
-            break;
+    const unsubscribes = [
+      subscribe('workspace_presence', (data) => {
+        if (data.workspaceId !== workspaceId) return;
+        setCollaborationState(prev => {
+          const connectedUsers = new Map(data.users.map(({ userId, name }) => [userId, { userId, userName: name }]));
+          const cursors = new Map(prev.cursors);
+          const typingUsers = new Map(prev.typingUsers);
+          Array.from(prev.connectedUsers.keys()).forEach(userId => {
+            if (connectedUsers.has(userId)) return;
+            cursors.delete(userId);
+            typingUsers.delete(userId);
+          });
+          return { ...prev, connectedUsers, cursors, typingUsers };
+        });
+      }),
+
+      subscribe('cursor_moved', (cursor) => {
+        setCollaborationState(prev => ({
+          ...prev,
+          cursors: new Map(prev.cursors).set(cursor.userId, cursor)
+        }));
+      }),
+
+      subscribe('cursor_hidden', ({ userId }) => {
+        setCollaborationState(prev => {
+          const cursors = new Map(prev.cursors);
+          cursors.delete(userId);
+          return { ...prev, cursors };
+        });
+      }),
+
+      subscribe('presence', ({ users }) => {
+        setCollaborationState(prev => {
+          const typingUsers = new Map(prev.typingUsers);
+          users.forEach(presence => {
+            if (presence.status === 'typing' && presence.blockId !== null) {
+              typingUsers.set(presence.userId, { blockId: presence.blockId, userName: presence.name });
+            } else {
+              typingUsers.delete(presence.userId);
+            }
+          });
+          return { ...prev, typingUsers };
+        });
+      }),
+
+      // Notifications pushed by the server for this user
+      subscribe('notification', ({ notification, desktop }) => {
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        if (desktop && 'Notification' in window && Notification.permission === 'granted') {
+          new Notification(notification.title, { body: notification.message });
         }
-      } catch (error) {
-        console.error('WebSocket message parsing error:', error);
-      }
-    };
-
-    ws.onclose = () => {
-      setIsConnected(false);
-      setCollaborationState({
-        connectedUsers: new Map(),
-        cursors: new Map(),
-        typingUsers: new Map(),
-        pages: new Map(),
-        blocks: new Map(),
-        favorites: new Set(),
-        archived: new Set(),
-        trash: new Set()
-      });
-    };
+      }),
+
+      subscribe('notifications_read', () => {
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      }),
+
+      subscribe('notifications_deleted', () => {
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      }),
+
+      // Real-time CRUD updates
+      subscribe('page_created', ({ page }) => {
+        setCollaborationState(prev => ({
+          ...prev,
+          pages: new Map(prev.pages).set(page.id, page)
+        }));
+      }),
+
+      subscribe('page_updated', ({ page }) => {
+        setCollaborationState(prev => ({
+          ...prev,
+          pages: new Map(prev.pages).set(page.id, page)
+        }));
+      }),
+
+      subscribe('page_deleted', ({ pageId }) => {
+        setCollaborationState(prev => {
+          const pages = new Map(prev.pages);
+          pages.delete(pageId);
+          return {
+            ...prev,
+            pages,
+            trash: new Set(prev.trash).add(pageId)
+          };
+        });
+      }),
+
+      subscribe('block_created', ({ block }) => {
+        setCollaborationState(prev => {
+          const blocks = new Map(prev.blocks);
+          blocks.set(block.pageId, [...(blocks.get(block.pageId) || []), block]);
+          return { ...prev, blocks };
+        });
+      }),
+
+      subscribe('block_updated', ({ block }) => {
+        setCollaborationState(prev => {
+          const blocks = new Map(prev.blocks);
+          const pageBlocks = blocks.get(block.pageId) || [];
+          blocks.set(block.pageId, pageBlocks.map(existing => existing.id === block.id ? block : existing));
+          return { ...prev, blocks };
+        });
+        queryClient.invalidateQueries({ queryKey: [`/api/pages/${block.pageId}/blocks`] });
+        if (block.type === 'todo') {
+          queryClient.invalidateQueries({
+            predicate: query => String(query.queryKey[0]).startsWith(`/api/workspaces/${workspaceId}/tasks`),
+          });
+        }
+      }),
+
+      subscribe('block_deleted', ({ blockId, pageId }) => {
+        setCollaborationState(prev => {
+          const blocks = new Map(prev.blocks);
+          blocks.set(pageId, (blocks.get(pageId) || []).filter(block => block.id !== blockId));
+          return { ...prev, blocks };
+        });
+      }),
+
+      subscribe('blocks_reordered', ({ pageId, blockIds }) => {
+        setCollaborationState(prev => {
+          const blocks = new Map(prev.blocks);
+          const pageBlocks = blocks.get(pageId) || [];
+          blocks.set(pageId, blockIds
+            .map(id => pageBlocks.find(block => block.id === id))
+            .filter((block): block is Block => block !== undefined));
+          return { ...prev, blocks };
+        });
+      }),
+
+      subscribe('page_favorite_toggled', ({ pageId }) => {
+        setCollaborationState(prev => {
+          const favorites = new Set(prev.favorites);
+          if (favorites.has(pageId)) {
+            favorites.delete(pageId);
+          } else {
+            favorites.add(pageId);
+          }
+          return { ...prev, favorites };
+        });
+      }),
+
+      subscribe('page_archived', ({ pageId }) => {
+        setCollaborationState(prev => ({
+          ...prev,
+          archived: new Set(prev.archived).add(pageId)
+        }));
+      }),
+
+      subscribe('page_restored', ({ pageId }) => {
+        setCollaborationState(prev => {
+          const archived = new Set(prev.archived);
+          const trash = new Set(prev.trash);
+          archived.delete(pageId);
+          trash.delete(pageId);
+          return { ...prev, archived, trash };
+        });
+      }),
+
+      subscribe('page_permanently_deleted', ({ pageId }) => {
+        setCollaborationState(prev => {
+          const pages = new Map(prev.pages);
+          const trash = new Set(prev.trash);
+          const archived = new Set(prev.archived);
+          pages.delete(pageId);
+          trash.delete(pageId);
+          archived.delete(pageId);
+          return { ...prev, pages, trash, archived };
+        });
+      }),
+    ];
 
     return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      release();
     };
-  }, [user, workspaceId]);
+  }, [user, workspaceId, joinWorkspace, subscribe, queryClient]);
 
   const sendCursorPosition = (pageId: number, x: number, y: number, blockId?: number, selection?: { start: number; end: number }) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && user) {
-      wsRef.current.send(JSON.stringify({
-        type: 'cursor_move',
-        userId: user.id,
-        userName: user.displayName || user.email,
-        pageId,
-        x,
-        y,
-        blockId,
-        selection
-      }));
-    }
+    notify('cursor_move', { pageId, x, y, blockId, selection });
   };
 
-  const sendTypingStart = (blockId: number) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && user && workspaceId) {
-      wsRef.current.send(JSON.stringify({
-        type: 'typing_start',
-        userId: user.id,
-        userName: user.displayName || user.email,
-        workspaceId,
-        blockId
-      }));
-    }
+  const sendTypingStart = (pageId: number, blockId: number) => {
+    notify('typing', { pageId, blockId, isTyping: true });
   };
 
-  const sendTypingStop = (blockId: number) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && user && workspaceId) {
-      wsRef.current.send(JSON.stringify({
-        type: 'typing_stop',
-        userId: user.id,
-        userName: user.displayName || user.email,
-        workspaceId,
-        blockId
-      }));
-    }
+  const sendTypingStop = (pageId: number, blockId: number) => {
+    notify('typing', { pageId, blockId, isTyping: false });
   };
 
-  // WebSocket-based CRUD operations
+  // Realtime CRUD operations; the sender's own change arrives in the reply, not as an event
   const createPage = (title: string, parentId?: number) => {
-    sendMessage({
-      type: 'create_page',
-      title,
-      parentId,
-      workspaceId
-    });
+    if (!workspaceId) return;
+    request('create_page', { title, parentId: parentId ?? null, workspaceId }).then((page) => {
+      setCollaborationState(prev => ({
+        ...prev,
+        pages: new Map(prev.pages).set(page.id, page)
+      }));
+    }, reportFailure('create page'));
   };
 
-  const updatePage = (pageId: number, updates: any) => {
-    sendMessage({
-      type: 'update_page',
-      pageId,
-      updates
-    });
+  const updatePage = (pageId: number, updates: { title?: string; icon?: string | null; cover?: string | null; parentId?: number | null }) => {
+    request('update_page', { pageId, updates }).then((page) => {
+      setCollaborationState(prev => ({
+        ...prev,
+        pages: new Map(prev.pages).set(page.id, page)
+      }));
+    }, reportFailure('update page'));
   };
 
   const deletePage = (pageId: number) => {
-    sendMessage({
-      type: 'delete_page',
-      pageId
-    });
+    request('delete_page', { pageId }).then(() => {
+      setCollaborationState(prev => {
+        const pages = new Map(prev.pages);
+        pages.delete(pageId);
+        return { ...prev, pages, trash: new Set(prev.trash).add(pageId) };
+      });
+    }, reportFailure('delete page'));
   };
 
   const createBlock = (pageId: number, type: string, content: any, position: number) => {
-    sendMessage({
-      type: 'create_block',
-      pageId,
-      blockType: type,
-      content,
-      position
-    });
+    request('create_block', { pageId, type, content, position }).catch(reportFailure('create block'));
   };
 
   const updateBlock = (blockId: number, content: any) => {
-    sendMessage({
-      type: 'update_block',
-      blockId,
-      content
-    });
+    request('update_block', { blockId, updates: { content } }).catch(reportFailure('update block'));
   };
 
   const deleteBlock = (blockId: number) => {
-    sendMessage({
-      type: 'delete_block',
-      blockId
-    });
+    request('delete_block', { blockId }).catch(reportFailure('delete block'));
   };
 
   const reorderBlocks = (pageId: number, blockIds: number[]) => {
-    sendMessage({
-      type: 'reorder_blocks',
-      pageId,
-      blockIds
-    });
+    request('reorder_blocks', { pageId, blockIds }).catch(reportFailure('reorder blocks'));
   };
 
   const toggleFavorite = (pageId: number) => {
-    sendMessage({
-      type: 'toggle_favorite',
-      pageId
-    });
+    request('toggle_favorite', { pageId }).catch(reportFailure('toggle favorite'));
   };
 
   const archivePage = (pageId: number) => {
-    sendMessage({
-      type: 'archive_page',
-      pageId
-    });
+    request('archive_page', { pageId }).catch(reportFailure('archive page'));
   };
 
   const restorePage = (pageId: number) => {
-    sendMessage({
-      type: 'restore_page',
-      pageId
-    });
+    request('restore_page', { pageId }).catch(reportFailure('restore page'));
   };
 
   const permanentDelete = (pageId: number) => {
-    sendMessage({
-      type: 'permanent_delete',
-      pageId
-    });
+    request('permanent_delete', { pageId }).catch(reportFailure('permanently delete page'));
   };
 
+  // Ticks a todo from outside its page; editors showing the page update live
+  const toggleTask = (blockId: number, checked: boolean) => request('task_update', { blockId, checked });
+
   return {
     isConnected,
     collaborationState,
-    sendMessage,
     sendCursorPosition,
     sendTypingStart,
     sendTypingStop,
@@ -430,6 +333,7 @@ export function useWebSocket(workspaceId?: number) {
     toggleFavorite,
     archivePage,
     restorePage,
-    permanentDelete
+    permanentDelete,
+    toggleTask
   };
-}
\ No newline at end of file
+}
@@ -1,274 +1,380 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-interface WSMessage {
-  type: string;
-  data?: any;
-  requestId?: string;
+import { useEffect, useState } from 'react';
+import {
+  REALTIME_PATH, REALTIME_PROTOCOL_VERSION, realtimeCloseCodes,
+  type RealtimeErrorCode, type RealtimeEvents, type RealtimeEventType, type RealtimeReply,
+  type RealtimeRequestData, type RealtimeRequestType, type RealtimeServerMessage,
+} from '@shared/realtime';
+
+// The one connection to the realtime endpoint, shared by every component. Requests resolve
+// with their typed reply or reject with a RealtimeRequestError; rooms are rejoined after a
+// reconnect, so callers join once and release when they unmount.
+
+export class RealtimeRequestError extends Error {
+  constructor(message: string, public code: RealtimeErrorCode, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RealtimeRequestError';
+  }
 }
 
-interface WSResponse {
-  type: string;
-  data?: any;
-  requestId?: string;
-  error?: string;
+interface PendingRequest {
+  type: RealtimeRequestType;
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
-interface WebSocketAPIHook {
+interface ConnectionStatus {
   isConnected: boolean;
   isReconnecting: boolean;
-  send: (message: WSMessage) => Promise<WSResponse>;
-  sendWithoutResponse: (message: WSMessage) => void;
-  subscribe: (eventType: string, callback: (data: any) => void) => () => void;
-  disconnect: () => void;
-  reconnect: () => void;
 }
 
-export function useWebSocketAPI(): WebSocketAPIHook {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isReconnecting, setIsReconnecting] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
-  const pendingRequests = useRef<Map<string, { resolve: (value: WSResponse) => void; reject: (error: Error) => void }>>(new Map());
-  const eventListeners = useRef<Map<string, Set<(data: any) => void>>>(new Map());
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 50; // Allow many attempts
-  const baseReconnectDelay = 1000; // Start with 1 second
-  const maxReconnectDelay = 30000; // Max 30 seconds between attempts
-  const heartbeatInterval = useRef<NodeJS.Timeout | null>(null);
-
-  const generateRequestId = useCallback(() => {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
-  }, []);
-
-  const getWebSocketUrl = useCallback(() => {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    return `${protocol}//${window.location.host}/api/ws`;
-  }, []);
+type RoomListener<T> = (reply: T) => void;
+
+const REQUEST_TIMEOUT_MS = 30000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private retains = 0;
+  private nextRequestId = 0;
+  private pending: Map<string, PendingRequest> = new Map();
+  private eventListeners: Map<string, Set<(data: any) => void>> = new Map();
+  private statusListeners: Set<(status: ConnectionStatus) => void> = new Set();
+  private sessionEndedListeners: Set<() => void> = new Set();
+  // Rooms by id, with a listener per join that hears each (re)join's reply
+  private workspaceRooms: Map<number, Set<RoomListener<RealtimeReply<'join_workspace'>>>> = new Map();
+  private pageRooms: Map<number, Set<RoomListener<RealtimeReply<'join_page'>>>> = new Map();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Set once the server said it speaks another protocol; only a reload helps then
+  private unsupported = false;
+  private expectedUserId: string | null = null;
+
+  status: ConnectionStatus = { isConnected: false, isReconnecting: false };
+  // Who the server has this connection signed in as
+  userId: string | null = null;
+
+  // Keeps the connection open while anyone holds it
+  retain(): () => void {
+    this.retains++;
+    if (this.retains === 1) this.connect();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.retains--;
+      if (this.retains === 0) this.close();
+    };
+  }
 
-  const startHeartbeat = useCallback(() => {
-    if (heartbeatInterval.current) {
-      clearInterval(heartbeatInterval.current);
-    }
-    
-    heartbeatInterval.current = setInterval(() => {
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({ type: 'heartbeat' }));
+  request<T extends RealtimeRequestType>(type: T, data: RealtimeRequestData<T>): Promise<RealtimeReply<T>> {
+    return new Promise((resolve, reject) => {
+      if (!this.status.isConnected || !this.socket) {
+        reject(new RealtimeRequestError('Not connected', 'unavailable'));
+        return;
       }
-    }, 30000); // Send heartbeat every 30 seconds
-  }, []);
+      const id = `${++this.nextRequestId}`;
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new RealtimeRequestError('Request timed out', 'unavailable'));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { type, resolve, reject, timer });
+      this.socket.send(JSON.stringify({ id, type, data }));
+    });
+  }
 
-  const stopHeartbeat = useCallback(() => {
-    if (heartbeatInterval.current) {
-      clearInterval(heartbeatInterval.current);
-      heartbeatInterval.current = null;
+  // Fire-and-forget, for messages such as cursor moves that are stale by the time they fail
+  notify<T extends RealtimeRequestType>(type: T, data: RealtimeRequestData<T>) {
+    if (this.status.isConnected && this.socket) {
+      this.socket.send(JSON.stringify({ type, data }));
     }
-  }, []);
+  }
 
-  const connect = useCallback(() => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.CONNECTING) {
-      return;
+  subscribe<E extends RealtimeEventType>(event: E, listener: (data: RealtimeEvents[E]) => void): () => void {
+    let listeners = this.eventListeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
     }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
 
-    try {
-      const wsUrl = getWebSocketUrl();
-      console.log('Connecting to WebSocket:', wsUrl);
-      wsRef.current = new WebSocket(wsUrl);
-
-      wsRef.current.onopen = () => {
-        console.log('WebSocket connected');
-        setIsConnected(true);
-        setIsReconnecting(false);
-        reconnectAttempts.current = 0;
-        startHeartbeat();
-      };
-
-      wsRef.current.onmessage = (event) => {
-        try {
-          const response: WSResponse = JSON.parse(event.data);
-          
-          // Handle responses to pending requests
-          if (response.requestId) {
-            const pending = pendingRequests.current.get(response.requestId);
-            if (pending) {
-              pendingRequests.current.delete(response.requestId);
-              if (response.error) {
-                pending.reject(new Error(response.error));
-              } else {
-                pending.resolve(response);
-              }
-              return;
-            }
-          }
-
-          // Handle broadcast events
-          const listeners = eventListeners.current.get(response.type);
-          if (listeners) {
-            listeners.forEach(callback => {
-              try {
-                callback(response.data);
-              } catch (error) {
-                console.error('Error in event listener:', error);
-              }
-            });
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-
-      wsRef.current.onclose = (event) => {
-        console.log('WebSocket disconnected:', event.code, event.reason);
-        setIsConnected(false);
-        stopHeartbeat();
-        
-        // Reject all pending requests
-        pendingRequests.current.forEach(({ reject }) => {
-          reject(new Error('WebSocket connection closed'));
-        });
-        pendingRequests.current.clear();
-
-        // Auto-reconnect with exponential backoff
-        if (reconnectAttempts.current < maxReconnectAttempts) {
-          const delay = Math.min(
-            baseReconnectDelay * Math.pow(1.5, reconnectAttempts.current),
-            maxReconnectDelay
-          );
-          
-          console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttempts.current + 1}/${maxReconnectAttempts})`);
-          setIsReconnecting(true);
-          reconnectAttempts.current++;
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, delay);
-        } else {
-          console.error('Max reconnection attempts reached');
-          setIsReconnecting(false);
-        }
-      };
-
-      wsRef.current.onerror = (error) => {
-        console.error('WebSocket error:', error);
-      };
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
 
-    } catch (error) {
-      console.error('Error creating WebSocket connection:', error);
-      setIsConnected(false);
-      setIsReconnecting(false);
+  // The session the connection was opened with expired or was revoked
+  onSessionEnded(listener: () => void): () => void {
+    this.sessionEndedListeners.add(listener);
+    return () => {
+      this.sessionEndedListeners.delete(listener);
+    };
+  }
+
+  joinWorkspace(workspaceId: number, onJoined?: RoomListener<RealtimeReply<'join_workspace'>>): () => void {
+    return this.join(this.workspaceRooms, workspaceId, onJoined, () => this.request('join_workspace', { workspaceId }),
+      () => this.notify('leave_workspace', { workspaceId }));
+  }
+
+  joinPage(pageId: number, onJoined?: RoomListener<RealtimeReply<'join_page'>>): () => void {
+    return this.join(this.pageRooms, pageId, onJoined, () => this.request('join_page', { pageId }),
+      () => this.notify('leave_page', { pageId }));
+  }
+
+  // Sockets opened before a browser signed in are anonymous; reopening picks up the session
+  syncUser(userId: string | null) {
+    if (userId === this.expectedUserId) return;
+    this.expectedUserId = userId;
+    if (this.status.isConnected && userId !== this.userId) this.restart();
+  }
+
+  restart() {
+    if (this.retains === 0) return;
+    this.close();
+    this.connect();
+  }
+
+  private join<T>(
+    rooms: Map<number, Set<RoomListener<T>>>, id: number, onJoined: RoomListener<T> | undefined,
+    sendJoin: () => Promise<T>, sendLeave: () => void,
+  ): () => void {
+    // A fresh function per join, so each holder is counted once
+    const listener: RoomListener<T> = (reply) => onJoined?.(reply);
+    let listeners = rooms.get(id);
+    const first = !listeners;
+    if (!listeners) {
+      listeners = new Set();
+      rooms.set(id, listeners);
     }
-  }, [getWebSocketUrl, startHeartbeat, stopHeartbeat]);
+    listeners.add(listener);
 
-  const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
+    if (first) {
+      this.sendJoin(rooms, id, sendJoin);
+    } else if (onJoined && this.status.isConnected) {
+      sendJoin().then(onJoined, (error) => console.warn('Failed to join realtime room:', error));
     }
-    
-    stopHeartbeat();
-    reconnectAttempts.current = maxReconnectAttempts; // Prevent auto-reconnect
-    
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-    
-    setIsConnected(false);
-    setIsReconnecting(false);
-  }, [stopHeartbeat]);
-
-  const reconnect = useCallback(() => {
-    disconnect();
-    reconnectAttempts.current = 0;
-    setTimeout(() => connect(), 100);
-  }, [disconnect, connect]);
-
-  const send = useCallback(async (message: WSMessage): Promise<WSResponse> => {
-    return new Promise((resolve, reject) => {
-      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-        reject(new Error('WebSocket not connected'));
-        return;
-      }
 
-      const requestId = generateRequestId();
-      const messageWithId = { ...message, requestId };
+    return () => {
+      const current = rooms.get(id);
+      if (!current?.delete(listener) || current.size > 0) return;
+      rooms.delete(id);
+      sendLeave();
+    };
+  }
+
+  private sendJoin<T>(rooms: Map<number, Set<RoomListener<T>>>, id: number, sendJoin: () => Promise<T>) {
+    if (!this.status.isConnected) return;
+    sendJoin().then((reply) => {
+      rooms.get(id)?.forEach(listener => listener(reply));
+    }, (error) => {
+      console.warn('Failed to join realtime room:', error);
+    });
+  }
 
-      // Store the promise resolvers
-      pendingRequests.current.set(requestId, { resolve, reject });
+  private rejoin() {
+    Array.from(this.workspaceRooms.keys()).forEach(workspaceId => {
+      this.sendJoin(this.workspaceRooms, workspaceId, () => this.request('join_workspace', { workspaceId }));
+    });
+    Array.from(this.pageRooms.keys()).forEach(pageId => {
+      this.sendJoin(this.pageRooms, pageId, () => this.request('join_page', { pageId }));
+    });
+  }
 
-      // Set timeout for request
-      setTimeout(() => {
-        if (pendingRequests.current.has(requestId)) {
-          pendingRequests.current.delete(requestId);
-          reject(new Error('Request timeout'));
-        }
-      }, 30000); // 30 second timeout
+  private connect() {
+    if (this.socket || this.unsupported) return;
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?v=${REALTIME_PROTOCOL_VERSION}`);
+    this.socket = socket;
 
+    socket.onmessage = (event) => {
+      let message: RealtimeServerMessage;
       try {
-        wsRef.current.send(JSON.stringify(messageWithId));
+        message = JSON.parse(event.data);
       } catch (error) {
-        pendingRequests.current.delete(requestId);
-        reject(error);
+        console.error('Error parsing realtime message:', error);
+        return;
+      }
+      this.receive(message);
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopHeartbeat();
+      this.rejectPending();
+      if (event.code === realtimeCloseCodes.sessionEnded) {
+        this.userId = null;
+        this.sessionEndedListeners.forEach(listener => listener());
+      }
+      if (event.code === realtimeCloseCodes.unsupportedVersion) {
+        console.error('The server speaks another realtime protocol version; reload to update');
+        this.unsupported = true;
+      }
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = (error) => {
+      console.error('Realtime connection error:', error);
+    };
+  }
+
+  private receive(message: RealtimeServerMessage) {
+    switch (message.type) {
+      case 'hello':
+        this.userId = message.userId;
+        this.reconnectAttempts = 0;
+        this.setStatus({ isConnected: true, isReconnecting: false });
+        this.startHeartbeat();
+        this.rejoin();
+        break;
+
+      case 'reply':
+      case 'error': {
+        const pending = message.id ? this.pending.get(message.id) : undefined;
+        if (!pending) {
+          if (message.type === 'error') console.warn('Realtime error:', message.message);
+          break;
+        }
+        this.pending.delete(message.id!);
+        clearTimeout(pending.timer);
+        if (message.type === 'reply') {
+          this.trackSignIn(pending.type, message.data);
+          pending.resolve(message.data);
+        } else {
+          pending.reject(new RealtimeRequestError(message.message, message.code, message.retryAfterMs));
+        }
+        break;
       }
-    });
-  }, [generateRequestId]);
 
-  const sendWithoutResponse = useCallback((message: WSMessage) => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message));
+      case 'event':
+        this.eventListeners.get(message.event)?.forEach(listener => {
+          try {
+            listener(message.data);
+          } catch (error) {
+            console.error('Error in realtime event listener:', error);
+          }
+        });
+        break;
     }
-  }, []);
+  }
+
+  // Signing in over the socket changes who the rooms are joined as
+  private trackSignIn(type: RealtimeRequestType, data: any) {
+    if (type === 'auth_login' || type === 'auth_register') {
+      this.userId = (data as RealtimeReply<'auth_login'>).user.id;
+      this.rejoin();
+    } else if (type === 'auth_logout') {
+      this.userId = null;
+    }
+  }
 
-  const subscribe = useCallback((eventType: string, callback: (data: any) => void) => {
-    if (!eventListeners.current.has(eventType)) {
-      eventListeners.current.set(eventType, new Set());
+  private close() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
-    
-    const listeners = eventListeners.current.get(eventType)!;
-    listeners.add(callback);
+    this.stopHeartbeat();
+    const socket = this.socket;
+    this.socket = null;
+    this.rejectPending();
+    socket?.close();
+    this.setStatus({ isConnected: false, isReconnecting: false });
+  }
+
+  private scheduleReconnect() {
+    if (this.retains === 0 || this.unsupported) {
+      this.setStatus({ isConnected: false, isReconnecting: false });
+      return;
+    }
+    const delay = Math.min(BASE_RECONNECT_DELAY_MS * Math.pow(1.5, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.setStatus({ isConnected: false, isReconnecting: true });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private rejectPending() {
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new RealtimeRequestError('Connection closed', 'unavailable'));
+    });
+    this.pending.clear();
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.request('ping', {}).catch(() => {});
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
 
-    // Return unsubscribe function
-    return () => {
-      listeners.delete(callback);
-      if (listeners.size === 0) {
-        eventListeners.current.delete(eventType);
-      }
-    };
-  }, []);
+  private setStatus(status: ConnectionStatus) {
+    if (status.isConnected === this.status.isConnected && status.isReconnecting === this.status.isReconnecting) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
 
-  useEffect(() => {
-    connect();
+export const realtime = new RealtimeClient();
 
-    // Handle page visibility changes for reconnection
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && !isConnected && !isReconnecting) {
-        reconnect();
-      }
-    };
+if (typeof window !== 'undefined') {
+  // Come back quickly after the laptop wakes or the network returns
+  const retryNow = () => {
+    if (!realtime.status.isConnected) realtime.restart();
+  };
+  window.addEventListener('online', retryNow);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') retryNow();
+  });
+}
 
-    // Handle online/offline events
-    const handleOnline = () => {
-      if (!isConnected && !isReconnecting) {
-        reconnect();
-      }
-    };
+const request = realtime.request.bind(realtime) as RealtimeClient['request'];
+const notify = realtime.notify.bind(realtime) as RealtimeClient['notify'];
+const subscribe = realtime.subscribe.bind(realtime) as RealtimeClient['subscribe'];
+const joinWorkspace = realtime.joinWorkspace.bind(realtime);
+const joinPage = realtime.joinPage.bind(realtime);
+const reconnect = realtime.restart.bind(realtime);
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    window.addEventListener('online', handleOnline);
+// Holds the shared connection open while the component is mounted
+export function useWebSocketAPI() {
+  const [status, setStatus] = useState(realtime.status);
 
+  useEffect(() => {
+    const release = realtime.retain();
+    setStatus(realtime.status);
+    const unsubscribe = realtime.onStatusChange(setStatus);
     return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-      window.removeEventListener('online', handleOnline);
-      disconnect();
+      unsubscribe();
+      release();
     };
   }, []);
 
   return {
-    isConnected,
-    isReconnecting,
-    send,
-    sendWithoutResponse,
+    isConnected: status.isConnected,
+    isReconnecting: status.isReconnecting,
+    request,
+    notify,
     subscribe,
-    disconnect,
-    reconnect
+    joinWorkspace,
+    joinPage,
+    reconnect,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+// Browser side of passkeys: the server sends WebAuthn options with binary fields as
+// base64url strings; these helpers turn them into buffers for navigator.credentials and
+// encode the responses back the same way.
+
+function toBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+function toBase64url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+interface CredentialDescriptorJSON {
+  type: "public-key";
+  id: string;
+  transports?: string[];
+}
+
+function toDescriptor(descriptor: CredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+  return {
+    type: descriptor.type,
+    id: toBuffer(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+export function passkeysSupported(): boolean {
+  return typeof window !== "undefined" && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+export async function createPasskey(options: any) {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      user: { ...options.user, id: toBuffer(options.user.id) },
+      excludeCredentials: options.excludeCredentials?.map(toDescriptor),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No passkey was created");
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    type: "public-key" as const,
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      attestationObject: toBase64url(response.attestationObject),
+      transports: typeof response.getTransports === "function" ? response.getTransports() : [],
+    },
+  };
+}
+
+export async function getPasskey(options: any) {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      allowCredentials: options.allowCredentials?.map(toDescriptor),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No passkey was selected");
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    type: "public-key" as const,
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      authenticatorData: toBase64url(response.authenticatorData),
+      signature: toBase64url(response.signature),
+      userHandle: response.userHandle ? toBase64url(response.userHandle) : null,
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle, KeyRound } from 'lucide-react';
+
+interface ResetPasswordPageProps {
+  token: string;
+}
+
+// Opened from the link in a password reset email, before anyone is signed in, so it
+// talks to the server with plain fetch
+export function ResetPasswordPage({ token }: ResetPasswordPageProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/password/reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ token, password }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setDone(body.message ?? 'Your password was changed.');
+      } else {
+        setError(body.message ?? 'Could not change the password');
+      }
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center gap-2">
+            {done ? <CheckCircle className="h-6 w-6 text-green-600" /> : <KeyRound className="h-6 w-6 text-muted-foreground" />}
+            <h1 className="text-xl font-semibold text-gray-900">{done ? 'Password changed' : 'Choose a new password'}</h1>
+          </div>
+          {done ? (
+            <>
+              <p className="text-sm text-gray-600">{done} You were signed out on all your devices.</p>
+              <Button className="w-full" onClick={() => window.location.assign('/')}>Sign in</Button>
+            </>
+          ) : (
+            <form onSubmit={submit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">New password</Label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm-password">Confirm password</Label>
+                <Input
+                  id="reset-confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={saving || password.length < 8}>
+                {saving ? 'Saving...' : 'Change password'}
+              </Button>
+              <p className="text-xs text-muted-foreground">Use at least 8 characters.</p>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
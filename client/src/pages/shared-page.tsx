@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, ChevronRight, Clock, Database, Download, FileText, Lock } from 'lucide-react';
+import { splitMentions } from '@shared/mentions';
+import type { BlockContent, SharedPageNode, SharedPageView } from '@shared/schema';
+
+interface SharedPageProps {
+  token: string;
+}
+
+interface ShareProblem {
+  status: number;
+  message: string;
+  code?: 'password_required' | 'login_required' | 'expired';
+}
+
+type SharedBlock = SharedPageView['blocks'][number];
+
+function parseContent(block: SharedBlock): BlockContent {
+  if (!block.content) return {};
+  try {
+    return JSON.parse(block.content);
+  } catch {
+    return {};
+  }
+}
+
+// Mentions read as their labels; links into the workspace would not open for visitors
+function PlainMentionText({ text }: { text: string }) {
+  return (
+    <>
+      {splitMentions(text).map((part, index) => typeof part === 'string'
+        ? <span key={index}>{part}</span>
+        : <span key={index} className="rounded bg-muted px-1">{part.type === 'user' ? `@${part.label}` : part.label}</span>
+      )}
+    </>
+  );
+}
+
+function SharedBlockView({ block }: { block: SharedBlock }) {
+  const content = parseContent(block);
+  const text = content.text ?? '';
+
+  switch (block.type) {
+    case 'heading1':
+      return <h1 className="text-3xl font-bold mt-6 mb-2"><PlainMentionText text={text} /></h1>;
+    case 'heading2':
+      return <h2 className="text-2xl font-semibold mt-5 mb-2"><PlainMentionText text={text} /></h2>;
+    case 'heading3':
+      return <h3 className="text-xl font-medium mt-4 mb-1"><PlainMentionText text={text} /></h3>;
+    case 'bullet-list':
+      return (
+        <div className="flex items-start space-x-2 py-0.5">
+          <span className="mt-2.5 w-1 h-1 bg-foreground rounded-full flex-shrink-0"></span>
+          <p className="flex-1 whitespace-pre-wrap"><PlainMentionText text={text} /></p>
+        </div>
+      );
+    case 'todo':
+      return (
+        <div className="flex items-start space-x-2 py-0.5">
+          <input type="checkbox" checked={!!content.checked} readOnly disabled className="mt-1.5 rounded border-gray-300" />
+          <p className={`flex-1 whitespace-pre-wrap ${content.checked ? 'line-through text-muted-foreground' : ''}`}>
+            <PlainMentionText text={text} />
+          </p>
+        </div>
+      );
+    case 'code':
+      return <pre className="bg-muted rounded-md p-3 font-mono text-sm overflow-x-auto my-1">{text}</pre>;
+    case 'quote':
+      return (
+        <blockquote className="border-l-4 border-foreground/30 pl-3 italic my-1 whitespace-pre-wrap">
+          <PlainMentionText text={text} />
+        </blockquote>
+      );
+    case 'file':
+      // Files stay behind the workspace login, so only the name is shown
+      return (
+        <div className="flex items-center space-x-2 rounded-md border px-3 py-2 my-1 text-sm text-muted-foreground">
+          <FileText className="h-4 w-4" />
+          <span className="truncate">{content.title || 'File'}</span>
+          {content.caption && <span className="text-xs">{content.caption}</span>}
+        </div>
+      );
+    case 'divider':
+      return <hr className="border-border my-3" />;
+    case 'database':
+      return (
+        <div className="flex items-center space-x-2 rounded-md border p-3 my-1 text-sm text-muted-foreground">
+          <Database className="h-4 w-4" />
+          <span>Databases are not included in shared pages</span>
+        </div>
+      );
+    default:
+      return text
+        ? <p className="py-0.5 whitespace-pre-wrap"><PlainMentionText text={text} /></p>
+        : <div className="h-6" />;
+  }
+}
+
+function PageTree({ node, currentId, onOpen, depth = 0 }: {
+  node: SharedPageNode;
+  currentId: number;
+  onOpen: (pageId: number) => void;
+  depth?: number;
+}) {
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => onOpen(node.id)}
+        className={`flex w-full items-center space-x-2 rounded px-2 py-1 text-left text-sm ${
+          node.id === currentId ? 'bg-accent font-medium' : 'hover:bg-accent/50'
+        }`}
+        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+      >
+        {node.children.length > 0 ? <ChevronRight className="h-3 w-3 shrink-0" /> : <span className="w-3" />}
+        {node.icon ? <span>{node.icon}</span> : <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />}
+        <span className="truncate">{node.title || 'Untitled'}</span>
+      </button>
+      {node.children.map(child => (
+        <PageTree key={child.id} node={child} currentId={currentId} onOpen={onOpen} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+function Message({ icon: Icon, title, children }: { icon: typeof AlertCircle; title: string; children?: React.ReactNode }) {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <Icon className="h-6 w-6 text-muted-foreground" />
+            <h1 className="text-xl font-semibold text-gray-900">{title}</h1>
+          </div>
+          {children}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Read-only view of a page shared by link. Lives outside the signed-in app, so it talks
+// to /api/shared with plain fetch; the session cookie still goes along for workspace and
+// private links.
+export function SharedPage({ token }: SharedPageProps) {
+  const [view, setView] = useState<SharedPageView | null>(null);
+  const [problem, setProblem] = useState<ShareProblem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState('');
+  const [passwordInput, setPasswordInput] = useState('');
+  const [pageId, setPageId] = useState<number | null>(() => {
+    const requested = new URLSearchParams(window.location.search).get('page');
+    return requested ? parseInt(requested) : null;
+  });
+
+  const headers = useCallback((): Record<string, string> => password ? { 'X-Share-Password': password } : {}, [password]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const query = pageId ? `?pageId=${pageId}` : '';
+        const response = await fetch(`/api/shared/${encodeURIComponent(token)}${query}`, {
+          headers: headers(),
+          credentials: 'include',
+        });
+        const body = await response.json().catch(() => ({}));
+        if (cancelled) return;
+        if (response.ok) {
+          setView(body);
+          setProblem(null);
+        } else {
+          setProblem({ status: response.status, message: body.error ?? 'Could not open this link', code: body.code });
+        }
+      } catch {
+        if (!cancelled) setProblem({ status: 0, message: 'Could not reach the server' });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [token, pageId, headers]);
+
+  const openPage = (id: number) => {
+    const url = new URL(window.location.href);
+    if (view && id === view.tree.id) {
+      url.searchParams.delete('page');
+    } else {
+      url.searchParams.set('page', String(id));
+    }
+    window.history.replaceState(null, '', url.toString());
+    setPageId(id);
+  };
+
+  const download = async () => {
+    const response = await fetch(`/api/shared/${encodeURIComponent(token)}/export`, {
+      headers: headers(),
+      credentials: 'include',
+    });
+    if (!response.ok) return;
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'export.zip';
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading && !view && !problem) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black"></div>
+      </div>
+    );
+  }
+
+  if (problem?.code === 'password_required') {
+    return (
+      <Message icon={Lock} title="Password required">
+        <p className="text-sm text-gray-600">
+          {problem.status === 429
+            ? problem.message
+            : password ? 'That password is not right. Try again.' : 'Enter the password to open this page.'}
+        </p>
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setPassword(passwordInput);
+          }}
+        >
+          <Input type="password" value={passwordInput} onChange={(e) => setPasswordInput(e.target.value)} autoFocus />
+          <Button type="submit" disabled={!passwordInput || loading}>Open</Button>
+        </form>
+      </Message>
+    );
+  }
+
+  if (problem?.code === 'expired') {
+    return (
+      <Message icon={Clock} title="Link expired">
+        <p className="text-sm text-gray-600">Ask the person who shared it for a new link.</p>
+      </Message>
+    );
+  }
+
+  if (problem?.code === 'login_required') {
+    return (
+      <Message icon={Lock} title="Sign in required">
+        <p className="text-sm text-gray-600">{problem.message}.</p>
+        <Button onClick={() => window.location.assign('/')}>Sign in</Button>
+      </Message>
+    );
+  }
+
+  if (problem || !view) {
+    return (
+      <Message icon={AlertCircle} title="Page unavailable">
+        <p className="text-sm text-gray-600">{problem?.message ?? 'This link does not work any more.'}</p>
+      </Message>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex">
+      {view.tree.children.length > 0 && (
+        <aside className="w-64 shrink-0 border-r p-3 space-y-1 hidden md:block">
+          <PageTree node={view.tree} currentId={view.page.id} onOpen={openPage} />
+        </aside>
+      )}
+      <main className="flex-1 min-w-0">
+        {view.page.cover && (
+          <div className="h-48 bg-cover bg-center" style={{ backgroundImage: `url(${view.page.cover})` }} />
+        )}
+        <div className="max-w-3xl mx-auto px-6 py-10">
+          <div className="flex items-start justify-between mb-6">
+            <h1 className="text-4xl font-bold">
+              {view.page.icon && <span className="mr-3">{view.page.icon}</span>}
+              {view.page.title || 'Untitled'}
+            </h1>
+            {view.share.allowDownload && (
+              <Button variant="outline" size="sm" onClick={download}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </div>
+          <div className={loading ? 'opacity-60' : ''}>
+            {view.blocks.map(block => (
+              <SharedBlockView key={block.id} block={block} />
+            ))}
+          </div>
+          {view.page.updatedAt && (
+            <p className="mt-10 text-xs text-muted-foreground">
+              Last updated {new Date(view.page.updatedAt).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
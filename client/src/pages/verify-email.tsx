@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+
+interface VerifyEmailPageProps {
+  token: string;
+}
+
+type VerifyState = { status: 'checking' } | { status: 'confirmed' | 'failed'; message: string };
+
+// Opened from the link in a verification email; confirms the address as soon as it loads
+export function VerifyEmailPage({ token }: VerifyEmailPageProps) {
+  const [state, setState] = useState<VerifyState>({ status: 'checking' });
+
+  useEffect(() => {
+    let cancelled = false;
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ token }),
+        });
+        const body = await response.json().catch(() => ({}));
+        if (cancelled) return;
+        setState(response.ok
+          ? { status: 'confirmed', message: body.message ?? 'Your email address is confirmed.' }
+          : { status: 'failed', message: body.message ?? 'Could not confirm your email address' });
+      } catch {
+        if (!cancelled) setState({ status: 'failed', message: 'Could not reach the server' });
+      }
+    };
+    verify();
+    return () => { cancelled = true; };
+  }, [token]);
+
+  if (state.status === 'checking') {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black"></div>
+      </div>
+    );
+  }
+
+  const Icon = state.status === 'confirmed' ? CheckCircle : AlertCircle;
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <Icon className={`h-6 w-6 ${state.status === 'confirmed' ? 'text-green-600' : 'text-muted-foreground'}`} />
+            <h1 className="text-xl font-semibold text-gray-900">
+              {state.status === 'confirmed' ? 'Email confirmed' : 'Link not valid'}
+            </h1>
+          </div>
+          <p className="text-sm text-gray-600">{state.message}</p>
+          <Button className="w-full" onClick={() => window.location.assign('/')}>Continue</Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
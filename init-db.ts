@@ -24,11 +24,63 @@ db.exec(`
     gmail_refresh_token TEXT,
     gmail_access_token TEXT,
     gmail_token_expiry INTEGER,
+    last_digest_at INTEGER,
+    email_verified_at INTEGER,
+    failed_login_count INTEGER DEFAULT 0,
+    locked_until INTEGER,
     created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
     updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
   )
 `);
 
+// Notification digests were added after the users table first shipped
+const userColumns = db.prepare(`PRAGMA table_info(users)`).all() as { name: string }[];
+if (!userColumns.some(column => column.name === 'last_digest_at')) {
+  db.exec(`ALTER TABLE users ADD COLUMN last_digest_at INTEGER`);
+}
+
+// Email verification and sign-in lockout
+for (const column of ['email_verified_at INTEGER', 'failed_login_count INTEGER DEFAULT 0', 'locked_until INTEGER']) {
+  if (!userColumns.some(existing => existing.name === column.split(' ')[0])) {
+    db.exec(`ALTER TABLE users ADD COLUMN ${column}`);
+  }
+}
+
+// Create user_mfa table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS user_mfa (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL UNIQUE,
+    secret TEXT NOT NULL,
+    backup_codes TEXT DEFAULT '[]',
+    is_enabled INTEGER DEFAULT 0,
+    last_used INTEGER,
+    last_counter INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+// Create webauthn_credentials table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS webauthn_credentials (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count INTEGER NOT NULL DEFAULT 0,
+    transports TEXT DEFAULT '[]',
+    aaguid TEXT,
+    name TEXT NOT NULL,
+    backed_up INTEGER DEFAULT 0,
+    last_used_at INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user ON webauthn_credentials (user_id)`);
+
 // Create workspaces table
 db.exec(`
   CREATE TABLE IF NOT EXISTS workspaces (
@@ -63,6 +115,7 @@ db.exec(`
     properties TEXT,
     is_template INTEGER DEFAULT 0,
     template_id INTEGER,
+    database_id INTEGER,
     is_favorite INTEGER DEFAULT 0,
     is_archived INTEGER DEFAULT 0,
     is_deleted INTEGER DEFAULT 0,
@@ -72,6 +125,14 @@ db.exec(`
   )
 `);
 
+// Databases were added after the pages table first shipped
+const pageColumns = db.prepare(`PRAGMA table_info(pages)`).all() as { name: string }[];
+if (!pageColumns.some(column => column.name === 'database_id')) {
+  db.exec(`ALTER TABLE pages ADD COLUMN database_id INTEGER`);
+}
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_pages_database ON pages (database_id)`);
+
 // Create blocks table
 db.exec(`
   CREATE TABLE IF NOT EXISTS blocks (
@@ -89,6 +150,381 @@ db.exec(`
   )
 `);
 
+// Create page_revisions table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS page_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    page_id INTEGER NOT NULL,
+    workspace_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    icon TEXT,
+    cover TEXT,
+    properties TEXT,
+    blocks TEXT NOT NULL,
+    reason TEXT NOT NULL DEFAULT 'edit',
+    restored_from INTEGER,
+    created_by TEXT NOT NULL,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_page_revisions_page ON page_revisions (page_id, created_at)`);
+
+// Create databases table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS databases (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id INTEGER NOT NULL,
+    page_id INTEGER NOT NULL,
+    block_id INTEGER,
+    title TEXT NOT NULL,
+    is_inline INTEGER DEFAULT 0,
+    properties TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+// Create database_views table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS database_views (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    database_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'table',
+    filter TEXT,
+    sorts TEXT DEFAULT '[]',
+    group_by TEXT,
+    date_property TEXT,
+    visible_properties TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_by TEXT NOT NULL,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+// Create comments table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    page_id INTEGER,
+    block_id INTEGER,
+    content TEXT NOT NULL,
+    author_id TEXT NOT NULL,
+    parent_id INTEGER,
+    is_resolved INTEGER DEFAULT 0,
+    resolved_by TEXT,
+    resolved_at INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_comments_page ON comments (page_id, created_at)`);
+
+// Create calendar events table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS calendar_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    description TEXT,
+    start_date INTEGER NOT NULL,
+    end_date INTEGER NOT NULL,
+    location TEXT,
+    type TEXT NOT NULL,
+    attendees TEXT DEFAULT '[]',
+    workspace_id INTEGER NOT NULL,
+    page_id INTEGER,
+    uid TEXT,
+    created_by TEXT NOT NULL,
+    is_all_day INTEGER DEFAULT 0,
+    recurrence TEXT DEFAULT 'none',
+    timezone TEXT,
+    status TEXT DEFAULT 'confirmed',
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+// Imported events remember their iCalendar UID so re-imports update them
+const calendarColumns = db.prepare(`PRAGMA table_info(calendar_events)`).all() as { name: string }[];
+if (!calendarColumns.some(column => column.name === 'uid')) {
+  db.exec(`ALTER TABLE calendar_events ADD COLUMN uid TEXT`);
+}
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_calendar_events_workspace ON calendar_events (workspace_id, start_date)`);
+db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_uid ON calendar_events (workspace_id, uid) WHERE uid IS NOT NULL`);
+
+// Create email tables
+db.exec(`
+  CREATE TABLE IF NOT EXISTS email_accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL UNIQUE,
+    workspace_id INTEGER NOT NULL,
+    provider TEXT NOT NULL,
+    address TEXT NOT NULL,
+    display_name TEXT,
+    imap_host TEXT,
+    imap_port INTEGER,
+    imap_secure INTEGER DEFAULT 1,
+    smtp_host TEXT,
+    smtp_port INTEGER,
+    smtp_secure INTEGER DEFAULT 1,
+    username TEXT,
+    password TEXT,
+    last_synced_at INTEGER,
+    last_error TEXT,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS email_threads (
+    id TEXT PRIMARY KEY,
+    gmail_thread_id TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    participants TEXT DEFAULT '[]',
+    message_count INTEGER DEFAULT 1,
+    last_message_date INTEGER NOT NULL,
+    is_read INTEGER DEFAULT 0,
+    is_starred INTEGER DEFAULT 0,
+    labels TEXT DEFAULT '[]',
+    workspace_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    sync_version TEXT,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS email_messages (
+    id TEXT PRIMARY KEY,
+    gmail_message_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    from_email TEXT NOT NULL,
+    to_emails TEXT DEFAULT '[]',
+    cc_emails TEXT DEFAULT '[]',
+    bcc_emails TEXT DEFAULT '[]',
+    message_id_header TEXT,
+    reference_ids TEXT DEFAULT '[]',
+    date INTEGER NOT NULL,
+    is_read INTEGER DEFAULT 0,
+    is_starred INTEGER DEFAULT 0,
+    labels TEXT DEFAULT '[]',
+    attachments TEXT DEFAULT '[]',
+    workspace_id INTEGER NOT NULL,
+    related_page_id INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_email_threads_remote ON email_threads (user_id, gmail_thread_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_email_threads_date ON email_threads (user_id, last_message_date)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_email_messages_thread ON email_messages (thread_id, date)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_email_messages_remote ON email_messages (gmail_message_id)`);
+
+// Create page shares table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS page_shares (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    page_id INTEGER NOT NULL,
+    shared_by TEXT NOT NULL,
+    shared_with TEXT,
+    share_type TEXT NOT NULL,
+    permissions TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    password TEXT,
+    expires_at INTEGER,
+    allow_download INTEGER DEFAULT 0,
+    allow_comments INTEGER DEFAULT 1,
+    is_active INTEGER DEFAULT 1,
+    view_count INTEGER DEFAULT 0,
+    last_accessed INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_page_shares_page ON page_shares (page_id)`);
+
+// Create workspace groups tables
+db.exec(`
+  CREATE TABLE IF NOT EXISTS workspace_groups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_by TEXT NOT NULL,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS workspace_group_members (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    added_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    UNIQUE (group_id, user_id)
+  )
+`);
+
+// Create mentions table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS mentions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id INTEGER NOT NULL,
+    source_page_id INTEGER NOT NULL,
+    source_block_id INTEGER NOT NULL,
+    target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_mentions_source ON mentions (source_page_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_mentions_target ON mentions (target_type, target_id)`);
+
+// Create notifications table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    workspace_id INTEGER,
+    actor_id TEXT,
+    title TEXT NOT NULL,
+    message TEXT,
+    url TEXT,
+    data TEXT,
+    is_read INTEGER DEFAULT 0,
+    email_status TEXT,
+    emailed_at INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+// Delivery columns for the notification dispatcher
+const notificationColumns = db.prepare(`PRAGMA table_info(notifications)`).all() as { name: string }[];
+for (const column of ['workspace_id INTEGER', 'actor_id TEXT', 'url TEXT', 'email_status TEXT', 'emailed_at INTEGER']) {
+  if (!notificationColumns.some(existing => existing.name === column.split(' ')[0])) {
+    db.exec(`ALTER TABLE notifications ADD COLUMN ${column}`);
+  }
+}
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications (user_id, created_at)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_notifications_email ON notifications (email_status)`);
+
+// Reminders and due dates; pending rows are the scheduler's queue
+db.exec(`
+  CREATE TABLE IF NOT EXISTS reminders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id INTEGER NOT NULL,
+    page_id INTEGER NOT NULL,
+    block_id INTEGER,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'reminder',
+    date TEXT NOT NULL,
+    time TEXT,
+    note TEXT,
+    remind_at INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    sent_at INTEGER,
+    created_by TEXT NOT NULL,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_reminders_due ON reminders (status, remind_at)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_reminders_page ON reminders (page_id)`);
+
+// Create activities table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS activities (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    resource_type TEXT NOT NULL,
+    resource_id TEXT NOT NULL,
+    metadata TEXT,
+    ip_address TEXT,
+    seq INTEGER,
+    prev_hash TEXT,
+    hash TEXT,
+    created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+  )
+`);
+
+// Audit chain columns; entries logged before them are chained on the next write
+const activityColumns = db.prepare(`PRAGMA table_info(activities)`).all() as { name: string }[];
+for (const column of ['ip_address TEXT', 'seq INTEGER', 'prev_hash TEXT', 'hash TEXT']) {
+  if (!activityColumns.some(existing => existing.name === column.split(' ')[0])) {
+    db.exec(`ALTER TABLE activities ADD COLUMN ${column}`);
+  }
+}
+
+// Unchained entries still use the old action names; move them to the audit vocabulary
+const legacyActions: [string, string, string][] = [
+  ['created', 'page', 'page.created'],
+  ['deleted', 'page', 'page.deleted'],
+  ['restored', 'page', 'page.revision_restored'],
+  ['imported', 'page', 'page.imported'],
+  ['commented', 'page', 'comment.created'],
+  ['permissions_changed', 'page', 'page.permissions_changed'],
+  ['page_shared', 'page', 'page.shared'],
+  ['page_unshared', 'page', 'page.unshared'],
+  ['email_added', 'page', 'page.email_added'],
+  ['created', 'database', 'database.created'],
+  ['deleted', 'database', 'database.deleted'],
+  ['event_created', 'calendar_event', 'calendar_event.created'],
+  ['event_updated', 'calendar_event', 'calendar_event.updated'],
+  ['event_deleted', 'calendar_event', 'calendar_event.deleted'],
+  ['calendar_imported', 'calendar_event', 'calendar.imported'],
+];
+const renameAction = db.prepare(`UPDATE activities SET action = ? WHERE action = ? AND resource_type = ? AND hash IS NULL`);
+for (const [action, resourceType, renamed] of legacyActions) {
+  renameAction.run(renamed, action, resourceType);
+}
+
+db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_activities_chain ON activities (workspace_id, seq) WHERE seq IS NOT NULL`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS audit_anchors (
+    workspace_id INTEGER PRIMARY KEY,
+    seq INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    pruned_at INTEGER NOT NULL
+  )
+`);
+
+// Create page_views table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS page_views (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    page_id INTEGER NOT NULL,
+    workspace_id INTEGER NOT NULL,
+    user_id TEXT,
+    source TEXT NOT NULL DEFAULT 'app',
+    viewed_at INTEGER NOT NULL
+  )
+`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_page_views_workspace ON page_views (workspace_id, viewed_at)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_page_views_page_user ON page_views (page_id, user_id, viewed_at)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_activities_workspace ON activities (workspace_id, created_at)`);
+
 // Create workspace_members table
 db.exec(`
   CREATE TABLE IF NOT EXISTS workspace_members (
@@ -106,9 +542,25 @@ db.exec(`
   CREATE TABLE IF NOT EXISTS sessions (
     sid TEXT PRIMARY KEY,
     sess TEXT NOT NULL,
-    expire INTEGER NOT NULL
+    expire INTEGER NOT NULL,
+    user_id TEXT,
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at INTEGER,
+    last_seen_at INTEGER
   )
 `);
 
+// Sessions record who and where for the session list
+const sessionColumns = db.prepare(`PRAGMA table_info(sessions)`).all() as { name: string }[];
+for (const column of ['user_id TEXT', 'ip_address TEXT', 'user_agent TEXT', 'created_at INTEGER', 'last_seen_at INTEGER']) {
+  if (!sessionColumns.some(existing => existing.name === column.split(' ')[0])) {
+    db.exec(`ALTER TABLE sessions ADD COLUMN ${column}`);
+  }
+}
+
+db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_expire ON sessions (expire)`);
+
 console.log('Database initialized successfully!');
 db.close();
\ No newline at end of file
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { storage } from './storage';
+import { sessionSecret } from './session-store';
+import { toAuthor } from './comments';
+import { appUrl, sendSystemEmail } from './mailer';
+import { escapeHtml } from './mime';
+import {
+  forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema,
+  type Session, type SessionView, type User,
+} from '@shared/schema';
+
+// Password sign-in protection and account recovery: progressive lockout per account,
+// rate limits per client address, signed links for email verification and password
+// resets, and the list of signed-in sessions.
+
+export class AccountError extends Error {
+  constructor(message: string, public status: number = 400, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Five wrong passwords in a row lock the account for a minute; every further miss
+// doubles the wait, up to an hour
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = MINUTE_MS;
+const LOCKOUT_MAX_MS = HOUR_MS;
+
+const VERIFY_TOKEN_TTL_MS = 48 * HOUR_MS;
+const RESET_TOKEN_TTL_MS = HOUR_MS;
+
+type TokenPurpose = 'verify' | 'reset';
+
+// Fixed-window counters kept in memory; a restart forgets them, which only ever lets a
+// few extra attempts through
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Counts an attempt; returns how long to wait when the limit was already reached, else 0
+  hit(key: string): number {
+    const now = Date.now();
+    if (this.windows.size > 10000) {
+      this.windows.forEach((window, windowKey) => {
+        if (window.resetAt <= now) this.windows.delete(windowKey);
+      });
+    }
+    const window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return 0;
+    }
+    if (window.count >= this.limit) return window.resetAt - now;
+    window.count += 1;
+    return 0;
+  }
+
+  // Takes back an attempt hit() counted, once it turned out to be a good one
+  release(key: string) {
+    const window = this.windows.get(key);
+    if (window && window.resetAt > Date.now() && window.count > 0) window.count -= 1;
+  }
+}
+
+const limiters = {
+  login: new RateLimiter(30, 15 * MINUTE_MS),
+  register: new RateLimiter(10, HOUR_MS),
+  resetByAddress: new RateLimiter(10, HOUR_MS),
+  resetByAccount: new RateLimiter(3, HOUR_MS),
+  verification: new RateLimiter(3, HOUR_MS),
+};
+
+export function waitText(ms: number): string {
+  const minutes = Math.ceil(ms / MINUTE_MS);
+  return minutes <= 1 ? 'a minute' : `${minutes} minutes`;
+}
+
+function limit(limiter: RateLimiter, key: string, message: string) {
+  const wait = limiter.hit(key);
+  if (wait > 0) {
+    throw new AccountError(`${message} Try again in ${waitText(wait)}.`, 429, wait);
+  }
+}
+
+export function limitRegistration(ipAddress: string | null) {
+  limit(limiters.register, ipAddress ?? 'unknown', 'Too many accounts were created from this network.');
+}
+
+// Checked before the password is: both the client address and a locked account stop here
+export function checkLoginAllowed(user: User | undefined, ipAddress: string | null) {
+  limit(limiters.login, ipAddress ?? 'unknown', 'Too many sign-in attempts from this network.');
+  const lockedFor = (user?.lockedUntil ?? 0) - Date.now();
+  if (lockedFor > 0) {
+    throw new AccountError(
+      `Too many failed sign-ins. Try again in ${waitText(lockedFor)} or reset your password.`, 429, lockedFor
+    );
+  }
+}
+
+// A wrong password or second-factor code
+export async function recordLoginFailure(user: User) {
+  const failures = (user.failedLoginCount ?? 0) + 1;
+  const lockMs = failures >= LOCKOUT_THRESHOLD
+    ? Math.min(LOCKOUT_MAX_MS, LOCKOUT_BASE_MS * 2 ** (failures - LOCKOUT_THRESHOLD))
+    : 0;
+  await storage.updateUser(user.id, {
+    failedLoginCount: failures,
+    lockedUntil: lockMs > 0 ? Date.now() + lockMs : user.lockedUntil,
+  });
+}
+
+export async function recordLoginSuccess(user: User) {
+  if (user.failedLoginCount || user.lockedUntil) {
+    await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null });
+  }
+}
+
+// Links are `payload.signature`. The payload carries a stamp of what the link is about -
+// the address for verification, the current password hash for resets - so a reset link
+// stops working once it has been used and a verification link once the address changes.
+function tokenKey(): Buffer {
+  const secret = sessionSecret();
+  return crypto.createHash('sha256').update(`account-token:${secret}`).digest();
+}
+
+function tokenStamp(purpose: TokenPurpose, user: User): string {
+  const subject = purpose === 'verify' ? user.email ?? '' : user.password ?? '';
+  return crypto.createHash('sha256').update(`${purpose}:${subject}`).digest('base64url').slice(0, 16);
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', tokenKey()).update(payload).digest('base64url');
+}
+
+function createToken(purpose: TokenPurpose, user: User, ttlMs: number): string {
+  const payload = Buffer.from(
+    JSON.stringify({ p: purpose, u: user.id, e: Date.now() + ttlMs, s: tokenStamp(purpose, user) })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+async function readToken(purpose: TokenPurpose, token: string): Promise<User> {
+  const invalid = purpose === 'verify'
+    ? new AccountError('This verification link is not valid. Request a new one from your settings.')
+    : new AccountError('This reset link is not valid or was already used. Request a new one.');
+  const [payload, signature] = token.trim().split('.');
+  if (!payload || !signature) throw invalid;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) throw invalid;
+
+  let claims: { p?: string; u?: string; e?: number; s?: string };
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw invalid;
+  }
+  if (claims.p !== purpose || typeof claims.u !== 'string') throw invalid;
+  if (typeof claims.e !== 'number' || claims.e < Date.now()) {
+    throw new AccountError(purpose === 'verify'
+      ? 'This verification link has expired. Request a new one from your settings.'
+      : 'This reset link has expired. Request a new one.', 410);
+  }
+  const user = await storage.getUser(claims.u);
+  if (!user || claims.s !== tokenStamp(purpose, user)) throw invalid;
+  return user;
+}
+
+function accountEmail(user: User, subject: string, intro: string, action: string, link: string, outro: string) {
+  return {
+    to: { name: toAuthor(user.id, user).name, address: user.email! },
+    subject,
+    text: `${intro}\n\n${action}: ${link}\n\n${outro}`,
+    html: [
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(action)}</a></p>`,
+      `<p style="color: #888">${escapeHtml(outro)}</p>`,
+    ].join(''),
+  };
+}
+
+export async function sendVerificationEmail(user: User) {
+  if (!user.email) throw new AccountError('Your account has no email address');
+  const link = appUrl(`/verify-email?token=${encodeURIComponent(createToken('verify', user, VERIFY_TOKEN_TTL_MS))}`);
+  await sendSystemEmail(accountEmail(
+    user,
+    'Confirm your email address',
+    `Confirm that ${user.email} is your address to finish setting up your account.`,
+    'Confirm email',
+    link,
+    'The link works for 48 hours. If you did not create an account you can ignore this email.'
+  ));
+}
+
+// Verification mail after sign-up; sign-up itself goes through even if it cannot be sent
+export async function sendVerificationEmailQuietly(user: User) {
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    console.error(`Error sending verification email to user ${user.id}:`, error);
+  }
+}
+
+export async function resendVerificationEmail(userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) throw new AccountError('User not found', 404);
+  if (user.emailVerifiedAt) throw new AccountError('Your email address is already confirmed', 409);
+  limit(limiters.verification, user.id, 'Too many verification emails were sent.');
+  await sendVerificationEmail(user);
+}
+
+export async function verifyEmail(input: unknown): Promise<User> {
+  const parsed = verifyEmailSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AccountError(parsed.error.issues[0]?.message ?? 'Invalid verification link');
+  }
+  const user = await readToken('verify', parsed.data.token);
+  if (user.emailVerifiedAt) return user;
+  return (await storage.updateUser(user.id, { emailVerifiedAt: Date.now() }))!;
+}
+
+// Answers the same whether or not the address has an account, so the form cannot be used
+// to find out who is signed up
+export async function requestPasswordReset(input: unknown, ipAddress: string | null) {
+  const parsed = forgotPasswordSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AccountError(parsed.error.issues[0]?.message ?? 'Invalid email address');
+  }
+  limit(limiters.resetByAddress, ipAddress ?? 'unknown', 'Too many reset requests from this network.');
+
+  const user = await storage.getUserByUsernameOrEmail(parsed.data.email);
+  if (!user?.email || user.email.toLowerCase() !== parsed.data.email.toLowerCase()) return;
+  if (limiters.resetByAccount.hit(user.id) > 0) return;
+
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(createToken('reset', user, RESET_TOKEN_TTL_MS))}`);
+  await sendSystemEmail(accountEmail(
+    user,
+    'Reset your password',
+    `Someone asked to reset the password for ${user.email}.`,
+    'Choose a new password',
+    link,
+    'The link works for one hour and only once. If you did not ask for this you can ignore this email; your password stays the same.'
+  ));
+}
+
+// A reset also proves the address, lifts any lockout and signs the account out everywhere
+export async function resetPassword(input: unknown): Promise<User> {
+  const parsed = resetPasswordSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AccountError(parsed.error.issues[0]?.message ?? 'Invalid password');
+  }
+  const user = await readToken('reset', parsed.data.token);
+  const updated = await storage.updateUser(user.id, {
+    password: await bcrypt.hash(parsed.data.password, 10),
+    failedLoginCount: 0,
+    lockedUntil: null,
+    emailVerifiedAt: user.emailVerifiedAt ?? Date.now(),
+  });
+  await storage.deleteUserSessions(user.id);
+  return updated!;
+}
+
+// Session ids are bearer secrets, so the list refers to sessions by a hash of theirs
+function publicSessionId(sid: string): string {
+  return crypto.createHash('sha256').update(sid).digest('base64url').slice(0, 22);
+}
+
+function toSessionView(row: Session, currentSid: string): SessionView {
+  return {
+    id: publicSessionId(row.sid),
+    current: row.sid === currentSid,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+    createdAt: row.createdAt,
+    lastSeenAt: row.lastSeenAt,
+    expiresAt: row.expire,
+  };
+}
+
+export async function listSessions(userId: string, currentSid: string): Promise<SessionView[]> {
+  const rows = await storage.getUserSessions(userId);
+  return rows.map(row => toSessionView(row, currentSid));
+}
+
+export async function revokeSession(userId: string, id: string, currentSid: string) {
+  const rows = await storage.getUserSessions(userId);
+  const row = rows.find(candidate => publicSessionId(candidate.sid) === id);
+  if (!row) throw new AccountError('Session not found', 404);
+  if (row.sid === currentSid) throw new AccountError('Sign out to end the session you are using');
+  await storage.deleteSession(row.sid);
+}
+
+export async function revokeOtherSessions(userId: string, currentSid: string): Promise<number> {
+  return await storage.deleteUserSessions(userId, currentSid);
+}
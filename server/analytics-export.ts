@@ -0,0 +1,335 @@
+import { storage } from './storage';
+import { toAuthor } from './comments';
+import { toWallTime } from './calendar';
+import { renderPdf, type PdfBlock } from './pdf';
+import {
+  AnalyticsError, resolveRange, requireManager, managedWorkspaces, buildWorkspaceReport, type ResolvedRange,
+} from './analytics';
+import {
+  analyticsExportSchema,
+  type AnalyticsRange, type MemberContribution, type User, type Workspace, type WorkspaceAnalyticsReport,
+} from '@shared/schema';
+
+// Downloadable analytics reports: the dashboard numbers plus member lists and the
+// activity log, as CSV, JSON or a PDF.
+
+export interface AnalyticsExport {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+  // Workspaces whose data the file contains
+  workspaceIds: number[];
+}
+
+interface ExportedMember extends MemberContribution {
+  email: string | null;
+  joinedAt: number | null;
+}
+
+interface ExportedActivity {
+  time: number;
+  userId: string;
+  user: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  resource: string | null; // page title when the resource is a page
+}
+
+interface WorkspaceExport {
+  workspace: { id: number; name: string; plan: string };
+  report: WorkspaceAnalyticsReport;
+  members: ExportedMember[];
+  activity: ExportedActivity[];
+}
+
+const rangeLabels: Record<AnalyticsRange, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '365d': 'Last 12 months',
+};
+
+// The PDF is a summary; the full log is in the CSV and JSON exports
+const PDF_ACTIVITY_LIMIT = 200;
+
+async function collectWorkspace(workspace: Workspace, range: ResolvedRange, users: Map<string, User | undefined>): Promise<WorkspaceExport> {
+  const from = range.starts[0];
+  const [report, memberships, activities, pages] = await Promise.all([
+    buildWorkspaceReport(workspace, range),
+    storage.getWorkspaceMembers(workspace.id),
+    storage.getActivitiesSince(workspace.id, from - 1),
+    storage.getPagesByWorkspace(workspace.id),
+  ]);
+
+  const lookup = async (userId: string) => {
+    if (!users.has(userId)) users.set(userId, await storage.getUser(userId));
+    return users.get(userId);
+  };
+  const joined = new Map(memberships.map(member => [member.userId, member.joinedAt]));
+  const titles = new Map(pages.map(page => [String(page.id), page.title]));
+
+  const members: ExportedMember[] = [];
+  for (const member of report.members) {
+    const user = await lookup(member.userId);
+    members.push({ ...member, email: user?.email ?? null, joinedAt: joined.get(member.userId) ?? null });
+  }
+
+  const activity: ExportedActivity[] = [];
+  for (const entry of activities.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))) {
+    activity.push({
+      time: entry.createdAt ?? 0,
+      userId: entry.userId,
+      user: toAuthor(entry.userId, await lookup(entry.userId)).name,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId,
+      resource: entry.resourceType === 'page' ? titles.get(entry.resourceId) ?? null : null,
+    });
+  }
+
+  return {
+    workspace: { id: workspace.id, name: workspace.name, plan: workspace.plan ?? 'free' },
+    report,
+    members,
+    activity,
+  };
+}
+
+function formatTime(time: number | null, timeZone: string): string {
+  if (!time) return '';
+  const wall = toWallTime(time, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+function formatDay(time: number, timeZone: string): string {
+  return formatTime(time, timeZone).slice(0, 10);
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'workspace';
+}
+
+// CSV
+
+type CsvValue = string | number | null;
+
+function csvCell(value: CsvValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  // Spreadsheets run cells starting with these as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvSection(title: string, header: string[], rows: CsvValue[][]): string[] {
+  return [csvCell(title), header.map(csvCell).join(','), ...rows.map(row => row.map(csvCell).join(',')), ''];
+}
+
+function buildCsv(title: string, range: ResolvedRange, exports: WorkspaceExport[]): string {
+  const tz = range.timezone;
+  const lines = [
+    csvCell(title),
+    csvCell(`${rangeLabels[range.range]}, ${formatDay(range.starts[0], tz)} to ${formatDay(range.to, tz)} (${tz})`),
+    '',
+    ...csvSection('Summary',
+      ['Workspace', 'Pages', 'Blocks', 'Members', 'Active members', 'Pages created', 'Pages edited', 'Edits', 'Views', 'Comments', 'Collaboration score'],
+      exports.map(({ workspace, report }) => [
+        workspace.name, report.totals.pages, report.totals.blocks, report.totals.members, report.totals.activeMembers,
+        report.totals.pagesCreated, report.totals.pagesEdited, report.totals.edits, report.totals.views,
+        report.totals.comments, report.collaborationScore,
+      ])),
+    ...csvSection('Over time',
+      ['Workspace', `Period start (${range.bucket})`, 'Pages created', 'Pages edited', 'Edits', 'Views', 'Active members'],
+      exports.flatMap(({ workspace, report }) => report.series.map(point => [
+        workspace.name, point.date, point.pagesCreated, point.pagesEdited, point.edits, point.views, point.activeMembers,
+      ]))),
+    ...csvSection('Members',
+      ['Workspace', 'Name', 'Email', 'Role', 'Joined', 'Pages created', 'Pages edited', 'Edits', 'Comments', 'Views', 'Last active'],
+      exports.flatMap(({ workspace, members }) => members.map(member => [
+        workspace.name, member.name, member.email, member.role, formatTime(member.joinedAt, tz), member.pagesCreated,
+        member.pagesEdited, member.edits, member.comments, member.views, formatTime(member.lastActive, tz),
+      ]))),
+    ...csvSection('Top pages',
+      ['Workspace', 'Page', 'Views', 'Edits', 'Editors'],
+      exports.flatMap(({ workspace, report }) => report.topPages.map(page => [
+        workspace.name, page.title || 'Untitled', page.views, page.edits, page.editors,
+      ]))),
+    ...csvSection('Activity log',
+      ['Workspace', 'Time', 'User', 'Action', 'Resource type', 'Resource id', 'Resource'],
+      exports.flatMap(({ workspace, activity }) => activity.map(entry => [
+        workspace.name, formatTime(entry.time, tz), entry.user, entry.action, entry.resourceType, entry.resourceId, entry.resource,
+      ]))),
+  ];
+  // The byte order mark makes Excel read the file as UTF-8
+  return '\ufeff' + lines.join('\r\n');
+}
+
+// PDF
+
+function buildPdf(title: string, range: ResolvedRange, exports: WorkspaceExport[]): Buffer {
+  const tz = range.timezone;
+  const period = `${rangeLabels[range.range]}: ${formatDay(range.starts[0], tz)} to ${formatDay(range.to, tz)} (${tz})`;
+  const blocks: PdfBlock[] = [
+    { type: 'title', text: title },
+    { type: 'text', text: `${period}. Generated ${formatTime(range.to, tz)}.`, muted: true },
+    {
+      type: 'text',
+      text: 'Edits are editing sessions from page history. Collaboration score is the share of edited pages that more than one member worked on.',
+      muted: true,
+    },
+  ];
+
+  for (const { workspace, report, members, activity } of exports) {
+    const totals = report.totals;
+    blocks.push(
+      { type: 'heading', text: `${workspace.name} (${workspace.plan})` },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Pages', width: 1, align: 'right' },
+          { label: 'Blocks', width: 1, align: 'right' },
+          { label: 'Members', width: 1, align: 'right' },
+          { label: 'Active', width: 1, align: 'right' },
+          { label: 'Created', width: 1, align: 'right' },
+          { label: 'Edits', width: 1, align: 'right' },
+          { label: 'Views', width: 1, align: 'right' },
+          { label: 'Comments', width: 1, align: 'right' },
+          { label: 'Collaboration', width: 1.3, align: 'right' },
+        ],
+        rows: [[
+          totals.pages, totals.blocks, totals.members, totals.activeMembers, totals.pagesCreated, totals.edits,
+          totals.views, totals.comments,
+        ].map(String).concat(report.collaborationScore === null ? '-' : `${report.collaborationScore}%`)],
+      },
+      { type: 'heading', text: 'Over time' },
+      {
+        type: 'table',
+        columns: [
+          { label: report.bucket === 'day' ? 'Day' : report.bucket === 'week' ? 'Week of' : 'Month', width: 1.4 },
+          { label: 'Pages created', width: 1, align: 'right' },
+          { label: 'Pages edited', width: 1, align: 'right' },
+          { label: 'Edits', width: 1, align: 'right' },
+          { label: 'Views', width: 1, align: 'right' },
+          { label: 'Active members', width: 1.1, align: 'right' },
+        ],
+        rows: report.series.map(point => [
+          report.bucket === 'month' ? point.date.slice(0, 7) : point.date,
+          ...[point.pagesCreated, point.pagesEdited, point.edits, point.views, point.activeMembers].map(String),
+        ]),
+      },
+      { type: 'heading', text: 'Members' },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Name', width: 2 },
+          { label: 'Email', width: 2.4 },
+          { label: 'Role', width: 0.9 },
+          { label: 'Created', width: 0.8, align: 'right' },
+          { label: 'Edits', width: 0.7, align: 'right' },
+          { label: 'Comments', width: 0.9, align: 'right' },
+          { label: 'Last active', width: 1.5 },
+        ],
+        rows: members.map(member => [
+          member.name, member.email ?? '', member.role, String(member.pagesCreated), String(member.edits),
+          String(member.comments), formatTime(member.lastActive, tz),
+        ]),
+      },
+    );
+
+    if (report.topPages.length > 0) {
+      blocks.push(
+        { type: 'heading', text: 'Top pages' },
+        {
+          type: 'table',
+          columns: [
+            { label: 'Page', width: 4 },
+            { label: 'Views', width: 1, align: 'right' },
+            { label: 'Edits', width: 1, align: 'right' },
+            { label: 'Editors', width: 1, align: 'right' },
+          ],
+          rows: report.topPages.map(page => [page.title || 'Untitled', String(page.views), String(page.edits), String(page.editors)]),
+        },
+      );
+    }
+
+    blocks.push({ type: 'heading', text: 'Activity log' });
+    if (activity.length === 0) {
+      blocks.push({ type: 'text', text: 'No activity in this period.', muted: true });
+      continue;
+    }
+    if (activity.length > PDF_ACTIVITY_LIMIT) {
+      blocks.push({
+        type: 'text',
+        text: `The latest ${PDF_ACTIVITY_LIMIT} of ${activity.length} entries. Export as CSV or JSON for the full log.`,
+        muted: true,
+      });
+    }
+    blocks.push({
+      type: 'table',
+      columns: [
+        { label: 'Time', width: 1.3 },
+        { label: 'User', width: 1.5 },
+        { label: 'Action', width: 1.3 },
+        { label: 'Resource', width: 2.6 },
+      ],
+      rows: activity.slice(0, PDF_ACTIVITY_LIMIT).map(entry => [
+        formatTime(entry.time, tz),
+        entry.user,
+        entry.action,
+        entry.resource ?? `${entry.resourceType} ${entry.resourceId}`,
+      ]),
+    });
+  }
+
+  return renderPdf(blocks, { title, footer: `${title} · ${period}` });
+}
+
+export async function exportAnalytics(userId: string, input: unknown): Promise<AnalyticsExport> {
+  const parsed = analyticsExportSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AnalyticsError(parsed.error.issues[0]?.message ?? 'Invalid export request');
+  }
+  const { format, timeRange, timezone, workspaceId } = parsed.data;
+  const range = resolveRange(timeRange, timezone);
+
+  let workspaces: Workspace[];
+  if (workspaceId !== undefined) {
+    workspaces = [await requireManager(workspaceId, userId)];
+  } else {
+    workspaces = (await managedWorkspaces(userId)).map(({ workspace }) => workspace);
+    if (workspaces.length === 0) {
+      throw new AnalyticsError('Only workspace owners and admins can export analytics', 403);
+    }
+  }
+
+  const users = new Map<string, User | undefined>();
+  const exports: WorkspaceExport[] = [];
+  for (const workspace of workspaces) {
+    exports.push(await collectWorkspace(workspace, range, users));
+  }
+
+  const scope = workspaces.length === 1 ? workspaces[0].name : 'All workspaces';
+  const title = `Analytics report: ${scope}`;
+  const stamp = `${workspaces.length === 1 ? slugify(workspaces[0].name) : 'all-workspaces'}-${range.range}-${formatDay(range.to, range.timezone)}`;
+  const filename = `analytics-${stamp}.${format}`;
+  const workspaceIds = workspaces.map(workspace => workspace.id);
+
+  if (format === 'json') {
+    const body = {
+      generatedAt: range.to,
+      range: range.range,
+      bucket: range.bucket,
+      timezone: range.timezone,
+      from: range.starts[0],
+      to: range.to,
+      workspaces: exports,
+    };
+    return { filename, workspaceIds, contentType: 'application/json; charset=utf-8', data: Buffer.from(JSON.stringify(body, null, 2)) };
+  }
+  if (format === 'csv') {
+    return { filename, workspaceIds, contentType: 'text/csv; charset=utf-8', data: Buffer.from(buildCsv(title, range, exports)) };
+  }
+  return { filename, workspaceIds, contentType: 'application/pdf', data: buildPdf(title, range, exports) };
+}
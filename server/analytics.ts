@@ -0,0 +1,470 @@
+import { storage, type PageEdit } from './storage';
+import { toAuthor } from './comments';
+import { isValidTimeZone, toWallTime, fromWallTime, type WallTime } from './calendar';
+import {
+  analyticsRanges,
+  type Activity, type Page, type PageView, type User, type Workspace, type WorkspaceMember,
+  type AnalyticsRange, type AnalyticsBucket, type AnalyticsPoint, type WorkspaceAnalyticsReport,
+  type MemberContribution, type TopPageStat, type BusinessMetrics, type BusinessActivityPoint,
+  type WorkspaceSummary,
+} from '@shared/schema';
+
+// Workspace analytics, computed from what the app already records: pages, edit
+// sessions in page history, the activity log and page views.
+
+export class AnalyticsError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AnalyticsError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Reopening a page within this window is not another view
+const VIEW_REPEAT_WINDOW_MS = 30 * 60 * 1000;
+const TOP_PAGES = 10;
+
+const rangeDays: Record<AnalyticsRange, number> = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 };
+const rangeBuckets: Record<AnalyticsRange, AnalyticsBucket> = { '7d': 'day', '30d': 'day', '90d': 'week', '365d': 'month' };
+
+// Page views
+
+async function recordPageView(page: Page, userId: string | null, source: 'app' | 'share') {
+  const now = Date.now();
+  if (userId) {
+    const latest = await storage.getLatestPageView(page.id, userId);
+    if (latest && latest.viewedAt > now - VIEW_REPEAT_WINDOW_MS) return;
+  }
+  await storage.recordPageView({ pageId: page.id, workspaceId: page.workspaceId, userId, source, viewedAt: now });
+}
+
+// Fire-and-forget; a failed count must never fail opening the page
+export function trackPageView(page: Page, userId: string | null, source: 'app' | 'share' = 'app') {
+  recordPageView(page, userId, source).catch((error) => {
+    console.error('Error recording page view:', error);
+  });
+}
+
+// Ranges and buckets
+
+export interface ResolvedRange {
+  range: AnalyticsRange;
+  bucket: AnalyticsBucket;
+  timezone: string;
+  starts: number[]; // bucket starts, ascending; the first is the start of the range
+  dates: string[];
+  to: number;
+}
+
+function parseRange(value: unknown): AnalyticsRange {
+  if (value === undefined || value === '') return '30d';
+  const range = analyticsRanges.find(item => item === value);
+  if (!range) {
+    throw new AnalyticsError(`range must be one of ${analyticsRanges.join(', ')}`);
+  }
+  return range;
+}
+
+function parseTimeZone(value: unknown): string {
+  if (value === undefined || value === '') return 'UTC';
+  if (typeof value !== 'string' || !isValidTimeZone(value)) {
+    throw new AnalyticsError(`Unknown time zone "${value}"`);
+  }
+  return value;
+}
+
+// Calendar arithmetic on dates in the viewer's zone; Date.UTC normalises overflowing days and months
+function shiftDate(wall: WallTime, days: number, months: number = 0): WallTime {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1 + months, wall.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: 0, minute: 0, second: 0 };
+}
+
+function formatDate(wall: WallTime): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+export function resolveRange(rangeValue: unknown, timeZoneValue: unknown, now: number = Date.now()): ResolvedRange {
+  const range = parseRange(rangeValue);
+  const timezone = parseTimeZone(timeZoneValue);
+  const bucket = rangeBuckets[range];
+
+  const today = shiftDate(toWallTime(now, timezone), 0);
+  let first = shiftDate(today, 1 - rangeDays[range]);
+  let step = (wall: WallTime) => shiftDate(wall, 1);
+  if (bucket === 'week') {
+    const weekday = (new Date(Date.UTC(first.year, first.month - 1, first.day)).getUTCDay() + 6) % 7;
+    first = shiftDate(first, -weekday);
+    step = (wall: WallTime) => shiftDate(wall, 7);
+  } else if (bucket === 'month') {
+    first = shiftDate({ ...first, day: 1 }, 0, 1);
+    step = (wall: WallTime) => shiftDate(wall, 0, 1);
+  }
+
+  const starts: number[] = [];
+  const dates: string[] = [];
+  for (let wall = first; ; wall = step(wall)) {
+    const start = fromWallTime(wall, timezone);
+    if (start > now) break;
+    starts.push(start);
+    dates.push(formatDate(wall));
+  }
+  return { range, bucket, timezone, starts, dates, to: now };
+}
+
+// Index of the bucket `time` falls in, or -1 outside the range
+function bucketIndex(starts: number[], end: number, time: number): number {
+  if (time < starts[0] || time > end) return -1;
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= time) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+// Loading and counting
+
+interface WorkspaceData {
+  workspace: Workspace;
+  pages: Page[];
+  members: WorkspaceMember[];
+  activities: Activity[];
+  views: PageView[];
+  edits: PageEdit[];
+}
+
+async function loadWorkspaceData(workspace: Workspace, since: number): Promise<WorkspaceData> {
+  const [pages, members, activities, views, edits] = await Promise.all([
+    storage.getPagesByWorkspace(workspace.id),
+    storage.getWorkspaceMembers(workspace.id),
+    storage.getActivitiesSince(workspace.id, since),
+    storage.getPageViewsSince(workspace.id, since),
+    storage.getPageEditsSince(workspace.id, since),
+  ]);
+  return { workspace, pages, members, activities, views, edits };
+}
+
+interface Tally {
+  activeUsers: Set<string>;
+  editors: Map<number, Set<string>>; // page id to the people who edited it
+  pagesCreated: number;
+  edits: number;
+  views: number;
+  comments: number;
+  lastActive: number | null;
+}
+
+function newTally(): Tally {
+  return { activeUsers: new Set(), editors: new Map(), pagesCreated: 0, edits: 0, views: 0, comments: 0, lastActive: null };
+}
+
+function markActive(tally: Tally, userId: string | null, time: number) {
+  if (userId) tally.activeUsers.add(userId);
+  if (tally.lastActive === null || time > tally.lastActive) tally.lastActive = time;
+}
+
+// Counts every recorded event of the given workspaces into the bucket it falls in
+function tallyBuckets(datasets: WorkspaceData[], starts: number[], end: number): Tally[] {
+  const tallies = starts.map(() => newTally());
+  const at = (time: number | null) => {
+    const index = bucketIndex(starts, end, time ?? 0);
+    return index === -1 ? undefined : tallies[index];
+  };
+
+  for (const data of datasets) {
+    for (const page of data.pages) {
+      const tally = at(page.createdAt);
+      if (!tally) continue;
+      tally.pagesCreated++;
+      markActive(tally, page.createdBy, page.createdAt ?? 0);
+    }
+    for (const edit of data.edits) {
+      const tally = at(edit.editedAt);
+      if (!tally) continue;
+      tally.edits++;
+      const editors = tally.editors.get(edit.pageId) ?? new Set<string>();
+      editors.add(edit.userId);
+      tally.editors.set(edit.pageId, editors);
+      markActive(tally, edit.userId, edit.editedAt ?? 0);
+    }
+    for (const view of data.views) {
+      const tally = at(view.viewedAt);
+      if (!tally) continue;
+      tally.views++;
+      markActive(tally, view.userId, view.viewedAt);
+    }
+    for (const activity of data.activities) {
+      const tally = at(activity.createdAt);
+      if (!tally) continue;
+      if (activity.action === 'comment.created') tally.comments++;
+      markActive(tally, activity.userId, activity.createdAt ?? 0);
+    }
+  }
+  return tallies;
+}
+
+function collaborationScore(editors: Map<number, Set<string>>): number | null {
+  if (editors.size === 0) return null;
+  const shared = Array.from(editors.values()).filter(users => users.size > 1).length;
+  return Math.round((shared / editors.size) * 100);
+}
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+function isLive(page: Page): boolean {
+  return !page.isDeleted;
+}
+
+// Workspace report
+
+export async function requireManager(workspaceId: number, userId: string): Promise<Workspace> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  const role = workspace ? await storage.getUserWorkspaceRole(workspaceId, userId) : undefined;
+  if (!workspace || !role) {
+    throw new AnalyticsError('Workspace not found', 404);
+  }
+  if (role !== 'owner' && role !== 'admin') {
+    throw new AnalyticsError('Only workspace owners and admins can view analytics', 403);
+  }
+  return workspace;
+}
+
+function memberContributions(data: WorkspaceData, from: number, end: number, users: Map<string, User | undefined>): MemberContribution[] {
+  const stats = new Map<string, MemberContribution & { editedPages: Set<number> }>();
+  for (const member of data.members) {
+    const author = toAuthor(member.userId, users.get(member.userId));
+    stats.set(member.userId, {
+      userId: member.userId,
+      name: author.name,
+      profileImageUrl: author.profileImageUrl,
+      role: member.role,
+      pagesCreated: 0,
+      pagesEdited: 0,
+      edits: 0,
+      comments: 0,
+      views: 0,
+      lastActive: null,
+      editedPages: new Set(),
+    });
+  }
+  const inRange = (time: number | null) => (time ?? 0) >= from && (time ?? 0) <= end;
+  const touch = (userId: string | null, time: number | null) => {
+    const entry = userId ? stats.get(userId) : undefined;
+    if (entry && (entry.lastActive === null || (time ?? 0) > entry.lastActive)) entry.lastActive = time ?? 0;
+    return entry;
+  };
+
+  for (const page of data.pages) {
+    if (!inRange(page.createdAt)) continue;
+    const entry = touch(page.createdBy, page.createdAt);
+    if (entry) entry.pagesCreated++;
+  }
+  for (const edit of data.edits) {
+    if (!inRange(edit.editedAt)) continue;
+    const entry = touch(edit.userId, edit.editedAt);
+    if (!entry) continue;
+    entry.edits++;
+    entry.editedPages.add(edit.pageId);
+  }
+  for (const view of data.views) {
+    if (!inRange(view.viewedAt)) continue;
+    const entry = touch(view.userId, view.viewedAt);
+    if (entry) entry.views++;
+  }
+  for (const activity of data.activities) {
+    if (!inRange(activity.createdAt)) continue;
+    const entry = touch(activity.userId, activity.createdAt);
+    if (entry && activity.action === 'comment.created') entry.comments++;
+  }
+
+  return Array.from(stats.values())
+    .map(({ editedPages, ...entry }) => ({ ...entry, pagesEdited: editedPages.size }))
+    .sort((a, b) => b.edits - a.edits || b.pagesCreated - a.pagesCreated || (b.lastActive ?? 0) - (a.lastActive ?? 0));
+}
+
+function topPages(data: WorkspaceData, from: number, end: number): TopPageStat[] {
+  const live = new Map(data.pages.filter(isLive).map(page => [page.id, page]));
+  const stats = new Map<number, { views: number; edits: number; editors: Set<string> }>();
+  const entry = (pageId: number) => {
+    let stat = stats.get(pageId);
+    if (!stat) {
+      stat = { views: 0, edits: 0, editors: new Set() };
+      stats.set(pageId, stat);
+    }
+    return stat;
+  };
+  const inRange = (time: number | null) => (time ?? 0) >= from && (time ?? 0) <= end;
+
+  for (const view of data.views) {
+    if (live.has(view.pageId) && inRange(view.viewedAt)) entry(view.pageId).views++;
+  }
+  for (const edit of data.edits) {
+    if (!live.has(edit.pageId) || !inRange(edit.editedAt)) continue;
+    const stat = entry(edit.pageId);
+    stat.edits++;
+    stat.editors.add(edit.userId);
+  }
+
+  return Array.from(stats.entries())
+    .map(([pageId, stat]) => {
+      const page = live.get(pageId)!;
+      return { pageId, title: page.title, icon: page.icon, views: stat.views, edits: stat.edits, editors: stat.editors.size };
+    })
+    .sort((a, b) => (b.views + b.edits) - (a.views + a.edits) || b.edits - a.edits)
+    .slice(0, TOP_PAGES);
+}
+
+export async function buildWorkspaceReport(workspace: Workspace, range: ResolvedRange): Promise<WorkspaceAnalyticsReport> {
+  const from = range.starts[0];
+  const data = await loadWorkspaceData(workspace, from - 1);
+
+  const [blockCounts, users] = await Promise.all([
+    storage.getBlockCounts(workspace.id),
+    Promise.all(data.members.map(async member => [member.userId, await storage.getUser(member.userId)] as const)),
+  ]);
+  const livePages = data.pages.filter(isLive);
+  const total = tallyBuckets([data], [from], range.to)[0];
+
+  const series: AnalyticsPoint[] = tallyBuckets([data], range.starts, range.to).map((tally, index) => ({
+    date: range.dates[index],
+    start: range.starts[index],
+    pagesCreated: tally.pagesCreated,
+    pagesEdited: tally.editors.size,
+    edits: tally.edits,
+    views: tally.views,
+    activeMembers: tally.activeUsers.size,
+  }));
+
+  return {
+    workspaceId: workspace.id,
+    range: range.range,
+    bucket: range.bucket,
+    timezone: range.timezone,
+    from,
+    to: range.to,
+    totals: {
+      pages: livePages.length,
+      blocks: livePages.reduce((sum, page) => sum + (blockCounts.get(page.id) ?? 0), 0),
+      members: data.members.length,
+      activeMembers: total.activeUsers.size,
+      pagesCreated: total.pagesCreated,
+      pagesEdited: total.editors.size,
+      edits: total.edits,
+      views: total.views,
+      comments: total.comments,
+    },
+    collaborationScore: collaborationScore(total.editors),
+    series,
+    topPages: topPages(data, from, range.to),
+    members: memberContributions(data, from, range.to, new Map(users)),
+  };
+}
+
+export async function getWorkspaceAnalytics(workspaceId: number, userId: string, rangeValue: unknown, timeZoneValue: unknown): Promise<WorkspaceAnalyticsReport> {
+  const workspace = await requireManager(workspaceId, userId);
+  return await buildWorkspaceReport(workspace, resolveRange(rangeValue, timeZoneValue));
+}
+
+// Business dashboard: everything across the workspaces the caller manages
+
+export async function managedWorkspaces(userId: string): Promise<{ workspace: Workspace; role: string }[]> {
+  const result: { workspace: Workspace; role: string }[] = [];
+  for (const workspace of await storage.getWorkspacesByUserId(userId)) {
+    const role = await storage.getUserWorkspaceRole(workspace.id, userId);
+    if (role === 'owner' || role === 'admin') result.push({ workspace, role });
+  }
+  return result;
+}
+
+async function loadManaged(userId: string, since: number): Promise<WorkspaceData[]> {
+  const managed = await managedWorkspaces(userId);
+  return await Promise.all(managed.map(({ workspace }) => loadWorkspaceData(workspace, since)));
+}
+
+export async function getBusinessMetrics(userId: string, rangeValue: unknown, timeZoneValue: unknown): Promise<BusinessMetrics> {
+  const range = resolveRange(rangeValue, timeZoneValue);
+  const from = range.starts[0];
+  const previousFrom = from - (range.to - from);
+  const weekAgo = range.to - 7 * DAY_MS;
+  const datasets = await loadManaged(userId, Math.min(previousFrom, weekAgo) - 1);
+
+  const [previous, current] = tallyBuckets(datasets, [previousFrom, from], range.to);
+  const lastWeek = tallyBuckets(datasets, [weekAgo], range.to)[0];
+
+  // People count once, from whichever of the workspaces they joined first
+  const firstJoined = new Map<string, number>();
+  let totalPages = 0;
+  let pagesBefore = 0;
+  for (const data of datasets) {
+    for (const member of data.members) {
+      const joinedAt = member.joinedAt ?? 0;
+      firstJoined.set(member.userId, Math.min(joinedAt, firstJoined.get(member.userId) ?? joinedAt));
+    }
+    const livePages = data.pages.filter(isLive);
+    totalPages += livePages.length;
+    pagesBefore += livePages.filter(page => (page.createdAt ?? 0) < from).length;
+  }
+  const membersBefore = Array.from(firstJoined.values()).filter(joinedAt => joinedAt < from).length;
+
+  const active = current.activeUsers.size;
+  return {
+    totalUsers: firstJoined.size,
+    totalPages,
+    totalWorkspaces: datasets.length,
+    activeCollaborators: active,
+    pageViews: current.views,
+    edits: current.edits,
+    editsSinceLastWeek: lastWeek.edits,
+    collaborationScore: collaborationScore(current.editors) ?? 0,
+    productivityIndex: active > 0 ? Math.round((current.edits / active) * 10) / 10 : 0,
+    trends: {
+      users: percentChange(firstJoined.size, membersBefore),
+      pages: percentChange(totalPages, pagesBefore),
+      activeCollaborators: percentChange(active, previous.activeUsers.size),
+      pageViews: percentChange(current.views, previous.views),
+      edits: percentChange(current.edits, previous.edits),
+    },
+  };
+}
+
+export async function getBusinessActivity(userId: string, rangeValue: unknown, timeZoneValue: unknown): Promise<BusinessActivityPoint[]> {
+  const range = resolveRange(rangeValue, timeZoneValue);
+  const datasets = await loadManaged(userId, range.starts[0] - 1);
+  return tallyBuckets(datasets, range.starts, range.to).map((tally, index) => ({
+    date: range.dates[index],
+    pages: tally.pagesCreated,
+    collaborators: tally.activeUsers.size,
+    edits: tally.edits,
+    views: tally.views,
+  }));
+}
+
+export async function getWorkspaceSummaries(userId: string, rangeValue: unknown, timeZoneValue: unknown): Promise<WorkspaceSummary[]> {
+  const range = resolveRange(rangeValue, timeZoneValue);
+  const from = range.starts[0];
+  const managed = await managedWorkspaces(userId);
+
+  return await Promise.all(managed.map(async ({ workspace, role }) => {
+    const data = await loadWorkspaceData(workspace, from - 1);
+    const tally = tallyBuckets([data], [from], range.to)[0];
+    const memberIds = new Set(data.members.map(member => member.userId));
+    const activeMembers = Array.from(tally.activeUsers).filter(id => memberIds.has(id)).length;
+    return {
+      id: workspace.id,
+      name: workspace.name,
+      icon: workspace.icon,
+      plan: workspace.plan ?? 'free',
+      role,
+      members: data.members.length,
+      pages: data.pages.filter(isLive).length,
+      activity: memberIds.size > 0 ? Math.round((activeMembers / memberIds.size) * 100) : 0,
+      lastActive: tally.lastActive,
+    };
+  }));
+}
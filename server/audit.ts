@@ -0,0 +1,338 @@
+import crypto from 'crypto';
+import { storage, type AuditFilters } from './storage';
+import { toAuthor } from './comments';
+import {
+  auditActions, auditQuerySchema, auditSettingsSchema,
+  type Activity, type AuditAction, type AuditResourceType, type AuditEntryView, type AuditLogPage,
+  type AuditVerification, type AuditSettings, type User, type Workspace,
+} from '@shared/schema';
+
+// Workspace audit log. Every entry is linked into its workspace's hash chain as it is
+// written; retention removes the oldest entries and leaves an anchor the chain continues from.
+
+export class AuditError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AuditError';
+  }
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_SWEEP_MS = 60 * 60 * 1000;
+const VERIFY_BATCH = 1000;
+
+// Longest time each plan keeps audit entries, in days; null keeps them forever.
+// Workspaces may choose a shorter period. Unknown plans get the free plan's limit.
+export const planRetentionDays: Record<string, number | null> = {
+  free: 30,
+  personal: 90,
+  team: 365,
+  enterprise: null,
+};
+
+export interface AuditEvent {
+  workspaceId: number;
+  userId: string;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string | number;
+  metadata?: Record<string, unknown>;
+  ipAddress?: string | null;
+}
+
+interface ChainLink {
+  seq: number;
+  hash: string;
+}
+
+type ChainedFields = Pick<Activity, 'workspaceId' | 'userId' | 'action' | 'resourceType' | 'resourceId' | 'metadata' | 'ipAddress' | 'createdAt'>;
+
+// Covers every stored field, so changing any of them, or the order, shows up on verification
+function hashEntry(entry: ChainedFields, seq: number, prevHash: string): string {
+  const payload = JSON.stringify([
+    seq, entry.workspaceId, entry.userId, entry.action, entry.resourceType, entry.resourceId,
+    entry.metadata ?? null, entry.ipAddress ?? null, entry.createdAt ?? null, prevHash,
+  ]);
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+// Writes to a workspace's chain run one at a time so two entries never claim the same link
+const chainQueues = new Map<number, Promise<unknown>>();
+
+function withChain<T>(workspaceId: number, task: () => Promise<T>): Promise<T> {
+  const previous = chainQueues.get(workspaceId) ?? Promise.resolve();
+  const run = previous.then(task);
+  const settled = run.catch(() => undefined);
+  chainQueues.set(workspaceId, settled);
+  settled.then(() => {
+    if (chainQueues.get(workspaceId) === settled) chainQueues.delete(workspaceId);
+  });
+  return run;
+}
+
+async function chainHead(workspaceId: number): Promise<ChainLink> {
+  const latest = await storage.getLatestAuditEntry(workspaceId);
+  if (latest?.seq && latest.hash) return { seq: latest.seq, hash: latest.hash };
+  const anchor = await storage.getAuditAnchor(workspaceId);
+  return anchor ? { seq: anchor.seq, hash: anchor.hash } : { seq: 0, hash: GENESIS_HASH };
+}
+
+// Entries logged before the chain existed are linked, oldest first, the first time
+// this process touches the workspace. Call inside withChain.
+const chainedWorkspaces = new Set<number>();
+
+async function ensureChained(workspaceId: number): Promise<ChainLink> {
+  let head = await chainHead(workspaceId);
+  if (chainedWorkspaces.has(workspaceId)) return head;
+
+  for (const entry of await storage.getUnchainedActivities(workspaceId)) {
+    const seq = head.seq + 1;
+    const hash = hashEntry(entry, seq, head.hash);
+    await storage.chainActivity(entry.id, { seq, prevHash: head.hash, hash });
+    head = { seq, hash };
+  }
+  chainedWorkspaces.add(workspaceId);
+  return head;
+}
+
+export async function recordAudit(event: AuditEvent): Promise<Activity> {
+  return await withChain(event.workspaceId, async () => {
+    const head = await ensureChained(event.workspaceId);
+    const entry: ChainedFields = {
+      workspaceId: event.workspaceId,
+      userId: event.userId,
+      action: event.action,
+      resourceType: event.resourceType,
+      resourceId: String(event.resourceId),
+      metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+      ipAddress: event.ipAddress ?? null,
+      createdAt: Date.now(),
+    };
+    const seq = head.seq + 1;
+    return await storage.logActivity({ ...entry, seq, prevHash: head.hash, hash: hashEntry(entry, seq, head.hash) });
+  });
+}
+
+// Audit writes from socket handlers must not fail the edit that triggered them
+export function recordAuditQuietly(event: AuditEvent) {
+  recordAudit(event).catch((error) => {
+    console.error('Error recording audit entry:', error);
+  });
+}
+
+async function requireAuditAdmin(workspaceId: number, userId: string): Promise<Workspace> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  const role = workspace ? await storage.getUserWorkspaceRole(workspaceId, userId) : undefined;
+  if (!workspace || !role) {
+    throw new AuditError('Workspace not found', 404);
+  }
+  if (role !== 'owner' && role !== 'admin') {
+    throw new AuditError('Only workspace owners and admins can view the audit log', 403);
+  }
+  return workspace;
+}
+
+function toEntryView(entry: Activity, users: Map<string, User | undefined>): AuditEntryView {
+  let metadata: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(entry.metadata ?? '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) metadata = parsed;
+  } catch {
+    // Unreadable metadata shows as empty
+  }
+  return {
+    id: entry.id,
+    seq: entry.seq,
+    action: entry.action,
+    actor: toAuthor(entry.userId, users.get(entry.userId)),
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId,
+    metadata,
+    ipAddress: entry.ipAddress,
+    createdAt: entry.createdAt ?? 0,
+    hash: entry.hash,
+  };
+}
+
+function parseActions(value: string | undefined): Pick<AuditFilters, 'actions' | 'actionPrefixes'> {
+  if (!value) return {};
+  const actions: string[] = [];
+  const actionPrefixes: string[] = [];
+  for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    if (item.endsWith('.*')) {
+      actionPrefixes.push(item.slice(0, -1));
+    } else if ((auditActions as readonly string[]).includes(item)) {
+      actions.push(item);
+    } else {
+      throw new AuditError(`Unknown action "${item}"`);
+    }
+  }
+  return { actions, actionPrefixes };
+}
+
+export async function queryAuditLog(workspaceId: number, userId: string, input: unknown): Promise<AuditLogPage> {
+  await requireAuditAdmin(workspaceId, userId);
+  const parsed = auditQuerySchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AuditError(parsed.error.issues[0]?.message ?? 'Invalid audit query');
+  }
+  const query = parsed.data;
+
+  await withChain(workspaceId, () => ensureChained(workspaceId));
+  const rows = await storage.queryAuditLog(workspaceId, {
+    userId: query.actor,
+    ...parseActions(query.action),
+    resourceType: query.resourceType,
+    resourceId: query.resourceId,
+    from: query.from,
+    to: query.to,
+    beforeSeq: query.before,
+  }, query.limit + 1);
+
+  const entries = rows.slice(0, query.limit);
+  const userIds = Array.from(new Set(entries.map(entry => entry.userId)));
+  const users = new Map(await Promise.all(userIds.map(async id => [id, await storage.getUser(id)] as const)));
+  return {
+    entries: entries.map(entry => toEntryView(entry, users)),
+    nextCursor: rows.length > query.limit ? entries[entries.length - 1].seq : null,
+  };
+}
+
+// Walks the chain from its anchor and stops at the first entry that is missing,
+// out of place or altered
+export async function verifyAuditLog(workspaceId: number, userId: string): Promise<AuditVerification> {
+  await requireAuditAdmin(workspaceId, userId);
+
+  return await withChain(workspaceId, async () => {
+    await ensureChained(workspaceId);
+    const anchor = await storage.getAuditAnchor(workspaceId);
+    let expected: ChainLink = anchor ? { seq: anchor.seq, hash: anchor.hash } : { seq: 0, hash: GENESIS_HASH };
+    let checked = 0;
+    let failure: AuditVerification['failure'] = null;
+
+    while (!failure) {
+      const batch = await storage.getAuditChain(workspaceId, expected.seq, VERIFY_BATCH);
+      for (const entry of batch) {
+        const seq = entry.seq ?? 0;
+        if (seq !== expected.seq + 1) {
+          failure = { seq: expected.seq + 1, reason: 'Entry is missing' };
+        } else if (entry.prevHash !== expected.hash) {
+          failure = { seq, reason: 'Entry does not link to the one before it' };
+        } else if (entry.hash !== hashEntry(entry, seq, expected.hash)) {
+          failure = { seq, reason: 'Entry was changed after it was written' };
+        }
+        if (failure) break;
+        expected = { seq, hash: entry.hash! };
+        checked++;
+      }
+      if (batch.length < VERIFY_BATCH) break;
+    }
+
+    return {
+      valid: failure === null,
+      checked,
+      head: expected.seq > 0 ? expected : null,
+      anchor: anchor ? { seq: anchor.seq, hash: anchor.hash, prunedAt: anchor.prunedAt } : null,
+      failure,
+    };
+  });
+}
+
+// Retention
+
+function readSettings(workspace: Workspace): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(workspace.settings ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function retentionOf(workspace: Workspace): AuditSettings {
+  const plan = workspace.plan ?? 'free';
+  const maxRetentionDays = plan in planRetentionDays ? planRetentionDays[plan] : planRetentionDays.free;
+  const configured = readSettings(workspace).auditRetentionDays;
+  const retentionDays = typeof configured === 'number' && (maxRetentionDays === null || configured <= maxRetentionDays)
+    ? configured
+    : maxRetentionDays;
+  return { plan, retentionDays, maxRetentionDays };
+}
+
+export async function getAuditSettings(workspaceId: number, userId: string): Promise<AuditSettings> {
+  return retentionOf(await requireAuditAdmin(workspaceId, userId));
+}
+
+export async function updateAuditSettings(workspaceId: number, userId: string, input: unknown, ipAddress?: string): Promise<AuditSettings> {
+  const workspace = await requireAuditAdmin(workspaceId, userId);
+  const parsed = auditSettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AuditError(parsed.error.issues[0]?.message ?? 'Invalid audit settings');
+  }
+  const { retentionDays } = parsed.data;
+  const before = retentionOf(workspace);
+  if (retentionDays !== null && before.maxRetentionDays !== null && retentionDays > before.maxRetentionDays) {
+    throw new AuditError(`The ${before.plan} plan keeps audit entries for at most ${before.maxRetentionDays} days`);
+  }
+
+  const settings = { ...readSettings(workspace), auditRetentionDays: retentionDays };
+  const updated = await storage.updateWorkspace(workspaceId, { settings: JSON.stringify(settings) });
+  if (!updated) {
+    throw new AuditError('Workspace not found', 404);
+  }
+  const after = retentionOf(updated);
+  await recordAudit({
+    workspaceId,
+    userId,
+    action: 'audit.settings_changed',
+    resourceType: 'audit',
+    resourceId: workspaceId,
+    metadata: { retentionDays: { from: before.retentionDays, to: after.retentionDays } },
+    ipAddress,
+  });
+  await pruneWorkspace(updated);
+  return after;
+}
+
+export async function pruneWorkspace(workspace: Workspace): Promise<number> {
+  const { retentionDays } = retentionOf(workspace);
+  if (retentionDays === null) return 0;
+
+  return await withChain(workspace.id, async () => {
+    await ensureChained(workspace.id);
+    const last = await storage.getLastAuditEntryBefore(workspace.id, Date.now() - retentionDays * DAY_MS);
+    if (!last?.seq || !last.hash) return 0;
+    return await storage.pruneAuditLog(workspace.id, {
+      workspaceId: workspace.id,
+      seq: last.seq,
+      hash: last.hash,
+      prunedAt: Date.now(),
+    });
+  });
+}
+
+let retentionTimer: NodeJS.Timeout | undefined;
+
+async function sweepRetention() {
+  for (const workspace of await storage.getAllWorkspaces()) {
+    try {
+      await pruneWorkspace(workspace);
+    } catch (error) {
+      console.error(`Error applying audit retention to workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+// Applies retention now and then hourly
+export function startAuditRetention() {
+  if (retentionTimer) return;
+  const run = () => {
+    sweepRetention().catch((error) => {
+      console.error('Error applying audit retention:', error);
+    });
+  };
+  run();
+  retentionTimer = setInterval(run, RETENTION_SWEEP_MS);
+  retentionTimer.unref();
+}
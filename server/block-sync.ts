@@ -0,0 +1,233 @@
+import { storage } from './storage';
+import { trackPageEdit } from './revisions';
+import { apply, transform, normalize, isValidOperation, type TextOperation } from '@shared/ot';
+import type { BlockContent, BlockProperties } from '@shared/schema';
+
+// How many applied operations we keep per block for transforming late edits
+const MAX_HISTORY = 500;
+// Debounce between the last applied edit and writing the block row
+const PERSIST_DELAY_MS = 750;
+
+interface BlockDocument {
+  blockId: number;
+  pageId: number;
+  content: BlockContent;
+  text: string;
+  revision: number;
+  // history[i] moved the document from revision (revision - history.length + i) to the next one
+  history: TextOperation[];
+  lastEditedBy?: string;
+  dirty: boolean;
+  persistTimer?: NodeJS.Timeout;
+}
+
+export interface BlockSnapshot {
+  blockId: number;
+  pageId: number;
+  text: string;
+  revision: number;
+}
+
+export interface AppliedEdit {
+  blockId: number;
+  pageId: number;
+  revision: number;
+  operation: TextOperation;
+}
+
+export class BlockSyncError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_operation' | 'stale_revision') {
+    super(message);
+    this.name = 'BlockSyncError';
+  }
+}
+
+export function parseBlockContent(content: unknown): BlockContent {
+  if (!content) return {};
+  if (typeof content === 'object') return content as BlockContent;
+  try {
+    const parsed = JSON.parse(content as string);
+    return parsed && typeof parsed === 'object' ? parsed : { text: String(parsed) };
+  } catch {
+    return { text: String(content) };
+  }
+}
+
+export function parseBlockProperties(properties: unknown): BlockProperties {
+  if (!properties) return {};
+  if (typeof properties === 'object') return properties as BlockProperties;
+  try {
+    const parsed = JSON.parse(properties as string);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Sequences concurrent text edits per block. Clients send operations against the
+// revision they last saw; the server transforms them over everything applied since,
+// assigns the next revision and persists the merged text through storage.updateBlock.
+export class BlockSyncService {
+  private documents: Map<number, BlockDocument> = new Map();
+  private loading: Map<number, Promise<BlockDocument | undefined>> = new Map();
+  // Last revision of documents we dropped, so a reload never reuses a revision number
+  private retiredRevisions: Map<number, number> = new Map();
+
+  private async load(blockId: number): Promise<BlockDocument | undefined> {
+    const existing = this.documents.get(blockId);
+    if (existing) return existing;
+
+    let pending = this.loading.get(blockId);
+    if (!pending) {
+      pending = (async () => {
+        const block = await storage.getBlockById(blockId);
+        if (!block) return undefined;
+
+        const content = parseBlockContent(block.content);
+        const retired = this.retiredRevisions.get(blockId);
+        const document: BlockDocument = {
+          blockId,
+          pageId: block.pageId,
+          content,
+          text: content.text || '',
+          revision: retired === undefined ? 0 : retired + 1,
+          history: [],
+          dirty: false,
+        };
+        this.documents.set(blockId, document);
+        return document;
+      })().finally(() => this.loading.delete(blockId));
+      this.loading.set(blockId, pending);
+    }
+
+    return pending;
+  }
+
+  async getSnapshot(blockId: number): Promise<BlockSnapshot | undefined> {
+    const document = await this.load(blockId);
+    if (!document) return undefined;
+
+    return {
+      blockId,
+      pageId: document.pageId,
+      text: document.text,
+      revision: document.revision,
+    };
+  }
+
+  async applyEdit(blockId: number, revision: number, operation: unknown, userId: string): Promise<AppliedEdit> {
+    if (!isValidOperation(operation)) {
+      throw new BlockSyncError('Malformed operation', 'invalid_operation');
+    }
+
+    const document = await this.load(blockId);
+    if (!document) {
+      throw new BlockSyncError('Block not found', 'not_found');
+    }
+
+    const baseRevision = document.revision - document.history.length;
+    if (!Number.isInteger(revision) || revision < baseRevision || revision > document.revision) {
+      throw new BlockSyncError('Revision is no longer available', 'stale_revision');
+    }
+
+    // Everything from here on is synchronous, so edits to one block never interleave
+    let transformed = normalize(operation);
+    for (const concurrent of document.history.slice(revision - baseRevision)) {
+      transformed = transform(transformed, concurrent, 'left');
+    }
+
+    try {
+      document.text = apply(document.text, transformed);
+    } catch {
+      throw new BlockSyncError('Operation does not fit the current text', 'invalid_operation');
+    }
+
+    document.revision++;
+    document.history.push(transformed);
+    if (document.history.length > MAX_HISTORY) {
+      document.history.splice(0, document.history.length - MAX_HISTORY);
+    }
+
+    document.lastEditedBy = userId;
+    document.dirty = true;
+    this.schedulePersist(document);
+
+    return {
+      blockId,
+      pageId: document.pageId,
+      revision: document.revision,
+      operation: transformed,
+    };
+  }
+
+  // Changes content other than the text, such as a todo's `checked`, and writes it
+  // right away. The text and its revision are left alone, so editors keep typing.
+  async updateFields(blockId: number, fields: Omit<BlockContent, 'text'>, userId: string): Promise<BlockContent | undefined> {
+    const document = await this.load(blockId);
+    if (!document) return undefined;
+
+    document.content = { ...document.content, ...fields };
+    document.lastEditedBy = userId;
+    document.dirty = true;
+    await this.persist(document);
+    return document.content;
+  }
+
+  private schedulePersist(document: BlockDocument) {
+    if (document.persistTimer) {
+      clearTimeout(document.persistTimer);
+    }
+    document.persistTimer = setTimeout(() => {
+      this.persist(document).catch((error) => {
+        console.error('Error persisting block edit:', error);
+      });
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist(document: BlockDocument) {
+    if (document.persistTimer) {
+      clearTimeout(document.persistTimer);
+      document.persistTimer = undefined;
+    }
+    if (!document.dirty) return;
+
+    document.dirty = false;
+    document.content = { ...document.content, text: document.text };
+    await storage.updateBlock(document.blockId, {
+      content: JSON.stringify(document.content),
+      lastEditedBy: document.lastEditedBy,
+    });
+    if (document.lastEditedBy) {
+      trackPageEdit(document.pageId, document.lastEditedBy);
+    }
+  }
+
+  async flushPage(pageId: number, evict = false) {
+    const documents = Array.from(this.documents.values()).filter(d => d.pageId === pageId);
+    await Promise.all(documents.map(async (document) => {
+      await this.persist(document);
+      if (evict) {
+        this.retire(document);
+      }
+    }));
+  }
+
+  // Drop the in-memory copy after the block was changed or deleted outside of the
+  // edit stream. Clients holding an old revision are asked to resync on their next edit.
+  evict(blockId: number) {
+    const document = this.documents.get(blockId);
+    if (document) {
+      if (document.persistTimer) {
+        clearTimeout(document.persistTimer);
+      }
+      this.retire(document);
+    }
+  }
+
+  private retire(document: BlockDocument) {
+    this.retiredRevisions.set(document.blockId, document.revision);
+    this.documents.delete(document.blockId);
+  }
+}
+
+export const blockSync = new BlockSyncService();
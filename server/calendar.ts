@@ -0,0 +1,545 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { sessionSecret } from './session-store';
+import { requirePageAccess, getVisiblePageIds } from './permissions';
+import {
+  parseRecurrence, formatRecurrence, formatRRule, formatICalDate, weekdayCodes, RecurrenceError,
+  type RecurrenceRule,
+} from '@shared/recurrence';
+import {
+  calendarEventInputSchema, updateCalendarEventSchema,
+  type CalendarEvent, type CalendarEventView, type CalendarOccurrence, type InsertCalendarEvent,
+} from '@shared/schema';
+
+// Workspace calendar: event CRUD, expansion of recurring events into occurrences, and
+// the .ics feed desktop calendars subscribe to.
+
+export class CalendarError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CalendarError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_MS = 400 * DAY_MS;
+// Per event and request; a daily series listed over a year stays well under this
+const MAX_OCCURRENCES = 1000;
+const MAX_CANDIDATES = 100000;
+
+export function toEventView(event: CalendarEvent): CalendarEventView {
+  let attendees: string[] = [];
+  try {
+    const parsed = JSON.parse(event.attendees ?? '[]');
+    if (Array.isArray(parsed)) attendees = parsed.filter(item => typeof item === 'string');
+  } catch {
+    // Unreadable attendee lists show as empty
+  }
+  return { ...event, attendees };
+}
+
+// Recurring events keep their wall-clock time in their own zone, so a weekly 09:00
+// meeting stays at 09:00 across daylight saving changes.
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toWallTime(time: number, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(new Date(time))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+function zoneOffset(time: number, timeZone: string): number {
+  const wall = toWallTime(time, timeZone);
+  const seconds = Math.floor(time / 1000) * 1000;
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - seconds;
+}
+
+// The instant a wall-clock time in `timeZone` refers to. Times skipped by a DST jump
+// land an hour later, as most calendar apps do.
+export function fromWallTime(wall: WallTime, timeZone: string): number {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  let time = asUtc - zoneOffset(asUtc, timeZone);
+  const offset = zoneOffset(time, timeZone);
+  if (asUtc - offset !== time) {
+    time = asUtc - offset;
+  }
+  return time;
+}
+
+// Recurrence expansion. Candidate days are UTC-midnight timestamps standing for dates in the event's zone.
+
+function weekdayIndex(day: number): number {
+  // 0 = Monday, matching weekdayCodes
+  return (new Date(day).getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function monthDays(rule: RecurrenceRule, year: number, monthIndex: number, startDay: number): number[] {
+  const length = daysInMonth(year, monthIndex);
+  const first = Date.UTC(year, monthIndex, 1);
+  const days: number[] = [];
+
+  if (rule.byDay.length > 0) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const target = weekdayCodes.indexOf(weekday);
+      const matching: number[] = [];
+      for (let date = 1; date <= length; date++) {
+        const day = first + (date - 1) * DAY_MS;
+        if (weekdayIndex(day) === target) matching.push(day);
+      }
+      if (ordinal === undefined) {
+        days.push(...matching);
+      } else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) days.push(day);
+      }
+    }
+  } else {
+    const dates = rule.byMonthDay.length > 0 ? rule.byMonthDay : [new Date(startDay).getUTCDate()];
+    for (const date of dates) {
+      const resolved = date > 0 ? date : length + date + 1;
+      // Months without the day are skipped, e.g. the 31st in April
+      if (resolved >= 1 && resolved <= length) days.push(first + (resolved - 1) * DAY_MS);
+    }
+  }
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+function* candidateDays(rule: RecurrenceRule, startDay: number): Generator<number> {
+  const start = new Date(startDay);
+  for (let period = 0; ; period += rule.interval) {
+    let days: number[];
+    switch (rule.freq) {
+      case 'daily':
+        days = [startDay + period * DAY_MS];
+        break;
+      case 'weekly': {
+        const weekStart = startDay - weekdayIndex(startDay) * DAY_MS + period * 7 * DAY_MS;
+        const weekdays = rule.byDay.length > 0
+          ? rule.byDay.map(day => weekdayCodes.indexOf(day.weekday))
+          : [weekdayIndex(startDay)];
+        days = Array.from(new Set(weekdays)).sort((a, b) => a - b).map(index => weekStart + index * DAY_MS);
+        break;
+      }
+      case 'monthly': {
+        const month = start.getUTCMonth() + period;
+        days = monthDays(rule, start.getUTCFullYear() + Math.floor(month / 12), month % 12, startDay);
+        break;
+      }
+      case 'yearly': {
+        const year = start.getUTCFullYear() + period;
+        // Feb 29 series only occur in leap years
+        days = start.getUTCDate() <= daysInMonth(year, start.getUTCMonth())
+          ? [Date.UTC(year, start.getUTCMonth(), start.getUTCDate())]
+          : [];
+        break;
+      }
+    }
+    for (const day of days) {
+      if (day >= startDay) yield day;
+    }
+  }
+}
+
+function overlaps(start: number, end: number, from: number, to: number): boolean {
+  return start < to && (end > from || start >= from);
+}
+
+// Occurrences of one event that overlap [from, to)
+export function expandEvent(event: CalendarEvent, from: number, to: number): CalendarOccurrence[] {
+  const view = toEventView(event);
+  let rule: RecurrenceRule | null = null;
+  try {
+    rule = parseRecurrence(event.recurrence);
+  } catch {
+    // A rule we cannot read leaves the first occurrence in place
+  }
+
+  if (!rule) {
+    return overlaps(event.startDate, event.endDate, from, to)
+      ? [{ ...view, recurring: false, occurrenceStart: event.startDate }]
+      : [];
+  }
+
+  // All-day events are stored as UTC dates
+  const timeZone = !event.isAllDay && event.timezone && isValidTimeZone(event.timezone) ? event.timezone : 'UTC';
+  const duration = Math.max(0, event.endDate - event.startDate);
+  const startWall = toWallTime(event.startDate, timeZone);
+  const startDay = Date.UTC(startWall.year, startWall.month - 1, startWall.day);
+  const exceptions = new Set(rule.exceptions);
+
+  const occurrences: CalendarOccurrence[] = [];
+  let generated = 0;
+  let candidates = 0;
+  const days = candidateDays(rule, startDay);
+  while (++candidates <= MAX_CANDIDATES) {
+    const day = days.next().value as number;
+    const date = new Date(day);
+    const start = fromWallTime({
+      ...startWall,
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+    }, timeZone);
+
+    if (start >= to || (rule.until !== null && start > rule.until)) break;
+    if (rule.count !== null && generated >= rule.count) break;
+    generated++;
+
+    if (exceptions.has(start) || (event.isAllDay && exceptions.has(day))) continue;
+    if (overlaps(start, start + duration, from, to)) {
+      occurrences.push({ ...view, startDate: start, endDate: start + duration, recurring: true, occurrenceStart: start });
+      if (occurrences.length >= MAX_OCCURRENCES) break;
+    }
+  }
+  return occurrences;
+}
+
+export async function requireRole(workspaceId: number, userId: string): Promise<string> {
+  const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+  if (!role) {
+    throw new CalendarError('Access denied', 403);
+  }
+  return role;
+}
+
+async function getEventForUser(eventId: number, userId: string): Promise<{ event: CalendarEvent; role: string }> {
+  const event = await storage.getCalendarEvent(eventId);
+  const role = event ? await storage.getUserWorkspaceRole(event.workspaceId, userId) : undefined;
+  if (!event || !role) {
+    throw new CalendarError('Event not found', 404);
+  }
+  return { event, role };
+}
+
+// Guests can look; the creator and workspace owners and admins can change an event
+export function requireEventEdit(event: CalendarEvent, role: string, userId: string) {
+  if (role === 'guest' || (event.createdBy !== userId && role !== 'owner' && role !== 'admin')) {
+    throw new CalendarError('Only the organiser or a workspace admin can change this event', 403);
+  }
+}
+
+async function checkLinkedPage(workspaceId: number, pageId: number | null | undefined, userId: string) {
+  if (!pageId) return;
+  const { page } = await requirePageAccess(pageId, userId, 'view');
+  if (page.workspaceId !== workspaceId) {
+    throw new CalendarError('Linked page is in another workspace');
+  }
+}
+
+function normalizeRecurrence(value: string | null | undefined): string {
+  try {
+    return formatRecurrence(parseRecurrence(value));
+  } catch (error) {
+    if (error instanceof RecurrenceError) {
+      throw new CalendarError(`Invalid recurrence: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function checkTimes(start: number, end: number) {
+  if (end < start) {
+    throw new CalendarError('An event cannot end before it starts');
+  }
+}
+
+function checkTimeZone(timeZone: string | null | undefined) {
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw new CalendarError(`Unknown time zone "${timeZone}"`);
+  }
+}
+
+export function parseRange(fromValue: unknown, toValue: unknown): { from: number; to: number } {
+  const read = (value: unknown) => {
+    if (typeof value !== 'string' || !value) return undefined;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new CalendarError('from and to must be timestamps or ISO dates');
+    }
+    return time;
+  };
+  const now = new Date();
+  const from = read(fromValue) ?? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  const to = read(toValue) ?? Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  if (to <= from) {
+    throw new CalendarError('to must be after from');
+  }
+  if (to - from > MAX_RANGE_MS) {
+    throw new CalendarError('The range can span at most 400 days');
+  }
+  return { from, to };
+}
+
+// Every occurrence in [from, to), in start order. Events linked to pages the user
+// cannot see are left out.
+export async function listOccurrences(workspaceId: number, userId: string, from: number, to: number): Promise<CalendarOccurrence[]> {
+  await requireRole(workspaceId, userId);
+  const events = await storage.getCalendarEvents(workspaceId, from, to);
+  const visible = events.some(event => event.pageId) ? await getVisiblePageIds(workspaceId, userId) : null;
+
+  return events
+    .filter(event => !event.pageId || visible!.has(event.pageId))
+    .flatMap(event => expandEvent(event, from, to))
+    .sort((a, b) => a.startDate - b.startDate);
+}
+
+export async function getEvent(eventId: number, userId: string): Promise<CalendarEventView> {
+  const { event } = await getEventForUser(eventId, userId);
+  return toEventView(event);
+}
+
+export async function createEvent(userId: string, input: unknown): Promise<CalendarEventView> {
+  const data = calendarEventInputSchema.parse(input);
+  const role = await requireRole(data.workspaceId, userId);
+  if (role === 'guest') {
+    throw new CalendarError('Guests cannot add events', 403);
+  }
+  checkTimes(data.startDate, data.endDate);
+  checkTimeZone(data.timezone);
+  await checkLinkedPage(data.workspaceId, data.pageId, userId);
+
+  const event = await storage.createCalendarEvent({
+    workspaceId: data.workspaceId,
+    title: data.title,
+    description: data.description ?? null,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    location: data.location ?? null,
+    type: data.type,
+    attendees: JSON.stringify(data.attendees ?? []),
+    pageId: data.pageId ?? null,
+    createdBy: userId,
+    isAllDay: data.isAllDay ?? false,
+    recurrence: normalizeRecurrence(data.recurrence),
+    timezone: data.timezone ?? null,
+    status: data.status ?? 'confirmed',
+  });
+  return toEventView(event);
+}
+
+export async function updateEvent(eventId: number, userId: string, input: unknown): Promise<CalendarEventView> {
+  const { event, role } = await getEventForUser(eventId, userId);
+  requireEventEdit(event, role, userId);
+  const data = updateCalendarEventSchema.parse(input);
+
+  checkTimes(data.startDate ?? event.startDate, data.endDate ?? event.endDate);
+  checkTimeZone(data.timezone);
+  if (data.pageId !== undefined) {
+    await checkLinkedPage(event.workspaceId, data.pageId, userId);
+  }
+
+  const { attendees, recurrence, ...rest } = data;
+  const updates: Partial<InsertCalendarEvent> = { ...rest };
+  if (attendees !== undefined) updates.attendees = JSON.stringify(attendees);
+  if (recurrence !== undefined) updates.recurrence = normalizeRecurrence(recurrence);
+
+  const updated = await storage.updateCalendarEvent(eventId, updates);
+  return toEventView(updated!);
+}
+
+export async function deleteEvent(eventId: number, userId: string): Promise<CalendarEvent> {
+  const { event, role } = await getEventForUser(eventId, userId);
+  requireEventEdit(event, role, userId);
+  await storage.deleteCalendarEvent(eventId);
+  return event;
+}
+
+// Removes one occurrence from a series by adding it to the exceptions
+export async function skipOccurrence(eventId: number, userId: string, occurrenceStart: number): Promise<CalendarEventView> {
+  const { event, role } = await getEventForUser(eventId, userId);
+  requireEventEdit(event, role, userId);
+
+  const rule = parseRecurrence(event.recurrence);
+  if (!rule) {
+    throw new CalendarError('Only recurring events have occurrences');
+  }
+  const isOccurrence = expandEvent(event, occurrenceStart, occurrenceStart + 1)
+    .some(occurrence => occurrence.occurrenceStart === occurrenceStart);
+  if (!isOccurrence) {
+    throw new CalendarError('No occurrence starts at that time', 404);
+  }
+
+  rule.exceptions.push(occurrenceStart);
+  const updated = await storage.updateCalendarEvent(eventId, { recurrence: formatRecurrence(rule) });
+  return toEventView(updated!);
+}
+
+// Calendar apps cannot send our session cookie, so feeds are addressed by a signed
+// token naming the workspace and the subscribing user. Membership is checked again on
+// every fetch, so leaving the workspace ends the subscription.
+
+function feedSecret(): string {
+  return process.env.CALENDAR_FEED_SECRET || sessionSecret();
+}
+
+function signFeed(payload: string): string {
+  return crypto.createHmac('sha256', feedSecret()).update(`calendar-feed:${payload}`).digest('base64url');
+}
+
+export async function getFeedToken(workspaceId: number, userId: string): Promise<string> {
+  await requireRole(workspaceId, userId);
+  const payload = `${workspaceId}.${Buffer.from(userId).toString('base64url')}`;
+  return `${payload}.${signFeed(payload)}`;
+}
+
+async function readFeedToken(token: string): Promise<{ workspaceId: number; userId: string }> {
+  const [workspace, user, signature] = token.split('.');
+  const expected = signature ? signFeed(`${workspace}.${user}`) : '';
+  if (!signature || signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw new CalendarError('Calendar feed not found', 404);
+  }
+  const workspaceId = parseInt(workspace);
+  const userId = Buffer.from(user, 'base64url').toString();
+  if (!await storage.getUserWorkspaceRole(workspaceId, userId)) {
+    throw new CalendarError('Calendar feed not found', 404);
+  }
+  return { workspaceId, userId };
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of Array.from(line)) {
+    const length = Buffer.byteLength(char, 'utf8');
+    if (size + length > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function formatLocal(time: number, timeZone: string): string {
+  const wall = toWallTime(time, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${wall.year}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+function eventLines(event: CalendarEvent, host: string): string[] {
+  const view = toEventView(event);
+  const zoned = !event.isAllDay && event.timezone && isValidTimeZone(event.timezone) ? event.timezone : null;
+  const dateValue = (name: string, time: number) => {
+    if (event.isAllDay) return `${name};VALUE=DATE:${formatICalDate(time, true)}`;
+    if (zoned) return `${name};TZID=${zoned}:${formatLocal(time, zoned)}`;
+    return `${name}:${formatICalDate(time)}`;
+  };
+  // All-day ends are exclusive in iCalendar, so a one-day event ends the next day
+  const end = event.isAllDay ? Math.max(event.endDate, event.startDate) + DAY_MS : event.endDate;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid ?? `event-${event.id}@${host}`}`,
+    `DTSTAMP:${formatICalDate(event.updatedAt || Date.now())}`,
+    dateValue('DTSTART', event.startDate),
+    event.isAllDay ? `DTEND;VALUE=DATE:${formatICalDate(end, true)}` : dateValue('DTEND', end),
+    `SUMMARY:${escapeText(event.title)}`,
+    `STATUS:${(event.status ?? 'confirmed').toUpperCase()}`,
+    `CATEGORIES:${escapeText(event.type)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatICalDate(event.updatedAt)}`);
+  for (const attendee of view.attendees) {
+    lines.push(attendee.includes('@') ? `ATTENDEE:mailto:${attendee}` : `ATTENDEE;CN=${escapeText(attendee)}:invalid:nomail`);
+  }
+
+  try {
+    const rule = parseRecurrence(event.recurrence);
+    if (rule) {
+      lines.push(`RRULE:${formatRRule(rule)}`);
+      if (rule.exceptions.length > 0) {
+        lines.push(event.isAllDay
+          ? `EXDATE;VALUE=DATE:${rule.exceptions.map(time => formatICalDate(time, true)).join(',')}`
+          : zoned
+            ? `EXDATE;TZID=${zoned}:${rule.exceptions.map(time => formatLocal(time, zoned)).join(',')}`
+            : `EXDATE:${rule.exceptions.map(time => formatICalDate(time)).join(',')}`);
+      }
+    }
+  } catch {
+    // Unreadable rules export as a single event
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildICalendar(name: string, events: CalendarEvent[], host: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Notion Clone//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => eventLines(event, host)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export async function buildWorkspaceFeed(token: string, host: string): Promise<string> {
+  const { workspaceId, userId } = await readFeedToken(token);
+  const workspace = await storage.getWorkspace(workspaceId);
+  const events = await storage.getWorkspaceCalendarEvents(workspaceId);
+  const visible = events.some(event => event.pageId) ? await getVisiblePageIds(workspaceId, userId) : null;
+  return buildICalendar(
+    workspace?.name ?? 'Calendar',
+    events.filter(event => !event.pageId || visible!.has(event.pageId)),
+    host,
+  );
+}
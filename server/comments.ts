@@ -0,0 +1,206 @@
+import { storage } from './storage';
+import { getPageAccess, hasAccess } from './permissions';
+import { notifyQuietly } from './notifications';
+import { mentionsToPlainText } from './mentions';
+import {
+  createCommentSchema, updateCommentSchema,
+  type Comment, type CommentAuthor, type CommentThread, type CommentWithAuthor, type Page, type PageAccessLevel, type User,
+} from '@shared/schema';
+
+// Page- and block-level discussion threads. A thread is a top-level comment plus
+// its replies; replies are one level deep and always point at the thread root.
+
+export class CommentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CommentError';
+  }
+}
+
+export interface CommentAccess {
+  comment: Comment;
+  page: Page;
+  level: PageAccessLevel;
+}
+
+export function toAuthor(userId: string, user: User | undefined): CommentAuthor {
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ')
+    || user?.username
+    || user?.email
+    || userId;
+  return { id: userId, name, profileImageUrl: user?.profileImageUrl ?? null };
+}
+
+async function withAuthors(list: Comment[]): Promise<CommentWithAuthor[]> {
+  const authorIds = Array.from(new Set(list.map(comment => comment.authorId)));
+  const users = new Map(await Promise.all(authorIds.map(async id => [id, await storage.getUser(id)] as const)));
+  return list.map(comment => ({ ...comment, author: toAuthor(comment.authorId, users.get(comment.authorId)) }));
+}
+
+function byCreatedAt(a: Comment, b: Comment): number {
+  return (a.createdAt ?? 0) - (b.createdAt ?? 0) || a.id - b.id;
+}
+
+// Reading threads needs view access on the page; writing to them needs comment access
+export async function getPageForComments(pageId: number, userId: string, required: PageAccessLevel = 'view'): Promise<{ page: Page; level: PageAccessLevel }> {
+  const page = await storage.getPage(pageId);
+  if (!page || page.isDeleted) {
+    throw new CommentError('Page not found', 404);
+  }
+  const level = await getPageAccess(page, userId);
+  if (level === 'none') {
+    throw new CommentError('Page not found', 404);
+  }
+  if (!hasAccess(level, required)) {
+    throw new CommentError('Access denied', 403);
+  }
+  return { page, level };
+}
+
+// Loads a comment together with its page, checking the user can comment on that page
+export async function getCommentForUser(commentId: number, userId: string): Promise<CommentAccess> {
+  const comment = await storage.getComment(commentId);
+  if (!comment || comment.pageId === null) {
+    throw new CommentError('Comment not found', 404);
+  }
+  const { page, level } = await getPageForComments(comment.pageId, userId, 'comment');
+  return { comment, page, level };
+}
+
+export async function getPageThreads(pageId: number, options: { includeResolved?: boolean; blockId?: number } = {}): Promise<CommentThread[]> {
+  const all = (await withAuthors(await storage.getPageComments(pageId))).sort(byCreatedAt);
+  const threads = new Map<number, CommentThread>();
+  for (const comment of all) {
+    if (comment.parentId === null) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+  for (const comment of all) {
+    if (comment.parentId !== null) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+
+  return Array.from(threads.values()).filter(thread =>
+    (options.includeResolved || !thread.isResolved) &&
+    (options.blockId === undefined || thread.blockId === options.blockId)
+  );
+}
+
+export async function getThread(rootId: number): Promise<CommentThread> {
+  const root = await storage.getComment(rootId);
+  if (!root || root.pageId === null) {
+    throw new CommentError('Comment not found', 404);
+  }
+  const thread = (await getPageThreads(root.pageId, { includeResolved: true })).find(candidate => candidate.id === rootId);
+  if (!thread) {
+    throw new CommentError('Comment not found', 404);
+  }
+  return thread;
+}
+
+// Starts a thread on the page (or one of its blocks), or replies to an existing thread.
+// Returns the thread the comment ended up in.
+export async function addComment(page: Page, userId: string, input: unknown): Promise<{ comment: Comment; thread: CommentThread }> {
+  const parsed = createCommentSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new CommentError(parsed.error.issues[0]?.message ?? 'Invalid comment');
+  }
+  const { content } = parsed.data;
+  let blockId = parsed.data.blockId ?? null;
+  let parentId = parsed.data.parentId ?? null;
+
+  if (parentId !== null) {
+    const parent = await storage.getComment(parentId);
+    if (!parent || parent.pageId !== page.id) {
+      throw new CommentError('Thread not found', 404);
+    }
+    // Replying to a reply lands in the same thread
+    parentId = parent.parentId ?? parent.id;
+    const root = parent.parentId ? await storage.getComment(parent.parentId) : parent;
+    blockId = root?.blockId ?? null;
+  } else if (blockId !== null) {
+    const block = await storage.getBlockById(blockId);
+    if (!block || block.pageId !== page.id) {
+      throw new CommentError('Block not found', 404);
+    }
+  }
+
+  const comment = await storage.createComment({
+    pageId: page.id,
+    blockId,
+    parentId,
+    content,
+    authorId: userId,
+  });
+
+  // A reply on a resolved thread brings the discussion back
+  if (parentId !== null) {
+    const root = await storage.getComment(parentId);
+    if (root?.isResolved) {
+      await storage.reopenComment(parentId);
+    }
+  }
+
+  const thread = await getThread(parentId ?? comment.id);
+  await notifyCommentRecipients(page, comment, thread, userId);
+  return { comment, thread };
+}
+
+// The page's creator and everyone already in the thread hear about new comments,
+// as long as they can still see the page
+async function notifyCommentRecipients(page: Page, comment: Comment, thread: CommentThread, userId: string) {
+  const candidates = new Set([page.createdBy, thread.authorId, ...thread.replies.map(reply => reply.authorId)]);
+  const recipientIds: string[] = [];
+  for (const candidate of Array.from(candidates)) {
+    if (candidate !== userId && await getPageAccess(page, candidate) !== 'none') {
+      recipientIds.push(candidate);
+    }
+  }
+
+  const author = toAuthor(userId, await storage.getUser(userId));
+  const excerpt = mentionsToPlainText(comment.content).trim();
+  await notifyQuietly({
+    type: 'comment',
+    recipientIds,
+    actorId: userId,
+    workspaceId: page.workspaceId,
+    title: comment.parentId
+      ? `${author.name} replied in ${page.title || 'Untitled'}`
+      : `${author.name} commented on ${page.title || 'Untitled'}`,
+    message: excerpt.length > 140 ? `${excerpt.slice(0, 140)}…` : excerpt,
+    url: `/page/${page.id}`,
+    data: { pageId: page.id, commentId: comment.id, threadId: thread.id, blockId: comment.blockId },
+  });
+}
+
+export async function editComment(access: CommentAccess, userId: string, input: unknown): Promise<CommentThread> {
+  if (access.comment.authorId !== userId) {
+    throw new CommentError('Only the author can edit a comment', 403);
+  }
+  const parsed = updateCommentSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new CommentError(parsed.error.issues[0]?.message ?? 'Invalid comment');
+  }
+  await storage.updateComment(access.comment.id, { content: parsed.data.content });
+  return await getThread(access.comment.parentId ?? access.comment.id);
+}
+
+// Authors can delete their own comments; anyone with full access to the page can delete any
+export async function removeComment(access: CommentAccess, userId: string): Promise<void> {
+  const isModerator = access.level === 'full';
+  if (access.comment.authorId !== userId && !isModerator) {
+    throw new CommentError('Only the author can delete a comment', 403);
+  }
+  await storage.deleteComment(access.comment.id);
+}
+
+export async function setThreadResolved(access: CommentAccess, userId: string, resolved: boolean): Promise<CommentThread> {
+  const rootId = access.comment.parentId ?? access.comment.id;
+  if (resolved) {
+    await storage.resolveComment(rootId, userId);
+  } else {
+    await storage.reopenComment(rootId);
+  }
+  return await getThread(rootId);
+}
@@ -0,0 +1,838 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { storage } from './storage';
+import { getPageAccess, hasAccess } from './permissions';
+import {
+  databasePropertySchema, databaseOperatorsByType,
+  type Block, type Database, type DatabaseView, type Page,
+  type DatabaseProperty, type DatabasePropertyValue, type DatabaseDateValue,
+  type DatabaseFilter, type DatabaseFilterCondition, type DatabaseSort,
+  type DatabaseRow, type DatabaseViewConfig, type DatabaseWithViews, type DatabaseQuery, type UpdateDatabaseView,
+  type DatabaseViewType, type PageAccessLevel,
+} from '@shared/schema';
+
+export class DatabaseError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
+
+const TITLE_PROPERTY: DatabaseProperty = { id: 'title', name: 'Name', type: 'title' };
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function getProperties(database: Database): DatabaseProperty[] {
+  return parseJson<DatabaseProperty[]>(database.properties, [TITLE_PROPERTY]);
+}
+
+export function toViewConfig(view: DatabaseView): DatabaseViewConfig {
+  return {
+    ...view,
+    filter: parseJson<DatabaseFilter | null>(view.filter, null),
+    sorts: parseJson<DatabaseSort[]>(view.sorts, []),
+    visibleProperties: parseJson<string[] | null>(view.visibleProperties, null),
+  };
+}
+
+// Loads a database for a request, checking the user's access to the page that owns it
+export async function getDatabaseForUser(databaseId: number, userId: string, required: PageAccessLevel = 'view'): Promise<Database> {
+  const database = await storage.getDatabase(databaseId);
+  if (!database) {
+    throw new DatabaseError('Database not found', 404);
+  }
+  const page = await storage.getPage(database.pageId);
+  const level = page ? await getPageAccess(page, userId) : 'none';
+  if (level === 'none') {
+    throw new DatabaseError('Database not found', 404);
+  }
+  if (!hasAccess(level, required)) {
+    throw new DatabaseError('Access denied', 403);
+  }
+  return database;
+}
+
+export async function getDatabaseWithViews(database: Database): Promise<DatabaseWithViews> {
+  const views = await storage.getDatabaseViews(database.id);
+  return {
+    ...database,
+    properties: getProperties(database),
+    views: views.map(toViewConfig),
+  };
+}
+
+// Property schema
+
+// New properties and options may arrive without ids; they get one here. The title
+// property is always "title" since its value is the row page's title.
+function assignIds(input: unknown): unknown {
+  if (!Array.isArray(input)) return input;
+  return input.map(property => {
+    if (!property || typeof property !== 'object') return property;
+    return {
+      ...property,
+      id: property.type === 'title' ? 'title' : property.id ?? nanoid(8),
+      options: Array.isArray(property.options)
+        ? property.options.map((option: any) => option && typeof option === 'object'
+          ? { ...option, id: option.id ?? nanoid(8) }
+          : option)
+        : property.options,
+    };
+  });
+}
+
+function validateProperties(input: unknown): DatabaseProperty[] {
+  const parsed = z.array(databasePropertySchema).safeParse(assignIds(input));
+  if (!parsed.success) {
+    throw new DatabaseError('Invalid property schema');
+  }
+  const properties = parsed.data;
+
+  const ids = new Set<string>();
+  for (const property of properties) {
+    if (ids.has(property.id)) {
+      throw new DatabaseError(`Duplicate property id "${property.id}"`);
+    }
+    ids.add(property.id);
+
+    if (property.type === 'select' || property.type === 'multi_select') {
+      const optionIds = new Set<string>();
+      property.options = (property.options ?? []).map(option => {
+        if (optionIds.has(option.id)) {
+          throw new DatabaseError(`Duplicate option id "${option.id}" in "${property.name}"`);
+        }
+        optionIds.add(option.id);
+        return option;
+      });
+    } else {
+      delete property.options;
+    }
+
+    if (property.type === 'relation') {
+      if (!property.relationDatabaseId) {
+        throw new DatabaseError(`Relation "${property.name}" needs a target database`);
+      }
+    } else {
+      delete property.relationDatabaseId;
+    }
+  }
+
+  if (properties.filter(property => property.type === 'title').length !== 1) {
+    throw new DatabaseError('A database needs exactly one title property');
+  }
+  return properties;
+}
+
+async function checkRelationTargets(workspaceId: number, properties: DatabaseProperty[]) {
+  for (const property of properties) {
+    if (property.type !== 'relation') continue;
+    const target = await storage.getDatabase(property.relationDatabaseId!);
+    if (!target || target.workspaceId !== workspaceId) {
+      throw new DatabaseError(`Relation "${property.name}" points at an unknown database`);
+    }
+  }
+}
+
+// Row values
+
+function isEmpty(value: DatabasePropertyValue | undefined): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function resolveOption(property: DatabaseProperty, value: unknown): string {
+  const options = property.options ?? [];
+  const option = options.find(candidate => candidate.id === value) ??
+    options.find(candidate => typeof value === 'string' && candidate.name.toLowerCase() === value.toLowerCase());
+  if (!option) {
+    throw new DatabaseError(`"${String(value)}" is not an option of "${property.name}"`);
+  }
+  return option.id;
+}
+
+function parseDate(value: unknown, property: DatabaseProperty): DatabaseDateValue {
+  const date = typeof value === 'string' ? { start: value } : value as DatabaseDateValue;
+  if (!date || typeof date.start !== 'string' || isNaN(Date.parse(date.start))) {
+    throw new DatabaseError(`"${property.name}" needs a valid date`);
+  }
+  if (date.end !== undefined && date.end !== null) {
+    if (typeof date.end !== 'string' || isNaN(Date.parse(date.end))) {
+      throw new DatabaseError(`"${property.name}" has an invalid end date`);
+    }
+    if (Date.parse(date.end) < Date.parse(date.start)) {
+      throw new DatabaseError(`"${property.name}" ends before it starts`);
+    }
+    return { start: date.start, end: date.end };
+  }
+  return { start: date.start };
+}
+
+// Coerces a single value to the property's type. Throws DatabaseError when it cannot.
+function normalizeValue(property: DatabaseProperty, value: unknown): DatabasePropertyValue {
+  if (property.type === 'checkbox') {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new DatabaseError(`"${property.name}" must be true or false`);
+  }
+
+  if (isEmpty(value as DatabasePropertyValue)) {
+    return null;
+  }
+
+  switch (property.type) {
+    case 'title':
+    case 'text':
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new DatabaseError(`"${property.name}" must be text`);
+      }
+      return String(value);
+
+    case 'url': {
+      const url = String(value).trim();
+      try {
+        new URL(url);
+      } catch {
+        throw new DatabaseError(`"${property.name}" must be a valid URL`);
+      }
+      return url;
+    }
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'boolean' || !Number.isFinite(number)) {
+        throw new DatabaseError(`"${property.name}" must be a number`);
+      }
+      return number;
+    }
+
+    case 'select':
+      return resolveOption(property, value);
+
+    case 'multi_select':
+      return Array.from(new Set(asArray(value).map(option => resolveOption(property, option))));
+
+    case 'date':
+      return parseDate(value, property);
+
+    case 'person':
+      return Array.from(new Set(asArray(value).map(userId => {
+        if (typeof userId !== 'string' || !userId) {
+          throw new DatabaseError(`"${property.name}" must list user ids`);
+        }
+        return userId;
+      })));
+
+    case 'relation':
+      return Array.from(new Set(asArray(value).map(pageId => {
+        const id = typeof pageId === 'number' ? pageId : parseInt(String(pageId));
+        if (!Number.isInteger(id)) {
+          throw new DatabaseError(`"${property.name}" must list page ids`);
+        }
+        return id;
+      })));
+  }
+}
+
+async function checkReferences(database: Database, property: DatabaseProperty, value: DatabasePropertyValue) {
+  if (!Array.isArray(value) || value.length === 0) return;
+
+  if (property.type === 'person') {
+    const members = await storage.getWorkspaceMembers(database.workspaceId);
+    const memberIds = new Set(members.map(member => member.userId));
+    const unknown = (value as string[]).find(userId => !memberIds.has(userId));
+    if (unknown) {
+      throw new DatabaseError(`"${unknown}" is not a member of this workspace`);
+    }
+  }
+
+  if (property.type === 'relation') {
+    for (const pageId of value as number[]) {
+      const page = await storage.getPage(pageId);
+      if (!page || page.databaseId !== property.relationDatabaseId) {
+        throw new DatabaseError(`Page ${pageId} is not a row of the related database`);
+      }
+    }
+  }
+}
+
+function rowValues(page: Page): Record<string, DatabasePropertyValue> {
+  return parseJson<Record<string, DatabasePropertyValue>>(page.properties, {});
+}
+
+export function toRow(page: Page): DatabaseRow {
+  return {
+    id: page.id,
+    title: page.title,
+    icon: page.icon,
+    values: { ...rowValues(page), title: page.title },
+    createdBy: page.createdBy,
+    lastEditedBy: page.lastEditedBy,
+    createdAt: page.createdAt,
+    updatedAt: page.updatedAt,
+  };
+}
+
+// Validates `input` against the schema. Only keys present in `input` are touched;
+// the title property maps onto the row page's title.
+async function resolveRowValues(
+  database: Database,
+  input: Record<string, unknown>,
+  current: Record<string, DatabasePropertyValue>
+): Promise<{ title?: string; values: Record<string, DatabasePropertyValue> }> {
+  const properties = getProperties(database);
+  const values = { ...current };
+  let title: string | undefined;
+
+  for (const [propertyId, raw] of Object.entries(input)) {
+    const property = properties.find(candidate => candidate.id === propertyId);
+    if (!property) {
+      throw new DatabaseError(`Unknown property "${propertyId}"`);
+    }
+    const value = normalizeValue(property, raw);
+    if (property.type === 'title') {
+      title = (value as string | null) ?? '';
+      continue;
+    }
+    await checkReferences(database, property, value);
+    values[property.id] = value;
+  }
+
+  return { title, values };
+}
+
+export async function createRow(
+  database: Database,
+  input: { values?: Record<string, unknown>; icon?: string | null },
+  userId: string
+): Promise<DatabaseRow> {
+  const { title, values } = await resolveRowValues(database, input.values ?? {}, {});
+
+  // Fill in checkboxes so filters on them see an explicit false
+  for (const property of getProperties(database)) {
+    if (property.type === 'checkbox' && values[property.id] === undefined) {
+      values[property.id] = false;
+    }
+  }
+
+  const page = await storage.createPage({
+    title: title ?? '',
+    icon: input.icon ?? null,
+    parentId: database.pageId,
+    workspaceId: database.workspaceId,
+    databaseId: database.id,
+    properties: JSON.stringify(values),
+    createdBy: userId,
+    lastEditedBy: userId,
+  });
+  return toRow(page);
+}
+
+export async function updateRow(
+  database: Database,
+  page: Page,
+  input: { values?: Record<string, unknown>; icon?: string | null },
+  userId: string
+): Promise<DatabaseRow> {
+  const { title, values } = await resolveRowValues(database, input.values ?? {}, rowValues(page));
+
+  const updated = await storage.updatePage(page.id, {
+    ...(title !== undefined ? { title } : {}),
+    ...(input.icon !== undefined ? { icon: input.icon } : {}),
+    properties: JSON.stringify(values),
+    lastEditedBy: userId,
+  });
+  return toRow(updated!);
+}
+
+// Filtering and sorting
+
+function validateFilter(filter: DatabaseFilter, properties: DatabaseProperty[]) {
+  if ('and' in filter) {
+    filter.and.forEach(child => validateFilter(child, properties));
+    return;
+  }
+  if ('or' in filter) {
+    filter.or.forEach(child => validateFilter(child, properties));
+    return;
+  }
+
+  const property = properties.find(candidate => candidate.id === filter.propertyId);
+  if (!property) {
+    throw new DatabaseError(`Unknown property "${filter.propertyId}" in filter`);
+  }
+  if (!databaseOperatorsByType[property.type].includes(filter.operator)) {
+    throw new DatabaseError(`"${filter.operator}" cannot be used with ${property.type} property "${property.name}"`);
+  }
+  if (!['is_empty', 'is_not_empty'].includes(filter.operator) && (filter.value === undefined || filter.value === null)) {
+    throw new DatabaseError(`Filter on "${property.name}" needs a value`);
+  }
+}
+
+function validateSorts(sorts: DatabaseSort[], properties: DatabaseProperty[]) {
+  for (const sort of sorts) {
+    if (!properties.some(property => property.id === sort.propertyId)) {
+      throw new DatabaseError(`Unknown property "${sort.propertyId}" in sort`);
+    }
+  }
+}
+
+function dayOf(value: string): string {
+  return new Date(Date.parse(value)).toISOString().slice(0, 10);
+}
+
+function matchesCondition(row: DatabaseRow, property: DatabaseProperty, condition: DatabaseFilterCondition): boolean {
+  const value = row.values[property.id];
+  const target = condition.value;
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return isEmpty(value);
+    case 'is_not_empty':
+      return !isEmpty(value);
+  }
+
+  switch (property.type) {
+    case 'title':
+    case 'text':
+    case 'url': {
+      const text = String(value ?? '').toLowerCase();
+      const needle = String(target).toLowerCase();
+      switch (condition.operator) {
+        case 'equals': return text === needle;
+        case 'does_not_equal': return text !== needle;
+        case 'contains': return text.includes(needle);
+        case 'does_not_contain': return !text.includes(needle);
+        case 'starts_with': return text.startsWith(needle);
+        case 'ends_with': return text.endsWith(needle);
+      }
+      return false;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number') return condition.operator === 'does_not_equal';
+      const number = Number(target);
+      switch (condition.operator) {
+        case 'equals': return value === number;
+        case 'does_not_equal': return value !== number;
+        case 'greater_than': return value > number;
+        case 'less_than': return value < number;
+        case 'greater_than_or_equal_to': return value >= number;
+        case 'less_than_or_equal_to': return value <= number;
+      }
+      return false;
+    }
+
+    case 'checkbox':
+      return condition.operator === 'equals' ? value === Boolean(target) : value !== Boolean(target);
+
+    case 'select': {
+      const optionId = (property.options ?? []).find(option => option.id === target || option.name === target)?.id;
+      return condition.operator === 'equals' ? value === optionId : value !== optionId;
+    }
+
+    case 'multi_select':
+    case 'person':
+    case 'relation': {
+      let needle = target;
+      if (property.type === 'multi_select') {
+        needle = (property.options ?? []).find(option => option.id === target || option.name === target)?.id;
+      } else if (property.type === 'relation') {
+        needle = Number(target);
+      }
+      const contains = Array.isArray(value) && (value as unknown[]).includes(needle);
+      return condition.operator === 'contains' ? contains : !contains;
+    }
+
+    case 'date': {
+      const date = value as DatabaseDateValue | null;
+      if (!date || isNaN(Date.parse(String(target)))) return false;
+      const day = dayOf(date.start);
+      const targetDay = dayOf(String(target));
+      switch (condition.operator) {
+        case 'equals': return day === targetDay;
+        case 'before': return day < targetDay;
+        case 'after': return day > targetDay;
+        case 'on_or_before': return day <= targetDay;
+        case 'on_or_after': return day >= targetDay;
+      }
+      return false;
+    }
+  }
+}
+
+function matchesFilter(row: DatabaseRow, filter: DatabaseFilter, properties: DatabaseProperty[]): boolean {
+  if ('and' in filter) {
+    return filter.and.every(child => matchesFilter(row, child, properties));
+  }
+  if ('or' in filter) {
+    return filter.or.length === 0 || filter.or.some(child => matchesFilter(row, child, properties));
+  }
+  const property = properties.find(candidate => candidate.id === filter.propertyId);
+  return property ? matchesCondition(row, property, filter) : true;
+}
+
+function sortKey(property: DatabaseProperty, value: DatabasePropertyValue | undefined): string | number | null {
+  if (isEmpty(value)) return null;
+
+  switch (property.type) {
+    case 'number':
+      return value as number;
+    case 'checkbox':
+      return value ? 1 : 0;
+    case 'date':
+      return Date.parse((value as DatabaseDateValue).start);
+    case 'select':
+      // Options sort in the order they are defined, like the board columns
+      return (property.options ?? []).findIndex(option => option.id === value);
+    case 'multi_select': {
+      const first = (property.options ?? []).find(option => option.id === (value as string[])[0]);
+      return first?.name.toLowerCase() ?? null;
+    }
+    case 'person':
+    case 'relation':
+      return String((value as unknown[])[0]).toLowerCase();
+    default:
+      return String(value).toLowerCase();
+  }
+}
+
+function compareRows(a: DatabaseRow, b: DatabaseRow, sorts: DatabaseSort[], properties: DatabaseProperty[]): number {
+  for (const sort of sorts) {
+    const property = properties.find(candidate => candidate.id === sort.propertyId);
+    if (!property) continue;
+
+    const left = sortKey(property, a.values[property.id]);
+    const right = sortKey(property, b.values[property.id]);
+    if (left === right) continue;
+    // Empty values always go last, whatever the direction
+    if (left === null) return 1;
+    if (right === null) return -1;
+
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    if (order !== 0) {
+      return sort.direction === 'descending' ? -order : order;
+    }
+  }
+  return 0;
+}
+
+// Runs a query against a database. A view supplies the saved filter and sorts;
+// a filter passed alongside it narrows the view further and passed sorts replace its sorts.
+export async function queryDatabase(database: Database, query: DatabaseQuery): Promise<{ view: DatabaseViewConfig | null; rows: DatabaseRow[] }> {
+  const properties = getProperties(database);
+
+  let view: DatabaseViewConfig | null = null;
+  if (query.viewId !== undefined) {
+    const savedView = await storage.getDatabaseView(query.viewId);
+    if (!savedView || savedView.databaseId !== database.id) {
+      throw new DatabaseError('View not found', 404);
+    }
+    view = toViewConfig(savedView);
+  }
+
+  if (query.filter) validateFilter(query.filter, properties);
+  if (query.sorts) validateSorts(query.sorts, properties);
+
+  const filters = [view?.filter, query.filter].filter((filter): filter is DatabaseFilter => !!filter);
+  const sorts = query.sorts ?? view?.sorts ?? [];
+
+  const pages = await storage.getDatabaseRows(database.id);
+  const rows = pages
+    .map(toRow)
+    .filter(row => filters.every(filter => matchesFilter(row, filter, properties)))
+    .sort((a, b) => compareRows(a, b, sorts, properties));
+
+  return { view, rows };
+}
+
+// Views
+
+function checkViewSettings(
+  settings: UpdateDatabaseView,
+  type: DatabaseViewType,
+  properties: DatabaseProperty[]
+) {
+  if (settings.filter) validateFilter(settings.filter, properties);
+  if (settings.sorts) validateSorts(settings.sorts, properties);
+
+  if (settings.groupBy) {
+    const property = properties.find(candidate => candidate.id === settings.groupBy);
+    if (!property || !['select', 'multi_select', 'person', 'checkbox'].includes(property.type)) {
+      throw new DatabaseError('Boards can only be grouped by a select, multi-select, person or checkbox property');
+    }
+  }
+  if (settings.dateProperty) {
+    const property = properties.find(candidate => candidate.id === settings.dateProperty);
+    if (!property || property.type !== 'date') {
+      throw new DatabaseError('Calendar views need a date property');
+    }
+  }
+  if (settings.visibleProperties) {
+    validateSorts(settings.visibleProperties.map(propertyId => ({ propertyId, direction: 'ascending' })), properties);
+  }
+
+  if (type === 'calendar' && settings.dateProperty === undefined) {
+    const dateProperty = properties.find(property => property.type === 'date');
+    if (!dateProperty) {
+      throw new DatabaseError('Add a date property before creating a calendar view');
+    }
+    settings.dateProperty = dateProperty.id;
+  }
+  if (type === 'board' && settings.groupBy === undefined) {
+    settings.groupBy = properties.find(property => property.type === 'select')?.id ?? null;
+  }
+}
+
+function serializeViewSettings(settings: UpdateDatabaseView) {
+  const { filter, sorts, visibleProperties, ...rest } = settings;
+  return {
+    ...rest,
+    ...(filter !== undefined ? { filter: filter ? JSON.stringify(filter) : null } : {}),
+    ...(sorts !== undefined ? { sorts: JSON.stringify(sorts) } : {}),
+    ...(visibleProperties !== undefined
+      ? { visibleProperties: visibleProperties ? JSON.stringify(visibleProperties) : null }
+      : {}),
+  };
+}
+
+export async function createView(
+  database: Database,
+  settings: UpdateDatabaseView & { name: string },
+  userId: string
+): Promise<DatabaseViewConfig> {
+  const type = settings.type ?? 'table';
+  checkViewSettings(settings, type, getProperties(database));
+
+  const existing = await storage.getDatabaseViews(database.id);
+  const view = await storage.createDatabaseView({
+    ...serializeViewSettings(settings),
+    name: settings.name,
+    type,
+    databaseId: database.id,
+    position: settings.position ?? existing.length,
+    createdBy: userId,
+  });
+  return toViewConfig(view);
+}
+
+export async function updateView(
+  database: Database,
+  view: DatabaseView,
+  settings: UpdateDatabaseView
+): Promise<DatabaseViewConfig> {
+  const type = settings.type ?? view.type as DatabaseViewType;
+  checkViewSettings(settings, type, getProperties(database));
+
+  const updated = await storage.updateDatabaseView(view.id, serializeViewSettings(settings));
+  return toViewConfig(updated!);
+}
+
+// Drops filter conditions, sorts and settings that refer to properties which are
+// gone or whose type no longer supports them
+function pruneView(view: DatabaseViewConfig, properties: DatabaseProperty[]): UpdateDatabaseView | null {
+  const byId = new Map(properties.map(property => [property.id, property]));
+
+  const pruneFilter = (filter: DatabaseFilter): DatabaseFilter | null => {
+    if ('and' in filter || 'or' in filter) {
+      const key = 'and' in filter ? 'and' : 'or';
+      const children = ('and' in filter ? filter.and : filter.or)
+        .map(pruneFilter)
+        .filter((child): child is DatabaseFilter => child !== null);
+      return children.length > 0 ? { [key]: children } as DatabaseFilter : null;
+    }
+    const property = byId.get(filter.propertyId);
+    return property && databaseOperatorsByType[property.type].includes(filter.operator) ? filter : null;
+  };
+
+  const filter = view.filter ? pruneFilter(view.filter) : null;
+  const sorts = view.sorts.filter(sort => byId.has(sort.propertyId));
+  const visibleProperties = view.visibleProperties?.filter(propertyId => byId.has(propertyId)) ?? null;
+  const groupType = view.groupBy ? byId.get(view.groupBy)?.type : undefined;
+  const groupBy = groupType && ['select', 'multi_select', 'person', 'checkbox'].includes(groupType) ? view.groupBy : null;
+  const dateProperty = view.dateProperty && byId.get(view.dateProperty)?.type === 'date' ? view.dateProperty : null;
+
+  const changes: UpdateDatabaseView = {};
+  if (JSON.stringify(filter) !== JSON.stringify(view.filter)) changes.filter = filter;
+  if (sorts.length !== view.sorts.length) changes.sorts = sorts;
+  if (JSON.stringify(visibleProperties) !== JSON.stringify(view.visibleProperties)) changes.visibleProperties = visibleProperties;
+  if (groupBy !== view.groupBy) changes.groupBy = groupBy;
+  if (dateProperty !== view.dateProperty) changes.dateProperty = dateProperty;
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Carries a stored value across a schema change; values that no longer fit are cleared
+function migrateValue(before: DatabaseProperty, after: DatabaseProperty, value: DatabasePropertyValue): DatabasePropertyValue {
+  if (isEmpty(value)) return null;
+
+  let candidate: unknown = value;
+  if (before.type !== after.type) {
+    if (before.type === 'select' || before.type === 'multi_select') {
+      // Carry options over by name
+      const names = asArray(value).map(optionId => before.options?.find(option => option.id === optionId)?.name);
+      candidate = after.type === 'multi_select' ? names : names[0];
+    } else if (before.type === 'date') {
+      candidate = (value as DatabaseDateValue).start;
+    } else if (Array.isArray(value) && !['multi_select', 'person', 'relation'].includes(after.type)) {
+      candidate = value.join(', ');
+    }
+  } else if (after.type === 'relation' && before.relationDatabaseId !== after.relationDatabaseId) {
+    return null;
+  }
+
+  try {
+    const migrated = normalizeValue(after, candidate);
+    return Array.isArray(migrated) && migrated.length === 0 ? null : migrated;
+  } catch {
+    if (after.type === 'multi_select' && Array.isArray(candidate)) {
+      // Keep whichever options survived
+      const kept = candidate.filter(option => (after.options ?? []).some(o => o.id === option || o.name === option));
+      return kept.length > 0 ? normalizeValue(after, kept) : null;
+    }
+    return null;
+  }
+}
+
+export async function updateSchema(database: Database, input: unknown): Promise<Database> {
+  const properties = validateProperties(input);
+  await checkRelationTargets(database.workspaceId, properties);
+
+  const previous = new Map(getProperties(database).map(property => [property.id, property]));
+
+  const rows = await storage.getDatabaseRows(database.id);
+  for (const row of rows) {
+    const current = rowValues(row);
+    const values: Record<string, DatabasePropertyValue> = {};
+    for (const property of properties) {
+      const before = previous.get(property.id);
+      if (property.type === 'title' || !before || current[property.id] === undefined) continue;
+      values[property.id] = migrateValue(before, property, current[property.id]);
+    }
+    if (JSON.stringify(values) !== JSON.stringify(current)) {
+      await storage.updatePage(row.id, { properties: JSON.stringify(values) });
+    }
+  }
+
+  const views = await storage.getDatabaseViews(database.id);
+  for (const view of views) {
+    const changes = pruneView(toViewConfig(view), properties);
+    if (changes) {
+      await storage.updateDatabaseView(view.id, serializeViewSettings(changes));
+    }
+  }
+
+  const updated = await storage.updateDatabase(database.id, { properties: JSON.stringify(properties) });
+  return updated!;
+}
+
+// Databases
+
+export async function createDatabase(input: {
+  workspaceId: number;
+  title: string;
+  isInline: boolean;
+  // Inline: the page that gets the database block. Full-page: optional parent page.
+  pageId?: number | null;
+  position?: number;
+  properties?: unknown;
+  userId: string;
+}): Promise<DatabaseWithViews> {
+  const properties = input.properties === undefined ? [TITLE_PROPERTY] : validateProperties(input.properties);
+  await checkRelationTargets(input.workspaceId, properties);
+
+  let hostPageId: number;
+  if (input.isInline) {
+    const hostPage = input.pageId ? await storage.getPage(input.pageId) : undefined;
+    if (!hostPage || hostPage.workspaceId !== input.workspaceId) {
+      throw new DatabaseError('Inline databases need a page to live on');
+    }
+    hostPageId = hostPage.id;
+  } else {
+    if (input.pageId) {
+      const parent = await storage.getPage(input.pageId);
+      if (!parent || parent.workspaceId !== input.workspaceId) {
+        throw new DatabaseError('Parent page not found', 404);
+      }
+    }
+    const page = await storage.createPage({
+      title: input.title,
+      icon: '🗃️',
+      parentId: input.pageId ?? null,
+      workspaceId: input.workspaceId,
+      createdBy: input.userId,
+      lastEditedBy: input.userId,
+    });
+    hostPageId = page.id;
+  }
+
+  let database = await storage.createDatabase({
+    workspaceId: input.workspaceId,
+    pageId: hostPageId,
+    title: input.title,
+    isInline: input.isInline,
+    properties: JSON.stringify(properties),
+    createdBy: input.userId,
+  });
+
+  if (input.isInline) {
+    const existing = await storage.getBlocksByPageId(hostPageId);
+    const block = await storage.createBlock({
+      pageId: hostPageId,
+      type: 'database',
+      content: JSON.stringify({ databaseId: database.id }),
+      position: input.position ?? existing.length,
+      createdBy: input.userId,
+      lastEditedBy: input.userId,
+    });
+    database = (await storage.updateDatabase(database.id, { blockId: block.id }))!;
+  }
+
+  await storage.createDatabaseView({
+    databaseId: database.id,
+    name: 'Table',
+    type: 'table',
+    position: 0,
+    createdBy: input.userId,
+  });
+
+  return await getDatabaseWithViews(database);
+}
+
+export async function deleteDatabase(database: Database): Promise<void> {
+  const rows = await storage.getDatabaseRows(database.id);
+  for (const row of rows) {
+    await storage.deletePage(row.id);
+  }
+
+  if (database.isInline && database.blockId) {
+    await storage.deleteBlock(database.blockId);
+  } else if (!database.isInline) {
+    await storage.deletePage(database.pageId);
+  }
+
+  await storage.deleteDatabase(database.id);
+}
+
+// Deleting an inline database's block deletes the database and its rows with it
+export async function deleteBlock(block: Block, workspaceId: number): Promise<void> {
+  const inlineDatabase = block.type === 'database'
+    ? (await storage.getWorkspaceDatabases(workspaceId)).find(database => database.blockId === block.id)
+    : undefined;
+  if (inlineDatabase) {
+    await deleteDatabase(inlineDatabase);
+  } else {
+    await storage.deleteBlock(block.id);
+  }
+}
@@ -2,5 +2,5 @@ import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
 import * as schema from "@shared/schema";
 
-const sqlite = new Database('notion_clone.db');
+export const sqlite = new Database('notion_clone.db');
 export const db = drizzle({ client: sqlite, schema });
\ No newline at end of file
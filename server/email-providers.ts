@@ -0,0 +1,497 @@
+import { withImap, ImapError, type ImapClient, type ImapConfig, type ImapMailbox } from './imap';
+import { sendMail, verifySmtp, SmtpError, type SmtpConfig } from './smtp';
+import { parseMessage, parseMime, findPart, formatAddress, textToHtml, decodeWords, parseAddressList } from './mime';
+import type { EmailAttachmentInfo, EmailFolder } from '@shared/schema';
+
+// Mail providers behind one interface. The email service keeps a cache of recent mail
+// in email_threads/email_messages and asks a provider what changed; providers never
+// touch the database.
+
+export class EmailProviderError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+    this.name = 'EmailProviderError';
+  }
+}
+
+// A message as the provider reports it. `remoteId` is whatever the provider needs to
+// act on the message again; `threadKey` groups messages into threads.
+export interface RemoteMessage {
+  remoteId: string;
+  threadKey: string;
+  messageId: string | null;
+  references: string[]; // Message-IDs of earlier messages, oldest first
+  subject: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  date: number;
+  body: string; // HTML
+  isRead: boolean;
+  isStarred: boolean;
+  folders: EmailFolder[];
+  attachments: EmailAttachmentInfo[];
+}
+
+export type RemoteMessageState = Pick<RemoteMessage, 'remoteId' | 'isRead' | 'isStarred' | 'folders'>;
+
+// What the cache already holds
+export interface SyncSnapshot {
+  messages: Array<{ remoteId: string; threadKey: string }>;
+  threadVersions: Map<string, string>;
+}
+
+export interface SyncResult {
+  messages: RemoteMessage[]; // not cached yet
+  states: RemoteMessageState[]; // cached; flags and folders may have changed
+  removed: string[]; // cached, but gone from the mailbox
+  threadVersions: Map<string, string>;
+}
+
+export interface OutgoingEmail {
+  raw: Buffer; // complete RFC 5322 message
+  from: string;
+  recipients: string[]; // envelope, including Bcc
+  threadKey: string | null;
+}
+
+export interface EmailProvider {
+  // IMAP threads are rebuilt from Message-ID headers; Gmail names its own threads
+  readonly threadsByHeaders: boolean;
+  verify(): Promise<void>;
+  sync(snapshot: SyncSnapshot): Promise<SyncResult>;
+  setFlags(remoteIds: string[], flags: { isRead?: boolean; isStarred?: boolean }): Promise<void>;
+  move(remoteIds: string[], folder: EmailFolder): Promise<void>;
+  remove(remoteIds: string[]): Promise<void>; // permanently
+  send(email: OutgoingEmail): Promise<{ remoteId: string | null; threadKey: string | null }>;
+  getAttachment(remoteId: string, attachmentId: string): Promise<Buffer>;
+}
+
+const GMAIL_API = 'https://gmail.googleapis.com/gmail/v1/users/me';
+const GMAIL_SYNC_THREADS = 100;
+const IMAP_SYNC_WINDOW = 200; // most recent messages per mailbox
+const IMAP_MAX_BODY_BYTES = 10 * 1024 * 1024;
+const IMAP_FETCH_BATCH = 20;
+
+// Gmail
+
+interface GmailHeader {
+  name: string;
+  value: string;
+}
+
+interface GmailPart {
+  partId?: string;
+  mimeType?: string;
+  filename?: string;
+  headers?: GmailHeader[];
+  body?: { size?: number; data?: string; attachmentId?: string };
+  parts?: GmailPart[];
+}
+
+interface GmailMessage {
+  id: string;
+  threadId: string;
+  labelIds?: string[];
+  internalDate?: string;
+  payload?: GmailPart;
+}
+
+function gmailFolders(labels: string[]): EmailFolder[] {
+  const folders: EmailFolder[] = [];
+  if (labels.includes('INBOX')) folders.push('inbox');
+  if (labels.includes('SENT')) folders.push('sent');
+  if (labels.includes('DRAFT')) folders.push('drafts');
+  if (labels.includes('TRASH')) folders.push('trash');
+  if (folders.length === 0 && !labels.includes('SPAM')) folders.push('archive');
+  return folders;
+}
+
+function decodeBase64Url(data: string | undefined): Buffer {
+  return Buffer.from((data ?? '').replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function gmailHeader(part: GmailPart | undefined, name: string): string | null {
+  return part?.headers?.find(header => header.name.toLowerCase() === name)?.value ?? null;
+}
+
+function collectGmailParts(part: GmailPart, result: { html: string | null; text: string | null; attachments: EmailAttachmentInfo[] }) {
+  if (part.parts?.length) {
+    part.parts.forEach(child => collectGmailParts(child, result));
+    return;
+  }
+  if (part.filename && part.body?.attachmentId) {
+    result.attachments.push({
+      filename: part.filename,
+      size: part.body.size ?? 0,
+      contentType: part.mimeType ?? 'application/octet-stream',
+      attachmentId: part.body.attachmentId,
+    });
+  } else if (part.mimeType === 'text/html' && result.html === null) {
+    result.html = decodeBase64Url(part.body?.data).toString('utf8');
+  } else if (part.mimeType === 'text/plain' && result.text === null) {
+    result.text = decodeBase64Url(part.body?.data).toString('utf8');
+  }
+}
+
+function fromGmailMessage(message: GmailMessage): RemoteMessage {
+  const content = { html: null as string | null, text: null as string | null, attachments: [] as EmailAttachmentInfo[] };
+  if (message.payload) collectGmailParts(message.payload, content);
+  const labels = message.labelIds ?? [];
+  const addresses = (name: string) => parseAddressList(gmailHeader(message.payload, name)).map(formatAddress);
+  const inReplyTo = gmailHeader(message.payload, 'in-reply-to')?.match(/<[^>]+>/)?.[0];
+  const references: string[] = gmailHeader(message.payload, 'references')?.match(/<[^>]+>/g) ?? [];
+  return {
+    remoteId: message.id,
+    threadKey: message.threadId,
+    messageId: gmailHeader(message.payload, 'message-id')?.match(/<[^>]+>/)?.[0] ?? null,
+    references: inReplyTo && !references.includes(inReplyTo) ? [...references, inReplyTo] : references,
+    subject: decodeWords(gmailHeader(message.payload, 'subject') ?? ''),
+    from: addresses('from')[0] ?? '',
+    to: addresses('to'),
+    cc: addresses('cc'),
+    bcc: addresses('bcc'),
+    date: Number(message.internalDate) || Date.now(),
+    body: content.html ?? textToHtml(content.text ?? ''),
+    isRead: !labels.includes('UNREAD'),
+    isStarred: labels.includes('STARRED'),
+    folders: gmailFolders(labels),
+    attachments: content.attachments,
+  };
+}
+
+export class GmailProvider implements EmailProvider {
+  readonly threadsByHeaders = false;
+
+  constructor(private getAccessToken: () => Promise<string>) {}
+
+  private async request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    const response = await fetch(`${GMAIL_API}${path}`, {
+      method: init.method ?? 'GET',
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const message = body?.error?.message ?? response.statusText;
+      if (response.status === 401 || response.status === 403) {
+        throw new EmailProviderError(`Gmail refused access: ${message}. Connect the account again.`);
+      }
+      throw new EmailProviderError(`Gmail request failed: ${message}`);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  async verify() {
+    await this.request('/profile');
+  }
+
+  async sync(snapshot: SyncSnapshot): Promise<SyncResult> {
+    const list = await this.request<{ threads?: Array<{ id: string; historyId: string }> }>(
+      `/threads?maxResults=${GMAIL_SYNC_THREADS}&includeSpamTrash=true&q=${encodeURIComponent('-in:spam')}`
+    );
+    const cached = new Set(snapshot.messages.map(message => message.remoteId));
+    const result: SyncResult = { messages: [], states: [], removed: [], threadVersions: new Map() };
+
+    for (const summary of list.threads ?? []) {
+      if (snapshot.threadVersions.get(summary.id) === summary.historyId) continue;
+      const thread = await this.request<{ messages?: GmailMessage[] }>(`/threads/${summary.id}?format=full`);
+      const present = new Set<string>();
+      for (const message of thread.messages ?? []) {
+        present.add(message.id);
+        const remote = fromGmailMessage(message);
+        if (cached.has(message.id)) {
+          result.states.push({ remoteId: remote.remoteId, isRead: remote.isRead, isStarred: remote.isStarred, folders: remote.folders });
+        } else {
+          result.messages.push(remote);
+        }
+      }
+      result.removed.push(...snapshot.messages
+        .filter(message => message.threadKey === summary.id && !present.has(message.remoteId))
+        .map(message => message.remoteId));
+      result.threadVersions.set(summary.id, summary.historyId);
+    }
+    return result;
+  }
+
+  async setFlags(remoteIds: string[], flags: { isRead?: boolean; isStarred?: boolean }) {
+    const addLabelIds: string[] = [];
+    const removeLabelIds: string[] = [];
+    if (flags.isRead !== undefined) (flags.isRead ? removeLabelIds : addLabelIds).push('UNREAD');
+    if (flags.isStarred !== undefined) (flags.isStarred ? addLabelIds : removeLabelIds).push('STARRED');
+    await this.request('/messages/batchModify', { method: 'POST', body: { ids: remoteIds, addLabelIds, removeLabelIds } });
+  }
+
+  async move(remoteIds: string[], folder: EmailFolder) {
+    if (folder === 'trash') {
+      for (const id of remoteIds) {
+        await this.request(`/messages/${id}/trash`, { method: 'POST' });
+      }
+      return;
+    }
+    for (const id of remoteIds) {
+      await this.request(`/messages/${id}/untrash`, { method: 'POST' });
+    }
+    if (folder === 'archive') {
+      await this.request('/messages/batchModify', { method: 'POST', body: { ids: remoteIds, removeLabelIds: ['INBOX'] } });
+    } else if (folder === 'inbox') {
+      await this.request('/messages/batchModify', { method: 'POST', body: { ids: remoteIds, addLabelIds: ['INBOX'] } });
+    }
+  }
+
+  async remove(remoteIds: string[]) {
+    await this.request('/messages/batchDelete', { method: 'POST', body: { ids: remoteIds } });
+  }
+
+  async send(email: OutgoingEmail) {
+    const raw = email.raw.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    const sent = await this.request<{ id: string; threadId: string }>('/messages/send', {
+      method: 'POST',
+      body: { raw, ...(email.threadKey ? { threadId: email.threadKey } : {}) },
+    });
+    return { remoteId: sent.id, threadKey: sent.threadId };
+  }
+
+  async getAttachment(remoteId: string, attachmentId: string): Promise<Buffer> {
+    const attachment = await this.request<{ data?: string }>(`/messages/${remoteId}/attachments/${attachmentId}`);
+    return decodeBase64Url(attachment.data);
+  }
+}
+
+// IMAP and SMTP
+
+// remoteId is "<uidvalidity>:<uid>:<mailbox>"; UIDs only mean something within one
+// mailbox and UIDVALIDITY
+interface ImapRef {
+  uidValidity: number;
+  uid: number;
+  mailbox: string;
+}
+
+function formatRef(ref: ImapRef): string {
+  return `${ref.uidValidity}:${ref.uid}:${ref.mailbox}`;
+}
+
+function parseRef(remoteId: string): ImapRef | null {
+  const match = /^(\d+):(\d+):([\s\S]+)$/.exec(remoteId);
+  return match ? { uidValidity: Number(match[1]), uid: Number(match[2]), mailbox: match[3] } : null;
+}
+
+const SPECIAL_USE: Record<Exclude<EmailFolder, 'inbox'>, { flag: string; names: string[] }> = {
+  sent: { flag: '\\Sent', names: ['sent', 'sent items', 'sent messages', 'sent mail'] },
+  drafts: { flag: '\\Drafts', names: ['drafts', 'draft'] },
+  archive: { flag: '\\Archive', names: ['archive', 'archives'] },
+  trash: { flag: '\\Trash', names: ['trash', 'deleted items', 'deleted messages', 'bin'] },
+};
+
+// Finds the mailbox for each folder: RFC 6154 flags first, then the usual names
+function resolveFolders(mailboxes: ImapMailbox[]): Map<EmailFolder, string> {
+  const folders = new Map<EmailFolder, string>([['inbox', 'INBOX']]);
+  for (const [folder, { flag, names }] of Object.entries(SPECIAL_USE) as Array<[EmailFolder, { flag: string; names: string[] }]>) {
+    const byFlag = mailboxes.find(mailbox => mailbox.flags.some(value => value.toLowerCase() === flag.toLowerCase()));
+    const byName = mailboxes.find(mailbox => {
+      const leaf = mailbox.delimiter ? mailbox.name.split(mailbox.delimiter).pop()! : mailbox.name;
+      return names.includes(leaf.toLowerCase());
+    });
+    const found = byFlag ?? byName;
+    if (found) folders.set(folder, found.name);
+  }
+  return folders;
+}
+
+// The first message of a conversation names the thread
+function headerThreadKey(messageId: string | null, references: string[], remoteId: string): string {
+  return references[0] ?? messageId ?? remoteId;
+}
+
+export interface ImapAccountSettings {
+  imap: ImapConfig;
+  smtp: SmtpConfig;
+}
+
+export class ImapProvider implements EmailProvider {
+  readonly threadsByHeaders = true;
+
+  constructor(private settings: ImapAccountSettings) {}
+
+  private session<T>(work: (client: ImapClient) => Promise<T>): Promise<T> {
+    return withImap(this.settings.imap, work).catch(error => {
+      if (error instanceof ImapError) {
+        throw new EmailProviderError(`Mail server error: ${error.message}`);
+      }
+      throw error;
+    });
+  }
+
+  private async folders(client: ImapClient): Promise<Map<EmailFolder, string>> {
+    return resolveFolders(await client.listMailboxes());
+  }
+
+  async verify() {
+    await this.session(async () => undefined);
+    try {
+      await verifySmtp(this.settings.smtp);
+    } catch (error) {
+      if (error instanceof SmtpError || (error as NodeJS.ErrnoException).code) {
+        throw new EmailProviderError(`Could not log in to the SMTP server: ${(error as Error).message}`, 400);
+      }
+      throw error;
+    }
+  }
+
+  async sync(snapshot: SyncSnapshot): Promise<SyncResult> {
+    return this.session(async client => {
+      const result: SyncResult = { messages: [], states: [], removed: [], threadVersions: new Map() };
+      const cached = new Map<string, Map<number, { uidValidity: number; remoteId: string }>>();
+      for (const { remoteId } of snapshot.messages) {
+        const ref = parseRef(remoteId);
+        if (!ref) continue;
+        if (!cached.has(ref.mailbox)) cached.set(ref.mailbox, new Map());
+        cached.get(ref.mailbox)!.set(ref.uid, { uidValidity: ref.uidValidity, remoteId });
+      }
+
+      const folders = await this.folders(client);
+      for (const [folder, mailbox] of Array.from(folders.entries())) {
+        const { uidValidity } = await client.select(mailbox, true);
+        const uids = await client.search('ALL');
+        const existing = new Set(uids);
+        const window = uids.slice(-IMAP_SYNC_WINDOW);
+        const cachedHere = cached.get(mailbox) ?? new Map();
+
+        for (const [uid, entry] of Array.from(cachedHere.entries())) {
+          if (entry.uidValidity !== uidValidity || !existing.has(uid)) result.removed.push(entry.remoteId);
+        }
+        const known = window.filter(uid => cachedHere.get(uid)?.uidValidity === uidValidity);
+        const unknown = window.filter(uid => cachedHere.get(uid)?.uidValidity !== uidValidity);
+
+        for (const record of await client.fetch(known, '(UID FLAGS)')) {
+          result.states.push({
+            remoteId: formatRef({ uidValidity, uid: record.uid, mailbox }),
+            isRead: record.flags.includes('\\Seen'),
+            isStarred: record.flags.includes('\\Flagged'),
+            folders: [folder],
+          });
+        }
+
+        const sizes = await client.fetch(unknown, '(UID RFC822.SIZE)');
+        for (let index = 0; index < sizes.length; index += IMAP_FETCH_BATCH) {
+          const batch = sizes.slice(index, index + IMAP_FETCH_BATCH);
+          const small = batch.filter(record => (record.size ?? 0) <= IMAP_MAX_BODY_BYTES).map(record => record.uid);
+          const large = batch.filter(record => (record.size ?? 0) > IMAP_MAX_BODY_BYTES).map(record => record.uid);
+          const records = [
+            ...await client.fetch(small, '(UID FLAGS INTERNALDATE BODY.PEEK[])'),
+            // Very large messages are listed from their headers alone
+            ...await client.fetch(large, '(UID FLAGS INTERNALDATE BODY.PEEK[HEADER])'),
+          ];
+          for (const record of records) {
+            if (!record.body) continue;
+            const remoteId = formatRef({ uidValidity, uid: record.uid, mailbox });
+            const parsed = parseMessage(record.body);
+            const references = parsed.inReplyTo && !parsed.references.includes(parsed.inReplyTo)
+              ? [...parsed.references, parsed.inReplyTo]
+              : parsed.references;
+            result.messages.push({
+              remoteId,
+              threadKey: headerThreadKey(parsed.messageId, references, remoteId),
+              messageId: parsed.messageId,
+              references,
+              subject: parsed.subject,
+              from: parsed.from ? formatAddress(parsed.from) : '',
+              to: parsed.to.map(formatAddress),
+              cc: parsed.cc.map(formatAddress),
+              bcc: parsed.bcc.map(formatAddress),
+              date: parsed.date ?? record.internalDate ?? Date.now(),
+              body: parsed.html,
+              isRead: record.flags.includes('\\Seen'),
+              isStarred: record.flags.includes('\\Flagged'),
+              folders: [folder],
+              attachments: parsed.attachments.map(attachment => ({
+                filename: attachment.filename,
+                size: attachment.size,
+                contentType: attachment.contentType,
+                attachmentId: attachment.partId,
+              })),
+            });
+          }
+        }
+      }
+      return result;
+    });
+  }
+
+  // Groups refs by mailbox and runs `work` on each mailbox still holding them
+  private async byMailbox(client: ImapClient, remoteIds: string[], work: (uids: number[], mailbox: string) => Promise<void>) {
+    const groups = new Map<string, ImapRef[]>();
+    for (const ref of remoteIds.map(parseRef)) {
+      if (!ref) continue;
+      groups.set(ref.mailbox, [...(groups.get(ref.mailbox) ?? []), ref]);
+    }
+    for (const [mailbox, refs] of Array.from(groups.entries())) {
+      const { uidValidity } = await client.select(mailbox);
+      const uids = refs.filter(ref => ref.uidValidity === uidValidity).map(ref => ref.uid);
+      if (uids.length > 0) await work(uids, mailbox);
+    }
+  }
+
+  async setFlags(remoteIds: string[], flags: { isRead?: boolean; isStarred?: boolean }) {
+    await this.session(client => this.byMailbox(client, remoteIds, async uids => {
+      if (flags.isRead !== undefined) await client.store(uids, flags.isRead ? '+FLAGS' : '-FLAGS', ['\\Seen']);
+      if (flags.isStarred !== undefined) await client.store(uids, flags.isStarred ? '+FLAGS' : '-FLAGS', ['\\Flagged']);
+    }));
+  }
+
+  async move(remoteIds: string[], folder: EmailFolder) {
+    await this.session(async client => {
+      const folders = await this.folders(client);
+      let target = folders.get(folder);
+      if (!target && folder === 'archive') {
+        target = 'Archive';
+        await client.run('CREATE "Archive"');
+      }
+      if (!target) {
+        throw new EmailProviderError(`This mailbox has no ${folder} folder`, 400);
+      }
+      const destination = target;
+      await this.byMailbox(client, remoteIds, async (uids, mailbox) => {
+        if (mailbox !== destination) await client.move(uids, destination);
+      });
+    });
+  }
+
+  async remove(remoteIds: string[]) {
+    await this.session(client => this.byMailbox(client, remoteIds, uids => client.remove(uids)));
+  }
+
+  async send(email: OutgoingEmail) {
+    try {
+      await sendMail(this.settings.smtp, { from: email.from, to: email.recipients }, email.raw);
+    } catch (error) {
+      if (error instanceof SmtpError || (error as NodeJS.ErrnoException).code) {
+        throw new EmailProviderError(`Sending failed: ${(error as Error).message}`);
+      }
+      throw error;
+    }
+    // SMTP does not file a copy; keep one in Sent like desktop clients do
+    await this.session(async client => {
+      const sent = (await this.folders(client)).get('sent');
+      if (sent) await client.append(sent, email.raw, ['\\Seen']);
+    }).catch(error => console.error('Could not save sent message:', error));
+    return { remoteId: null, threadKey: null };
+  }
+
+  async getAttachment(remoteId: string, attachmentId: string): Promise<Buffer> {
+    const ref = parseRef(remoteId);
+    if (!ref) throw new EmailProviderError('Attachment not found', 404);
+    return this.session(async client => {
+      const { uidValidity } = await client.select(ref.mailbox, true);
+      const [record] = uidValidity === ref.uidValidity ? await client.fetch([ref.uid], '(UID BODY.PEEK[])') : [];
+      const part = record?.body ? findPart(parseMime(record.body), attachmentId) : undefined;
+      if (!part) throw new EmailProviderError('Attachment not found', 404);
+      return part.body;
+    });
+  }
+}
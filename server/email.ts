@@ -0,0 +1,912 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import { storage } from './storage';
+import { sessionSecret } from './session-store';
+import { PermissionError, requirePageAccess, requireCreateAccess, getPageAccess, hasAccess } from './permissions';
+import { broadcastToPageRoom } from './realtime';
+import { trackPageEdit } from './revisions';
+import {
+  GmailProvider, ImapProvider, EmailProviderError,
+  type EmailProvider, type RemoteMessage, type SyncSnapshot,
+} from './email-providers';
+import { checkMailHost, publicHostLookup, MailHostError } from './mail-hosts';
+import { buildMessage, createMessageId, parseAddressList, textToHtml, htmlToText, type EmailAddress, type OutgoingAttachment } from './mime';
+import {
+  connectImapAccountSchema, sendEmailSchema, emailToPageSchema, emailFolders,
+  type EmailAccount, type EmailAccountStatus, type EmailAttachmentInfo, type EmailFolder,
+  type EmailMessage, type EmailMessageView, type EmailThread, type EmailThreadView,
+  type EmailPageResult, type Page, type Block, type BlockContent,
+} from '@shared/schema';
+
+// Email: connects a user's mailbox (Gmail over its API, anything else over IMAP/SMTP),
+// keeps recent mail cached in email_threads/email_messages, and applies read, star,
+// archive and delete to both the provider and the cache.
+//
+// A thread copied onto a page stays linked through email_messages.related_page_id:
+// messages that arrive in it later are appended to the same page.
+//
+// Mail sent from here is stored right away. IMAP servers only show it once the copy
+// filed in Sent is synced, so until then the row has a "pending:" id and is matched to
+// the synced copy by Message-ID.
+
+export class EmailError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+const SYNC_INTERVAL_MS = 2 * 60 * 1000;
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+// Full mailbox access; deleting from Trash is not possible with narrower scopes
+const GMAIL_SCOPE = 'https://mail.google.com/';
+const PENDING_PREFIX = 'pending:';
+
+function emailSecret(): string {
+  return process.env.EMAIL_SECRET || sessionSecret();
+}
+
+// Stored IMAP passwords are AES-256-GCM encrypted: iv.tag.ciphertext, base64url
+function encryptSecret(value: string): string {
+  const key = crypto.createHash('sha256').update(`email-password:${emailSecret()}`).digest();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(value: string): string {
+  const [iv, tag, encrypted] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  const key = crypto.createHash('sha256').update(`email-password:${emailSecret()}`).digest();
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch {
+    throw new EmailError('The saved mail password can no longer be read. Connect the account again.', 409);
+  }
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+async function requireMembership(workspaceId: number, userId: string) {
+  const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+  if (!role) {
+    throw new EmailError('Access denied', 403);
+  }
+}
+
+async function requireAccount(userId: string): Promise<EmailAccount> {
+  const account = await storage.getEmailAccount(userId);
+  if (!account) {
+    throw new EmailError('No email account is connected', 404);
+  }
+  return account;
+}
+
+// Gmail OAuth
+
+function googleClient(): { clientId: string; clientSecret: string } {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new EmailError('Gmail is not configured on this server', 503);
+  }
+  return { clientId, clientSecret };
+}
+
+function signState(payload: string): string {
+  return crypto.createHmac('sha256', emailSecret()).update(`gmail-oauth:${payload}`).digest('base64url');
+}
+
+// The OAuth state records who started the sign-in and for which workspace
+function createState(userId: string, workspaceId: number): string {
+  const payload = Buffer.from(JSON.stringify({ userId, workspaceId, expires: Date.now() + 10 * 60 * 1000 })).toString('base64url');
+  return `${payload}.${signState(payload)}`;
+}
+
+function readState(state: string): { userId: string; workspaceId: number } {
+  const [payload, signature] = state.split('.');
+  const expected = payload ? signState(payload) : '';
+  if (!signature || signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw new EmailError('Invalid sign-in state');
+  }
+  const data = parseJson<{ userId?: string; workspaceId?: number; expires?: number }>(
+    Buffer.from(payload, 'base64url').toString('utf8'), {}
+  );
+  if (!data.userId || !data.workspaceId || !data.expires || data.expires < Date.now()) {
+    throw new EmailError('The Gmail sign-in took too long. Try again.');
+  }
+  return { userId: data.userId, workspaceId: data.workspaceId };
+}
+
+export async function getGmailAuthUrl(userId: string, workspaceId: number, redirectUri: string): Promise<string> {
+  const { clientId } = googleClient();
+  await requireMembership(workspaceId, userId);
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: GMAIL_SCOPE,
+    access_type: 'offline',
+    prompt: 'consent',
+    state: createState(userId, workspaceId),
+  });
+  return `${GOOGLE_AUTH_URL}?${params}`;
+}
+
+async function requestTokens(params: Record<string, string>): Promise<{ access_token: string; expires_in: number; refresh_token?: string }> {
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString(),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.access_token) {
+    throw new EmailProviderError(`Google sign-in failed: ${body.error_description ?? body.error ?? response.statusText}`);
+  }
+  return body;
+}
+
+// The callback runs in the signed-in browser; a state issued to someone else is refused
+export async function completeGmailConnect(userId: string, code: string, state: string, redirectUri: string): Promise<void> {
+  const { clientId, clientSecret } = googleClient();
+  const { userId: stateUserId, workspaceId } = readState(state);
+  if (stateUserId !== userId) {
+    throw new EmailError('This Gmail sign-in was started by another user', 403);
+  }
+  await requireMembership(workspaceId, userId);
+
+  const tokens = await requestTokens({
+    code,
+    client_id: clientId,
+    client_secret: clientSecret,
+    redirect_uri: redirectUri,
+    grant_type: 'authorization_code',
+  });
+  if (!tokens.refresh_token) {
+    throw new EmailProviderError('Google did not grant offline access. Try connecting again.');
+  }
+  await storage.updateGmailTokens(userId, {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiry: Date.now() + tokens.expires_in * 1000,
+  });
+
+  const profile = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/profile', {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+  }).then(response => response.json()).catch(() => ({}));
+
+  await clearCache(userId);
+  await storage.saveEmailAccount({
+    userId,
+    workspaceId,
+    provider: 'gmail',
+    address: profile.emailAddress ?? '',
+    imapHost: null,
+    imapPort: null,
+    smtpHost: null,
+    smtpPort: null,
+    username: null,
+    password: null,
+  });
+}
+
+async function gmailAccessToken(userId: string): Promise<string> {
+  const user = await storage.getUser(userId);
+  if (user?.gmailAccessToken && (user.gmailTokenExpiry ?? 0) > Date.now() + 60 * 1000) {
+    return user.gmailAccessToken;
+  }
+  if (!user?.gmailRefreshToken) {
+    throw new EmailError('Gmail is not connected. Connect the account again.', 409);
+  }
+  const { clientId, clientSecret } = googleClient();
+  const tokens = await requestTokens({
+    refresh_token: user.gmailRefreshToken,
+    client_id: clientId,
+    client_secret: clientSecret,
+    grant_type: 'refresh_token',
+  });
+  await storage.updateGmailTokens(userId, {
+    accessToken: tokens.access_token,
+    expiry: Date.now() + tokens.expires_in * 1000,
+  });
+  return tokens.access_token;
+}
+
+// Accounts
+
+function mailHost(host: string | null): string {
+  try {
+    checkMailHost(host ?? '');
+  } catch (error) {
+    if (error instanceof MailHostError) {
+      throw new EmailProviderError(`This mail server is not allowed: ${error.message}`, 400);
+    }
+    throw error;
+  }
+  return host ?? '';
+}
+
+function providerFor(account: EmailAccount): EmailProvider {
+  if (account.provider === 'gmail') {
+    return new GmailProvider(() => gmailAccessToken(account.userId));
+  }
+  const password = account.password ? decryptSecret(account.password) : '';
+  // Mail servers are whatever the user typed in; see mail-hosts.ts
+  const allowPlaintext = process.env.EMAIL_ALLOW_PLAINTEXT_LOGIN === 'true';
+  return new ImapProvider({
+    imap: {
+      host: mailHost(account.imapHost),
+      port: account.imapPort ?? 993,
+      secure: account.imapSecure ?? true,
+      username: account.username ?? account.address,
+      password,
+      allowPlaintext,
+      lookup: publicHostLookup,
+    },
+    smtp: {
+      host: mailHost(account.smtpHost),
+      port: account.smtpPort ?? 465,
+      secure: account.smtpSecure ?? true,
+      username: account.username ?? account.address,
+      password,
+      allowPlaintext,
+      lookup: publicHostLookup,
+    },
+  });
+}
+
+async function clearCache(userId: string) {
+  for (const thread of await storage.getEmailThreads(userId)) {
+    await storage.deleteEmailThread(thread.id);
+  }
+}
+
+export async function getAccountStatus(userId: string): Promise<EmailAccountStatus> {
+  const account = await storage.getEmailAccount(userId);
+  return {
+    connected: !!account,
+    provider: account ? account.provider as EmailAccountStatus['provider'] : null,
+    address: account?.address ?? null,
+    lastSyncedAt: account?.lastSyncedAt ?? null,
+    lastError: account?.lastError ?? null,
+  };
+}
+
+// Checks both servers accept the login before saving anything
+export async function connectImapAccount(userId: string, input: unknown): Promise<EmailAccountStatus> {
+  const data = connectImapAccountSchema.parse(input);
+  await requireMembership(data.workspaceId, userId);
+
+  const { password, ...settings } = data;
+  const candidate = { ...settings, userId, provider: 'imap', password: encryptSecret(password) };
+  try {
+    await providerFor(candidate as EmailAccount).verify();
+  } catch (error) {
+    if (error instanceof EmailProviderError) {
+      throw new EmailError(error.message, 400);
+    }
+    if ((error as NodeJS.ErrnoException).code) {
+      throw new EmailError(`Could not reach the mail server: ${(error as Error).message}`, 400);
+    }
+    throw error;
+  }
+
+  await clearCache(userId);
+  await storage.saveEmailAccount(candidate);
+  return getAccountStatus(userId);
+}
+
+export async function disconnectAccount(userId: string) {
+  await storage.deleteEmailAccount(userId);
+  await storage.updateGmailTokens(userId, { accessToken: null, refreshToken: null, expiry: null });
+}
+
+// Sync
+
+const runningSyncs = new Map<string, Promise<void>>();
+
+function toRow(message: RemoteMessage) {
+  return {
+    gmailMessageId: message.remoteId,
+    subject: message.subject,
+    body: message.body,
+    fromEmail: message.from,
+    toEmails: JSON.stringify(message.to),
+    ccEmails: JSON.stringify(message.cc),
+    bccEmails: JSON.stringify(message.bcc),
+    messageIdHeader: message.messageId,
+    referenceIds: JSON.stringify(message.references),
+    date: message.date,
+    isRead: message.isRead,
+    isStarred: message.isStarred,
+    labels: JSON.stringify(message.folders),
+    attachments: JSON.stringify(message.attachments),
+  };
+}
+
+function participantName(address: string): string {
+  const [parsed] = parseAddressList(address);
+  return parsed?.name ?? parsed?.address ?? address;
+}
+
+// Recomputes a thread's summary from its messages; threads left empty are removed
+async function refreshThread(threadId: string) {
+  const messages = await storage.getEmailMessages(threadId);
+  if (messages.length === 0) {
+    await storage.deleteEmailThread(threadId);
+    return;
+  }
+  const labels = new Set<string>();
+  messages.forEach(message => parseJson<string[]>(message.labels, []).forEach(label => labels.add(label)));
+  await storage.updateEmailThread(threadId, {
+    subject: messages[0].subject || '(No subject)',
+    participants: JSON.stringify(Array.from(new Set(messages.map(message => participantName(message.fromEmail))))),
+    messageCount: messages.length,
+    lastMessageDate: Math.max(...messages.map(message => message.date)),
+    isRead: messages.every(message => message.isRead),
+    isStarred: messages.some(message => message.isStarred),
+    labels: JSON.stringify(Array.from(labels)),
+  });
+}
+
+async function runSync(account: EmailAccount) {
+  const provider = providerFor(account);
+  const threads = await storage.getEmailThreads(account.userId);
+  const threadKeys = new Map(threads.map(thread => [thread.id, thread.gmailThreadId]));
+  const cached = await storage.getUserEmailMessages(account.userId);
+  const snapshot: SyncSnapshot = {
+    messages: cached
+      .filter(message => !message.gmailMessageId.startsWith(PENDING_PREFIX))
+      .map(message => ({ remoteId: message.gmailMessageId, threadKey: threadKeys.get(message.threadId) ?? '' })),
+    threadVersions: new Map(threads.filter(thread => thread.syncVersion).map(thread => [thread.gmailThreadId, thread.syncVersion!])),
+  };
+
+  const result = await provider.sync(snapshot);
+
+  const byRemoteId = new Map(cached.map(message => [message.gmailMessageId, message]));
+  const touched = new Set<string>();
+  for (const state of result.states) {
+    const message = byRemoteId.get(state.remoteId);
+    if (!message) continue;
+    const labels = JSON.stringify(state.folders);
+    if (message.isRead !== state.isRead || message.isStarred !== state.isStarred || message.labels !== labels) {
+      await storage.updateEmailMessage(message.id, { isRead: state.isRead, isStarred: state.isStarred, labels });
+      touched.add(message.threadId);
+    }
+  }
+
+  // Rows that vanished (moved on IMAP) or were sent from here can be matched again by
+  // Message-ID, which keeps their ids and page links
+  const removed = new Set(result.removed);
+  const reusable = new Map<string, EmailMessage>();
+  for (const message of cached) {
+    if (message.messageIdHeader && (removed.has(message.gmailMessageId) || message.gmailMessageId.startsWith(PENDING_PREFIX))) {
+      reusable.set(message.messageIdHeader, message);
+    }
+  }
+  const byMessageId = new Map(cached.filter(message => message.messageIdHeader).map(message => [message.messageIdHeader!, message]));
+  const arrived: EmailMessage[] = [];
+
+  for (const remote of result.messages) {
+    const existing = remote.messageId ? reusable.get(remote.messageId) : undefined;
+    if (existing) {
+      reusable.delete(remote.messageId!);
+      removed.delete(existing.gmailMessageId);
+      await storage.updateEmailMessage(existing.id, { ...toRow(remote), relatedPageId: existing.relatedPageId });
+      touched.add(existing.threadId);
+      continue;
+    }
+
+    let thread = await storage.getEmailThreadByRemoteId(account.userId, remote.threadKey);
+    if (!thread && provider.threadsByHeaders) {
+      const parent = remote.references.map(id => byMessageId.get(id)).find(Boolean);
+      thread = parent ? await storage.getEmailThread(parent.threadId) : undefined;
+    }
+    if (!thread) {
+      thread = await storage.createEmailThread({
+        id: nanoid(),
+        gmailThreadId: remote.threadKey,
+        subject: remote.subject || '(No subject)',
+        lastMessageDate: remote.date,
+        workspaceId: account.workspaceId,
+        userId: account.userId,
+      });
+    }
+    const created = await storage.createEmailMessage({
+      id: nanoid(),
+      threadId: thread.id,
+      workspaceId: account.workspaceId,
+      ...toRow(remote),
+    });
+    if (created.messageIdHeader) byMessageId.set(created.messageIdHeader, created);
+    touched.add(thread.id);
+    arrived.push(created);
+  }
+
+  const gone = cached.filter(message => removed.has(message.gmailMessageId));
+  await storage.deleteEmailMessages(gone.map(message => message.id));
+  gone.forEach(message => touched.add(message.threadId));
+
+  for (const threadId of Array.from(touched)) {
+    await refreshThread(threadId);
+  }
+  for (const [threadKey, version] of Array.from(result.threadVersions.entries())) {
+    const thread = await storage.getEmailThreadByRemoteId(account.userId, threadKey);
+    if (thread) await storage.updateEmailThread(thread.id, { syncVersion: version });
+  }
+
+  for (const message of arrived.sort((a, b) => a.date - b.date)) {
+    await followLinkedPage(account.userId, message);
+  }
+}
+
+// Syncs unless the last sync is recent. Concurrent calls for one user share a run.
+export async function syncAccount(userId: string, force = false): Promise<EmailAccountStatus> {
+  const account = await requireAccount(userId);
+  if (!force && account.lastSyncedAt && Date.now() - account.lastSyncedAt < SYNC_INTERVAL_MS) {
+    return getAccountStatus(userId);
+  }
+
+  let running = runningSyncs.get(userId);
+  if (!running) {
+    running = runSync(account)
+      .then(async () => {
+        await storage.updateEmailAccount(userId, { lastSyncedAt: Date.now(), lastError: null });
+      })
+      .catch(async error => {
+        await storage.updateEmailAccount(userId, { lastError: error instanceof Error ? error.message : String(error) });
+        throw error;
+      })
+      .finally(() => runningSyncs.delete(userId));
+    runningSyncs.set(userId, running);
+  }
+  await running;
+  return getAccountStatus(userId);
+}
+
+// Reading
+
+function toMessageView(message: EmailMessage): EmailMessageView {
+  return {
+    id: message.id,
+    messageId: message.messageIdHeader,
+    threadId: message.threadId,
+    subject: message.subject,
+    body: message.body,
+    from: message.fromEmail,
+    to: parseJson(message.toEmails, []),
+    cc: parseJson(message.ccEmails, []),
+    bcc: parseJson(message.bccEmails, []),
+    date: message.date,
+    isRead: message.isRead ?? false,
+    isStarred: message.isStarred ?? false,
+    labels: parseJson(message.labels, []),
+    attachments: parseJson(message.attachments, []),
+    workspaceId: message.workspaceId,
+    relatedPageId: message.relatedPageId,
+  };
+}
+
+async function toThreadView(thread: EmailThread): Promise<EmailThreadView> {
+  const messages = await storage.getEmailMessages(thread.id);
+  return {
+    id: thread.id,
+    subject: thread.subject,
+    participants: parseJson(thread.participants, []),
+    messageCount: thread.messageCount ?? messages.length,
+    lastMessageDate: thread.lastMessageDate,
+    isRead: thread.isRead ?? false,
+    isStarred: thread.isStarred ?? false,
+    labels: parseJson(thread.labels, []),
+    messages: messages.map(toMessageView),
+    relatedPageId: linkedPageId(messages),
+  };
+}
+
+async function getThreadForUser(threadId: string, userId: string): Promise<EmailThread> {
+  const thread = await storage.getEmailThread(threadId);
+  if (!thread || thread.userId !== userId) {
+    throw new EmailError('Thread not found', 404);
+  }
+  return thread;
+}
+
+// A failed background refresh still shows what is cached; the error is on the status
+async function refreshQuietly(userId: string) {
+  try {
+    await syncAccount(userId);
+  } catch (error) {
+    if (!(error instanceof EmailProviderError || error instanceof EmailError)) throw error;
+    console.error('Email sync failed:', error.message);
+  }
+}
+
+function inFolder(thread: EmailThread, folder: string): boolean {
+  const labels = parseJson<string[]>(thread.labels, []);
+  if (folder === 'starred') {
+    return !!thread.isStarred && labels.some(label => label !== 'trash');
+  }
+  return labels.includes(folder);
+}
+
+export async function listThreads(userId: string, folder: string, search?: string): Promise<EmailThreadView[]> {
+  if (folder !== 'starred' && !(emailFolders as readonly string[]).includes(folder)) {
+    throw new EmailError(`Unknown folder "${folder}"`);
+  }
+  await requireAccount(userId);
+  await refreshQuietly(userId);
+
+  const query = search?.trim().toLowerCase();
+  const threads = (await storage.getEmailThreads(userId, folder === 'starred' ? undefined : folder))
+    .filter(thread => inFolder(thread, folder))
+    .filter(thread => !query || thread.subject.toLowerCase().includes(query) ||
+      parseJson<string[]>(thread.participants, []).some(name => name.toLowerCase().includes(query)));
+  return Promise.all(threads.map(toThreadView));
+}
+
+export async function getThread(userId: string, threadId: string): Promise<EmailThreadView> {
+  return toThreadView(await getThreadForUser(threadId, userId));
+}
+
+// Threads per folder, plus unread threads in the inbox
+export async function getFolderCounts(userId: string): Promise<Record<string, number>> {
+  await requireAccount(userId);
+  const threads = await storage.getEmailThreads(userId);
+  const counts: Record<string, number> = { unread: 0, starred: 0 };
+  for (const folder of emailFolders) counts[folder] = 0;
+  for (const thread of threads) {
+    for (const folder of Object.keys(counts)) {
+      if (folder !== 'unread' && inFolder(thread, folder)) counts[folder]++;
+    }
+    if (!thread.isRead && inFolder(thread, 'inbox')) counts.unread++;
+  }
+  return counts;
+}
+
+// Actions
+
+function remoteIds(messages: EmailMessage[]): string[] {
+  return messages.map(message => message.gmailMessageId).filter(id => !id.startsWith(PENDING_PREFIX));
+}
+
+async function withProvider<T>(userId: string, work: (provider: EmailProvider, account: EmailAccount) => Promise<T>): Promise<T> {
+  const account = await requireAccount(userId);
+  return work(providerFor(account), account);
+}
+
+export async function setThreadRead(userId: string, threadId: string, isRead: boolean): Promise<EmailThreadView> {
+  const thread = await getThreadForUser(threadId, userId);
+  const messages = (await storage.getEmailMessages(thread.id)).filter(message => message.isRead !== isRead);
+  if (messages.length > 0) {
+    await withProvider(userId, provider => provider.setFlags(remoteIds(messages), { isRead }));
+    for (const message of messages) {
+      await storage.updateEmailMessage(message.id, { isRead });
+    }
+    await refreshThread(thread.id);
+  }
+  return getThread(userId, thread.id);
+}
+
+// Starring a thread stars its latest message, as mail clients do; unstarring clears all
+export async function setThreadStarred(userId: string, threadId: string, isStarred: boolean): Promise<EmailThreadView> {
+  const thread = await getThreadForUser(threadId, userId);
+  const messages = await storage.getEmailMessages(thread.id);
+  const targets = isStarred ? messages.slice(-1) : messages.filter(message => message.isStarred);
+  if (targets.length > 0) {
+    await withProvider(userId, provider => provider.setFlags(remoteIds(targets), { isStarred }));
+    for (const message of targets) {
+      await storage.updateEmailMessage(message.id, { isStarred });
+    }
+    await refreshThread(thread.id);
+  }
+  return getThread(userId, thread.id);
+}
+
+async function moveMessages(userId: string, thread: EmailThread, messages: EmailMessage[], folder: EmailFolder) {
+  if (messages.length === 0) return;
+  await withProvider(userId, async (provider) => {
+    await provider.move(remoteIds(messages), folder);
+    for (const message of messages) {
+      await storage.updateEmailMessage(message.id, { labels: JSON.stringify([folder]) });
+    }
+    await refreshThread(thread.id);
+    // IMAP gives moved messages new UIDs; pick them up now
+    if (provider.threadsByHeaders) {
+      await syncAccount(userId, true);
+    }
+  });
+}
+
+export async function archiveThread(userId: string, threadId: string) {
+  const thread = await getThreadForUser(threadId, userId);
+  const messages = (await storage.getEmailMessages(thread.id))
+    .filter(message => parseJson<string[]>(message.labels, []).includes('inbox'));
+  await moveMessages(userId, thread, messages, 'archive');
+}
+
+// Moves the thread to Trash; a thread already there is deleted for good
+export async function deleteThread(userId: string, threadId: string): Promise<{ deleted: boolean }> {
+  const thread = await getThreadForUser(threadId, userId);
+  const messages = await storage.getEmailMessages(thread.id);
+  const outsideTrash = messages.filter(message => !parseJson<string[]>(message.labels, []).includes('trash'));
+  if (outsideTrash.length > 0) {
+    await moveMessages(userId, thread, outsideTrash, 'trash');
+    return { deleted: false };
+  }
+  await withProvider(userId, provider => provider.remove(remoteIds(messages)));
+  await storage.deleteEmailThread(thread.id);
+  return { deleted: true };
+}
+
+// Sending
+
+function readAddresses(values: string[] | undefined): EmailAddress[] {
+  return (values ?? []).filter(value => value.trim()).map(value => {
+    const [address] = parseAddressList(value);
+    if (!address || !/^[^\s@]+@[^\s@]+$/.test(address.address)) {
+      throw new EmailError(`Invalid address "${value}"`);
+    }
+    return address;
+  });
+}
+
+export async function sendEmail(userId: string, input: unknown, attachments: OutgoingAttachment[]): Promise<EmailMessageView> {
+  const data = sendEmailSchema.parse(input);
+  const account = await requireAccount(userId);
+  const to = readAddresses(data.to);
+  const cc = readAddresses(data.cc);
+  const bcc = readAddresses(data.bcc);
+  if (to.length === 0) {
+    throw new EmailError('Add at least one recipient');
+  }
+  if (attachments.reduce((total, attachment) => total + attachment.content.length, 0) > MAX_ATTACHMENT_BYTES) {
+    throw new EmailError('Attachments can be at most 20 MB in total', 413);
+  }
+  if (data.relatedPageId) {
+    await requirePageAccess(data.relatedPageId, userId, 'view');
+  }
+
+  let parent: EmailMessage | undefined;
+  let parentThread: EmailThread | undefined;
+  if (data.inReplyTo) {
+    parent = await storage.getEmailMessage(data.inReplyTo);
+    parentThread = parent ? await storage.getEmailThread(parent.threadId) : undefined;
+    if (!parent || parentThread?.userId !== userId) {
+      throw new EmailError('The message being answered was not found', 404);
+    }
+  }
+  const references = parent
+    ? [...parseJson<string[]>(parent.referenceIds, []), ...(parent.messageIdHeader ? [parent.messageIdHeader] : [])]
+    : [];
+
+  const user = await storage.getUser(userId);
+  const senderName = account.displayName || [user?.firstName, user?.lastName].filter(Boolean).join(' ') || null;
+  const messageId = createMessageId(account.address);
+  const html = textToHtml(data.body);
+  const raw = buildMessage({
+    from: { name: senderName, address: account.address },
+    to,
+    cc,
+    subject: data.subject,
+    text: data.body,
+    html,
+    messageId,
+    inReplyTo: parent?.messageIdHeader,
+    references,
+    attachments,
+  });
+
+  const sent = await withProvider(userId, provider => provider.send({
+    raw,
+    from: account.address,
+    recipients: [...to, ...cc, ...bcc].map(address => address.address),
+    threadKey: parentThread?.gmailThreadId ?? null,
+  }));
+
+  let thread = parentThread ?? (sent.threadKey ? await storage.getEmailThreadByRemoteId(userId, sent.threadKey) : undefined);
+  if (!thread) {
+    thread = await storage.createEmailThread({
+      id: nanoid(),
+      gmailThreadId: sent.threadKey ?? references[0] ?? messageId,
+      subject: data.subject || '(No subject)',
+      lastMessageDate: Date.now(),
+      workspaceId: account.workspaceId,
+      userId,
+    });
+  }
+  const attachmentInfo: EmailAttachmentInfo[] = attachments.map((attachment, index) => ({
+    filename: attachment.filename,
+    size: attachment.content.length,
+    contentType: attachment.contentType,
+    attachmentId: String(index + 2), // part numbers in the message we built
+  }));
+  const message = await storage.createEmailMessage({
+    id: nanoid(),
+    gmailMessageId: sent.remoteId ?? `${PENDING_PREFIX}${messageId}`,
+    threadId: thread.id,
+    subject: data.subject,
+    body: html,
+    fromEmail: senderName ? `${senderName} <${account.address}>` : account.address,
+    toEmails: JSON.stringify(to.map(address => address.address)),
+    ccEmails: JSON.stringify(cc.map(address => address.address)),
+    bccEmails: JSON.stringify(bcc.map(address => address.address)),
+    messageIdHeader: messageId,
+    referenceIds: JSON.stringify(references),
+    date: Date.now(),
+    isRead: true,
+    labels: JSON.stringify(['sent']),
+    attachments: JSON.stringify(attachmentInfo),
+    workspaceId: account.workspaceId,
+    relatedPageId: null,
+  });
+  await refreshThread(thread.id);
+  const linked = await followLinkedPage(userId, message, data.relatedPageId ?? undefined);
+  return toMessageView(linked);
+}
+
+export async function getAttachment(userId: string, messageId: string, attachmentId: string): Promise<{ content: Buffer; filename: string; contentType: string }> {
+  const message = await storage.getEmailMessage(messageId);
+  const thread = message ? await storage.getEmailThread(message.threadId) : undefined;
+  const attachment = message && parseJson<EmailAttachmentInfo[]>(message.attachments, [])
+    .find(item => item.attachmentId === attachmentId);
+  if (!message || thread?.userId !== userId || !attachment) {
+    throw new EmailError('Attachment not found', 404);
+  }
+  if (message.gmailMessageId.startsWith(PENDING_PREFIX)) {
+    throw new EmailError('This message is still being filed by the mail server. Try again shortly.', 409);
+  }
+  const content = await withProvider(userId, provider => provider.getAttachment(message.gmailMessageId, attachmentId));
+  return { content, filename: attachment.filename, contentType: attachment.contentType };
+}
+
+// Pages
+
+// The page most recently linked to any message in the thread
+function linkedPageId(messages: EmailMessage[]): number | null {
+  const linked = messages.filter(message => message.relatedPageId).sort((a, b) => b.date - a.date);
+  return linked[0]?.relatedPageId ?? null;
+}
+
+// Attachments are downloaded through the page, so everyone who can see it can open them
+function attachmentUrl(pageId: number, messageId: string, attachmentId: string): string {
+  return `/api/pages/${pageId}/email-attachments/${messageId}/${encodeURIComponent(attachmentId)}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function messageBlocks(message: EmailMessage, pageId: number): Array<{ type: string; content: BlockContent }> {
+  const date = new Date(message.date).toUTCString().replace(/ GMT$/, ' UTC');
+  const blocks: Array<{ type: string; content: BlockContent }> = [{
+    type: 'quote',
+    content: { text: `${message.fromEmail} · ${date}\n\n${htmlToText(message.body)}`.trim() },
+  }];
+  for (const attachment of parseJson<EmailAttachmentInfo[]>(message.attachments, [])) {
+    blocks.push({
+      type: 'file',
+      content: {
+        title: attachment.filename,
+        url: attachmentUrl(pageId, message.id, attachment.attachmentId),
+        caption: formatSize(attachment.size),
+      },
+    });
+  }
+  return blocks;
+}
+
+async function appendBlocks(page: Page, drafts: Array<{ type: string; content: BlockContent }>, userId: string): Promise<Block[]> {
+  const existing = await storage.getBlocksByPageId(page.id);
+  let position = existing.reduce((max, block) => Math.max(max, block.position), -1) + 1;
+  const created: Block[] = [];
+  for (const draft of drafts) {
+    const block = await storage.createBlock({
+      pageId: page.id,
+      type: draft.type,
+      content: JSON.stringify(draft.content),
+      position: position++,
+      createdBy: userId,
+      lastEditedBy: userId,
+    });
+    created.push(block);
+    broadcastToPageRoom(page.id, 'block_created', { block, userId });
+  }
+  if (created.length > 0) {
+    trackPageEdit(page.id, userId);
+  }
+  return created;
+}
+
+// Appends a message to the page its thread is linked to (or `pageId`) and links it.
+// Without edit access the message is linked but the page is left alone.
+async function followLinkedPage(userId: string, message: EmailMessage, pageId?: number): Promise<EmailMessage> {
+  const targetId = pageId ?? linkedPageId(
+    (await storage.getEmailMessages(message.threadId)).filter(other => other.id !== message.id)
+  );
+  if (!targetId) return message;
+
+  const page = await storage.getPage(targetId);
+  if (!page || page.isDeleted) return message;
+  try {
+    if (hasAccess(await getPageAccess(page, userId), 'edit')) {
+      await appendBlocks(page, messageBlocks(message, page.id), userId);
+    }
+  } catch (error) {
+    // The mail itself is fine; a page that cannot be written to is not a sync failure
+    console.error('Failed to add email to page:', error);
+  }
+  return (await storage.updateEmailMessage(message.id, { relatedPageId: page.id })) ?? message;
+}
+
+// Copies the thread onto a new page, or onto the end of an existing one. Messages
+// already on that page are not copied again.
+export async function threadToPage(userId: string, threadId: string, input: unknown): Promise<EmailPageResult> {
+  const data = emailToPageSchema.parse(input);
+  const thread = await getThreadForUser(threadId, userId);
+  const messages = await storage.getEmailMessages(thread.id);
+
+  let page: Page;
+  let created = false;
+  if (data.pageId) {
+    ({ page } = await requirePageAccess(data.pageId, userId, 'edit'));
+    if (page.isDeleted) {
+      throw new PermissionError('Page not found', 404);
+    }
+  } else {
+    await requireCreateAccess(thread.workspaceId, data.parentId, userId);
+    page = await storage.createPage({
+      title: thread.subject || '(No subject)',
+      icon: '✉️',
+      parentId: data.parentId ?? null,
+      workspaceId: thread.workspaceId,
+      createdBy: userId,
+      lastEditedBy: userId,
+    });
+    created = true;
+  }
+
+  const pending = messages.filter(message => message.relatedPageId !== page.id);
+  const drafts: Array<{ type: string; content: BlockContent }> = [];
+  if (data.asTask) {
+    drafts.push({ type: 'todo', content: { text: `Follow up: ${thread.subject || '(No subject)'}`, checked: false } });
+  }
+  if (!created && pending.length > 0) {
+    drafts.push({ type: 'heading3', content: { text: thread.subject || '(No subject)' } });
+  }
+  for (const message of pending) {
+    drafts.push(...messageBlocks(message, page.id));
+  }
+
+  const blocks = await appendBlocks(page, drafts, userId);
+  for (const message of pending) {
+    await storage.updateEmailMessage(message.id, { relatedPageId: page.id });
+  }
+  return { page, created, blocksAdded: blocks.length };
+}
+
+export async function getPageAttachment(userId: string, pageId: number, messageId: string, attachmentId: string) {
+  await requirePageAccess(pageId, userId, 'view');
+  const message = await storage.getEmailMessage(messageId);
+  if (!message || message.relatedPageId !== pageId) {
+    throw new EmailError('Attachment not found', 404);
+  }
+  const thread = await storage.getEmailThread(message.threadId);
+  if (!thread || !await storage.getEmailAccount(thread.userId)) {
+    throw new EmailError('The mailbox this attachment came from is no longer connected', 410);
+  }
+  return getAttachment(thread.userId, messageId, attachmentId);
+}
@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { CalendarError, requireRole, requireEventEdit, isValidTimeZone, fromWallTime, toWallTime } from './calendar';
+import { parseRecurrence, formatRecurrence, formatICalDate, RecurrenceError, type RecurrenceRule } from '@shared/recurrence';
+import {
+  calendarEventTypes, calendarEventStatuses,
+  type CalendarEvent, type CalendarImportResult, type InsertCalendarEvent,
+} from '@shared/schema';
+
+// Imports VEVENTs from .ics files into a workspace calendar. Events are matched on
+// their UID, so importing the same file again updates what changed instead of adding
+// copies. Edited instances of a series (RECURRENCE-ID) become separate events and are
+// cut out of the series they replace.
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_EVENTS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Outlook and Exchange name zones the Windows way
+const WINDOWS_ZONES: Record<string, string> = {
+  'UTC': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'FLE Standard Time': 'Europe/Kiev',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  lines: ContentLine[];
+  children: Component[];
+}
+
+// Either an IANA zone, or a fixed UTC offset in ms when all we have is a VTIMEZONE
+type Zone = { name: string } | { offset: number };
+
+interface ParsedEvent {
+  uid: string;
+  recurrenceId: number | null;
+  data: Omit<InsertCalendarEvent, 'workspaceId' | 'createdBy' | 'uid'>;
+  rule: RecurrenceRule | null;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let index = 0;
+  let name = '';
+  while (index < line.length && line[index] !== ';' && line[index] !== ':') {
+    name += line[index++];
+  }
+  const params: Record<string, string> = {};
+  while (line[index] === ';') {
+    index++;
+    let key = '';
+    while (index < line.length && line[index] !== '=' && line[index] !== ':' && line[index] !== ';') {
+      key += line[index++];
+    }
+    let value = '';
+    if (line[index] === '=') {
+      index++;
+      if (line[index] === '"') {
+        const close = line.indexOf('"', index + 1);
+        value = line.slice(index + 1, close === -1 ? undefined : close);
+        index = close === -1 ? line.length : close + 1;
+      }
+      while (index < line.length && line[index] !== ';' && line[index] !== ':') {
+        value += line[index++];
+      }
+    }
+    params[key.toUpperCase()] = value;
+  }
+  if (line[index] !== ':' || !name) return null;
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/^﻿/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const root: Component = { name: 'ROOT', lines: [], children: [] };
+  const stack = [root];
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const current = stack[stack.length - 1];
+    if (line.name === 'BEGIN') {
+      const component: Component = { name: line.value.trim().toUpperCase(), lines: [], children: [] };
+      current.children.push(component);
+      stack.push(component);
+    } else if (line.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.lines.push(line);
+    }
+  }
+  return root.children;
+}
+
+function first(component: Component, name: string): ContentLine | undefined {
+  return component.lines.find(line => line.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => char === 'n' || char === 'N' ? '\n' : char);
+}
+
+function resolveZone(tzid: string, timezones: Map<string, Component>): Zone | null {
+  if (isValidTimeZone(tzid)) return { name: tzid };
+  // e.g. /mozilla.org/20050126_1/Europe/Berlin
+  const tail = tzid.split('/').filter(Boolean).slice(-2).join('/');
+  if (tail && isValidTimeZone(tail)) return { name: tail };
+  if (WINDOWS_ZONES[tzid]) return { name: WINDOWS_ZONES[tzid] };
+
+  const definition = timezones.get(tzid);
+  const location = definition && first(definition, 'X-LIC-LOCATION')?.value.trim();
+  if (location && isValidTimeZone(location)) return { name: location };
+
+  const standard = definition?.children.find(child => child.name === 'STANDARD') ?? definition?.children[0];
+  const offset = standard && /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(first(standard, 'TZOFFSETTO')?.value.trim() ?? '');
+  if (offset) {
+    const ms = ((Number(offset[2]) * 60 + Number(offset[3])) * 60 + Number(offset[4] ?? 0)) * 1000;
+    return { offset: offset[1] === '-' ? -ms : ms };
+  }
+  return null;
+}
+
+interface DateValue {
+  time: number;
+  allDay: boolean;
+  zone: Zone | null; // null for UTC and date-only values
+}
+
+function readDateValue(value: string, params: Record<string, string>, defaultZone: Zone, timezones: Map<string, Component>): DateValue {
+  const text = value.trim();
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (params.VALUE === 'DATE' || date) {
+    if (!date) throw new CalendarError(`Invalid date "${text}"`);
+    return { time: Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3])), allDay: true, zone: null };
+  }
+
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/.exec(text);
+  if (!match) {
+    throw new CalendarError(`Invalid date-time "${text}"`);
+  }
+  const wall = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4]),
+    minute: Number(match[5]),
+    second: Number(match[6]),
+  };
+  if (match[7]) {
+    return { time: Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second), allDay: false, zone: null };
+  }
+
+  // Floating times belong to whoever imports them
+  const zone = (params.TZID ? resolveZone(params.TZID, timezones) : null) ?? defaultZone;
+  const time = 'name' in zone
+    ? fromWallTime(wall, zone.name)
+    : Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - zone.offset;
+  return { time, allDay: false, zone };
+}
+
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = (((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60000 + Number(seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// Rewrites an RRULE into the subset we expand: UNTIL becomes UTC, and the BYMONTH and
+// BYMONTHDAY parts yearly rules repeat from DTSTART are dropped
+function convertRule(value: string, start: DateValue, defaultZone: Zone, timezones: Map<string, Component>): RecurrenceRule {
+  const startWall = toWallTime(start.time, start.zone && 'name' in start.zone ? start.zone.name : 'UTC');
+  const parts = value.split(';').filter(Boolean).map(part => {
+    const separator = part.indexOf('=');
+    return [part.slice(0, separator).toUpperCase(), part.slice(separator + 1)];
+  });
+  const freq = parts.find(([name]) => name === 'FREQ')?.[1].toUpperCase();
+
+  const kept = parts.flatMap(([name, partValue]) => {
+    if (name === 'UNTIL') {
+      const until = readDateValue(partValue, {}, start.zone ?? defaultZone, timezones);
+      // A date-only UNTIL includes the whole day
+      const time = until.allDay && !start.allDay ? until.time + DAY_MS - 1000 : until.time;
+      return [`UNTIL=${formatICalDate(time)}`];
+    }
+    if (freq === 'YEARLY' && name === 'BYMONTH' && Number(partValue) === startWall.month) return [];
+    if (freq === 'YEARLY' && name === 'BYMONTHDAY' && Number(partValue) === startWall.day) return [];
+    return [`${name}=${partValue}`];
+  });
+  return parseRecurrence(`RRULE:${kept.join(';')}`)!;
+}
+
+function readAttendees(component: Component): string[] {
+  return component.lines
+    .filter(line => line.name === 'ATTENDEE')
+    .map(line => {
+      const address = line.value.trim().replace(/^mailto:/i, '');
+      return address.includes('@') ? address : (line.params.CN ?? address);
+    })
+    .filter(Boolean)
+    .slice(0, 500);
+}
+
+function parseEvent(component: Component, defaultZone: Zone, timezones: Map<string, Component>): ParsedEvent {
+  const startLine = first(component, 'DTSTART');
+  if (!startLine) {
+    throw new CalendarError('Event has no start time');
+  }
+  const start = readDateValue(startLine.value, startLine.params, defaultZone, timezones);
+
+  let endDate = start.time;
+  const endLine = first(component, 'DTEND');
+  const durationLine = first(component, 'DURATION');
+  if (endLine) {
+    endDate = readDateValue(endLine.value, endLine.params, defaultZone, timezones).time;
+  } else if (durationLine) {
+    endDate = start.time + (parseDuration(durationLine.value) ?? 0);
+  } else if (start.allDay) {
+    endDate = start.time + DAY_MS;
+  }
+  // iCalendar all-day ends are exclusive; ours are the last day of the event
+  if (start.allDay) {
+    endDate = Math.max(start.time, endDate - DAY_MS);
+  }
+  if (endDate < start.time) {
+    endDate = start.time;
+  }
+
+  let rule: RecurrenceRule | null = null;
+  const ruleLine = first(component, 'RRULE');
+  if (ruleLine) {
+    try {
+      rule = convertRule(ruleLine.value, start, defaultZone, timezones);
+    } catch (error) {
+      if (error instanceof RecurrenceError) {
+        throw new CalendarError(`Unsupported recurrence: ${error.message}`);
+      }
+      throw error;
+    }
+    for (const line of component.lines.filter(line => line.name === 'EXDATE')) {
+      for (const value of line.value.split(',').filter(Boolean)) {
+        rule.exceptions.push(readDateValue(value, line.params, start.zone ?? defaultZone, timezones).time);
+      }
+    }
+  }
+
+  const summary = unescapeText(first(component, 'SUMMARY')?.value ?? '').trim();
+  const category = unescapeText(first(component, 'CATEGORIES')?.value ?? '').split(',')[0]?.trim().toLowerCase();
+  const status = first(component, 'STATUS')?.value.trim().toLowerCase();
+  const recurrenceIdLine = first(component, 'RECURRENCE-ID');
+  const uid = first(component, 'UID')?.value.trim() ||
+    // Without a UID, the same start and title still count as the same event on re-import
+    `generated-${crypto.createHash('sha1').update(`${startLine.value}|${summary}`).digest('hex')}`;
+
+  return {
+    uid,
+    recurrenceId: recurrenceIdLine
+      ? readDateValue(recurrenceIdLine.value, recurrenceIdLine.params, start.zone ?? defaultZone, timezones).time
+      : null,
+    rule,
+    data: {
+      title: (summary || '(No title)').slice(0, 500),
+      description: unescapeText(first(component, 'DESCRIPTION')?.value ?? '').slice(0, 10000) || null,
+      startDate: start.time,
+      endDate,
+      location: unescapeText(first(component, 'LOCATION')?.value ?? '').slice(0, 1000) || null,
+      type: (calendarEventTypes as readonly string[]).includes(category) ? category : 'meeting',
+      attendees: JSON.stringify(readAttendees(component)),
+      pageId: null,
+      isAllDay: start.allDay,
+      recurrence: formatRecurrence(rule),
+      timezone: start.zone && 'name' in start.zone && start.zone.name !== 'UTC' ? start.zone.name : null,
+      status: status && (calendarEventStatuses as readonly string[]).includes(status) ? status : 'confirmed',
+    },
+  };
+}
+
+const COMPARED_FIELDS = [
+  'title', 'description', 'startDate', 'endDate', 'location', 'type', 'attendees', 'isAllDay', 'recurrence', 'timezone', 'status',
+] as const;
+
+function isUnchanged(existing: CalendarEvent, data: ParsedEvent['data']): boolean {
+  return COMPARED_FIELDS.every(field => (existing[field] ?? null) === (data[field] ?? null));
+}
+
+// Events exported from our own feed carry UIDs like event-12@host
+async function findExisting(workspaceId: number, uid: string): Promise<CalendarEvent | undefined> {
+  const existing = await storage.getCalendarEventByUid(workspaceId, uid);
+  if (existing) return existing;
+  const own = /^event-(\d+)@/.exec(uid);
+  if (!own) return undefined;
+  const event = await storage.getCalendarEvent(parseInt(own[1]));
+  return event && event.workspaceId === workspaceId && !event.uid ? event : undefined;
+}
+
+export async function importICalendar(options: {
+  workspaceId: number;
+  userId: string;
+  data: Buffer;
+  timezone?: string;
+}): Promise<CalendarImportResult> {
+  const { workspaceId, userId, data } = options;
+  const role = await requireRole(workspaceId, userId);
+  if (role === 'guest') {
+    throw new CalendarError('Guests cannot import events', 403);
+  }
+  if (data.length > MAX_IMPORT_BYTES) {
+    throw new CalendarError('Calendar files can be at most 5 MB', 413);
+  }
+  if (options.timezone && !isValidTimeZone(options.timezone)) {
+    throw new CalendarError(`Unknown time zone "${options.timezone}"`);
+  }
+  const defaultZone: Zone = { name: options.timezone || 'UTC' };
+
+  const calendars = parseComponents(data.toString('utf8')).filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new CalendarError('This is not an iCalendar file');
+  }
+  const timezones = new Map<string, Component>();
+  const components: Component[] = [];
+  for (const calendar of calendars) {
+    for (const child of calendar.children) {
+      if (child.name === 'VTIMEZONE') {
+        const tzid = first(child, 'TZID')?.value.trim();
+        if (tzid) timezones.set(tzid, child);
+      } else if (child.name === 'VEVENT') {
+        components.push(child);
+      }
+    }
+  }
+  if (components.length > MAX_IMPORT_EVENTS) {
+    throw new CalendarError(`Calendar files can hold at most ${MAX_IMPORT_EVENTS} events`, 413);
+  }
+
+  const result: CalendarImportResult = { created: [], updated: [], skipped: [] };
+  const masters = new Map<string, ParsedEvent>();
+  const overrides: ParsedEvent[] = [];
+  for (const component of components) {
+    try {
+      const event = parseEvent(component, defaultZone, timezones);
+      if (event.recurrenceId !== null) {
+        overrides.push(event);
+      } else if (masters.has(event.uid)) {
+        result.skipped.push({ uid: event.uid, title: event.data.title, reason: 'Duplicate UID in file' });
+      } else {
+        masters.set(event.uid, event);
+      }
+    } catch (error) {
+      if (!(error instanceof CalendarError)) throw error;
+      const summary = first(component, 'SUMMARY')?.value;
+      result.skipped.push({
+        uid: first(component, 'UID')?.value.trim() ?? null,
+        title: summary ? unescapeText(summary) : null,
+        reason: error.message,
+      });
+    }
+  }
+
+  // An edited or cancelled instance replaces that occurrence of its series
+  const toSave: ParsedEvent[] = [];
+  for (const override of overrides) {
+    const master = masters.get(override.uid);
+    if (master?.rule) {
+      master.rule.exceptions.push(override.recurrenceId!);
+      master.data.recurrence = formatRecurrence(master.rule);
+    }
+    if (override.data.status === 'cancelled' && master) continue;
+    toSave.push({ ...override, uid: `${override.uid}#${formatICalDate(override.recurrenceId!)}` });
+  }
+  toSave.unshift(...Array.from(masters.values()));
+
+  for (const event of toSave) {
+    const existing = await findExisting(workspaceId, event.uid);
+    if (!existing) {
+      const created = await storage.createCalendarEvent({ ...event.data, workspaceId, createdBy: userId, uid: event.uid });
+      result.created.push({ id: created.id, uid: created.uid, title: created.title });
+      continue;
+    }
+    try {
+      requireEventEdit(existing, role, userId);
+    } catch {
+      result.skipped.push({ uid: event.uid, title: event.data.title, reason: 'Only the organiser or a workspace admin can change the existing event' });
+      continue;
+    }
+    if (isUnchanged(existing, event.data)) {
+      result.skipped.push({ uid: event.uid, title: event.data.title, reason: 'Unchanged' });
+      continue;
+    }
+    // Keep the link to a page made in the app; the file knows nothing about it
+    const { pageId, ...updates } = event.data;
+    const updated = await storage.updateCalendarEvent(existing.id, updates);
+    result.updated.push({ id: updated!.id, uid: updated!.uid, title: updated!.title });
+  }
+  return result;
+}
@@ -0,0 +1,414 @@
+import net from 'net';
+import tls from 'tls';
+import { isLoopbackAddress } from './mail-hosts';
+
+// Minimal IMAP4rev1 client (RFC 3501) covering what mail sync needs: login with
+// STARTTLS, LIST, SELECT, UID SEARCH/FETCH/STORE, MOVE (or COPY and expunge), APPEND.
+// Commands run one at a time on a connection.
+
+export class ImapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImapError';
+  }
+}
+
+export interface ImapConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start; otherwise upgraded with STARTTLS
+  username: string;
+  password: string;
+  // Log in without TLS when the server has no STARTTLS; always allowed on loopback
+  allowPlaintext?: boolean;
+  lookup?: net.LookupFunction;
+}
+
+export interface ImapMailbox {
+  name: string;
+  delimiter: string | null;
+  flags: string[]; // includes RFC 6154 special-use flags such as \Sent and \Trash
+}
+
+export interface ImapFetchRecord {
+  uid: number;
+  flags: string[];
+  internalDate: number | null;
+  size: number | null;
+  body: Buffer | null;
+}
+
+type ImapValue = string | Buffer | null | ImapValue[];
+
+interface PendingCommand {
+  tag: string;
+  untagged: Buffer[];
+  continuation: (() => void) | null;
+  resolve: (untagged: Buffer[]) => void;
+  reject: (error: Error) => void;
+}
+
+const TIMEOUT_MS = 30000;
+
+// Reads one response into values. Literals ({n} followed by n bytes) become Buffers,
+// atoms like BODY[1.2] stay whole, NIL is null.
+function tokenize(data: Buffer): ImapValue[] {
+  let index = 0;
+  const readList = (close: number | null): ImapValue[] => {
+    const items: ImapValue[] = [];
+    while (index < data.length) {
+      const byte = data[index];
+      if (byte === 0x20 || byte === 0x0d || byte === 0x0a) {
+        index++;
+      } else if (byte === close) {
+        index++;
+        return items;
+      } else if (byte === 0x29) {
+        index++; // stray ")"
+      } else if (byte === 0x28) {
+        index++;
+        items.push(readList(0x29));
+      } else if (byte === 0x22) {
+        let text = '';
+        index++;
+        while (index < data.length && data[index] !== 0x22) {
+          if (data[index] === 0x5c) index++;
+          text += String.fromCharCode(data[index++]);
+        }
+        index++;
+        items.push(Buffer.from(text, 'latin1').toString('utf8'));
+      } else if (byte === 0x7b) {
+        const end = data.indexOf(0x7d, index);
+        const length = parseInt(data.toString('latin1', index + 1, end));
+        index = data.indexOf(0x0a, end) + 1;
+        items.push(data.subarray(index, index + length));
+        index += length;
+      } else {
+        const start = index;
+        let depth = 0;
+        while (index < data.length) {
+          const char = data[index];
+          if (char === 0x5b) depth++;
+          else if (char === 0x5d) depth--;
+          else if (depth <= 0 && (char === 0x20 || char === 0x28 || char === 0x29 || char === 0x0d || char === 0x0a)) break;
+          index++;
+        }
+        const atom = data.toString('utf8', start, index);
+        items.push(atom.toUpperCase() === 'NIL' ? null : atom);
+      }
+    }
+    return items;
+  };
+  return readList(null);
+}
+
+function text(value: ImapValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (Buffer.isBuffer(value)) return value.toString('utf8');
+  return Array.isArray(value) ? '' : value;
+}
+
+// Strings go out quoted; anything a quoted string cannot hold goes as a literal
+function quote(value: string): string | Buffer {
+  if (/[\r\n\x00]|[^\x00-\x7f]/.test(value)) return Buffer.from(value, 'utf8');
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+// 1,2,3,7 -> 1:3,7
+function uidSet(uids: number[]): string {
+  const sorted = Array.from(new Set(uids)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let index = 0; index < sorted.length; index++) {
+    const start = sorted[index];
+    while (sorted[index + 1] === sorted[index] + 1) index++;
+    ranges.push(start === sorted[index] ? String(start) : `${start}:${sorted[index]}`);
+  }
+  return ranges.join(',');
+}
+
+export class ImapClient {
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private tagCounter = 0;
+  private greeting: { resolve: (line: string) => void; reject: (error: Error) => void } | null = null;
+  private closedError: Error | null = null;
+  capabilities = new Set<string>();
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static async open(config: ImapConfig): Promise<ImapClient> {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, lookup: config.lookup })
+      : net.connect({ host: config.host, port: config.port, lookup: config.lookup });
+    const client = new ImapClient(socket);
+    try {
+      const greeting = await new Promise<string>((resolve, reject) => {
+        client.greeting = { resolve, reject };
+      });
+      if (!/^\* (OK|PREAUTH)/i.test(greeting)) {
+        throw new ImapError(`Server refused the connection: ${greeting}`);
+      }
+      await client.refreshCapabilities();
+
+      if (!config.secure) {
+        // Someone in between can strip STARTTLS from the capabilities to read the password
+        if (client.capabilities.has('STARTTLS')) {
+          await client.run('STARTTLS');
+          await client.upgrade(config.host);
+          await client.refreshCapabilities();
+        } else if (!config.allowPlaintext && !isLoopbackAddress(client.socket.remoteAddress)) {
+          throw new ImapError('The server does not offer STARTTLS; use a TLS port instead');
+        }
+      }
+      if (client.capabilities.has('LOGINDISABLED')) {
+        throw new ImapError('The server does not allow logging in without TLS');
+      }
+      await client.run(['LOGIN ', quote(config.username), ' ', quote(config.password)]);
+      await client.refreshCapabilities();
+      return client;
+    } catch (error) {
+      client.socket.destroy();
+      throw error;
+    }
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new ImapError('The mail server stopped responding')));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+    socket.on('error', (error) => this.fail(error instanceof ImapError ? error : new ImapError(error.message)));
+    socket.on('close', () => this.fail(new ImapError('Connection to the mail server closed')));
+  }
+
+  private async upgrade(host: string) {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    this.socket = secure;
+    this.attach(secure);
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+  }
+
+  private fail(error: Error) {
+    this.closedError ??= error;
+    this.greeting?.reject(error);
+    this.greeting = null;
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+
+  // Splits the buffer into complete responses, following literals across lines
+  private drain() {
+    while (true) {
+      let position = 0;
+      let end = -1;
+      while (true) {
+        const lineEnd = this.buffer.indexOf('\r\n', position);
+        if (lineEnd === -1) break;
+        const literal = /\{(\d+)\+?\}$/.exec(this.buffer.toString('latin1', Math.max(position, lineEnd - 20), lineEnd));
+        if (!literal) {
+          end = lineEnd + 2;
+          break;
+        }
+        position = lineEnd + 2 + parseInt(literal[1]);
+        if (position > this.buffer.length) break;
+      }
+      if (end === -1) return;
+      const response = this.buffer.subarray(0, end);
+      this.buffer = this.buffer.subarray(end);
+      this.dispatch(response);
+    }
+  }
+
+  private dispatch(response: Buffer) {
+    const line = response.toString('latin1', 0, Math.min(response.length, 200));
+    if (this.greeting) {
+      this.greeting.resolve(line.trim());
+      this.greeting = null;
+      return;
+    }
+    const pending = this.pending;
+    if (!pending) return;
+    if (line.startsWith('+')) {
+      pending.continuation?.();
+      return;
+    }
+    if (line.startsWith(`${pending.tag} `)) {
+      this.pending = null;
+      const status = line.slice(pending.tag.length + 1).trim();
+      if (/^OK/i.test(status)) {
+        pending.resolve(pending.untagged);
+      } else {
+        pending.reject(new ImapError(status.replace(/^(NO|BAD)\s*(\[[^\]]*\]\s*)?/i, '') || 'Command failed'));
+      }
+      return;
+    }
+    pending.untagged.push(response);
+  }
+
+  // Runs a command. Buffer segments are sent as literals once the server asks for them.
+  run(command: string | Array<string | Buffer>): Promise<Buffer[]> {
+    const segments = typeof command === 'string' ? [command] : command;
+    const result = this.queue.then(() => new Promise<Buffer[]>((resolve, reject) => {
+      if (this.closedError) {
+        reject(this.closedError);
+        return;
+      }
+      const tag = `A${++this.tagCounter}`;
+      // Each group ends where a literal is announced; the server's "+" releases the next
+      const groups: Buffer[][] = [[]];
+      let current = `${tag} `;
+      for (const segment of segments) {
+        if (Buffer.isBuffer(segment)) {
+          groups[groups.length - 1].push(Buffer.from(`${current}{${segment.length}}\r\n`, 'utf8'));
+          groups.push([segment]);
+          current = '';
+        } else {
+          current += segment;
+        }
+      }
+      groups[groups.length - 1].push(Buffer.from(`${current}\r\n`, 'utf8'));
+
+      let next = 0;
+      const sendNext = () => {
+        groups[next++]?.forEach(chunk => this.socket.write(chunk));
+      };
+      this.pending = { tag, untagged: [], continuation: sendNext, resolve, reject };
+      sendNext();
+    }));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async refreshCapabilities() {
+    const responses = await this.run('CAPABILITY');
+    this.capabilities = new Set();
+    for (const response of responses) {
+      const [, name, ...values] = tokenize(response);
+      if (text(name).toUpperCase() !== 'CAPABILITY') continue;
+      values.forEach(value => this.capabilities.add(text(value).toUpperCase()));
+    }
+  }
+
+  async listMailboxes(): Promise<ImapMailbox[]> {
+    const responses = await this.run('LIST "" "*"');
+    return responses.flatMap(response => {
+      const [, kind, flags, delimiter, name] = tokenize(response);
+      if (text(kind).toUpperCase() !== 'LIST') return [];
+      return [{
+        name: text(name),
+        delimiter: delimiter === null ? null : text(delimiter),
+        flags: Array.isArray(flags) ? flags.map(flag => text(flag)) : [],
+      }];
+    });
+  }
+
+  async select(mailbox: string, readOnly = false): Promise<{ uidValidity: number; exists: number }> {
+    const responses = await this.run([readOnly ? 'EXAMINE ' : 'SELECT ', quote(mailbox)]);
+    let uidValidity = 0;
+    let exists = 0;
+    for (const response of responses) {
+      const line = response.toString('latin1');
+      const validity = /\[UIDVALIDITY (\d+)\]/i.exec(line);
+      if (validity) uidValidity = Number(validity[1]);
+      const count = /^\* (\d+) EXISTS/i.exec(line);
+      if (count) exists = Number(count[1]);
+    }
+    return { uidValidity, exists };
+  }
+
+  async search(criteria: string): Promise<number[]> {
+    const responses = await this.run(`UID SEARCH ${criteria}`);
+    return responses.flatMap(response => {
+      const [, kind, ...values] = tokenize(response);
+      if (text(kind).toUpperCase() !== 'SEARCH') return [];
+      return values.map(value => Number(text(value))).filter(Number.isInteger);
+    });
+  }
+
+  // items e.g. "(UID FLAGS BODY.PEEK[])"; the body comes back as BODY[...]
+  async fetch(uids: number[], items: string): Promise<ImapFetchRecord[]> {
+    if (uids.length === 0) return [];
+    const responses = await this.run(`UID FETCH ${uidSet(uids)} ${items}`);
+    const records: ImapFetchRecord[] = [];
+    for (const response of responses) {
+      const [, , kind, values] = tokenize(response);
+      if (text(kind).toUpperCase() !== 'FETCH' || !Array.isArray(values)) continue;
+      const record: ImapFetchRecord = { uid: 0, flags: [], internalDate: null, size: null, body: null };
+      for (let index = 0; index + 1 < values.length; index += 2) {
+        const name = text(values[index]).toUpperCase();
+        const value = values[index + 1];
+        if (name === 'UID') record.uid = Number(text(value));
+        else if (name === 'FLAGS' && Array.isArray(value)) record.flags = value.map(flag => text(flag));
+        else if (name === 'INTERNALDATE') record.internalDate = Date.parse(text(value).replace(/^(\d{1,2})-(\w{3})-(\d{4})/, '$2 $1 $3')) || null;
+        else if (name === 'RFC822.SIZE') record.size = Number(text(value));
+        else if (name.startsWith('BODY[')) record.body = Buffer.isBuffer(value) ? value : Buffer.from(text(value), 'utf8');
+      }
+      if (record.uid) records.push(record);
+    }
+    return records;
+  }
+
+  async store(uids: number[], action: '+FLAGS' | '-FLAGS', flags: string[]) {
+    if (uids.length === 0) return;
+    await this.run(`UID STORE ${uidSet(uids)} ${action}.SILENT (${flags.join(' ')})`);
+  }
+
+  private async expungeDeleted(uids: number[]) {
+    // Without UIDPLUS, EXPUNGE also removes anything else already marked \Deleted
+    await this.run(this.capabilities.has('UIDPLUS') ? `UID EXPUNGE ${uidSet(uids)}` : 'EXPUNGE');
+  }
+
+  async move(uids: number[], target: string) {
+    if (uids.length === 0) return;
+    if (this.capabilities.has('MOVE')) {
+      await this.run([`UID MOVE ${uidSet(uids)} `, quote(target)]);
+      return;
+    }
+    await this.run([`UID COPY ${uidSet(uids)} `, quote(target)]);
+    await this.store(uids, '+FLAGS', ['\\Deleted']);
+    await this.expungeDeleted(uids);
+  }
+
+  async remove(uids: number[]) {
+    if (uids.length === 0) return;
+    await this.store(uids, '+FLAGS', ['\\Deleted']);
+    await this.expungeDeleted(uids);
+  }
+
+  async append(mailbox: string, message: Buffer, flags: string[] = []) {
+    await this.run(['APPEND ', quote(mailbox), ` (${flags.join(' ')}) `, message]);
+  }
+
+  async logout() {
+    try {
+      await this.run('LOGOUT');
+    } catch {
+      // The server may hang up before answering
+    } finally {
+      this.socket.destroy();
+    }
+  }
+}
+
+// Opens a session for `work` and always logs out afterwards
+export async function withImap<T>(config: ImapConfig, work: (client: ImapClient) => Promise<T>): Promise<T> {
+  const client = await ImapClient.open(config);
+  try {
+    return await work(client);
+  } finally {
+    await client.logout();
+  }
+}
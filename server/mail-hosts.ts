@@ -0,0 +1,78 @@
+import dns from 'dns';
+import net from 'net';
+
+// Where mail connections may go. Users type in their own IMAP and SMTP servers, so those
+// connections must not reach the server's own network: names that resolve to private,
+// loopback or link-local addresses are refused unless EMAIL_ALLOW_PRIVATE_HOSTS=true.
+// The check runs on every connect, as the socket's lookup, so a name cannot pass the
+// check and then resolve somewhere else.
+
+export class MailHostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailHostError';
+  }
+}
+
+const loopback = new net.BlockList();
+loopback.addSubnet('127.0.0.0', 8, 'ipv4');
+loopback.addAddress('::1', 'ipv6');
+
+const internal = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => internal.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => internal.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// IPv4 addresses written as IPv6 (::ffff:10.0.0.1) are checked as IPv4
+function unmapped(address: string): { address: string; family: 'ipv4' | 'ipv6' } {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return { address: mapped[1], family: 'ipv4' };
+  return { address, family: net.isIPv6(address) ? 'ipv6' : 'ipv4' };
+}
+
+export function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address || !net.isIP(address)) return false;
+  const { address: ip, family } = unmapped(address);
+  return loopback.check(ip, family);
+}
+
+function isInternalAddress(address: string): boolean {
+  const { address: ip, family } = unmapped(address);
+  return internal.check(ip, family);
+}
+
+function privateHostsAllowed(): boolean {
+  return process.env.EMAIL_ALLOW_PRIVATE_HOSTS === 'true';
+}
+
+// For hosts given as an address, which sockets connect to without a lookup
+export function checkMailHost(host: string): void {
+  if (privateHostsAllowed()) return;
+  const address = host.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(address) && isInternalAddress(address)) {
+    throw new MailHostError(`${host} is a private address`);
+  }
+  if (/^localhost\.?$/i.test(address) || /\.localhost\.?$/i.test(address)) {
+    throw new MailHostError(`${host} is a private address`);
+  }
+}
+
+// dns.lookup for mail sockets that fails when any address for the name is internal
+export const publicHostLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', undefined);
+    if (!privateHostsAllowed()) {
+      const blocked = addresses.find(entry => isInternalAddress(entry.address));
+      if (blocked) {
+        return callback(new MailHostError(`${hostname} resolves to a private address`), '', undefined);
+      }
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { sendMail, type SmtpConfig } from './smtp';
+import { buildMessage, createMessageId, parseAddressList, type EmailAddress } from './mime';
+
+// Mail the app sends on its own behalf, such as notifications and digests. MAIL_TRANSPORT
+// picks the transport:
+//   smtp     MAIL_SMTP_HOST, MAIL_SMTP_PORT, MAIL_SMTP_SECURE, MAIL_SMTP_USER, MAIL_SMTP_PASSWORD
+//   file     one .eml per message in MAIL_FILE_DIR (default ./mail)
+//   console  logs each message; the default, so development never sends real mail
+// MAIL_FROM sets the sender and APP_URL the base of links in messages.
+
+export interface SystemEmail {
+  to: EmailAddress;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailEnvelope {
+  from: string;
+  to: string[];
+}
+
+export interface MailTransport {
+  name: string;
+  send(envelope: MailEnvelope, message: Buffer, email: SystemEmail): Promise<void>;
+}
+
+class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(envelope: MailEnvelope, _message: Buffer, email: SystemEmail) {
+    console.log(`[mail] to ${envelope.to.join(', ')}: ${email.subject}\n${email.text}`);
+  }
+}
+
+class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(_envelope: MailEnvelope, message: Buffer) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const filename = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, filename), message);
+  }
+}
+
+class SmtpTransport implements MailTransport {
+  name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(envelope: MailEnvelope, message: Buffer) {
+    await sendMail(this.config, envelope, message);
+  }
+}
+
+function createTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp': {
+      const host = process.env.MAIL_SMTP_HOST;
+      if (!host) {
+        throw new Error('MAIL_SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+      }
+      const secure = process.env.MAIL_SMTP_SECURE === 'true';
+      return new SmtpTransport({
+        host,
+        port: parseInt(process.env.MAIL_SMTP_PORT || (secure ? '465' : '587'), 10),
+        secure,
+        username: process.env.MAIL_SMTP_USER || null,
+        password: process.env.MAIL_SMTP_PASSWORD || null,
+        allowPlaintext: process.env.MAIL_SMTP_ALLOW_PLAINTEXT === 'true',
+      });
+    }
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || path.resolve('mail'));
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  transport ??= createTransport();
+  return transport;
+}
+
+// Replaces the transport, e.g. with one that captures messages; null goes back to MAIL_TRANSPORT
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+function sender(): EmailAddress {
+  const [configured] = parseAddressList(process.env.MAIL_FROM);
+  return configured ?? { name: 'Notion Clone', address: 'no-reply@localhost' };
+}
+
+export function appUrl(pathname: string): string {
+  const base = (process.env.APP_URL || `http://localhost:${process.env.PORT || '5000'}`).replace(/\/+$/, '');
+  return `${base}${pathname.startsWith('/') ? pathname : `/${pathname}`}`;
+}
+
+export async function sendSystemEmail(email: SystemEmail): Promise<void> {
+  const from = sender();
+  const message = buildMessage({
+    from,
+    to: [email.to],
+    cc: [],
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    messageId: createMessageId(from.address),
+    attachments: [],
+  });
+  await getMailTransport().send({ from: from.address, to: [email.to.address] }, message, email);
+}
@@ -0,0 +1,585 @@
+import path from 'path';
+import { storage } from './storage';
+import { queryDatabase, getProperties } from './databases';
+import { isZip, readZip, writeZip, ZipError, type ZipEntry } from './zip';
+import type { Block, BlockContent, BlockProperties, Page, PageWithChildren, DatabaseProperty, DatabasePropertyValue, DatabaseDateValue } from '@shared/schema';
+
+// Round-trips pages through Markdown. Block types map onto plain Markdown so files
+// stay readable in git; icon, cover and properties travel in the front-matter.
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+const MAX_IMPORT_FILES = 500;
+
+export class MarkdownError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MarkdownError';
+  }
+}
+
+export interface ParsedBlock {
+  type: string;
+  content: BlockContent;
+  indentation: number;
+}
+
+export interface MarkdownDocument {
+  title: string | null;
+  icon: string | null;
+  cover: string | null;
+  properties: Record<string, unknown> | null;
+  blocks: ParsedBlock[];
+}
+
+export interface MarkdownImportResult {
+  pages: Array<Pick<Page, 'id' | 'title' | 'parentId'>>;
+  skipped: string[];
+}
+
+export interface MarkdownExport {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Front-matter
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value === '' || value === '~') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Not JSON; fall through to the YAML forms people write by hand
+  }
+  if (/^'.*'$/.test(value)) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^\[.*\]$/.test(value)) {
+    return value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== null);
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return value;
+}
+
+// Reads the flat `key: value` front-matter this exporter writes, plus block lists
+// (`tags:` followed by `- item` lines). Nested maps must be written inline as JSON.
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = /^\s+-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as unknown[]).push(parseScalar(item[1]));
+      continue;
+    }
+
+    const pair = /^([^:\s][^:]*):(?:\s+(.*))?$/.exec(line);
+    if (!pair) continue;
+    const key = pair[1].trim();
+    if (pair[2] === undefined || pair[2].trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseScalar(pair[2]);
+      listKey = null;
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+function formatFrontMatter(data: Record<string, unknown>): string {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n` : '';
+}
+
+// Markdown → blocks
+
+function indentOf(whitespace: string): number {
+  const width = whitespace.replace(/\t/g, '    ').length;
+  return Math.floor(width / 2);
+}
+
+export function parseMarkdown(text: string): MarkdownDocument {
+  const { data, body } = parseFrontMatter(text);
+  const lines = body.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: ParsedBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] | null = null;
+
+  const push = (type: string, content: BlockContent, indentation = 0) => {
+    blocks.push({ type, content, indentation });
+  };
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      push('text', { text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+  const flushQuote = () => {
+    if (quote) {
+      push('quote', { text: quote.join('\n').trim() });
+      quote = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const quoteLine = /^\s{0,3}>\s?(.*)$/.exec(line);
+    if (quoteLine) {
+      flushParagraph();
+      (quote ??= []).push(quoteLine[1]);
+      continue;
+    }
+    flushQuote();
+
+    const fence = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      const marker = fence[2];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(marker) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        code.push(lines[i]);
+        i++;
+      }
+      push('code', fence[3] ? { text: code.join('\n'), language: fence[3] } : { text: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    // Setext headings underline the paragraph line above them
+    if (paragraph.length > 0 && /^\s{0,3}(=+|-+)\s*$/.test(line)) {
+      const text = paragraph.join('\n');
+      paragraph = [];
+      push(line.trim().startsWith('=') ? 'heading1' : 'heading2', { text });
+      continue;
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      // There are only three heading levels; deeper ones collapse into the smallest
+      push(`heading${Math.min(heading[1].length, 3)}`, { text: heading[2] });
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      push('divider', {});
+      continue;
+    }
+
+    const todo = /^(\s*)[-*+]\s+\[([ xX])\]\s?(.*)$/.exec(line);
+    if (todo) {
+      flushParagraph();
+      push('todo', { text: todo[3], checked: todo[2] !== ' ' }, indentOf(todo[1]));
+      continue;
+    }
+
+    // Ordered lists have no block of their own and become bullets
+    const bullet = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (bullet) {
+      flushParagraph();
+      push('bullet-list', { text: bullet[2] }, indentOf(bullet[1]));
+      continue;
+    }
+
+    const image = /^\s*!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*$/.exec(line);
+    if (image && paragraph.length === 0) {
+      push('image', image[1] ? { url: image[2], caption: image[1] } : { url: image[2] });
+      continue;
+    }
+
+    // Indented lines right after a list item continue it
+    const previous = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && /^\s+/.test(line) && previous && (previous.type === 'bullet-list' || previous.type === 'todo')) {
+      previous.content.text = `${previous.content.text}\n${line.trim()}`;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+  flushQuote();
+
+  const { title, icon, cover, properties, ...extra } = data;
+  let pageTitle = typeof title === 'string' && title.trim() ? title.trim() : null;
+  // Without a front-matter title, a leading H1 is the page title
+  if (!pageTitle && blocks[0]?.type === 'heading1' && blocks[0].content.text) {
+    pageTitle = blocks.shift()!.content.text!;
+  }
+
+  const pageProperties = {
+    ...(properties && typeof properties === 'object' && !Array.isArray(properties) ? properties as Record<string, unknown> : {}),
+    ...extra,
+  };
+
+  return {
+    title: pageTitle,
+    icon: typeof icon === 'string' ? icon : null,
+    cover: typeof cover === 'string' ? cover : null,
+    properties: Object.keys(pageProperties).length > 0 ? pageProperties : null,
+    blocks,
+  };
+}
+
+// Blocks → Markdown
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined || value === '') return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function prefixLines(text: string, first: string, rest: string): string {
+  return text.split('\n').map((line, index) => (index === 0 ? first : rest) + line).join('\n');
+}
+
+function formatCell(property: DatabaseProperty, value: DatabasePropertyValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  const optionName = (id: unknown) => property.options?.find(option => option.id === id)?.name ?? String(id);
+  let text: string;
+  switch (property.type) {
+    case 'checkbox':
+      text = value ? '☑' : '☐';
+      break;
+    case 'select':
+      text = optionName(value);
+      break;
+    case 'multi_select':
+      text = (value as string[]).map(optionName).join(', ');
+      break;
+    case 'date': {
+      const date = value as DatabaseDateValue;
+      text = date.end ? `${date.start} → ${date.end}` : date.start;
+      break;
+    }
+    case 'person':
+    case 'relation':
+      text = (value as Array<string | number>).join(', ');
+      break;
+    default:
+      text = String(value);
+  }
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+// Databases have no Markdown block, so they are written as a table of their rows
+async function databaseTable(databaseId: number): Promise<string | null> {
+  const database = await storage.getDatabase(databaseId);
+  if (!database) return null;
+
+  const properties = getProperties(database);
+  const { rows } = await queryDatabase(database, {});
+  const header = `| ${properties.map(property => property.name.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const rule = `| ${properties.map(() => '---').join(' | ')} |`;
+  const body = rows.map(row => `| ${properties.map(property => formatCell(property, row.values[property.id])).join(' | ')} |`);
+  return [`**${database.title}**`, '', header, rule, ...body].join('\n');
+}
+
+async function blockToMarkdown(block: Block, depth: number): Promise<string | null> {
+  const content = parseJson<BlockContent & { databaseId?: number }>(block.content, {});
+  const properties = parseJson<BlockProperties>(block.properties, {});
+  const indent = '  '.repeat(depth + (properties.indentation ?? 0));
+  const text = content.text ?? '';
+
+  switch (block.type) {
+    case 'heading1':
+    case 'heading2':
+    case 'heading3':
+      return `${'#'.repeat(Number(block.type.slice(-1)))} ${text.replace(/\n/g, ' ')}`;
+    case 'bullet-list':
+      return prefixLines(text, `${indent}- `, `${indent}  `);
+    case 'todo':
+      return prefixLines(text, `${indent}- [${content.checked ? 'x' : ' '}] `, `${indent}  `);
+    case 'code': {
+      // The fence has to be longer than any run of backticks inside the code
+      const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+      const fence = '`'.repeat(longest + 1);
+      return `${fence}${content.language ?? ''}\n${text}\n${fence}`;
+    }
+    case 'quote':
+      return prefixLines(text, '> ', '> ');
+    case 'divider':
+      return '---';
+    case 'image':
+      return content.url ? `![${content.caption ?? ''}](${content.url})` : null;
+    case 'file':
+      return content.url ? `[${content.title ?? content.url}](${content.url})` : null;
+    case 'database':
+      return content.databaseId ? await databaseTable(content.databaseId) : null;
+    default:
+      return text ? prefixLines(text, indent, indent) : null;
+  }
+}
+
+const LIST_TYPES = new Set(['bullet-list', 'todo']);
+
+export async function pageToMarkdown(page: Page): Promise<string> {
+  const pageBlocks = [...await storage.getBlocksByPageId(page.id)].sort((a, b) => a.position - b.position);
+  const childrenOf = new Map<number | null, Block[]>();
+  for (const block of pageBlocks) {
+    const key = block.parentId ?? null;
+    childrenOf.set(key, [...(childrenOf.get(key) ?? []), block]);
+  }
+
+  // Nested blocks (toggles and the like) are written indented under their parent
+  const parts: Array<{ type: string; markdown: string }> = [];
+  const visit = async (parentId: number | null, depth: number) => {
+    for (const block of childrenOf.get(parentId) ?? []) {
+      const markdown = await blockToMarkdown(block, depth);
+      if (markdown !== null) {
+        parts.push({ type: block.type, markdown });
+      }
+      await visit(block.id, depth + 1);
+    }
+  };
+  await visit(null, 0);
+
+  const fullPageDatabase = (await storage.getWorkspaceDatabases(page.workspaceId))
+    .find(database => !database.isInline && database.pageId === page.id);
+  if (fullPageDatabase) {
+    const table = await databaseTable(fullPageDatabase.id);
+    if (table) parts.push({ type: 'database', markdown: table });
+  }
+
+  // List items stay tight; everything else is separated by a blank line
+  let body = '';
+  parts.forEach((part, index) => {
+    if (index > 0) {
+      body += LIST_TYPES.has(part.type) && LIST_TYPES.has(parts[index - 1].type) ? '\n' : '\n\n';
+    }
+    body += part.markdown;
+  });
+
+  const frontMatter = formatFrontMatter({
+    title: page.title,
+    icon: page.icon,
+    cover: page.cover,
+    properties: parseJson<Record<string, unknown> | null>(page.properties, null),
+  });
+  return `${frontMatter}${body}\n`;
+}
+
+function safeFilename(title: string): string {
+  const cleaned = title.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '').replace(/\s+/g, ' ').trim().slice(0, 100);
+  return cleaned || 'Untitled';
+}
+
+function findInTree(nodes: PageWithChildren[], pageId: number): PageWithChildren | undefined {
+  for (const node of nodes) {
+    if (node.id === pageId) return node;
+    const found = findInTree(node.children ?? [], pageId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// A single page exports as a .md file. With `recursive`, the page and its subtree go
+// into a zip where each page with children sits next to a folder of the same name.
+// With `visible`, subpages outside the set are left out of the archive along with everything under them
+export async function exportPage(page: Page, recursive: boolean, visible?: Set<number>): Promise<MarkdownExport> {
+  const name = safeFilename(page.title);
+  if (!recursive) {
+    return {
+      filename: `${name}.md`,
+      contentType: 'text/markdown; charset=utf-8',
+      data: Buffer.from(await pageToMarkdown(page), 'utf8'),
+    };
+  }
+
+  const tree = findInTree(await storage.getPagesWithChildren(page.workspaceId), page.id) ?? { ...page, children: [] };
+  const entries: ZipEntry[] = [];
+  const addPage = async (node: PageWithChildren, folder: string, taken: Set<string>) => {
+    let base = safeFilename(node.title);
+    for (let n = 2; taken.has(base.toLowerCase()); n++) {
+      base = `${safeFilename(node.title)} (${n})`;
+    }
+    taken.add(base.toLowerCase());
+
+    entries.push({ name: `${folder}${base}.md`, data: Buffer.from(await pageToMarkdown(node), 'utf8') });
+    const children = (node.children ?? []).filter(child => !visible || visible.has(child.id));
+    const childNames = new Set<string>();
+    for (const child of children) {
+      await addPage(child, `${folder}${base}/`, childNames);
+    }
+  };
+  await addPage(tree, '', new Set());
+
+  return {
+    filename: `${name}.zip`,
+    contentType: 'application/zip',
+    data: writeZip(entries),
+  };
+}
+
+// Import
+
+interface ImportNode {
+  name: string;
+  document: MarkdownDocument | null;
+  children: Map<string, ImportNode>;
+}
+
+function isMarkdownFile(name: string): boolean {
+  return /\.(md|markdown|mdown|mkd)$/i.test(name);
+}
+
+function isIndexFile(name: string): boolean {
+  return /^(index|readme)\.(md|markdown|mdown|mkd)$/i.test(name);
+}
+
+async function createPageFromDocument(
+  document: MarkdownDocument,
+  fallbackTitle: string,
+  options: { workspaceId: number; parentId: number | null; userId: string }
+): Promise<Page> {
+  const page = await storage.createPage({
+    title: document.title ?? fallbackTitle,
+    icon: document.icon ?? undefined,
+    cover: document.cover,
+    properties: document.properties ? JSON.stringify(document.properties) : null,
+    parentId: options.parentId,
+    workspaceId: options.workspaceId,
+    createdBy: options.userId,
+    lastEditedBy: options.userId,
+  });
+
+  let position = 0;
+  for (const block of document.blocks) {
+    await storage.createBlock({
+      pageId: page.id,
+      type: block.type,
+      content: JSON.stringify(block.content),
+      properties: block.indentation > 0 ? JSON.stringify({ indentation: block.indentation }) : null,
+      position: position++,
+      createdBy: options.userId,
+      lastEditedBy: options.userId,
+    });
+  }
+  return page;
+}
+
+function buildTree(entries: ZipEntry[], skipped: string[]): ImportNode {
+  const root: ImportNode = { name: '', document: null, children: new Map() };
+  const nodeAt = (segments: string[]) => {
+    let node = root;
+    for (const segment of segments) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { name: segment, document: null, children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    return node;
+  };
+
+  for (const entry of entries) {
+    const segments = entry.name.split('/').filter(Boolean);
+    if (segments.some(segment => segment.startsWith('.') || segment === '__MACOSX' || segment === '..')) {
+      continue;
+    }
+    const fileName = segments.pop()!;
+    if (!isMarkdownFile(fileName)) {
+      skipped.push(entry.name);
+      continue;
+    }
+
+    const document = parseMarkdown(entry.data.toString('utf8'));
+    // "Page.md" next to a "Page/" folder, or "Page/index.md", is the folder's own page
+    const node = isIndexFile(fileName)
+      ? nodeAt(segments)
+      : nodeAt([...segments, fileName.replace(/\.[^.]+$/, '')]);
+    if (node === root) {
+      // An index file at the top of the archive becomes a page of its own
+      nodeAt([fileName.replace(/\.[^.]+$/, '')]).document = document;
+    } else {
+      node.document = document;
+    }
+  }
+  return root;
+}
+
+// Imports a Markdown file or a zip of nested folders under `parentId` (or at the root)
+export async function importMarkdown(options: {
+  workspaceId: number;
+  parentId: number | null;
+  userId: string;
+  filename: string;
+  data: Buffer;
+}): Promise<MarkdownImportResult> {
+  if (options.data.length === 0) {
+    throw new MarkdownError('The upload is empty');
+  }
+  if (options.parentId !== null) {
+    const parent = await storage.getPage(options.parentId);
+    if (!parent || parent.workspaceId !== options.workspaceId || parent.isDeleted) {
+      throw new MarkdownError('Parent page not found', 404);
+    }
+  }
+
+  const result: MarkdownImportResult = { pages: [], skipped: [] };
+  const track = (page: Page) => result.pages.push({ id: page.id, title: page.title, parentId: page.parentId });
+
+  if (!isZip(options.data)) {
+    const fallbackTitle = path.basename(options.filename || 'Untitled').replace(/\.[^.]+$/, '') || 'Untitled';
+    const document = parseMarkdown(options.data.toString('utf8'));
+    track(await createPageFromDocument(document, fallbackTitle, { ...options }));
+    return result;
+  }
+
+  let entries: ZipEntry[];
+  try {
+    entries = readZip(options.data, MAX_IMPORT_BYTES);
+  } catch (error) {
+    if (error instanceof ZipError) {
+      throw new MarkdownError(error.message, error.status);
+    }
+    throw error;
+  }
+  if (entries.filter(entry => isMarkdownFile(entry.name)).length > MAX_IMPORT_FILES) {
+    throw new MarkdownError(`Archives may contain at most ${MAX_IMPORT_FILES} Markdown files`, 413);
+  }
+
+  const root = buildTree(entries, result.skipped);
+  const createNode = async (node: ImportNode, parentId: number | null) => {
+    const document = node.document ?? { title: null, icon: null, cover: null, properties: null, blocks: [] };
+    const page = await createPageFromDocument(document, node.name, { ...options, parentId });
+    track(page);
+    const children = Array.from(node.children.values()).sort((a, b) => a.name.localeCompare(b.name));
+    for (const child of children) {
+      await createNode(child, page.id);
+    }
+  };
+
+  const topLevel = Array.from(root.children.values()).sort((a, b) => a.name.localeCompare(b.name));
+  if (topLevel.length === 0) {
+    throw new MarkdownError('The archive contains no Markdown files');
+  }
+  for (const node of topLevel) {
+    await createNode(node, options.parentId);
+  }
+  return result;
+}
@@ -0,0 +1,205 @@
+import { storage } from './storage';
+import { toAuthor } from './comments';
+import { notifyQuietly } from './notifications';
+import { getPageAccess } from './permissions';
+import { parseMentions, splitMentions } from '@shared/mentions';
+import type { Block, MentionSuggestions, Page, PageBacklink, PageGraph } from '@shared/schema';
+
+const SUGGESTION_LIMIT = 8;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/;
+// Markdown links and bare URLs pointing at a page, e.g. [Roadmap](/page/42) or https://host/page/42
+const PAGE_LINK_PATTERN = /\]\((?:https?:\/\/[^\s/)]+)?\/page\/(\d+)\/?\)|(?:^|\s)https?:\/\/[^\s/]+\/page\/(\d+)\b/g;
+
+interface FoundReference {
+  blockId: number;
+  type: string;
+  targetId: string;
+}
+
+function keyOf(blockId: number, type: string, targetId: string): string {
+  return `${blockId}:${type}:${targetId}`;
+}
+
+export function blockText(block: Block): string {
+  // Code is quoted text, so an @[...] inside it is not a mention
+  if (block.type === 'code' || !block.content) return '';
+  try {
+    const content = typeof block.content === 'string' ? JSON.parse(block.content) : block.content;
+    return typeof content?.text === 'string' ? content.text : '';
+  } catch {
+    return '';
+  }
+}
+
+// Mention tokens read as their labels in notifications
+export function mentionsToPlainText(text: string): string {
+  return splitMentions(text)
+    .map(part => typeof part === 'string' ? part : part.type === 'date' ? part.label : `@${part.label}`)
+    .join('');
+}
+
+function parsePageLinks(text: string): string[] {
+  return Array.from(text.matchAll(PAGE_LINK_PATTERN), match => match[1] ?? match[2]);
+}
+
+async function isValidTarget(page: Page, type: string, targetId: string, members: Set<string>): Promise<boolean> {
+  switch (type) {
+    case 'user':
+      return members.has(targetId);
+    case 'page':
+    case 'link': {
+      const target = /^\d+$/.test(targetId) ? await storage.getPage(parseInt(targetId)) : undefined;
+      return !!target && target.id !== page.id && target.workspaceId === page.workspaceId;
+    }
+    case 'date':
+      return DATE_PATTERN.test(targetId) && !Number.isNaN(Date.parse(targetId));
+    default:
+      return false;
+  }
+}
+
+async function notifyMentionedUser(mentionedId: string, page: Page, blockId: number, text: string, userId: string) {
+  const actor = toAuthor(userId, await storage.getUser(userId));
+  const excerpt = mentionsToPlainText(text).trim();
+  await notifyQuietly({
+    type: 'mention',
+    recipientIds: [mentionedId],
+    actorId: userId,
+    workspaceId: page.workspaceId,
+    title: `${actor.name} mentioned you in ${page.title || 'Untitled'}`,
+    message: excerpt.length > 140 ? `${excerpt.slice(0, 140)}…` : excerpt,
+    url: `/page/${page.id}`,
+    data: { pageId: page.id, blockId },
+  });
+}
+
+// Re-reads every block on the page and brings the stored mentions and page links in
+// line with the text. Workspace members mentioned for the first time get a `mention`
+// notification if they can see the page; mentioning yourself does not notify.
+export async function syncPageMentions(pageId: number, userId: string): Promise<void> {
+  const page = await storage.getPage(pageId);
+  if (!page) return;
+
+  const pageBlocks = page.isDeleted ? [] : await storage.getBlocksByPageId(pageId);
+  const members = new Set((await storage.getWorkspaceMembers(page.workspaceId)).map(member => member.userId));
+  const found = new Map<string, FoundReference>();
+  const textByBlock = new Map<number, string>();
+
+  for (const block of pageBlocks) {
+    const text = blockText(block);
+    textByBlock.set(block.id, text);
+    const references = [
+      ...parseMentions(text).map(mention => ({ type: mention.type as string, targetId: mention.id })),
+      ...parsePageLinks(text).map(targetId => ({ type: 'link', targetId })),
+    ];
+    for (const { type, targetId } of references) {
+      const key = keyOf(block.id, type, targetId);
+      if (!found.has(key) && await isValidTarget(page, type, targetId, members)) {
+        found.set(key, { blockId: block.id, type, targetId });
+      }
+    }
+  }
+
+  const existing = await storage.getPageMentions(pageId);
+  const existingKeys = new Set(existing.map(row => keyOf(row.sourceBlockId, row.targetType, row.targetId)));
+  await storage.deleteMentions(existing
+    .filter(row => !found.has(keyOf(row.sourceBlockId, row.targetType, row.targetId)))
+    .map(row => row.id));
+
+  const notified = new Set<string>();
+  for (const [key, { blockId, type, targetId }] of Array.from(found.entries())) {
+    if (existingKeys.has(key)) continue;
+
+    await storage.createMention({
+      workspaceId: page.workspaceId,
+      sourcePageId: page.id,
+      sourceBlockId: blockId,
+      targetType: type,
+      targetId,
+      createdBy: userId,
+    });
+
+    if (type === 'user' && targetId !== userId && !notified.has(targetId)) {
+      notified.add(targetId);
+      // The notification carries the page title and an excerpt
+      if (await getPageAccess(page, targetId) === 'none') continue;
+      await notifyMentionedUser(targetId, page, blockId, textByBlock.get(blockId) ?? '', userId);
+    }
+  }
+}
+
+// Pages that mention or link to `pageId`, with the blocks doing it. Deleted pages are left out.
+export async function getBacklinks(pageId: number): Promise<PageBacklink[]> {
+  const backlinks = new Map<number, PageBacklink>();
+  for (const row of await storage.getPageBacklinks(pageId)) {
+    let entry = backlinks.get(row.sourcePageId);
+    if (!entry) {
+      const source = await storage.getPage(row.sourcePageId);
+      if (!source || source.isDeleted) continue;
+      entry = { pageId: source.id, title: source.title, icon: source.icon, references: [] };
+      backlinks.set(source.id, entry);
+    }
+    // A block that both mentions and links the page is listed once
+    if (entry.references.some(reference => reference.blockId === row.sourceBlockId)) continue;
+
+    const block = await storage.getBlockById(row.sourceBlockId);
+    const excerpt = block ? mentionsToPlainText(blockText(block)).trim() : '';
+    entry.references.push({
+      blockId: row.sourceBlockId,
+      kind: row.targetType === 'link' ? 'link' : 'mention',
+      excerpt: excerpt.length > 200 ? `${excerpt.slice(0, 200)}…` : excerpt,
+    });
+  }
+  return Array.from(backlinks.values());
+}
+
+// Every live page in the workspace that `visible` holds as a node, with one edge per
+// linking page pair. Links to or from other pages are left out before anything is
+// counted, so the counts say nothing about pages the viewer cannot see.
+export async function getLinkGraph(workspaceId: number, visible: Set<number>): Promise<PageGraph> {
+  const pages = (await storage.getPagesByWorkspace(workspaceId)).filter(page => !page.databaseId && visible.has(page.id));
+  const pageIds = new Set(pages.map(page => page.id));
+
+  const weights = new Map<string, number>();
+  for (const link of await storage.getWorkspaceLinks(workspaceId)) {
+    const target = parseInt(link.targetId);
+    if (!pageIds.has(link.sourcePageId) || !pageIds.has(target)) continue;
+    const key = `${link.sourcePageId}:${target}`;
+    weights.set(key, (weights.get(key) ?? 0) + 1);
+  }
+
+  const edges = Array.from(weights.entries()).map(([key, weight]) => {
+    const [source, target] = key.split(':').map(Number);
+    return { source, target, weight };
+  });
+  const nodes = pages.map(page => ({
+    id: page.id,
+    title: page.title,
+    icon: page.icon,
+    parentId: page.parentId,
+    inbound: edges.filter(edge => edge.target === page.id).length,
+    outbound: edges.filter(edge => edge.source === page.id).length,
+  }));
+  return { nodes, edges };
+}
+
+// Autocomplete for the @ menu: workspace members and the `visible` pages whose name contains `query`
+export async function suggestMentions(workspaceId: number, query: string, visible: Set<number>): Promise<MentionSuggestions> {
+  const needle = query.trim().toLowerCase();
+
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  const users = (await Promise.all(members.map(async member => {
+    const user = await storage.getUser(member.userId);
+    const author = toAuthor(member.userId, user);
+    const haystack = [author.name, user?.email, user?.username].filter(Boolean).join(' ').toLowerCase();
+    return haystack.includes(needle) ? author : null;
+  }))).filter((author): author is NonNullable<typeof author> => author !== null);
+
+  const pages = (await storage.getPagesByWorkspace(workspaceId))
+    .filter(page => visible.has(page.id) && !page.isArchived && page.title.toLowerCase().includes(needle))
+    .sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0))
+    .slice(0, SUGGESTION_LIMIT)
+    .map(page => ({ id: page.id, title: page.title, icon: page.icon }));
+
+  return { users: users.slice(0, SUGGESTION_LIMIT), pages };
+}
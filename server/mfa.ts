@@ -0,0 +1,360 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { sessionSecret } from './session-store';
+import { recordAudit } from './audit';
+import { toAuthor } from './comments';
+import {
+  mfaCodeSchema, workspaceSecuritySchema,
+  type MFAEnrollment, type MFAStatus, type UserMFA, type Workspace, type WorkspaceSecurityView,
+} from '@shared/schema';
+
+// TOTP multi-factor authentication (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps) with
+// single-use backup codes, plus the workspace policy that makes it mandatory for members.
+
+export class MFAError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MFAError';
+  }
+}
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted, for clocks that have drifted a little
+const SKEW_STEPS = 1;
+const SECRET_BYTES = 20;
+const BACKUP_CODE_COUNT = 10;
+const ISSUER = 'Notion Clone';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function mfaSecret(): string {
+  return process.env.MFA_SECRET || sessionSecret();
+}
+
+// Stored TOTP keys are AES-256-GCM encrypted: iv.tag.ciphertext, base64url
+function encryptSecret(value: string): string {
+  const key = crypto.createHash('sha256').update(`mfa-secret:${mfaSecret()}`).digest();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(value: string): string {
+  const [iv, tag, encrypted] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  const key = crypto.createHash('sha256').update(`mfa-secret:${mfaSecret()}`).digest();
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch {
+    throw new MFAError('The saved authenticator key can no longer be read. Use a backup code and set up MFA again.', 409);
+  }
+}
+
+function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of Array.from(data)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text.replace(/[\s=-]/g, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new MFAError('Invalid base32 key');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP with dynamic truncation
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter % 0x100000000, 4);
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return String(binary).padStart(DIGITS, '0');
+}
+
+// The time step the code belongs to, or null. Steps at or before `lastCounter` were already
+// used, so a code can only ever be accepted once.
+function matchTotp(secret: string, code: string, lastCounter: number | null, now: number): number | null {
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let counter = current - SKEW_STEPS; counter <= current + SKEW_STEPS; counter++) {
+    if (lastCounter !== null && counter <= lastCounter) continue;
+    if (crypto.timingSafeEqual(Buffer.from(hotp(key, counter)), Buffer.from(code))) return counter;
+  }
+  return null;
+}
+
+// Backup codes look like "k7q2m-x9d4r"; only their hashes are kept
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function hashBackupCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function backupHashesOf(mfa: UserMFA): string[] {
+  try {
+    const parsed = JSON.parse(mfa.backupCodes ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((hash): hash is string => typeof hash === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Verifications for one user run one at a time, so the same code cannot win twice in a race
+const userQueues = new Map<string, Promise<unknown>>();
+
+function withUser<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = userQueues.get(userId) ?? Promise.resolve();
+  const run = previous.then(task);
+  const settled = run.catch(() => undefined);
+  userQueues.set(userId, settled);
+  settled.then(() => {
+    if (userQueues.get(userId) === settled) userQueues.delete(userId);
+  });
+  return run;
+}
+
+function parseCode(input: unknown): string {
+  const parsed = mfaCodeSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new MFAError(parsed.error.issues[0]?.message ?? 'Invalid code');
+  }
+  return parsed.data.code.replace(/\s/g, '');
+}
+
+// Checks a TOTP or backup code against an enabled enrollment and uses it up
+async function consumeCode(userId: string, input: unknown): Promise<'totp' | 'backup'> {
+  const code = parseCode(input);
+  return await withUser(userId, async () => {
+    const mfa = await storage.getMFASettings(userId);
+    if (!mfa?.isEnabled) {
+      throw new MFAError('MFA is not enabled', 409);
+    }
+    if (/^\d{6}$/.test(code)) {
+      const counter = matchTotp(decryptSecret(mfa.secret), code, mfa.lastCounter ?? null, Date.now());
+      if (counter === null) {
+        throw new MFAError('Invalid or already used code', 401);
+      }
+      await storage.updateMFA(userId, { lastCounter: counter, lastUsed: Date.now() });
+      return 'totp';
+    }
+
+    const hashes = backupHashesOf(mfa);
+    const hash = hashBackupCode(code);
+    if (!hashes.includes(hash)) {
+      throw new MFAError('Invalid or already used code', 401);
+    }
+    await storage.updateMFA(userId, {
+      backupCodes: JSON.stringify(hashes.filter(existing => existing !== hash)),
+      lastUsed: Date.now(),
+    });
+    return 'backup';
+  });
+}
+
+// Workspace policy
+
+function readSettings(workspace: Workspace): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(workspace.settings ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function requiresMfa(workspace: Workspace): boolean {
+  return readSettings(workspace).requireMfa === true;
+}
+
+// The user's workspaces whose members must use MFA
+export async function getMFARequirement(userId: string): Promise<{ id: number; name: string }[]> {
+  const workspaces = await storage.getWorkspacesByUserId(userId);
+  return workspaces.filter(requiresMfa).map(workspace => ({ id: workspace.id, name: workspace.name }));
+}
+
+export async function isMFAEnabled(userId: string): Promise<boolean> {
+  return (await storage.getMFASettings(userId))?.isEnabled === true;
+}
+
+// An authenticator app or a passkey; either satisfies the workspace policy
+export async function hasSecondFactor(userId: string): Promise<boolean> {
+  return await isMFAEnabled(userId) || (await storage.getWebAuthnCredentials(userId)).length > 0;
+}
+
+// Signed-in members who still have to enroll. Checked on every request rather than at
+// sign-in, so turning the policy on also holds back sessions that were already open.
+export async function needsMFAEnrollment(userId: string): Promise<boolean> {
+  return (await getMFARequirement(userId)).length > 0 && !await hasSecondFactor(userId);
+}
+
+async function requireWorkspaceAdmin(workspaceId: number, userId: string): Promise<Workspace> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  const role = workspace ? await storage.getUserWorkspaceRole(workspaceId, userId) : undefined;
+  if (!workspace || !role) {
+    throw new MFAError('Workspace not found', 404);
+  }
+  if (role !== 'owner' && role !== 'admin') {
+    throw new MFAError('Only workspace owners and admins can change security settings', 403);
+  }
+  return workspace;
+}
+
+async function toSecurityView(workspace: Workspace): Promise<WorkspaceSecurityView> {
+  const membersWithoutMfa = [];
+  for (const member of await storage.getWorkspaceMembers(workspace.id)) {
+    if (!await hasSecondFactor(member.userId)) {
+      membersWithoutMfa.push(toAuthor(member.userId, await storage.getUser(member.userId)));
+    }
+  }
+  return { requireMfa: requiresMfa(workspace), membersWithoutMfa };
+}
+
+export async function getWorkspaceSecurity(workspaceId: number, userId: string): Promise<WorkspaceSecurityView> {
+  return await toSecurityView(await requireWorkspaceAdmin(workspaceId, userId));
+}
+
+// Members without a second factor are asked to enroll the next time they sign in
+export async function updateWorkspaceSecurity(workspaceId: number, userId: string, input: unknown, ipAddress?: string): Promise<WorkspaceSecurityView> {
+  const workspace = await requireWorkspaceAdmin(workspaceId, userId);
+  const parsed = workspaceSecuritySchema.safeParse(input);
+  if (!parsed.success) {
+    throw new MFAError(parsed.error.issues[0]?.message ?? 'Invalid security settings');
+  }
+  const { requireMfa } = parsed.data;
+  if (requireMfa && !await hasSecondFactor(userId)) {
+    throw new MFAError('Turn on MFA or add a passkey for your own account before requiring it for everyone', 409);
+  }
+
+  const before = requiresMfa(workspace);
+  const updated = await storage.updateWorkspace(workspaceId, {
+    settings: JSON.stringify({ ...readSettings(workspace), requireMfa }),
+  });
+  if (!updated) {
+    throw new MFAError('Workspace not found', 404);
+  }
+  if (before !== requireMfa) {
+    await recordAudit({
+      workspaceId,
+      userId,
+      action: 'workspace.security_changed',
+      resourceType: 'workspace',
+      resourceId: workspaceId,
+      metadata: { requireMfa: { from: before, to: requireMfa } },
+      ipAddress,
+    });
+  }
+  return await toSecurityView(updated);
+}
+
+// Enrollment
+
+export async function getMFAStatus(userId: string): Promise<MFAStatus> {
+  const mfa = await storage.getMFASettings(userId);
+  return {
+    isEnabled: mfa?.isEnabled === true,
+    pending: !!mfa && !mfa.isEnabled,
+    lastUsed: mfa?.isEnabled ? mfa.lastUsed ?? null : null,
+    backupCodesRemaining: mfa?.isEnabled ? backupHashesOf(mfa).length : 0,
+    passkeyCount: (await storage.getWebAuthnCredentials(userId)).length,
+    requiredBy: await getMFARequirement(userId),
+  };
+}
+
+// Issues a new key; MFA stays off until a code from it is confirmed
+export async function startEnrollment(userId: string): Promise<MFAEnrollment> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new MFAError('User not found', 404);
+  }
+  if (await isMFAEnabled(userId)) {
+    throw new MFAError('MFA is already enabled; turn it off before setting it up again', 409);
+  }
+
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+  await storage.setupMFA(userId, encryptSecret(secret));
+  const account = user.email || user.username || user.id;
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return {
+    secret,
+    otpauthUri: `otpauth://totp/${encodeURIComponent(`${ISSUER}:${account}`)}?${params}`,
+  };
+}
+
+// Turns MFA on once the app produces a valid code. The backup codes are only ever shown here
+// and when they are regenerated.
+export async function confirmEnrollment(userId: string, input: unknown): Promise<MFAStatus & { backupCodes: string[] }> {
+  const code = parseCode(input);
+  const backupCodes = await withUser(userId, async () => {
+    const mfa = await storage.getMFASettings(userId);
+    if (!mfa || mfa.isEnabled) {
+      throw new MFAError(mfa ? 'MFA is already enabled' : 'Start the setup first', 409);
+    }
+    const counter = /^\d{6}$/.test(code) ? matchTotp(decryptSecret(mfa.secret), code, null, Date.now()) : null;
+    if (counter === null) {
+      throw new MFAError('That code does not match. Check the time on your device and try again.');
+    }
+    const codes = generateBackupCodes();
+    await storage.enableMFA(userId, codes.map(hashBackupCode), counter);
+    return codes;
+  });
+  return { ...await getMFAStatus(userId), backupCodes };
+}
+
+// Passkeys keep the account within a workspace's MFA policy, so with one registered the app can go
+export async function disableMFA(userId: string, input: unknown): Promise<MFAStatus> {
+  const requiredBy = await getMFARequirement(userId);
+  if (requiredBy.length > 0 && (await storage.getWebAuthnCredentials(userId)).length === 0) {
+    throw new MFAError(`${requiredBy[0].name} requires MFA for all members`, 409);
+  }
+  await consumeCode(userId, input);
+  await storage.disableMFA(userId);
+  return await getMFAStatus(userId);
+}
+
+export async function regenerateBackupCodes(userId: string, input: unknown): Promise<MFAStatus & { backupCodes: string[] }> {
+  await consumeCode(userId, input);
+  const backupCodes = generateBackupCodes();
+  await storage.updateMFA(userId, { backupCodes: JSON.stringify(backupCodes.map(hashBackupCode)) });
+  return { ...await getMFAStatus(userId), backupCodes };
+}
+
+// Second step of a password sign-in
+export async function verifyLoginCode(userId: string, input: unknown): Promise<'totp' | 'backup'> {
+  return await consumeCode(userId, input);
+}
@@ -0,0 +1,534 @@
+import crypto from 'crypto';
+
+// Just enough MIME (RFC 2045-2047, 2231, 5322) to read mail fetched over IMAP, build
+// the messages we send, and read multipart/form-data uploads, which share the format.
+
+export interface EmailAddress {
+  name: string | null;
+  address: string;
+}
+
+export interface MimePart {
+  partId: string; // IMAP section numbering: 1, 2, 2.1, ...
+  headers: Map<string, string[]>;
+  contentType: string;
+  params: Record<string, string>;
+  disposition: string | null;
+  dispositionParams: Record<string, string>;
+  body: Buffer; // transfer encoding removed
+  children: MimePart[];
+}
+
+export interface ParsedAttachment {
+  partId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ParsedMessage {
+  subject: string;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  date: number | null;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  html: string; // text-only mail is converted
+  attachments: ParsedAttachment[];
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutgoingMessage {
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  text: string;
+  html: string;
+  messageId: string;
+  inReplyTo?: string | null;
+  references?: string[];
+  attachments: OutgoingAttachment[];
+}
+
+export interface FormDataFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+function splitHeaderBody(data: Buffer): { header: string; body: Buffer } {
+  const crlf = data.indexOf('\r\n\r\n');
+  const lf = data.indexOf('\n\n');
+  if (crlf !== -1 && (lf === -1 || crlf < lf)) {
+    return { header: data.subarray(0, crlf).toString('latin1'), body: data.subarray(crlf + 4) };
+  }
+  if (lf !== -1) {
+    return { header: data.subarray(0, lf).toString('latin1'), body: data.subarray(lf + 2) };
+  }
+  return { header: data.toString('latin1'), body: Buffer.alloc(0) };
+}
+
+// Header names are lower-cased; values keep their raw bytes as latin1 until decoded
+function parseHeaders(text: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  for (const line of text.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(separator + 1).trim()]);
+  }
+  return headers;
+}
+
+function header(headers: Map<string, string[]>, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+function decodeCharset(data: Buffer, charset: string | undefined): string {
+  const label = (charset || 'utf-8').trim().toLowerCase();
+  try {
+    return new TextDecoder(label === 'us-ascii' ? 'utf-8' : label).decode(data);
+  } catch {
+    return data.toString('latin1');
+  }
+}
+
+function decodeQuotedPrintable(text: string, underscores = false): Buffer {
+  const bytes: number[] = [];
+  const source = underscores ? text.replace(/_/g, ' ') : text.replace(/=\r?\n/g, '');
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(source.slice(index + 1, index + 3))) {
+      bytes.push(parseInt(source.slice(index + 1, index + 3), 16));
+      index += 2;
+    } else {
+      bytes.push(source.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransfer(data: Buffer, encoding: string | null): Buffer {
+  switch ((encoding ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(data.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(data.toString('latin1'));
+    default:
+      return data;
+  }
+}
+
+// =?charset?B|Q?text?= words (RFC 2047); whitespace between adjacent words is dropped.
+// Anything else is read as UTF-8, which is what most mailers send unencoded.
+export function decodeWords(value: string): string {
+  const raw = Buffer.from(value, 'latin1').toString('utf8');
+  const text = raw.includes('\uFFFD') ? value : raw;
+  return text
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, data: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(data, 'base64')
+        : decodeQuotedPrintable(data, true);
+      return decodeCharset(bytes, charset);
+    });
+}
+
+// "text/plain; charset=utf-8" -> value and lower-cased parameter names. Handles quoted
+// values and RFC 2231 continuations (filename*0*=utf-8''...).
+function parseHeaderValue(value: string | null): { value: string; params: Record<string, string> } {
+  if (!value) return { value: '', params: {} };
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '"') quoted = !quoted;
+    if (char === '\\' && quoted) {
+      current += value[++index] ?? '';
+      continue;
+    }
+    if (char === ';' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  const params: Record<string, string> = {};
+  const extended: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+  for (const part of parts.slice(1)) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) continue;
+    const key = part.slice(0, separator).trim().toLowerCase();
+    let paramValue = part.slice(separator + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1);
+    }
+    const continuation = /^([^*]+)\*(?:(\d+)\*?)?$/.exec(key);
+    const encoded = key.endsWith('*');
+    if (continuation) {
+      (extended[continuation[1]] ??= []).push({ index: Number(continuation[2] ?? 0), value: paramValue, encoded });
+    } else {
+      params[key] = decodeWords(paramValue);
+    }
+  }
+  for (const [key, pieces] of Object.entries(extended)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: Buffer[] = pieces.map((piece, index) => {
+      let text = piece.value;
+      if (index === 0 && piece.encoded) {
+        const match = /^([^']*)'[^']*'(.*)$/.exec(text);
+        if (match) {
+          charset = match[1] || charset;
+          text = match[2];
+        }
+      }
+      return piece.encoded
+        ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+        : Buffer.from(text, 'latin1');
+    });
+    params[key] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+  return { value: parts[0].trim().toLowerCase(), params };
+}
+
+export function parseAddressList(value: string | null | undefined): EmailAddress[] {
+  if (!value) return [];
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angle = true;
+    if (!quoted && char === '>') angle = false;
+    if ((char === ',' || char === ';') && !quoted && !angle) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries.map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    // Group syntax "Team: a@x, b@y;" is rare enough to read as its members
+    const text = entry.replace(/^[^"<]*:\s*/, '');
+    const angleMatch = /^(.*?)<([^>]*)>\s*$/.exec(text);
+    if (angleMatch) {
+      const name = decodeWords(angleMatch[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1'));
+      const address = angleMatch[2].trim();
+      return address ? [{ name: name || null, address }] : [];
+    }
+    const address = text.replace(/\(.*?\)/g, '').trim();
+    return address.includes('@') ? [{ name: null, address }] : [];
+  });
+}
+
+export function formatAddress(address: EmailAddress): string {
+  if (!address.name) return address.address;
+  return `${address.name} <${address.address}>`;
+}
+
+function parseMessageId(value: string | null): string | null {
+  return value?.match(/<[^>]+>/)?.[0] ?? null;
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: Buffer[] = [];
+  let start = -1;
+  let index = body.indexOf(delimiter);
+  while (index !== -1) {
+    const atLineStart = index === 0 || body[index - 1] === 0x0a;
+    if (atLineStart) {
+      if (start !== -1) {
+        let end = index - 1;
+        if (body[end - 1] === 0x0d) end--;
+        parts.push(body.subarray(start, Math.max(start, end)));
+      }
+      const closing = body[index + delimiter.length] === 0x2d && body[index + delimiter.length + 1] === 0x2d;
+      if (closing) break;
+      const lineEnd = body.indexOf(0x0a, index);
+      if (lineEnd === -1) break;
+      start = lineEnd + 1;
+    }
+    index = body.indexOf(delimiter, index + delimiter.length);
+  }
+  return parts;
+}
+
+function parsePart(data: Buffer, partId: string): MimePart {
+  const { header: headerText, body } = splitHeaderBody(data);
+  const headers = parseHeaders(headerText);
+  const { value: contentType, params } = parseHeaderValue(header(headers, 'content-type'));
+  const { value: disposition, params: dispositionParams } = parseHeaderValue(header(headers, 'content-disposition'));
+  const part: MimePart = {
+    partId,
+    headers,
+    contentType: contentType || 'text/plain',
+    params,
+    disposition: disposition || null,
+    dispositionParams,
+    body,
+    children: [],
+  };
+  if (part.contentType.startsWith('multipart/') && params.boundary) {
+    // Parts of a multipart body are numbered from 1; the top-level body is not counted
+    const prefix = partId === '' ? '' : `${partId}.`;
+    part.children = splitMultipart(body, params.boundary).map((child, index) => parsePart(child, `${prefix}${index + 1}`));
+    part.body = Buffer.alloc(0);
+  } else {
+    part.body = decodeTransfer(body, header(headers, 'content-transfer-encoding'));
+  }
+  return part;
+}
+
+// A single-part message's only part is section 1, as in IMAP
+export function parseMime(data: Buffer): MimePart {
+  const root = parsePart(data, '');
+  if (root.children.length === 0) {
+    root.partId = '1';
+  }
+  return root;
+}
+
+export function findPart(root: MimePart, partId: string): MimePart | undefined {
+  if (root.partId === partId) return root;
+  for (const child of root.children) {
+    const found = findPart(child, partId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function textToHtml(text: string): string {
+  return `<div style="white-space: pre-wrap">${escapeHtml(text)}</div>`;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Readable text from a mail body: block elements become line breaks, the rest is dropped
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)\s*>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '- ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t ]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function partFilename(part: MimePart): string | null {
+  return part.dispositionParams.filename ?? part.params.name ?? null;
+}
+
+function isAttachment(part: MimePart): boolean {
+  if (part.disposition === 'attachment') return true;
+  if (part.contentType.startsWith('text/')) {
+    return part.disposition !== 'inline' && partFilename(part) !== null;
+  }
+  return true;
+}
+
+function collectContent(part: MimePart, result: { html: string | null; text: string | null; attachments: ParsedAttachment[] }) {
+  if (part.children.length > 0) {
+    if (part.contentType === 'multipart/alternative') {
+      // Last alternative is the richest; take the best one we can show
+      const html = part.children.filter(child => child.contentType === 'text/html' || child.children.length > 0).pop();
+      const chosen = html ?? part.children.filter(child => child.contentType === 'text/plain').pop();
+      if (chosen) collectContent(chosen, result);
+      return;
+    }
+    part.children.forEach(child => collectContent(child, result));
+    return;
+  }
+  if (isAttachment(part)) {
+    result.attachments.push({
+      partId: part.partId,
+      filename: partFilename(part) ?? `attachment-${part.partId}`,
+      contentType: part.contentType,
+      size: part.body.length,
+    });
+    return;
+  }
+  const text = decodeCharset(part.body, part.params.charset);
+  if (part.contentType === 'text/html') {
+    result.html = result.html === null ? text : result.html + text;
+  } else if (part.contentType.startsWith('text/')) {
+    result.text = result.text === null ? text : `${result.text}\n\n${text}`;
+  }
+}
+
+export function parseMessage(data: Buffer): ParsedMessage {
+  const root = parseMime(data);
+  const content = { html: null as string | null, text: null as string | null, attachments: [] as ParsedAttachment[] };
+  collectContent(root, content);
+
+  const date = header(root.headers, 'date');
+  const parsedDate = date ? Date.parse(date.replace(/\s*\([^)]*\)\s*$/, '')) : NaN;
+  const references = (header(root.headers, 'references') ?? '').match(/<[^>]+>/g) ?? [];
+  return {
+    subject: decodeWords(header(root.headers, 'subject') ?? '').trim(),
+    from: parseAddressList(header(root.headers, 'from'))[0] ?? null,
+    to: parseAddressList(header(root.headers, 'to')),
+    cc: parseAddressList(header(root.headers, 'cc')),
+    bcc: parseAddressList(header(root.headers, 'bcc')),
+    date: Number.isNaN(parsedDate) ? null : parsedDate,
+    messageId: parseMessageId(header(root.headers, 'message-id')),
+    inReplyTo: parseMessageId(header(root.headers, 'in-reply-to')),
+    references,
+    html: content.html ?? textToHtml(content.text ?? ''),
+    attachments: content.attachments,
+  };
+}
+
+export function parseFormData(body: Buffer, contentType: string): { fields: Record<string, string>; files: FormDataFile[] } {
+  const { params } = parseHeaderValue(contentType);
+  const fields: Record<string, string> = {};
+  const files: FormDataFile[] = [];
+  if (!params.boundary) return { fields, files };
+
+  for (const data of splitMultipart(body, params.boundary)) {
+    const part = parsePart(data, '');
+    const name = part.dispositionParams.name;
+    if (!name) continue;
+    if (part.dispositionParams.filename !== undefined) {
+      files.push({
+        field: name,
+        filename: part.dispositionParams.filename || 'attachment',
+        contentType: part.headers.has('content-type') ? part.contentType : 'application/octet-stream',
+        content: part.body,
+      });
+    } else {
+      fields[name] = part.body.toString('utf8');
+    }
+  }
+  return { fields, files };
+}
+
+// Outgoing
+
+// Encoded words are limited to 75 characters, so long values become several
+function encodeWords(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of text) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+function encodeAddress(address: EmailAddress): string {
+  if (!address.name) return address.address;
+  const name = /^[\x20-\x7e]*$/.test(address.name)
+    ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeWords(address.name);
+  return `${name} <${address.address}>`;
+}
+
+function base64Lines(data: Buffer): string {
+  return data.toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function encodeFilename(filename: string): string {
+  if (/^[\x20-\x7e]*$/.test(filename)) {
+    return `filename="${filename.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return `filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+export function createMessageId(address: string): string {
+  const domain = address.split('@')[1] || 'localhost';
+  return `<${crypto.randomBytes(16).toString('hex')}@${domain}>`;
+}
+
+export function buildMessage(message: OutgoingMessage): Buffer {
+  const boundary = () => `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  const lines = [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${message.to.map(encodeAddress).join(', ')}`,
+    ...(message.cc.length > 0 ? [`Cc: ${message.cc.map(encodeAddress).join(', ')}`] : []),
+    `Subject: ${encodeWords(message.subject)}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${message.messageId}`,
+    ...(message.inReplyTo ? [`In-Reply-To: ${message.inReplyTo}`] : []),
+    ...(message.references?.length ? [`References: ${message.references.join(' ')}`] : []),
+    'MIME-Version: 1.0',
+  ];
+
+  const alternativeBoundary = boundary();
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(message.text)),
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(message.html)),
+    `--${alternativeBoundary}--`,
+  ];
+
+  if (message.attachments.length === 0) {
+    return Buffer.from([...lines, ...alternative, ''].join('\r\n'));
+  }
+
+  const mixedBoundary = boundary();
+  const body = [
+    ...lines,
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    '',
+    `--${mixedBoundary}`,
+    ...alternative,
+  ];
+  for (const attachment of message.attachments) {
+    body.push(
+      `--${mixedBoundary}`,
+      `Content-Type: ${attachment.contentType || 'application/octet-stream'}`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; ${encodeFilename(attachment.filename)}`,
+      '',
+      base64Lines(attachment.content),
+    );
+  }
+  body.push(`--${mixedBoundary}--`, '');
+  return Buffer.from(body.join('\r\n'));
+}
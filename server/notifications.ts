@@ -0,0 +1,384 @@
+import { storage } from './storage';
+import { toAuthor } from './comments';
+import { appUrl, sendSystemEmail, type SystemEmail } from './mailer';
+import { escapeHtml } from './mime';
+import { isValidTimeZone, toWallTime, fromWallTime } from './calendar';
+import {
+  notificationPreferencesSchema, notificationIdsSchema,
+  type Invitation, type Notification, type NotificationType, type NotificationPreferences, type NotificationView,
+  type CommentAuthor, type User,
+} from '@shared/schema';
+import type { RealtimeEvents, RealtimeEventType } from '@shared/realtime';
+
+// Notification dispatcher. Every event becomes an in-app notification for each recipient
+// who wants that type, is pushed to their open connections, and is emailed either right
+// away or in their daily or weekly digest.
+
+export class NotificationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+const DIGEST_HOUR = 8; // local time digests go out
+const DIGEST_SWEEP_MS = 10 * 60 * 1000;
+
+export const defaultNotificationPreferences: NotificationPreferences = {
+  email: true,
+  desktop: true,
+  mentions: true,
+  comments: true,
+  invitations: true,
+  shares: true,
+  reminders: true,
+  digest: 'off',
+};
+
+// The preference that turns each type of notification on or off
+const typeSwitches: Record<NotificationType, keyof NotificationPreferences> = {
+  mention: 'mentions',
+  comment: 'comments',
+  invitation: 'invitations',
+  page_shared: 'shares',
+  reminder: 'reminders',
+};
+
+export interface NotificationEvent {
+  type: NotificationType;
+  recipientIds: string[];
+  actorId?: string | null; // never notified about their own action
+  workspaceId?: number | null;
+  title: string;
+  message?: string;
+  url?: string | null;
+  data?: Record<string, unknown>;
+}
+
+// Push. The realtime server registers how to reach a user's open connections.
+
+export type PushChannel = <E extends RealtimeEventType>(userId: string, event: E, data: RealtimeEvents[E]) => void;
+
+const pushChannels = new Set<PushChannel>();
+
+export function registerPushChannel(channel: PushChannel): () => void {
+  pushChannels.add(channel);
+  return () => {
+    pushChannels.delete(channel);
+  };
+}
+
+function push<E extends RealtimeEventType>(userId: string, event: E, data: RealtimeEvents[E]) {
+  pushChannels.forEach(channel => {
+    try {
+      channel(userId, event, data);
+    } catch (error) {
+      console.error('Error pushing notification:', error);
+    }
+  });
+}
+
+// Preferences
+
+// Missing or malformed switches fall back to their defaults
+export function readPreferences(user: User | undefined): NotificationPreferences {
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(user?.notifications ?? '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) stored = parsed;
+  } catch {
+    // Unreadable preferences use the defaults
+  }
+
+  const preferences = { ...defaultNotificationPreferences };
+  const shape = notificationPreferencesSchema.shape;
+  for (const key of Object.keys(shape) as (keyof NotificationPreferences)[]) {
+    const value = shape[key].safeParse(stored[key]);
+    if (value.success) Object.assign(preferences, { [key]: value.data });
+  }
+  return preferences;
+}
+
+export async function getPreferences(userId: string): Promise<NotificationPreferences> {
+  return readPreferences(await storage.getUser(userId));
+}
+
+export async function updatePreferences(userId: string, input: unknown): Promise<NotificationPreferences> {
+  const parsed = notificationPreferencesSchema.partial().safeParse(input);
+  if (!parsed.success) {
+    throw new NotificationError(parsed.error.issues[0]?.message ?? 'Invalid notification preferences');
+  }
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new NotificationError('User not found', 404);
+  }
+  const preferences = { ...readPreferences(user), ...parsed.data };
+  await storage.updateUser(userId, { notifications: JSON.stringify(preferences) });
+  return preferences;
+}
+
+function toView(notification: Notification, actor: CommentAuthor | null): NotificationView {
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(notification.data ?? '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) data = parsed;
+  } catch {
+    // Unreadable data shows as empty
+  }
+  return {
+    id: notification.id,
+    type: notification.type as NotificationType,
+    title: notification.title,
+    message: notification.message ?? '',
+    workspaceId: notification.workspaceId,
+    actor,
+    url: notification.url,
+    data,
+    isRead: !!notification.isRead,
+    createdAt: notification.createdAt ?? 0,
+  };
+}
+
+// Email
+
+function notificationEmail(user: User, notification: Notification): SystemEmail {
+  const link = notification.url ? appUrl(notification.url) : appUrl('/');
+  const lines = [notification.title, '', ...(notification.message ? [notification.message, ''] : []), `Open: ${link}`];
+  return {
+    to: { name: toAuthor(user.id, user).name, address: user.email! },
+    subject: notification.title,
+    text: `${lines.join('\n')}\n\nChoose which emails you get under Settings > Notifications.`,
+    html: [
+      `<p><strong>${escapeHtml(notification.title)}</strong></p>`,
+      notification.message ? `<p style="white-space: pre-wrap">${escapeHtml(notification.message)}</p>` : '',
+      `<p><a href="${escapeHtml(link)}">Open</a></p>`,
+      '<p style="color: #888">Choose which emails you get under Settings &gt; Notifications.</p>',
+    ].join(''),
+  };
+}
+
+function digestEmail(user: User, notifications: Notification[], mode: 'daily' | 'weekly'): SystemEmail {
+  const count = `${notifications.length} new notification${notifications.length === 1 ? '' : 's'}`;
+  const subject = `Your ${mode} digest: ${count}`;
+  const text = notifications.map(notification => {
+    const link = appUrl(notification.url ?? '/');
+    return `- ${notification.title}${notification.message ? `\n  ${notification.message}` : ''}\n  ${link}`;
+  });
+  const items = notifications.map(notification => {
+    const link = appUrl(notification.url ?? '/');
+    const message = notification.message ? `<br><span style="color: #555">${escapeHtml(notification.message)}</span>` : '';
+    return `<li><a href="${escapeHtml(link)}">${escapeHtml(notification.title)}</a>${message}</li>`;
+  });
+  return {
+    to: { name: toAuthor(user.id, user).name, address: user.email! },
+    subject,
+    text: `${subject}\n\n${text.join('\n')}\n\nChoose which emails you get under Settings > Notifications.`,
+    html: `<p><strong>${escapeHtml(subject)}</strong></p><ul>${items.join('')}</ul>`
+      + '<p style="color: #888">Choose which emails you get under Settings &gt; Notifications.</p>',
+  };
+}
+
+async function emailNow(user: User, notification: Notification) {
+  try {
+    await sendSystemEmail(notificationEmail(user, notification));
+    await storage.setNotificationEmailStatus([notification.id], 'sent', Date.now());
+  } catch (error) {
+    console.error(`Error emailing notification ${notification.id}:`, error);
+    await storage.setNotificationEmailStatus([notification.id], 'failed');
+  }
+}
+
+// Dispatch
+
+export async function notify(event: NotificationEvent): Promise<Notification[]> {
+  const recipientIds = Array.from(new Set(event.recipientIds)).filter(id => id !== event.actorId);
+  if (recipientIds.length === 0) return [];
+  const actor = event.actorId ? toAuthor(event.actorId, await storage.getUser(event.actorId)) : null;
+
+  const created: Notification[] = [];
+  for (const recipientId of recipientIds) {
+    const user = await storage.getUser(recipientId);
+    const preferences = readPreferences(user);
+    if (!user || !preferences[typeSwitches[event.type]]) continue;
+
+    const wantsEmail = preferences.email && !!user.email;
+    const notification = await storage.createNotification({
+      userId: recipientId,
+      type: event.type,
+      workspaceId: event.workspaceId ?? null,
+      actorId: event.actorId ?? null,
+      title: event.title,
+      message: event.message ?? '',
+      url: event.url ?? null,
+      data: event.data ? JSON.stringify(event.data) : null,
+      emailStatus: wantsEmail && preferences.digest !== 'off' ? 'pending' : null,
+    });
+    created.push(notification);
+
+    push(recipientId, 'notification', { notification: toView(notification, actor), desktop: preferences.desktop });
+    // Sent in the background so a slow mail server does not hold up the action
+    if (wantsEmail && preferences.digest === 'off') {
+      emailNow(user, notification).catch((error) => {
+        console.error(`Error recording email for notification ${notification.id}:`, error);
+      });
+    }
+  }
+  return created;
+}
+
+// For callers whose own work must not fail because a notification could not be delivered
+export async function notifyQuietly(event: NotificationEvent): Promise<void> {
+  try {
+    await notify(event);
+  } catch (error) {
+    console.error(`Error sending ${event.type} notification:`, error);
+  }
+}
+
+// Members who already have an account hear about the invitation in the app; anyone
+// else gets an email inviting them to sign up with the invited address.
+export async function notifyInvitation(invitation: Invitation, inviterId: string): Promise<void> {
+  const workspace = await storage.getWorkspace(invitation.workspaceId);
+  if (!workspace) return;
+  const inviter = toAuthor(inviterId, await storage.getUser(inviterId));
+  const title = `${inviter.name} invited you to ${workspace.name}`;
+  const invitee = await storage.getUserByUsernameOrEmail(invitation.email);
+
+  if (invitee) {
+    await notifyQuietly({
+      type: 'invitation',
+      recipientIds: [invitee.id],
+      actorId: inviterId,
+      workspaceId: workspace.id,
+      title,
+      message: `Join as ${invitation.role}`,
+      data: { token: invitation.token, role: invitation.role },
+    });
+    return;
+  }
+
+  const link = appUrl('/');
+  try {
+    await sendSystemEmail({
+      to: { name: null, address: invitation.email },
+      subject: title,
+      text: `${title} as ${invitation.role}.\n\nSign up with this email address to accept: ${link}`,
+      html: `<p>${escapeHtml(title)} as ${escapeHtml(invitation.role)}.</p>`
+        + `<p><a href="${escapeHtml(link)}">Sign up with this email address</a> to accept.</p>`,
+    });
+  } catch (error) {
+    console.error(`Error emailing invitation ${invitation.id}:`, error);
+  }
+}
+
+// Reading
+
+export async function listNotifications(userId: string): Promise<NotificationView[]> {
+  const notifications = await storage.getUserNotifications(userId);
+  const actorIds = Array.from(new Set(notifications.map(notification => notification.actorId).filter((id): id is string => !!id)));
+  const actors = new Map(await Promise.all(actorIds.map(async id => [id, toAuthor(id, await storage.getUser(id))] as const)));
+  return notifications.map(notification => toView(notification, notification.actorId ? actors.get(notification.actorId) ?? null : null));
+}
+
+function parseIds(input: unknown): number[] {
+  const parsed = notificationIdsSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new NotificationError(parsed.error.issues[0]?.message ?? 'Invalid notification ids');
+  }
+  return parsed.data.notificationIds;
+}
+
+// Other open tabs update their unread count
+export async function markRead(userId: string, input: unknown): Promise<number> {
+  const ids = parseIds(input);
+  const updated = await storage.markNotificationsRead(userId, ids);
+  if (updated > 0) push(userId, 'notifications_read', { notificationIds: ids });
+  return updated;
+}
+
+export async function markAllRead(userId: string): Promise<number> {
+  const updated = await storage.markAllNotificationsRead(userId);
+  if (updated > 0) push(userId, 'notifications_read', { all: true });
+  return updated;
+}
+
+export async function deleteNotifications(userId: string, input: unknown): Promise<number> {
+  const ids = parseIds(input);
+  const deleted = await storage.deleteNotifications(userId, ids);
+  if (deleted > 0) push(userId, 'notifications_deleted', { notificationIds: ids });
+  return deleted;
+}
+
+// Digests
+
+// The most recent digest time at or before `now` in the user's zone: 08:00 each day, or
+// 08:00 on Mondays for weekly digests
+export function digestSlot(now: number, mode: 'daily' | 'weekly', timeZone: string): number {
+  const today = toWallTime(now, timeZone);
+  for (let back = 0; back <= 7; back++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day - back));
+    if (mode === 'weekly' && date.getUTCDay() !== 1) continue;
+    const slot = fromWallTime({
+      year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(),
+      hour: DIGEST_HOUR, minute: 0, second: 0,
+    }, timeZone);
+    if (slot <= now) return slot;
+  }
+  return now;
+}
+
+// Sends each user whose digest is due everything still unread since their last one.
+// Notifications read in the meantime are dropped from the digest.
+export async function sendDueDigests(now: number = Date.now()): Promise<number> {
+  const byUser = new Map<string, Notification[]>();
+  for (const notification of await storage.getPendingEmailNotifications()) {
+    const list = byUser.get(notification.userId) ?? [];
+    list.push(notification);
+    byUser.set(notification.userId, list);
+  }
+
+  let sent = 0;
+  for (const [userId, pending] of Array.from(byUser.entries())) {
+    const user = await storage.getUser(userId);
+    const preferences = readPreferences(user);
+    if (!user?.email || !preferences.email) {
+      await storage.setNotificationEmailStatus(pending.map(notification => notification.id), 'skipped');
+      continue;
+    }
+    // Switching digests off sends whatever was collected straight away
+    const mode = preferences.digest === 'off' ? 'daily' : preferences.digest;
+    if (preferences.digest !== 'off') {
+      const timeZone = user.timezone && isValidTimeZone(user.timezone) ? user.timezone : 'UTC';
+      if ((user.lastDigestAt ?? 0) >= digestSlot(now, mode, timeZone)) continue;
+    }
+
+    const read = pending.filter(notification => notification.isRead);
+    const unread = pending.filter(notification => !notification.isRead);
+    await storage.setNotificationEmailStatus(read.map(notification => notification.id), 'skipped');
+    if (unread.length === 0) continue;
+
+    try {
+      await sendSystemEmail(digestEmail(user, unread, mode));
+    } catch (error) {
+      // Left pending, so the next sweep tries again
+      console.error(`Error sending notification digest to ${userId}:`, error);
+      continue;
+    }
+    await storage.setNotificationEmailStatus(unread.map(notification => notification.id), 'sent', now);
+    await storage.updateUser(userId, { lastDigestAt: now });
+    sent++;
+  }
+  return sent;
+}
+
+let digestTimer: NodeJS.Timeout | undefined;
+
+export function startNotificationDigests() {
+  if (digestTimer) return;
+  digestTimer = setInterval(() => {
+    sendDueDigests().catch((error) => {
+      console.error('Error sending notification digests:', error);
+    });
+  }, DIGEST_SWEEP_MS);
+  digestTimer.unref();
+}
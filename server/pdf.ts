@@ -0,0 +1,267 @@
+import { deflateSync } from 'zlib';
+
+// Minimal PDF writer for generated reports: A4 pages, the built-in Helvetica fonts,
+// headings, wrapped paragraphs and tables that continue across pages. Text is
+// WinAnsi encoded, so characters outside Latin-1 print as "?" and emoji are dropped.
+
+export type PdfBlock =
+  | { type: 'title'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string; muted?: boolean }
+  | { type: 'table'; columns: PdfColumn[]; rows: string[][] };
+
+export interface PdfColumn {
+  label: string;
+  width: number; // share of the text width; shares are scaled to fill it
+  align?: 'left' | 'right';
+}
+
+export interface PdfOptions {
+  title: string;
+  footer?: string;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = MARGIN + 16; // leaves room for the footer
+const CELL_PADDING = 4;
+const TABLE_FONT_SIZE = 8.5;
+const ROW_HEIGHT = 14;
+
+// Glyph widths in 1/1000 em for characters 32-126, from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters WinAnsi places in 0x80-0x9f; Latin-1 maps onto the rest unchanged
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+type Font = 'F1' | 'F2';
+
+function encodeText(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    // Emoji: astral symbols, dingbats and the joiners and selectors that build them
+    if (code > 0xffff || (code >= 0x2600 && code <= 0x27bf) || (code >= 0xfe00 && code <= 0xfe0f) || code === 0x200d) continue;
+    if (code === 0x09) bytes.push(0x20);
+    else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) bytes.push(code);
+    else if (WIN_ANSI_EXTRAS[char] !== undefined) bytes.push(WIN_ANSI_EXTRAS[char]);
+    else if (code >= 0x20) bytes.push(0x3f);
+  }
+  return bytes;
+}
+
+function byteWidth(byte: number, font: Font): number {
+  const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH;
+}
+
+function textWidth(bytes: number[], font: Font, size: number): number {
+  return bytes.reduce((sum, byte) => sum + byteWidth(byte, font), 0) * size / 1000;
+}
+
+// Shortens text to fit `width`, ending it with an ellipsis when cut
+function fitText(text: string, font: Font, size: number, width: number): number[] {
+  const bytes = encodeText(text);
+  if (textWidth(bytes, font, size) <= width) return bytes;
+  const ellipsis = byteWidth(0x85, font) * size / 1000;
+  let used = 0;
+  let end = 0;
+  while (end < bytes.length && used + byteWidth(bytes[end], font) * size / 1000 + ellipsis <= width) {
+    used += byteWidth(bytes[end], font) * size / 1000;
+    end++;
+  }
+  return [...bytes.slice(0, end), 0x85];
+}
+
+function wrapText(text: string, font: Font, size: number, width: number): number[][] {
+  const lines: number[][] = [];
+  for (const paragraph of text.split('\n')) {
+    let line: number[] = [];
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line.length ? [...line, 0x20, ...encodeText(word)] : encodeText(word);
+      if (line.length && textWidth(candidate, font, size) > width) {
+        lines.push(line);
+        line = fitText(word, font, size, width);
+      } else {
+        line = textWidth(candidate, font, size) > width ? fitText(word, font, size, width) : candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function hex(bytes: number[]): string {
+  return `<${bytes.map(byte => byte.toString(16).padStart(2, '0')).join('')}>`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+interface Layout {
+  pages: string[][];
+  ops: string[];
+  y: number;
+}
+
+function newPage(layout: Layout) {
+  layout.ops = [];
+  layout.pages.push(layout.ops);
+  layout.y = PAGE_HEIGHT - MARGIN;
+}
+
+function ensureSpace(layout: Layout, height: number): boolean {
+  if (layout.y - height >= BOTTOM) return false;
+  newPage(layout);
+  return true;
+}
+
+function drawText(ops: string[], bytes: number[], x: number, y: number, font: Font, size: number, gray: number = 0) {
+  ops.push(`BT ${num(gray)} g /${font} ${num(size)} Tf ${num(x)} ${num(y)} Td ${hex(bytes)} Tj ET`);
+}
+
+function drawTableHeader(layout: Layout, columns: PdfColumn[], widths: number[]) {
+  layout.ops.push(`0.93 g ${num(MARGIN)} ${num(layout.y - ROW_HEIGHT)} ${num(CONTENT_WIDTH)} ${num(ROW_HEIGHT)} re f`);
+  drawRow(layout, columns.map(column => column.label), columns, widths, 'F2');
+}
+
+function drawRow(layout: Layout, cells: string[], columns: PdfColumn[], widths: number[], font: Font) {
+  const baseline = layout.y - ROW_HEIGHT + 4;
+  let x = MARGIN;
+  cells.forEach((cell, index) => {
+    const width = widths[index];
+    const bytes = fitText(cell, font, TABLE_FONT_SIZE, width - CELL_PADDING * 2);
+    const offset = columns[index]?.align === 'right'
+      ? width - CELL_PADDING - textWidth(bytes, font, TABLE_FONT_SIZE)
+      : CELL_PADDING;
+    drawText(layout.ops, bytes, x + offset, baseline, font, TABLE_FONT_SIZE);
+    x += width;
+  });
+  layout.y -= ROW_HEIGHT;
+  layout.ops.push(`0.85 G 0.5 w ${num(MARGIN)} ${num(layout.y)} m ${num(MARGIN + CONTENT_WIDTH)} ${num(layout.y)} l S`);
+}
+
+function layoutBlock(layout: Layout, block: PdfBlock) {
+  if (block.type === 'title' || block.type === 'heading') {
+    const size = block.type === 'title' ? 18 : 13;
+    const spaceBefore = block.type === 'title' || layout.y === PAGE_HEIGHT - MARGIN ? 0 : 14;
+    // Keep a heading with at least a few lines of what follows it
+    if (!ensureSpace(layout, spaceBefore + size + ROW_HEIGHT * 3)) layout.y -= spaceBefore;
+    layout.y -= size;
+    drawText(layout.ops, fitText(block.text, 'F2', size, CONTENT_WIDTH), MARGIN, layout.y, 'F2', size);
+    layout.y -= size * 0.6;
+    return;
+  }
+
+  if (block.type === 'text') {
+    const size = 10;
+    for (const line of wrapText(block.text, 'F1', size, CONTENT_WIDTH)) {
+      ensureSpace(layout, size * 1.4);
+      layout.y -= size * 1.4;
+      drawText(layout.ops, line, MARGIN, layout.y + size * 0.3, 'F1', size, block.muted ? 0.4 : 0);
+    }
+    layout.y -= 4;
+    return;
+  }
+
+  const total = block.columns.reduce((sum, column) => sum + column.width, 0) || 1;
+  const widths = block.columns.map(column => column.width / total * CONTENT_WIDTH);
+  ensureSpace(layout, ROW_HEIGHT * 2);
+  drawTableHeader(layout, block.columns, widths);
+  for (const row of block.rows) {
+    if (ensureSpace(layout, ROW_HEIGHT)) drawTableHeader(layout, block.columns, widths);
+    drawRow(layout, row, block.columns, widths, 'F1');
+  }
+  layout.y -= 8;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+export function renderPdf(blocks: PdfBlock[], options: PdfOptions): Buffer {
+  const layout: Layout = { pages: [], ops: [], y: 0 };
+  newPage(layout);
+  for (const block of blocks) {
+    layoutBlock(layout, block);
+  }
+
+  const pageCount = layout.pages.length;
+  layout.pages.forEach((ops, index) => {
+    const label = encodeText(`Page ${index + 1} of ${pageCount}`);
+    if (options.footer) {
+      drawText(ops, fitText(options.footer, 'F1', 8, CONTENT_WIDTH * 0.7), MARGIN, MARGIN - 16, 'F1', 8, 0.4);
+    }
+    drawText(ops, label, PAGE_WIDTH - MARGIN - textWidth(label, 'F1', 8), MARGIN - 16, 'F1', 8, 0.4);
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const objects: Buffer[] = [];
+  const pageIds = layout.pages.map((_, index) => 6 + index * 2);
+  objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`));
+  objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'));
+  objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'));
+  objects.push(Buffer.from(`<< /Title ${hex(encodeText(options.title))} /Producer (Notion Clone) /CreationDate (${pdfDate(new Date())}) >>`));
+  layout.pages.forEach((ops, index) => {
+    objects.push(Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    ));
+    const stream = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+      stream,
+      Buffer.from('\nendstream'),
+    ]));
+  });
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    parts.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+  parts.push(Buffer.from(xref));
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,371 @@
+import { storage } from './storage';
+import { notifyQuietly } from './notifications';
+import { toAuthor } from './comments';
+import {
+  pageAccessLevels, pagePermissionsSchema,
+  type EditPage, type Page, type PageAccessInfo, type PageAccessLevel, type PagePermissionEntry, type PageWithChildren,
+  type WorkspaceGroupWithMembers,
+} from '@shared/schema';
+
+// Page-level access control.
+//
+// A page's `permissions` column holds explicit entries for users, groups and "everyone"
+// (all workspace members). Entries are inherited down the parentId tree; database rows
+// inherit from the database's page. For each principal the nearest entry wins, and a
+// user entry beats the user's group entries, which beat the everyone entry. Without any
+// entry, members can edit (and fully manage pages they created) and guests see nothing.
+// Workspace owners and admins always have full access.
+
+export class PermissionError extends Error {
+  constructor(message: string, public status: number = 403) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+const MAX_DEPTH = 100;
+
+interface Principal {
+  userId: string;
+  role: string;
+  groupIds: Set<string>;
+}
+
+type PageLookup = (pageId: number) => Promise<Page | undefined>;
+type ParentLookup = (page: Page) => Promise<number | null>;
+
+export function hasAccess(level: PageAccessLevel, required: PageAccessLevel): boolean {
+  return pageAccessLevels.indexOf(level) >= pageAccessLevels.indexOf(required);
+}
+
+function maxLevel(levels: PageAccessLevel[]): PageAccessLevel {
+  return levels.reduce((best, level) => hasAccess(level, best) ? level : best, 'none');
+}
+
+export function readPermissions(page: Page): PagePermissionEntry[] {
+  if (!page.permissions) return [];
+  try {
+    const parsed = pagePermissionsSchema.safeParse(JSON.parse(page.permissions));
+    return parsed.success ? parsed.data.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+async function getPrincipal(workspaceId: number, userId: string): Promise<Principal | null> {
+  const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+  if (!role) return null;
+  const groupIds = await storage.getUserGroupIds(workspaceId, userId);
+  return { userId, role, groupIds: new Set(groupIds.map(String)) };
+}
+
+// Database rows have no parentId; they sit under the page that owns their database
+const databaseParent: ParentLookup = async (page) => {
+  if (page.parentId) return page.parentId;
+  if (!page.databaseId) return null;
+  const database = await storage.getDatabase(page.databaseId);
+  return database && database.pageId !== page.id ? database.pageId : null;
+};
+
+// The page followed by its ancestors, nearest first
+async function getChain(page: Page, lookup: PageLookup, parentOf: ParentLookup): Promise<Page[]> {
+  const chain = [page];
+  const seen = new Set([page.id]);
+  let current = page;
+  while (chain.length < MAX_DEPTH) {
+    const parentId = await parentOf(current);
+    if (parentId === null || seen.has(parentId)) break;
+    const parent = await lookup(parentId);
+    if (!parent || parent.workspaceId !== page.workspaceId) break;
+    chain.push(parent);
+    seen.add(parent.id);
+    current = parent;
+  }
+  return chain;
+}
+
+function defaultLevel(page: Page, principal: Principal): PageAccessLevel {
+  if (principal.role === 'guest') return 'none';
+  return page.createdBy === principal.userId ? 'full' : 'edit';
+}
+
+function resolveLevel(chain: Page[], principal: Principal): PageAccessLevel {
+  if (principal.role === 'owner' || principal.role === 'admin') return 'full';
+
+  let userLevel: PageAccessLevel | undefined;
+  let everyoneLevel: PageAccessLevel | undefined;
+  const groupLevels = new Map<string, PageAccessLevel>();
+  for (const page of chain) {
+    for (const entry of readPermissions(page)) {
+      if (entry.principalType === 'user' && entry.principalId === principal.userId) {
+        userLevel ??= entry.level;
+      } else if (entry.principalType === 'group' && entry.principalId && principal.groupIds.has(entry.principalId)) {
+        if (!groupLevels.has(entry.principalId)) groupLevels.set(entry.principalId, entry.level);
+      } else if (entry.principalType === 'everyone') {
+        everyoneLevel ??= entry.level;
+      }
+    }
+  }
+
+  if (userLevel) return userLevel;
+  if (groupLevels.size > 0) return maxLevel(Array.from(groupLevels.values()));
+  return everyoneLevel ?? defaultLevel(chain[0], principal);
+}
+
+export async function getPageAccess(page: Page, userId: string): Promise<PageAccessLevel> {
+  const principal = await getPrincipal(page.workspaceId, userId);
+  if (!principal) return 'none';
+  return resolveLevel(await getChain(page, storage.getPage.bind(storage), databaseParent), principal);
+}
+
+// Loads a page and checks the user has at least `required` on it
+export async function requirePageAccess(pageId: number, userId: string, required: PageAccessLevel): Promise<{ page: Page; level: PageAccessLevel }> {
+  const page = await storage.getPage(pageId);
+  if (!page) {
+    throw new PermissionError('Page not found', 404);
+  }
+  const level = await getPageAccess(page, userId);
+  if (level === 'none') {
+    // Pages you cannot see are reported the same as pages that do not exist
+    throw new PermissionError('Page not found', 404);
+  }
+  if (!hasAccess(level, required)) {
+    throw new PermissionError('Access denied');
+  }
+  return { page, level };
+}
+
+// New pages need edit access on their parent; top-level pages need a non-guest role
+export async function requireCreateAccess(workspaceId: number, parentId: number | null | undefined, userId: string): Promise<void> {
+  if (parentId) {
+    const { page } = await requirePageAccess(parentId, userId, 'edit');
+    if (page.workspaceId !== workspaceId) {
+      throw new PermissionError('Parent page is in another workspace', 400);
+    }
+    return;
+  }
+  const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+  if (!role || role === 'guest') {
+    throw new PermissionError('Access denied');
+  }
+}
+
+// Editing a page needs edit access. Moving it changes the restrictions it inherits and
+// archiving takes it away from everyone, so both need full access; a move also needs
+// create access where the page lands, the workspace itself for top-level pages.
+export async function requirePageEditAccess(pageId: number, userId: string, updates: EditPage): Promise<{ page: Page; level: PageAccessLevel }> {
+  const access = await requirePageAccess(pageId, userId, 'edit');
+  const { page } = access;
+  const moving = updates.parentId !== undefined && (updates.parentId ?? null) !== (page.parentId ?? null);
+  const archiving = updates.isArchived !== undefined && updates.isArchived !== !!page.isArchived;
+  if ((moving || archiving) && !hasAccess(access.level, 'full')) {
+    throw new PermissionError(moving ? 'Moving this page requires full access' : 'Archiving this page requires full access');
+  }
+  if (moving) {
+    await requireCreateAccess(page.workspaceId, updates.parentId, userId);
+    // Not under itself or one of its own subpages
+    let ancestorId = updates.parentId ?? null;
+    for (let depth = 0; ancestorId !== null && depth < MAX_DEPTH; depth++) {
+      if (ancestorId === pageId) {
+        throw new PermissionError('A page cannot be moved into itself', 400);
+      }
+      ancestorId = (await storage.getPage(ancestorId))?.parentId ?? null;
+    }
+  }
+  return access;
+}
+
+// Levels for every live page in the workspace, resolved in one pass
+export async function getWorkspacePageAccess(workspaceId: number, userId: string): Promise<Map<number, PageAccessLevel>> {
+  const levels = new Map<number, PageAccessLevel>();
+  const principal = await getPrincipal(workspaceId, userId);
+  if (!principal) return levels;
+
+  const pages = await storage.getPagesByWorkspace(workspaceId);
+  const byId = new Map(pages.map(page => [page.id, page]));
+  const databasePages = new Map((await storage.getWorkspaceDatabases(workspaceId)).map(database => [database.id, database.pageId]));
+  const lookup: PageLookup = async (pageId) => byId.get(pageId);
+  const parentOf: ParentLookup = async (page) => {
+    if (page.parentId) return page.parentId;
+    const databasePage = page.databaseId ? databasePages.get(page.databaseId) : undefined;
+    return databasePage !== undefined && databasePage !== page.id ? databasePage : null;
+  };
+
+  for (const page of pages) {
+    levels.set(page.id, resolveLevel(await getChain(page, lookup, parentOf), principal));
+  }
+  return levels;
+}
+
+export async function getVisiblePageIds(workspaceId: number, userId: string, required: PageAccessLevel = 'view'): Promise<Set<number>> {
+  const levels = await getWorkspacePageAccess(workspaceId, userId);
+  return new Set(Array.from(levels.entries())
+    .filter(([, level]) => level !== 'none' && hasAccess(level, required))
+    .map(([pageId]) => pageId));
+}
+
+// Drops hidden pages from a sidebar tree. Visible pages below a hidden one move up to
+// the nearest visible ancestor so explicitly shared subpages stay reachable.
+export function filterPageTree(tree: PageWithChildren[], visible: Set<number>): PageWithChildren[] {
+  return tree.flatMap(node => {
+    const children = filterPageTree(node.children ?? [], visible);
+    return visible.has(node.id) ? [{ ...node, children }] : children;
+  });
+}
+
+// The entries set on the page, plus the nearest ancestor entry for every principal
+// the page does not override itself
+export async function getPageAccessInfo(page: Page, userId: string): Promise<PageAccessInfo> {
+  const entries = readPermissions(page);
+  const keyOf = (entry: PagePermissionEntry) => `${entry.principalType}:${entry.principalId ?? ''}`;
+  const seen = new Set(entries.map(keyOf));
+
+  const inherited: PageAccessInfo['inherited'] = [];
+  const chain = await getChain(page, storage.getPage.bind(storage), databaseParent);
+  for (const ancestor of chain.slice(1)) {
+    for (const entry of readPermissions(ancestor)) {
+      if (seen.has(keyOf(entry))) continue;
+      seen.add(keyOf(entry));
+      inherited.push({ ...entry, pageId: ancestor.id, pageTitle: ancestor.title });
+    }
+  }
+
+  return { level: await getPageAccess(page, userId), entries, inherited };
+}
+
+// Replaces the page's explicit entries. The caller must keep full access afterwards,
+// so nobody can lock themselves out of a page by accident.
+export async function setPagePermissions(page: Page, userId: string, input: unknown): Promise<PageAccessInfo> {
+  const parsed = pagePermissionsSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new PermissionError(parsed.error.issues[0]?.message ?? 'Invalid permissions', 400);
+  }
+
+  const members = new Set((await storage.getWorkspaceMembers(page.workspaceId)).map(member => member.userId));
+  const groups = new Set((await storage.getWorkspaceGroups(page.workspaceId)).map(group => String(group.id)));
+  const before = new Map(await Promise.all(Array.from(members).map(async id => [id, await getPageAccess(page, id)] as const)));
+  const entries = new Map<string, PagePermissionEntry>();
+  for (const entry of parsed.data.entries) {
+    if (entry.principalType === 'user' && !members.has(entry.principalId!)) {
+      throw new PermissionError('Permissions can only be granted to workspace members', 400);
+    }
+    if (entry.principalType === 'group' && !groups.has(entry.principalId!)) {
+      throw new PermissionError('Group not found', 400);
+    }
+    const principalId = entry.principalType === 'everyone' ? null : entry.principalId!;
+    entries.set(`${entry.principalType}:${principalId ?? ''}`, { principalType: entry.principalType, principalId, level: entry.level });
+  }
+
+  const permissions = entries.size > 0 ? JSON.stringify({ entries: Array.from(entries.values()) }) : null;
+  const principal = await getPrincipal(page.workspaceId, userId);
+  const chain = await getChain({ ...page, permissions }, storage.getPage.bind(storage), databaseParent);
+  if (!principal || resolveLevel(chain, principal) !== 'full') {
+    throw new PermissionError('You would lose full access to this page', 400);
+  }
+
+  const updated = await storage.updatePage(page.id, { permissions });
+  await notifyNewAccess(updated ?? page, before, userId);
+  return await getPageAccessInfo(updated ?? page, userId);
+}
+
+// Members who could not see the page before the change are told it was shared with them
+async function notifyNewAccess(page: Page, before: Map<string, PageAccessLevel>, userId: string) {
+  const recipientIds: string[] = [];
+  for (const [memberId, level] of Array.from(before.entries())) {
+    if (level === 'none' && await getPageAccess(page, memberId) !== 'none') {
+      recipientIds.push(memberId);
+    }
+  }
+  if (recipientIds.length === 0) return;
+
+  const actor = toAuthor(userId, await storage.getUser(userId));
+  await notifyQuietly({
+    type: 'page_shared',
+    recipientIds,
+    actorId: userId,
+    workspaceId: page.workspaceId,
+    title: `${actor.name} shared ${page.title || 'Untitled'} with you`,
+    url: `/page/${page.id}`,
+    data: { pageId: page.id },
+  });
+}
+
+// Groups
+async function requireGroupManager(workspaceId: number, userId: string): Promise<void> {
+  const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+  if (role !== 'owner' && role !== 'admin') {
+    throw new PermissionError('Only workspace owners and admins can manage groups');
+  }
+}
+
+async function withMembers(groupId: number): Promise<WorkspaceGroupWithMembers> {
+  const group = await storage.getGroup(groupId);
+  if (!group) {
+    throw new PermissionError('Group not found', 404);
+  }
+  const members = await storage.getGroupMembers(groupId);
+  return { ...group, memberIds: members.map(member => member.userId) };
+}
+
+export async function listGroups(workspaceId: number): Promise<WorkspaceGroupWithMembers[]> {
+  const groups = await storage.getWorkspaceGroups(workspaceId);
+  return await Promise.all(groups.map(group => withMembers(group.id)));
+}
+
+async function setGroupMembers(workspaceId: number, groupId: number, memberIds: string[]): Promise<void> {
+  const members = new Set((await storage.getWorkspaceMembers(workspaceId)).map(member => member.userId));
+  const wanted = new Set(memberIds);
+  for (const memberId of Array.from(wanted)) {
+    if (!members.has(memberId)) {
+      throw new PermissionError('Groups can only contain workspace members', 400);
+    }
+  }
+
+  const current = await storage.getGroupMembers(groupId);
+  for (const member of current) {
+    if (!wanted.has(member.userId)) {
+      await storage.removeGroupMember(groupId, member.userId);
+    }
+  }
+  for (const memberId of Array.from(wanted)) {
+    await storage.addGroupMember({ groupId, userId: memberId });
+  }
+}
+
+export async function createGroup(workspaceId: number, userId: string, input: { name: string; description?: string | null; memberIds?: string[] }): Promise<WorkspaceGroupWithMembers> {
+  await requireGroupManager(workspaceId, userId);
+  const group = await storage.createGroup({
+    workspaceId,
+    name: input.name,
+    description: input.description ?? null,
+    createdBy: userId,
+  });
+  await setGroupMembers(workspaceId, group.id, input.memberIds ?? []);
+  return await withMembers(group.id);
+}
+
+export async function updateGroup(groupId: number, userId: string, input: { name?: string; description?: string | null; memberIds?: string[] }): Promise<WorkspaceGroupWithMembers> {
+  const group = await storage.getGroup(groupId);
+  if (!group) {
+    throw new PermissionError('Group not found', 404);
+  }
+  await requireGroupManager(group.workspaceId, userId);
+
+  if (input.name !== undefined || input.description !== undefined) {
+    await storage.updateGroup(groupId, {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+    });
+  }
+  if (input.memberIds) {
+    await setGroupMembers(group.workspaceId, groupId, input.memberIds);
+  }
+  return await withMembers(groupId);
+}
+
+export async function deleteGroup(groupId: number, userId: string): Promise<WorkspaceGroupWithMembers> {
+  const group = await withMembers(groupId);
+  await requireGroupManager(group.workspaceId, userId);
+  await storage.deleteGroup(groupId);
+  return group;
+}
@@ -0,0 +1,308 @@
+import { WebSocketServer } from 'ws';
+import type { IncomingMessage, Server } from 'http';
+import { nanoid } from 'nanoid';
+import { endSocketSession, mountSocketServer, type AuthenticatedSocket } from './ws-auth';
+import { AccountError } from './account-security';
+import { CommentError } from './comments';
+import { PermissionError, getPageAccess } from './permissions';
+import { TaskError } from './tasks';
+import { registerPushChannel } from './notifications';
+import {
+  REALTIME_PATH, REALTIME_PROTOCOL_VERSION, realtimeClientMessageSchema, realtimeCloseCodes, realtimeRequestSchemas,
+  type PresenceStatus, type RealtimeErrorCode, type RealtimeEvents, type RealtimeEventType, type RealtimeReply,
+  type RealtimeRequest, type RealtimeRequestType, type RealtimeServerMessage,
+} from '@shared/realtime';
+import type { Page, PageAccessLevel } from '@shared/schema';
+
+// The realtime endpoint. Connections speak the protocol in shared/realtime.ts: requests are
+// validated against their schema and routed to the handler registered for their type, and
+// events reach connections through the workspace and page rooms they joined or, for
+// notifications, through their user. Handlers live in websocket-api.ts and websocket.ts.
+
+export class RealtimeError extends Error {
+  constructor(public code: RealtimeErrorCode, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RealtimeError';
+  }
+}
+
+// A page the connection has open, and what the others in its room see of it
+export interface PageMembership {
+  status: PresenceStatus;
+  blockId: number | null;
+  cursor: { x: number; y: number; blockId: number | null; selection: { start: number; end: number } | null } | null;
+}
+
+export interface RealtimeConnection {
+  id: string;
+  socket: AuthenticatedSocket;
+  ipAddress: string | null;
+  userAgent: string | null;
+  // Looked up when the connection first joins a room
+  userName: string | null;
+  workspaces: Set<number>;
+  pages: Map<number, PageMembership>;
+  // Messages are handled one after another, so a join is done before what follows it
+  queue: Promise<void>;
+}
+
+export type RequestHandler<T extends RealtimeRequestType> =
+  (connection: RealtimeConnection, data: RealtimeRequest<T>) => Promise<RealtimeReply<T>>;
+
+export interface HandlerOptions {
+  // Sent when the handler fails for a reason it did not report itself
+  fallback: string;
+  // Lets signed-out connections make the request
+  anonymous?: boolean;
+}
+
+interface HandlerEntry extends HandlerOptions {
+  handler: RequestHandler<any>;
+}
+
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+// Errors from the services carry an HTTP status, which maps onto an error code
+const serviceErrors = [AccountError, CommentError, PermissionError, TaskError];
+
+function codeForStatus(status: number): RealtimeErrorCode {
+  switch (status) {
+    case 401: return 'unauthenticated';
+    case 403: return 'forbidden';
+    case 404: return 'not_found';
+    case 409: return 'conflict';
+    case 410: return 'gone';
+    case 429: return 'rate_limited';
+    default: return status >= 500 ? 'internal' : 'bad_request';
+  }
+}
+
+function toRealtimeError(error: unknown): RealtimeError | null {
+  if (error instanceof RealtimeError) return error;
+  if (serviceErrors.some(type => error instanceof type)) {
+    const { message, status, retryAfterMs } = error as Error & { status: number; retryAfterMs?: number };
+    return new RealtimeError(codeForStatus(status), message, retryAfterMs);
+  }
+  return null;
+}
+
+// Behind the one proxy the app trusts, the client is the last forwarded address
+function clientAddress(request: IncomingMessage): string | null {
+  const forwarded = request.headers['x-forwarded-for'];
+  const forwardedFor = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+  return forwardedFor || request.socket.remoteAddress || null;
+}
+
+// The signed-in user. Only handlers registered as anonymous run without one.
+export function connectionUserId(connection: RealtimeConnection): string {
+  const userId = connection.socket.identity?.userId;
+  if (!userId) throw new RealtimeError('unauthenticated', 'Not authenticated');
+  return userId;
+}
+
+let activeServer: RealtimeServer | null = null;
+
+export class RealtimeServer {
+  private wss: WebSocketServer;
+  private connections: Map<string, RealtimeConnection> = new Map();
+  private handlers: Map<RealtimeRequestType, HandlerEntry> = new Map();
+  private leaveListeners: Array<(connection: RealtimeConnection) => void> = [];
+
+  constructor(server: Server) {
+    activeServer = this;
+    // Sockets from a signed-in browser start signed in; others may sign in over the socket
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+    mountSocketServer(server, REALTIME_PATH, this.wss, { allowAnonymous: true });
+    this.wss.on('connection', (socket: AuthenticatedSocket, request: IncomingMessage) => {
+      this.accept(socket, request);
+    });
+    registerPushChannel((userId, event, data) => this.pushToUser(userId, event, data));
+  }
+
+  handle<T extends RealtimeRequestType>(type: T, handler: RequestHandler<T>, options: HandlerOptions) {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for ${type} is already registered`);
+    }
+    this.handlers.set(type, { ...options, handler });
+  }
+
+  // Called when a connection leaves all its rooms: on disconnect and when it signs out
+  onLeaveRooms(listener: (connection: RealtimeConnection) => void) {
+    this.leaveListeners.push(listener);
+  }
+
+  leaveRooms(connection: RealtimeConnection) {
+    this.leaveListeners.forEach(listener => {
+      try {
+        listener(connection);
+      } catch (error) {
+        console.error('Error leaving realtime rooms:', error);
+      }
+    });
+    connection.workspaces.clear();
+    connection.pages.clear();
+    connection.userName = null;
+  }
+
+  private accept(socket: AuthenticatedSocket, request: IncomingMessage) {
+    const version = Number(new URL(request.url ?? '/', 'http://localhost').searchParams.get('v'));
+    if (version !== REALTIME_PROTOCOL_VERSION) {
+      socket.close(realtimeCloseCodes.unsupportedVersion, `This server speaks protocol version ${REALTIME_PROTOCOL_VERSION}`);
+      return;
+    }
+
+    const connection: RealtimeConnection = {
+      id: nanoid(),
+      socket,
+      ipAddress: clientAddress(request),
+      userAgent: request.headers['user-agent'] ?? null,
+      userName: null,
+      workspaces: new Set(),
+      pages: new Map(),
+      queue: Promise.resolve(),
+    };
+    this.connections.set(connection.id, connection);
+
+    socket.on('message', (raw) => {
+      connection.queue = connection.queue.then(() => this.dispatch(connection, raw.toString()));
+    });
+
+    socket.on('close', () => {
+      this.leaveRooms(connection);
+      this.connections.delete(connection.id);
+      endSocketSession(socket.identity).catch((error) => {
+        console.error('Error ending socket session:', error);
+      });
+    });
+
+    socket.on('error', (error) => {
+      console.error('WebSocket error:', error);
+    });
+
+    this.send(connection, {
+      type: 'hello',
+      protocol: REALTIME_PROTOCOL_VERSION,
+      connectionId: connection.id,
+      userId: socket.identity?.userId ?? null,
+    });
+  }
+
+  private async dispatch(connection: RealtimeConnection, raw: string) {
+    let message;
+    try {
+      message = realtimeClientMessageSchema.parse(JSON.parse(raw));
+    } catch {
+      this.sendError(connection, undefined, new RealtimeError('bad_request', 'Invalid message format'));
+      return;
+    }
+
+    const { id, type } = message;
+    const entry = Object.prototype.hasOwnProperty.call(realtimeRequestSchemas, type)
+      ? this.handlers.get(type as RealtimeRequestType)
+      : undefined;
+    try {
+      if (!entry) {
+        throw new RealtimeError('bad_request', `Unknown message type: ${type}`);
+      }
+      if (!entry.anonymous && !connection.socket.identity) {
+        throw new RealtimeError('unauthenticated', 'Not authenticated');
+      }
+      const parsed = realtimeRequestSchemas[type as RealtimeRequestType].safeParse(message.data ?? {});
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        const field = issue?.path.join('.');
+        throw new RealtimeError('bad_request', issue ? (field ? `${field}: ${issue.message}` : issue.message) : 'Invalid request');
+      }
+      const data = await entry.handler(connection, parsed.data);
+      if (id) {
+        this.send(connection, { type: 'reply', id, data });
+      }
+    } catch (error) {
+      const known = toRealtimeError(error);
+      if (!known) {
+        console.error(`Error handling ${type}:`, error);
+      }
+      this.sendError(connection, id, known ?? new RealtimeError('internal', entry?.fallback ?? 'Internal server error'));
+    }
+  }
+
+  private send(connection: RealtimeConnection, message: RealtimeServerMessage) {
+    if (connection.socket.readyState === connection.socket.OPEN) {
+      connection.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private sendError(connection: RealtimeConnection, id: string | undefined, error: RealtimeError) {
+    this.send(connection, {
+      type: 'error',
+      id,
+      code: error.code,
+      message: error.message,
+      retryAfterMs: error.retryAfterMs,
+    });
+  }
+
+  private emit<E extends RealtimeEventType>(connection: RealtimeConnection, event: E, data: RealtimeEvents[E]) {
+    this.send(connection, { type: 'event', event, data } as RealtimeServerMessage);
+  }
+
+  connectionsInWorkspace(workspaceId: number): RealtimeConnection[] {
+    return Array.from(this.connections.values()).filter(connection => connection.workspaces.has(workspaceId));
+  }
+
+  connectionsOnPage(pageId: number): RealtimeConnection[] {
+    return Array.from(this.connections.values()).filter(connection => connection.pages.has(pageId));
+  }
+
+  publishToWorkspace<E extends RealtimeEventType>(workspaceId: number, event: E, data: RealtimeEvents[E], except?: RealtimeConnection) {
+    this.connectionsInWorkspace(workspaceId).forEach(connection => {
+      if (connection !== except) this.emit(connection, event, data);
+    });
+  }
+
+  publishToPageRoom<E extends RealtimeEventType>(pageId: number, event: E, data: RealtimeEvents[E], except?: RealtimeConnection) {
+    this.connectionsOnPage(pageId).forEach(connection => {
+      if (connection !== except) this.emit(connection, event, data);
+    });
+  }
+
+  // Page events go to the workspace room and the page's own room, but only to people who
+  // can see the page
+  async publishPageEvent<E extends RealtimeEventType>(page: Page, event: E, data: RealtimeEvents[E], except?: RealtimeConnection) {
+    const levels = new Map<string, Promise<PageAccessLevel>>();
+    for (const connection of Array.from(this.connections.values())) {
+      const userId = connection.socket.identity?.userId;
+      if (connection === except || !userId) continue;
+      if (!connection.workspaces.has(page.workspaceId) && !connection.pages.has(page.id)) continue;
+      if (!levels.has(userId)) {
+        levels.set(userId, getPageAccess(page, userId));
+      }
+      if (await levels.get(userId) !== 'none') {
+        this.emit(connection, event, data);
+      }
+    }
+  }
+
+  // Reaches every connection the user has open, whatever rooms they are in
+  pushToUser<E extends RealtimeEventType>(userId: string, event: E, data: RealtimeEvents[E]) {
+    this.connections.forEach(connection => {
+      if (connection.socket.identity?.userId === userId) this.emit(connection, event, data);
+    });
+  }
+}
+
+// For HTTP routes and services, which publish through whichever server is running
+
+export function broadcastToWorkspace<E extends RealtimeEventType>(workspaceId: number, event: E, data: RealtimeEvents[E]) {
+  activeServer?.publishToWorkspace(workspaceId, event, data);
+}
+
+export function broadcastToPageRoom<E extends RealtimeEventType>(pageId: number, event: E, data: RealtimeEvents[E]) {
+  activeServer?.publishToPageRoom(pageId, event, data);
+}
+
+export function broadcastPageEvent<E extends RealtimeEventType>(page: Page, event: E, data: RealtimeEvents[E]) {
+  activeServer?.publishPageEvent(page, event, data).catch((error) => {
+    console.error('Error broadcasting page event:', error);
+  });
+}
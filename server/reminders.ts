@@ -0,0 +1,336 @@
+import { storage } from './storage';
+import { getPageAccess, hasAccess } from './permissions';
+import { toAuthor } from './comments';
+import { notify } from './notifications';
+import { blockText, mentionsToPlainText } from './mentions';
+import { parseBlockProperties } from './block-sync';
+import { isValidTimeZone, fromWallTime } from './calendar';
+import {
+  reminderInputSchema, updateReminderSchema, userTimeZoneSchema,
+  type Block, type InsertReminder, type Page, type PageAccessLevel, type Reminder, type ReminderView, type User,
+} from '@shared/schema';
+
+// Reminders and due dates on pages and blocks. Reminders are personal; a due date is
+// shared by everyone on the page and notifies the block's assignee, or else whoever set
+// it. Pending rows double as the scheduler's queue, so reminders set before a restart
+// still go out after it.
+
+export class ReminderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ReminderError';
+  }
+}
+
+const ALL_DAY_TIME = '09:00'; // local time all-day reminders and due dates fire
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+// Timers never wait longer than this, so a long sleep cannot drift or overflow
+const MAX_WAIT_MS = 60 * 60 * 1000;
+
+// The zone a user's dates and times are read in
+export function userTimeZone(user: User | undefined): string {
+  return user?.timezone && isValidTimeZone(user.timezone) ? user.timezone : 'UTC';
+}
+
+// The instant `date` and `time` name in `timeZone`; rejects dates such as 2026-02-30
+export function reminderTime(date: string, time: string | null, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    throw new ReminderError('Invalid date');
+  }
+  const [hour, minute] = (time ?? ALL_DAY_TIME).split(':').map(Number);
+  return fromWallTime({ year, month, day, hour, minute, second: 0 }, timeZone);
+}
+
+function toView(reminder: Reminder, userId: string, creator: User | undefined): ReminderView {
+  return {
+    id: reminder.id,
+    pageId: reminder.pageId,
+    blockId: reminder.blockId,
+    kind: reminder.kind === 'due' ? 'due' : 'reminder',
+    date: reminder.date,
+    time: reminder.time,
+    note: reminder.note,
+    remindAt: reminder.remindAt,
+    status: reminder.status,
+    mine: reminder.userId === userId,
+    createdBy: toAuthor(reminder.createdBy, creator),
+  };
+}
+
+async function withCreators(list: Reminder[], userId: string): Promise<ReminderView[]> {
+  const creatorIds = Array.from(new Set(list.map(reminder => reminder.createdBy)));
+  const users = new Map(await Promise.all(creatorIds.map(async id => [id, await storage.getUser(id)] as const)));
+  return list.map(reminder => toView(reminder, userId, users.get(reminder.createdBy)));
+}
+
+async function getPageForReminders(pageId: number, userId: string, required: PageAccessLevel): Promise<Page> {
+  const page = await storage.getPage(pageId);
+  if (!page || page.isDeleted) {
+    throw new ReminderError('Page not found', 404);
+  }
+  const level = await getPageAccess(page, userId);
+  if (level === 'none') {
+    throw new ReminderError('Page not found', 404);
+  }
+  if (!hasAccess(level, required)) {
+    throw new ReminderError('Access denied', 403);
+  }
+  return page;
+}
+
+// Anyone who can see a reminder's page may set their own reminders; due dates need edit access
+function requiredAccess(kind: string): PageAccessLevel {
+  return kind === 'due' ? 'edit' : 'view';
+}
+
+// Loads a reminder the user may change: their own reminder, or a due date on a page they can edit
+async function getReminderForUser(reminderId: number, userId: string): Promise<Reminder> {
+  const reminder = await storage.getReminder(reminderId);
+  if (!reminder || (reminder.kind !== 'due' && reminder.userId !== userId)) {
+    throw new ReminderError('Reminder not found', 404);
+  }
+  await getPageForReminders(reminder.pageId, userId, requiredAccess(reminder.kind));
+  return reminder;
+}
+
+// A due date already past is kept for display but never notified
+function scheduleFields(kind: string, date: string, time: string | null, timeZone: string) {
+  const remindAt = reminderTime(date, time, timeZone);
+  if (remindAt <= Date.now()) {
+    if (kind !== 'due') {
+      throw new ReminderError('Reminder time has already passed');
+    }
+    return { remindAt, status: 'skipped', attempts: 0, lastError: null, sentAt: null };
+  }
+  return { remindAt, status: 'pending', attempts: 0, lastError: null, sentAt: null };
+}
+
+// Due dates on the page plus the caller's own reminders, skipping blocks that were deleted
+export async function listPageReminders(pageId: number, userId: string): Promise<ReminderView[]> {
+  const page = await getPageForReminders(pageId, userId, 'view');
+  const blockIds = new Set((await storage.getBlocksByPageId(page.id)).map(block => block.id));
+  const visible = (await storage.getPageReminders(page.id)).filter(reminder =>
+    (reminder.kind === 'due' || reminder.userId === userId)
+    && (reminder.blockId === null || blockIds.has(reminder.blockId))
+  );
+  return withCreators(visible, userId);
+}
+
+// Who a due date notifies: the block's assignee, falling back to `userId`
+async function dueDateRecipient(blockId: number | null, userId: string): Promise<string> {
+  if (blockId === null) return userId;
+  const block = await storage.getBlockById(blockId);
+  return (block && parseBlockProperties(block.properties).assigneeId) || userId;
+}
+
+// Setting a due date where one exists moves it rather than adding a second
+export async function createReminder(pageId: number, userId: string, input: unknown): Promise<ReminderView> {
+  const parsed = reminderInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ReminderError(parsed.error.issues[0]?.message ?? 'Invalid reminder');
+  }
+  const { blockId = null, kind, date, time = null, note = null } = parsed.data;
+  const page = await getPageForReminders(pageId, userId, requiredAccess(kind));
+  if (blockId !== null) {
+    const block = await storage.getBlockById(blockId);
+    if (!block || block.pageId !== page.id) {
+      throw new ReminderError('Block not found', 404);
+    }
+  }
+
+  const user = await storage.getUser(userId);
+  const recipientId = kind === 'due' ? await dueDateRecipient(blockId, userId) : userId;
+  const recipient = recipientId === userId ? user : await storage.getUser(recipientId);
+  const fields = { date, time, note, userId: recipientId, ...scheduleFields(kind, date, time, userTimeZone(recipient)) };
+  const existing = kind === 'due' ? await storage.getDueDateReminder(page.id, blockId) : undefined;
+  const reminder = existing
+    ? await storage.updateReminder(existing.id, { ...fields, createdBy: userId })
+    : await storage.createReminder({ ...fields, workspaceId: page.workspaceId, pageId: page.id, blockId, kind, createdBy: userId });
+  wakeScheduler();
+  return toView(reminder!, userId, user);
+}
+
+export async function updateReminder(reminderId: number, userId: string, input: unknown): Promise<ReminderView> {
+  const reminder = await getReminderForUser(reminderId, userId);
+  const parsed = updateReminderSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ReminderError(parsed.error.issues[0]?.message ?? 'Invalid reminder');
+  }
+  const updates = parsed.data;
+  const date = updates.date ?? reminder.date;
+  const time = updates.time !== undefined ? updates.time : reminder.time;
+  const note = updates.note !== undefined ? updates.note : reminder.note;
+
+  // Without an assignee, whoever moves a due date is the one reminded of it
+  const recipientId = reminder.kind === 'due' ? await dueDateRecipient(reminder.blockId, userId) : reminder.userId;
+  const updated = await storage.updateReminder(reminder.id, {
+    date,
+    time,
+    note,
+    userId: recipientId,
+    ...scheduleFields(reminder.kind, date, time, userTimeZone(await storage.getUser(recipientId))),
+  });
+  wakeScheduler();
+  return toView(updated!, userId, await storage.getUser(updated!.createdBy));
+}
+
+export async function deleteReminder(reminderId: number, userId: string): Promise<Reminder> {
+  const reminder = await getReminderForUser(reminderId, userId);
+  await storage.deleteReminder(reminder.id);
+  return reminder;
+}
+
+// Hands a block's due date to its new assignee (or back to whoever set it when null),
+// at the same wall-clock time in their zone
+export async function setDueDateRecipient(pageId: number, blockId: number, assigneeId: string | null): Promise<void> {
+  const reminder = await storage.getDueDateReminder(pageId, blockId);
+  const recipientId = assigneeId ?? reminder?.createdBy;
+  if (!reminder || !recipientId || reminder.userId === recipientId) return;
+
+  const updates: Partial<InsertReminder> = { userId: recipientId };
+  if (reminder.status === 'pending') {
+    updates.remindAt = reminderTime(reminder.date, reminder.time, userTimeZone(await storage.getUser(recipientId)));
+  }
+  await storage.updateReminder(reminder.id, updates);
+  wakeScheduler();
+}
+
+// Changing zone keeps each pending reminder at the same wall-clock time in the new zone
+export async function setUserTimeZone(userId: string, input: unknown): Promise<{ timezone: string; rescheduled: number }> {
+  const parsed = userTimeZoneSchema.safeParse(input);
+  if (!parsed.success || !isValidTimeZone(parsed.data.timezone)) {
+    throw new ReminderError('Unknown time zone');
+  }
+  const { timezone } = parsed.data;
+  await storage.updateUser(userId, { timezone });
+
+  const pending = await storage.getPendingUserReminders(userId);
+  for (const reminder of pending) {
+    await storage.updateReminder(reminder.id, { remindAt: reminderTime(reminder.date, reminder.time, timezone) });
+  }
+  wakeScheduler();
+  return { timezone, rescheduled: pending.length };
+}
+
+// Delivery
+
+function isChecked(block: Block): boolean {
+  try {
+    const content = typeof block.content === 'string' ? JSON.parse(block.content) : block.content;
+    return content?.checked === true;
+  } catch {
+    return false;
+  }
+}
+
+// What a reminder is about, or null when it should not go out: the page or block is gone,
+// the recipient lost access, or a due todo was already ticked off
+async function reminderTarget(reminder: Reminder): Promise<{ page: Page; label: string } | null> {
+  const page = await storage.getPage(reminder.pageId);
+  if (!page || page.isDeleted) return null;
+  if ((await getPageAccess(page, reminder.userId)) === 'none') return null;
+
+  let label = page.title || 'Untitled';
+  if (reminder.blockId !== null) {
+    const block = await storage.getBlockById(reminder.blockId);
+    if (!block || block.pageId !== page.id) return null;
+    if (reminder.kind === 'due' && block.type === 'todo' && isChecked(block)) return null;
+    const text = mentionsToPlainText(blockText(block)).trim();
+    if (text) label = text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  }
+  return { page, label };
+}
+
+async function deliver(reminder: Reminder): Promise<void> {
+  const target = await reminderTarget(reminder);
+  if (!target) {
+    await storage.updateReminder(reminder.id, { status: 'skipped' });
+    return;
+  }
+  const { page, label } = target;
+  const title = reminder.kind === 'due'
+    ? `"${label}" is due ${reminder.time ? `at ${reminder.time}` : 'today'}`
+    : `Reminder: ${label}`;
+  await notify({
+    type: 'reminder',
+    recipientIds: [reminder.userId],
+    workspaceId: page.workspaceId,
+    title,
+    message: reminder.note || (reminder.blockId !== null ? `On ${page.title}` : ''),
+    url: `/page/${page.id}`,
+    data: { reminderId: reminder.id, kind: reminder.kind, pageId: page.id, blockId: reminder.blockId },
+  });
+  await storage.updateReminder(reminder.id, { status: 'sent', sentAt: Date.now() });
+}
+
+// Sends every reminder whose time has come. Failures are retried with backoff and given
+// up on after MAX_ATTEMPTS. Returns how many were handled.
+export async function deliverDueReminders(now: number = Date.now()): Promise<number> {
+  let handled = 0;
+  for (;;) {
+    const due = await storage.getRemindersDue(now, BATCH_SIZE);
+    for (const reminder of due) {
+      try {
+        await deliver(reminder);
+      } catch (error: any) {
+        const attempts = reminder.attempts + 1;
+        console.error(`Error delivering reminder ${reminder.id}:`, error);
+        await storage.updateReminder(reminder.id, {
+          attempts,
+          lastError: String(error?.message ?? error),
+          ...(attempts >= MAX_ATTEMPTS
+            ? { status: 'failed' }
+            : { remindAt: now + RETRY_BASE_MS * 2 ** (attempts - 1) }),
+        });
+      }
+      handled++;
+    }
+    if (due.length < BATCH_SIZE) return handled;
+  }
+}
+
+// Scheduler. One timer, set for the earliest pending reminder and re-armed whenever
+// reminders change; on start it first catches up on anything missed while stopped.
+
+let schedulerStarted = false;
+let schedulerTimer: NodeJS.Timeout | null = null;
+let delivering = false;
+
+async function armScheduler(): Promise<void> {
+  const next = await storage.getNextReminderTime();
+  if (schedulerTimer) clearTimeout(schedulerTimer);
+  const wait = next === undefined ? MAX_WAIT_MS : Math.min(Math.max(next - Date.now(), 0), MAX_WAIT_MS);
+  schedulerTimer = setTimeout(runScheduler, wait);
+  schedulerTimer.unref();
+}
+
+function runScheduler() {
+  schedulerTimer = null;
+  delivering = true;
+  deliverDueReminders()
+    .catch((error) => {
+      console.error('Error delivering reminders:', error);
+    })
+    .finally(() => {
+      delivering = false;
+      wakeScheduler();
+    });
+}
+
+function wakeScheduler() {
+  // A delivery run re-arms when it finishes
+  if (!schedulerStarted || delivering) return;
+  armScheduler().catch((error) => {
+    console.error('Error scheduling reminders:', error);
+  });
+}
+
+export function startReminderScheduler() {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+  runScheduler();
+}
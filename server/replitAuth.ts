@@ -5,8 +5,21 @@ import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
-import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { SqliteSessionStore, SESSION_COOKIE, sessionSecret } from "./session-store";
+import type { WebAuthnChallenge } from "./webauthn";
+import { needsMFAEnrollment } from "./mfa";
+
+declare module "express-session" {
+  interface SessionData {
+    user?: any;
+    // Set after a correct password when the account has MFA; cleared once the code is checked
+    mfaChallenge?: { userId: string; expiresAt: number; attempts: number };
+    webauthnChallenge?: WebAuthnChallenge;
+    // Where the session signed in from, for the session list
+    client?: { ipAddress: string | null; userAgent: string | null };
+  }
+}
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -24,15 +37,10 @@ const getOidcConfig = memoize(
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: false,
-    ttl: sessionTtl,
-    tableName: "sessions",
-  });
+  const sessionStore = new SqliteSessionStore(sessionTtl);
   return session({
-    secret: process.env.SESSION_SECRET || "dev-session-secret-change-in-production",
+    name: SESSION_COOKIE,
+    secret: sessionSecret(),
     store: sessionStore,
     resave: false,
     saveUninitialized: false,
@@ -131,6 +139,15 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   // Check for credential-based session first
   if (req.session && req.session.user) {
     req.user = req.session.user;
+    // Members of a workspace that requires MFA can only reach their account until they enroll
+    if (await needsMFAEnrollment(req.session.user.claims.sub)) {
+      req.session.user.mfaEnrollmentRequired = true;
+    } else {
+      delete req.session.user.mfaEnrollmentRequired;
+    }
+    if (req.session.user.mfaEnrollmentRequired && !req.path.startsWith("/api/auth/")) {
+      return res.status(403).json({ message: "Set up multi-factor authentication to continue", code: "MFA_ENROLLMENT_REQUIRED" });
+    }
     return next();
   }
 
@@ -0,0 +1,263 @@
+import { storage } from './storage';
+import { syncPageMentions } from './mentions';
+import { blockSync } from './block-sync';
+import type { Page, PageRevision, RevisionBlock, RevisionDiff, BlockDiff } from '@shared/schema';
+
+// Edits by the same person within this window are folded into one revision
+const COALESCE_WINDOW_MS = 10 * 60 * 1000;
+
+interface PageSnapshot {
+  title: string;
+  icon: string | null;
+  cover: string | null;
+  properties: string | null;
+  blocks: RevisionBlock[];
+}
+
+export class RevisionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RevisionError';
+  }
+}
+
+async function takeSnapshot(page: Page): Promise<PageSnapshot> {
+  const pageBlocks = await storage.getBlocksByPageId(page.id);
+  return {
+    title: page.title,
+    icon: page.icon,
+    cover: page.cover,
+    properties: page.properties,
+    blocks: pageBlocks.map(block => ({
+      id: block.id,
+      type: block.type,
+      content: typeof block.content === 'string' ? block.content : JSON.stringify(block.content ?? null),
+      position: block.position,
+      parentId: block.parentId,
+      properties: block.properties,
+      lastEditedBy: block.lastEditedBy ?? block.createdBy,
+    })),
+  };
+}
+
+function snapshotOf(revision: PageRevision): PageSnapshot {
+  return {
+    title: revision.title,
+    icon: revision.icon,
+    cover: revision.cover,
+    properties: revision.properties,
+    blocks: JSON.parse(revision.blocks) as RevisionBlock[],
+  };
+}
+
+function sameSnapshot(a: PageSnapshot, b: PageSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Records the current state of a page. Called after edits; a burst of edits by one
+// person updates their latest revision instead of piling up near-identical ones.
+export async function capturePageRevision(pageId: number, userId: string): Promise<PageRevision | undefined> {
+  const page = await storage.getPage(pageId);
+  if (!page) return undefined;
+
+  const snapshot = await takeSnapshot(page);
+  const latest = await storage.getLatestPageRevision(pageId);
+
+  if (latest) {
+    if (sameSnapshot(snapshotOf(latest), snapshot)) {
+      return latest;
+    }
+
+    const isRecent = (latest.updatedAt ?? 0) > Date.now() - COALESCE_WINDOW_MS;
+    if (latest.reason === 'edit' && latest.createdBy === userId && isRecent) {
+      return await storage.updatePageRevision(latest.id, {
+        ...snapshot,
+        blocks: JSON.stringify(snapshot.blocks),
+      });
+    }
+  }
+
+  return await storage.createPageRevision({
+    pageId,
+    workspaceId: page.workspaceId,
+    ...snapshot,
+    blocks: JSON.stringify(snapshot.blocks),
+    reason: 'edit',
+    createdBy: userId,
+  });
+}
+
+// Fire-and-forget variant for request handlers; history must never fail an edit.
+// Also brings the page's stored mentions in line with its text.
+export function trackPageEdit(pageId: number, userId: string) {
+  capturePageRevision(pageId, userId).catch((error) => {
+    console.error('Error capturing page revision:', error);
+  });
+  syncPageMentions(pageId, userId).catch((error) => {
+    console.error('Error syncing page mentions:', error);
+  });
+}
+
+function diffBlocks(before: RevisionBlock[], after: RevisionBlock[]): BlockDiff[] {
+  const beforeById = new Map(before.map(block => [block.id, block]));
+  const afterIds = new Set(after.map(block => block.id));
+  const result: BlockDiff[] = [];
+
+  const sortedAfter = [...after].sort((a, b) => a.position - b.position);
+  const beforeOrder = before
+    .filter(block => afterIds.has(block.id))
+    .sort((a, b) => a.position - b.position)
+    .map(block => block.id);
+  const afterOrder = sortedAfter
+    .filter(block => beforeById.has(block.id))
+    .map(block => block.id);
+
+  for (const block of sortedAfter) {
+    const previous = beforeById.get(block.id);
+    if (!previous) {
+      result.push({ blockId: block.id, status: 'added', type: block.type, after: block, editedBy: block.lastEditedBy });
+      continue;
+    }
+
+    const changed = previous.type !== block.type ||
+      previous.content !== block.content ||
+      previous.properties !== block.properties ||
+      previous.parentId !== block.parentId;
+    const moved = beforeOrder.indexOf(block.id) !== afterOrder.indexOf(block.id);
+
+    result.push({
+      blockId: block.id,
+      status: changed ? 'changed' : moved ? 'moved' : 'unchanged',
+      type: block.type,
+      before: previous,
+      after: block,
+      editedBy: changed ? block.lastEditedBy : undefined,
+    });
+  }
+
+  // Removed blocks are listed where they used to sit
+  before
+    .filter(block => !afterIds.has(block.id))
+    .sort((a, b) => a.position - b.position)
+    .forEach(block => {
+      const index = result.findIndex(entry => (entry.before ?? entry.after)!.position > block.position);
+      const entry: BlockDiff = { blockId: block.id, status: 'removed', type: block.type, before: block };
+      if (index === -1) {
+        result.push(entry);
+      } else {
+        result.splice(index, 0, entry);
+      }
+    });
+
+  return result;
+}
+
+function describe(revision: PageRevision | null) {
+  return {
+    revisionId: revision?.id ?? null,
+    createdAt: revision?.updatedAt ?? null,
+    createdBy: revision?.createdBy ?? null,
+  };
+}
+
+// Compares a revision with another revision, or with the live page when `to` is null
+export async function diffRevisions(from: PageRevision, to: PageRevision | null): Promise<RevisionDiff> {
+  const before = snapshotOf(from);
+  let after: PageSnapshot;
+  if (to) {
+    after = snapshotOf(to);
+  } else {
+    const page = await storage.getPage(from.pageId);
+    if (!page) {
+      throw new RevisionError('Page not found', 404);
+    }
+    after = await takeSnapshot(page);
+  }
+
+  const diff: RevisionDiff = {
+    from: describe(from),
+    to: describe(to),
+    blocks: diffBlocks(before.blocks, after.blocks),
+  };
+  if (before.title !== after.title) {
+    diff.title = { before: before.title, after: after.title };
+  }
+  if (before.icon !== after.icon) {
+    diff.icon = { before: before.icon, after: after.icon };
+  }
+  return diff;
+}
+
+// Puts the page back the way it was in `revision`. The state being replaced is
+// captured first so a restore can itself be undone.
+export async function restorePageRevision(revision: PageRevision, userId: string): Promise<PageRevision> {
+  const page = await storage.getPage(revision.pageId);
+  if (!page) {
+    throw new RevisionError('Page not found', 404);
+  }
+
+  // Live edits are written first so the revision captured below includes them
+  await blockSync.flushPage(page.id, true);
+  await capturePageRevision(page.id, userId);
+
+  const snapshot = snapshotOf(revision);
+  await storage.updatePage(page.id, {
+    title: snapshot.title,
+    icon: snapshot.icon,
+    cover: snapshot.cover,
+    properties: snapshot.properties,
+    lastEditedBy: userId,
+  });
+
+  // Restore in place, so comments, reminders, inline databases and mentions that point
+  // at a block keep pointing at it: blocks still on the page are updated, deleted ones
+  // come back under their old ids and only blocks the revision did not have are removed
+  const current = new Map((await storage.getBlocksByPageId(page.id)).map(block => [block.id, block]));
+  const kept = new Set(snapshot.blocks.map(block => block.id));
+  for (const block of Array.from(current.values())) {
+    if (!kept.has(block.id)) {
+      await storage.deleteBlock(block.id);
+      blockSync.evict(block.id);
+    }
+  }
+
+  // Parents go first; a block whose old id has since been taken elsewhere gets a new one
+  const idMap = new Map<number, number>();
+  const pending = [...snapshot.blocks].sort((a, b) => a.position - b.position);
+  while (pending.length > 0) {
+    const index = pending.findIndex(block => block.parentId === null || idMap.has(block.parentId) ||
+      !kept.has(block.parentId));
+    const [block] = pending.splice(index === -1 ? 0 : index, 1);
+    const fields = {
+      type: block.type,
+      content: block.content,
+      position: block.position,
+      parentId: block.parentId === null || !kept.has(block.parentId) ? null : idMap.get(block.parentId) ?? block.parentId,
+      properties: block.properties,
+      lastEditedBy: userId,
+    };
+    if (current.has(block.id)) {
+      await storage.updateBlock(block.id, fields);
+      blockSync.evict(block.id);
+      idMap.set(block.id, block.id);
+    } else if (!await storage.getBlockById(block.id)) {
+      await storage.restoreBlock({ id: block.id, pageId: page.id, createdBy: userId, ...fields });
+      idMap.set(block.id, block.id);
+    } else {
+      const created = await storage.createBlock({ pageId: page.id, createdBy: userId, ...fields });
+      idMap.set(block.id, created.id);
+    }
+  }
+
+  const restoredPage = (await storage.getPage(page.id))!;
+  const restored = await takeSnapshot(restoredPage);
+  return await storage.createPageRevision({
+    pageId: page.id,
+    workspaceId: page.workspaceId,
+    ...restored,
+    blocks: JSON.stringify(restored.blocks),
+    reason: 'restore',
+    restoredFrom: revision.id,
+    createdBy: userId,
+  });
+}
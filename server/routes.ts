@@ -1,40 +1,72 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
-import { WebSocketAPIServer } from "./websocket-api";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { issueSocketTicket } from "./ws-auth";
+import { RealtimeServer, broadcastToWorkspace, broadcastToPageRoom, broadcastPageEvent } from "./realtime";
+import { registerApiHandlers } from "./websocket-api";
+import { registerCollaborationHandlers, broadcastTaskUpdate } from "./websocket";
 import { 
-  insertPageSchema, insertBlockSchema, updatePageSchema, updateBlockSchema,
+  insertPageSchema, insertBlockSchema, editPageSchema, updateBlockSchema,
   insertWorkspaceSchema, insertInvitationSchema, insertTemplateSchema,
-  insertUserSchema, type Page, type Block, type Workspace, type User
+  insertUserSchema, databaseQuerySchema, updateDatabaseViewSchema, type Page, type Block, type Workspace, type User
 } from "@shared/schema";
 import { storage } from "./storage";
+import { blockSync } from "./block-sync";
+import { trackPageEdit, diffRevisions, restorePageRevision, RevisionError } from "./revisions";
+import { searchWorkspace } from "./search";
+import { importMarkdown, exportPage, MarkdownError } from "./markdown";
+import {
+  CommentError, toAuthor, getPageForComments, getCommentForUser, getPageThreads, addComment, editComment, removeComment, setThreadResolved
+} from "./comments";
+import { syncPageMentions, suggestMentions, getBacklinks, getLinkGraph } from "./mentions";
+import {
+  PermissionError, requirePageAccess, requirePageEditAccess, requireCreateAccess, getVisiblePageIds, filterPageTree,
+  getPageAccessInfo, setPagePermissions, listGroups, createGroup, updateGroup, deleteGroup
+} from "./permissions";
+import {
+  DatabaseError, getDatabaseForUser, getDatabaseWithViews, getProperties, createDatabase, deleteDatabase, deleteBlock,
+  updateSchema, queryDatabase, createRow, updateRow, createView, updateView
+} from "./databases";
+import {
+  CalendarError, parseRange, listOccurrences, getEvent, createEvent, updateEvent, deleteEvent, skipOccurrence,
+  getFeedToken, buildWorkspaceFeed
+} from "./calendar";
+import { importICalendar } from "./ical";
+import {
+  EmailError, getAccountStatus, getGmailAuthUrl, completeGmailConnect, connectImapAccount, disconnectAccount, syncAccount,
+  listThreads, getThread, getFolderCounts, setThreadRead, setThreadStarred, archiveThread, deleteThread, sendEmail, getAttachment,
+  threadToPage, getPageAttachment
+} from "./email";
+import { EmailProviderError } from "./email-providers";
+import { parseFormData, type OutgoingAttachment } from "./mime";
+import {
+  AnalyticsError, trackPageView, getWorkspaceAnalytics, getBusinessMetrics, getBusinessActivity, getWorkspaceSummaries
+} from "./analytics";
+import { exportAnalytics } from "./analytics-export";
+import {
+  NotificationError, listNotifications, markRead, markAllRead, deleteNotifications, getPreferences, updatePreferences,
+  notifyInvitation, startNotificationDigests
+} from "./notifications";
+import { TaskError, listTasks, updateTask } from "./tasks";
+import {
+  MFAError, getMFAStatus, startEnrollment, confirmEnrollment, disableMFA, regenerateBackupCodes, verifyLoginCode,
+  isMFAEnabled, needsMFAEnrollment, getWorkspaceSecurity, updateWorkspaceSecurity
+} from "./mfa";
+import {
+  WebAuthnError, newChallenge, registrationOptions, completeRegistration, authenticationOptions, completeAuthentication,
+  listPasskeys, renamePasskey, deletePasskey
+} from "./webauthn";
+import {
+  AccountError, limitRegistration, checkLoginAllowed, recordLoginFailure, recordLoginSuccess, sendVerificationEmailQuietly,
+  resendVerificationEmail, verifyEmail, requestPasswordReset, resetPassword, listSessions, revokeSession, revokeOtherSessions
+} from "./account-security";
+import { ReminderError, listPageReminders, createReminder, updateReminder, deleteReminder, setUserTimeZone, startReminderScheduler } from "./reminders";
+import { AuditError, recordAudit, queryAuditLog, verifyAuditLog, getAuditSettings, updateAuditSettings, startAuditRetention } from "./audit";
+import { ShareError, getShareSettings, createShare, updateShare, revokeShare, viewSharedPage, exportSharedPage } from "./shares";
 import { nanoid } from "nanoid";
 import bcrypt from "bcrypt";
 import { z } from "zod";
 
-// Real-time collaboration state
-interface CursorPosition {
-  userId: string;
-  userName: string;
-  pageId: number;
-  x: number;
-  y: number;
-  blockId?: number;
-  selection?: { start: number; end: number };
-}
-
-interface WorkspaceSession {
-  userId: string;
-  userName: string;
-  workspaceId: number;
-  ws: WebSocket;
-  cursor?: CursorPosition;
-}
-
-const activeSessions = new Map<string, WorkspaceSession>();
-const workspaceConnections = new Map<number, Set<string>>();
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -56,7 +88,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      if (!user) {
+        return res.json(user);
+      }
+      const { password: _, failedLoginCount: __, lockedUntil: ___, ...profile } = user;
+      res.json({ ...profile, mfaEnrollmentRequired: req.user.mfaEnrollmentRequired === true });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -69,6 +105,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     password: z.string().min(1, "Password is required")
   });
 
+  const MFA_CHALLENGE_MS = 5 * 60 * 1000;
+  const MFA_CHALLENGE_ATTEMPTS = 5;
+
+  // Starts the credential session under a fresh session id. Members of a workspace that
+  // requires MFA but who have not enrolled yet are limited to the account endpoints until
+  // they do.
+  const signIn = async (req: any, user: User) => {
+    const enrollmentRequired = await needsMFAEnrollment(user.id);
+    await recordLoginSuccess(user);
+    await new Promise<void>((resolve, reject) => {
+      req.session.regenerate((err: any) => err ? reject(err) : resolve());
+    });
+    req.session.client = { ipAddress: req.ip ?? null, userAgent: req.get('user-agent') ?? null };
+    req.session.user = {
+      claims: {
+        sub: user.id,
+        email: user.email,
+        first_name: user.firstName,
+        last_name: user.lastName,
+        profile_image_url: user.profileImageUrl
+      },
+      ...(enrollmentRequired ? { mfaEnrollmentRequired: true } : {})
+    };
+    const { password: _, failedLoginCount: __, lockedUntil: ___, ...userWithoutPassword } = user;
+    return { ...userWithoutPassword, mfaEnrollmentRequired: enrollmentRequired };
+  };
+
+  // Lockouts and rate limits say when to come back
+  const sendAccountError = (res: any, error: AccountError, field: "message" | "error") => {
+    if (error.retryAfterMs) {
+      res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+    }
+    res.status(error.status).json({ [field]: error.message });
+  };
+
   const credentialRegisterSchema = z.object({
     name: z.string().min(2, "Name must be at least 2 characters"),
     username: z.string().min(1, "Username is required"),
@@ -82,6 +153,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Find user by username or email
       const user = await storage.getUserByUsernameOrEmail(username);
+      checkLoginAllowed(user, req.ip ?? null);
       if (!user || !user.password) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
@@ -89,24 +161,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Verify password
       const isValidPassword = await bcrypt.compare(password, user.password);
       if (!isValidPassword) {
+        await recordLoginFailure(user);
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Set up session
-      req.session.user = {
-        claims: {
-          sub: user.id,
-          email: user.email,
-          first_name: user.firstName,
-          last_name: user.lastName,
-          profile_image_url: user.profileImageUrl
-        }
-      };
+      // With MFA on, the session only becomes signed in after /api/login/mfa or /api/login/passkey
+      delete req.session.user;
+      delete req.session.mfaChallenge;
+      const methods = [
+        ...(await isMFAEnabled(user.id) ? ["totp"] : []),
+        ...((await storage.getWebAuthnCredentials(user.id)).length > 0 ? ["passkey"] : []),
+      ];
+      if (methods.length > 0) {
+        const expiresAt = Date.now() + MFA_CHALLENGE_MS;
+        req.session.mfaChallenge = { userId: user.id, expiresAt, attempts: 0 };
+        return res.json({ mfaRequired: true, methods, expiresAt });
+      }
 
-      // Return user data (without password)
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json(await signIn(req, user));
     } catch (error) {
+      if (error instanceof AccountError) {
+        return sendAccountError(res, error, "message");
+      }
       console.error("Login error:", error);
       if (error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid input data" });
@@ -115,9 +191,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Second login step. Body: { code } - a 6-digit authenticator code or a backup code
+  app.post('/api/login/mfa', async (req, res) => {
+    const challenge = req.session.mfaChallenge;
+    if (!challenge || challenge.expiresAt < Date.now()) {
+      delete req.session.mfaChallenge;
+      return res.status(401).json({ message: "Sign in again to continue" });
+    }
+    try {
+      await verifyLoginCode(challenge.userId, req.body);
+      delete req.session.mfaChallenge;
+      const user = await storage.getUser(challenge.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+      res.json(await signIn(req, user));
+    } catch (error) {
+      if (error instanceof MFAError) {
+        const user = await storage.getUser(challenge.userId);
+        if (user) await recordLoginFailure(user);
+        challenge.attempts += 1;
+        if (challenge.attempts >= MFA_CHALLENGE_ATTEMPTS) {
+          delete req.session.mfaChallenge;
+          return res.status(429).json({ message: "Too many attempts. Sign in again." });
+        }
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("MFA login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  // Passkey sign-in. While a password sign-in waits for its second step the passkey must
+  // belong to that account; otherwise any registered passkey signs in on its own.
+  app.post('/api/login/passkey/options', async (req, res) => {
+    try {
+      const pending = req.session.mfaChallenge;
+      const userId = pending && pending.expiresAt >= Date.now() ? pending.userId : null;
+      const challenge = newChallenge('login', userId);
+      req.session.webauthnChallenge = challenge;
+      res.json(await authenticationOptions(challenge));
+    } catch (error) {
+      console.error("Passkey options error:", error);
+      res.status(500).json({ message: "Failed to start passkey sign-in" });
+    }
+  });
+
+  app.post('/api/login/passkey', async (req, res) => {
+    const challenge = req.session.webauthnChallenge;
+    delete req.session.webauthnChallenge;
+    try {
+      const userId = await completeAuthentication(challenge, req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "This passkey is not registered" });
+      }
+      delete req.session.mfaChallenge;
+      res.json(await signIn(req, user));
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Passkey login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
   app.post('/api/register', async (req, res) => {
     try {
       const { name, username, email, password } = credentialRegisterSchema.parse(req.body);
+      limitRegistration(req.ip ?? null);
       
       // Check if user already exists
       const existingUser = await storage.getUserByUsernameOrEmail(username);
@@ -159,17 +302,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         gmailTokenExpiry: null
       });
 
-      // Set up session
-      req.session.user = {
-        claims: {
-          sub: newUser.id,
-          email: newUser.email,
-          first_name: newUser.firstName,
-          last_name: newUser.lastName,
-          profile_image_url: newUser.profileImageUrl
-        }
-      };
-
       // Create default workspace
       try {
         const defaultWorkspace = await storage.createWorkspace({
@@ -194,10 +326,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Continue without workspace - user can create one later
       }
 
-      // Return user data (without password)
-      const { password: _, ...userWithoutPassword } = newUser;
-      res.json(userWithoutPassword);
+      sendVerificationEmailQuietly(newUser);
+      res.json(await signIn(req, newUser));
     } catch (error) {
+      if (error instanceof AccountError) {
+        return sendAccountError(res, error, "message");
+      }
       console.error("Registration error:", error);
       if (error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid input data" });
@@ -206,6 +340,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Password reset and email verification links. Body: { email } / { token, password } / { token }
+  app.post('/api/password/forgot', async (req, res) => {
+    try {
+      await requestPasswordReset(req.body, req.ip ?? null);
+      res.json({ message: "If an account uses that address, we sent it a link to reset the password." });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return sendAccountError(res, error, "message");
+      }
+      console.error("Password reset request error:", error);
+      res.status(500).json({ message: "Failed to send the reset email" });
+    }
+  });
+
+  app.post('/api/password/reset', async (req, res) => {
+    try {
+      await resetPassword(req.body);
+      res.json({ message: "Your password was changed. Sign in with the new one." });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return sendAccountError(res, error, "message");
+      }
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Failed to reset the password" });
+    }
+  });
+
+  app.post('/api/verify-email', async (req, res) => {
+    try {
+      const user = await verifyEmail(req.body);
+      res.json({ message: `${user.email} is confirmed.` });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return sendAccountError(res, error, "message");
+      }
+      console.error("Email verification error:", error);
+      res.status(500).json({ message: "Failed to confirm the email address" });
+    }
+  });
+
   app.post('/api/logout', (req, res) => {
     req.session.destroy((err) => {
       if (err) {
@@ -216,6 +390,187 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Email verification and signed-in sessions
+  const handleAccountError = (res: any, error: any, fallback: string) => {
+    if (error instanceof AccountError) {
+      return sendAccountError(res, error, "error");
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.post("/api/auth/verify-email/resend", isAuthenticated, async (req: any, res) => {
+    try {
+      await resendVerificationEmail(req.user.claims.sub);
+      res.status(204).end();
+    } catch (error) {
+      handleAccountError(res, error, "Failed to send the verification email");
+    }
+  });
+
+  app.get("/api/auth/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await listSessions(req.user.claims.sub, req.sessionID));
+    } catch (error) {
+      handleAccountError(res, error, "Failed to fetch sessions");
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      await revokeSession(req.user.claims.sub, req.params.id, req.sessionID);
+      res.status(204).end();
+    } catch (error) {
+      handleAccountError(res, error, "Failed to sign out the session");
+    }
+  });
+
+  // Signs out everywhere but here
+  app.delete("/api/auth/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json({ revoked: await revokeOtherSessions(req.user.claims.sub, req.sessionID) });
+    } catch (error) {
+      handleAccountError(res, error, "Failed to sign out other sessions");
+    }
+  });
+
+  // For WebSocket clients that cannot send the session cookie: connect within a minute
+  // with ?ticket=
+  app.post("/api/ws/ticket", isAuthenticated, async (req: any, res) => {
+    res.json(issueSocketTicket(req.user.claims.sub, req.sessionID));
+  });
+
+  // Multi-factor authentication
+  const handleMFAError = (res: any, error: any, fallback: string) => {
+    if (error instanceof MFAError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/auth/mfa/status", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getMFAStatus(req.user.claims.sub));
+    } catch (error) {
+      handleMFAError(res, error, "Failed to fetch MFA status");
+    }
+  });
+
+  // Returns the new key and its otpauth:// URI; nothing is enforced until /enable
+  app.post("/api/auth/mfa/setup", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await startEnrollment(req.user.claims.sub));
+    } catch (error) {
+      handleMFAError(res, error, "Failed to set up MFA");
+    }
+  });
+
+  // Body: { code }. Responds with the status and the backup codes, shown only this once
+  app.post("/api/auth/mfa/enable", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = await confirmEnrollment(req.user.claims.sub, req.body);
+      delete req.session.user?.mfaEnrollmentRequired;
+      res.json(result);
+    } catch (error) {
+      handleMFAError(res, error, "Failed to enable MFA");
+    }
+  });
+
+  // Body: { code }
+  app.post("/api/auth/mfa/disable", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await disableMFA(req.user.claims.sub, req.body));
+    } catch (error) {
+      handleMFAError(res, error, "Failed to disable MFA");
+    }
+  });
+
+  // Body: { code }. Replaces every unused backup code
+  app.post("/api/auth/mfa/backup-codes", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await regenerateBackupCodes(req.user.claims.sub, req.body));
+    } catch (error) {
+      handleMFAError(res, error, "Failed to generate backup codes");
+    }
+  });
+
+  // Passkeys
+  const handlePasskeyError = (res: any, error: any, fallback: string) => {
+    if (error instanceof WebAuthnError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/auth/passkeys", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await listPasskeys(req.user.claims.sub));
+    } catch (error) {
+      handlePasskeyError(res, error, "Failed to fetch passkeys");
+    }
+  });
+
+  // Creation options for navigator.credentials.create(), binary fields base64url encoded
+  app.post("/api/auth/passkeys/options", isAuthenticated, async (req: any, res) => {
+    try {
+      const challenge = newChallenge('register', req.user.claims.sub);
+      req.session.webauthnChallenge = challenge;
+      res.json(await registrationOptions(req.user.claims.sub, challenge));
+    } catch (error) {
+      handlePasskeyError(res, error, "Failed to start passkey registration");
+    }
+  });
+
+  // Body: { name?, credential } - the browser's registration response
+  app.post("/api/auth/passkeys", isAuthenticated, async (req: any, res) => {
+    const challenge = req.session.webauthnChallenge;
+    delete req.session.webauthnChallenge;
+    try {
+      const passkey = await completeRegistration(req.user.claims.sub, challenge, req.body);
+      delete req.session.user?.mfaEnrollmentRequired;
+      res.status(201).json(passkey);
+    } catch (error) {
+      handlePasskeyError(res, error, "Failed to register passkey");
+    }
+  });
+
+  // Body: { name }
+  app.patch("/api/auth/passkeys/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await renamePasskey(req.user.claims.sub, parseInt(req.params.id), req.body));
+    } catch (error) {
+      handlePasskeyError(res, error, "Failed to rename passkey");
+    }
+  });
+
+  app.delete("/api/auth/passkeys/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      await deletePasskey(req.user.claims.sub, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      handlePasskeyError(res, error, "Failed to remove passkey");
+    }
+  });
+
+  app.get("/api/workspaces/:id/security", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getWorkspaceSecurity(parseInt(req.params.id), req.user.claims.sub));
+    } catch (error) {
+      handleMFAError(res, error, "Failed to fetch security settings");
+    }
+  });
+
+  // Body: { requireMfa }
+  app.put("/api/workspaces/:id/security", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await updateWorkspaceSecurity(parseInt(req.params.id), req.user.claims.sub, req.body, req.ip));
+    } catch (error) {
+      handleMFAError(res, error, "Failed to update security settings");
+    }
+  });
+
   // Workspace routes
   app.get("/api/workspaces", isAuthenticated, async (req: any, res) => {
     try {
@@ -274,6 +629,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const workspace = await storage.createWorkspace(validatedData);
       console.log("Successfully created workspace:", JSON.stringify(workspace, null, 2));
       
+      await recordAudit({
+        workspaceId: workspace.id,
+        userId,
+        action: 'workspace.created',
+        resourceType: 'workspace',
+        resourceId: workspace.id,
+        metadata: { name: workspace.name },
+        ipAddress: req.ip
+      });
+      
       res.json(workspace);
     } catch (error) {
       console.error("=== WORKSPACE CREATION ERROR ===");
@@ -329,7 +694,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const members = await storage.getWorkspaceMembers(workspaceId);
-      res.json(members);
+      res.json(await Promise.all(members.map(async member => ({
+        ...member,
+        user: toAuthor(member.userId, await storage.getUser(member.userId))
+      }))));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch members" });
     }
@@ -354,6 +722,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const invitation = await storage.createInvitation(invitationData);
+      
+      await recordAudit({
+        workspaceId,
+        userId,
+        action: 'member.invited',
+        resourceType: 'member',
+        resourceId: invitation.email,
+        metadata: { role: invitation.role },
+        ipAddress: req.ip
+      });
+      await notifyInvitation(invitation, userId);
+      
       res.json(invitation);
     } catch (error) {
       res.status(400).json({ error: "Invalid invitation data" });
@@ -363,7 +743,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/invitations/:token/accept", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const invitation = await storage.getInvitation(req.params.token);
       const success = await storage.acceptInvitation(req.params.token, userId);
+      
+      if (success && invitation) {
+        await recordAudit({
+          workspaceId: invitation.workspaceId,
+          userId,
+          action: 'member.joined',
+          resourceType: 'member',
+          resourceId: userId,
+          metadata: { role: invitation.role, invitedBy: invitation.invitedBy },
+          ipAddress: req.ip
+        });
+      }
+      
       res.json({ success });
     } catch (error) {
       res.status(500).json({ error: "Failed to accept invitation" });
@@ -409,7 +803,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
       
-      const pages = await storage.getPagesWithChildren(workspaceId);
+      // Pages the user cannot see are left out of the tree
+      const visible = await getVisiblePageIds(workspaceId, userId);
+      const pages = filterPageTree(await storage.getPagesWithChildren(workspaceId), visible);
       res.json(pages);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch pages" });
@@ -419,20 +815,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/pages/:id", isAuthenticated, async (req: any, res) => {
     try {
       const pageId = parseInt(req.params.id);
-      const page = await storage.getPage(pageId);
-      if (!page) {
-        return res.status(404).json({ error: "Page not found" });
-      }
-      
-      // Check workspace access
       const userId = req.user.claims.sub;
-      const role = await storage.getUserWorkspaceRole(page.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      trackPageView(page, userId);
       
       res.json(page);
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to fetch page" });
     }
   });
@@ -444,7 +835,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("User ID:", userId);
       console.log("Request body:", JSON.stringify(req.body, null, 2));
       
-      const pageData = insertPageSchema.parse({
+      const pageData = insertPageSchema.omit({ permissions: true }).parse({
         ...req.body,
         createdBy: userId,
         lastEditedBy: userId
@@ -452,26 +843,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Parsed page data:", JSON.stringify(pageData, null, 2));
       
-      // Check workspace access
-      const role = await storage.getUserWorkspaceRole(pageData.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
+      // Subpages need edit access on their parent
+      await requireCreateAccess(pageData.workspaceId, pageData.parentId, userId);
       
       const page = await storage.createPage(pageData);
       
       // Log activity
-      await storage.logActivity({
+      await recordAudit({
         workspaceId: pageData.workspaceId,
         userId,
-        action: 'created',
+        action: 'page.created',
         resourceType: 'page',
-        resourceId: page.id.toString(),
-        metadata: { title: page.title }
+        resourceId: page.id,
+        metadata: { title: page.title },
+        ipAddress: req.ip
       });
       
       res.json(page);
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("=== PAGE CREATION ERROR ===");
       console.error("Error object:", error);
       console.error("Error message:", error.message);
@@ -487,34 +879,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const pageId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
       
-      const existingPage = await storage.getPage(pageId);
-      if (!existingPage) {
-        return res.status(404).json({ error: "Page not found" });
-      }
-      
-      // Check workspace access
-      const role = await storage.getUserWorkspaceRole(existingPage.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
-      const pageData = updatePageSchema.parse({
-        ...req.body,
-        lastEditedBy: userId
-      });
+      const pageData = { ...editPageSchema.parse(req.body), lastEditedBy: userId };
+      const { page: existingPage } = await requirePageEditAccess(pageId, userId, pageData);
       
       const page = await storage.updatePage(pageId, pageData);
+      trackPageEdit(pageId, userId);
+      
+      // Archiving here is the same action as over the socket, and is audited the same way
+      if (pageData.isArchived !== undefined && pageData.isArchived !== !!existingPage.isArchived) {
+        await recordAudit({
+          workspaceId: existingPage.workspaceId,
+          userId,
+          action: pageData.isArchived ? 'page.archived' : 'page.restored',
+          resourceType: 'page',
+          resourceId: pageId,
+          metadata: { title: page?.title ?? existingPage.title },
+          ipAddress: req.ip
+        });
+      }
       
-      // Broadcast page update to workspace members
-      broadcastToWorkspace(existingPage.workspaceId, {
-        type: 'page_updated',
-        pageId,
-        updates: pageData,
-        userId
-      });
+      // Broadcast page update to workspace members who can see it
+      broadcastPageEvent(existingPage, 'page_updated', { page: page!, userId });
       
       res.json(page);
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(400).json({ error: "Invalid page data" });
     }
   });
@@ -524,15 +915,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const pageId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
       
-      const page = await storage.getPage(pageId);
-      if (!page) {
-        return res.status(404).json({ error: "Page not found" });
-      }
-      
-      const role = await storage.getUserWorkspaceRole(page.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
+      const { page } = await requirePageAccess(pageId, userId, "full");
       
       const success = await storage.deletePage(pageId);
       if (!success) {
@@ -540,101 +923,780 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Log activity
-      await storage.logActivity({
+      await recordAudit({
         workspaceId: page.workspaceId,
         userId,
-        action: 'deleted',
+        action: 'page.deleted',
         resourceType: 'page',
-        resourceId: pageId.toString(),
-        metadata: { title: page.title }
+        resourceId: pageId,
+        metadata: { title: page.title },
+        ipAddress: req.ip
       });
       
       res.json({ success: true });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to delete page" });
     }
   });
 
-  // Block routes
-  app.get("/api/pages/:pageId/blocks", isAuthenticated, async (req: any, res) => {
+  // Page permissions
+  app.get("/api/pages/:id/permissions", isAuthenticated, async (req: any, res) => {
     try {
-      const pageId = parseInt(req.params.pageId);
+      const pageId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
+      const { page } = await requirePageAccess(pageId, userId, "view");
       
-      const page = await storage.getPage(pageId);
-      if (!page) {
-        return res.status(404).json({ error: "Page not found" });
-      }
-      
-      const role = await storage.getUserWorkspaceRole(page.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
-      const blocks = await storage.getBlocksByPageId(pageId);
-      res.json(blocks);
+      res.json(await getPageAccessInfo(page, userId));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch blocks" });
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching page permissions:", error);
+      res.status(500).json({ error: "Failed to fetch permissions" });
     }
   });
 
-  app.post("/api/blocks", isAuthenticated, async (req: any, res) => {
+  app.put("/api/pages/:id/permissions", isAuthenticated, async (req: any, res) => {
     try {
+      const pageId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      console.log("=== BLOCK CREATION DEBUG ===");
-      console.log("User ID:", userId);
-      console.log("Request body:", JSON.stringify(req.body, null, 2));
-      
-      const blockData = insertBlockSchema.parse({
-        ...req.body,
-        createdBy: userId,
-        lastEditedBy: userId
-      });
-      
-      console.log("Parsed block data:", JSON.stringify(blockData, null, 2));
-      
-      // Check page access
-      const page = await storage.getPage(blockData.pageId);
-      if (!page) {
-        return res.status(404).json({ error: "Page not found" });
-      }
+      const { page } = await requirePageAccess(pageId, userId, "full");
       
-      const role = await storage.getUserWorkspaceRole(page.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
+      const access = await setPagePermissions(page, userId, req.body);
       
-      const block = await storage.createBlock(blockData);
+      await recordAudit({
+        workspaceId: page.workspaceId,
+        userId,
+        action: 'page.permissions_changed',
+        resourceType: 'page',
+        resourceId: pageId,
+        metadata: { title: page.title, entries: access.entries },
+        ipAddress: req.ip
+      });
       
-      // Broadcast block creation
-      broadcastToWorkspace(page.workspaceId, {
-        type: 'block_created',
-        block,
+      // Sidebars refetch their tree, since pages may have appeared or disappeared
+      broadcastToWorkspace(page.workspaceId, 'page_permissions_changed', {
+        pageId,
         userId
       });
       
-      res.json(block);
+      res.json(access);
     } catch (error) {
-      console.error("=== BLOCK CREATION ERROR ===");
-      console.error("Error object:", error);
-      console.error("Error message:", error.message);
-      if (error.errors) {
-        console.error("Validation errors:", error.errors);
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
       }
-      res.status(400).json({ error: "Invalid block data", details: error.message });
+      console.error("Error updating page permissions:", error);
+      res.status(500).json({ error: "Failed to update permissions" });
     }
   });
 
-  app.patch("/api/blocks/:id", isAuthenticated, async (req: any, res) => {
+  // Share links
+  const handleShareError = (res: any, error: any, fallback: string) => {
+    if (error instanceof PermissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ShareError) {
+      if (error.retryAfterMs) {
+        res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+      }
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/pages/:id/share", isAuthenticated, async (req: any, res) => {
     try {
-      const blockId = parseInt(req.params.id);
+      const pageId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
+      await requirePageAccess(pageId, userId, "full");
+      
+      res.json(await getShareSettings(pageId));
+    } catch (error) {
+      handleShareError(res, error, "Failed to fetch share settings");
+    }
+  });
+
+  app.post("/api/pages/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const { page } = await requirePageAccess(pageId, userId, "full");
+      if (page.isDeleted) {
+        return res.status(404).json({ error: "Page not found" });
+      }
+      
+      const share = await createShare(page, userId, req.body);
+      
+      await recordAudit({
+        workspaceId: page.workspaceId,
+        userId,
+        action: 'page.shared',
+        resourceType: 'page',
+        resourceId: pageId,
+        metadata: { title: page.title, shareType: share.shareType, hasPassword: share.hasPassword, expiresAt: share.expiresAt },
+        ipAddress: req.ip
+      });
+      
+      res.status(201).json(share);
+    } catch (error) {
+      handleShareError(res, error, "Failed to create share link");
+    }
+  });
+
+  app.patch("/api/pages/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const { page } = await requirePageAccess(pageId, userId, "full");
+      const share = await updateShare(pageId, req.body);
+      
+      await recordAudit({
+        workspaceId: page.workspaceId,
+        userId,
+        action: 'page.share_updated',
+        resourceType: 'page',
+        resourceId: pageId,
+        metadata: { title: page.title, fields: Object.keys(req.body ?? {}), shareType: share.shareType, hasPassword: share.hasPassword, expiresAt: share.expiresAt },
+        ipAddress: req.ip
+      });
+      
+      res.json(share);
+    } catch (error) {
+      handleShareError(res, error, "Failed to update share link");
+    }
+  });
+
+  app.delete("/api/pages/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const { page } = await requirePageAccess(pageId, userId, "full");
+      
+      await revokeShare(pageId);
+      
+      await recordAudit({
+        workspaceId: page.workspaceId,
+        userId,
+        action: 'page.unshared',
+        resourceType: 'page',
+        resourceId: pageId,
+        metadata: { title: page.title },
+        ipAddress: req.ip
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      handleShareError(res, error, "Failed to revoke share link");
+    }
+  });
+
+  // Public, read-only view of a shared page tree. Signing in is optional here; it is
+  // only needed for workspace and private links. Passwords travel in a header so they
+  // stay out of URLs and logs.
+  const shareViewer = (req: any) => ({
+    password: typeof req.headers["x-share-password"] === "string" ? req.headers["x-share-password"] : undefined,
+    viewerId: (req.session?.user ?? req.user)?.claims?.sub as string | undefined,
+    ipAddress: req.ip ?? null,
+  });
+
+  app.get("/api/shared/:token", async (req: any, res) => {
+    try {
+      const pageId = typeof req.query.pageId === "string" ? parseInt(req.query.pageId) : undefined;
+      if (pageId !== undefined && Number.isNaN(pageId)) {
+        return res.status(400).json({ error: "Invalid page id" });
+      }
+      
+      res.setHeader("Cache-Control", "no-store");
+      res.json(await viewSharedPage(req.params.token, { ...shareViewer(req), pageId }));
+    } catch (error) {
+      handleShareError(res, error, "Failed to open shared page");
+    }
+  });
+
+  app.get("/api/shared/:token/export", async (req: any, res) => {
+    try {
+      const file = await exportSharedPage(req.params.token, shareViewer(req));
+      const asciiName = file.filename.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+      
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`);
+      res.send(file.data);
+    } catch (error) {
+      handleShareError(res, error, "Failed to export shared page");
+    }
+  });
+
+  // Groups
+  const groupSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().max(500).nullable().optional(),
+    memberIds: z.array(z.string()).optional(),
+  });
+
+  const handleGroupError = (res: any, error: any, fallback: string) => {
+    if (error instanceof PermissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid group data", details: error.errors });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/workspaces/:id/groups", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      res.json(await listGroups(workspaceId));
+    } catch (error) {
+      handleGroupError(res, error, "Failed to fetch groups");
+    }
+  });
+
+  app.post("/api/workspaces/:id/groups", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const group = await createGroup(workspaceId, userId, groupSchema.parse(req.body));
+      
+      await recordAudit({
+        workspaceId,
+        userId,
+        action: 'group.created',
+        resourceType: 'group',
+        resourceId: group.id,
+        metadata: { name: group.name, members: group.memberIds.length },
+        ipAddress: req.ip
+      });
+      
+      res.status(201).json(group);
+    } catch (error) {
+      handleGroupError(res, error, "Failed to create group");
+    }
+  });
+
+  app.patch("/api/groups/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = groupSchema.partial().parse(req.body);
+      const group = await updateGroup(parseInt(req.params.id), userId, updates);
+      
+      await recordAudit({
+        workspaceId: group.workspaceId,
+        userId,
+        action: 'group.updated',
+        resourceType: 'group',
+        resourceId: group.id,
+        metadata: { name: group.name, fields: Object.keys(updates) },
+        ipAddress: req.ip
+      });
+      
+      res.json(group);
+    } catch (error) {
+      handleGroupError(res, error, "Failed to update group");
+    }
+  });
+
+  app.delete("/api/groups/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await deleteGroup(parseInt(req.params.id), userId);
+      
+      await recordAudit({
+        workspaceId: group.workspaceId,
+        userId,
+        action: 'group.deleted',
+        resourceType: 'group',
+        resourceId: group.id,
+        metadata: { name: group.name },
+        ipAddress: req.ip
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      handleGroupError(res, error, "Failed to delete group");
+    }
+  });
+
+  // Page history
+  app.get("/api/pages/:id/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      
+      // The list leaves out block payloads; fetch a single revision for those
+      const revisions = await storage.getPageRevisions(pageId);
+      res.json(revisions.map(({ blocks, ...revision }) => ({
+        ...revision,
+        blockCount: JSON.parse(blocks).length
+      })));
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+  });
+
+  app.get("/api/pages/:id/revisions/:revisionId", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      
+      const revision = await storage.getPageRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.pageId !== pageId) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      res.json({ ...revision, blocks: JSON.parse(revision.blocks) });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch revision" });
+    }
+  });
+
+  app.get("/api/pages/:id/revisions/:revisionId/diff", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const { against = "current" } = req.query;
+      
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      
+      const revision = await storage.getPageRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.pageId !== pageId) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      let other = null;
+      if (against !== "current") {
+        other = await storage.getPageRevision(parseInt(against as string));
+        if (!other || other.pageId !== pageId) {
+          return res.status(404).json({ error: "Revision not found" });
+        }
+      } else {
+        // Make sure edits still buffered in the live editor are part of "current"
+        await blockSync.flushPage(pageId);
+      }
+      
+      const diff = await diffRevisions(revision, other);
+      res.json(diff);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof RevisionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to diff revisions" });
+    }
+  });
+
+  app.post("/api/pages/:id/revisions/:revisionId/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const { page } = await requirePageAccess(pageId, userId, "edit");
+      
+      const revision = await storage.getPageRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.pageId !== pageId) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      const restored = await restorePageRevision(revision, userId);
+      const updatedPage = await storage.getPage(pageId);
+      syncPageMentions(pageId, userId).catch((error) => {
+        console.error("Error syncing page mentions:", error);
+      });
+      
+      await recordAudit({
+        workspaceId: page.workspaceId,
+        userId,
+        action: 'page.revision_restored',
+        resourceType: 'page',
+        resourceId: pageId,
+        metadata: { title: updatedPage?.title, revisionId: revision.id },
+        ipAddress: req.ip
+      });
+      
+      broadcastPageEvent(page, 'page_restored_revision', {
+        pageId,
+        revisionId: restored.id,
+        userId
+      });
+      
+      res.json({ page: updatedPage, revision: { ...restored, blocks: JSON.parse(restored.blocks) } });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof RevisionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error restoring revision:", error);
+      res.status(500).json({ error: "Failed to restore revision" });
+    }
+  });
+
+  // Markdown import and export
+  app.post("/api/workspaces/:workspaceId/import/markdown", isAuthenticated, express.raw({ type: () => true, limit: "25mb" }), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Send the file as the request body" });
+      }
+      
+      const parentId = req.query.parentId ? parseInt(req.query.parentId as string) : null;
+      await requireCreateAccess(workspaceId, parentId, userId);
+      
+      const result = await importMarkdown({
+        workspaceId,
+        parentId,
+        userId,
+        filename: typeof req.query.filename === "string" ? req.query.filename : "Untitled.md",
+        data: req.body,
+      });
+      result.pages.forEach(page => trackPageEdit(page.id, userId));
+      
+      await recordAudit({
+        workspaceId,
+        userId,
+        action: 'page.imported',
+        resourceType: 'page',
+        resourceId: result.pages[0].id,
+        metadata: { filename: req.query.filename, pages: result.pages.length },
+        ipAddress: req.ip
+      });
+      
+      broadcastToWorkspace(workspaceId, 'pages_imported', {
+        pages: result.pages,
+        userId
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof MarkdownError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error importing Markdown:", error);
+      res.status(500).json({ error: "Failed to import Markdown" });
+    }
+  });
+
+  app.get("/api/pages/:id/export/markdown", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      if (page.isDeleted) {
+        return res.status(404).json({ error: "Page not found" });
+      }
+      
+      // Unsaved collaborative edits would otherwise be missing from the file
+      await blockSync.flushPage(pageId);
+      const recursive = req.query.recursive === "true";
+      const visible = recursive ? await getVisiblePageIds(page.workspaceId, userId) : undefined;
+      const file = await exportPage(page, recursive, visible);
+      const asciiName = file.filename.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+      
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`);
+      res.send(file.data);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error exporting Markdown:", error);
+      res.status(500).json({ error: "Failed to export page" });
+    }
+  });
+
+  // Mention autocomplete
+  app.get("/api/workspaces/:workspaceId/mentions/suggest", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const query = typeof req.query.q === "string" ? req.query.q : "";
+      res.json(await suggestMentions(workspaceId, query, await getVisiblePageIds(workspaceId, userId)));
+    } catch (error) {
+      console.error("Error suggesting mentions:", error);
+      res.status(500).json({ error: "Failed to fetch suggestions" });
+    }
+  });
+
+  // Backlinks and link graph
+  app.get("/api/pages/:id/backlinks", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      
+      const visible = await getVisiblePageIds(page.workspaceId, userId);
+      res.json((await getBacklinks(pageId)).filter(backlink => visible.has(backlink.pageId)));
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching backlinks:", error);
+      res.status(500).json({ error: "Failed to fetch backlinks" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/graph", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      res.json(await getLinkGraph(workspaceId, await getVisiblePageIds(workspaceId, userId)));
+    } catch (error) {
+      console.error("Error fetching link graph:", error);
+      res.status(500).json({ error: "Failed to fetch link graph" });
+    }
+  });
+
+  // Comment routes
+  const handleCommentError = (res: any, error: any, fallback: string) => {
+    if (error instanceof CommentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/pages/:id/comments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { page } = await getPageForComments(parseInt(req.params.id), userId);
+      
+      const threads = await getPageThreads(page.id, {
+        includeResolved: req.query.includeResolved === "true",
+        blockId: req.query.blockId ? parseInt(req.query.blockId as string) : undefined,
+      });
+      res.json(threads);
+    } catch (error) {
+      handleCommentError(res, error, "Failed to fetch comments");
+    }
+  });
+
+  app.post("/api/pages/:id/comments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { page } = await getPageForComments(parseInt(req.params.id), userId, "comment");
+      
+      const { comment, thread } = await addComment(page, userId, req.body);
+      
+      await recordAudit({
+        workspaceId: page.workspaceId,
+        userId,
+        action: 'comment.created',
+        resourceType: 'comment',
+        resourceId: comment.id,
+        metadata: { pageId: page.id, title: page.title, blockId: comment.blockId },
+        ipAddress: req.ip
+      });
+      
+      broadcastToPageRoom(page.id, 'comment_added', {
+        pageId: page.id,
+        comment,
+        thread,
+        userId
+      });
+      
+      res.status(201).json(thread);
+    } catch (error) {
+      handleCommentError(res, error, "Failed to add comment");
+    }
+  });
+
+  app.patch("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getCommentForUser(parseInt(req.params.id), userId);
+      const thread = await editComment(access, userId, req.body);
+      
+      broadcastToPageRoom(access.page.id, 'comment_updated', {
+        pageId: access.page.id,
+        thread,
+        userId
+      });
+      
+      res.json(thread);
+    } catch (error) {
+      handleCommentError(res, error, "Failed to update comment");
+    }
+  });
+
+  app.delete("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getCommentForUser(parseInt(req.params.id), userId);
+      await removeComment(access, userId);
+      
+      await recordAudit({
+        workspaceId: access.page.workspaceId,
+        userId,
+        action: 'comment.deleted',
+        resourceType: 'comment',
+        resourceId: access.comment.id,
+        metadata: { pageId: access.page.id, title: access.page.title, authorId: access.comment.authorId },
+        ipAddress: req.ip
+      });
+      
+      broadcastToPageRoom(access.page.id, 'comment_deleted', {
+        pageId: access.page.id,
+        commentId: access.comment.id,
+        threadId: access.comment.parentId ?? access.comment.id,
+        userId
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      handleCommentError(res, error, "Failed to delete comment");
+    }
+  });
+
+  app.post("/api/comments/:id/resolve", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getCommentForUser(parseInt(req.params.id), userId);
+      const thread = await setThreadResolved(access, userId, true);
+      
+      broadcastToPageRoom(access.page.id, 'comment_resolved', {
+        pageId: access.page.id,
+        thread,
+        userId
+      });
+      
+      res.json(thread);
+    } catch (error) {
+      handleCommentError(res, error, "Failed to resolve comment");
+    }
+  });
+
+  app.post("/api/comments/:id/reopen", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getCommentForUser(parseInt(req.params.id), userId);
+      const thread = await setThreadResolved(access, userId, false);
+      
+      broadcastToPageRoom(access.page.id, 'comment_reopened', {
+        pageId: access.page.id,
+        thread,
+        userId
+      });
+      
+      res.json(thread);
+    } catch (error) {
+      handleCommentError(res, error, "Failed to reopen comment");
+    }
+  });
+
+  // Block routes
+  app.get("/api/pages/:pageId/blocks", isAuthenticated, async (req: any, res) => {
+    try {
+      const pageId = parseInt(req.params.pageId);
+      const userId = req.user.claims.sub;
+      
+      const { page } = await requirePageAccess(pageId, userId, "view");
+      
+      const blocks = await storage.getBlocksByPageId(pageId);
+      res.json(blocks);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch blocks" });
+    }
+  });
+
+  app.post("/api/blocks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      console.log("=== BLOCK CREATION DEBUG ===");
+      console.log("User ID:", userId);
+      console.log("Request body:", JSON.stringify(req.body, null, 2));
+      
+      const blockData = insertBlockSchema.parse({
+        ...req.body,
+        createdBy: userId,
+        lastEditedBy: userId
+      });
+      
+      console.log("Parsed block data:", JSON.stringify(blockData, null, 2));
+      
+      // Check page access
+      const { page } = await requirePageAccess(blockData.pageId, userId, "edit");
+      
+      const block = await storage.createBlock(blockData);
+      trackPageEdit(block.pageId, userId);
+      
+      // Broadcast block creation
+      broadcastPageEvent(page, 'block_created', {
+        block,
+        userId
+      });
+      
+      res.json(block);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("=== BLOCK CREATION ERROR ===");
+      console.error("Error object:", error);
+      console.error("Error message:", error.message);
+      if (error.errors) {
+        console.error("Validation errors:", error.errors);
+      }
+      res.status(400).json({ error: "Invalid block data", details: error.message });
+    }
+  });
+
+  app.patch("/api/blocks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const blockId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      console.log("=== BLOCK UPDATE DEBUG ===");
+      console.log("Block ID:", blockId);
+      console.log("User ID:", userId);
+      console.log("Request body:", JSON.stringify(req.body, null, 2));
       
-      console.log("=== BLOCK UPDATE DEBUG ===");
-      console.log("Block ID:", blockId);
-      console.log("User ID:", userId);
-      console.log("Request body:", JSON.stringify(req.body, null, 2));
-      
       // Get block directly from storage
       const block = await storage.getBlockById(blockId);
       if (!block) {
@@ -642,67 +1704,859 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Block not found" });
       }
       
-      console.log("Found block:", JSON.stringify(block, null, 2));
+      console.log("Found block:", JSON.stringify(block, null, 2));
+      
+      const { page } = await requirePageAccess(block.pageId, userId, "edit");
+      
+      const blockData = updateBlockSchema.parse({
+        ...req.body,
+        lastEditedBy: userId
+      });
+      
+      console.log("Update data:", JSON.stringify(blockData, null, 2));
+      if (blockData.pageId && blockData.pageId !== block.pageId) {
+        await requirePageAccess(blockData.pageId, userId, "edit");
+      }
+      
+      const updatedBlock = await storage.updateBlock(blockId, blockData);
+      // Whole-content writes replace the live document; editors rebase on their next edit
+      blockSync.evict(blockId);
+      trackPageEdit(block.pageId, userId);
+      
+      // Broadcast block update
+      broadcastPageEvent(page, 'block_updated', { block: updatedBlock!, userId });
+      
+      res.json(updatedBlock);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("=== BLOCK UPDATE ERROR ===");
+      console.error("Error object:", error);
+      console.error("Error message:", error.message);
+      if (error.errors) {
+        console.error("Validation errors:", error.errors);
+      }
+      res.status(400).json({ error: "Invalid block data", details: error.message });
+    }
+  });
+
+  app.delete("/api/blocks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const blockId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const block = await storage.getBlockById(blockId);
+      if (!block) {
+        return res.status(404).json({ error: "Block not found" });
+      }
+      
+      const { page } = await requirePageAccess(block.pageId, userId, "edit");
+      
+      await deleteBlock(block, page.workspaceId);
+      blockSync.evict(blockId);
+      trackPageEdit(block.pageId, userId);
+      
+      broadcastPageEvent(page, 'block_deleted', {
+        blockId,
+        pageId: block.pageId,
+        userId
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting block:", error);
+      res.status(500).json({ error: "Failed to delete block" });
+    }
+  });
+
+  // Database routes
+  const handleDatabaseError = (res: any, error: any, fallback: string) => {
+    if (error instanceof DatabaseError || error instanceof PermissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid database data", details: error.errors });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/workspaces/:workspaceId/databases", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const visible = await getVisiblePageIds(workspaceId, userId);
+      const workspaceDatabases = (await storage.getWorkspaceDatabases(workspaceId)).filter(database => visible.has(database.pageId));
+      res.json(workspaceDatabases.map(database => ({ ...database, properties: getProperties(database) })));
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to fetch databases");
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/databases", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const data = z.object({
+        title: z.string().default("Untitled"),
+        isInline: z.boolean().default(false),
+        pageId: z.number().int().nullable().optional(),
+        position: z.number().int().optional(),
+        properties: z.array(z.any()).optional(),
+      }).parse(req.body);
+      
+      // Inline databases need edit access on their host page, full-page ones on their parent
+      await requireCreateAccess(workspaceId, data.pageId, userId);
+      const database = await createDatabase({ ...data, workspaceId, userId });
+      
+      await recordAudit({
+        workspaceId,
+        userId,
+        action: 'database.created',
+        resourceType: 'database',
+        resourceId: database.id,
+        metadata: { title: database.title, isInline: database.isInline },
+        ipAddress: req.ip
+      });
+      
+      broadcastToWorkspace(workspaceId, 'database_created', {
+        database,
+        userId
+      });
+      
+      res.json(database);
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to create database");
+    }
+  });
+
+  app.get("/api/databases/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const database = await getDatabaseForUser(parseInt(req.params.id), req.user.claims.sub);
+      res.json(await getDatabaseWithViews(database));
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to fetch database");
+    }
+  });
+
+  app.patch("/api/databases/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      let database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const data = z.object({
+        title: z.string().optional(),
+        properties: z.array(z.any()).optional(),
+      }).parse(req.body);
+      
+      if (data.properties) {
+        database = await updateSchema(database, data.properties);
+      }
+      if (data.title !== undefined) {
+        database = (await storage.updateDatabase(database.id, { title: data.title }))!;
+        if (!database.isInline) {
+          await storage.updatePage(database.pageId, { title: data.title, lastEditedBy: userId });
+        }
+      }
+      
+      const result = await getDatabaseWithViews(database);
+      broadcastToWorkspace(database.workspaceId, 'database_updated', {
+        database: result,
+        userId
+      });
+      
+      res.json(result);
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to update database");
+    }
+  });
+
+  app.delete("/api/databases/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "full");
+      
+      await deleteDatabase(database);
+      
+      await recordAudit({
+        workspaceId: database.workspaceId,
+        userId,
+        action: 'database.deleted',
+        resourceType: 'database',
+        resourceId: database.id,
+        metadata: { title: database.title },
+        ipAddress: req.ip
+      });
+      
+      broadcastToWorkspace(database.workspaceId, 'database_deleted', {
+        databaseId: database.id,
+        userId
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to delete database");
+    }
+  });
+
+  app.post("/api/databases/:id/query", isAuthenticated, async (req: any, res) => {
+    try {
+      const database = await getDatabaseForUser(parseInt(req.params.id), req.user.claims.sub);
+      const query = databaseQuerySchema.parse(req.body ?? {});
+      res.json(await queryDatabase(database, query));
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to query database");
+    }
+  });
+
+  app.post("/api/databases/:id/rows", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const data = z.object({
+        values: z.record(z.any()).optional(),
+        icon: z.string().nullable().optional(),
+      }).parse(req.body);
+      
+      const row = await createRow(database, data, userId);
+      const rowPage = await storage.getPage(row.id);
+      
+      broadcastPageEvent(rowPage!, 'database_row_created', {
+        databaseId: database.id,
+        row,
+        userId
+      });
+      
+      res.json(row);
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to create row");
+    }
+  });
+
+  app.patch("/api/databases/:id/rows/:rowId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const page = await storage.getPage(parseInt(req.params.rowId));
+      if (!page || page.databaseId !== database.id) {
+        return res.status(404).json({ error: "Row not found" });
+      }
+      // Rows can carry their own permissions on top of the database's
+      await requirePageAccess(page.id, userId, "edit");
+      
+      const data = z.object({
+        values: z.record(z.any()).optional(),
+        icon: z.string().nullable().optional(),
+      }).parse(req.body);
+      
+      const row = await updateRow(database, page, data, userId);
+      trackPageEdit(page.id, userId);
+      
+      broadcastPageEvent(page, 'database_row_updated', {
+        databaseId: database.id,
+        row,
+        userId
+      });
+      
+      res.json(row);
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to update row");
+    }
+  });
+
+  app.delete("/api/databases/:id/rows/:rowId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const page = await storage.getPage(parseInt(req.params.rowId));
+      if (!page || page.databaseId !== database.id) {
+        return res.status(404).json({ error: "Row not found" });
+      }
+      // Rows can carry their own permissions on top of the database's
+      await requirePageAccess(page.id, userId, "edit");
+      
+      await storage.deletePage(page.id);
+      
+      broadcastPageEvent(page, 'database_row_deleted', {
+        databaseId: database.id,
+        rowId: page.id,
+        userId
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to delete row");
+    }
+  });
+
+  app.post("/api/databases/:id/views", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const settings = updateDatabaseViewSchema.extend({ name: z.string().min(1) }).parse(req.body);
+      const view = await createView(database, settings, userId);
+      
+      broadcastToWorkspace(database.workspaceId, 'database_view_created', {
+        databaseId: database.id,
+        view,
+        userId
+      });
+      
+      res.json(view);
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to create view");
+    }
+  });
+
+  app.patch("/api/databases/:id/views/:viewId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const existingView = await storage.getDatabaseView(parseInt(req.params.viewId));
+      if (!existingView || existingView.databaseId !== database.id) {
+        return res.status(404).json({ error: "View not found" });
+      }
+      
+      const settings = updateDatabaseViewSchema.parse(req.body);
+      const view = await updateView(database, existingView, settings);
+      
+      broadcastToWorkspace(database.workspaceId, 'database_view_updated', {
+        databaseId: database.id,
+        view,
+        userId
+      });
+      
+      res.json(view);
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to update view");
+    }
+  });
+
+  app.delete("/api/databases/:id/views/:viewId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const database = await getDatabaseForUser(parseInt(req.params.id), userId, "edit");
+      
+      const view = await storage.getDatabaseView(parseInt(req.params.viewId));
+      if (!view || view.databaseId !== database.id) {
+        return res.status(404).json({ error: "View not found" });
+      }
+      
+      const views = await storage.getDatabaseViews(database.id);
+      if (views.length <= 1) {
+        return res.status(400).json({ error: "A database needs at least one view" });
+      }
+      
+      await storage.deleteDatabaseView(view.id);
+      
+      broadcastToWorkspace(database.workspaceId, 'database_view_deleted', {
+        databaseId: database.id,
+        viewId: view.id,
+        userId
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      handleDatabaseError(res, error, "Failed to delete view");
+    }
+  });
+
+  // Search routes
+  const searchTimestamp = z.string().transform((value, ctx) => {
+    const timestamp = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+    if (isNaN(timestamp)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid date" });
+      return z.NEVER;
+    }
+    return timestamp;
+  });
+
+  const searchQuerySchema = z.object({
+    q: z.string().trim().min(1),
+    author: z.string().optional(),
+    from: searchTimestamp.optional(),
+    to: searchTimestamp.optional(),
+    parentId: z.coerce.number().int().optional(),
+    includeArchived: z.enum(["true", "false"]).optional().transform(value => value === "true"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+  app.get("/api/workspaces/:workspaceId/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      const parsed = searchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid search parameters", details: parsed.error.errors });
+      }
+      
+      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const { q: query, ...filters } = parsed.data;
+      const visiblePageIds = await getVisiblePageIds(workspaceId, userId);
+      res.json(searchWorkspace({ workspaceId, query, ...filters, visiblePageIds }));
+    } catch (error) {
+      console.error("Search failed:", error);
+      res.status(500).json({ error: "Search failed" });
+    }
+  });
+
+  // Calendar
+  const handleCalendarError = (res: any, error: any, fallback: string) => {
+    if (error instanceof CalendarError || error instanceof PermissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid event data", details: error.errors });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  // Occurrences in [from, to), with recurring events expanded. Defaults to this month.
+  app.get("/api/calendar/events", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.query.workspaceId);
+      const userId = req.user.claims.sub;
+      if (Number.isNaN(workspaceId)) {
+        return res.status(400).json({ error: "workspaceId is required" });
+      }
+      
+      const { from, to } = parseRange(req.query.from, req.query.to);
+      res.json(await listOccurrences(workspaceId, userId, from, to));
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to fetch events");
+    }
+  });
+
+  app.get("/api/calendar/events/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      res.json(await getEvent(eventId, userId));
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to fetch event");
+    }
+  });
+
+  app.post("/api/calendar/events", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const event = await createEvent(userId, req.body);
+      
+      await recordAudit({
+        workspaceId: event.workspaceId,
+        userId,
+        action: 'calendar_event.created',
+        resourceType: 'calendar_event',
+        resourceId: event.id,
+        metadata: { title: event.title, startDate: event.startDate },
+        ipAddress: req.ip
+      });
+      
+      broadcastToWorkspace(event.workspaceId, 'calendar_event_changed', { eventId: event.id, userId });
+      res.status(201).json(event);
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to create event");
+    }
+  });
+
+  app.patch("/api/calendar/events/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const event = await updateEvent(eventId, userId, req.body);
+      
+      await recordAudit({
+        workspaceId: event.workspaceId,
+        userId,
+        action: 'calendar_event.updated',
+        resourceType: 'calendar_event',
+        resourceId: event.id,
+        metadata: { title: event.title, fields: Object.keys(req.body ?? {}) },
+        ipAddress: req.ip
+      });
+      
+      broadcastToWorkspace(event.workspaceId, 'calendar_event_changed', { eventId, userId });
+      res.json(event);
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to update event");
+    }
+  });
+
+  // With ?occurrence=<start timestamp>, removes just that occurrence of a recurring event
+  app.delete("/api/calendar/events/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      if (req.query.occurrence !== undefined) {
+        const occurrenceStart = Number(req.query.occurrence);
+        if (!Number.isInteger(occurrenceStart)) {
+          return res.status(400).json({ error: "occurrence must be a timestamp" });
+        }
+        const event = await skipOccurrence(eventId, userId, occurrenceStart);
+        broadcastToWorkspace(event.workspaceId, 'calendar_event_changed', { eventId, userId });
+        return res.json(event);
+      }
+      
+      const event = await deleteEvent(eventId, userId);
+      
+      await recordAudit({
+        workspaceId: event.workspaceId,
+        userId,
+        action: 'calendar_event.deleted',
+        resourceType: 'calendar_event',
+        resourceId: event.id,
+        metadata: { title: event.title },
+        ipAddress: req.ip
+      });
+      
+      broadcastToWorkspace(event.workspaceId, 'calendar_event_changed', { eventId, userId });
+      res.json({ success: true });
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to delete event");
+    }
+  });
+
+  // Subscription URL for desktop calendar apps
+  app.get("/api/workspaces/:id/calendar/feed", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const token = await getFeedToken(workspaceId, userId);
+      res.json({ url: `${req.protocol}://${req.get("host")}/api/calendar/feeds/${token}.ics` });
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to create calendar feed");
+    }
+  });
+
+  // Public: the token in the URL is the credential
+  app.get("/api/calendar/feeds/:token.ics", async (req: any, res) => {
+    try {
+      const calendar = await buildWorkspaceFeed(req.params.token, req.hostname);
+      
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="calendar.ics"');
+      res.send(calendar);
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to build calendar feed");
+    }
+  });
+
+  // .ics import; events imported before (same UID) are updated rather than duplicated.
+  // ?timezone= is the zone used for floating times in the file.
+  app.post("/api/workspaces/:workspaceId/import/ics", isAuthenticated, express.raw({ type: () => true, limit: "10mb" }), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = req.user.claims.sub;
+      
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Send the file as the request body" });
+      }
+      
+      const result = await importICalendar({
+        workspaceId,
+        userId,
+        data: req.body,
+        timezone: typeof req.query.timezone === "string" ? req.query.timezone : undefined,
+      });
+      
+      if (result.created.length > 0 || result.updated.length > 0) {
+        await recordAudit({
+          workspaceId,
+          userId,
+          action: 'calendar.imported',
+          resourceType: 'calendar_event',
+          resourceId: (result.created[0] ?? result.updated[0]).id,
+          metadata: {
+            created: result.created.length,
+            updated: result.updated.length,
+            skipped: result.skipped.length
+          },
+          ipAddress: req.ip
+        });
+        broadcastToWorkspace(workspaceId, 'calendar_event_changed', { userId });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      handleCalendarError(res, error, "Failed to import calendar");
+    }
+  });
+
+  // Email
+  const handleEmailError = (res: any, error: any, fallback: string) => {
+    if (error instanceof EmailError || error instanceof EmailProviderError || error instanceof PermissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid email data", details: error.errors });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  const gmailRedirectUri = (req: any) => `${req.protocol}://${req.get("host")}/api/email/gmail/callback`;
+
+  app.get("/api/email/connection-status", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json((await getAccountStatus(userId)).connected);
+    } catch (error) {
+      handleEmailError(res, error, "Failed to fetch email status");
+    }
+  });
+
+  app.get("/api/email/account", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getAccountStatus(userId));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to fetch email account");
+    }
+  });
+
+  app.post("/api/email/connect-gmail", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = parseInt(req.body.workspaceId);
+      if (Number.isNaN(workspaceId)) {
+        return res.status(400).json({ error: "workspaceId is required" });
+      }
+      
+      res.json({ authUrl: await getGmailAuthUrl(userId, workspaceId, gmailRedirectUri(req)) });
+    } catch (error) {
+      handleEmailError(res, error, "Failed to start Gmail sign-in");
+    }
+  });
+
+  // Google redirects the browser here; the result is passed back to the app in the query
+  app.get("/api/email/gmail/callback", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (typeof req.query.code !== "string" || typeof req.query.state !== "string") {
+        return res.redirect(`/?email=error&reason=${encodeURIComponent(String(req.query.error ?? "cancelled"))}`);
+      }
+      
+      await completeGmailConnect(userId, req.query.code, req.query.state, gmailRedirectUri(req));
+      res.redirect("/?email=connected");
+    } catch (error) {
+      console.error("Gmail sign-in failed:", error);
+      const reason = error instanceof EmailError || error instanceof EmailProviderError ? error.message : "Gmail sign-in failed";
+      res.redirect(`/?email=error&reason=${encodeURIComponent(reason)}`);
+    }
+  });
+
+  app.post("/api/email/connect-imap", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const status = await connectImapAccount(userId, req.body);
+      
+      // The first sync can take a while on a large mailbox; don't hold the request for it
+      syncAccount(userId, true).catch(error => console.error("Initial email sync failed:", error));
+      res.status(201).json(status);
+    } catch (error) {
+      handleEmailError(res, error, "Failed to connect email account");
+    }
+  });
+
+  app.delete("/api/email/account", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await disconnectAccount(userId);
+      res.status(204).send();
+    } catch (error) {
+      handleEmailError(res, error, "Failed to disconnect email account");
+    }
+  });
+
+  app.post("/api/email/sync", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await syncAccount(userId, true));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to sync email");
+    }
+  });
+
+  app.get("/api/email/threads", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const folder = typeof req.query.folder === "string" ? req.query.folder : "inbox";
+      const search = typeof req.query.q === "string" ? req.query.q : undefined;
       
-      const page = await storage.getPage(block.pageId);
-      if (!page) {
-        return res.status(404).json({ error: "Page not found" });
-      }
+      res.json(await listThreads(userId, folder, search));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to fetch email threads");
+    }
+  });
+
+  app.get("/api/email/threads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getThread(userId, req.params.id));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to fetch email thread");
+    }
+  });
+
+  app.get("/api/email/folder-counts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getFolderCounts(userId));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to fetch folder counts");
+    }
+  });
+
+  app.patch("/api/email/threads/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const isRead = req.body?.isRead !== false;
       
-      const role = await storage.getUserWorkspaceRole(page.workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
+      res.json(await setThreadRead(userId, req.params.id, isRead));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to update thread");
+    }
+  });
+
+  app.patch("/api/email/threads/:id/star", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (typeof req.body?.isStarred !== "boolean") {
+        return res.status(400).json({ error: "isStarred must be true or false" });
       }
       
-      const blockData = updateBlockSchema.parse({
-        ...req.body,
-        lastEditedBy: userId
-      });
-      
-      console.log("Update data:", JSON.stringify(blockData, null, 2));
-      
-      const updatedBlock = await storage.updateBlock(blockId, blockData);
+      res.json(await setThreadStarred(userId, req.params.id, req.body.isStarred));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to update thread");
+    }
+  });
+
+  app.patch("/api/email/threads/:id/archive", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await archiveThread(userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      handleEmailError(res, error, "Failed to archive thread");
+    }
+  });
+
+  // First delete moves the thread to Trash; deleting from Trash is permanent
+  app.delete("/api/email/threads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await deleteThread(userId, req.params.id));
+    } catch (error) {
+      handleEmailError(res, error, "Failed to delete thread");
+    }
+  });
+
+  // Copies the thread onto a new page ({ parentId }) or the end of one ({ pageId }).
+  // Messages arriving in the thread later are added to that page as well.
+  app.post("/api/email/threads/:id/page", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await threadToPage(userId, req.params.id, req.body);
       
-      // Broadcast block update
-      broadcastToWorkspace(page.workspaceId, {
-        type: 'block_updated',
-        blockId,
-        updates: blockData,
-        userId
+      await recordAudit({
+        workspaceId: result.page.workspaceId,
+        userId,
+        action: result.created ? 'page.created' : 'page.email_added',
+        resourceType: 'page',
+        resourceId: result.page.id,
+        metadata: { title: result.page.title, emailThreadId: req.params.id },
+        ipAddress: req.ip
       });
       
-      res.json(updatedBlock);
+      res.status(result.created ? 201 : 200).json(result);
     } catch (error) {
-      console.error("=== BLOCK UPDATE ERROR ===");
-      console.error("Error object:", error);
-      console.error("Error message:", error.message);
-      if (error.errors) {
-        console.error("Validation errors:", error.errors);
-      }
-      res.status(400).json({ error: "Invalid block data", details: error.message });
+      handleEmailError(res, error, "Failed to add email to page");
     }
   });
 
-  // Search routes
-  app.get("/api/workspaces/:workspaceId/search", isAuthenticated, async (req: any, res) => {
+  app.get("/api/pages/:pageId/email-attachments/:messageId/:attachmentId", isAuthenticated, async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.workspaceId);
       const userId = req.user.claims.sub;
-      const { q: query } = req.query;
+      const pageId = parseInt(req.params.pageId);
+      const attachment = await getPageAttachment(userId, pageId, req.params.messageId, req.params.attachmentId);
       
-      if (!query || typeof query !== "string") {
-        return res.status(400).json({ error: "Query parameter required" });
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+      res.send(attachment.content);
+    } catch (error) {
+      handleEmailError(res, error, "Failed to download attachment");
+    }
+  });
+
+  // multipart/form-data: "emailData" holds the JSON message, files come as "attachment_N"
+  app.post("/api/email/send", isAuthenticated, express.raw({ type: "multipart/form-data", limit: "25mb" }), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      let input: unknown = req.body;
+      let attachments: OutgoingAttachment[] = [];
+      
+      if (Buffer.isBuffer(req.body)) {
+        const form = parseFormData(req.body, req.get("content-type") ?? "");
+        try {
+          input = JSON.parse(form.fields.emailData ?? "");
+        } catch {
+          return res.status(400).json({ error: "emailData must be JSON" });
+        }
+        attachments = form.files.map(file => ({
+          filename: file.filename,
+          contentType: file.contentType,
+          content: file.content,
+        }));
       }
       
-      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
-      if (!role) {
-        return res.status(403).json({ error: "Access denied" });
-      }
+      const message = await sendEmail(userId, input, attachments);
+      res.status(201).json(message);
+    } catch (error) {
+      handleEmailError(res, error, "Failed to send email");
+    }
+  });
+
+  app.get("/api/email/messages/:id/attachments/:attachmentId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const attachment = await getAttachment(userId, req.params.id, req.params.attachmentId);
       
-      const pages = await storage.searchPages(workspaceId, query);
-      res.json(pages);
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+      res.send(attachment.content);
     } catch (error) {
-      res.status(500).json({ error: "Search failed" });
+      handleEmailError(res, error, "Failed to download attachment");
     }
   });
 
@@ -725,172 +2579,322 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Notifications
+  const handleNotificationError = (res: any, error: any, fallback: string) => {
+    if (error instanceof NotificationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
   app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const notifications = await storage.getUserNotifications(userId);
-      res.json(notifications);
+      res.json(await listNotifications(userId));
+    } catch (error) {
+      handleNotificationError(res, error, "Failed to fetch notifications");
+    }
+  });
+
+  // Body: { notificationIds: number[] }
+  app.patch("/api/notifications/mark-read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json({ updated: await markRead(userId, req.body) });
+    } catch (error) {
+      handleNotificationError(res, error, "Failed to mark notifications as read");
+    }
+  });
+
+  app.patch("/api/notifications/mark-all-read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json({ updated: await markAllRead(userId) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch notifications" });
+      handleNotificationError(res, error, "Failed to mark notifications as read");
     }
   });
 
   app.patch("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      const success = await storage.markNotificationRead(notificationId);
-      res.json({ success });
+      const userId = req.user.claims.sub;
+      const updated = await markRead(userId, { notificationIds: [parseInt(req.params.id)] });
+      res.json({ success: updated > 0 });
+    } catch (error) {
+      handleNotificationError(res, error, "Failed to mark notification as read");
+    }
+  });
+
+  // Body: { notificationIds: number[] }
+  app.delete("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json({ deleted: await deleteNotifications(userId, req.body) });
+    } catch (error) {
+      handleNotificationError(res, error, "Failed to delete notifications");
+    }
+  });
+
+  app.get("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getPreferences(userId));
     } catch (error) {
-      res.status(500).json({ error: "Failed to mark notification as read" });
+      handleNotificationError(res, error, "Failed to fetch notification preferences");
     }
   });
 
-  // Business features
+  // Body: any subset of the preferences
+  app.put("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await updatePreferences(userId, req.body));
+    } catch (error) {
+      handleNotificationError(res, error, "Failed to update notification preferences");
+    }
+  });
+
+  // Reminders and due dates. Lists hold the page's due dates and the caller's own reminders.
+  const handleReminderError = (res: any, error: any, fallback: string) => {
+    if (error instanceof ReminderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/pages/:id/reminders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await listPageReminders(parseInt(req.params.id), userId));
+    } catch (error) {
+      handleReminderError(res, error, "Failed to fetch reminders");
+    }
+  });
+
+  // Body: { blockId?, kind: reminder | due, date: YYYY-MM-DD, time?: HH:mm, note? }
+  app.post("/api/pages/:id/reminders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.status(201).json(await createReminder(parseInt(req.params.id), userId, req.body));
+    } catch (error) {
+      handleReminderError(res, error, "Failed to create reminder");
+    }
+  });
+
+  app.patch("/api/reminders/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await updateReminder(parseInt(req.params.id), userId, req.body));
+    } catch (error) {
+      handleReminderError(res, error, "Failed to update reminder");
+    }
+  });
+
+  app.delete("/api/reminders/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await deleteReminder(parseInt(req.params.id), userId);
+      res.status(204).send();
+    } catch (error) {
+      handleReminderError(res, error, "Failed to delete reminder");
+    }
+  });
+
+  // Body: { timezone } (IANA). Pending reminders keep their wall-clock time in the new zone.
+  app.put("/api/auth/user/timezone", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await setUserTimeZone(userId, req.body));
+    } catch (error) {
+      handleReminderError(res, error, "Failed to update time zone");
+    }
+  });
+
+  // Task inbox. Filters: assignee (me, unassigned, anyone or a user id), status (open,
+  // done, all), due (any, overdue, today, week, scheduled, none), pageId, q; sort (due,
+  // page, created, updated) and order.
+  const handleTaskError = (res: any, error: any, fallback: string) => {
+    if (error instanceof TaskError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/workspaces/:id/tasks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await listTasks(parseInt(req.params.id), userId, req.query));
+    } catch (error) {
+      handleTaskError(res, error, "Failed to fetch tasks");
+    }
+  });
+
+  // Body: { checked?, assigneeId? }. The inbox ticks tasks over the socket when it can.
+  app.patch("/api/tasks/:blockId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { task, block, page } = await updateTask(parseInt(req.params.blockId), userId, req.body);
+      broadcastTaskUpdate(page, block, userId);
+      res.json(task);
+    } catch (error) {
+      handleTaskError(res, error, "Failed to update task");
+    }
+  });
+
+  // Analytics. Owners and admins only; `range` is one of 7d, 30d, 90d, 365d and
+  // `timezone` an IANA zone the chart buckets follow.
+  const handleAnalyticsError = (res: any, error: any, fallback: string) => {
+    if (error instanceof AnalyticsError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
   app.get("/api/workspaces/:id/analytics", isAuthenticated, async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      
-      const role = await storage.getUserWorkspaceRole(workspaceId, userId);
-      if (!role || (role !== 'owner' && role !== 'admin')) {
-        return res.status(403).json({ error: "Access denied" });
+      const report = await getWorkspaceAnalytics(workspaceId, userId, req.query.range, req.query.timezone);
+      res.json(report);
+    } catch (error) {
+      handleAnalyticsError(res, error, "Failed to fetch analytics");
+    }
+  });
+
+  // Business dashboard: totals across every workspace the caller owns or administers
+  app.get("/api/business/metrics", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getBusinessMetrics(userId, req.query.range, req.query.timezone));
+    } catch (error) {
+      handleAnalyticsError(res, error, "Failed to fetch business metrics");
+    }
+  });
+
+  app.get("/api/business/activity", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getBusinessActivity(userId, req.query.range, req.query.timezone));
+    } catch (error) {
+      handleAnalyticsError(res, error, "Failed to fetch activity");
+    }
+  });
+
+  app.get("/api/business/workspace-analytics", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getWorkspaceSummaries(userId, req.query.range, req.query.timezone));
+    } catch (error) {
+      handleAnalyticsError(res, error, "Failed to fetch workspace analytics");
+    }
+  });
+
+  app.get("/api/business/team-performance", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = parseInt(req.query.workspaceId);
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({ error: "workspaceId is required" });
       }
       
-      // Mock analytics data for business features
-      const analytics = {
-        totalPages: 0,
-        totalBlocks: 0,
-        activeMembers: 0,
-        recentActivity: [],
-        pageViews: 0,
-        collaborationScore: 85
-      };
+      const report = await getWorkspaceAnalytics(workspaceId, userId, req.query.range, req.query.timezone);
+      res.json(report);
+    } catch (error) {
+      handleAnalyticsError(res, error, "Failed to fetch team performance");
+    }
+  });
+
+  // Body: { format: csv | json | pdf, timeRange, timezone?, workspaceId? }
+  app.post("/api/business/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const file = await exportAnalytics(userId, req.body);
+      
+      for (const workspaceId of file.workspaceIds) {
+        await recordAudit({
+          workspaceId,
+          userId,
+          action: 'analytics.exported',
+          resourceType: 'workspace',
+          resourceId: workspaceId,
+          metadata: { filename: file.filename, format: req.body.format, timeRange: req.body.timeRange ?? '30d' },
+          ipAddress: req.ip
+        });
+      }
       
-      res.json(analytics);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(file.data);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch analytics" });
+      handleAnalyticsError(res, error, "Failed to export analytics");
     }
   });
 
-  const httpServer = createServer(app);
+  // Audit log. Owners and admins only. Filters: actor, action (comma separated, "page.*"
+  // matches a whole family), resourceType, resourceId, from, to; page with `before`.
+  const handleAuditError = (res: any, error: any, fallback: string) => {
+    if (error instanceof AuditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/workspaces/:id/audit", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      res.json(await queryAuditLog(workspaceId, userId, req.query));
+    } catch (error) {
+      handleAuditError(res, error, "Failed to fetch audit log");
+    }
+  });
 
-  // WebSocket server for real-time collaboration
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  app.get("/api/workspaces/:id/audit/verify", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      res.json(await verifyAuditLog(workspaceId, userId));
+    } catch (error) {
+      handleAuditError(res, error, "Failed to verify audit log");
+    }
+  });
 
-  wss.on('connection', (ws, req) => {
-    const sessionId = nanoid();
-    
-    ws.on('message', async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        switch (message.type) {
-          case 'join_workspace':
-            const session: WorkspaceSession = {
-              userId: message.userId,
-              userName: message.userName,
-              workspaceId: message.workspaceId,
-              ws
-            };
-            
-            activeSessions.set(sessionId, session);
-            
-            if (!workspaceConnections.has(message.workspaceId)) {
-              workspaceConnections.set(message.workspaceId, new Set());
-            }
-            workspaceConnections.get(message.workspaceId)!.add(sessionId);
-            
-            // Notify others of new user
-            broadcastToWorkspace(message.workspaceId, {
-              type: 'user_joined',
-              userId: message.userId,
-              userName: message.userName
-            }, sessionId);
-            break;
-            
-          case 'cursor_move':
-            const cursorSession = activeSessions.get(sessionId);
-            if (cursorSession) {
-              cursorSession.cursor = {
-                userId: message.userId,
-                userName: message.userName,
-                pageId: message.pageId,
-                x: message.x,
-                y: message.y,
-                blockId: message.blockId,
-                selection: message.selection
-              };
-              
-              // Broadcast cursor position to others in workspace
-              broadcastToWorkspace(cursorSession.workspaceId, {
-                type: 'cursor_update',
-                cursor: cursorSession.cursor
-              }, sessionId);
-            }
-            break;
-            
-          case 'typing_start':
-            broadcastToWorkspace(message.workspaceId, {
-              type: 'user_typing',
-              userId: message.userId,
-              userName: message.userName,
-              blockId: message.blockId,
-              isTyping: true
-            }, sessionId);
-            break;
-            
-          case 'typing_stop':
-            broadcastToWorkspace(message.workspaceId, {
-              type: 'user_typing',
-              userId: message.userId,
-              userName: message.userName,
-              blockId: message.blockId,
-              isTyping: false
-            }, sessionId);
-            break;
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
-    });
-    
-    ws.on('close', () => {
-      const session = activeSessions.get(sessionId);
-      if (session) {
-        // Remove from workspace connections
-        const workspaceConnections_set = workspaceConnections.get(session.workspaceId);
-        if (workspaceConnections_set) {
-          workspaceConnections_set.delete(sessionId);
-        }
-        
-        // Notify others of user leaving
-        broadcastToWorkspace(session.workspaceId, {
-          type: 'user_left',
-          userId: session.userId,
-          userName: session.userName
-        }, sessionId);
-        
-        activeSessions.delete(sessionId);
-      }
-    });
+  app.get("/api/workspaces/:id/audit/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      res.json(await getAuditSettings(workspaceId, userId));
+    } catch (error) {
+      handleAuditError(res, error, "Failed to fetch audit settings");
+    }
   });
 
-  function broadcastToWorkspace(workspaceId: number, message: any, excludeSessionId?: string) {
-    const connections = workspaceConnections.get(workspaceId);
-    if (connections) {
-      connections.forEach(sessionId => {
-        if (sessionId !== excludeSessionId) {
-          const session = activeSessions.get(sessionId);
-          if (session && session.ws.readyState === WebSocket.OPEN) {
-            session.ws.send(JSON.stringify(message));
-          }
-        }
-      });
+  // Body: { retentionDays: number | null }; null keeps entries as long as the plan allows
+  app.put("/api/workspaces/:id/audit/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      res.json(await updateAuditSettings(workspaceId, userId, req.body, req.ip));
+    } catch (error) {
+      handleAuditError(res, error, "Failed to update audit settings");
     }
-  }
+  });
+
+  startAuditRetention();
+  startNotificationDigests();
+  startReminderScheduler();
+
+  const httpServer = createServer(app);
 
-  // Initialize WebSocket API server for full WebSocket-only communication
-  const wsApiServer = new WebSocketAPIServer(httpServer);
+  // One realtime endpoint carries the API, rooms and notifications; see shared/realtime.ts
+  const realtime = new RealtimeServer(httpServer);
+  registerApiHandlers(realtime);
+  registerCollaborationHandlers(realtime);
 
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,274 @@
+import { sqlite } from './db';
+import type { Block, Page, SearchHighlight, SearchResult, SearchResponse } from '@shared/schema';
+
+// Full-text index over page titles and block text. Page entries use rowid -pageId and
+// block entries rowid blockId, so single entries can be replaced without a scan.
+// Soft-deleted pages keep their entries; queries join `pages` and skip them.
+
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const MAX_CANDIDATES = 1000;
+
+let ready = false;
+
+function ensureIndex() {
+  if (ready) return;
+
+  sqlite.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      title,
+      content,
+      page_id UNINDEXED,
+      block_id UNINDEXED,
+      tokenize = 'porter unicode61 remove_diacritics 2'
+    )
+  `);
+  ready = true;
+
+  const { count } = sqlite.prepare(`SELECT count(*) AS count FROM search_index`).get() as { count: number };
+  if (count === 0) {
+    rebuildSearchIndex();
+  }
+}
+
+// Pulls the readable text out of a block's JSON content
+export function extractBlockText(content: unknown): string {
+  let value = content;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value as string;
+    }
+  }
+
+  const parts: string[] = [];
+  const visit = (node: any) => {
+    if (!node) return;
+    if (typeof node === 'string') {
+      parts.push(node);
+    } else if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (typeof node === 'object') {
+      ['text', 'title', 'caption', 'items', 'children'].forEach(key => visit(node[key]));
+    }
+  };
+  visit(value);
+  return parts.join(' ').trim();
+}
+
+export function indexPage(page: Pick<Page, 'id' | 'title'>) {
+  ensureIndex();
+  sqlite.prepare(`DELETE FROM search_index WHERE rowid = ?`).run(-page.id);
+  sqlite.prepare(`INSERT INTO search_index (rowid, title, content, page_id, block_id) VALUES (?, ?, '', ?, NULL)`)
+    .run(-page.id, page.title, page.id);
+}
+
+export function indexBlock(block: Pick<Block, 'id' | 'pageId' | 'content'>) {
+  ensureIndex();
+  sqlite.prepare(`DELETE FROM search_index WHERE rowid = ?`).run(block.id);
+  const text = extractBlockText(block.content);
+  if (text) {
+    sqlite.prepare(`INSERT INTO search_index (rowid, title, content, page_id, block_id) VALUES (?, '', ?, ?, ?)`)
+      .run(block.id, text, block.pageId, block.id);
+  }
+}
+
+export function removeBlockFromIndex(blockId: number) {
+  ensureIndex();
+  sqlite.prepare(`DELETE FROM search_index WHERE rowid = ?`).run(blockId);
+}
+
+export function removePageBlocksFromIndex(pageId: number) {
+  ensureIndex();
+  sqlite.prepare(`DELETE FROM search_index WHERE page_id = ? AND block_id IS NOT NULL`).run(pageId);
+}
+
+export function rebuildSearchIndex() {
+  ensureIndex();
+  const rebuild = sqlite.transaction(() => {
+    sqlite.exec(`DELETE FROM search_index`);
+    const allPages = sqlite.prepare(`SELECT id, title FROM pages`).all() as Pick<Page, 'id' | 'title'>[];
+    allPages.forEach(indexPage);
+    const allBlocks = sqlite.prepare(`SELECT id, page_id AS pageId, content FROM blocks`).all() as Pick<Block, 'id' | 'pageId' | 'content'>[];
+    allBlocks.forEach(indexBlock);
+  });
+  rebuild();
+}
+
+// Turns what the user typed into an FTS5 query: quoted phrases stay phrases, every
+// other word must appear, and the last word matches as a prefix while typing.
+export function toMatchQuery(input: string): string | null {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    const phrase = match[1] !== undefined;
+    const text = (match[1] ?? match[2]).replace(/"/g, '').trim();
+    if (!text) continue;
+    terms.push(`"${text}"`);
+    if (!phrase && pattern.lastIndex >= input.trimEnd().length) {
+      terms[terms.length - 1] += '*';
+    }
+  }
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+function toHighlights(marked: string): SearchHighlight[] {
+  const highlights: SearchHighlight[] = [];
+  let rest = marked;
+  while (rest.length > 0) {
+    const start = rest.indexOf(MATCH_START);
+    if (start === -1) {
+      highlights.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) {
+      highlights.push({ text: rest.slice(0, start), match: false });
+    }
+    const end = rest.indexOf(MATCH_END, start);
+    const stop = end === -1 ? rest.length : end;
+    highlights.push({ text: rest.slice(start + 1, stop), match: true });
+    rest = end === -1 ? '' : rest.slice(end + 1);
+  }
+  return highlights;
+}
+
+export interface SearchOptions {
+  workspaceId: number;
+  query: string;
+  author?: string;
+  from?: number;
+  to?: number;
+  parentId?: number;
+  includeArchived?: boolean;
+  visiblePageIds?: Set<number>; // pages the searcher may see; others never match
+  limit?: number;
+  offset?: number;
+}
+
+interface IndexHit {
+  pageId: number;
+  blockId: number | null;
+  rank: number;
+  title: string;
+  titleMarked: string;
+  snippet: string;
+  icon: string | null;
+  parentId: number | null;
+  parentTitle: string | null;
+  createdBy: string;
+  lastEditedBy: string | null;
+  updatedAt: number | null;
+}
+
+export function searchWorkspace(options: SearchOptions): SearchResponse {
+  ensureIndex();
+
+  const match = toMatchQuery(options.query);
+  if (!match) {
+    return { results: [], total: 0 };
+  }
+
+  const conditions = ['search_index MATCH @match', 'p.workspace_id = @workspaceId', 'p.is_deleted = 0'];
+  const params: Record<string, unknown> = { match, workspaceId: options.workspaceId, limit: MAX_CANDIDATES };
+  if (!options.includeArchived) {
+    conditions.push('p.is_archived = 0');
+  }
+  if (options.author) {
+    conditions.push('p.created_by = @author');
+    params.author = options.author;
+  }
+  if (options.from !== undefined) {
+    conditions.push('p.updated_at >= @from');
+    params.from = options.from;
+  }
+  if (options.to !== undefined) {
+    conditions.push('p.updated_at <= @to');
+    params.to = options.to;
+  }
+
+  if (options.visiblePageIds) {
+    // Filtered before the candidate limit, or restricted viewers would get short pages of results
+    conditions.push('p.id IN (SELECT value FROM json_each(@visible))');
+    params.visible = JSON.stringify(Array.from(options.visiblePageIds));
+  }
+
+  let scope = '';
+  if (options.parentId !== undefined) {
+    // Everything nested anywhere under the parent page
+    scope = `
+      WITH RECURSIVE descendants(id) AS (
+        SELECT id FROM pages WHERE parent_id = @parentId
+        UNION
+        SELECT pages.id FROM pages JOIN descendants ON pages.parent_id = descendants.id
+      )
+    `;
+    conditions.push('p.id IN (SELECT id FROM descendants)');
+    params.parentId = options.parentId;
+  }
+
+  const hits = sqlite.prepare(`
+    ${scope}
+    SELECT
+      search_index.page_id AS pageId,
+      search_index.block_id AS blockId,
+      bm25(search_index, 10.0, 1.0) AS rank,
+      p.title AS title,
+      highlight(search_index, 0, '${MATCH_START}', '${MATCH_END}') AS titleMarked,
+      snippet(search_index, 1, '${MATCH_START}', '${MATCH_END}', '…', 16) AS snippet,
+      p.icon AS icon,
+      p.parent_id AS parentId,
+      parent.title AS parentTitle,
+      p.created_by AS createdBy,
+      p.last_edited_by AS lastEditedBy,
+      p.updated_at AS updatedAt
+    FROM search_index
+    JOIN pages p ON p.id = search_index.page_id
+    LEFT JOIN pages parent ON parent.id = p.parent_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY rank
+    LIMIT @limit
+  `).all(params) as IndexHit[];
+
+  // Hits come back best first, so the first hit per page carries its rank and snippet
+  const byPage = new Map<number, SearchResult>();
+  for (const hit of hits) {
+    const existing = byPage.get(hit.pageId);
+    if (existing) {
+      existing.matches += 1;
+      if (!existing.snippet && hit.blockId !== null) {
+        existing.snippet = toHighlights(hit.snippet);
+        existing.blockId = hit.blockId;
+      }
+      if (hit.blockId === null) {
+        existing.titleHighlights = toHighlights(hit.titleMarked);
+      }
+      continue;
+    }
+
+    byPage.set(hit.pageId, {
+      pageId: hit.pageId,
+      title: hit.title,
+      icon: hit.icon,
+      parentId: hit.parentId,
+      parentTitle: hit.parentTitle,
+      titleHighlights: hit.blockId === null ? toHighlights(hit.titleMarked) : [{ text: hit.title, match: false }],
+      snippet: hit.blockId === null ? null : toHighlights(hit.snippet),
+      blockId: hit.blockId,
+      matches: 1,
+      score: -hit.rank,
+      createdBy: hit.createdBy,
+      lastEditedBy: hit.lastEditedBy,
+      updatedAt: hit.updatedAt,
+    });
+  }
+
+  const results = Array.from(byPage.values());
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? 20;
+  return {
+    results: results.slice(offset, offset + limit),
+    total: results.length,
+  };
+}
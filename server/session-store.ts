@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import session from 'express-session';
+import { storage } from './storage';
+
+// express-session store on the sessions table. Besides the session itself each row keeps
+// the signed-in user and where they signed in from, so people can list and revoke their
+// sessions; deleting a row signs that browser out on its next request.
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const SESSION_COOKIE = 'connect.sid';
+
+// Signs session cookies and every other token that has no secret of its own. The
+// fallback is public, so production refuses to run without SESSION_SECRET.
+export function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return 'dev-session-secret-change-in-production';
+}
+
+// The session id from a Cookie header, for requests that do not pass through
+// express-session such as WebSocket upgrades. The cookie holds `s:<sid>.<signature>`.
+export function sessionIdFromCookie(header: string | undefined): string | null {
+  if (!header) return null;
+  const pair = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${SESSION_COOKIE}=`));
+  if (!pair) return null;
+  let value: string;
+  try {
+    value = decodeURIComponent(pair.slice(SESSION_COOKIE.length + 1));
+  } catch {
+    return null;
+  }
+  if (!value.startsWith('s:')) return null;
+  const dot = value.lastIndexOf('.');
+  if (dot <= 2) return null;
+  const sid = value.slice(2, dot);
+  const expected = Buffer.from(crypto.createHmac('sha256', sessionSecret()).update(sid).digest('base64').replace(/=+$/, ''));
+  const given = Buffer.from(value.slice(dot + 1));
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? sid : null;
+}
+
+// Who a session belongs to: credential sign-ins keep the user on the session, Replit
+// sign-ins under passport
+export function sessionUserId(data: session.SessionData): string | null {
+  const passport = (data as any).passport;
+  return data.user?.claims?.sub ?? passport?.user?.claims?.sub ?? null;
+}
+
+function expiryOf(data: session.SessionData, ttl: number): number {
+  const expires = data.cookie?.expires;
+  return expires ? new Date(expires).getTime() : Date.now() + ttl;
+}
+
+export class SqliteSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout;
+
+  constructor(private ttl: number) {
+    super();
+    this.pruneTimer = setInterval(() => {
+      storage.deleteExpiredSessions().catch((error) => {
+        console.error('Error pruning expired sessions:', error);
+      });
+    }, PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    storage.getSession(sid).then((row) => {
+      if (!row || row.expire <= Date.now()) return callback(null, null);
+      callback(null, JSON.parse(row.sess));
+    }, callback);
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void) {
+    storage.saveSession({
+      sid,
+      sess: JSON.stringify(data),
+      expire: expiryOf(data, this.ttl),
+      userId: sessionUserId(data),
+      ipAddress: data.client?.ipAddress ?? null,
+      userAgent: data.client?.userAgent ?? null,
+    }).then(() => callback?.(), callback);
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: (err?: any) => void) {
+    storage.touchSession(sid, expiryOf(data, this.ttl)).then(() => callback?.(), callback);
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    storage.deleteSession(sid).then(() => callback?.(), callback);
+  }
+}
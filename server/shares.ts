@@ -0,0 +1,273 @@
+import bcrypt from 'bcrypt';
+import { nanoid } from 'nanoid';
+import { storage } from './storage';
+import { getVisiblePageIds } from './permissions';
+import { exportPage, type MarkdownExport } from './markdown';
+import { trackPageView } from './analytics';
+import { RateLimiter, waitText } from './account-security';
+import {
+  createPageShareSchema, updatePageShareSchema,
+  type Page, type PageShare, type PageShareSettings, type PageWithChildren, type SharedPageNode, type SharedPageView,
+} from '@shared/schema';
+
+// Share links. Each page has at most one link; creating a new one, or rotating the
+// token, makes old copies of the URL stop working. A link opens a read-only view of the page and
+// the subpages the person who shared it can see, so a share never reveals more than
+// its creator has access to.
+
+export class ShareError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public code?: 'password_required' | 'login_required' | 'expired',
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_ROUNDS = 10;
+
+// Share password attempts, counted per link and per client address; right ones are not
+// held against anyone. Once either runs out the password is not checked at all until
+// the window ends.
+const passwordFailures = {
+  byToken: new RateLimiter(10, 15 * 60 * 1000),
+  byAddress: new RateLimiter(30, 15 * 60 * 1000),
+};
+
+export function toSettings(share: PageShare): PageShareSettings {
+  const { password, ...settings } = share;
+  return { ...settings, hasPassword: !!password };
+}
+
+// Private links are stored against the recipient's user id, whichever way they were named
+async function resolveRecipient(shareType: string, sharedWith: string | null | undefined): Promise<string | null> {
+  if (shareType !== 'private') return null;
+  if (!sharedWith) {
+    throw new ShareError('Private links need someone to share with');
+  }
+  const user = await storage.getUser(sharedWith) ?? await storage.getUserByUsernameOrEmail(sharedWith);
+  if (!user) {
+    throw new ShareError('No user with that id, username or email');
+  }
+  return user.id;
+}
+
+export async function getShareSettings(pageId: number): Promise<PageShareSettings | null> {
+  const share = await storage.getPageShare(pageId);
+  return share ? toSettings(share) : null;
+}
+
+export async function createShare(page: Page, userId: string, input: unknown): Promise<PageShareSettings> {
+  const parsed = createPageShareSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ShareError(parsed.error.issues[0]?.message ?? 'Invalid share settings');
+  }
+  const data = parsed.data;
+  const sharedWith = await resolveRecipient(data.shareType, data.sharedWith);
+
+  const existing = await storage.getPageShare(page.id);
+  if (existing) {
+    await storage.deletePageShare(existing.id);
+  }
+
+  const share = await storage.createPageShare({
+    pageId: page.id,
+    sharedBy: userId,
+    sharedWith,
+    shareType: data.shareType,
+    permissions: data.permissions,
+    token: nanoid(32),
+    password: data.password ? await bcrypt.hash(data.password, PASSWORD_ROUNDS) : null,
+    expiresAt: data.expiryDays ? Date.now() + data.expiryDays * DAY_MS : null,
+    allowDownload: data.allowDownload ?? false,
+    allowComments: data.allowComments ?? true,
+    isActive: true,
+  });
+  return toSettings(share);
+}
+
+// `password` and `expiryDays` of null clear them; leaving them out keeps the current value
+export async function updateShare(pageId: number, input: unknown): Promise<PageShareSettings> {
+  const share = await storage.getPageShare(pageId);
+  if (!share) {
+    throw new ShareError('This page has no share link', 404);
+  }
+  const parsed = updatePageShareSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ShareError(parsed.error.issues[0]?.message ?? 'Invalid share settings');
+  }
+  const data = parsed.data;
+  const shareType = data.shareType ?? share.shareType;
+  const updates: Partial<PageShare> = {
+    shareType,
+    sharedWith: await resolveRecipient(shareType, data.sharedWith !== undefined ? data.sharedWith : share.sharedWith),
+  };
+  if (data.permissions !== undefined) updates.permissions = data.permissions;
+  if (data.allowDownload !== undefined) updates.allowDownload = data.allowDownload;
+  if (data.allowComments !== undefined) updates.allowComments = data.allowComments;
+  if (data.isActive !== undefined) updates.isActive = data.isActive;
+  if (data.rotateToken) updates.token = nanoid(32);
+  if (data.password !== undefined) {
+    updates.password = data.password ? await bcrypt.hash(data.password, PASSWORD_ROUNDS) : null;
+  }
+  if (data.expiryDays !== undefined) {
+    updates.expiresAt = data.expiryDays ? Date.now() + data.expiryDays * DAY_MS : null;
+  }
+
+  const updated = await storage.updatePageShare(share.id, updates);
+  return toSettings(updated!);
+}
+
+export async function revokeShare(pageId: number): Promise<void> {
+  const share = await storage.getPageShare(pageId);
+  if (!share) {
+    throw new ShareError('This page has no share link', 404);
+  }
+  await storage.deletePageShare(share.id);
+}
+
+// Who is opening a link
+export interface ShareViewer {
+  password?: string;
+  viewerId?: string;
+  ipAddress?: string | null;
+}
+
+// Checks the link is live and that this visitor may open it. Revoked, paused and
+// unknown tokens all read as not found.
+async function resolveShare(token: string, options: ShareViewer): Promise<{ share: PageShare; root: Page }> {
+  const { password, viewerId } = options;
+  const share = await storage.getSharedPage(token);
+  if (!share || !share.isActive) {
+    throw new ShareError('Share link not found', 404);
+  }
+  if (share.expiresAt && share.expiresAt <= Date.now()) {
+    throw new ShareError('This share link has expired', 410, 'expired');
+  }
+
+  const root = await storage.getPage(share.pageId);
+  if (!root || root.isDeleted) {
+    throw new ShareError('Share link not found', 404);
+  }
+
+  if (share.shareType !== 'public') {
+    if (!viewerId) {
+      throw new ShareError('Sign in to open this link', 401, 'login_required');
+    }
+    if (share.shareType === 'workspace' && !await storage.getUserWorkspaceRole(root.workspaceId, viewerId)) {
+      throw new ShareError('This link is only open to workspace members', 403);
+    }
+    if (share.shareType === 'private' && viewerId !== share.sharedWith) {
+      throw new ShareError('This link was shared with someone else', 403);
+    }
+  }
+
+  if (share.password) {
+    if (!password) {
+      throw new ShareError('This link is password protected', 401, 'password_required');
+    }
+    // Every attempt is counted before the comparison, so guesses sent in parallel cannot
+    // all slip through while the hashes are being checked; a right password is given back
+    const address = options.ipAddress ?? 'unknown';
+    const wait = Math.max(passwordFailures.byToken.hit(token), passwordFailures.byAddress.hit(address));
+    if (wait > 0) {
+      throw new ShareError(`Too many wrong passwords. Try again in ${waitText(wait)}.`, 429, 'password_required', wait);
+    }
+    if (!await bcrypt.compare(password, share.password)) {
+      throw new ShareError('Incorrect password', 401, 'password_required');
+    }
+    passwordFailures.byToken.release(token);
+    passwordFailures.byAddress.release(address);
+  }
+  return { share, root };
+}
+
+function findNode(nodes: PageWithChildren[], pageId: number): PageWithChildren | undefined {
+  for (const node of nodes) {
+    if (node.id === pageId) return node;
+    const found = findNode(node.children ?? [], pageId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function toSharedNode(node: PageWithChildren, visible: Set<number>): SharedPageNode {
+  return {
+    id: node.id,
+    title: node.title,
+    icon: node.icon,
+    children: (node.children ?? [])
+      .filter(child => visible.has(child.id))
+      .map(child => toSharedNode(child, visible)),
+  };
+}
+
+function containsPage(node: SharedPageNode, pageId: number): boolean {
+  return node.id === pageId || node.children.some(child => containsPage(child, pageId));
+}
+
+// Pages the link may show: those the sharer can see, minus archived ones
+async function getSharedPageIds(share: PageShare, root: Page): Promise<Set<number>> {
+  const visible = await getVisiblePageIds(root.workspaceId, share.sharedBy);
+  if (!visible.has(root.id)) {
+    // The sharer has lost access, so the link goes with it
+    throw new ShareError('Share link not found', 404);
+  }
+  for (const page of await storage.getPagesByWorkspace(root.workspaceId)) {
+    if (page.isArchived && page.id !== root.id) visible.delete(page.id);
+  }
+  return visible;
+}
+
+async function getSharedTree(share: PageShare, root: Page): Promise<SharedPageNode> {
+  const visible = await getSharedPageIds(share, root);
+  const node = findNode(await storage.getPagesWithChildren(root.workspaceId), root.id) ?? { ...root, children: [] };
+  return toSharedNode(node, visible);
+}
+
+// One page of a shared tree; `pageId` defaults to the shared page itself. Opening the
+// shared page counts as a view, browsing its subpages does not.
+export async function viewSharedPage(token: string, options: ShareViewer & { pageId?: number }): Promise<SharedPageView> {
+  const { share, root } = await resolveShare(token, options);
+  const tree = await getSharedTree(share, root);
+
+  const pageId = options.pageId ?? root.id;
+  const page = pageId === root.id ? root : await storage.getPage(pageId);
+  if (!page || !containsPage(tree, pageId)) {
+    throw new ShareError('Page not found', 404);
+  }
+
+  const blocks = (await storage.getBlocksByPageId(page.id))
+    .map(({ id, type, content, position, parentId, properties }) => ({ id, type, content, position, parentId, properties }));
+
+  if (pageId === root.id) {
+    await storage.recordShareView(share.id);
+    trackPageView(root, options.viewerId ?? null, 'share');
+  }
+
+  return {
+    share: {
+      token: share.token,
+      shareType: share.shareType,
+      permissions: share.permissions,
+      allowDownload: share.allowDownload,
+      allowComments: share.allowComments,
+      expiresAt: share.expiresAt,
+    },
+    page: { id: page.id, title: page.title, icon: page.icon, cover: page.cover, updatedAt: page.updatedAt },
+    blocks,
+    tree,
+  };
+}
+
+export async function exportSharedPage(token: string, options: ShareViewer): Promise<MarkdownExport> {
+  const { share, root } = await resolveShare(token, options);
+  if (!share.allowDownload) {
+    throw new ShareError('Downloads are turned off for this link', 403);
+  }
+  return exportPage(root, true, await getSharedPageIds(share, root));
+}
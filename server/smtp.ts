@@ -0,0 +1,194 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { isLoopbackAddress } from './mail-hosts';
+
+// Minimal SMTP submission client (RFC 5321): EHLO, STARTTLS, AUTH PLAIN or LOGIN,
+// one message per connection.
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS
+  username: string | null;
+  password: string | null;
+  // Talk to the server without TLS when it has no STARTTLS; always allowed on loopback
+  allowPlaintext?: boolean;
+  lookup?: net.LookupFunction;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30000;
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private closedError: Error | null = null;
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError('The mail server stopped responding')));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('latin1');
+      let lineEnd = this.buffer.indexOf('\n');
+      while (lineEnd !== -1) {
+        const line = this.buffer.slice(0, lineEnd).replace(/\r$/, '');
+        this.buffer = this.buffer.slice(lineEnd + 1);
+        this.lines.push(line);
+        // "250-..." continues a reply, "250 ..." ends it
+        if (/^\d{3}(?: |$)/.test(line)) this.finish();
+        lineEnd = this.buffer.indexOf('\n');
+      }
+    });
+    socket.on('error', (error) => this.fail(error instanceof SmtpError ? error : new SmtpError(error.message)));
+    socket.on('close', () => this.fail(new SmtpError('Connection to the mail server closed')));
+  }
+
+  detach() {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+  }
+
+  private finish() {
+    const lines = this.lines;
+    this.lines = [];
+    const reply = { code: parseInt(lines[lines.length - 1].slice(0, 3)), lines: lines.map(line => line.slice(4)) };
+    if (this.waiter) {
+      this.waiter.resolve(reply);
+      this.waiter = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    this.closedError ??= error;
+    this.waiter?.reject(error);
+    this.waiter = null;
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.closedError) return Promise.reject(this.closedError);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  // Sends a line and expects one of the given reply codes
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    const reply = this.read();
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const result = await reply;
+    if (!expected.includes(result.code)) {
+      throw new SmtpError(`${result.code} ${result.lines.join(' ')}`.trim(), result.code);
+    }
+    return result;
+  }
+}
+
+function connect(config: SmtpConfig): net.Socket {
+  return config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host, lookup: config.lookup })
+    : net.connect({ host: config.host, port: config.port, lookup: config.lookup });
+}
+
+// Lines starting with "." get another one, and the message ends with a lone "."
+function encodeData(message: Buffer): Buffer {
+  const text = message.toString('latin1').replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return Buffer.from(`${text}${text.endsWith('\r\n') ? '' : '\r\n'}.\r\n`, 'latin1');
+}
+
+// Greeting, EHLO, STARTTLS and login; leaves the session ready for MAIL FROM
+async function open(config: SmtpConfig): Promise<SmtpConnection> {
+  const connection = new SmtpConnection(connect(config));
+  try {
+    await connection.command(null, [220]);
+    let hello = await connection.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    let extensions = hello.lines.map(line => line.toUpperCase());
+
+    // Someone in between can strip STARTTLS from the reply to read the login
+    if (!config.secure && !extensions.includes('STARTTLS')
+      && !config.allowPlaintext && !isLoopbackAddress(connection.socket.remoteAddress)) {
+      throw new SmtpError('The server does not offer STARTTLS; use a TLS port instead');
+    }
+    if (!config.secure && extensions.includes('STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      connection.detach();
+      const secure = tls.connect({ socket: connection.socket, servername: config.host });
+      connection.attach(secure);
+      await new Promise<void>((resolve, reject) => {
+        secure.once('secureConnect', () => resolve());
+        secure.once('error', reject);
+      });
+      hello = await connection.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+      extensions = hello.lines.map(line => line.toUpperCase());
+    }
+
+    if (config.username) {
+      const auth = extensions.find(line => line.startsWith('AUTH'))?.split(/[ =]/) ?? [];
+      const password = config.password ?? '';
+      if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+        const credentials = Buffer.from(`\0${config.username}\0${password}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      } else {
+        await connection.command('AUTH LOGIN', [334]);
+        await connection.command(Buffer.from(config.username).toString('base64'), [334]);
+        await connection.command(Buffer.from(password).toString('base64'), [235]);
+      }
+    }
+    return connection;
+  } catch (error) {
+    connection.socket.destroy();
+    throw error;
+  }
+}
+
+async function close(connection: SmtpConnection) {
+  await connection.command('QUIT', [221]).catch(() => undefined);
+  connection.socket.destroy();
+}
+
+// Checks that the server accepts the login, without sending anything
+export async function verifySmtp(config: SmtpConfig): Promise<void> {
+  await close(await open(config));
+}
+
+export async function sendMail(config: SmtpConfig, envelope: { from: string; to: string[] }, message: Buffer): Promise<void> {
+  const connection = await open(config);
+  try {
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    const reply = connection.read();
+    connection.socket.write(encodeData(message));
+    const result = await reply;
+    if (result.code !== 250) {
+      throw new SmtpError(`${result.code} ${result.lines.join(' ')}`.trim(), result.code);
+    }
+  } finally {
+    await close(connection);
+  }
+}
@@ -1,40 +1,97 @@
 import { 
-  users, workspaces, workspaceMembers, invitations, templates, pages, blocks, comments, activities, notifications,
-  calendarEvents, emailThreads, emailMessages, userMFA, businessPages, pageShares, collaborationCursors, livePresence,
+  users, workspaces, workspaceMembers, workspaceGroups, workspaceGroupMembers, invitations, templates, pages, blocks, pageRevisions, databases, databaseViews, comments, mentions, activities, auditAnchors, pageViews, notifications, reminders,
+  calendarEvents, emailAccounts, emailThreads, emailMessages, userMFA, webauthnCredentials, sessions, businessPages, pageShares, collaborationCursors, livePresence,
   type User, type UpsertUser, type InsertUser,
   type Workspace, type InsertWorkspace, type UpdateWorkspace,
   type WorkspaceMember, type InsertWorkspaceMember,
+  type WorkspaceGroup, type InsertWorkspaceGroup,
+  type WorkspaceGroupMember, type InsertWorkspaceGroupMember,
   type Invitation, type InsertInvitation,
   type Template, type InsertTemplate,
   type Page, type InsertPage, type UpdatePage, type PageWithChildren,
   type Block, type InsertBlock, type UpdateBlock,
+  type PageRevision, type InsertPageRevision,
+  type Database, type InsertDatabase,
+  type DatabaseView, type InsertDatabaseView,
   type Comment, type InsertComment,
-  type Activity, type InsertActivity,
+  type Mention, type InsertMention,
+  type Activity, type InsertActivity, type AuditAnchor,
+  type PageView, type InsertPageView,
   type Notification, type InsertNotification,
+  type Reminder, type InsertReminder,
   type CalendarEvent, type InsertCalendarEvent,
+  type EmailAccount, type InsertEmailAccount,
   type EmailThread, type InsertEmailThread,
   type EmailMessage, type InsertEmailMessage,
   type UserMFA, type InsertUserMFA,
+  type WebAuthnCredential, type InsertWebAuthnCredential,
+  type Session, type InsertSession,
   type BusinessPage, type InsertBusinessPage,
   type PageShare, type InsertPageShare,
   type CollaborationCursor, type InsertCollaborationCursor,
   type LivePresence, type InsertLivePresence
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, asc, like, inArray } from "drizzle-orm";
+import { eq, ne, and, or, lt, gt, gte, lte, desc, asc, like, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
 import { cache } from "./cache";
+import { indexPage, indexBlock, removeBlockFromIndex, removePageBlocksFromIndex } from "./search";
+
+// One editing session on a page, as recorded by its revision history
+export interface PageEdit {
+  pageId: number;
+  userId: string;
+  editedAt: number | null;
+}
+
+// Audit log filters; action prefixes end with "." (e.g. "page.")
+export interface AuditFilters {
+  userId?: string;
+  actions?: string[];
+  actionPrefixes?: string[];
+  resourceType?: string;
+  resourceId?: string;
+  from?: number;
+  to?: number;
+  beforeSeq?: number;
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsernameOrEmail(usernameOrEmail: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<UpsertUser>): Promise<User | undefined>;
+  
+  // MFA operations
+  getMFASettings(userId: string): Promise<UserMFA | undefined>;
+  setupMFA(userId: string, secret: string): Promise<UserMFA>;
+  enableMFA(userId: string, backupCodeHashes: string[], counter: number): Promise<UserMFA | undefined>;
+  updateMFA(userId: string, updates: Partial<InsertUserMFA>): Promise<UserMFA | undefined>;
+  disableMFA(userId: string): Promise<boolean>;
+  
+  // Passkey operations
+  getWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]>;
+  getWebAuthnCredential(id: number): Promise<WebAuthnCredential | undefined>;
+  getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | undefined>;
+  createWebAuthnCredential(credential: InsertWebAuthnCredential): Promise<WebAuthnCredential>;
+  updateWebAuthnCredential(id: number, updates: Partial<InsertWebAuthnCredential>): Promise<WebAuthnCredential | undefined>;
+  deleteWebAuthnCredential(id: number): Promise<boolean>;
+  
+  // Session operations
+  getSession(sid: string): Promise<Session | undefined>;
+  saveSession(session: InsertSession): Promise<void>;
+  touchSession(sid: string, expire: number): Promise<void>;
+  deleteSession(sid: string): Promise<boolean>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+  deleteExpiredSessions(): Promise<number>;
   
   // Workspace operations
   getWorkspace(id: number): Promise<Workspace | undefined>;
   getWorkspacesByUserId(userId: string): Promise<Workspace[]>;
   createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
   updateWorkspace(id: number, updates: UpdateWorkspace): Promise<Workspace | undefined>;
+  getAllWorkspaces(): Promise<Workspace[]>;
   deleteWorkspace(id: number): Promise<boolean>;
   
   // Workspace member operations
@@ -44,6 +101,17 @@ export interface IStorage {
   removeWorkspaceMember(workspaceId: number, userId: string): Promise<boolean>;
   getUserWorkspaceRole(workspaceId: number, userId: string): Promise<string | undefined>;
   
+  // Group operations
+  getWorkspaceGroups(workspaceId: number): Promise<WorkspaceGroup[]>;
+  getGroup(id: number): Promise<WorkspaceGroup | undefined>;
+  createGroup(group: InsertWorkspaceGroup): Promise<WorkspaceGroup>;
+  updateGroup(id: number, updates: Partial<InsertWorkspaceGroup>): Promise<WorkspaceGroup | undefined>;
+  deleteGroup(id: number): Promise<boolean>;
+  getGroupMembers(groupId: number): Promise<WorkspaceGroupMember[]>;
+  addGroupMember(member: InsertWorkspaceGroupMember): Promise<WorkspaceGroupMember>;
+  removeGroupMember(groupId: number, userId: string): Promise<boolean>;
+  getUserGroupIds(workspaceId: number, userId: string): Promise<number[]>;
+  
   // Invitation operations
   createInvitation(invitation: InsertInvitation): Promise<Invitation>;
   getInvitation(token: string): Promise<Invitation | undefined>;
@@ -75,27 +143,118 @@ export interface IStorage {
   getBlocksByPageId(pageId: number): Promise<Block[]>;
   getBlockById(id: number): Promise<Block | undefined>;
   createBlock(block: InsertBlock): Promise<Block>;
+  restoreBlock(block: InsertBlock & { id: number }): Promise<Block>;
   updateBlock(id: number, updates: UpdateBlock): Promise<Block | undefined>;
   deleteBlock(id: number): Promise<boolean>;
   reorderBlocks(pageId: number, blockIds: number[]): Promise<boolean>;
+  getWorkspaceTodoBlocks(workspaceId: number): Promise<Block[]>;
+  deleteBlocksByPageId(pageId: number): Promise<boolean>;
+  
+  // Page revision operations
+  getPageRevisions(pageId: number): Promise<PageRevision[]>;
+  getPageRevision(id: number): Promise<PageRevision | undefined>;
+  getLatestPageRevision(pageId: number): Promise<PageRevision | undefined>;
+  createPageRevision(revision: InsertPageRevision): Promise<PageRevision>;
+  updatePageRevision(id: number, updates: Partial<InsertPageRevision>): Promise<PageRevision | undefined>;
+  
+  // Database operations
+  getDatabase(id: number): Promise<Database | undefined>;
+  getWorkspaceDatabases(workspaceId: number): Promise<Database[]>;
+  createDatabase(database: InsertDatabase): Promise<Database>;
+  updateDatabase(id: number, updates: Partial<InsertDatabase>): Promise<Database | undefined>;
+  deleteDatabase(id: number): Promise<boolean>;
+  getDatabaseRows(databaseId: number): Promise<Page[]>;
+  getDatabaseViews(databaseId: number): Promise<DatabaseView[]>;
+  getDatabaseView(id: number): Promise<DatabaseView | undefined>;
+  createDatabaseView(view: InsertDatabaseView): Promise<DatabaseView>;
+  updateDatabaseView(id: number, updates: Partial<InsertDatabaseView>): Promise<DatabaseView | undefined>;
+  deleteDatabaseView(id: number): Promise<boolean>;
   
   // Comment operations
+  getComment(id: number): Promise<Comment | undefined>;
   getPageComments(pageId: number): Promise<Comment[]>;
   getBlockComments(blockId: number): Promise<Comment[]>;
   createComment(comment: InsertComment): Promise<Comment>;
   updateComment(id: number, updates: Partial<Comment>): Promise<Comment | undefined>;
   deleteComment(id: number): Promise<boolean>;
   resolveComment(id: number, resolvedBy: string): Promise<boolean>;
+  reopenComment(id: number): Promise<boolean>;
+  
+  // Mention operations
+  getPageMentions(sourcePageId: number): Promise<Mention[]>;
+  getPageBacklinks(pageId: number): Promise<Mention[]>;
+  getWorkspaceLinks(workspaceId: number): Promise<Mention[]>;
+  createMention(mention: InsertMention): Promise<Mention>;
+  deleteMentions(ids: number[]): Promise<boolean>;
   
   // Activity operations
   logActivity(activity: InsertActivity): Promise<Activity>;
   getWorkspaceActivity(workspaceId: number, limit?: number): Promise<Activity[]>;
+  getLatestAuditEntry(workspaceId: number): Promise<Activity | undefined>;
+  getUnchainedActivities(workspaceId: number): Promise<Activity[]>;
+  chainActivity(id: number, link: { seq: number; prevHash: string; hash: string }): Promise<void>;
+  queryAuditLog(workspaceId: number, filters: AuditFilters, limit: number): Promise<Activity[]>;
+  getAuditChain(workspaceId: number, afterSeq: number, limit: number): Promise<Activity[]>;
+  getLastAuditEntryBefore(workspaceId: number, time: number): Promise<Activity | undefined>;
+  getAuditAnchor(workspaceId: number): Promise<AuditAnchor | undefined>;
+  pruneAuditLog(workspaceId: number, anchor: AuditAnchor): Promise<number>;
+  
+  // Analytics operations
+  recordPageView(view: InsertPageView): Promise<PageView>;
+  getLatestPageView(pageId: number, userId: string): Promise<PageView | undefined>;
+  getPageViewsSince(workspaceId: number, since: number): Promise<PageView[]>;
+  getActivitiesSince(workspaceId: number, since: number): Promise<Activity[]>;
+  getPageEditsSince(workspaceId: number, since: number): Promise<PageEdit[]>;
+  getBlockCounts(workspaceId: number): Promise<Map<number, number>>;
   
   // Notification operations
   createNotification(notification: InsertNotification): Promise<Notification>;
-  getUserNotifications(userId: string): Promise<Notification[]>;
-  markNotificationRead(id: number): Promise<boolean>;
-  markAllNotificationsRead(userId: string): Promise<boolean>;
+  getUserNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  markNotificationsRead(userId: string, ids: number[]): Promise<number>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  deleteNotifications(userId: string, ids: number[]): Promise<number>;
+  getPendingEmailNotifications(): Promise<Notification[]>;
+  setNotificationEmailStatus(ids: number[], status: string, emailedAt?: number | null): Promise<void>;
+  
+  // Reminder operations
+  getReminder(id: number): Promise<Reminder | undefined>;
+  getPageReminders(pageId: number): Promise<Reminder[]>;
+  getDueDateReminder(pageId: number, blockId: number | null): Promise<Reminder | undefined>;
+  getPendingUserReminders(userId: string): Promise<Reminder[]>;
+  getRemindersDue(now: number, limit: number): Promise<Reminder[]>;
+  getWorkspaceDueDates(workspaceId: number): Promise<Reminder[]>;
+  getNextReminderTime(): Promise<number | undefined>;
+  createReminder(reminder: InsertReminder): Promise<Reminder>;
+  updateReminder(id: number, updates: Partial<InsertReminder>): Promise<Reminder | undefined>;
+  deleteReminder(id: number): Promise<boolean>;
+  
+  // Calendar operations
+  getCalendarEvents(workspaceId: number, from: number, to: number): Promise<CalendarEvent[]>;
+  getWorkspaceCalendarEvents(workspaceId: number): Promise<CalendarEvent[]>;
+  getCalendarEvent(id: number): Promise<CalendarEvent | undefined>;
+  getCalendarEventByUid(workspaceId: number, uid: string): Promise<CalendarEvent | undefined>;
+  createCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent>;
+  updateCalendarEvent(id: number, updates: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined>;
+  deleteCalendarEvent(id: number): Promise<boolean>;
+  
+  // Email operations
+  getEmailAccount(userId: string): Promise<EmailAccount | undefined>;
+  saveEmailAccount(account: InsertEmailAccount): Promise<EmailAccount>;
+  updateEmailAccount(userId: string, updates: Partial<InsertEmailAccount>): Promise<EmailAccount | undefined>;
+  deleteEmailAccount(userId: string): Promise<boolean>;
+  updateGmailTokens(userId: string, tokens: { accessToken: string | null; refreshToken?: string | null; expiry: number | null }): Promise<void>;
+  getEmailThreads(userId: string, label?: string): Promise<EmailThread[]>;
+  getEmailThread(id: string): Promise<EmailThread | undefined>;
+  getEmailThreadByRemoteId(userId: string, remoteId: string): Promise<EmailThread | undefined>;
+  createEmailThread(thread: InsertEmailThread): Promise<EmailThread>;
+  updateEmailThread(id: string, updates: Partial<InsertEmailThread>): Promise<EmailThread | undefined>;
+  deleteEmailThread(id: string): Promise<boolean>;
+  getEmailMessages(threadId: string): Promise<EmailMessage[]>;
+  getEmailMessage(id: string): Promise<EmailMessage | undefined>;
+  getUserEmailMessages(userId: string): Promise<EmailMessage[]>;
+  createEmailMessage(message: InsertEmailMessage): Promise<EmailMessage>;
+  updateEmailMessage(id: string, updates: Partial<InsertEmailMessage>): Promise<EmailMessage | undefined>;
+  deleteEmailMessages(ids: string[]): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -145,6 +304,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateUser(id: string, updates: Partial<UpsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(users.id, id))
+      .returning();
+    cache.invalidateUser(id);
+    return user || undefined;
+  }
+
   // Workspace operations
   async getWorkspace(id: number): Promise<Workspace | undefined> {
     // Check cache first
@@ -205,12 +374,17 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return await db.select().from(workspaces);
+  }
+
   async updateWorkspace(id: number, updates: UpdateWorkspace): Promise<Workspace | undefined> {
     const [workspace] = await db
       .update(workspaces)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, updatedAt: Date.now() })
       .where(eq(workspaces.id, id))
       .returning();
+    cache.invalidateWorkspace(id);
     return workspace || undefined;
   }
 
@@ -253,6 +427,62 @@ export class DatabaseStorage implements IStorage {
     return member?.role;
   }
 
+  // Group operations
+  async getWorkspaceGroups(workspaceId: number): Promise<WorkspaceGroup[]> {
+    return await db.select().from(workspaceGroups)
+      .where(eq(workspaceGroups.workspaceId, workspaceId))
+      .orderBy(asc(workspaceGroups.name));
+  }
+
+  async getGroup(id: number): Promise<WorkspaceGroup | undefined> {
+    const [group] = await db.select().from(workspaceGroups).where(eq(workspaceGroups.id, id));
+    return group || undefined;
+  }
+
+  async createGroup(group: InsertWorkspaceGroup): Promise<WorkspaceGroup> {
+    const [newGroup] = await db.insert(workspaceGroups).values({ ...group, createdAt: Date.now() }).returning();
+    return newGroup;
+  }
+
+  async updateGroup(id: number, updates: Partial<InsertWorkspaceGroup>): Promise<WorkspaceGroup | undefined> {
+    const [group] = await db.update(workspaceGroups).set(updates).where(eq(workspaceGroups.id, id)).returning();
+    return group || undefined;
+  }
+
+  async deleteGroup(id: number): Promise<boolean> {
+    await db.delete(workspaceGroupMembers).where(eq(workspaceGroupMembers.groupId, id));
+    const deleted = await db.delete(workspaceGroups).where(eq(workspaceGroups.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getGroupMembers(groupId: number): Promise<WorkspaceGroupMember[]> {
+    return await db.select().from(workspaceGroupMembers).where(eq(workspaceGroupMembers.groupId, groupId));
+  }
+
+  async addGroupMember(member: InsertWorkspaceGroupMember): Promise<WorkspaceGroupMember> {
+    const [existing] = await db.select().from(workspaceGroupMembers)
+      .where(and(eq(workspaceGroupMembers.groupId, member.groupId), eq(workspaceGroupMembers.userId, member.userId)));
+    if (existing) return existing;
+    const [newMember] = await db.insert(workspaceGroupMembers).values({ ...member, addedAt: Date.now() }).returning();
+    return newMember;
+  }
+
+  async removeGroupMember(groupId: number, userId: string): Promise<boolean> {
+    const deleted = await db.delete(workspaceGroupMembers)
+      .where(and(eq(workspaceGroupMembers.groupId, groupId), eq(workspaceGroupMembers.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getUserGroupIds(workspaceId: number, userId: string): Promise<number[]> {
+    const rows = await db
+      .select({ id: workspaceGroups.id })
+      .from(workspaceGroupMembers)
+      .innerJoin(workspaceGroups, eq(workspaceGroups.id, workspaceGroupMembers.groupId))
+      .where(and(eq(workspaceGroups.workspaceId, workspaceId), eq(workspaceGroupMembers.userId, userId)));
+    return rows.map(row => row.id);
+  }
+
   // Invitation operations
   async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
     const [newInvitation] = await db.insert(invitations).values(invitation).returning();
@@ -279,7 +509,7 @@ export class DatabaseStorage implements IStorage {
     // Mark invitation as accepted
     await db
       .update(invitations)
-      .set({ acceptedAt: new Date() })
+      .set({ acceptedAt: Date.now() })
       .where(eq(invitations.token, token));
 
     return true;
@@ -358,8 +588,11 @@ export class DatabaseStorage implements IStorage {
 
     const rootPages: PageWithChildren[] = [];
 
-    // Build hierarchy
+    // Build hierarchy; database rows are listed by their database, not the sidebar
     allPages.forEach(page => {
+      if (page.databaseId) {
+        return;
+      }
       const pageWithChildren = pageMap.get(page.id)!;
       if (page.parentId) {
         const parent = pageMap.get(page.parentId);
@@ -399,15 +632,20 @@ export class DatabaseStorage implements IStorage {
 
   async createPage(page: InsertPage): Promise<Page> {
     const [newPage] = await db.insert(pages).values(page).returning();
+    indexPage(newPage);
     return newPage;
   }
 
   async updatePage(id: number, updates: UpdatePage): Promise<Page | undefined> {
     const [page] = await db
       .update(pages)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, updatedAt: Date.now() })
       .where(eq(pages.id, id))
       .returning();
+    cache.invalidatePage(id);
+    if (page && updates.title !== undefined) {
+      indexPage(page);
+    }
     return page || undefined;
   }
 
@@ -420,11 +658,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deletePage(id: number): Promise<boolean> {
-    const result = await db
+    const now = Date.now();
+    const deleted = await db
       .update(pages)
-      .set({ isDeleted: true, deletedAt: new Date(), updatedAt: new Date() })
-      .where(eq(pages.id, id));
-    return result.rowCount! > 0;
+      .set({ isDeleted: true, deletedAt: now, updatedAt: now })
+      .where(eq(pages.id, id))
+      .returning();
+    cache.invalidatePage(id);
+    return deleted.length > 0;
   }
 
   async restorePage(id: number): Promise<boolean> {
@@ -463,27 +704,43 @@ export class DatabaseStorage implements IStorage {
 
   async createBlock(block: InsertBlock): Promise<Block> {
     const [newBlock] = await db.insert(blocks).values(block).returning();
+    cache.invalidateBlocks(newBlock.pageId);
+    indexBlock(newBlock);
     return newBlock;
   }
 
+  // Puts a deleted block back under its old id, so comments, reminders and other rows
+  // that point at it find it again
+  async restoreBlock(block: InsertBlock & { id: number }): Promise<Block> {
+    const [restored] = await db.insert(blocks).values(block).returning();
+    cache.invalidateBlocks(restored.pageId);
+    indexBlock(restored);
+    return restored;
+  }
+
   async updateBlock(id: number, updates: UpdateBlock): Promise<Block | undefined> {
     const [block] = await db
       .update(blocks)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, updatedAt: Date.now() })
       .where(eq(blocks.id, id))
       .returning();
     
     // Invalidate cache for the page containing this block
     if (block) {
       cache.invalidateBlocks(block.pageId);
+      indexBlock(block);
     }
     
     return block || undefined;
   }
 
   async deleteBlock(id: number): Promise<boolean> {
-    const result = await db.delete(blocks).where(eq(blocks.id, id));
-    return result.rowCount! > 0;
+    const [deleted] = await db.delete(blocks).where(eq(blocks.id, id)).returning();
+    if (deleted) {
+      cache.invalidateBlocks(deleted.pageId);
+      removeBlockFromIndex(deleted.id);
+    }
+    return !!deleted;
   }
 
   async reorderBlocks(pageId: number, blockIds: number[]): Promise<boolean> {
@@ -500,7 +757,143 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Todo blocks on the workspace's live pages, for the task inbox
+  async getWorkspaceTodoBlocks(workspaceId: number): Promise<Block[]> {
+    const rows = await db.select({ block: blocks }).from(blocks)
+      .innerJoin(pages, eq(blocks.pageId, pages.id))
+      .where(and(
+        eq(pages.workspaceId, workspaceId),
+        eq(pages.isDeleted, false),
+        eq(blocks.type, 'todo'),
+      ))
+      .orderBy(asc(blocks.pageId), asc(blocks.position));
+    return rows.map(row => row.block);
+  }
+
+  async deleteBlocksByPageId(pageId: number): Promise<boolean> {
+    await db.delete(blocks).where(eq(blocks.pageId, pageId));
+    cache.invalidateBlocks(pageId);
+    removePageBlocksFromIndex(pageId);
+    return true;
+  }
+
+  // Page revision operations
+  async getPageRevisions(pageId: number): Promise<PageRevision[]> {
+    return await db.select().from(pageRevisions)
+      .where(eq(pageRevisions.pageId, pageId))
+      .orderBy(desc(pageRevisions.createdAt), desc(pageRevisions.id));
+  }
+
+  async getPageRevision(id: number): Promise<PageRevision | undefined> {
+    const [revision] = await db.select().from(pageRevisions).where(eq(pageRevisions.id, id));
+    return revision || undefined;
+  }
+
+  async getLatestPageRevision(pageId: number): Promise<PageRevision | undefined> {
+    const [revision] = await db.select().from(pageRevisions)
+      .where(eq(pageRevisions.pageId, pageId))
+      .orderBy(desc(pageRevisions.id))
+      .limit(1);
+    return revision || undefined;
+  }
+
+  async createPageRevision(revision: InsertPageRevision): Promise<PageRevision> {
+    const now = Date.now();
+    const [newRevision] = await db.insert(pageRevisions)
+      .values({ ...revision, createdAt: now, updatedAt: now })
+      .returning();
+    return newRevision;
+  }
+
+  async updatePageRevision(id: number, updates: Partial<InsertPageRevision>): Promise<PageRevision | undefined> {
+    const [revision] = await db
+      .update(pageRevisions)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(pageRevisions.id, id))
+      .returning();
+    return revision || undefined;
+  }
+
+  // Database operations
+  async getDatabase(id: number): Promise<Database | undefined> {
+    const [database] = await db.select().from(databases).where(eq(databases.id, id));
+    return database || undefined;
+  }
+
+  async getWorkspaceDatabases(workspaceId: number): Promise<Database[]> {
+    return await db.select().from(databases)
+      .where(eq(databases.workspaceId, workspaceId))
+      .orderBy(asc(databases.title));
+  }
+
+  async createDatabase(database: InsertDatabase): Promise<Database> {
+    const now = Date.now();
+    const [newDatabase] = await db.insert(databases)
+      .values({ ...database, createdAt: now, updatedAt: now })
+      .returning();
+    return newDatabase;
+  }
+
+  async updateDatabase(id: number, updates: Partial<InsertDatabase>): Promise<Database | undefined> {
+    const [database] = await db
+      .update(databases)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(databases.id, id))
+      .returning();
+    return database || undefined;
+  }
+
+  async deleteDatabase(id: number): Promise<boolean> {
+    await db.delete(databaseViews).where(eq(databaseViews.databaseId, id));
+    const deleted = await db.delete(databases).where(eq(databases.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getDatabaseRows(databaseId: number): Promise<Page[]> {
+    return await db.select().from(pages)
+      .where(and(eq(pages.databaseId, databaseId), eq(pages.isDeleted, false)))
+      .orderBy(asc(pages.createdAt), asc(pages.id));
+  }
+
+  async getDatabaseViews(databaseId: number): Promise<DatabaseView[]> {
+    return await db.select().from(databaseViews)
+      .where(eq(databaseViews.databaseId, databaseId))
+      .orderBy(asc(databaseViews.position), asc(databaseViews.id));
+  }
+
+  async getDatabaseView(id: number): Promise<DatabaseView | undefined> {
+    const [view] = await db.select().from(databaseViews).where(eq(databaseViews.id, id));
+    return view || undefined;
+  }
+
+  async createDatabaseView(view: InsertDatabaseView): Promise<DatabaseView> {
+    const now = Date.now();
+    const [newView] = await db.insert(databaseViews)
+      .values({ ...view, createdAt: now, updatedAt: now })
+      .returning();
+    return newView;
+  }
+
+  async updateDatabaseView(id: number, updates: Partial<InsertDatabaseView>): Promise<DatabaseView | undefined> {
+    const [view] = await db
+      .update(databaseViews)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(databaseViews.id, id))
+      .returning();
+    return view || undefined;
+  }
+
+  async deleteDatabaseView(id: number): Promise<boolean> {
+    const deleted = await db.delete(databaseViews).where(eq(databaseViews.id, id)).returning();
+    return deleted.length > 0;
+  }
+
   // Comment operations
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment || undefined;
+  }
+
   async getPageComments(pageId: number): Promise<Comment[]> {
     return await db.select().from(comments).where(eq(comments.pageId, pageId)).orderBy(desc(comments.createdAt));
   }
@@ -510,35 +903,76 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createComment(comment: InsertComment): Promise<Comment> {
-    const [newComment] = await db.insert(comments).values(comment).returning();
+    const now = Date.now();
+    const [newComment] = await db.insert(comments).values({ ...comment, createdAt: now, updatedAt: now }).returning();
     return newComment;
   }
 
   async updateComment(id: number, updates: Partial<Comment>): Promise<Comment | undefined> {
     const [comment] = await db
       .update(comments)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, updatedAt: Date.now() })
       .where(eq(comments.id, id))
       .returning();
     return comment || undefined;
   }
 
+  // Deleting a thread's root comment takes its replies with it
   async deleteComment(id: number): Promise<boolean> {
-    const result = await db.delete(comments).where(eq(comments.id, id));
-    return result.rowCount! > 0;
+    await db.delete(comments).where(eq(comments.parentId, id));
+    const deleted = await db.delete(comments).where(eq(comments.id, id)).returning();
+    return deleted.length > 0;
   }
 
   async resolveComment(id: number, resolvedBy: string): Promise<boolean> {
-    const result = await db
+    const now = Date.now();
+    const resolved = await db
       .update(comments)
-      .set({ isResolved: true, resolvedBy, resolvedAt: new Date(), updatedAt: new Date() })
-      .where(eq(comments.id, id));
-    return result.rowCount! > 0;
+      .set({ isResolved: true, resolvedBy, resolvedAt: now, updatedAt: now })
+      .where(eq(comments.id, id))
+      .returning();
+    return resolved.length > 0;
+  }
+
+  async reopenComment(id: number): Promise<boolean> {
+    const reopened = await db
+      .update(comments)
+      .set({ isResolved: false, resolvedBy: null, resolvedAt: null, updatedAt: Date.now() })
+      .where(eq(comments.id, id))
+      .returning();
+    return reopened.length > 0;
+  }
+
+  // Mention operations
+  async getPageMentions(sourcePageId: number): Promise<Mention[]> {
+    return await db.select().from(mentions).where(eq(mentions.sourcePageId, sourcePageId));
+  }
+
+  async getPageBacklinks(pageId: number): Promise<Mention[]> {
+    return await db.select().from(mentions)
+      .where(and(inArray(mentions.targetType, ['page', 'link']), eq(mentions.targetId, pageId.toString())))
+      .orderBy(desc(mentions.createdAt));
+  }
+
+  async getWorkspaceLinks(workspaceId: number): Promise<Mention[]> {
+    return await db.select().from(mentions)
+      .where(and(eq(mentions.workspaceId, workspaceId), inArray(mentions.targetType, ['page', 'link'])));
+  }
+
+  async createMention(mention: InsertMention): Promise<Mention> {
+    const [newMention] = await db.insert(mentions).values({ ...mention, createdAt: Date.now() }).returning();
+    return newMention;
+  }
+
+  async deleteMentions(ids: number[]): Promise<boolean> {
+    if (ids.length === 0) return false;
+    const deleted = await db.delete(mentions).where(inArray(mentions.id, ids)).returning();
+    return deleted.length > 0;
   }
 
   // Activity operations
   async logActivity(activity: InsertActivity): Promise<Activity> {
-    const [newActivity] = await db.insert(activities).values(activity).returning();
+    const [newActivity] = await db.insert(activities).values({ ...activity, createdAt: activity.createdAt ?? Date.now() }).returning();
     return newActivity;
   }
 
@@ -549,83 +983,554 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getLatestAuditEntry(workspaceId: number): Promise<Activity | undefined> {
+    const [entry] = await db.select().from(activities)
+      .where(and(eq(activities.workspaceId, workspaceId), isNotNull(activities.seq)))
+      .orderBy(desc(activities.seq))
+      .limit(1);
+    return entry;
+  }
+
+  async getUnchainedActivities(workspaceId: number): Promise<Activity[]> {
+    return await db.select().from(activities)
+      .where(and(eq(activities.workspaceId, workspaceId), isNull(activities.seq)))
+      .orderBy(asc(activities.id));
+  }
+
+  async chainActivity(id: number, link: { seq: number; prevHash: string; hash: string }): Promise<void> {
+    await db.update(activities).set(link).where(eq(activities.id, id));
+  }
+
+  async queryAuditLog(workspaceId: number, filters: AuditFilters, limit: number): Promise<Activity[]> {
+    const conditions: SQL[] = [eq(activities.workspaceId, workspaceId), isNotNull(activities.seq)];
+    if (filters.userId) conditions.push(eq(activities.userId, filters.userId));
+    if (filters.resourceType) conditions.push(eq(activities.resourceType, filters.resourceType));
+    if (filters.resourceId) conditions.push(eq(activities.resourceId, filters.resourceId));
+    if (filters.from !== undefined) conditions.push(gte(activities.createdAt, filters.from));
+    if (filters.to !== undefined) conditions.push(lt(activities.createdAt, filters.to));
+    if (filters.beforeSeq !== undefined) conditions.push(lt(activities.seq, filters.beforeSeq));
+    const actionMatches: SQL[] = [
+      ...(filters.actions?.length ? [inArray(activities.action, filters.actions)] : []),
+      ...(filters.actionPrefixes ?? []).map(prefix => like(activities.action, `${prefix}%`)),
+    ];
+    if (actionMatches.length > 0) conditions.push(or(...actionMatches)!);
+
+    return await db.select().from(activities)
+      .where(and(...conditions))
+      .orderBy(desc(activities.seq))
+      .limit(limit);
+  }
+
+  async getAuditChain(workspaceId: number, afterSeq: number, limit: number): Promise<Activity[]> {
+    return await db.select().from(activities)
+      .where(and(eq(activities.workspaceId, workspaceId), gt(activities.seq, afterSeq)))
+      .orderBy(asc(activities.seq))
+      .limit(limit);
+  }
+
+  async getLastAuditEntryBefore(workspaceId: number, time: number): Promise<Activity | undefined> {
+    const [entry] = await db.select().from(activities)
+      .where(and(eq(activities.workspaceId, workspaceId), isNotNull(activities.seq), lt(activities.createdAt, time)))
+      .orderBy(desc(activities.seq))
+      .limit(1);
+    return entry;
+  }
+
+  async getAuditAnchor(workspaceId: number): Promise<AuditAnchor | undefined> {
+    const [anchor] = await db.select().from(auditAnchors).where(eq(auditAnchors.workspaceId, workspaceId));
+    return anchor;
+  }
+
+  // Removes entries up to and including the anchor and records where the chain now starts
+  async pruneAuditLog(workspaceId: number, anchor: AuditAnchor): Promise<number> {
+    return db.transaction((tx) => {
+      const removed = tx.delete(activities)
+        .where(and(eq(activities.workspaceId, workspaceId), isNotNull(activities.seq), lte(activities.seq, anchor.seq)))
+        .run();
+      tx.insert(auditAnchors).values(anchor)
+        .onConflictDoUpdate({ target: auditAnchors.workspaceId, set: { seq: anchor.seq, hash: anchor.hash, prunedAt: anchor.prunedAt } })
+        .run();
+      return removed.changes;
+    });
+  }
+
+  // Analytics operations
+  async recordPageView(view: InsertPageView): Promise<PageView> {
+    const [newView] = await db.insert(pageViews).values(view).returning();
+    return newView;
+  }
+
+  async getLatestPageView(pageId: number, userId: string): Promise<PageView | undefined> {
+    const [view] = await db.select().from(pageViews)
+      .where(and(eq(pageViews.pageId, pageId), eq(pageViews.userId, userId)))
+      .orderBy(desc(pageViews.viewedAt))
+      .limit(1);
+    return view;
+  }
+
+  async getPageViewsSince(workspaceId: number, since: number): Promise<PageView[]> {
+    return await db.select().from(pageViews)
+      .where(and(eq(pageViews.workspaceId, workspaceId), gt(pageViews.viewedAt, since)));
+  }
+
+  async getActivitiesSince(workspaceId: number, since: number): Promise<Activity[]> {
+    return await db.select().from(activities)
+      .where(and(eq(activities.workspaceId, workspaceId), gt(activities.createdAt, since)));
+  }
+
+  // Edit revisions without their snapshots; restores are not authored edits
+  async getPageEditsSince(workspaceId: number, since: number): Promise<PageEdit[]> {
+    return await db.select({ pageId: pageRevisions.pageId, userId: pageRevisions.createdBy, editedAt: pageRevisions.updatedAt })
+      .from(pageRevisions)
+      .where(and(
+        eq(pageRevisions.workspaceId, workspaceId),
+        eq(pageRevisions.reason, 'edit'),
+        gt(pageRevisions.updatedAt, since)
+      ));
+  }
+
+  // Blocks per page, for pages in the workspace
+  async getBlockCounts(workspaceId: number): Promise<Map<number, number>> {
+    const rows = await db.select({ pageId: blocks.pageId, count: sql<number>`count(*)` })
+      .from(blocks)
+      .innerJoin(pages, eq(pages.id, blocks.pageId))
+      .where(eq(pages.workspaceId, workspaceId))
+      .groupBy(blocks.pageId);
+    return new Map(rows.map(row => [row.pageId, Number(row.count)]));
+  }
+
   // Notification operations
   async createNotification(notification: InsertNotification): Promise<Notification> {
-    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    const [newNotification] = await db.insert(notifications).values({ ...notification, createdAt: Date.now() }).returning();
     return newNotification;
   }
 
-  async getUserNotifications(userId: string): Promise<Notification[]> {
+  async getUserNotifications(userId: string, limit: number = 200): Promise<Notification[]> {
     return await db.select().from(notifications)
       .where(eq(notifications.userId, userId))
-      .orderBy(desc(notifications.createdAt));
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
   }
 
-  async markNotificationRead(id: number): Promise<boolean> {
-    const result = await db
+  // Only touches the user's own notifications; returns how many changed
+  async markNotificationsRead(userId: string, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const updated = await db
       .update(notifications)
       .set({ isRead: true })
-      .where(eq(notifications.id, id));
-    return result.rowCount! > 0;
+      .where(and(eq(notifications.userId, userId), inArray(notifications.id, ids), eq(notifications.isRead, false)))
+      .returning();
+    return updated.length;
   }
 
-  async markAllNotificationsRead(userId: string): Promise<boolean> {
-    const result = await db
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
       .update(notifications)
       .set({ isRead: true })
-      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
-    return result.rowCount! > 0;
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning();
+    return updated.length;
+  }
+
+  async deleteNotifications(userId: string, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const deleted = await db.delete(notifications)
+      .where(and(eq(notifications.userId, userId), inArray(notifications.id, ids)))
+      .returning();
+    return deleted.length;
+  }
+
+  // Notifications waiting for a digest email, oldest first
+  async getPendingEmailNotifications(): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.emailStatus, 'pending'))
+      .orderBy(asc(notifications.createdAt), asc(notifications.id));
+  }
+
+  async setNotificationEmailStatus(ids: number[], status: string, emailedAt: number | null = null): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(notifications)
+      .set({ emailStatus: status, emailedAt })
+      .where(inArray(notifications.id, ids));
+  }
+
+  // Reminder operations
+  async getReminder(id: number): Promise<Reminder | undefined> {
+    const [reminder] = await db.select().from(reminders).where(eq(reminders.id, id));
+    return reminder;
+  }
+
+  async getPageReminders(pageId: number): Promise<Reminder[]> {
+    return await db.select().from(reminders)
+      .where(eq(reminders.pageId, pageId))
+      .orderBy(asc(reminders.remindAt), asc(reminders.id));
+  }
+
+  // A page or block has at most one due date; blockId null means the page's own
+  async getDueDateReminder(pageId: number, blockId: number | null): Promise<Reminder | undefined> {
+    const [reminder] = await db.select().from(reminders)
+      .where(and(
+        eq(reminders.pageId, pageId),
+        blockId === null ? isNull(reminders.blockId) : eq(reminders.blockId, blockId),
+        eq(reminders.kind, 'due'),
+      ));
+    return reminder;
+  }
+
+  async getPendingUserReminders(userId: string): Promise<Reminder[]> {
+    return await db.select().from(reminders)
+      .where(and(eq(reminders.userId, userId), eq(reminders.status, 'pending')));
+  }
+
+  // Pending reminders whose time has come, earliest first
+  async getRemindersDue(now: number, limit: number): Promise<Reminder[]> {
+    return await db.select().from(reminders)
+      .where(and(eq(reminders.status, 'pending'), lte(reminders.remindAt, now)))
+      .orderBy(asc(reminders.remindAt), asc(reminders.id))
+      .limit(limit);
+  }
+
+  async getWorkspaceDueDates(workspaceId: number): Promise<Reminder[]> {
+    return await db.select().from(reminders)
+      .where(and(eq(reminders.workspaceId, workspaceId), eq(reminders.kind, 'due'), isNotNull(reminders.blockId)));
+  }
+
+  async getNextReminderTime(): Promise<number | undefined> {
+    const [next] = await db.select({ remindAt: reminders.remindAt }).from(reminders)
+      .where(eq(reminders.status, 'pending'))
+      .orderBy(asc(reminders.remindAt))
+      .limit(1);
+    return next?.remindAt;
+  }
+
+  async createReminder(reminder: InsertReminder): Promise<Reminder> {
+    const now = Date.now();
+    const [newReminder] = await db.insert(reminders).values({ ...reminder, createdAt: now, updatedAt: now }).returning();
+    return newReminder;
+  }
+
+  async updateReminder(id: number, updates: Partial<InsertReminder>): Promise<Reminder | undefined> {
+    const [updated] = await db.update(reminders)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(reminders.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteReminder(id: number): Promise<boolean> {
+    const deleted = await db.delete(reminders).where(eq(reminders.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Calendar operations
+  // Events that may touch [from, to). Recurring series are returned whenever they start
+  // before `to`; expanding them into occurrences is up to the caller.
+  async getCalendarEvents(workspaceId: number, from: number, to: number): Promise<CalendarEvent[]> {
+    return await db.select().from(calendarEvents)
+      .where(and(
+        eq(calendarEvents.workspaceId, workspaceId),
+        lt(calendarEvents.startDate, to),
+        or(gt(calendarEvents.endDate, from), ne(calendarEvents.recurrence, 'none'))
+      ))
+      .orderBy(asc(calendarEvents.startDate));
+  }
+
+  async getWorkspaceCalendarEvents(workspaceId: number): Promise<CalendarEvent[]> {
+    return await db.select().from(calendarEvents)
+      .where(eq(calendarEvents.workspaceId, workspaceId))
+      .orderBy(asc(calendarEvents.startDate));
+  }
+
+  async getCalendarEvent(id: number): Promise<CalendarEvent | undefined> {
+    const [event] = await db.select().from(calendarEvents).where(eq(calendarEvents.id, id));
+    return event;
+  }
+
+  async getCalendarEventByUid(workspaceId: number, uid: string): Promise<CalendarEvent | undefined> {
+    const [event] = await db.select().from(calendarEvents)
+      .where(and(eq(calendarEvents.workspaceId, workspaceId), eq(calendarEvents.uid, uid)));
+    return event;
+  }
+
+  async createCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent> {
+    const [newEvent] = await db.insert(calendarEvents).values({ ...event, createdAt: Date.now(), updatedAt: Date.now() }).returning();
+    return newEvent;
+  }
+
+  async updateCalendarEvent(id: number, updates: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined> {
+    const [event] = await db.update(calendarEvents)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(calendarEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  async deleteCalendarEvent(id: number): Promise<boolean> {
+    const deleted = await db.delete(calendarEvents).where(eq(calendarEvents.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Email operations
+  async getEmailAccount(userId: string): Promise<EmailAccount | undefined> {
+    const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.userId, userId));
+    return account;
+  }
+
+  // One account per user; connecting again replaces the previous one
+  async saveEmailAccount(account: InsertEmailAccount): Promise<EmailAccount> {
+    const [saved] = await db.insert(emailAccounts)
+      .values({ ...account, createdAt: Date.now(), updatedAt: Date.now() })
+      .onConflictDoUpdate({
+        target: emailAccounts.userId,
+        set: { ...account, lastSyncedAt: null, lastError: null, updatedAt: Date.now() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateEmailAccount(userId: string, updates: Partial<InsertEmailAccount>): Promise<EmailAccount | undefined> {
+    const [account] = await db.update(emailAccounts)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(emailAccounts.userId, userId))
+      .returning();
+    return account;
+  }
+
+  // Drops the account together with the mail cached for it
+  async deleteEmailAccount(userId: string): Promise<boolean> {
+    const threadIds = db.select({ id: emailThreads.id }).from(emailThreads).where(eq(emailThreads.userId, userId));
+    await db.delete(emailMessages).where(inArray(emailMessages.threadId, threadIds));
+    await db.delete(emailThreads).where(eq(emailThreads.userId, userId));
+    const deleted = await db.delete(emailAccounts).where(eq(emailAccounts.userId, userId)).returning();
+    return deleted.length > 0;
+  }
+
+  // Omitting refreshToken keeps the stored one, since Google only sends it on first consent
+  async updateGmailTokens(userId: string, tokens: { accessToken: string | null; refreshToken?: string | null; expiry: number | null }): Promise<void> {
+    await db.update(users)
+      .set({
+        gmailAccessToken: tokens.accessToken,
+        gmailTokenExpiry: tokens.expiry,
+        ...(tokens.refreshToken !== undefined ? { gmailRefreshToken: tokens.refreshToken } : {}),
+        updatedAt: Date.now(),
+      })
+      .where(eq(users.id, userId));
+    cache.invalidateUser(userId);
+  }
+
+  // `label` matches one entry of the labels JSON array
+  async getEmailThreads(userId: string, label?: string): Promise<EmailThread[]> {
+    return await db.select().from(emailThreads)
+      .where(and(
+        eq(emailThreads.userId, userId),
+        label ? like(emailThreads.labels, `%"${label}"%`) : undefined
+      ))
+      .orderBy(desc(emailThreads.lastMessageDate));
+  }
+
+  async getEmailThread(id: string): Promise<EmailThread | undefined> {
+    const [thread] = await db.select().from(emailThreads).where(eq(emailThreads.id, id));
+    return thread;
+  }
+
+  async getEmailThreadByRemoteId(userId: string, remoteId: string): Promise<EmailThread | undefined> {
+    const [thread] = await db.select().from(emailThreads)
+      .where(and(eq(emailThreads.userId, userId), eq(emailThreads.gmailThreadId, remoteId)));
+    return thread;
+  }
+
+  async createEmailThread(thread: InsertEmailThread): Promise<EmailThread> {
+    const [newThread] = await db.insert(emailThreads).values({ ...thread, createdAt: Date.now(), updatedAt: Date.now() }).returning();
+    return newThread;
+  }
+
+  async updateEmailThread(id: string, updates: Partial<InsertEmailThread>): Promise<EmailThread | undefined> {
+    const [thread] = await db.update(emailThreads)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(emailThreads.id, id))
+      .returning();
+    return thread;
+  }
+
+  async deleteEmailThread(id: string): Promise<boolean> {
+    await db.delete(emailMessages).where(eq(emailMessages.threadId, id));
+    const deleted = await db.delete(emailThreads).where(eq(emailThreads.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getEmailMessages(threadId: string): Promise<EmailMessage[]> {
+    return await db.select().from(emailMessages)
+      .where(eq(emailMessages.threadId, threadId))
+      .orderBy(asc(emailMessages.date));
+  }
+
+  async getEmailMessage(id: string): Promise<EmailMessage | undefined> {
+    const [message] = await db.select().from(emailMessages).where(eq(emailMessages.id, id));
+    return message;
+  }
+
+  async getUserEmailMessages(userId: string): Promise<EmailMessage[]> {
+    const threadIds = db.select({ id: emailThreads.id }).from(emailThreads).where(eq(emailThreads.userId, userId));
+    return await db.select().from(emailMessages).where(inArray(emailMessages.threadId, threadIds));
+  }
+
+  async createEmailMessage(message: InsertEmailMessage): Promise<EmailMessage> {
+    const [newMessage] = await db.insert(emailMessages).values({ ...message, createdAt: Date.now(), updatedAt: Date.now() }).returning();
+    return newMessage;
+  }
+
+  async updateEmailMessage(id: string, updates: Partial<InsertEmailMessage>): Promise<EmailMessage | undefined> {
+    const [message] = await db.update(emailMessages)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(emailMessages.id, id))
+      .returning();
+    return message;
+  }
+
+  async deleteEmailMessages(ids: string[]): Promise<boolean> {
+    if (ids.length === 0) return false;
+    const deleted = await db.delete(emailMessages).where(inArray(emailMessages.id, ids)).returning();
+    return deleted.length > 0;
   }
 
   // MFA Methods
   async getMFASettings(userId: string): Promise<UserMFA | undefined> {
-    try {
-      const [mfa] = await db.select().from(userMFA).where(eq(userMFA.userId, userId));
-      return mfa;
-    } catch (error) {
-      console.error('Error getting MFA settings:', error);
-      return undefined;
-    }
+    const [mfa] = await db.select().from(userMFA).where(eq(userMFA.userId, userId));
+    return mfa;
   }
 
+  // Starts (or restarts) enrollment with a new secret; the row stays disabled until confirmed
   async setupMFA(userId: string, secret: string): Promise<UserMFA> {
+    const now = Date.now();
+    await db.delete(userMFA).where(eq(userMFA.userId, userId));
     const [mfa] = await db.insert(userMFA).values({
       userId,
       secret,
-      backupCodes: [],
-      isEnabled: false
+      backupCodes: '[]',
+      isEnabled: false,
+      createdAt: now,
+      updatedAt: now,
     }).returning();
     return mfa;
   }
 
-  async enableMFA(userId: string, backupCodes: string[]): Promise<UserMFA> {
+  async enableMFA(userId: string, backupCodeHashes: string[], counter: number): Promise<UserMFA | undefined> {
+    return await this.updateMFA(userId, {
+      isEnabled: true,
+      backupCodes: JSON.stringify(backupCodeHashes),
+      lastCounter: counter,
+      lastUsed: Date.now(),
+    });
+  }
+
+  async updateMFA(userId: string, updates: Partial<InsertUserMFA>): Promise<UserMFA | undefined> {
     const [mfa] = await db.update(userMFA)
-      .set({ isEnabled: true, backupCodes, lastUsed: new Date() })
+      .set({ ...updates, updatedAt: Date.now() })
       .where(eq(userMFA.userId, userId))
       .returning();
     return mfa;
   }
 
   async disableMFA(userId: string): Promise<boolean> {
-    try {
-      await db.delete(userMFA).where(eq(userMFA.userId, userId));
-      return true;
-    } catch (error) {
-      console.error('Error disabling MFA:', error);
-      return false;
-    }
+    const deleted = await db.delete(userMFA).where(eq(userMFA.userId, userId)).returning();
+    return deleted.length > 0;
   }
 
-  async generateBackupCodes(userId: string): Promise<string[]> {
-    const codes = Array.from({ length: 8 }, () => 
-      Math.random().toString(36).substring(2, 15).toUpperCase()
-    );
-    
-    await db.update(userMFA)
-      .set({ backupCodes: codes })
-      .where(eq(userMFA.userId, userId));
-    
-    return codes;
+  // Passkey Methods
+  async getWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]> {
+    return await db.select().from(webauthnCredentials)
+      .where(eq(webauthnCredentials.userId, userId))
+      .orderBy(asc(webauthnCredentials.createdAt));
+  }
+
+  async getWebAuthnCredential(id: number): Promise<WebAuthnCredential | undefined> {
+    const [credential] = await db.select().from(webauthnCredentials).where(eq(webauthnCredentials.id, id));
+    return credential;
+  }
+
+  async getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | undefined> {
+    const [credential] = await db.select().from(webauthnCredentials).where(eq(webauthnCredentials.credentialId, credentialId));
+    return credential;
+  }
+
+  async createWebAuthnCredential(credential: InsertWebAuthnCredential): Promise<WebAuthnCredential> {
+    const now = Date.now();
+    const [created] = await db.insert(webauthnCredentials).values({ ...credential, createdAt: now, updatedAt: now }).returning();
+    return created;
+  }
+
+  async updateWebAuthnCredential(id: number, updates: Partial<InsertWebAuthnCredential>): Promise<WebAuthnCredential | undefined> {
+    const [updated] = await db.update(webauthnCredentials)
+      .set({ ...updates, updatedAt: Date.now() })
+      .where(eq(webauthnCredentials.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebAuthnCredential(id: number): Promise<boolean> {
+    const deleted = await db.delete(webauthnCredentials).where(eq(webauthnCredentials.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Session Methods
+  async getSession(sid: string): Promise<Session | undefined> {
+    const [row] = await db.select().from(sessions).where(eq(sessions.sid, sid));
+    return row;
+  }
+
+  // The first save of a session fixes when it started; later saves keep that
+  async saveSession(session: InsertSession): Promise<void> {
+    const now = Date.now();
+    await db.insert(sessions)
+      .values({ ...session, createdAt: now, lastSeenAt: now })
+      .onConflictDoUpdate({
+        target: sessions.sid,
+        set: {
+          sess: session.sess,
+          expire: session.expire,
+          userId: session.userId,
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+          lastSeenAt: now,
+        },
+      });
+  }
+
+  // Called on every request, so the last-seen time is only written once a minute
+  async touchSession(sid: string, expire: number): Promise<void> {
+    const now = Date.now();
+    await db.update(sessions)
+      .set({ expire, lastSeenAt: now })
+      .where(and(
+        eq(sessions.sid, sid),
+        or(isNull(sessions.lastSeenAt), lt(sessions.lastSeenAt, now - 60 * 1000))
+      ));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const deleted = await db.delete(sessions).where(eq(sessions.sid, sid)).returning();
+    return deleted.length > 0;
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return await db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expire, Date.now())))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const deleted = await db.delete(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        exceptSid ? ne(sessions.sid, exceptSid) : undefined
+      ))
+      .returning();
+    return deleted.length;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const deleted = await db.delete(sessions).where(lte(sessions.expire, Date.now())).returning();
+    return deleted.length;
   }
 
   // Business Page Methods
@@ -663,13 +1568,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPageShare(pageShare: InsertPageShare): Promise<PageShare> {
-    const [share] = await db.insert(pageShares).values(pageShare).returning();
+    const [share] = await db.insert(pageShares).values({ ...pageShare, createdAt: Date.now(), updatedAt: Date.now() }).returning();
     return share;
   }
 
   async updatePageShare(id: number, updates: Partial<PageShare>): Promise<PageShare | undefined> {
     const [share] = await db.update(pageShares)
-      .set(updates)
+      .set({ ...updates, updatedAt: Date.now() })
       .where(eq(pageShares.id, id))
       .returning();
     return share;
@@ -690,6 +1595,12 @@ export class DatabaseStorage implements IStorage {
     return share;
   }
 
+  async recordShareView(id: number): Promise<void> {
+    await db.update(pageShares)
+      .set({ viewCount: sql`${pageShares.viewCount} + 1`, lastAccessed: Date.now() })
+      .where(eq(pageShares.id, id));
+  }
+
   // Collaboration Methods
   async logCollaborationCursor(cursor: InsertCollaborationCursor): Promise<CollaborationCursor> {
     const [cursorData] = await db.insert(collaborationCursors).values(cursor).returning();
@@ -0,0 +1,177 @@
+import { storage } from './storage';
+import { getPageAccess, getWorkspacePageAccess, hasAccess } from './permissions';
+import { toAuthor } from './comments';
+import { blockText, mentionsToPlainText } from './mentions';
+import { blockSync, parseBlockContent, parseBlockProperties } from './block-sync';
+import { trackPageEdit } from './revisions';
+import { setDueDateRecipient, userTimeZone } from './reminders';
+import { toWallTime } from './calendar';
+import {
+  taskQuerySchema, updateTaskSchema,
+  type Block, type CommentAuthor, type Page, type Reminder, type TaskView,
+} from '@shared/schema';
+
+// Task inbox: every todo block in a workspace the caller can see, with its assignee
+// (block properties) and due date (the block's due date reminder).
+
+export class TaskError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TaskError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(time: number, timeZone: string): string {
+  const wall = toWallTime(time, timeZone);
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
+
+// All-day due dates are overdue once their day is over; timed ones once the time passes
+function isOverdue(due: Reminder, today: string, now: number): boolean {
+  return due.date < today || (due.date === today && due.time !== null && due.remindAt <= now);
+}
+
+function toTask(block: Block, page: Page, due: Reminder | undefined, assignee: CommentAuthor | null, today: string, now: number): TaskView {
+  const checked = parseBlockContent(block.content).checked === true;
+  return {
+    blockId: block.id,
+    pageId: page.id,
+    pageTitle: page.title,
+    pageIcon: page.icon,
+    text: mentionsToPlainText(blockText(block)).trim(),
+    checked,
+    assignee,
+    dueDate: due ? { reminderId: due.id, date: due.date, time: due.time } : null,
+    isOverdue: !checked && !!due && isOverdue(due, today, now),
+    createdBy: block.createdBy,
+    createdAt: block.createdAt,
+    updatedAt: block.updatedAt,
+  };
+}
+
+function dueKey(task: TaskView): string {
+  // Undated tasks sort after every date; all-day ones after timed ones on the same day
+  return task.dueDate ? `${task.dueDate.date} ${task.dueDate.time ?? '24:00'}` : '~';
+}
+
+function compareTasks(sort: string): (a: TaskView, b: TaskView) => number {
+  switch (sort) {
+    case 'page':
+      return (a, b) => a.pageTitle.localeCompare(b.pageTitle) || a.pageId - b.pageId;
+    case 'created':
+      return (a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0);
+    case 'updated':
+      return (a, b) => (a.updatedAt ?? 0) - (b.updatedAt ?? 0);
+    default:
+      return (a, b) => dueKey(a).localeCompare(dueKey(b));
+  }
+}
+
+export async function listTasks(workspaceId: number, userId: string, input: unknown): Promise<TaskView[]> {
+  const parsed = taskQuerySchema.safeParse(input);
+  if (!parsed.success) {
+    throw new TaskError(parsed.error.issues[0]?.message ?? 'Invalid task filter');
+  }
+  const query = parsed.data;
+  if (!await storage.getUserWorkspaceRole(workspaceId, userId)) {
+    throw new TaskError('Access denied', 403);
+  }
+
+  const timeZone = userTimeZone(await storage.getUser(userId));
+  const now = Date.now();
+  const today = isoDate(now, timeZone);
+  const weekEnd = isoDate(now + 6 * DAY_MS, timeZone);
+
+  const access = await getWorkspacePageAccess(workspaceId, userId);
+  const pages = new Map((await storage.getPagesByWorkspace(workspaceId)).map(page => [page.id, page]));
+  const dueDates = new Map((await storage.getWorkspaceDueDates(workspaceId)).map(due => [due.blockId!, due]));
+  const search = query.q?.trim().toLowerCase();
+
+  const authors = new Map<string, CommentAuthor>();
+  const authorOf = async (id: string) => {
+    if (!authors.has(id)) authors.set(id, toAuthor(id, await storage.getUser(id)));
+    return authors.get(id)!;
+  };
+
+  const tasks: TaskView[] = [];
+  for (const block of await storage.getWorkspaceTodoBlocks(workspaceId)) {
+    const page = pages.get(block.pageId);
+    const level = access.get(block.pageId) ?? 'none';
+    if (!page || page.isArchived || level === 'none') continue;
+    if (query.pageId !== undefined && block.pageId !== query.pageId) continue;
+
+    const assigneeId = parseBlockProperties(block.properties).assigneeId ?? null;
+    if (query.assignee === 'me') {
+      if (assigneeId ? assigneeId !== userId : block.createdBy !== userId) continue;
+    } else if (query.assignee === 'unassigned') {
+      if (assigneeId) continue;
+    } else if (query.assignee !== 'anyone' && assigneeId !== query.assignee) {
+      continue;
+    }
+
+    const task = toTask(block, page, dueDates.get(block.id), assigneeId ? await authorOf(assigneeId) : null, today, now);
+    if (query.status === 'open' && task.checked) continue;
+    if (query.status === 'done' && !task.checked) continue;
+
+    const dueDate = task.dueDate?.date;
+    if (query.due === 'overdue' && !task.isOverdue) continue;
+    if (query.due === 'today' && dueDate !== today) continue;
+    if (query.due === 'week' && !(dueDate && dueDate >= today && dueDate <= weekEnd)) continue;
+    if (query.due === 'scheduled' && !dueDate) continue;
+    if (query.due === 'none' && dueDate) continue;
+
+    if (search && !task.text.toLowerCase().includes(search) && !task.pageTitle.toLowerCase().includes(search)) continue;
+    tasks.push(task);
+  }
+
+  const compare = compareTasks(query.sort);
+  tasks.sort((a, b) => (query.order === 'desc' ? compare(b, a) : compare(a, b)) || a.pageId - b.pageId || a.blockId - b.blockId);
+  return tasks;
+}
+
+// Ticks a task or (re)assigns it. Needs edit access on the block's page; assignees must
+// be members who can see that page.
+export async function updateTask(blockId: number, userId: string, input: unknown): Promise<{ task: TaskView; block: Block; page: Page }> {
+  const parsed = updateTaskSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new TaskError(parsed.error.issues[0]?.message ?? 'Invalid task');
+  }
+  const { checked, assigneeId } = parsed.data;
+
+  let block = await storage.getBlockById(blockId);
+  const page = block ? await storage.getPage(block.pageId) : undefined;
+  if (!block || block.type !== 'todo' || !page) {
+    throw new TaskError('Task not found', 404);
+  }
+  const level = await getPageAccess(page, userId);
+  if (level === 'none') {
+    throw new TaskError('Task not found', 404);
+  }
+  if (!hasAccess(level, 'edit')) {
+    throw new TaskError('Access denied', 403);
+  }
+
+  if (assigneeId !== undefined) {
+    if (assigneeId !== null && (await getPageAccess(page, assigneeId)) === 'none') {
+      throw new TaskError('Assignee cannot see this page');
+    }
+    const properties = { ...parseBlockProperties(block.properties), assigneeId };
+    block = (await storage.updateBlock(block.id, { properties: JSON.stringify(properties), lastEditedBy: userId }))!;
+    await setDueDateRecipient(page.id, block.id, assigneeId);
+  }
+  if (checked !== undefined) {
+    // Through the edit stream, so text being typed on the page is kept
+    await blockSync.updateFields(block.id, { checked }, userId);
+    block = (await storage.getBlockById(block.id))!;
+  }
+  trackPageEdit(page.id, userId);
+
+  const timeZone = userTimeZone(await storage.getUser(userId));
+  const now = Date.now();
+  const currentAssignee = parseBlockProperties(block.properties).assigneeId ?? null;
+  const assignee: CommentAuthor | null = currentAssignee ? toAuthor(currentAssignee, await storage.getUser(currentAssignee)) : null;
+  const due = await storage.getDueDateReminder(page.id, block.id);
+  return { task: toTask(block, page, due, assignee, isoDate(now, timeZone), now), block, page };
+}
@@ -0,0 +1,403 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { appUrl } from './mailer';
+import { getMFARequirement, isMFAEnabled } from './mfa';
+import {
+  passkeyAssertionSchema, passkeyRegistrationSchema, renamePasskeySchema,
+  type PasskeyView, type WebAuthnCredential,
+} from '@shared/schema';
+
+// WebAuthn passkeys (Level 2): registration with "none" attestation and assertions checked
+// against the stored public key. Supports ES256, EdDSA and RS256 authenticators.
+
+export class WebAuthnError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CEREMONY_TIMEOUT_MS = 60 * 1000;
+const RP_NAME = 'Notion Clone';
+const MAX_PASSKEYS = 20;
+
+// COSE algorithm identifiers we can verify, in order of preference
+const ALG_ES256 = -7;
+const ALG_EDDSA = -8;
+const ALG_RS256 = -257;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_DATA = 0x40;
+
+// Kept in the session between the options request and the browser's answer. `userId` is
+// set when registering, and when a passkey is the second step of a password sign-in.
+export interface WebAuthnChallenge {
+  challenge: string;
+  purpose: 'register' | 'login';
+  userId: string | null;
+  expiresAt: number;
+}
+
+function relyingParty(): { id: string; origin: string } {
+  const url = new URL(appUrl('/'));
+  return { id: process.env.WEBAUTHN_RP_ID || url.hostname, origin: url.origin };
+}
+
+export function newChallenge(purpose: WebAuthnChallenge['purpose'], userId: string | null): WebAuthnChallenge {
+  return {
+    challenge: crypto.randomBytes(32).toString('base64url'),
+    purpose,
+    userId,
+    expiresAt: Date.now() + CHALLENGE_TTL_MS,
+  };
+}
+
+// CBOR, as much of RFC 8949 as attestation objects and COSE keys use
+
+type CborValue = number | string | boolean | null | Buffer | CborValue[] | Map<number | string, CborValue>;
+
+function decodeCbor(data: Buffer, start = 0): { value: CborValue; end: number } {
+  let offset = start;
+  const need = (count: number) => {
+    if (offset + count > data.length) throw new WebAuthnError('Malformed authenticator data');
+  };
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (!size) throw new WebAuthnError('Unsupported CBOR encoding');
+    need(size);
+    const value = size === 8 ? Number(data.readBigUInt64BE(offset)) : data.readUIntBE(offset, size);
+    offset += size;
+    return value;
+  };
+  const read = (): CborValue => {
+    need(1);
+    const initial = data[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+      case 3: {
+        const length = readLength(info);
+        need(length);
+        const bytes = data.subarray(offset, offset + length);
+        offset += length;
+        return major === 2 ? Buffer.from(bytes) : bytes.toString('utf8');
+      }
+      case 4:
+        return Array.from({ length: readLength(info) }, () => read());
+      case 5: {
+        const map = new Map<number | string, CborValue>();
+        const length = readLength(info);
+        for (let i = 0; i < length; i++) {
+          const key = read();
+          if (typeof key !== 'number' && typeof key !== 'string') throw new WebAuthnError('Unsupported CBOR map key');
+          map.set(key, read());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22 || info === 23) return null;
+        throw new WebAuthnError('Unsupported CBOR value');
+      default:
+        throw new WebAuthnError('Unsupported CBOR value');
+    }
+  };
+  const value = read();
+  return { value, end: offset };
+}
+
+function bytesOf(value: CborValue | undefined): Buffer {
+  if (!Buffer.isBuffer(value)) throw new WebAuthnError('Malformed public key');
+  return value;
+}
+
+// COSE_Key (RFC 9053) to a Node key, via JWK
+function coseToPublicKey(cose: CborValue): { key: crypto.KeyObject; algorithm: number } {
+  if (!(cose instanceof Map)) throw new WebAuthnError('Malformed public key');
+  const kty = cose.get(1);
+  const algorithm = cose.get(3);
+  let jwk: crypto.JsonWebKey;
+  if (kty === 2 && algorithm === ALG_ES256 && cose.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: bytesOf(cose.get(-2)).toString('base64url'), y: bytesOf(cose.get(-3)).toString('base64url') };
+  } else if (kty === 1 && algorithm === ALG_EDDSA && cose.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: bytesOf(cose.get(-2)).toString('base64url') };
+  } else if (kty === 3 && algorithm === ALG_RS256) {
+    jwk = { kty: 'RSA', n: bytesOf(cose.get(-1)).toString('base64url'), e: bytesOf(cose.get(-2)).toString('base64url') };
+  } else {
+    throw new WebAuthnError('This authenticator uses a key type that is not supported');
+  }
+  return { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credential?: { aaguid: string; id: Buffer; publicKey: CborValue };
+}
+
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) throw new WebAuthnError('Malformed authenticator data');
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+  if (parsed.flags & FLAG_ATTESTED_DATA) {
+    if (data.length < 55) throw new WebAuthnError('Malformed authenticator data');
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const idLength = data.readUInt16BE(53);
+    const id = data.subarray(55, 55 + idLength);
+    if (id.length !== idLength) throw new WebAuthnError('Malformed authenticator data');
+    const { value } = decodeCbor(data, 55 + idLength);
+    parsed.credential = {
+      aaguid: `${aaguid.slice(0, 8)}-${aaguid.slice(8, 12)}-${aaguid.slice(12, 16)}-${aaguid.slice(16, 20)}-${aaguid.slice(20)}`,
+      id: Buffer.from(id),
+      publicKey: value,
+    };
+  }
+  return parsed;
+}
+
+// Checks what every ceremony has in common: the client data names this ceremony, our
+// challenge and our origin, and the authenticator data was made for our RP ID.
+function checkCeremony(
+  clientDataJSON: string,
+  authData: AuthenticatorData,
+  expected: WebAuthnChallenge | undefined,
+  type: 'webauthn.create' | 'webauthn.get',
+): Buffer {
+  if (!expected || expected.expiresAt < Date.now()) {
+    throw new WebAuthnError('The passkey request expired. Try again.', 401);
+  }
+  const clientData = Buffer.from(clientDataJSON, 'base64url');
+  let parsed: { type?: string; challenge?: string; origin?: string };
+  try {
+    parsed = JSON.parse(clientData.toString('utf8'));
+  } catch {
+    throw new WebAuthnError('Malformed client data');
+  }
+  const rp = relyingParty();
+  if (parsed.type !== type) {
+    throw new WebAuthnError('Unexpected passkey response');
+  }
+  const challenge = Buffer.from(parsed.challenge ?? '', 'base64url');
+  const expectedChallenge = Buffer.from(expected.challenge, 'base64url');
+  if (challenge.length !== expectedChallenge.length || !crypto.timingSafeEqual(challenge, expectedChallenge)) {
+    throw new WebAuthnError('The passkey answered a different request', 401);
+  }
+  if (parsed.origin !== rp.origin) {
+    throw new WebAuthnError('The passkey response came from another site', 401);
+  }
+  if (!authData.rpIdHash.equals(crypto.createHash('sha256').update(rp.id).digest())) {
+    throw new WebAuthnError('The passkey belongs to another site', 401);
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnError('The authenticator did not confirm user presence', 401);
+  }
+  return clientData;
+}
+
+function parseTransports(credential: WebAuthnCredential): string[] {
+  try {
+    const parsed = JSON.parse(credential.transports ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((transport): transport is string => typeof transport === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function toPasskeyView(credential: WebAuthnCredential): PasskeyView {
+  return {
+    id: credential.id,
+    name: credential.name,
+    transports: parseTransports(credential),
+    backedUp: credential.backedUp === true,
+    createdAt: credential.createdAt,
+    lastUsedAt: credential.lastUsedAt,
+  };
+}
+
+// Registration
+
+export async function registrationOptions(userId: string, challenge: WebAuthnChallenge) {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new WebAuthnError('User not found', 404);
+  }
+  const existing = await storage.getWebAuthnCredentials(userId);
+  const name = user.email || user.username || user.id;
+  return {
+    challenge: challenge.challenge,
+    rp: { id: relyingParty().id, name: RP_NAME },
+    user: {
+      id: Buffer.from(user.id, 'utf8').toString('base64url'),
+      name,
+      displayName: [user.firstName, user.lastName].filter(Boolean).join(' ') || name,
+    },
+    pubKeyCredParams: [ALG_ES256, ALG_EDDSA, ALG_RS256].map(alg => ({ type: 'public-key', alg })),
+    timeout: CEREMONY_TIMEOUT_MS,
+    attestation: 'none',
+    // Resident keys let the passkey sign in without typing a username first
+    authenticatorSelection: { residentKey: 'preferred', requireResidentKey: false, userVerification: 'preferred' },
+    excludeCredentials: existing.map(credential => ({
+      type: 'public-key',
+      id: credential.credentialId,
+      transports: parseTransports(credential),
+    })),
+  };
+}
+
+export async function completeRegistration(userId: string, expected: WebAuthnChallenge | undefined, input: unknown): Promise<PasskeyView> {
+  const parsed = passkeyRegistrationSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new WebAuthnError(parsed.error.issues[0]?.message ?? 'Invalid passkey');
+  }
+  const { name, credential } = parsed.data;
+  if (expected?.purpose !== 'register' || expected.userId !== userId) {
+    throw new WebAuthnError('The passkey request expired. Try again.', 401);
+  }
+
+  const attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url')).value;
+  if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+    throw new WebAuthnError('Malformed attestation');
+  }
+  // We ask for "none"; any statement an authenticator sends anyway is not relied on
+  const authData = parseAuthenticatorData(attestation.get('authData') as Buffer);
+  checkCeremony(credential.response.clientDataJSON, authData, expected, 'webauthn.create');
+  if (!authData.credential) {
+    throw new WebAuthnError('The authenticator did not return a credential');
+  }
+  const credentialId = authData.credential.id.toString('base64url');
+  if (credentialId !== credential.id) {
+    throw new WebAuthnError('Credential ID mismatch');
+  }
+  if (await storage.getWebAuthnCredentialByCredentialId(credentialId)) {
+    throw new WebAuthnError('This passkey is already registered', 409);
+  }
+  const existing = await storage.getWebAuthnCredentials(userId);
+  if (existing.length >= MAX_PASSKEYS) {
+    throw new WebAuthnError(`You can register at most ${MAX_PASSKEYS} passkeys`, 409);
+  }
+
+  const { key, algorithm } = coseToPublicKey(authData.credential.publicKey);
+  const created = await storage.createWebAuthnCredential({
+    userId,
+    credentialId,
+    publicKey: key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+    algorithm,
+    signCount: authData.signCount,
+    transports: JSON.stringify(credential.response.transports ?? []),
+    aaguid: authData.credential.aaguid,
+    name: name || `Passkey ${existing.length + 1}`,
+    backedUp: (authData.flags & FLAG_BACKED_UP) !== 0,
+  });
+  return toPasskeyView(created);
+}
+
+// Authentication
+
+export async function authenticationOptions(challenge: WebAuthnChallenge) {
+  const credentials = challenge.userId ? await storage.getWebAuthnCredentials(challenge.userId) : [];
+  return {
+    challenge: challenge.challenge,
+    rpId: relyingParty().id,
+    timeout: CEREMONY_TIMEOUT_MS,
+    // Without a password first, the passkey has to verify the user itself (PIN, biometrics)
+    userVerification: challenge.userId ? 'preferred' : 'required',
+    allowCredentials: credentials.map(credential => ({
+      type: 'public-key',
+      id: credential.credentialId,
+      transports: parseTransports(credential),
+    })),
+  };
+}
+
+// Returns the user the passkey belongs to
+export async function completeAuthentication(expected: WebAuthnChallenge | undefined, input: unknown): Promise<string> {
+  const parsed = passkeyAssertionSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new WebAuthnError(parsed.error.issues[0]?.message ?? 'Invalid passkey response');
+  }
+  const assertion = parsed.data;
+  if (expected?.purpose !== 'login') {
+    throw new WebAuthnError('The passkey request expired. Try again.', 401);
+  }
+
+  const credential = await storage.getWebAuthnCredentialByCredentialId(assertion.id);
+  if (!credential || (expected.userId !== null && credential.userId !== expected.userId)) {
+    throw new WebAuthnError('This passkey is not registered', 401);
+  }
+  const authDataBytes = Buffer.from(assertion.response.authenticatorData, 'base64url');
+  const authData = parseAuthenticatorData(authDataBytes);
+  const clientData = checkCeremony(assertion.response.clientDataJSON, authData, expected, 'webauthn.get');
+  if (expected.userId === null && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnError('The authenticator did not verify you. Use a passkey with a PIN or biometrics.', 401);
+  }
+
+  const signed = Buffer.concat([authDataBytes, crypto.createHash('sha256').update(clientData).digest()]);
+  const key = crypto.createPublicKey({ key: Buffer.from(credential.publicKey, 'base64url'), format: 'der', type: 'spki' });
+  const valid = crypto.verify(credential.algorithm === ALG_EDDSA ? null : 'sha256', signed, key, Buffer.from(assertion.response.signature, 'base64url'));
+  if (!valid) {
+    throw new WebAuthnError('The passkey signature is not valid', 401);
+  }
+  // A counter that stops going up means the key may have been cloned; synced passkeys send 0
+  if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) {
+    throw new WebAuthnError('This passkey may have been copied. Remove it and register it again.', 401);
+  }
+
+  await storage.updateWebAuthnCredential(credential.id, {
+    signCount: authData.signCount,
+    backedUp: (authData.flags & FLAG_BACKED_UP) !== 0,
+    lastUsedAt: Date.now(),
+  });
+  return credential.userId;
+}
+
+// Device list
+
+async function getPasskeyForUser(userId: string, id: number): Promise<WebAuthnCredential> {
+  const credential = await storage.getWebAuthnCredential(id);
+  if (!credential || credential.userId !== userId) {
+    throw new WebAuthnError('Passkey not found', 404);
+  }
+  return credential;
+}
+
+export async function listPasskeys(userId: string): Promise<PasskeyView[]> {
+  return (await storage.getWebAuthnCredentials(userId)).map(toPasskeyView);
+}
+
+export async function renamePasskey(userId: string, id: number, input: unknown): Promise<PasskeyView> {
+  const parsed = renamePasskeySchema.safeParse(input);
+  if (!parsed.success) {
+    throw new WebAuthnError(parsed.error.issues[0]?.message ?? 'Invalid name');
+  }
+  await getPasskeyForUser(userId, id);
+  const updated = await storage.updateWebAuthnCredential(id, { name: parsed.data.name });
+  return toPasskeyView(updated!);
+}
+
+// The last second factor cannot go while a workspace requires one
+export async function deletePasskey(userId: string, id: number): Promise<void> {
+  await getPasskeyForUser(userId, id);
+  const remaining = (await storage.getWebAuthnCredentials(userId)).length - 1;
+  if (remaining === 0 && !await isMFAEnabled(userId)) {
+    const requiredBy = await getMFARequirement(userId);
+    if (requiredBy.length > 0) {
+      throw new WebAuthnError(`${requiredBy[0].name} requires MFA for all members; set up an authenticator app first`, 409);
+    }
+  }
+  await storage.deleteWebAuthnCredential(id);
+}
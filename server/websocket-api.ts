@@ -1,702 +1,365 @@
-import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
 import { storage } from './storage';
 import bcrypt from 'bcrypt';
 import { nanoid } from 'nanoid';
-
-interface WebSocketClient extends WebSocket {
-  userId?: string;
-  workspaceId?: number;
-  sessionId?: string;
-  isAuthenticated?: boolean;
-}
-
-interface WSMessage {
-  type: string;
-  data?: any;
-  requestId?: string;
-}
-
-interface WSResponse {
-  type: string;
-  data?: any;
-  requestId?: string;
-  error?: string;
+import { blockSync } from './block-sync';
+import { trackPageEdit } from './revisions';
+import { getVisiblePageIds, requireCreateAccess, requirePageAccess, requirePageEditAccess } from './permissions';
+import { recordAuditQuietly } from './audit';
+import { deleteBlock } from './databases';
+import {
+  checkLoginAllowed, limitRegistration, recordLoginFailure, recordLoginSuccess, sendVerificationEmailQuietly
+} from './account-security';
+import { hasSecondFactor, getMFARequirement } from './mfa';
+import { RealtimeError, connectionUserId, type RealtimeConnection, type RealtimeServer } from './realtime';
+import { endSocketSession, startSocketSession } from './ws-auth';
+import type { RealtimeRequest, RealtimeSignIn, RealtimeUser, BusinessWorkspaceView } from '@shared/realtime';
+import type { User } from '@shared/schema';
+
+// Account, workspace, page and block requests on the realtime endpoint. Browsers arrive
+// signed in through their session; other clients may sign in over the socket.
+
+const SOCKET_SIGN_IN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function toRealtimeUser(user: User): RealtimeUser {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    theme: user.theme,
+    timezone: user.timezone,
+    language: user.language
+  };
 }
 
-export class WebSocketAPIServer {
-  private wss: WebSocketServer;
-  private clients: Map<string, WebSocketClient> = new Map();
-  private reconnectAttempts: Map<string, number> = new Map();
-
-  constructor(server: Server) {
-    this.wss = new WebSocketServer({ server, path: '/api/ws' });
-    this.setupWebSocketServer();
-  }
-
-  private setupWebSocketServer() {
-    this.wss.on('connection', (ws: WebSocketClient, request) => {
-      const sessionId = nanoid();
-      ws.sessionId = sessionId;
-      this.clients.set(sessionId, ws);
-
-      console.log(`WebSocket client connected: ${sessionId}`);
-
-      ws.on('message', async (message) => {
-        try {
-          const data: WSMessage = JSON.parse(message.toString());
-          await this.handleMessage(ws, data);
-        } catch (error) {
-          this.sendError(ws, 'Invalid message format');
-        }
-      });
-
-      ws.on('close', () => {
-        this.handleDisconnect(ws);
-      });
-
-      ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
-        this.handleDisconnect(ws);
-      });
-
-      // Send connection success
-      this.sendResponse(ws, {
-        type: 'connection_established',
-        data: { sessionId }
-      });
+export function registerApiHandlers(server: RealtimeServer) {
+  server.handle('ping', async () => ({ now: Date.now() }), { fallback: 'Ping failed', anonymous: true });
+
+  // Account
+  server.handle('auth_login', (connection, data) => login(server, connection, data), { fallback: 'Login failed', anonymous: true });
+  server.handle('auth_register', (connection, data) => register(server, connection, data), { fallback: 'Registration failed', anonymous: true });
+  server.handle('auth_logout', async (connection) => {
+    server.leaveRooms(connection);
+    const identity = connection.socket.identity;
+    connection.socket.identity = undefined;
+    await endSocketSession(identity);
+    return null;
+  }, { fallback: 'Logout failed', anonymous: true });
+  server.handle('get_user', async (connection) => {
+    const user = await storage.getUser(connectionUserId(connection));
+    if (!user) throw new RealtimeError('not_found', 'User not found');
+    return toRealtimeUser(user);
+  }, { fallback: 'Failed to get user' });
+
+  // Workspaces
+  server.handle('get_workspaces', async (connection) => {
+    return await storage.getWorkspacesByUserId(connectionUserId(connection));
+  }, { fallback: 'Failed to get workspaces' });
+  server.handle('create_workspace', createWorkspace, { fallback: 'Failed to create workspace' });
+  server.handle('get_business_workspace', getBusinessWorkspace, { fallback: 'Failed to get business workspace', anonymous: true });
+
+  // Pages
+  server.handle('get_pages', async (connection, { workspaceId }) => {
+    const visible = await getVisiblePageIds(workspaceId, connectionUserId(connection));
+    return (await storage.getPagesByWorkspace(workspaceId)).filter(page => visible.has(page.id));
+  }, { fallback: 'Failed to get pages' });
+
+  server.handle('create_page', async (connection, data) => {
+    const userId = connectionUserId(connection);
+    await requireCreateAccess(data.workspaceId, data.parentId, userId);
+    const page = await storage.createPage({
+      ...data,
+      createdBy: userId,
+      lastEditedBy: userId,
     });
-  }
-
-  private async handleMessage(ws: WebSocketClient, message: WSMessage) {
-    const { type, data, requestId } = message;
-
-    try {
-      switch (type) {
-        case 'auth_login':
-          await this.handleLogin(ws, data, requestId);
-          break;
-        case 'auth_register':
-          await this.handleRegister(ws, data, requestId);
-          break;
-        case 'auth_logout':
-          await this.handleLogout(ws, requestId);
-          break;
-        case 'get_user':
-          await this.handleGetUser(ws, requestId);
-          break;
-        case 'get_workspaces':
-          await this.handleGetWorkspaces(ws, requestId);
-          break;
-        case 'create_workspace':
-          await this.handleCreateWorkspace(ws, data, requestId);
-          break;
-        case 'get_pages':
-          await this.handleGetPages(ws, data, requestId);
-          break;
-        case 'create_page':
-          await this.handleCreatePage(ws, data, requestId);
-          break;
-        case 'update_page':
-          await this.handleUpdatePage(ws, data, requestId);
-          break;
-        case 'delete_page':
-          await this.handleDeletePage(ws, data, requestId);
-          break;
-        case 'get_blocks':
-          await this.handleGetBlocks(ws, data, requestId);
-          break;
-        case 'create_block':
-          await this.handleCreateBlock(ws, data, requestId);
-          break;
-        case 'update_block':
-          await this.handleUpdateBlock(ws, data, requestId);
-          break;
-        case 'delete_block':
-          await this.handleDeleteBlock(ws, data, requestId);
-          break;
-        case 'reorder_blocks':
-          await this.handleReorderBlocks(ws, data, requestId);
-          break;
-        case 'get_business_workspace':
-          await this.handleGetBusinessWorkspace(ws, data, requestId);
-          break;
-        case 'heartbeat':
-          this.sendResponse(ws, { type: 'heartbeat_response', requestId });
-          break;
-        default:
-          this.sendError(ws, `Unknown message type: ${type}`, requestId);
-      }
-    } catch (error) {
-      console.error('Error handling message:', error);
-      this.sendError(ws, 'Internal server error', requestId);
-    }
-  }
-
-  private async handleLogin(ws: WebSocketClient, data: any, requestId?: string) {
-    const { usernameOrEmail, password } = data;
-    
-    if (!usernameOrEmail || !password) {
-      this.sendError(ws, 'Username/email and password are required', requestId);
-      return;
-    }
-
-    try {
-      const user = await storage.getUserByUsernameOrEmail(usernameOrEmail);
-      if (!user || !user.password) {
-        this.sendError(ws, 'Invalid credentials', requestId);
-        return;
-      }
-
-      const isValidPassword = await bcrypt.compare(password, user.password);
-      if (!isValidPassword) {
-        this.sendError(ws, 'Invalid credentials', requestId);
-        return;
-      }
-
-      ws.userId = user.id;
-      ws.isAuthenticated = true;
-
-      // Get user workspaces
-      const workspaces = await storage.getWorkspacesByUserId(user.id);
-      
-      this.sendResponse(ws, {
-        type: 'auth_success',
-        data: {
-          user: {
-            id: user.id,
-            email: user.email,
-            username: user.username,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            theme: user.theme,
-            timezone: user.timezone,
-            language: user.language
-          },
-          workspaces
-        },
-        requestId
-      });
-    } catch (error) {
-      console.error('Login error:', error);
-      this.sendError(ws, 'Login failed', requestId);
-    }
-  }
-
-  private async handleRegister(ws: WebSocketClient, data: any, requestId?: string) {
-    const { email, username, password, firstName, lastName } = data;
-    
-    if (!email || !username || !password) {
-      this.sendError(ws, 'Email, username, and password are required', requestId);
-      return;
-    }
-
-    try {
-      const existingUser = await storage.getUserByUsernameOrEmail(username);
-      if (existingUser) {
-        this.sendError(ws, 'Username or email already exists', requestId);
-        return;
-      }
-
-      const hashedPassword = await bcrypt.hash(password, 10);
-      const userId = nanoid();
-
-      const newUser = await storage.upsertUser({
-        id: userId,
-        email,
-        username,
-        password: hashedPassword,
-        firstName,
-        lastName,
-        theme: 'system',
-        timezone: 'UTC',
-        language: 'en',
-        notifications: '{"email":true,"desktop":true,"mentions":true,"comments":true}',
-        privacy: '{"profileVisible":true,"activityVisible":true}',
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-
-      // Create default workspace
-      const workspace = await storage.createWorkspace({
-        name: `${firstName || username}'s Workspace`,
-        type: 'personal',
-        description: 'Your personal workspace',
-        icon: '🏠',
-        ownerId: userId,
-        plan: 'free',
-        settings: '{}',
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-
-      ws.userId = userId;
-      ws.isAuthenticated = true;
-      ws.workspaceId = workspace.id;
-
-      this.sendResponse(ws, {
-        type: 'auth_success',
-        data: {
-          user: {
-            id: newUser.id,
-            email: newUser.email,
-            username: newUser.username,
-            firstName: newUser.firstName,
-            lastName: newUser.lastName,
-            theme: newUser.theme,
-            timezone: newUser.timezone,
-            language: newUser.language
-          },
-          workspaces: [workspace]
-        },
-        requestId
-      });
-    } catch (error) {
-      console.error('Registration error:', error);
-      this.sendError(ws, 'Registration failed', requestId);
-    }
-  }
-
-  private async handleLogout(ws: WebSocketClient, requestId?: string) {
-    ws.userId = undefined;
-    ws.workspaceId = undefined;
-    ws.isAuthenticated = false;
-    
-    this.sendResponse(ws, {
-      type: 'auth_logout_success',
-      requestId
+    recordAuditQuietly({
+      workspaceId: page.workspaceId,
+      userId,
+      action: 'page.created',
+      resourceType: 'page',
+      resourceId: page.id,
+      metadata: { title: page.title }
     });
-  }
-
-  private async handleGetUser(ws: WebSocketClient, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const user = await storage.getUser(ws.userId);
-      if (!user) {
-        this.sendError(ws, 'User not found', requestId);
-        return;
-      }
-
-      this.sendResponse(ws, {
-        type: 'user_data',
-        data: {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          theme: user.theme,
-          timezone: user.timezone,
-          language: user.language
-        },
-        requestId
-      });
-    } catch (error) {
-      console.error('Get user error:', error);
-      this.sendError(ws, 'Failed to get user', requestId);
-    }
-  }
-
-  private async handleGetWorkspaces(ws: WebSocketClient, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const workspaces = await storage.getWorkspacesByUserId(ws.userId);
-      this.sendResponse(ws, {
-        type: 'workspaces_data',
-        data: workspaces,
-        requestId
-      });
-    } catch (error) {
-      console.error('Get workspaces error:', error);
-      this.sendError(ws, 'Failed to get workspaces', requestId);
-    }
-  }
-
-  private async handleCreateWorkspace(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const workspace = await storage.createWorkspace({
-        ...data,
-        ownerId: ws.userId,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-
-      this.sendResponse(ws, {
-        type: 'workspace_created',
-        data: workspace,
-        requestId
-      });
-    } catch (error) {
-      console.error('Create workspace error:', error);
-      this.sendError(ws, 'Failed to create workspace', requestId);
-    }
-  }
-
-  private async handleGetPages(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const { workspaceId } = data;
-      const pages = await storage.getPagesByWorkspace(workspaceId);
-      
-      this.sendResponse(ws, {
-        type: 'pages_data',
-        data: pages,
-        requestId
-      });
-    } catch (error) {
-      console.error('Get pages error:', error);
-      this.sendError(ws, 'Failed to get pages', requestId);
-    }
-  }
-
-  private async handleCreatePage(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const page = await storage.createPage({
-        ...data,
-        createdBy: ws.userId,
-        lastEditedBy: ws.userId,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-
-      this.sendResponse(ws, {
-        type: 'page_created',
-        data: page,
-        requestId
-      });
-
-      // Broadcast to other users in the workspace
-      this.broadcastToWorkspace(data.workspaceId, {
-        type: 'page_created',
-        data: page
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Create page error:', error);
-      this.sendError(ws, 'Failed to create page', requestId);
-    }
-  }
-
-  private async handleUpdatePage(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const { id, ...updates } = data;
-      const page = await storage.updatePage(id, {
-        ...updates,
-        lastEditedBy: ws.userId,
-        updatedAt: Date.now(),
-      });
-
-      if (!page) {
-        this.sendError(ws, 'Page not found', requestId);
-        return;
-      }
-
-      this.sendResponse(ws, {
-        type: 'page_updated',
-        data: page,
-        requestId
-      });
-
-      // Broadcast to other users in the workspace
-      this.broadcastToWorkspace(page.workspaceId, {
-        type: 'page_updated',
-        data: page
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Update page error:', error);
-      this.sendError(ws, 'Failed to update page', requestId);
-    }
-  }
-
-  private async handleDeletePage(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const { id } = data;
-      const success = await storage.deletePage(id);
-
-      if (!success) {
-        this.sendError(ws, 'Page not found', requestId);
-        return;
-      }
-
-      this.sendResponse(ws, {
-        type: 'page_deleted',
-        data: { id },
-        requestId
-      });
-
-      // Broadcast to other users in the workspace
-      this.broadcastToWorkspace(data.workspaceId, {
-        type: 'page_deleted',
-        data: { id }
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Delete page error:', error);
-      this.sendError(ws, 'Failed to delete page', requestId);
-    }
-  }
-
-  private async handleGetBlocks(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
+    server.publishPageEvent(page, 'page_created', { page, userId }, connection).catch(logPublishError);
+    return page;
+  }, { fallback: 'Failed to create page' });
+
+  server.handle('update_page', async (connection, { pageId, updates }) => {
+    const userId = connectionUserId(connection);
+    await requirePageEditAccess(pageId, userId, updates);
+    const page = await storage.updatePage(pageId, { ...updates, lastEditedBy: userId });
+    if (!page) throw new RealtimeError('not_found', 'Page not found');
+    trackPageEdit(page.id, userId);
+    server.publishPageEvent(page, 'page_updated', { page, userId }, connection).catch(logPublishError);
+    return page;
+  }, { fallback: 'Failed to update page' });
+
+  server.handle('delete_page', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'full');
+    await storage.deletePage(pageId);
+    recordAuditQuietly({
+      workspaceId: page.workspaceId,
+      userId,
+      action: 'page.deleted',
+      resourceType: 'page',
+      resourceId: pageId,
+      metadata: { title: page.title }
+    });
+    server.publishToWorkspace(page.workspaceId, 'page_deleted', { pageId, userId }, connection);
+    return null;
+  }, { fallback: 'Failed to delete page' });
+
+  server.handle('archive_page', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'full');
+    await storage.archivePage(pageId);
+    recordAuditQuietly({
+      workspaceId: page.workspaceId,
+      userId,
+      action: 'page.archived',
+      resourceType: 'page',
+      resourceId: pageId,
+      metadata: { title: page.title },
+      ipAddress: connection.ipAddress
+    });
+    server.publishToWorkspace(page.workspaceId, 'page_archived', { pageId, userId });
+    return null;
+  }, { fallback: 'Failed to archive page' });
+
+  server.handle('restore_page', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'full');
+    await storage.restorePage(pageId);
+    recordAuditQuietly({
+      workspaceId: page.workspaceId,
+      userId,
+      action: 'page.restored',
+      resourceType: 'page',
+      resourceId: pageId,
+      metadata: { title: page.title },
+      ipAddress: connection.ipAddress
+    });
+    server.publishToWorkspace(page.workspaceId, 'page_restored', { pageId, userId });
+    return null;
+  }, { fallback: 'Failed to restore page' });
+
+  server.handle('permanent_delete', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'full');
+    await storage.deletePage(pageId);
+    recordAuditQuietly({
+      workspaceId: page.workspaceId,
+      userId,
+      action: 'page.deleted',
+      resourceType: 'page',
+      resourceId: pageId,
+      metadata: { title: page.title, permanent: true }
+    });
+    server.publishToWorkspace(page.workspaceId, 'page_permanently_deleted', { pageId, userId });
+    return null;
+  }, { fallback: 'Failed to permanently delete page' });
+
+  // Favorites are not stored yet; the toggle is only shared with the workspace
+  server.handle('toggle_favorite', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'view');
+    server.publishToWorkspace(page.workspaceId, 'page_favorite_toggled', { pageId, userId });
+    return null;
+  }, { fallback: 'Failed to toggle favorite' });
+
+  // Blocks
+  server.handle('get_blocks', async (connection, { pageId }) => {
+    await requirePageAccess(pageId, connectionUserId(connection), 'view');
+    return await storage.getBlocksByPageId(pageId);
+  }, { fallback: 'Failed to get blocks' });
+
+  server.handle('create_block', async (connection, data) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(data.pageId, userId, 'edit');
+    const block = await storage.createBlock({
+      ...data,
+      createdBy: userId,
+      lastEditedBy: userId,
+    });
+    trackPageEdit(block.pageId, userId);
+    server.publishPageEvent(page, 'block_created', { block, userId }, connection).catch(logPublishError);
+    return block;
+  }, { fallback: 'Failed to create block' });
+
+  server.handle('update_block', async (connection, { blockId, updates }) => {
+    const userId = connectionUserId(connection);
+    const existing = await storage.getBlockById(blockId);
+    if (!existing) throw new RealtimeError('not_found', 'Block not found');
+    const { page } = await requirePageAccess(existing.pageId, userId, 'edit');
+    // Blocks stay on their page; moving them is not an update
+    const block = await storage.updateBlock(blockId, { ...updates, lastEditedBy: userId });
+    if (!block) throw new RealtimeError('not_found', 'Block not found');
+    // Whole-content writes replace the live document; editors rebase on their next edit
+    if (updates.content !== undefined) blockSync.evict(blockId);
+    trackPageEdit(block.pageId, userId);
+    server.publishPageEvent(page, 'block_updated', { block, userId }, connection).catch(logPublishError);
+    return block;
+  }, { fallback: 'Failed to update block' });
+
+  server.handle('delete_block', async (connection, { blockId }) => {
+    const userId = connectionUserId(connection);
+    const block = await storage.getBlockById(blockId);
+    if (!block) throw new RealtimeError('not_found', 'Block not found');
+    const { page } = await requirePageAccess(block.pageId, userId, 'edit');
+    await deleteBlock(block, page.workspaceId);
+    blockSync.evict(blockId);
+    trackPageEdit(block.pageId, userId);
+    server.publishPageEvent(page, 'block_deleted', { blockId, pageId: block.pageId, userId }, connection).catch(logPublishError);
+    return null;
+  }, { fallback: 'Failed to delete block' });
+
+  server.handle('reorder_blocks', async (connection, { pageId, blockIds }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'edit');
+    if (!await storage.reorderBlocks(pageId, blockIds)) {
+      throw new RealtimeError('bad_request', 'Failed to reorder blocks');
+    }
+    server.publishPageEvent(page, 'blocks_reordered', { pageId, blockIds, userId }, connection).catch(logPublishError);
+    return null;
+  }, { fallback: 'Failed to reorder blocks' });
+}
 
-    try {
-      const { pageId } = data;
-      const blocks = await storage.getBlocksByPageId(pageId);
-      
-      this.sendResponse(ws, {
-        type: 'blocks_data',
-        data: blocks,
-        requestId
-      });
-    } catch (error) {
-      console.error('Get blocks error:', error);
-      this.sendError(ws, 'Failed to get blocks', requestId);
-    }
-  }
+function logPublishError(error: unknown) {
+  console.error('Error broadcasting page event:', error);
+}
 
-  private async handleCreateBlock(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
+// Sign-ins over the socket start a session of their own; see startSocketSession. Rooms
+// joined as someone else are left first.
+async function signIn(server: RealtimeServer, connection: RealtimeConnection, userId: string) {
+  const previous = connection.socket.identity;
+  if (previous?.userId !== userId) server.leaveRooms(connection);
+  connection.socket.identity = await startSocketSession(userId, connection, SOCKET_SIGN_IN_TTL_MS);
+  await endSocketSession(previous);
+}
 
-    try {
-      const block = await storage.createBlock({
-        ...data,
-        createdBy: ws.userId,
-        lastEditedBy: ws.userId,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-
-      this.sendResponse(ws, {
-        type: 'block_created',
-        data: block,
-        requestId
-      });
-
-      // Broadcast to other users viewing the same page
-      this.broadcastToPage(data.pageId, {
-        type: 'block_created',
-        data: block
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Create block error:', error);
-      this.sendError(ws, 'Failed to create block', requestId);
-    }
+async function login(server: RealtimeServer, connection: RealtimeConnection, data: RealtimeRequest<'auth_login'>): Promise<RealtimeSignIn> {
+  const user = await storage.getUserByUsernameOrEmail(data.usernameOrEmail);
+  checkLoginAllowed(user, connection.ipAddress);
+  if (!user || !user.password) {
+    throw new RealtimeError('unauthenticated', 'Invalid credentials');
   }
 
-  private async handleUpdateBlock(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const { id, ...updates } = data;
-      const block = await storage.updateBlock(id, {
-        ...updates,
-        lastEditedBy: ws.userId,
-        updatedAt: Date.now(),
-      });
-
-      if (!block) {
-        this.sendError(ws, 'Block not found', requestId);
-        return;
-      }
-
-      this.sendResponse(ws, {
-        type: 'block_updated',
-        data: block,
-        requestId
-      });
-
-      // Broadcast to other users viewing the same page
-      this.broadcastToPage(block.pageId, {
-        type: 'block_updated',
-        data: block
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Update block error:', error);
-      this.sendError(ws, 'Failed to update block', requestId);
-    }
+  if (!await bcrypt.compare(data.password, user.password)) {
+    await recordLoginFailure(user);
+    throw new RealtimeError('unauthenticated', 'Invalid credentials');
   }
-
-  private async handleDeleteBlock(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const { id } = data;
-      const success = await storage.deleteBlock(id);
-
-      if (!success) {
-        this.sendError(ws, 'Block not found', requestId);
-        return;
-      }
-
-      this.sendResponse(ws, {
-        type: 'block_deleted',
-        data: { id },
-        requestId
-      });
-
-      // Broadcast to other users viewing the same page
-      this.broadcastToPage(data.pageId, {
-        type: 'block_deleted',
-        data: { id }
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Delete block error:', error);
-      this.sendError(ws, 'Failed to delete block', requestId);
-    }
+  // The socket has no way to ask for a second factor or to enroll one
+  if (await hasSecondFactor(user.id) || (await getMFARequirement(user.id)).length > 0) {
+    throw new RealtimeError('forbidden', 'This account uses two-step sign-in. Sign in on the web app instead.');
   }
+  await recordLoginSuccess(user);
 
-  private async handleReorderBlocks(ws: WebSocketClient, data: any, requestId?: string) {
-    if (!ws.isAuthenticated || !ws.userId) {
-      this.sendError(ws, 'Not authenticated', requestId);
-      return;
-    }
-
-    try {
-      const { pageId, blockIds } = data;
-      const success = await storage.reorderBlocks(pageId, blockIds);
-
-      if (!success) {
-        this.sendError(ws, 'Failed to reorder blocks', requestId);
-        return;
-      }
+  await signIn(server, connection, user.id);
+  return {
+    user: toRealtimeUser(user),
+    workspaces: await storage.getWorkspacesByUserId(user.id)
+  };
+}
 
-      this.sendResponse(ws, {
-        type: 'blocks_reordered',
-        data: { pageId, blockIds },
-        requestId
-      });
-
-      // Broadcast to other users viewing the same page
-      this.broadcastToPage(pageId, {
-        type: 'blocks_reordered',
-        data: { pageId, blockIds }
-      }, ws.sessionId);
-    } catch (error) {
-      console.error('Reorder blocks error:', error);
-      this.sendError(ws, 'Failed to reorder blocks', requestId);
-    }
+async function register(server: RealtimeServer, connection: RealtimeConnection, data: RealtimeRequest<'auth_register'>): Promise<RealtimeSignIn> {
+  limitRegistration(connection.ipAddress);
+  if (await storage.getUserByUsernameOrEmail(data.username) || await storage.getUserByUsernameOrEmail(data.email)) {
+    throw new RealtimeError('conflict', 'Username or email already exists');
   }
 
-  private async handleGetBusinessWorkspace(ws: WebSocketClient, data: any, requestId?: string) {
-    try {
-      const { subdomain } = data;
-      
-      // Find workspace by subdomain (using domain field in workspace)
-      const workspaces = await storage.getWorkspacesByUserId('system'); // Get all workspaces for subdomain lookup
-      const workspace = workspaces.find(w => w.domain === subdomain);
-      
-      if (!workspace) {
-        this.sendError(ws, 'Business workspace not found', requestId);
-        return;
-      }
+  const userId = nanoid();
+  const newUser = await storage.upsertUser({
+    id: userId,
+    email: data.email,
+    username: data.username,
+    password: await bcrypt.hash(data.password, 10),
+    firstName: data.firstName,
+    lastName: data.lastName,
+    theme: 'system',
+    timezone: 'UTC',
+    language: 'en',
+    notifications: '{"email":true,"desktop":true,"mentions":true,"comments":true}',
+    privacy: '{"profileVisible":true,"activityVisible":true}',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+
+  // Create default workspace
+  const workspace = await storage.createWorkspace({
+    name: `${data.firstName || data.username}'s Workspace`,
+    type: 'personal',
+    description: 'Your personal workspace',
+    icon: '🏠',
+    ownerId: userId,
+    plan: 'free',
+    settings: '{}',
+  });
+  recordAuditQuietly({
+    workspaceId: workspace.id,
+    userId,
+    action: 'workspace.created',
+    resourceType: 'workspace',
+    resourceId: workspace.id,
+    metadata: { name: workspace.name }
+  });
+
+  sendVerificationEmailQuietly(newUser);
+
+  await signIn(server, connection, userId);
+  return { user: toRealtimeUser(newUser), workspaces: [workspace] };
+}
 
-      // Get workspace pages and members
-      const pages = await storage.getPagesByWorkspace(workspace.id);
-      const members = await storage.getWorkspaceMembers(workspace.id);
-      
-      const businessData = {
-        ...workspace,
-        pages,
-        members,
-        recentActivity: [
-          {
-            description: 'Team collaboration session started',
-            timestamp: new Date().toISOString()
-          },
-          {
-            description: 'New project documentation created',
-            timestamp: new Date(Date.now() - 3600000).toISOString()
-          }
-        ]
-      };
-
-      this.sendResponse(ws, {
-        type: 'business_workspace_data',
-        data: businessData,
-        requestId
-      });
-    } catch (error) {
-      console.error('Get business workspace error:', error);
-      this.sendError(ws, 'Failed to get business workspace', requestId);
-    }
-  }
+async function createWorkspace(connection: RealtimeConnection, data: RealtimeRequest<'create_workspace'>) {
+  const userId = connectionUserId(connection);
+  const workspace = await storage.createWorkspace({
+    name: data.name,
+    type: data.type,
+    description: data.description ?? null,
+    icon: data.icon ?? '🏢',
+    ownerId: userId,
+    plan: 'free',
+    settings: null,
+  });
+  recordAuditQuietly({
+    workspaceId: workspace.id,
+    userId,
+    action: 'workspace.created',
+    resourceType: 'workspace',
+    resourceId: workspace.id,
+    metadata: { name: workspace.name }
+  });
+  return workspace;
+}
 
-  private broadcastToWorkspace(workspaceId: number, message: WSResponse, excludeSessionId?: string) {
-    this.clients.forEach((client, sessionId) => {
-      if (sessionId !== excludeSessionId && client.workspaceId === workspaceId && client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(message));
-      }
-    });
+async function getBusinessWorkspace(connection: RealtimeConnection, { subdomain }: RealtimeRequest<'get_business_workspace'>): Promise<BusinessWorkspaceView> {
+  // Find workspace by subdomain (using domain field in workspace)
+  const workspaces = await storage.getWorkspacesByUserId('system'); // Get all workspaces for subdomain lookup
+  const workspace = workspaces.find(w => w.domain === subdomain);
+  if (!workspace) {
+    throw new RealtimeError('not_found', 'Business workspace not found');
   }
 
-  private broadcastToPage(pageId: number, message: WSResponse, excludeSessionId?: string) {
-    this.clients.forEach((client, sessionId) => {
-      if (sessionId !== excludeSessionId && client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(message));
+  // Get workspace pages and members; pages are limited to what the caller may see
+  const userId = connection.socket.identity?.userId;
+  const visible = userId ? await getVisiblePageIds(workspace.id, userId) : new Set<number>();
+  const pages = (await storage.getPagesByWorkspace(workspace.id)).filter(page => visible.has(page.id));
+  const members = await storage.getWorkspaceMembers(workspace.id);
+
+  return {
+    ...workspace,
+    pages,
+    members,
+    recentActivity: [
+      {
+        description: 'Team collaboration session started',
+        timestamp: new Date().toISOString()
+      },
+      {
+        description: 'New project documentation created',
+        timestamp: new Date(Date.now() - 3600000).toISOString()
       }
-    });
-  }
-
-  private sendResponse(ws: WebSocketClient, response: WSResponse) {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(response));
-    }
-  }
-
-  private sendError(ws: WebSocketClient, error: string, requestId?: string) {
-    this.sendResponse(ws, {
-      type: 'error',
-      error,
-      requestId
-    });
-  }
-
-  private handleDisconnect(ws: WebSocketClient) {
-    if (ws.sessionId) {
-      this.clients.delete(ws.sessionId);
-      console.log(`WebSocket client disconnected: ${ws.sessionId}`);
-    }
-  }
-}
\ No newline at end of file
+    ]
+  };
+}
@@ -1,706 +1,257 @@
-import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
-import { parse } from 'url';
 import { storage } from './storage';
-
-interface WebSocketClient extends WebSocket {
-  userId?: string;
-  pageId?: number;
-  sessionId?: string;
-  userName?: string;
-  userColor?: string;
+import { blockSync, BlockSyncError } from './block-sync';
+import { addComment, getCommentForUser, getPageForComments, setThreadResolved, toAuthor } from './comments';
+import { requirePageAccess } from './permissions';
+import { trackPageView } from './analytics';
+import { recordAuditQuietly } from './audit';
+import { updateTask } from './tasks';
+import {
+  RealtimeError, broadcastPageEvent, connectionUserId, type PageMembership, type RealtimeConnection, type RealtimeServer
+} from './realtime';
+import { presenceColor, type PresenceUser, type RealtimeCursor } from '@shared/realtime';
+import type { Block, Page } from '@shared/schema';
+
+// Collaboration on the realtime endpoint: workspace and page rooms, presence, cursors,
+// live text edits and comments. A connection may be in any number of rooms at once.
+
+async function connectionName(connection: RealtimeConnection, userId: string): Promise<string> {
+  if (!connection.userName) {
+    connection.userName = toAuthor(userId, await storage.getUser(userId)).name;
+  }
+  return connection.userName;
 }
 
-interface CursorData {
-  type: 'cursor_update' | 'cursor_hide';
-  pageId: number;
-  userId: string;
-  userName: string;
-  userColor: string;
-  x: number;
-  y: number;
-  timestamp: number;
+// The page must be one the connection joined
+function membershipOf(connection: RealtimeConnection, pageId: number): PageMembership {
+  const membership = connection.pages.get(pageId);
+  if (!membership) throw new RealtimeError('bad_request', 'Join the page first');
+  return membership;
 }
 
-interface PresenceData {
-  type: 'join_presence' | 'leave_presence' | 'typing' | 'stopped_typing';
-  pageId: number;
-  userId: string;
-  userName: string;
-  status: 'active' | 'typing' | 'viewing';
-  currentBlock?: number;
+function cursorOf(connection: RealtimeConnection, pageId: number): RealtimeCursor | null {
+  const cursor = connection.pages.get(pageId)?.cursor;
+  const userId = connection.socket.identity?.userId;
+  if (!cursor || !userId) return null;
+  return { pageId, userId, userName: connection.userName ?? '', color: presenceColor(userId), ...cursor };
 }
 
-class CollaborationServer {
-  private wss: WebSocketServer;
-  private clients: Map<string, WebSocketClient> = new Map();
-  private pageRooms: Map<number, Set<string>> = new Map();
-  private userCursors: Map<string, CursorData> = new Map();
-  private userPresence: Map<string, PresenceData> = new Map();
+function workspaceUsers(server: RealtimeServer, workspaceId: number) {
+  const users = new Map<string, { userId: string; name: string }>();
+  server.connectionsInWorkspace(workspaceId).forEach(connection => {
+    const userId = connection.socket.identity?.userId;
+    if (userId && !users.has(userId)) users.set(userId, { userId, name: connection.userName ?? '' });
+  });
+  return Array.from(users.values());
+}
 
-  constructor(server: Server) {
-    this.wss = new WebSocketServer({ 
-      server, 
-      path: '/ws',
-      verifyClient: (info) => {
-        // Add basic verification if needed
-        return true;
-      }
+// One entry per user; someone typing in any of their tabs shows as typing
+function pagePresence(server: RealtimeServer, pageId: number): PresenceUser[] {
+  const users = new Map<string, PresenceUser>();
+  server.connectionsOnPage(pageId).forEach(connection => {
+    const userId = connection.socket.identity?.userId;
+    const membership = connection.pages.get(pageId);
+    if (!userId || !membership) return;
+    const existing = users.get(userId);
+    if (existing && (existing.status === 'typing' || membership.status !== 'typing')) return;
+    users.set(userId, {
+      userId,
+      name: connection.userName ?? '',
+      color: presenceColor(userId),
+      status: membership.status,
+      blockId: membership.blockId,
     });
+  });
+  return Array.from(users.values());
+}
 
-    this.wss.on('connection', (ws: WebSocketClient, request) => {
-      const sessionId = this.generateSessionId();
-      ws.sessionId = sessionId;
-      this.clients.set(sessionId, ws);
-
-      console.log(`WebSocket client connected: ${sessionId}`);
-
-      ws.on('message', (data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          this.handleMessage(ws, message);
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      });
+function publishPresence(server: RealtimeServer, pageId: number) {
+  server.publishToPageRoom(pageId, 'presence', { pageId, users: pagePresence(server, pageId) });
+}
 
-      ws.on('close', () => {
-        this.handleDisconnect(ws);
-      });
+function leaveWorkspace(server: RealtimeServer, connection: RealtimeConnection, workspaceId: number) {
+  if (!connection.workspaces.delete(workspaceId)) return;
+  server.publishToWorkspace(workspaceId, 'workspace_presence', { workspaceId, users: workspaceUsers(server, workspaceId) });
+}
 
-      ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
-        this.handleDisconnect(ws);
-      });
-    });
+function leavePage(server: RealtimeServer, connection: RealtimeConnection, pageId: number) {
+  if (!connection.pages.delete(pageId)) return;
+  const userId = connection.socket.identity?.userId;
+  if (userId) {
+    server.publishToPageRoom(pageId, 'cursor_hidden', { pageId, userId });
   }
 
-  private generateSessionId(): string {
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+  // Last editor left: write pending text and release the in-memory documents
+  if (server.connectionsOnPage(pageId).length === 0) {
+    blockSync.flushPage(pageId, true).catch((error) => {
+      console.error('Error flushing page edits:', error);
+    });
+    return;
   }
+  publishPresence(server, pageId);
+}
 
-  private async handleMessage(ws: WebSocketClient, message: any) {
-    const { type } = message;
-
-    switch (type) {
-      case 'join_page':
-        await this.handleJoinPage(ws, message);
-        break;
-
-      case 'cursor_update':
-        await this.handleCursorUpdate(ws, message);
-        break;
-
-      case 'cursor_hide':
-        await this.handleCursorHide(ws, message);
-        break;
-
-      case 'join_presence':
-        await this.handleJoinPresence(ws, message);
-        break;
-
-      case 'user_typing':
-        await this.handleUserTyping(ws, message);
-        break;
-
-      case 'user_stopped_typing':
-        await this.handleUserStoppedTyping(ws, message);
-        break;
-
-      case 'block_edit':
-        await this.handleBlockEdit(ws, message);
-        break;
-
-      case 'create_page':
-        await this.handleCreatePage(ws, message);
-        break;
-
-      case 'update_page':
-        await this.handleUpdatePage(ws, message);
-        break;
-
-      case 'delete_page':
-        await this.handleDeletePage(ws, message);
-        break;
-
-      case 'create_block':
-        await this.handleCreateBlock(ws, message);
-        break;
-
-      case 'update_block':
-        await this.handleUpdateBlock(ws, message);
-        break;
-
-      case 'delete_block':
-        await this.handleDeleteBlock(ws, message);
-        break;
-
-      case 'reorder_blocks':
-        await this.handleReorderBlocks(ws, message);
-        break;
-
-      case 'toggle_favorite':
-        await this.handleToggleFavorite(ws, message);
-        break;
-
-      case 'archive_page':
-        await this.handleArchivePage(ws, message);
-        break;
-
-      case 'restore_page':
-        await this.handleRestorePage(ws, message);
-        break;
-
-      case 'permanent_delete':
-        await this.handlePermanentDelete(ws, message);
-        break;
-
-      default:
-        console.warn('Unknown message type:', type);
+export function registerCollaborationHandlers(server: RealtimeServer) {
+  server.onLeaveRooms((connection) => {
+    Array.from(connection.pages.keys()).forEach(pageId => leavePage(server, connection, pageId));
+    Array.from(connection.workspaces).forEach(workspaceId => leaveWorkspace(server, connection, workspaceId));
+  });
+
+  // Workspace rooms
+  server.handle('join_workspace', async (connection, { workspaceId }) => {
+    const userId = connectionUserId(connection);
+    if (!await storage.getUserWorkspaceRole(workspaceId, userId)) {
+      throw new RealtimeError('forbidden', 'You are not a member of this workspace');
     }
-  }
-
-  private async handleJoinPage(ws: WebSocketClient, message: any) {
-    const { pageId, userId, userName, userColor } = message;
-    
-    ws.userId = userId;
-    ws.pageId = pageId;
-    ws.userName = userName;
-    ws.userColor = userColor;
-
-    // Add user to page room
-    if (!this.pageRooms.has(pageId)) {
-      this.pageRooms.set(pageId, new Set());
+    await connectionName(connection, userId);
+    if (!connection.workspaces.has(workspaceId)) {
+      connection.workspaces.add(workspaceId);
+      server.publishToWorkspace(workspaceId, 'workspace_presence', { workspaceId, users: workspaceUsers(server, workspaceId) }, connection);
     }
-    this.pageRooms.get(pageId)!.add(ws.sessionId!);
-
-    // Notify other users in the page
-    this.broadcastToPage(pageId, {
-      type: 'user_joined',
-      userId,
-      userName,
-      userColor,
-      timestamp: Date.now()
-    }, ws.sessionId!);
-
-    // Send current cursors to the new user
-    const currentCursors = Array.from(this.userCursors.values())
-      .filter(cursor => cursor.pageId === pageId && cursor.userId !== userId);
-    
-    ws.send(JSON.stringify({
-      type: 'initial_cursors',
-      cursors: currentCursors
-    }));
-
-    // Log activity
-    try {
-      await storage.logActivity({
-        type: 'page_joined',
-        userId,
-        workspaceId: 1, // This should be dynamic based on page
-        pageId,
-        blockId: null,
-        metadata: { userName, sessionId: ws.sessionId }
+    return { workspaceId, users: workspaceUsers(server, workspaceId) };
+  }, { fallback: 'Failed to join workspace' });
+
+  server.handle('leave_workspace', async (connection, { workspaceId }) => {
+    leaveWorkspace(server, connection, workspaceId);
+    return null;
+  }, { fallback: 'Failed to leave workspace' });
+
+  // Page rooms
+  server.handle('join_page', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    const { page } = await requirePageAccess(pageId, userId, 'view');
+    await connectionName(connection, userId);
+    if (!connection.pages.has(pageId)) {
+      connection.pages.set(pageId, { status: 'viewing', blockId: null, cursor: null });
+      trackPageView(page, userId);
+      storage.updateLivePresence({ pageId, userId, status: 'active', sessionId: connection.id }).catch((error) => {
+        console.error('Error updating live presence:', error);
       });
-    } catch (error) {
-      console.error('Error logging page join activity:', error);
+      publishPresence(server, pageId);
     }
-  }
 
-  private async handleCursorUpdate(ws: WebSocketClient, message: CursorData) {
-    if (!ws.userId || !ws.pageId) return;
+    const cursors = server.connectionsOnPage(pageId)
+      .filter(other => other.socket.identity?.userId !== userId)
+      .map(other => cursorOf(other, pageId))
+      .filter((cursor): cursor is RealtimeCursor => cursor !== null);
+    return { pageId, users: pagePresence(server, pageId), cursors };
+  }, { fallback: 'Failed to join page' });
 
-    const cursorData: CursorData = {
-      type: 'cursor_update',
-      pageId: message.pageId,
-      userId: ws.userId,
-      userName: ws.userName || '',
-      userColor: ws.userColor || '#000000',
-      x: message.x,
-      y: message.y,
-      timestamp: Date.now()
-    };
+  server.handle('leave_page', async (connection, { pageId }) => {
+    leavePage(server, connection, pageId);
+    return null;
+  }, { fallback: 'Failed to leave page' });
 
-    // Store cursor position
-    this.userCursors.set(ws.userId, cursorData);
-
-    // Broadcast to other users in the same page
-    this.broadcastToPage(message.pageId, cursorData, ws.sessionId!);
+  server.handle('cursor_move', async (connection, { pageId, x, y, blockId, selection }) => {
+    const userId = connectionUserId(connection);
+    const membership = membershipOf(connection, pageId);
+    membership.cursor = { x, y, blockId: blockId ?? null, selection: selection ?? null };
+    server.publishToPageRoom(pageId, 'cursor_moved', cursorOf(connection, pageId)!, connection);
 
     // Optionally persist to database for analytics
-    try {
-      await storage.logCollaborationCursor({
-        pageId: message.pageId,
-        userId: ws.userId,
-        x: message.x,
-        y: message.y,
-        sessionId: ws.sessionId!
-      });
-    } catch (error) {
+    storage.logCollaborationCursor({ pageId, userId, x, y, sessionId: connection.id }).catch((error) => {
       console.error('Error logging cursor position:', error);
-    }
-  }
-
-  private async handleCursorHide(ws: WebSocketClient, message: any) {
-    if (!ws.userId) return;
-
-    this.userCursors.delete(ws.userId);
-
-    this.broadcastToPage(message.pageId, {
-      type: 'cursor_hide',
-      userId: ws.userId,
-      timestamp: Date.now()
-    }, ws.sessionId!);
-  }
-
-  private async handleJoinPresence(ws: WebSocketClient, message: any) {
-    const { pageId, userId, userName, userAvatar } = message;
-
-    const presenceData: PresenceData = {
-      type: 'join_presence',
-      pageId,
-      userId,
-      userName,
-      status: 'active'
-    };
-
-    this.userPresence.set(userId, presenceData);
-
-    // Get all users in the page
-    const pageUsers = Array.from(this.userPresence.values())
-      .filter(presence => presence.pageId === pageId);
-
-    // Send presence update to all users in the page
-    this.broadcastToPage(pageId, {
-      type: 'presence_update',
-      users: pageUsers.map(p => ({
-        id: p.userId,
-        name: p.userName,
-        status: p.status,
-        lastSeen: Date.now()
-      }))
     });
-
-    // Persist presence to database
-    try {
-      await storage.updateLivePresence({
-        pageId,
-        userId,
-        status: 'active',
-        sessionId: ws.sessionId!
-      });
-    } catch (error) {
-      console.error('Error updating live presence:', error);
+    return null;
+  }, { fallback: 'Failed to move cursor' });
+
+  server.handle('cursor_hide', async (connection, { pageId }) => {
+    const userId = connectionUserId(connection);
+    membershipOf(connection, pageId).cursor = null;
+    server.publishToPageRoom(pageId, 'cursor_hidden', { pageId, userId }, connection);
+    return null;
+  }, { fallback: 'Failed to hide cursor' });
+
+  server.handle('typing', async (connection, { pageId, blockId, isTyping }) => {
+    const membership = membershipOf(connection, pageId);
+    membership.status = isTyping ? 'typing' : 'viewing';
+    membership.blockId = isTyping ? blockId : null;
+    publishPresence(server, pageId);
+    return null;
+  }, { fallback: 'Failed to update typing status' });
+
+  // Live text edits, for blocks on a joined page
+  server.handle('block_sync', async (connection, { blockId }) => {
+    const snapshot = await blockSync.getSnapshot(blockId);
+    if (!snapshot || !connection.pages.has(snapshot.pageId)) {
+      throw new RealtimeError('not_found', 'Block not found');
     }
-  }
-
-  private async handleUserTyping(ws: WebSocketClient, message: any) {
-    if (!ws.userId) return;
-
-    const presenceData = this.userPresence.get(ws.userId);
-    if (presenceData) {
-      presenceData.status = 'typing';
-      this.userPresence.set(ws.userId, presenceData);
+    return { blockId: snapshot.blockId, text: snapshot.text, revision: snapshot.revision };
+  }, { fallback: 'Failed to load block' });
+
+  server.handle('block_edit', async (connection, { blockId, revision, operation }) => {
+    const userId = connectionUserId(connection);
+    const snapshot = await blockSync.getSnapshot(blockId);
+    if (!snapshot || !connection.pages.has(snapshot.pageId)) {
+      throw new RealtimeError('not_found', 'Block not found');
     }
+    await requirePageAccess(snapshot.pageId, userId, 'edit');
 
-    this.broadcastToPage(message.pageId, {
-      type: 'user_typing',
-      userId: ws.userId,
-      userName: ws.userName,
-      blockId: message.blockId,
-      timestamp: Date.now()
-    }, ws.sessionId!);
-  }
-
-  private async handleUserStoppedTyping(ws: WebSocketClient, message: any) {
-    if (!ws.userId) return;
-
-    const presenceData = this.userPresence.get(ws.userId);
-    if (presenceData) {
-      presenceData.status = 'active';
-      this.userPresence.set(ws.userId, presenceData);
-    }
-
-    this.broadcastToPage(message.pageId, {
-      type: 'user_stopped_typing',
-      userId: ws.userId,
-      timestamp: Date.now()
-    }, ws.sessionId!);
-  }
-
-  private async handleBlockEdit(ws: WebSocketClient, message: any) {
-    if (!ws.userId || !ws.pageId) return;
-
-    // Broadcast block edit to other users
-    this.broadcastToPage(ws.pageId, {
-      type: 'block_edit',
-      userId: ws.userId,
-      userName: ws.userName,
-      blockId: message.blockId,
-      content: message.content,
-      timestamp: Date.now()
-    }, ws.sessionId!);
-
-    // Log activity
     try {
-      await storage.logActivity({
-        type: 'block_edited',
-        userId: ws.userId,
-        workspaceId: 1, // This should be dynamic
-        pageId: ws.pageId,
-        blockId: message.blockId,
-        metadata: { content: message.content }
-      });
+      const edit = await blockSync.applyEdit(blockId, revision, operation, userId);
+      // Everyone else receives the operation already transformed to the server's history
+      server.publishToPageRoom(edit.pageId, 'block_edit', {
+        pageId: edit.pageId,
+        blockId,
+        revision: edit.revision,
+        operation: edit.operation,
+        userId,
+        userName: connection.userName ?? '',
+      }, connection);
+      return { applied: true, revision: edit.revision };
     } catch (error) {
-      console.error('Error logging block edit activity:', error);
-    }
-  }
-
-  private handleDisconnect(ws: WebSocketClient) {
-    if (ws.sessionId) {
-      this.clients.delete(ws.sessionId);
+      if (!(error instanceof BlockSyncError)) throw error;
+      if (error.code === 'not_found') throw new RealtimeError('not_found', 'Block not found');
+      // The client fell too far behind or diverged; hand it the current text to rebase on
+      const current = await blockSync.getSnapshot(blockId);
+      return {
+        applied: false,
+        reason: error.code,
+        snapshot: { blockId, text: current?.text ?? '', revision: current?.revision ?? 0 },
+      };
     }
-
-    if (ws.userId) {
-      this.userCursors.delete(ws.userId);
-      this.userPresence.delete(ws.userId);
-    }
-
-    if (ws.pageId) {
-      const pageRoom = this.pageRooms.get(ws.pageId);
-      if (pageRoom && ws.sessionId) {
-        pageRoom.delete(ws.sessionId);
-        
-        // Notify other users
-        this.broadcastToPage(ws.pageId, {
-          type: 'user_left',
-          userId: ws.userId,
-          userName: ws.userName,
-          timestamp: Date.now()
-        }, ws.sessionId);
-      }
-    }
-
-    console.log(`WebSocket client disconnected: ${ws.sessionId}`);
-  }
-
-  private broadcastToPage(pageId: number, message: any, excludeSessionId?: string) {
-    const pageRoom = this.pageRooms.get(pageId);
-    if (!pageRoom) return;
-
-    pageRoom.forEach(sessionId => {
-      if (sessionId !== excludeSessionId) {
-        const client = this.clients.get(sessionId);
-        if (client && client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify(message));
-        }
-      }
+  }, { fallback: 'Failed to apply block edit' });
+
+  // Comments, for a joined page
+  server.handle('comment_add', async (connection, { pageId, ...input }) => {
+    const userId = connectionUserId(connection);
+    membershipOf(connection, pageId);
+    const { page } = await getPageForComments(pageId, userId, 'comment');
+    const { comment, thread } = await addComment(page, userId, input);
+    recordAuditQuietly({
+      workspaceId: page.workspaceId,
+      userId,
+      action: 'comment.created',
+      resourceType: 'comment',
+      resourceId: comment.id,
+      metadata: { pageId: page.id, title: page.title, blockId: comment.blockId }
     });
-  }
-
-  // WebSocket CRUD handlers
-  private async handleCreatePage(ws: WebSocketClient, message: any) {
-    const { title, parentId, workspaceId } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      const newPage = await storage.createPage({
-        title,
-        parentId: parentId || null,
-        workspaceId,
-        createdBy: ws.userId!,
-        lastEditedBy: ws.userId!
-      });
-
-      // Broadcast to all workspace members
-      this.broadcastToWorkspace(workspaceId, {
-        type: 'page_created',
-        page: newPage,
-        timestamp: Date.now()
-      });
-
-      ws.send(JSON.stringify({
-        type: 'page_created_success',
-        page: newPage
-      }));
-
-    } catch (error) {
-      console.error('Error creating page:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to create page'
-      }));
-    }
-  }
-
-  private async handleUpdatePage(ws: WebSocketClient, message: any) {
-    const { pageId, updates } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      const updatedPage = await storage.updatePage(pageId, {
-        ...updates,
-        lastEditedBy: ws.userId!
-      });
-
-      if (updatedPage) {
-        // Broadcast to all users viewing this page
-        this.broadcastToPage(pageId, {
-          type: 'page_updated',
-          page: updatedPage,
-          timestamp: Date.now()
-        });
-      }
-
-    } catch (error) {
-      console.error('Error updating page:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to update page'
-      }));
-    }
-  }
-
-  private async handleDeletePage(ws: WebSocketClient, message: any) {
-    const { pageId } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      await storage.deletePage(pageId);
-
-      // Broadcast to all workspace members
-      this.broadcastToWorkspace(message.workspaceId, {
-        type: 'page_deleted',
-        pageId,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error deleting page:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to delete page'
-      }));
-    }
-  }
-
-  private async handleCreateBlock(ws: WebSocketClient, message: any) {
-    const { pageId, blockType, content, position } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      const newBlock = await storage.createBlock({
-        pageId,
-        type: blockType,
-        content,
-        position,
-        createdBy: ws.userId!,
-        lastEditedBy: ws.userId!
-      });
-
-      // Broadcast to all users viewing this page
-      this.broadcastToPage(pageId, {
-        type: 'block_created',
-        block: newBlock,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error creating block:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to create block'
-      }));
-    }
-  }
-
-  private async handleUpdateBlock(ws: WebSocketClient, message: any) {
-    const { blockId, content } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      const updatedBlock = await storage.updateBlock(blockId, {
-        content,
-        lastEditedBy: ws.userId!
-      });
-
-      if (updatedBlock) {
-        // Broadcast to all users viewing this page
-        this.broadcastToPage(updatedBlock.pageId, {
-          type: 'block_updated',
-          block: updatedBlock,
-          timestamp: Date.now()
-        });
-      }
-
-    } catch (error) {
-      console.error('Error updating block:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to update block'
-      }));
-    }
-  }
-
-  private async handleDeleteBlock(ws: WebSocketClient, message: any) {
-    const { blockId } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      const block = await storage.getBlockById(blockId);
-      
-      if (block) {
-        await storage.deleteBlock(blockId);
-
-        // Broadcast to all users viewing this page
-        this.broadcastToPage(block.pageId, {
-          type: 'block_deleted',
-          blockId,
-          timestamp: Date.now()
-        });
-      }
-
-    } catch (error) {
-      console.error('Error deleting block:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to delete block'
-      }));
-    }
-  }
-
-  private async handleReorderBlocks(ws: WebSocketClient, message: any) {
-    const { pageId, blockIds } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      await storage.reorderBlocks(pageId, blockIds);
-
-      // Broadcast to all users viewing this page
-      this.broadcastToPage(pageId, {
-        type: 'blocks_reordered',
-        pageId,
-        blockIds,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error reordering blocks:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to reorder blocks'
-      }));
-    }
-  }
-
-  private async handleToggleFavorite(ws: WebSocketClient, message: any) {
-    const { pageId } = message;
-    
-    try {
-      // Implementation depends on your favorite system
-      // For now, just broadcast the toggle
-      this.broadcastToWorkspace(message.workspaceId, {
-        type: 'page_favorite_toggled',
-        pageId,
-        userId: ws.userId!,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error toggling favorite:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to toggle favorite'
-      }));
-    }
-  }
-
-  private async handleArchivePage(ws: WebSocketClient, message: any) {
-    const { pageId } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      await storage.archivePage(pageId);
-
-      // Broadcast to all workspace members
-      this.broadcastToWorkspace(message.workspaceId, {
-        type: 'page_archived',
-        pageId,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error archiving page:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to archive page'
-      }));
-    }
-  }
-
-  private async handleRestorePage(ws: WebSocketClient, message: any) {
-    const { pageId } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      await storage.restorePage(pageId);
-
-      // Broadcast to all workspace members
-      this.broadcastToWorkspace(message.workspaceId, {
-        type: 'page_restored',
-        pageId,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error restoring page:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to restore page'
-      }));
-    }
-  }
-
-  private async handlePermanentDelete(ws: WebSocketClient, message: any) {
-    const { pageId } = message;
-    
-    try {
-      const { storage } = await import('./storage');
-      await storage.deletePage(pageId);
-
-      // Broadcast to all workspace members
-      this.broadcastToWorkspace(message.workspaceId, {
-        type: 'page_permanently_deleted',
-        pageId,
-        timestamp: Date.now()
-      });
-
-    } catch (error) {
-      console.error('Error permanently deleting page:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to permanently delete page'
-      }));
-    }
-  }
-
-  private broadcastToWorkspace(workspaceId: number, message: any) {
-    // Find all clients in this workspace
-    this.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(message));
-      }
+    server.publishToPageRoom(page.id, 'comment_added', { pageId: page.id, comment, thread, userId });
+    return thread;
+  }, { fallback: 'Failed to add comment' });
+
+  server.handle('comment_resolve', async (connection, { commentId, resolved }) => {
+    const userId = connectionUserId(connection);
+    const access = await getCommentForUser(commentId, userId);
+    membershipOf(connection, access.page.id);
+    const thread = await setThreadResolved(access, userId, resolved);
+    server.publishToPageRoom(access.page.id, resolved ? 'comment_resolved' : 'comment_reopened', {
+      pageId: access.page.id,
+      thread,
+      userId,
     });
-  }
-
-  public getStats() {
-    return {
-      connectedClients: this.clients.size,
-      activeRooms: this.pageRooms.size,
-      activeCursors: this.userCursors.size,
-      activePresence: this.userPresence.size
-    };
-  }
+    return thread;
+  }, { fallback: 'Failed to update comment' });
+
+  // Ticking a task from the inbox; the editor of its page picks up the block_updated
+  server.handle('task_update', async (connection, { blockId, checked }) => {
+    const userId = connectionUserId(connection);
+    const { task, block, page } = await updateTask(blockId, userId, { checked });
+    broadcastTaskUpdate(page, block, userId);
+    return task;
+  }, { fallback: 'Failed to update task' });
 }
 
-export { CollaborationServer };
\ No newline at end of file
+// Tasks change blocks outside the editor; open editors refresh the block from `block`
+export function broadcastTaskUpdate(page: Page, block: Block, userId: string) {
+  broadcastPageEvent(page, 'block_updated', { block, userId });
+}
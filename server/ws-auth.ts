@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { storage } from './storage';
+import { sessionIdFromCookie, sessionSecret, sessionUserId } from './session-store';
+import { needsMFAEnrollment } from './mfa';
+import { realtimeCloseCodes } from '@shared/realtime';
+import type { Session } from '@shared/schema';
+
+// Who is on the other end of a WebSocket. Upgrades are tied to the Express session, either
+// through the session cookie or a short-lived ticket from POST /api/ws/ticket for clients
+// that cannot send cookies; handlers take the user from here, never from messages.
+// Sockets are closed with realtimeCloseCodes.sessionEnded once their session expires or is
+// revoked.
+
+export interface SocketIdentity {
+  userId: string;
+  sid: string;
+  expiresAt: number;
+  // Set when the socket signed in over itself; that session ends with the socket
+  ownsSession?: boolean;
+}
+
+export type AuthenticatedSocket = WebSocket & { identity?: SocketIdentity };
+
+const TICKET_TTL_MS = 60 * 1000;
+const SUPERVISE_INTERVAL_MS = 30 * 1000;
+
+interface SocketRoute {
+  wss: WebSocketServer;
+  // Lets the socket connect signed out, for servers that offer sign-in over the socket
+  allowAnonymous: boolean;
+}
+
+const routesByServer = new WeakMap<Server, Map<string, SocketRoute>>();
+// Tickets work once; ids are kept until the ticket would have expired anyway
+const usedTickets = new Map<string, number>();
+
+function ticketKey(): Buffer {
+  return crypto.createHash('sha256').update(`ws-ticket:${sessionSecret()}`).digest();
+}
+
+function sessionHash(sid: string): string {
+  return crypto.createHash('sha256').update(sid).digest('base64url');
+}
+
+function signTicket(payload: string): string {
+  return crypto.createHmac('sha256', ticketKey()).update(payload).digest('base64url');
+}
+
+// Binds the ticket to the session it was issued from, so revoking that session also
+// stops the ticket and the sockets opened with it
+export function issueSocketTicket(userId: string, sid: string): { ticket: string; expiresAt: number } {
+  const expiresAt = Date.now() + TICKET_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({
+    n: crypto.randomBytes(9).toString('base64url'), u: userId, s: sessionHash(sid), e: expiresAt,
+  })).toString('base64url');
+  return { ticket: `${payload}.${signTicket(payload)}`, expiresAt };
+}
+
+async function identityFromTicket(ticket: string): Promise<SocketIdentity | null> {
+  const [payload, signature] = ticket.split('.');
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(signTicket(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  let claims: { n?: string; u?: string; s?: string; e?: number };
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  const now = Date.now();
+  if (typeof claims.n !== 'string' || typeof claims.u !== 'string' || typeof claims.e !== 'number') return null;
+  if (claims.e < now || usedTickets.has(claims.n)) return null;
+  usedTickets.forEach((expiresAt, nonce) => {
+    if (expiresAt < now) usedTickets.delete(nonce);
+  });
+  usedTickets.set(claims.n, claims.e);
+
+  const row = (await storage.getUserSessions(claims.u)).find(candidate => sessionHash(candidate.sid) === claims.s);
+  return row ? identityFromRow(row) : null;
+}
+
+// A session counts once it has signed in all the way; sessions still waiting for a second
+// factor or for MFA enrollment do not
+async function identityFromRow(row: Session): Promise<SocketIdentity | null> {
+  if (row.expire <= Date.now()) return null;
+  let data: any;
+  try {
+    data = JSON.parse(row.sess);
+  } catch {
+    return null;
+  }
+  const userId = sessionUserId(data);
+  if (!userId || userId !== row.userId || data.user?.mfaEnrollmentRequired) return null;
+  if (await needsMFAEnrollment(userId)) return null;
+  return { userId, sid: row.sid, expiresAt: row.expire };
+}
+
+// Cookies ride along on cross-site upgrades too, so they only count from this site's pages
+function sameOrigin(request: IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === request.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+export async function authenticateUpgrade(request: IncomingMessage): Promise<SocketIdentity | null> {
+  const ticket = new URL(request.url ?? '/', 'http://localhost').searchParams.get('ticket');
+  if (ticket) return identityFromTicket(ticket);
+
+  if (!sameOrigin(request)) return null;
+  const sid = sessionIdFromCookie(request.headers.cookie);
+  if (!sid) return null;
+  const row = await storage.getSession(sid);
+  return row ? identityFromRow(row) : null;
+}
+
+export async function isIdentityCurrent(identity: SocketIdentity): Promise<boolean> {
+  const row = await storage.getSession(identity.sid);
+  const current = row ? await identityFromRow(row) : null;
+  return current?.userId === identity.userId;
+}
+
+// Sign-ins over the socket itself get a session row like a browser's, so they are listed
+// with the user's sessions and end the same ways: revoked, signed out from elsewhere or
+// cut off by a password reset. Nothing outside the server ever learns the session id.
+export async function startSocketSession(userId: string, client: { ipAddress: string | null; userAgent: string | null }, ttlMs: number): Promise<SocketIdentity> {
+  const sid = crypto.randomBytes(24).toString('base64url');
+  const expiresAt = Date.now() + ttlMs;
+  const { ipAddress, userAgent } = client;
+  await storage.saveSession({
+    sid,
+    sess: JSON.stringify({
+      cookie: { expires: new Date(expiresAt).toISOString() },
+      user: { claims: { sub: userId } },
+      client: { ipAddress, userAgent },
+    }),
+    expire: expiresAt,
+    userId,
+    ipAddress,
+    userAgent,
+  });
+  return { userId, sid, expiresAt, ownsSession: true };
+}
+
+export async function endSocketSession(identity: SocketIdentity | undefined) {
+  if (identity?.ownsSession) {
+    await storage.deleteSession(identity.sid);
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+// Servers are created with `noServer` and mounted here, so one upgrade listener picks the
+// server by path and authenticates before the handshake. Other paths, such as the Vite
+// dev server's, are left to their own listeners.
+export function mountSocketServer(server: Server, path: string, wss: WebSocketServer, options: { allowAnonymous?: boolean } = {}) {
+  let routes = routesByServer.get(server);
+  if (!routes) {
+    const mounted = new Map<string, SocketRoute>();
+    routes = mounted;
+    routesByServer.set(server, mounted);
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const route = mounted.get(new URL(request.url ?? '/', 'http://localhost').pathname);
+      if (!route) return;
+      authenticateUpgrade(request).then((identity) => {
+        if (!identity && !route.allowAnonymous) {
+          rejectUpgrade(socket, 401, 'Unauthorized');
+          return;
+        }
+        route.wss.handleUpgrade(request, socket, head, (ws) => {
+          (ws as AuthenticatedSocket).identity = identity ?? undefined;
+          route.wss.emit('connection', ws, request);
+        });
+      }).catch((error) => {
+        console.error('Error authenticating WebSocket upgrade:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+    });
+  }
+  if (routes.has(path)) {
+    throw new Error(`A WebSocket server is already mounted on ${path}`);
+  }
+  routes.set(path, { wss, allowAnonymous: options.allowAnonymous ?? false });
+  superviseSessions(wss);
+}
+
+// Closes sockets whose session has ended since they connected
+function superviseSessions(wss: WebSocketServer) {
+  const timer = setInterval(() => {
+    wss.clients.forEach((ws: AuthenticatedSocket) => {
+      const identity = ws.identity;
+      if (!identity || ws.readyState !== WebSocket.OPEN) return;
+      isIdentityCurrent(identity).then((current) => {
+        if (!current && ws.identity === identity) {
+          ws.close(realtimeCloseCodes.sessionEnded, 'Session ended');
+        }
+      }).catch((error) => {
+        console.error('Error checking WebSocket session:', error);
+      });
+    });
+  }, SUPERVISE_INTERVAL_MS);
+  timer.unref();
+  wss.on('close', () => clearInterval(timer));
+}
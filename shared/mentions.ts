@@ -0,0 +1,49 @@
+// Inline mentions inside block text (blocks.content.text).
+//
+// A mention is written into the text as a token:
+//   @[Ada Lovelace](user:abc123)
+//   @[Roadmap](page:42)
+//   @[2026-10-19](date:2026-10-19)
+// Keeping tokens in the text means they move with collaborative edits like any other
+// characters. The label is what readers see; the type and id are what the server indexes.
+
+export const mentionTypes = ["user", "page", "date"] as const;
+export type MentionType = typeof mentionTypes[number];
+
+export interface BlockMention {
+  type: MentionType;
+  id: string;
+  label: string;
+}
+
+const MENTION_PATTERN = /@\[([^\]\n]*)\]\((user|page|date):([^)\s]+)\)/g;
+
+export function formatMention(mention: BlockMention): string {
+  const label = mention.label.replace(/[\]\n]/g, " ").trim();
+  return `@[${label}](${mention.type}:${mention.id})`;
+}
+
+export function parseMentions(text: string): BlockMention[] {
+  return Array.from(text.matchAll(MENTION_PATTERN), match => ({
+    type: match[2] as MentionType,
+    id: match[3],
+    label: match[1],
+  }));
+}
+
+// Splits text into plain runs and mentions, in order, for rendering
+export function splitMentions(text: string): Array<string | BlockMention> {
+  const parts: Array<string | BlockMention> = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    if (match.index! > last) {
+      parts.push(text.slice(last, match.index));
+    }
+    parts.push({ type: match[2] as MentionType, id: match[3], label: match[1] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) {
+    parts.push(text.slice(last));
+  }
+  return parts;
+}
@@ -0,0 +1,268 @@
+// Operational transform for plain-text block content (blocks.content.text).
+//
+// An operation is a list of components applied left to right:
+//   number           - skip over that many characters
+//   string           - insert the string at the current position
+//   { d: number }    - delete that many characters
+// Trailing skips are implicit, so an operation does not need to span the whole text.
+
+export type TextOpComponent = number | string | { d: number };
+export type TextOperation = TextOpComponent[];
+
+export class InvalidOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidOperationError";
+  }
+}
+
+function componentLength(c: TextOpComponent): number {
+  if (typeof c === "number") return c;
+  if (typeof c === "string") return c.length;
+  return c.d;
+}
+
+function append(op: TextOperation, c: TextOpComponent) {
+  if (componentLength(c) === 0) return;
+
+  const last = op[op.length - 1];
+  if (op.length > 0 && typeof last === typeof c) {
+    if (typeof last === "number") {
+      op[op.length - 1] = last + (c as number);
+    } else if (typeof last === "string") {
+      op[op.length - 1] = last + (c as string);
+    } else {
+      op[op.length - 1] = { d: last.d + (c as { d: number }).d };
+    }
+  } else {
+    op.push(c);
+  }
+}
+
+function trim(op: TextOperation): TextOperation {
+  if (op.length > 0 && typeof op[op.length - 1] === "number") {
+    op.pop();
+  }
+  return op;
+}
+
+// Returns a reader that hands out pieces of `op` no longer than `n`.
+// `indivisible` keeps inserts ("i") or deletes ("d") whole regardless of `n`.
+function makeTake(op: TextOperation) {
+  let index = 0;
+  let offset = 0;
+
+  const take = (n: number, indivisible?: "i" | "d"): TextOpComponent | null => {
+    if (index === op.length) return n === -1 ? null : n;
+
+    const c = op[index];
+    if (typeof c === "number") {
+      if (n === -1 || c - offset <= n) {
+        const part = c - offset;
+        index++;
+        offset = 0;
+        return part;
+      }
+      offset += n;
+      return n;
+    }
+
+    if (typeof c === "string") {
+      if (n === -1 || indivisible === "i" || c.length - offset <= n) {
+        const part = c.slice(offset);
+        index++;
+        offset = 0;
+        return part;
+      }
+      const part = c.slice(offset, offset + n);
+      offset += n;
+      return part;
+    }
+
+    if (n === -1 || indivisible === "d" || c.d - offset <= n) {
+      const part = { d: c.d - offset };
+      index++;
+      offset = 0;
+      return part;
+    }
+    offset += n;
+    return { d: n };
+  };
+
+  const peek = () => op[index];
+
+  return { take, peek };
+}
+
+export function isValidOperation(op: unknown): op is TextOperation {
+  if (!Array.isArray(op)) return false;
+  return op.every((c) => {
+    if (typeof c === "number") return Number.isInteger(c) && c > 0;
+    if (typeof c === "string") return c.length > 0;
+    return typeof c === "object" && c !== null && Number.isInteger(c.d) && c.d > 0;
+  });
+}
+
+export function normalize(op: TextOperation): TextOperation {
+  const result: TextOperation = [];
+  op.forEach((c) => append(result, c));
+  return trim(result);
+}
+
+export function apply(text: string, op: TextOperation): string {
+  const parts: string[] = [];
+  let pos = 0;
+
+  for (const c of op) {
+    if (typeof c === "number") {
+      if (pos + c > text.length) {
+        throw new InvalidOperationError("Operation skips past the end of the text");
+      }
+      parts.push(text.slice(pos, pos + c));
+      pos += c;
+    } else if (typeof c === "string") {
+      parts.push(c);
+    } else {
+      if (pos + c.d > text.length) {
+        throw new InvalidOperationError("Operation deletes past the end of the text");
+      }
+      pos += c.d;
+    }
+  }
+
+  parts.push(text.slice(pos));
+  return parts.join("");
+}
+
+// Rewrites `op` so it can be applied after `other`, where both were made against
+// the same text. When both insert at the same position, the "left" side goes first.
+export function transform(op: TextOperation, other: TextOperation, side: "left" | "right"): TextOperation {
+  const result: TextOperation = [];
+  const { take, peek } = makeTake(op);
+
+  for (const c of other) {
+    if (typeof c === "number") {
+      let length = c;
+      while (length > 0) {
+        const chunk = take(length, "i")!;
+        append(result, chunk);
+        if (typeof chunk !== "string") {
+          length -= componentLength(chunk);
+        }
+      }
+    } else if (typeof c === "string") {
+      if (side === "left" && typeof peek() === "string") {
+        append(result, take(-1)!);
+      }
+      append(result, c.length);
+    } else {
+      let length = c.d;
+      while (length > 0) {
+        const chunk = take(length, "i")!;
+        if (typeof chunk === "number") {
+          length -= chunk;
+        } else if (typeof chunk === "string") {
+          append(result, chunk);
+        } else {
+          // Both sides deleted the same characters; drop ours.
+          length -= chunk.d;
+        }
+      }
+    }
+  }
+
+  let rest: TextOpComponent | null;
+  while ((rest = take(-1)) !== null) {
+    append(result, rest);
+  }
+
+  return trim(result);
+}
+
+// Combines two consecutive operations into one with the same effect.
+export function compose(first: TextOperation, second: TextOperation): TextOperation {
+  const result: TextOperation = [];
+  const { take } = makeTake(first);
+
+  for (const c of second) {
+    if (typeof c === "number") {
+      let length = c;
+      while (length > 0) {
+        const chunk = take(length, "d")!;
+        append(result, chunk);
+        if (typeof chunk !== "object") {
+          length -= componentLength(chunk);
+        }
+      }
+    } else if (typeof c === "string") {
+      append(result, c);
+    } else {
+      let length = c.d;
+      while (length > 0) {
+        const chunk = take(length, "d")!;
+        if (typeof chunk === "number") {
+          append(result, { d: chunk });
+          length -= chunk;
+        } else if (typeof chunk === "string") {
+          length -= chunk.length;
+        } else {
+          append(result, chunk);
+        }
+      }
+    }
+  }
+
+  let rest: TextOpComponent | null;
+  while ((rest = take(-1)) !== null) {
+    append(result, rest);
+  }
+
+  return trim(result);
+}
+
+// Builds the operation that turns `before` into `after` by trimming the common
+// prefix and suffix. Good enough for a single textarea change event.
+export function diff(before: string, after: string): TextOperation {
+  if (before === after) return [];
+
+  let start = 0;
+  const maxStart = Math.min(before.length, after.length);
+  while (start < maxStart && before[start] === after[start]) {
+    start++;
+  }
+
+  let end = 0;
+  const maxEnd = Math.min(before.length, after.length) - start;
+  while (
+    end < maxEnd &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const op: TextOperation = [];
+  append(op, start);
+  append(op, { d: before.length - start - end });
+  append(op, after.slice(start, after.length - end));
+  return trim(op);
+}
+
+// Moves a caret index so it stays on the same character after `op` is applied.
+export function transformIndex(index: number, op: TextOperation): number {
+  let pos = 0;
+  let result = index;
+
+  for (const c of op) {
+    if (pos >= index) break;
+    if (typeof c === "number") {
+      pos += c;
+    } else if (typeof c === "string") {
+      result += c.length;
+    } else {
+      result -= Math.min(c.d, index - pos);
+      pos += c.d;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,294 @@
+// The realtime protocol spoken over the one WebSocket endpoint, REALTIME_PATH.
+//
+// Clients connect with ?v=REALTIME_PROTOCOL_VERSION. Every client message is a request:
+//   { id?: string, type: RealtimeRequestType, data: RealtimeRequestData<type> }
+// Requests with an id are answered by a `reply` or an `error` carrying the same id; requests
+// without one are fire-and-forget, such as cursor moves. Everything else the server sends
+// is an `event` for a room the connection joined or for its user.
+// Messages from one connection are handled in the order they were sent.
+
+import { z } from "zod";
+import {
+  createCommentSchema, insertPageSchema, insertBlockSchema, passwordSchema,
+  type Block, type Comment, type CommentThread, type DatabaseRow, type DatabaseViewConfig, type DatabaseWithViews,
+  type NotificationView, type Page, type TaskView, type User, type Workspace, type WorkspaceMember,
+} from "./schema";
+import type { TextOperation } from "./ot";
+
+export const REALTIME_PROTOCOL_VERSION = 1;
+export const REALTIME_PATH = "/api/ws";
+
+// Close codes beyond the WebSocket ones
+export const realtimeCloseCodes = {
+  // The client speaks another protocol version; reconnecting will not help until it reloads
+  unsupportedVersion: 4400,
+  // The session the socket was opened with expired or was revoked
+  sessionEnded: 4401,
+} as const;
+
+export const realtimeErrorCodes = [
+  "bad_request",
+  "unauthenticated",
+  "forbidden",
+  "not_found",
+  "conflict",
+  "gone",
+  "rate_limited",
+  "internal",
+  // Raised by clients: the connection dropped or timed out before the reply came
+  "unavailable",
+] as const;
+
+export type RealtimeErrorCode = typeof realtimeErrorCodes[number];
+
+const id = z.number().int().positive();
+
+export const realtimeClientMessageSchema = z.object({
+  id: z.string().min(1).max(64).optional(),
+  type: z.string().min(1).max(64),
+  data: z.unknown().optional(),
+});
+
+const pageRequest = z.object({ pageId: id });
+
+const textOperationSchema = z.array(z.union([
+  z.number().int(),
+  z.string(),
+  z.object({ d: z.number().int() }),
+])).max(10000);
+
+// Request bodies by type. Identity never comes from here; the server takes it from the session.
+export const realtimeRequestSchemas = {
+  ping: z.object({}),
+
+  // Account
+  auth_login: z.object({
+    usernameOrEmail: z.string().trim().min(1, "Username/email and password are required").max(200),
+    password: z.string().min(1, "Username/email and password are required").max(200),
+  }),
+  auth_register: z.object({
+    email: z.string().trim().email("Enter a valid email address").max(200),
+    username: z.string().trim().min(1, "Email, username, and password are required").max(100),
+    password: passwordSchema,
+    firstName: z.string().trim().max(100).optional(),
+    lastName: z.string().trim().max(100).optional(),
+  }),
+  auth_logout: z.object({}),
+  get_user: z.object({}),
+
+  // Workspaces, pages and blocks
+  get_workspaces: z.object({}),
+  create_workspace: z.object({
+    name: z.string().trim().min(1, "Workspace name is required").max(200),
+    type: z.enum(["personal", "business"]).default("personal"),
+    description: z.string().max(2000).nullable().optional(),
+    icon: z.string().max(50).optional(),
+  }),
+  get_business_workspace: z.object({ subdomain: z.string().trim().min(1).max(100) }),
+  get_pages: z.object({ workspaceId: id }),
+  create_page: insertPageSchema.pick({ title: true, icon: true, cover: true, parentId: true, workspaceId: true }),
+  update_page: pageRequest.extend({
+    updates: insertPageSchema.pick({ title: true, icon: true, cover: true, parentId: true, properties: true }).partial(),
+  }),
+  delete_page: pageRequest,
+  archive_page: pageRequest,
+  restore_page: pageRequest,
+  permanent_delete: pageRequest,
+  toggle_favorite: pageRequest,
+  get_blocks: pageRequest,
+  create_block: insertBlockSchema.pick({
+    pageId: true, type: true, content: true, position: true, parentId: true, properties: true,
+  }),
+  update_block: z.object({
+    blockId: id,
+    updates: insertBlockSchema.pick({ type: true, content: true, position: true, parentId: true, properties: true }).partial(),
+  }),
+  delete_block: z.object({ blockId: id }),
+  reorder_blocks: pageRequest.extend({ blockIds: z.array(id).max(10000) }),
+  task_update: z.object({ blockId: id, checked: z.boolean() }),
+
+  // Rooms. Workspace rooms carry workspace-wide events; page rooms add presence, cursors,
+  // live text edits and comments for the page.
+  join_workspace: z.object({ workspaceId: id }),
+  leave_workspace: z.object({ workspaceId: id }),
+  join_page: pageRequest,
+  leave_page: pageRequest,
+  cursor_move: pageRequest.extend({
+    x: z.number().finite(),
+    y: z.number().finite(),
+    blockId: id.optional(),
+    selection: z.object({ start: z.number().int().min(0), end: z.number().int().min(0) }).optional(),
+  }),
+  cursor_hide: pageRequest,
+  typing: pageRequest.extend({ blockId: id, isTyping: z.boolean() }),
+
+  // Collaborative text editing of a block on a joined page
+  block_sync: z.object({ blockId: id }),
+  block_edit: z.object({
+    blockId: id,
+    revision: z.number().int().min(0),
+    operation: textOperationSchema,
+  }),
+
+  // Comments on a joined page
+  comment_add: createCommentSchema.extend({ pageId: id }),
+  comment_resolve: z.object({ commentId: id, resolved: z.boolean() }),
+};
+
+export type RealtimeRequestType = keyof typeof realtimeRequestSchemas;
+// What clients send, and what handlers receive once defaults are filled in
+export type RealtimeRequestData<T extends RealtimeRequestType> = z.input<(typeof realtimeRequestSchemas)[T]>;
+export type RealtimeRequest<T extends RealtimeRequestType> = z.infer<(typeof realtimeRequestSchemas)[T]>;
+
+export type RealtimeUser = Pick<User, "id" | "email" | "username" | "firstName" | "lastName" | "theme" | "timezone" | "language">;
+
+export interface RealtimeSignIn {
+  user: RealtimeUser;
+  workspaces: Workspace[];
+}
+
+export type PresenceStatus = "viewing" | "typing";
+
+// Someone with the page open. People with several tabs open are listed once.
+export interface PresenceUser {
+  userId: string;
+  name: string;
+  color: string;
+  status: PresenceStatus;
+  blockId: number | null;
+}
+
+export interface RealtimeCursor {
+  pageId: number;
+  userId: string;
+  userName: string;
+  color: string;
+  x: number;
+  y: number;
+  blockId: number | null;
+  selection: { start: number; end: number } | null;
+}
+
+export interface BlockSnapshotView {
+  blockId: number;
+  text: string;
+  revision: number;
+}
+
+export type BlockEditResult =
+  | { applied: true; revision: number }
+  // The edit could not be applied; the client rebases what it typed onto the snapshot
+  | { applied: false; reason: "invalid_operation" | "stale_revision"; snapshot: BlockSnapshotView };
+
+export interface BusinessWorkspaceView extends Workspace {
+  pages: Page[];
+  members: WorkspaceMember[];
+  recentActivity: Array<{ description: string; timestamp: string }>;
+}
+
+// What each request replies with
+export interface RealtimeReplies {
+  ping: { now: number };
+  auth_login: RealtimeSignIn;
+  auth_register: RealtimeSignIn;
+  auth_logout: null;
+  get_user: RealtimeUser;
+  get_workspaces: Workspace[];
+  create_workspace: Workspace;
+  get_business_workspace: BusinessWorkspaceView;
+  get_pages: Page[];
+  create_page: Page;
+  update_page: Page;
+  delete_page: null;
+  archive_page: null;
+  restore_page: null;
+  permanent_delete: null;
+  toggle_favorite: null;
+  get_blocks: Block[];
+  create_block: Block;
+  update_block: Block;
+  delete_block: null;
+  reorder_blocks: null;
+  task_update: TaskView;
+  join_workspace: { workspaceId: number; users: Array<{ userId: string; name: string }> };
+  leave_workspace: null;
+  join_page: { pageId: number; users: PresenceUser[]; cursors: RealtimeCursor[] };
+  leave_page: null;
+  cursor_move: null;
+  cursor_hide: null;
+  typing: null;
+  block_sync: BlockSnapshotView;
+  block_edit: BlockEditResult;
+  comment_add: CommentThread;
+  comment_resolve: CommentThread;
+}
+
+export type RealtimeReply<T extends RealtimeRequestType> = RealtimeReplies[T];
+
+// Events by name. `userId` is whoever caused the change.
+export interface RealtimeEvents {
+  // Workspace rooms
+  workspace_presence: { workspaceId: number; users: Array<{ userId: string; name: string }> };
+  page_created: { page: Page; userId: string };
+  page_deleted: { pageId: number; userId: string };
+  page_archived: { pageId: number; userId: string };
+  page_restored: { pageId: number; userId: string };
+  page_permanently_deleted: { pageId: number; userId: string };
+  page_favorite_toggled: { pageId: number; userId: string };
+  page_permissions_changed: { pageId: number; userId: string };
+  pages_imported: { pages: Array<Pick<Page, "id" | "title" | "parentId">>; userId: string };
+  database_created: { database: DatabaseWithViews; userId: string };
+  database_updated: { database: DatabaseWithViews; userId: string };
+  database_deleted: { databaseId: number; userId: string };
+  database_view_created: { databaseId: number; view: DatabaseViewConfig; userId: string };
+  database_view_updated: { databaseId: number; view: DatabaseViewConfig; userId: string };
+  database_view_deleted: { databaseId: number; viewId: number; userId: string };
+  calendar_event_changed: { eventId?: number; userId: string };
+
+  // Page events, for everyone in the workspace or page room who can see the page
+  page_updated: { page: Page; userId: string };
+  page_restored_revision: { pageId: number; revisionId: number; userId: string };
+  block_created: { block: Block; userId: string };
+  block_updated: { block: Block; userId: string };
+  block_deleted: { blockId: number; pageId: number; userId: string };
+  blocks_reordered: { pageId: number; blockIds: number[]; userId: string };
+  database_row_created: { databaseId: number; row: DatabaseRow; userId: string };
+  database_row_updated: { databaseId: number; row: DatabaseRow; userId: string };
+  database_row_deleted: { databaseId: number; rowId: number; userId: string };
+
+  // Page rooms
+  presence: { pageId: number; users: PresenceUser[] };
+  cursor_moved: RealtimeCursor;
+  cursor_hidden: { pageId: number; userId: string };
+  // Already transformed to the server's history; apply on top of `revision - 1`
+  block_edit: { pageId: number; blockId: number; revision: number; operation: TextOperation; userId: string; userName: string };
+  comment_added: { pageId: number; comment: Comment; thread: CommentThread; userId: string };
+  comment_updated: { pageId: number; thread: CommentThread; userId: string };
+  comment_resolved: { pageId: number; thread: CommentThread; userId: string };
+  comment_reopened: { pageId: number; thread: CommentThread; userId: string };
+  comment_deleted: { pageId: number; commentId: number; threadId: number; userId: string };
+
+  // The connection's own user, on every connection they have open
+  notification: { notification: NotificationView; desktop: boolean };
+  notifications_read: { notificationIds?: number[]; all?: boolean };
+  notifications_deleted: { notificationIds: number[] };
+}
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+export type RealtimeServerMessage =
+  | { type: "hello"; protocol: number; connectionId: string; userId: string | null }
+  | { type: "reply"; id: string; data: unknown }
+  | { type: "error"; id?: string; code: RealtimeErrorCode; message: string; retryAfterMs?: number }
+  | { [E in RealtimeEventType]: { type: "event"; event: E; data: RealtimeEvents[E] } }[RealtimeEventType];
+
+const presenceColors = [
+  "#FF6B6B", "#4ECDC4", "#45B7D1", "#96CEB4", "#FFEAA7",
+  "#DDA0DD", "#98D8C8", "#F7DC6F", "#BB8FCE", "#85C1E9",
+];
+
+// Everyone sees the same person in the same color
+export function presenceColor(userId: string): string {
+  const sum = userId.split("").reduce((total, char) => total + char.charCodeAt(0), 0);
+  return presenceColors[sum % presenceColors.length];
+}
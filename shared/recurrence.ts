@@ -0,0 +1,206 @@
+// Recurrence rules for calendar events (calendar_events.recurrence).
+//
+// The column holds either one of the simple keywords the calendar started with
+//   none | daily | weekly | monthly
+// or iCalendar-style lines, which is also what goes out in .ics feeds unchanged:
+//   RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231T235959Z
+//   EXDATE:20261104T090000Z,20261118T090000Z
+// EXDATE lists the start times of occurrences that were removed from the series.
+
+export const recurrenceFrequencies = ["daily", "weekly", "monthly", "yearly"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+export const weekdayCodes = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type WeekdayCode = typeof weekdayCodes[number];
+
+export interface RecurrenceDay {
+  weekday: WeekdayCode;
+  ordinal?: number; // e.g. 2 for the second Tuesday, -1 for the last Friday (monthly rules)
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceDay[];
+  byMonthDay: number[];
+  until: number | null; // last possible occurrence start
+  count: number | null;
+  exceptions: number[]; // start times of skipped occurrences
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceError";
+  }
+}
+
+const KEYWORDS: Record<string, RecurrenceFrequency> = {
+  daily: "daily",
+  weekly: "weekly",
+  monthly: "monthly",
+  yearly: "yearly",
+};
+
+// WKST is accepted but weeks always start on Monday
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "WKST"]);
+const MAX_INTERVAL = 1000;
+const MAX_COUNT = 10000;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+// 20261020T090000Z; date-only values are written as 20261020
+export function formatICalDate(time: number, dateOnly = false): string {
+  const date = new Date(time);
+  const day = `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+  if (dateOnly) return day;
+  return `${day}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Reads 20261020, 20261020T090000 and 20261020T090000Z as UTC
+export function parseICalDate(value: string): number {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value.trim());
+  if (!match) {
+    throw new RecurrenceError(`Invalid date "${value}"`);
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+}
+
+function parseRuleParts(text: string, rule: RecurrenceRule) {
+  const parts = new Map<string, string>();
+  for (const part of text.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator <= 0) continue;
+    const name = part.slice(0, separator).trim().toUpperCase();
+    if (!SUPPORTED_PARTS.has(name)) {
+      throw new RecurrenceError(`Unsupported RRULE part "${name}"`);
+    }
+    parts.set(name, part.slice(separator + 1).trim());
+  }
+
+  const freq = parts.get("FREQ")?.toLowerCase();
+  if (!freq || !(freq in KEYWORDS)) {
+    throw new RecurrenceError("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+  rule.freq = KEYWORDS[freq];
+
+  if (parts.has("INTERVAL")) {
+    const interval = Number(parts.get("INTERVAL"));
+    if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+      throw new RecurrenceError("INTERVAL must be a whole number from 1 to 1000");
+    }
+    rule.interval = interval;
+  }
+  if (parts.has("COUNT")) {
+    const count = Number(parts.get("COUNT"));
+    if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+      throw new RecurrenceError("COUNT must be a whole number from 1 to 10000");
+    }
+    rule.count = count;
+  }
+  if (parts.has("UNTIL")) {
+    rule.until = parseICalDate(parts.get("UNTIL")!);
+  }
+  if (rule.count !== null && rule.until !== null) {
+    throw new RecurrenceError("A rule cannot have both COUNT and UNTIL");
+  }
+
+  if (parts.has("BYDAY")) {
+    rule.byDay = parts.get("BYDAY")!.split(",").filter(Boolean).map(value => {
+      const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/i.exec(value.trim());
+      if (!match) {
+        throw new RecurrenceError(`Invalid BYDAY value "${value}"`);
+      }
+      const ordinal = match[1] ? Number(match[1]) : undefined;
+      if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+        throw new RecurrenceError(`Invalid BYDAY value "${value}"`);
+      }
+      return { weekday: match[2].toUpperCase() as WeekdayCode, ordinal };
+    });
+  }
+  if (parts.has("BYMONTHDAY")) {
+    rule.byMonthDay = parts.get("BYMONTHDAY")!.split(",").filter(Boolean).map(value => {
+      const day = Number(value);
+      if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+        throw new RecurrenceError(`Invalid BYMONTHDAY value "${value}"`);
+      }
+      return day;
+    });
+  }
+}
+
+// null means the event does not repeat. Throws RecurrenceError on rules it cannot read.
+export function parseRecurrence(value: string | null | undefined): RecurrenceRule | null {
+  const text = value?.trim() ?? "";
+  if (!text || text.toLowerCase() === "none") return null;
+
+  const rule: RecurrenceRule = {
+    freq: "daily",
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    until: null,
+    count: null,
+    exceptions: [],
+  };
+
+  const keyword = KEYWORDS[text.toLowerCase()];
+  if (keyword) {
+    rule.freq = keyword;
+    return rule;
+  }
+
+  let hasRule = false;
+  for (const line of text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)) {
+    const separator = line.indexOf(":");
+    // A bare FREQ=...;INTERVAL=... is read as an RRULE line
+    const name = separator > 0 ? line.slice(0, separator).split(";")[0].toUpperCase() : "RRULE";
+    const body = separator > 0 ? line.slice(separator + 1) : line;
+    if (name === "RRULE") {
+      parseRuleParts(body, rule);
+      hasRule = true;
+    } else if (name === "EXDATE") {
+      rule.exceptions.push(...body.split(",").filter(Boolean).map(parseICalDate));
+    } else {
+      throw new RecurrenceError(`Unsupported recurrence line "${name}"`);
+    }
+  }
+  if (!hasRule) {
+    throw new RecurrenceError("Recurrence needs an RRULE");
+  }
+  return rule;
+}
+
+function isSimple(rule: RecurrenceRule): boolean {
+  return rule.freq !== "yearly" && rule.interval === 1 && rule.byDay.length === 0 && rule.byMonthDay.length === 0
+    && rule.until === null && rule.count === null && rule.exceptions.length === 0;
+}
+
+// Just the RRULE value, without the "RRULE:" prefix
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ""}${day.weekday}`).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.until !== null) parts.push(`UNTIL=${formatICalDate(rule.until)}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+// Simple rules stay as their keyword so older clients keep reading them
+export function formatRecurrence(rule: RecurrenceRule | null): string {
+  if (!rule) return "none";
+  if (isSimple(rule)) return rule.freq;
+
+  const lines = [`RRULE:${formatRRule(rule)}`];
+  if (rule.exceptions.length > 0) {
+    const exceptions = Array.from(new Set(rule.exceptions)).sort((a, b) => a - b);
+    lines.push(`EXDATE:${exceptions.map(time => formatICalDate(time)).join(",")}`);
+  }
+  return lines.join("\n");
+}
@@ -20,6 +20,10 @@ export const users = sqliteTable("users", {
   gmailRefreshToken: text("gmail_refresh_token"),
   gmailAccessToken: text("gmail_access_token"),
   gmailTokenExpiry: integer("gmail_token_expiry"), // timestamp
+  lastDigestAt: integer("last_digest_at"), // when the last notification digest email went out
+  emailVerifiedAt: integer("email_verified_at"), // null until the link in the verification email is opened
+  failedLoginCount: integer("failed_login_count").default(0), // wrong passwords since the last sign-in
+  lockedUntil: integer("locked_until"), // timestamp; password sign-in is refused until then
   createdAt: integer("created_at").default(Date.now()),
   updatedAt: integer("updated_at").default(Date.now()),
 });
@@ -28,10 +32,28 @@ export const users = sqliteTable("users", {
 export const userMFA = sqliteTable("user_mfa", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   userId: text("user_id").notNull(),
-  secret: text("secret").notNull(),
-  backupCodes: text("backup_codes").default('[]'), // JSON string
+  secret: text("secret").notNull(), // TOTP key, base32, AES-GCM encrypted
+  backupCodes: text("backup_codes").default('[]'), // JSON string: SHA-256 hashes of unused codes
   isEnabled: integer("is_enabled", { mode: "boolean" }).default(false),
   lastUsed: integer("last_used"), // timestamp
+  lastCounter: integer("last_counter"), // TOTP time step of the last accepted code; older or equal steps are replays
+  createdAt: integer("created_at").default(Date.now()),
+  updatedAt: integer("updated_at").default(Date.now()),
+});
+
+// WebAuthn passkeys, usable to sign in without a password or as a second factor
+export const webauthnCredentials = sqliteTable("webauthn_credentials", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull(),
+  credentialId: text("credential_id").notNull().unique(), // base64url
+  publicKey: text("public_key").notNull(), // SPKI DER, base64url
+  algorithm: integer("algorithm").notNull(), // COSE algorithm: -7 ES256, -8 EdDSA, -257 RS256
+  signCount: integer("sign_count").notNull().default(0),
+  transports: text("transports").default('[]'), // JSON string: usb, nfc, ble, internal, hybrid
+  aaguid: text("aaguid"), // authenticator model, when it tells us
+  name: text("name").notNull(),
+  backedUp: integer("backed_up", { mode: "boolean" }).default(false), // synced passkey
+  lastUsedAt: integer("last_used_at"),
   createdAt: integer("created_at").default(Date.now()),
   updatedAt: integer("updated_at").default(Date.now()),
 });
@@ -58,7 +80,7 @@ export const pageShares = sqliteTable("page_shares", {
   shareType: text("share_type").notNull(), // public, private, workspace
   permissions: text("permissions").notNull(), // view, edit, comment
   token: text("token").notNull().unique(),
-  password: text("password"), // optional password protection
+  password: text("password"), // optional password protection (bcrypt hash)
   expiresAt: integer("expires_at"), // timestamp
   allowDownload: integer("allow_download", { mode: "boolean" }).default(false),
   allowComments: integer("allow_comments", { mode: "boolean" }).default(true),
@@ -116,6 +138,23 @@ export const workspaceMembers = sqliteTable("workspace_members", {
   joinedAt: integer("joined_at").default(Date.now()),
 });
 
+// Named sets of workspace members that page permissions can be granted to
+export const workspaceGroups = sqliteTable("workspace_groups", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  workspaceId: integer("workspace_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at").default(Date.now()),
+});
+
+export const workspaceGroupMembers = sqliteTable("workspace_group_members", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  groupId: integer("group_id").notNull(),
+  userId: text("user_id").notNull(),
+  addedAt: integer("added_at").default(Date.now()),
+});
+
 // Member invitations
 export const invitations = sqliteTable("invitations", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -157,10 +196,11 @@ export const pages = sqliteTable("pages", {
   lastEditedBy: text("last_edited_by"),
   isPublic: integer("is_public", { mode: "boolean" }).default(false),
   publicId: text("public_id").unique(), // for public sharing
-  permissions: text("permissions"), // page-level permissions (JSON string)
+  permissions: text("permissions"), // page ACL (JSON string of PagePermissions), inherited by subpages
   properties: text("properties"), // custom properties (JSON string)
   isTemplate: integer("is_template", { mode: "boolean" }).default(false),
   templateId: integer("template_id"),
+  databaseId: integer("database_id"), // set when the page is a row of a database; values live in properties
   isFavorite: integer("is_favorite", { mode: "boolean" }).default(false),
   isArchived: integer("is_archived", { mode: "boolean" }).default(false),
   isDeleted: integer("is_deleted", { mode: "boolean" }).default(false),
@@ -183,6 +223,54 @@ export const blocks = sqliteTable("blocks", {
   updatedAt: integer("updated_at").default(Date.now()),
 });
 
+// Page revisions - point-in-time snapshots of a page and its block tree
+export const pageRevisions = sqliteTable("page_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  pageId: integer("page_id").notNull(),
+  workspaceId: integer("workspace_id").notNull(),
+  title: text("title").notNull(),
+  icon: text("icon"),
+  cover: text("cover"),
+  properties: text("properties"), // JSON string
+  blocks: text("blocks").notNull(), // snapshot of every block on the page (JSON string)
+  reason: text("reason").notNull().default("edit"), // edit, restore
+  restoredFrom: integer("restored_from"), // revision id when reason is restore
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at").default(Date.now()),
+  updatedAt: integer("updated_at").default(Date.now()),
+});
+
+// Databases - typed collections whose rows are child pages
+export const databases = sqliteTable("databases", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  workspaceId: integer("workspace_id").notNull(),
+  pageId: integer("page_id").notNull(), // full-page: the database's own page; inline: the page hosting the block
+  blockId: integer("block_id"), // the `database` block for inline databases
+  title: text("title").notNull(),
+  isInline: integer("is_inline", { mode: "boolean" }).default(false),
+  properties: text("properties").notNull(), // property schema (JSON string of DatabaseProperty[])
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at").default(Date.now()),
+  updatedAt: integer("updated_at").default(Date.now()),
+});
+
+// Saved views of a database
+export const databaseViews = sqliteTable("database_views", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  databaseId: integer("database_id").notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull().default("table"), // table, board, list, calendar, gallery
+  filter: text("filter"), // DatabaseFilter (JSON string)
+  sorts: text("sorts").default('[]'), // DatabaseSort[] (JSON string)
+  groupBy: text("group_by"), // property id, used by board views
+  dateProperty: text("date_property"), // property id, used by calendar views
+  visibleProperties: text("visible_properties"), // property ids in display order (JSON string); null shows all
+  position: integer("position").notNull().default(0),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at").default(Date.now()),
+  updatedAt: integer("updated_at").default(Date.now()),
+});
+
 // Comments and discussions
 export const comments = sqliteTable("comments", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -198,35 +286,103 @@ export const comments = sqliteTable("comments", {
   updatedAt: integer("updated_at").default(Date.now()),
 });
 
-// Activity log for tracking changes
+// Mentions of users, pages and dates found in block text, plus plain links to pages.
+// Page mentions and links together are the link index behind backlinks and the page graph.
+export const mentions = sqliteTable("mentions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  workspaceId: integer("workspace_id").notNull(),
+  sourcePageId: integer("source_page_id").notNull(),
+  sourceBlockId: integer("source_block_id").notNull(),
+  targetType: text("target_type").notNull(), // user, page, date, link
+  targetId: text("target_id").notNull(), // user id, page id or ISO date
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at").default(Date.now()),
+});
+
+// Audit log. Entries of a workspace form a hash chain: each hash covers the entry and
+// the previous entry's hash, so editing or removing one breaks every link after it.
 export const activities = sqliteTable("activities", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   workspaceId: integer("workspace_id").notNull(),
   userId: text("user_id").notNull(),
-  action: text("action").notNull(), // created, updated, deleted, shared, etc.
-  resourceType: text("resource_type").notNull(), // page, block, workspace, etc.
+  action: text("action").notNull(), // one of auditActions
+  resourceType: text("resource_type").notNull(), // one of auditResourceTypes
   resourceId: text("resource_id").notNull(),
   metadata: text("metadata"), // additional context (JSON string)
+  ipAddress: text("ip_address"),
+  seq: integer("seq"), // position in the workspace's chain, from 1
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
   createdAt: integer("created_at").default(Date.now()),
 });
 
+// Where a workspace's chain continues after retention removed its oldest entries
+export const auditAnchors = sqliteTable("audit_anchors", {
+  workspaceId: integer("workspace_id").primaryKey(),
+  seq: integer("seq").notNull(), // last removed entry
+  hash: text("hash").notNull(),
+  prunedAt: integer("pruned_at").notNull(),
+});
+
+// Page opens, for analytics. Repeat opens by one person within half an hour count once.
+export const pageViews = sqliteTable("page_views", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  pageId: integer("page_id").notNull(),
+  workspaceId: integer("workspace_id").notNull(),
+  userId: text("user_id"), // null for anonymous visitors of a share link
+  source: text("source").notNull().default("app"), // app, share
+  viewedAt: integer("viewed_at").notNull(),
+});
+
 // Notifications
 export const notifications = sqliteTable("notifications", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   userId: text("user_id").notNull(),
-  type: text("type").notNull(), // mention, comment, invite, etc.
+  type: text("type").notNull(), // one of notificationTypes
+  workspaceId: integer("workspace_id"),
+  actorId: text("actor_id"), // who caused it; null for system notifications such as reminders
   title: text("title").notNull(),
   message: text("message"),
+  url: text("url"), // where the notification leads in the app
   data: text("data"), // additional data for the notification (JSON string)
   isRead: integer("is_read", { mode: "boolean" }).default(false),
+  emailStatus: text("email_status"), // null: not emailed; pending: waiting for the digest; sent; skipped (read first); failed
+  emailedAt: integer("emailed_at"),
   createdAt: integer("created_at").default(Date.now()),
 });
 
+// Reminders and due dates on pages and blocks. Each row is also the scheduler's job:
+// `remindAt` is when it fires, worked out from `date` and `time` in the recipient's zone.
+export const reminders = sqliteTable("reminders", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  workspaceId: integer("workspace_id").notNull(),
+  pageId: integer("page_id").notNull(),
+  blockId: integer("block_id"), // null for reminders on the page itself
+  userId: text("user_id").notNull(), // who is notified
+  kind: text("kind").notNull().default("reminder"), // reminder (personal), due (one per page or block, shared)
+  date: text("date").notNull(), // YYYY-MM-DD
+  time: text("time"), // HH:mm; null for all-day, which fires at 09:00
+  note: text("note"),
+  remindAt: integer("remind_at").notNull(), // timestamp
+  status: text("status").notNull().default("pending"), // pending, sent, skipped (target gone or done), failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  sentAt: integer("sent_at"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at").default(Date.now()),
+  updatedAt: integer("updated_at").default(Date.now()),
+});
+
 // Session storage table for auth
 export const sessions = sqliteTable("sessions", {
   sid: text("sid").primaryKey(),
   sess: text("sess").notNull(), // JSON string
   expire: integer("expire").notNull(), // timestamp
+  userId: text("user_id"), // null until the session signs in
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: integer("created_at"),
+  lastSeenAt: integer("last_seen_at"),
 });
 
 // Calendar events table
@@ -241,15 +397,41 @@ export const calendarEvents = sqliteTable("calendar_events", {
   attendees: text("attendees").default('[]'), // JSON string
   workspaceId: integer("workspace_id").notNull(),
   pageId: integer("page_id"), // optional link to page
+  uid: text("uid"), // iCalendar UID of imported events, unique per workspace
   createdBy: text("created_by").notNull(),
   isAllDay: integer("is_all_day", { mode: "boolean" }).default(false),
-  recurrence: text("recurrence").default("none"), // none, daily, weekly, monthly
+  recurrence: text("recurrence").default("none"), // none, daily, weekly, monthly, or RRULE/EXDATE lines (see shared/recurrence.ts)
+  timezone: text("timezone"), // IANA zone recurrences are expanded in; null means UTC
   status: text("status").default("confirmed"), // confirmed, tentative, cancelled
   createdAt: integer("created_at").default(Date.now()),
   updatedAt: integer("updated_at").default(Date.now()),
 });
 
-// Email threads table for Gmail integration
+// Mailbox a user has connected. Gmail tokens live on `users`; IMAP/SMTP accounts keep
+// their server settings here, with the password encrypted.
+export const emailAccounts = sqliteTable("email_accounts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().unique(),
+  workspaceId: integer("workspace_id").notNull(), // where synced threads are filed
+  provider: text("provider").notNull(), // gmail, imap
+  address: text("address").notNull(),
+  displayName: text("display_name"),
+  imapHost: text("imap_host"),
+  imapPort: integer("imap_port"),
+  imapSecure: integer("imap_secure", { mode: "boolean" }).default(true),
+  smtpHost: text("smtp_host"),
+  smtpPort: integer("smtp_port"),
+  smtpSecure: integer("smtp_secure", { mode: "boolean" }).default(true),
+  username: text("username"),
+  password: text("password"), // encrypted
+  lastSyncedAt: integer("last_synced_at"),
+  lastError: text("last_error"),
+  createdAt: integer("created_at").default(Date.now()),
+  updatedAt: integer("updated_at").default(Date.now()),
+});
+
+// Email threads table for Gmail integration. Also caches IMAP mail: `gmailThreadId` and
+// `gmailMessageId` then hold the provider's ids.
 export const emailThreads = sqliteTable("email_threads", {
   id: text("id").primaryKey(),
   gmailThreadId: text("gmail_thread_id").notNull(),
@@ -262,6 +444,7 @@ export const emailThreads = sqliteTable("email_threads", {
   labels: text("labels").default('[]'), // JSON string
   workspaceId: integer("workspace_id").notNull(),
   userId: text("user_id").notNull(),
+  syncVersion: text("sync_version"), // provider's change marker, e.g. the Gmail historyId
   createdAt: integer("created_at").default(Date.now()),
   updatedAt: integer("updated_at").default(Date.now()),
 });
@@ -277,6 +460,8 @@ export const emailMessages = sqliteTable("email_messages", {
   toEmails: text("to_emails").default('[]'), // JSON string
   ccEmails: text("cc_emails").default('[]'), // JSON string
   bccEmails: text("bcc_emails").default('[]'), // JSON string
+  messageIdHeader: text("message_id_header"), // RFC 5322 Message-ID
+  referenceIds: text("reference_ids").default('[]'), // JSON string, Message-IDs of earlier messages in the conversation
   date: integer("date").notNull(), // timestamp
   isRead: integer("is_read", { mode: "boolean" }).default(false),
   isStarred: integer("is_starred", { mode: "boolean" }).default(false),
@@ -307,6 +492,16 @@ export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).
   joinedAt: true,
 });
 
+export const insertWorkspaceGroupSchema = createInsertSchema(workspaceGroups).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkspaceGroupMemberSchema = createInsertSchema(workspaceGroupMembers).omit({
+  id: true,
+  addedAt: true,
+});
+
 export const insertInvitationSchema = createInsertSchema(invitations).omit({
   id: true,
   createdAt: true,
@@ -330,28 +525,66 @@ export const insertBlockSchema = createInsertSchema(blocks).omit({
   updatedAt: true,
 });
 
+export const insertPageRevisionSchema = createInsertSchema(pageRevisions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDatabaseSchema = createInsertSchema(databases).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDatabaseViewSchema = createInsertSchema(databaseViews).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertCommentSchema = createInsertSchema(comments).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertActivitySchema = createInsertSchema(activities).omit({
+export const insertMentionSchema = createInsertSchema(mentions).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertActivitySchema = createInsertSchema(activities).omit({
+  id: true,
+});
+
+export const insertPageViewSchema = createInsertSchema(pageViews).omit({
+  id: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertReminderSchema = createInsertSchema(reminders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertCalendarEventSchema = createInsertSchema(calendarEvents).omit({
   id: true,
   createdAt: true,
   updatedAt: true
 });
 
+export const insertEmailAccountSchema = createInsertSchema(emailAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 export const insertEmailThreadSchema = createInsertSchema(emailThreads).omit({
   createdAt: true,
   updatedAt: true
@@ -368,6 +601,12 @@ export const insertUserMFASchema = createInsertSchema(userMFA).omit({
   updatedAt: true
 });
 
+export const insertWebAuthnCredentialSchema = createInsertSchema(webauthnCredentials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 export const insertBusinessPageSchema = createInsertSchema(businessPages).omit({
   id: true,
   createdAt: true,
@@ -391,9 +630,386 @@ export const insertLivePresenceSchema = createInsertSchema(livePresence).omit({
 });
 
 export const updatePageSchema = insertPageSchema.partial();
+// What page editors may change; ownership, workspace, database, sharing and permissions are set elsewhere
+export const editPageSchema = insertPageSchema.pick({
+  title: true, icon: true, cover: true, properties: true, parentId: true, isArchived: true,
+}).partial();
 export const updateBlockSchema = insertBlockSchema.partial();
 export const updateWorkspaceSchema = insertWorkspaceSchema.partial();
 
+// Database property schema, filters and sorts
+export const databasePropertyTypes = [
+  "title", "text", "number", "select", "multi_select", "date", "person", "checkbox", "url", "relation",
+] as const;
+
+export const databaseViewTypes = ["table", "board", "list", "calendar", "gallery"] as const;
+
+export const databaseFilterOperators = [
+  "equals", "does_not_equal", "contains", "does_not_contain", "starts_with", "ends_with",
+  "greater_than", "less_than", "greater_than_or_equal_to", "less_than_or_equal_to",
+  "before", "after", "on_or_before", "on_or_after", "is_empty", "is_not_empty",
+] as const;
+
+const emptinessOperators = ["is_empty", "is_not_empty"] as const;
+const textOperators = ["equals", "does_not_equal", "contains", "does_not_contain", "starts_with", "ends_with", ...emptinessOperators] as const;
+const listOperators = ["contains", "does_not_contain", ...emptinessOperators] as const;
+
+// Which filter operators make sense for each property type
+export const databaseOperatorsByType: Record<DatabasePropertyType, readonly DatabaseFilterOperator[]> = {
+  title: textOperators,
+  text: textOperators,
+  url: textOperators,
+  number: [
+    "equals", "does_not_equal", "greater_than", "less_than",
+    "greater_than_or_equal_to", "less_than_or_equal_to", ...emptinessOperators,
+  ],
+  select: ["equals", "does_not_equal", ...emptinessOperators],
+  multi_select: listOperators,
+  person: listOperators,
+  relation: listOperators,
+  date: ["equals", "before", "after", "on_or_before", "on_or_after", ...emptinessOperators],
+  checkbox: ["equals", "does_not_equal"],
+};
+
+export const databaseSelectOptionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  color: z.string().default("default"),
+});
+
+export const databasePropertySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(databasePropertyTypes),
+  options: z.array(databaseSelectOptionSchema).optional(), // select and multi_select
+  relationDatabaseId: z.number().int().optional(), // relation
+});
+
+export const databaseFilterConditionSchema = z.object({
+  propertyId: z.string().min(1),
+  operator: z.enum(databaseFilterOperators),
+  value: z.any().optional(),
+});
+
+export type DatabaseFilterCondition = z.infer<typeof databaseFilterConditionSchema>;
+export type DatabaseFilter = DatabaseFilterCondition | { and: DatabaseFilter[] } | { or: DatabaseFilter[] };
+
+export const databaseFilterSchema: z.ZodType<DatabaseFilter> = z.lazy(() => z.union([
+  databaseFilterConditionSchema,
+  z.object({ and: z.array(databaseFilterSchema) }),
+  z.object({ or: z.array(databaseFilterSchema) }),
+]));
+
+export const databaseSortSchema = z.object({
+  propertyId: z.string().min(1),
+  direction: z.enum(["ascending", "descending"]),
+});
+
+export const databaseQuerySchema = z.object({
+  viewId: z.number().int().optional(),
+  filter: databaseFilterSchema.optional(),
+  sorts: z.array(databaseSortSchema).optional(),
+});
+
+export const updateDatabaseViewSchema = z.object({
+  name: z.string().min(1).optional(),
+  type: z.enum(databaseViewTypes).optional(),
+  filter: databaseFilterSchema.nullable().optional(),
+  sorts: z.array(databaseSortSchema).optional(),
+  groupBy: z.string().nullable().optional(),
+  dateProperty: z.string().nullable().optional(),
+  visibleProperties: z.array(z.string()).nullable().optional(),
+  position: z.number().int().optional(),
+});
+
+// Comment request bodies; replies name their thread's root comment as parentId
+export const createCommentSchema = z.object({
+  content: z.string().trim().min(1).max(10000),
+  blockId: z.number().int().nullable().optional(),
+  parentId: z.number().int().nullable().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  content: z.string().trim().min(1).max(10000),
+});
+
+// Page permissions. Levels are ordered; each one includes everything below it.
+export const pageAccessLevels = ["none", "view", "comment", "edit", "full"] as const;
+
+export const pagePermissionEntrySchema = z.object({
+  principalType: z.enum(["user", "group", "everyone"]),
+  principalId: z.string().nullable().optional(), // user id or group id; empty for everyone
+  level: z.enum(pageAccessLevels),
+}).refine(entry => entry.principalType === "everyone" || !!entry.principalId, {
+  message: "principalId is required for user and group entries",
+});
+
+export const pagePermissionsSchema = z.object({
+  entries: z.array(pagePermissionEntrySchema).max(200),
+});
+
+// Share link settings. Links open a read-only copy of the page tree; `permissions`
+// records what the sharer intends and is shown to visitors.
+export const shareTypes = ["public", "workspace", "private"] as const;
+
+export const createPageShareSchema = z.object({
+  shareType: z.enum(shareTypes).default("public"),
+  permissions: z.enum(["view", "comment", "edit"]).default("view"),
+  sharedWith: z.string().trim().min(1).nullable().optional(), // user id or email for private links
+  password: z.string().min(4).max(200).nullable().optional(),
+  expiryDays: z.number().int().min(1).max(3650).nullable().optional(),
+  allowDownload: z.boolean().optional(),
+  allowComments: z.boolean().optional(),
+});
+
+export const updatePageShareSchema = createPageShareSchema.partial().extend({
+  isActive: z.boolean().optional(),
+  rotateToken: z.boolean().optional(), // issue a new URL; the old one stops working
+});
+
+// Calendar event input. Dates may be sent as timestamps or ISO strings.
+export const calendarEventTypes = ["meeting", "task", "reminder", "deadline"] as const;
+export const calendarEventStatuses = ["confirmed", "tentative", "cancelled"] as const;
+
+const calendarDate = z.union([z.number().int(), z.string().min(1)]).transform((value, ctx) => {
+  const time = typeof value === "number" ? value : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid date" });
+    return z.NEVER;
+  }
+  return time;
+});
+
+export const calendarEventInputSchema = z.object({
+  workspaceId: z.number().int(),
+  title: z.string().trim().min(1).max(500),
+  description: z.string().max(10000).nullable().optional(),
+  startDate: calendarDate,
+  endDate: calendarDate,
+  location: z.string().max(1000).nullable().optional(),
+  type: z.enum(calendarEventTypes).default("meeting"),
+  attendees: z.array(z.string().trim().min(1).max(320)).max(500).optional(),
+  pageId: z.number().int().nullable().optional(),
+  isAllDay: z.boolean().optional(),
+  recurrence: z.string().max(5000).nullable().optional(),
+  timezone: z.string().max(100).nullable().optional(),
+  status: z.enum(calendarEventStatuses).optional(),
+});
+
+export const updateCalendarEventSchema = calendarEventInputSchema.omit({ workspaceId: true }).partial();
+
+// Email. Folders are the app's view of provider labels and mailboxes.
+export const emailFolders = ["inbox", "sent", "drafts", "archive", "trash"] as const;
+
+export const connectImapAccountSchema = z.object({
+  workspaceId: z.number().int(),
+  address: z.string().trim().email(),
+  displayName: z.string().trim().max(200).nullable().optional(),
+  imapHost: z.string().trim().min(1).max(255),
+  imapPort: z.number().int().min(1).max(65535).default(993),
+  imapSecure: z.boolean().default(true), // implicit TLS; otherwise STARTTLS, which the server must offer
+  smtpHost: z.string().trim().min(1).max(255),
+  smtpPort: z.number().int().min(1).max(65535).default(465),
+  smtpSecure: z.boolean().default(true),
+  username: z.string().trim().min(1).max(320),
+  password: z.string().min(1).max(1000),
+});
+
+export const sendEmailSchema = z.object({
+  to: z.array(z.string().trim().min(1).max(320)).min(1).max(100),
+  cc: z.array(z.string().trim().min(1).max(320)).max(100).optional(),
+  bcc: z.array(z.string().trim().min(1).max(320)).max(100).optional(),
+  subject: z.string().max(1000),
+  body: z.string().max(1000000),
+  inReplyTo: z.string().optional(), // id of the message being answered
+  relatedPageId: z.number().int().nullable().optional(),
+});
+
+// Copies a thread onto a page: a new one (under parentId) unless pageId names one to append to
+export const emailToPageSchema = z.object({
+  pageId: z.number().int().optional(),
+  parentId: z.number().int().nullable().optional(),
+  asTask: z.boolean().default(false), // start with a todo for following up
+});
+
+// Analytics. Ranges end now and are charted in days (7d, 30d), weeks starting Monday (90d)
+// or months (365d), in the viewer's time zone.
+export const analyticsRanges = ["7d", "30d", "90d", "365d"] as const;
+export const analyticsExportFormats = ["csv", "json", "pdf"] as const;
+
+// Report download; without workspaceId it covers every workspace the caller manages
+export const analyticsExportSchema = z.object({
+  format: z.enum(analyticsExportFormats),
+  timeRange: z.enum(analyticsRanges).default("30d"),
+  timezone: z.string().max(100).optional(),
+  workspaceId: z.number().int().optional(),
+});
+
+// Audit log vocabulary: "<resource>.<verb>", the same whichever API made the change
+export const auditActions = [
+  "workspace.created", "workspace.security_changed",
+  "member.invited", "member.joined",
+  "group.created", "group.updated", "group.deleted",
+  "page.created", "page.deleted", "page.archived", "page.restored", "page.revision_restored", "page.imported",
+  "page.email_added",
+  "page.permissions_changed", "page.shared", "page.share_updated", "page.unshared",
+  "comment.created", "comment.deleted",
+  "database.created", "database.deleted",
+  "calendar_event.created", "calendar_event.updated", "calendar_event.deleted", "calendar.imported",
+  "analytics.exported",
+  "audit.settings_changed",
+] as const;
+export const auditResourceTypes = [
+  "workspace", "member", "group", "page", "comment", "database", "calendar_event", "audit",
+] as const;
+
+const timestampParam = z.string().transform((value, ctx) => {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Dates must be timestamps or ISO dates" });
+    return z.NEVER;
+  }
+  return time;
+});
+
+// Audit log filters. `action` takes a comma-separated list; "page.*" matches every page action.
+// Results are newest first; pass the returned cursor as `before` for the next page.
+export const auditQuerySchema = z.object({
+  actor: z.string().optional(),
+  action: z.string().optional(),
+  resourceType: z.enum(auditResourceTypes).optional(),
+  resourceId: z.string().optional(),
+  from: timestampParam.optional(),
+  to: timestampParam.optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// null keeps entries as long as the workspace's plan allows
+export const auditSettingsSchema = z.object({
+  retentionDays: z.number().int().min(1).nullable(),
+});
+
+export const notificationTypes = ["mention", "comment", "invitation", "page_shared", "reminder"] as const;
+export const notificationDigestModes = ["off", "daily", "weekly"] as const;
+
+// Stored in users.notifications. The type switches decide whether a notification is
+// created at all; `desktop` adds a browser notification and `email` an email, sent right
+// away or collected into the digest.
+export const notificationPreferencesSchema = z.object({
+  email: z.boolean(),
+  desktop: z.boolean(),
+  mentions: z.boolean(),
+  comments: z.boolean(),
+  invitations: z.boolean(),
+  shares: z.boolean(),
+  reminders: z.boolean(),
+  digest: z.enum(notificationDigestModes),
+});
+
+export const notificationIdsSchema = z.object({
+  notificationIds: z.array(z.number().int().positive()).min(1).max(500),
+});
+
+export const reminderKinds = ["reminder", "due"] as const;
+
+// Dates and times are wall-clock values in the recipient's time zone (users.timezone)
+export const reminderInputSchema = z.object({
+  blockId: z.number().int().positive().nullable().optional(),
+  kind: z.enum(reminderKinds).default("reminder"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm").nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+export const updateReminderSchema = reminderInputSchema.pick({ date: true, time: true, note: true }).partial();
+
+export const userTimeZoneSchema = z.object({
+  timezone: z.string().min(1).max(100),
+});
+
+// Multi-factor authentication. Codes are 6-digit TOTP codes or single-use backup codes
+// (xxxxx-xxxxx); either is accepted wherever a code is asked for.
+export const mfaCodeSchema = z.object({
+  code: z.string({ required_error: "Enter the code from your authenticator app" }).trim()
+    .min(6, "Enter the code from your authenticator app").max(20),
+});
+
+// WebAuthn responses as the browser produces them, binary fields base64url encoded
+const base64url = z.string().regex(/^[A-Za-z0-9_-]*$/, "Expected base64url");
+
+export const passkeyRegistrationSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  credential: z.object({
+    id: base64url,
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64url,
+      attestationObject: base64url,
+      transports: z.array(z.string()).optional(),
+    }),
+  }),
+});
+
+export const passkeyAssertionSchema = z.object({
+  id: base64url,
+  type: z.literal("public-key"),
+  response: z.object({
+    clientDataJSON: base64url,
+    authenticatorData: base64url,
+    signature: base64url,
+    userHandle: base64url.nullable().optional(),
+  }),
+});
+
+export const renamePasskeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters").max(200);
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Valid email is required"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "The reset link is incomplete"),
+  password: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "The verification link is incomplete"),
+});
+
+// Stored in workspaces.settings
+export const workspaceSecuritySchema = z.object({
+  requireMfa: z.boolean(),
+});
+
+// Task inbox: todo blocks across a workspace. `assignee` is "me" (assigned to the caller,
+// or unassigned todos they wrote), "unassigned", "anyone" or a user id. `due` windows
+// follow the caller's time zone.
+export const taskStatuses = ["open", "done", "all"] as const;
+export const taskDueFilters = ["any", "overdue", "today", "week", "scheduled", "none"] as const;
+export const taskSorts = ["due", "page", "created", "updated"] as const;
+
+export const taskQuerySchema = z.object({
+  assignee: z.string().min(1).max(100).default("me"),
+  status: z.enum(taskStatuses).default("open"),
+  due: z.enum(taskDueFilters).default("any"),
+  pageId: z.coerce.number().int().positive().optional(),
+  q: z.string().max(200).optional(),
+  sort: z.enum(taskSorts).default("due"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const updateTaskSchema = z.object({
+  checked: z.boolean().optional(),
+  assigneeId: z.string().min(1).max(100).nullable().optional(),
+}).refine(value => value.checked !== undefined || value.assigneeId !== undefined, {
+  message: "Nothing to update",
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -406,6 +1022,12 @@ export type UpdateWorkspace = z.infer<typeof updateWorkspaceSchema>;
 export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
 export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
 
+export type WorkspaceGroup = typeof workspaceGroups.$inferSelect;
+export type InsertWorkspaceGroup = z.infer<typeof insertWorkspaceGroupSchema>;
+
+export type WorkspaceGroupMember = typeof workspaceGroupMembers.$inferSelect;
+export type InsertWorkspaceGroupMember = z.infer<typeof insertWorkspaceGroupMemberSchema>;
+
 export type Invitation = typeof invitations.$inferSelect;
 export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
 
@@ -415,23 +1037,46 @@ export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type Page = typeof pages.$inferSelect;
 export type InsertPage = z.infer<typeof insertPageSchema>;
 export type UpdatePage = z.infer<typeof updatePageSchema>;
+export type EditPage = z.infer<typeof editPageSchema>;
 
 export type Block = typeof blocks.$inferSelect;
 export type InsertBlock = z.infer<typeof insertBlockSchema>;
 export type UpdateBlock = z.infer<typeof updateBlockSchema>;
 
+export type PageRevision = typeof pageRevisions.$inferSelect;
+export type InsertPageRevision = z.infer<typeof insertPageRevisionSchema>;
+
+export type Database = typeof databases.$inferSelect;
+export type InsertDatabase = z.infer<typeof insertDatabaseSchema>;
+
+export type DatabaseView = typeof databaseViews.$inferSelect;
+export type InsertDatabaseView = z.infer<typeof insertDatabaseViewSchema>;
+
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type CreateComment = z.infer<typeof createCommentSchema>;
+
+export type Mention = typeof mentions.$inferSelect;
+export type InsertMention = z.infer<typeof insertMentionSchema>;
 
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type AuditAnchor = typeof auditAnchors.$inferSelect;
+export type PageView = typeof pageViews.$inferSelect;
+export type InsertPageView = z.infer<typeof insertPageViewSchema>;
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+export type Reminder = typeof reminders.$inferSelect;
+export type InsertReminder = z.infer<typeof insertReminderSchema>;
+
 export type CalendarEvent = typeof calendarEvents.$inferSelect;
 export type InsertCalendarEvent = z.infer<typeof insertCalendarEventSchema>;
 
+export type EmailAccount = typeof emailAccounts.$inferSelect;
+export type InsertEmailAccount = z.infer<typeof insertEmailAccountSchema>;
+
 export type EmailThread = typeof emailThreads.$inferSelect;
 export type InsertEmailThread = z.infer<typeof insertEmailThreadSchema>;
 
@@ -441,6 +1086,9 @@ export type InsertEmailMessage = z.infer<typeof insertEmailMessageSchema>;
 export type UserMFA = typeof userMFA.$inferSelect;
 export type InsertUserMFA = z.infer<typeof insertUserMFASchema>;
 
+export type WebAuthnCredential = typeof webauthnCredentials.$inferSelect;
+export type InsertWebAuthnCredential = z.infer<typeof insertWebAuthnCredentialSchema>;
+
 export type BusinessPage = typeof businessPages.$inferSelect;
 export type InsertBusinessPage = z.infer<typeof insertBusinessPageSchema>;
 
@@ -457,8 +1105,526 @@ export interface PageWithChildren extends Page {
   children?: PageWithChildren[];
 }
 
+export type DatabasePropertyType = typeof databasePropertyTypes[number];
+export type DatabaseViewType = typeof databaseViewTypes[number];
+export type DatabaseFilterOperator = typeof databaseFilterOperators[number];
+export type DatabaseSelectOption = z.infer<typeof databaseSelectOptionSchema>;
+export type DatabaseProperty = z.infer<typeof databasePropertySchema>;
+export type DatabaseSort = z.infer<typeof databaseSortSchema>;
+export type DatabaseQuery = z.infer<typeof databaseQuerySchema>;
+export type UpdateDatabaseView = z.infer<typeof updateDatabaseViewSchema>;
+
+export interface DatabaseDateValue {
+  start: string; // ISO date or date-time
+  end?: string | null;
+}
+
+// select: option id, multi_select: option ids, person: user ids, relation: page ids
+export type DatabasePropertyValue = string | number | boolean | string[] | number[] | DatabaseDateValue | null;
+
+export interface DatabaseViewConfig extends Omit<DatabaseView, "filter" | "sorts" | "visibleProperties"> {
+  filter: DatabaseFilter | null;
+  sorts: DatabaseSort[];
+  visibleProperties: string[] | null;
+}
+
+export interface DatabaseWithViews extends Omit<Database, "properties"> {
+  properties: DatabaseProperty[];
+  views: DatabaseViewConfig[];
+}
+
+export interface DatabaseRow {
+  id: number; // the row's page id
+  title: string;
+  icon: string | null;
+  values: Record<string, DatabasePropertyValue>;
+  createdBy: string;
+  lastEditedBy: string | null;
+  createdAt: number | null;
+  updatedAt: number | null;
+}
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  profileImageUrl: string | null;
+}
+
+export interface CommentWithAuthor extends Comment {
+  author: CommentAuthor;
+}
+
+// A top-level comment and its replies, oldest first. Resolving applies to the whole thread.
+export interface CommentThread extends CommentWithAuthor {
+  replies: CommentWithAuthor[];
+}
+
+export interface MentionSuggestions {
+  users: CommentAuthor[];
+  pages: Array<Pick<Page, "id" | "title" | "icon">>;
+}
+
+export type CalendarEventInput = z.input<typeof calendarEventInputSchema>;
+export type UpdateCalendarEvent = z.input<typeof updateCalendarEventSchema>;
+
+// An event as the API returns it, attendees decoded
+export interface CalendarEventView extends Omit<CalendarEvent, "attendees"> {
+  attendees: string[];
+}
+
+export interface CalendarImportResult {
+  created: Array<Pick<CalendarEvent, "id" | "uid" | "title">>;
+  updated: Array<Pick<CalendarEvent, "id" | "uid" | "title">>;
+  skipped: Array<{ uid: string | null; title: string | null; reason: string }>;
+}
+
+// One concrete occurrence of an event inside a requested range. `startDate` and
+// `endDate` are this occurrence's; `occurrenceStart` identifies it within the series.
+export interface CalendarOccurrence extends CalendarEventView {
+  recurring: boolean;
+  occurrenceStart: number;
+}
+
+export type EmailFolder = typeof emailFolders[number];
+export type ConnectImapAccount = z.input<typeof connectImapAccountSchema>;
+export type SendEmail = z.infer<typeof sendEmailSchema>;
+export type EmailToPage = z.input<typeof emailToPageSchema>;
+
+export interface EmailAttachmentInfo {
+  filename: string;
+  size: number;
+  contentType: string;
+  attachmentId: string;
+}
+
+// Connected account as the client sees it; no credentials
+export interface EmailAccountStatus {
+  connected: boolean;
+  provider: "gmail" | "imap" | null;
+  address: string | null;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+// A cached message as the API returns it, JSON columns decoded
+export interface EmailMessageView {
+  id: string;
+  messageId: string | null;
+  threadId: string;
+  subject: string;
+  body: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  date: number;
+  isRead: boolean;
+  isStarred: boolean;
+  labels: string[];
+  attachments: EmailAttachmentInfo[];
+  workspaceId: number;
+  relatedPageId: number | null;
+}
+
+export interface EmailThreadView {
+  id: string;
+  subject: string;
+  participants: string[];
+  messageCount: number;
+  lastMessageDate: number;
+  isRead: boolean;
+  isStarred: boolean;
+  labels: string[];
+  messages: EmailMessageView[];
+  relatedPageId: number | null; // page that new messages in the thread are added to
+}
+
+export interface EmailPageResult {
+  page: Page;
+  created: boolean;
+  blocksAdded: number;
+}
+
+export type AnalyticsRange = typeof analyticsRanges[number];
+export type AnalyticsBucket = "day" | "week" | "month";
+export type AnalyticsExportFormat = typeof analyticsExportFormats[number];
+export type AnalyticsExportRequest = z.input<typeof analyticsExportSchema>;
+
+// One bucket of a chart; `date` is its first day (YYYY-MM-DD) in the requested zone
+export interface AnalyticsPoint {
+  date: string;
+  start: number;
+  pagesCreated: number;
+  pagesEdited: number;
+  edits: number;
+  views: number;
+  activeMembers: number;
+}
+
+export interface TopPageStat {
+  pageId: number;
+  title: string;
+  icon: string | null;
+  views: number;
+  edits: number;
+  editors: number;
+}
+
+export interface MemberContribution {
+  userId: string;
+  name: string;
+  profileImageUrl: string | null;
+  role: string;
+  pagesCreated: number;
+  pagesEdited: number;
+  edits: number;
+  comments: number;
+  views: number;
+  lastActive: number | null;
+}
+
+// Edits are editing sessions from page history, not keystrokes. `collaborationScore` is
+// the share of edited pages with more than one editor, null when nothing was edited.
+export interface WorkspaceAnalyticsReport {
+  workspaceId: number;
+  range: AnalyticsRange;
+  bucket: AnalyticsBucket;
+  timezone: string;
+  from: number;
+  to: number;
+  totals: {
+    pages: number;
+    blocks: number;
+    members: number;
+    activeMembers: number;
+    pagesCreated: number;
+    pagesEdited: number;
+    edits: number;
+    views: number;
+    comments: number;
+  };
+  collaborationScore: number | null;
+  series: AnalyticsPoint[];
+  topPages: TopPageStat[];
+  members: MemberContribution[];
+}
+
+// Percentage change against the previous period of the same length; null without a baseline
+export interface BusinessTrends {
+  users: number | null;
+  pages: number | null;
+  activeCollaborators: number | null;
+  pageViews: number | null;
+  edits: number | null;
+}
+
+// Totals across the workspaces the caller owns or administers
+export interface BusinessMetrics {
+  totalUsers: number;
+  totalPages: number;
+  totalWorkspaces: number;
+  activeCollaborators: number;
+  pageViews: number;
+  edits: number;
+  editsSinceLastWeek: number;
+  collaborationScore: number;
+  productivityIndex: number; // edits per active collaborator
+  trends: BusinessTrends;
+}
+
+export interface BusinessActivityPoint {
+  date: string;
+  pages: number;
+  collaborators: number;
+  edits: number;
+  views: number;
+}
+
+// `activity` is the percentage of members active in the range
+export interface WorkspaceSummary {
+  id: number;
+  name: string;
+  icon: string | null;
+  plan: string;
+  role: string;
+  members: number;
+  pages: number;
+  activity: number;
+  lastActive: number | null;
+}
+
+export type AuditAction = typeof auditActions[number];
+export type AuditResourceType = typeof auditResourceTypes[number];
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditSettingsInput = z.infer<typeof auditSettingsSchema>;
+
+// An audit entry as the API returns it, metadata decoded and the actor named
+export interface AuditEntryView {
+  id: number;
+  seq: number | null;
+  action: string;
+  actor: CommentAuthor;
+  resourceType: string;
+  resourceId: string;
+  metadata: Record<string, unknown>;
+  ipAddress: string | null;
+  createdAt: number;
+  hash: string | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntryView[];
+  nextCursor: number | null; // pass as `before`; null on the last page
+}
+
+// `head` is the newest link; an admin who records it can later show the log still ends there
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  head: { seq: number; hash: string } | null;
+  anchor: { seq: number; hash: string; prunedAt: number } | null;
+  failure: { seq: number; reason: string } | null;
+}
+
+export interface AuditSettings {
+  plan: string;
+  retentionDays: number | null; // null: kept forever
+  maxRetentionDays: number | null; // the plan's limit; null: no limit
+}
+
+export type NotificationType = typeof notificationTypes[number];
+export type NotificationDigestMode = typeof notificationDigestModes[number];
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+// A notification as the API returns it, data decoded and the actor named
+export interface NotificationView {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  workspaceId: number | null;
+  actor: CommentAuthor | null;
+  url: string | null;
+  data: Record<string, unknown>;
+  isRead: boolean;
+  createdAt: number;
+}
+
+export type ReminderKind = typeof reminderKinds[number];
+export type ReminderInput = z.input<typeof reminderInputSchema>;
+export type UpdateReminder = z.infer<typeof updateReminderSchema>;
+
+// A reminder as the API returns it; `mine` marks the ones the caller will be notified of
+export interface ReminderView {
+  id: number;
+  pageId: number;
+  blockId: number | null;
+  kind: ReminderKind;
+  date: string;
+  time: string | null;
+  note: string | null;
+  remindAt: number;
+  status: string;
+  mine: boolean;
+  createdBy: CommentAuthor;
+}
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmail = z.infer<typeof verifyEmailSchema>;
+
+// A signed-in session as the session list shows it; `id` is derived from the session id,
+// which itself never leaves the cookie
+export interface SessionView {
+  id: string;
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: number | null;
+  lastSeenAt: number | null;
+  expiresAt: number;
+}
+
+export type MFACode = z.infer<typeof mfaCodeSchema>;
+export type WorkspaceSecurity = z.infer<typeof workspaceSecuritySchema>;
+export type PasskeyRegistration = z.infer<typeof passkeyRegistrationSchema>;
+export type PasskeyAssertion = z.infer<typeof passkeyAssertionSchema>;
+
+// A passkey as the device list shows it
+export interface PasskeyView {
+  id: number;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: number | null;
+  lastUsedAt: number | null;
+}
+
+// `pending` is a setup that has not been confirmed with a code yet. `requiredBy` lists the
+// caller's workspaces whose policy requires MFA.
+export interface MFAStatus {
+  isEnabled: boolean;
+  pending: boolean;
+  lastUsed: number | null;
+  backupCodesRemaining: number;
+  // Passkeys also count as a second factor
+  passkeyCount: number;
+  requiredBy: { id: number; name: string }[];
+}
+
+// Shown once while enrolling; `otpauthUri` is what the QR code encodes
+export interface MFAEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface WorkspaceSecurityView extends WorkspaceSecurity {
+  // Members who would be asked to enroll at their next sign-in
+  membersWithoutMfa: CommentAuthor[];
+}
+
+// Returned by /api/login when the password was right but a second factor is needed
+export interface MFAChallenge {
+  mfaRequired: true;
+  methods: ("totp" | "passkey")[];
+  expiresAt: number;
+}
+
+export type TaskStatus = typeof taskStatuses[number];
+export type TaskDueFilter = typeof taskDueFilters[number];
+export type TaskSort = typeof taskSorts[number];
+export type TaskQuery = z.input<typeof taskQuerySchema>;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
+
+// A todo block as the inbox lists it. `dueDate` is the block's due date reminder, if any.
+export interface TaskView {
+  blockId: number;
+  pageId: number;
+  pageTitle: string;
+  pageIcon: string | null;
+  text: string;
+  checked: boolean;
+  assignee: CommentAuthor | null;
+  dueDate: { reminderId: number; date: string; time: string | null } | null;
+  isOverdue: boolean;
+  createdBy: string;
+  createdAt: number | null;
+  updatedAt: number | null;
+}
+
+export type ShareType = typeof shareTypes[number];
+export type CreatePageShare = z.infer<typeof createPageShareSchema>;
+export type UpdatePageShare = z.infer<typeof updatePageShareSchema>;
+
+// A share as its owner sees it; the password hash never leaves the server
+export interface PageShareSettings extends Omit<PageShare, "password"> {
+  hasPassword: boolean;
+}
+
+export interface SharedPageNode {
+  id: number;
+  title: string;
+  icon: string | null;
+  children: SharedPageNode[];
+}
+
+// What a share link visitor receives for one page of the shared tree
+export interface SharedPageView {
+  share: Pick<PageShare, "token" | "shareType" | "permissions" | "allowDownload" | "allowComments" | "expiresAt">;
+  page: Pick<Page, "id" | "title" | "icon" | "cover" | "updatedAt">;
+  blocks: Array<Pick<Block, "id" | "type" | "content" | "position" | "parentId" | "properties">>;
+  tree: SharedPageNode;
+}
+
+export type PageAccessLevel = typeof pageAccessLevels[number];
+export type PagePermissionEntry = z.infer<typeof pagePermissionEntrySchema>;
+export type PagePermissions = z.infer<typeof pagePermissionsSchema>;
+
+export interface WorkspaceMemberWithUser extends WorkspaceMember {
+  user: CommentAuthor;
+}
+
+export interface WorkspaceGroupWithMembers extends WorkspaceGroup {
+  memberIds: string[];
+}
+
+// What the permissions panel shows: the caller's own level, the entries set on this page,
+// and the entries it inherits from ancestors that this page does not override
+export interface PageAccessInfo {
+  level: PageAccessLevel;
+  entries: PagePermissionEntry[];
+  inherited: Array<PagePermissionEntry & { pageId: number; pageTitle: string }>;
+}
+
+export interface PageBacklink {
+  pageId: number;
+  title: string;
+  icon: string | null;
+  references: Array<{ blockId: number; kind: "mention" | "link"; excerpt: string }>;
+}
+
+export interface PageGraph {
+  nodes: Array<{ id: number; title: string; icon: string | null; parentId: number | null; inbound: number; outbound: number }>;
+  edges: Array<{ source: number; target: number; weight: number }>;
+}
+
+export interface SearchHighlight {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  pageId: number;
+  title: string;
+  icon: string | null;
+  parentId: number | null;
+  parentTitle: string | null;
+  titleHighlights: SearchHighlight[];
+  snippet: SearchHighlight[] | null; // best matching block, null when only the title matched
+  blockId: number | null;
+  matches: number;
+  score: number;
+  createdBy: string;
+  lastEditedBy: string | null;
+  updatedAt: number | null;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+}
+
+export interface RevisionBlock {
+  id: number;
+  type: string;
+  content: string | null;
+  position: number;
+  parentId: number | null;
+  properties: string | null;
+  lastEditedBy: string | null;
+}
+
+export interface BlockDiff {
+  blockId: number;
+  status: "added" | "removed" | "changed" | "moved" | "unchanged";
+  type: string;
+  before?: RevisionBlock;
+  after?: RevisionBlock;
+  editedBy?: string | null;
+}
+
+export interface RevisionDiff {
+  from: { revisionId: number | null; createdAt: number | null; createdBy: string | null };
+  to: { revisionId: number | null; createdAt: number | null; createdBy: string | null };
+  title?: { before: string; after: string };
+  icon?: { before: string | null; after: string | null };
+  blocks: BlockDiff[];
+}
+
 export interface BlockContent {
-  text?: string;
+  text?: string; // may contain mention tokens, see shared/mentions.ts
   checked?: boolean;
   language?: string;
   items?: string[];
@@ -483,4 +1649,5 @@ export interface BlockProperties {
   format?: string[];
   alignment?: "left" | "center" | "right";
   indentation?: number;
+  assigneeId?: string | null; // todo blocks: who the task is assigned to
 }